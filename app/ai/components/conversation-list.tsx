@@ -0,0 +1,129 @@
+/**
+ * AI 助手历史会话列表
+ * 支持搜索、恢复和删除会话
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Input, Popconfirm, Spin } from 'antd';
+import { MessageSquare, Plus, Search, Trash2 } from 'lucide-react';
+import { trpc } from '@/lib/trpc/client';
+import { handleApiError } from '@/lib/feedback';
+import { cn, formatRelativeTime } from '@/lib/utils';
+
+interface ConversationListProps {
+  activeId: string | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+}
+
+export function ConversationList({ activeId, disabled, onSelect, onNew, onDeleted }: ConversationListProps) {
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const utils = trpc.useUtils();
+  const { data: conversations, isLoading } = trpc.ai.conversations.useQuery(
+    debouncedSearch ? { search: debouncedSearch } : undefined
+  );
+  const deleteConversation = trpc.ai.deleteConversation.useMutation();
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteConversation.mutateAsync({ id });
+      await utils.ai.conversations.invalidate();
+      onDeleted(id);
+    } catch (error) {
+      handleApiError(error, '删除会话失败');
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <button
+        onClick={onNew}
+        disabled={disabled}
+        className={cn(
+          'flex items-center justify-center gap-2 w-full py-2 mb-3 rounded-xl text-sm font-medium',
+          'bg-gradient-to-r from-purple-500 to-pink-500 text-white shadow-sm',
+          'hover:shadow-md hover:shadow-purple-500/20 transition-all',
+          'disabled:opacity-50 disabled:cursor-not-allowed'
+        )}
+      >
+        <Plus className="h-4 w-4" />
+        新对话
+      </button>
+
+      <Input
+        allowClear
+        size="small"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        prefix={<Search className="h-3.5 w-3.5 text-muted-foreground" />}
+        placeholder="搜索对话"
+        className="mb-3"
+      />
+
+      <div className="flex-1 overflow-y-auto -mx-1 px-1 space-y-1">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Spin size="small" />
+          </div>
+        ) : !conversations?.length ? (
+          <div className="text-center text-xs text-muted-foreground py-8">
+            {debouncedSearch ? '没有匹配的对话' : '暂无历史对话'}
+          </div>
+        ) : (
+          conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              onClick={() => !disabled && onSelect(conversation.id)}
+              className={cn(
+                'group flex items-start gap-2 px-2.5 py-2 rounded-lg cursor-pointer transition-colors',
+                conversation.id === activeId
+                  ? 'bg-purple-500/10 text-purple-700 dark:text-purple-300'
+                  : 'hover:bg-muted/60',
+                disabled && 'cursor-not-allowed opacity-60'
+              )}
+            >
+              <MessageSquare className="h-4 w-4 mt-0.5 flex-shrink-0 opacity-60" />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm line-clamp-1">{conversation.title}</div>
+                <div className="text-[11px] text-muted-foreground mt-0.5">
+                  {formatRelativeTime(conversation.updatedAt)} · {conversation._count.messages} 条消息
+                </div>
+              </div>
+              <Popconfirm
+                title="删除这个对话？"
+                description="删除后无法恢复"
+                onConfirm={(e) => {
+                  e?.stopPropagation();
+                  handleDelete(conversation.id);
+                }}
+                onCancel={(e) => e?.stopPropagation()}
+                okText="删除"
+                cancelText="取消"
+                okButtonProps={{ danger: true }}
+              >
+                <button
+                  onClick={(e) => e.stopPropagation()}
+                  disabled={disabled}
+                  className="p-1 rounded opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-opacity"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </Popconfirm>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
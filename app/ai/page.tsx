@@ -5,6 +5,9 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
+import Link from 'next/link';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
 import {
   Sparkles,
   Send,
@@ -16,25 +19,46 @@ import {
   User,
   Trash2,
   AlertTriangle,
+  BookOpen,
+  Wrench,
+  Square,
+  History,
 } from 'lucide-react';
-import { Button, Card, Input, Avatar, Typography, Tooltip, Modal } from 'antd';
+import { Button, Card, Input, Avatar, Typography, Tooltip, Modal, Tag, Drawer } from 'antd';
 import { useToast } from '@/components/ui/toast';
 import { AppHeader } from '@/components/layout/app-header';
 import { AppSidebar } from '@/components/layout/app-sidebar';
 import { trpc } from '@/lib/trpc/client';
 import { cn } from '@/lib/utils';
 import { Fade, HoverLift } from '@/components/animation/fade';
-import { Typewriter, LoadingDots } from '@/components/animation';
-import { usePageLoadAnimation, useTypewriter } from '@/hooks/use-animation';
+import { LoadingDots } from '@/components/animation';
+import { usePageLoadAnimation } from '@/hooks/use-animation';
+import { readStreamEvents } from '@/lib/ai/assistant/sse';
+import { ConversationList } from './components/conversation-list';
 
 const { TextArea } = Input;
 
+type Citation = {
+  index: number;
+  entryId: string;
+  title: string;
+  feedTitle: string;
+};
+
+type ToolAction = {
+  tool: string;
+  success: boolean;
+  summary: string;
+};
+
 type Message = {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
-  isTyping?: boolean;
+  isStreaming?: boolean;
+  citations?: Citation[];
+  actions?: ToolAction[];
 };
 
 type Suggestion = {
@@ -65,29 +89,75 @@ const suggestions: Suggestion[] = [
   },
 ];
 
-// 打字机效果的消息内容组件
-function TypewriterMessage({
-  content,
-  onComplete,
-}: {
-  content: string;
-  onComplete?: () => void;
-}) {
-  const { displayText, isComplete } = useTypewriter(content, 15, 100);
+// 助手回答（Markdown，引用链接到文章详情）
+function AssistantMarkdown({ content }: { content: string }) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      components={{
+        p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0">{children}</p>,
+        ul: ({ children }) => <ul className="my-2 ml-5 list-disc space-y-1">{children}</ul>,
+        ol: ({ children }) => <ol className="my-2 ml-5 list-decimal space-y-1">{children}</ol>,
+        h1: ({ children }) => <h3 className="font-semibold text-base mt-3 mb-1">{children}</h3>,
+        h2: ({ children }) => <h3 className="font-semibold text-base mt-3 mb-1">{children}</h3>,
+        h3: ({ children }) => <h4 className="font-semibold mt-3 mb-1">{children}</h4>,
+        code: ({ children }) => <code className="px-1 py-0.5 rounded bg-black/5 dark:bg-white/10 text-xs font-mono">{children}</code>,
+        a: ({ href, children }) =>
+          href?.startsWith('/entries/') ? (
+            <Link href={href} className="text-purple-600 dark:text-purple-400 text-xs align-super no-underline hover:underline">
+              {children}
+            </Link>
+          ) : (
+            <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+              {children}
+            </a>
+          ),
+      }}
+    >
+      {content}
+    </ReactMarkdown>
+  );
+}
 
-  useEffect(() => {
-    if (isComplete && onComplete) {
-      onComplete();
-    }
-  }, [isComplete, onComplete]);
+// 工具执行记录和引用的文章
+function MessageSources({ citations, actions }: { citations?: Citation[]; actions?: ToolAction[] }) {
+  if (!citations?.length && !actions?.length) return null;
 
   return (
-    <span className="whitespace-pre-wrap">
-      {displayText}
-      {!isComplete && (
-        <span className="inline-block w-0.5 h-4 bg-purple-500 ml-0.5 animate-pulse" />
+    <div className="mt-3 pt-3 border-t border-border/50 space-y-2">
+      {actions && actions.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {actions.map((action, i) => (
+            <Tag
+              key={i}
+              color={action.success ? 'purple' : 'default'}
+              icon={<Wrench className="h-3 w-3 inline mr-1" />}
+            >
+              {action.summary}
+            </Tag>
+          ))}
+        </div>
       )}
-    </span>
+      {citations && citations.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <BookOpen className="h-3 w-3" />
+            引用文章
+          </div>
+          {citations.map((citation) => (
+            <Link
+              key={citation.index}
+              href={`/entries/${citation.entryId}`}
+              className="flex items-baseline gap-1.5 text-xs hover:text-purple-600 dark:hover:text-purple-400 transition-colors"
+            >
+              <span className="text-purple-600 dark:text-purple-400 flex-shrink-0">[{citation.index}]</span>
+              <span className="line-clamp-1">{citation.title}</span>
+              <span className="text-muted-foreground flex-shrink-0">· {citation.feedTitle}</span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
   );
 }
 
@@ -185,18 +255,20 @@ function MessageBubble({
               isUser ? 'text-primary-foreground' : 'text-foreground'
             )}
           >
-            {message.isTyping ? (
-              <TypewriterMessage
-                content={message.content}
-                onComplete={() => {
-                  message.isTyping = false;
-                }}
-              />
-            ) : (
+            {isUser ? (
               <span className="whitespace-pre-wrap">{message.content}</span>
+            ) : (
+              <>
+                <AssistantMarkdown content={message.content} />
+                {message.isStreaming && (
+                  <span className="inline-block w-0.5 h-4 bg-purple-500 ml-0.5 align-middle animate-pulse" />
+                )}
+              </>
             )}
           </div>
 
+          {!isUser && <MessageSources citations={message.citations} actions={message.actions} />}
+
           {/* 时间戳和操作 */}
           <div
             className={cn(
@@ -360,6 +432,7 @@ function ChatInput({
   value,
   onChange,
   onSend,
+  onStop,
   isLoading,
   onClear,
   hasMessages,
@@ -367,6 +440,7 @@ function ChatInput({
   value: string;
   onChange: (value: string) => void;
   onSend: () => void;
+  onStop: () => void;
   isLoading: boolean;
   onClear: () => void;
   hasMessages: boolean;
@@ -405,9 +479,9 @@ function ChatInput({
 
         {/* 按钮组 */}
         <div className="flex items-center gap-1 pb-1">
-          {/* 清空按钮 - 仅在有消息时显示 */}
+          {/* 删除按钮 - 仅在有消息时显示 */}
           {hasMessages && (
-            <Tooltip title="清空对话">
+            <Tooltip title="删除对话">
               <button
                 onClick={onClear}
                 disabled={isLoading}
@@ -422,11 +496,11 @@ function ChatInput({
             </Tooltip>
           )}
 
-          {/* 发送按钮 */}
-          <Tooltip title={isLoading ? 'AI 正在回复...' : '发送消息'}>
+          {/* 发送按钮（回复中可停止） */}
+          <Tooltip title={isLoading ? '停止生成' : '发送消息'}>
             <button
-              onClick={onSend}
-              disabled={!value.trim() || isLoading}
+              onClick={isLoading ? onStop : onSend}
+              disabled={!value.trim() && !isLoading}
               className={cn(
                 'p-2.5 rounded-xl transition-all duration-200',
                 'bg-gradient-to-r from-purple-500 to-pink-500',
@@ -437,7 +511,7 @@ function ChatInput({
               )}
             >
               {isLoading ? (
-                <div className="h-4 w-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                <Square className="h-4 w-4 fill-current" />
               ) : (
                 <Send className="h-4 w-4" />
               )}
@@ -449,7 +523,7 @@ function ChatInput({
   );
 }
 
-// 清空确认弹窗
+// 删除确认弹窗
 function ClearConfirmModal({
   open,
   onCancel,
@@ -478,9 +552,9 @@ function ClearConfirmModal({
           </div>
         </div>
 
-        <h3 className="text-lg font-semibold mb-2">清空对话</h3>
+        <h3 className="text-lg font-semibold mb-2">删除对话</h3>
         <p className="text-sm text-muted-foreground mb-6">
-          确定要清空所有对话消息吗？此操作不可撤销。
+          确定要删除当前对话吗？此操作不可撤销。
         </p>
 
         <div className="flex gap-3 w-full">
@@ -496,7 +570,7 @@ function ClearConfirmModal({
             onClick={onConfirm}
             className="flex-1 h-10"
           >
-            确认清空
+            确认删除
           </Button>
         </div>
       </div>
@@ -508,14 +582,17 @@ function ClearConfirmModal({
 export default function AIPage() {
   const { addToast } = useToast();
   const [messages, setMessages] = useState<Message[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [isClearModalOpen, setIsClearModalOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  // tRPC mutations
-  const aiChat = trpc.ai.chat.useMutation();
+  const utils = trpc.useUtils();
+  const deleteConversation = trpc.ai.deleteConversation.useMutation();
 
   // 页面加载动画
   const isPageLoaded = usePageLoadAnimation(100);
@@ -530,44 +607,155 @@ export default function AIPage() {
     scrollToBottom();
   }, [messages]);
 
+  // 离开页面时停止生成
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateMessage = (id: string, update: (message: Message) => Partial<Message>) => {
+    setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, ...update(m) } : m)));
+  };
+
   const handleSend = async () => {
     if (!input.trim() || isLoading) return;
 
     const userMessage: Message = {
-      id: Date.now().toString(),
+      id: `user-${Date.now()}`,
       role: 'user',
       content: input,
       timestamp: new Date(),
     };
+    const assistantId = `assistant-${Date.now()}`;
+    const assistantMessage: Message = {
+      id: assistantId,
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      isStreaming: true,
+      citations: [],
+      actions: [],
+    };
 
-    setMessages((prev) => [...prev, userMessage]);
+    setMessages((prev) => [...prev, userMessage, assistantMessage]);
     const currentInput = input;
+    const previousConversationId = conversationId;
     setInput('');
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let received = false;
+
     try {
-      const response = await aiChat.mutateAsync({
-        messages: [...messages, userMessage].map(({ role, content }) => ({ role, content })),
+      const response = await fetch('/api/ai/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversationId: conversationId ?? undefined, message: currentInput }),
+        signal: controller.signal,
       });
 
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: response.content,
-        timestamp: new Date(),
-        isTyping: true,
-      };
-      setMessages((prev) => [...prev, assistantMessage]);
+      if (response.status === 401) {
+        window.location.href = '/login';
+        return;
+      }
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || '请稍后重试');
+      }
+
+      for await (const event of readStreamEvents(response.body)) {
+        switch (event.type) {
+          case 'conversation':
+            setConversationId(event.id);
+            break;
+          case 'delta':
+            received = true;
+            updateMessage(assistantId, (m) => ({ content: m.content + event.text }));
+            break;
+          case 'action':
+            updateMessage(assistantId, (m) => ({ actions: [...(m.actions ?? []), event.action] }));
+            break;
+          case 'done':
+            received = true;
+            updateMessage(assistantId, () => ({
+              id: event.messageId ?? assistantId,
+              content: event.reply.content,
+              citations: event.reply.citations,
+              actions: event.reply.actions,
+              isStreaming: false,
+            }));
+            break;
+          case 'error':
+            throw new Error(event.message);
+        }
+      }
+    } catch (error) {
+      // 主动停止时不提示
+      if (!controller.signal.aborted) {
+        addToast({
+          type: 'error',
+          title: '发送失败',
+          message: error instanceof Error ? error.message : '请稍后重试',
+        });
+      }
+
+      // 已生成的内容会保留；没有生成内容时服务端已撤销本轮，回退输入框内容
+      if (!received) {
+        setMessages((prev) => prev.filter((m) => m.id !== userMessage.id && m.id !== assistantId));
+        setConversationId(previousConversationId);
+        setInput(currentInput);
+      }
+    } finally {
+      setMessages((prev) =>
+        prev
+          .filter((m) => !(m.id === assistantId && !m.content.trim()))
+          .map((m) => (m.isStreaming ? { ...m, isStreaming: false } : m))
+      );
+      abortRef.current = null;
+      setIsLoading(false);
+      utils.ai.conversations.invalidate();
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleSelectConversation = async (id: string) => {
+    if (isLoading || id === conversationId) return;
+
+    try {
+      const conversation = await utils.ai.conversation.fetch({ id });
+      setConversationId(conversation.id);
+      setMessages(
+        conversation.messages.map((m) => ({
+          id: m.id,
+          role: m.role,
+          content: m.content,
+          timestamp: new Date(m.createdAt),
+          citations: m.citations,
+          actions: m.actions,
+        }))
+      );
+      setIsHistoryOpen(false);
     } catch (error) {
       addToast({
         type: 'error',
-        title: '发送失败',
+        title: '加载对话失败',
         message: error instanceof Error ? error.message : '请稍后重试',
       });
-      // 如果出错，回退输入框内容
-      setInput(currentInput);
-    } finally {
-      setIsLoading(false);
+    }
+  };
+
+  const startNewConversation = () => {
+    if (isLoading) return;
+    setConversationId(null);
+    setMessages([]);
+    setIsHistoryOpen(false);
+  };
+
+  const handleConversationDeleted = (id: string) => {
+    if (id === conversationId) {
+      setConversationId(null);
+      setMessages([]);
     }
   };
 
@@ -599,12 +787,40 @@ export default function AIPage() {
     setIsClearModalOpen(false);
   };
 
-  const confirmClear = () => {
-    setMessages([]);
-    setIsClearModalOpen(false);
-    addToast({ type: 'success', title: '对话已清空' });
+  const confirmClear = async () => {
+    try {
+      if (conversationId) {
+        await deleteConversation.mutateAsync({ id: conversationId });
+        utils.ai.conversations.invalidate();
+      }
+      setConversationId(null);
+      setMessages([]);
+      setIsClearModalOpen(false);
+      addToast({ type: 'success', title: '对话已删除' });
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: '删除失败',
+        message: error instanceof Error ? error.message : '请稍后重试',
+      });
+    }
   };
 
+  // 流式回答在收到内容前显示加载状态
+  const visibleMessages = messages.filter(
+    (m) => !(m.isStreaming && !m.content && !m.actions?.length)
+  );
+
+  const conversationList = (
+    <ConversationList
+      activeId={conversationId}
+      disabled={isLoading}
+      onSelect={handleSelectConversation}
+      onNew={startNewConversation}
+      onDeleted={handleConversationDeleted}
+    />
+  );
+
   return (
     <div className="h-screen flex flex-col overflow-hidden">
       <AppHeader
@@ -623,6 +839,11 @@ export default function AIPage() {
           <AppSidebar />
         </aside>
 
+        {/* 历史对话 */}
+        <aside className="hidden xl:flex w-64 flex-shrink-0 flex-col border-r border-border/60 bg-muted/5 p-3">
+          {conversationList}
+        </aside>
+
         {/* 主内容区 */}
         <main className="flex-1 overflow-y-auto bg-background/30">
           <div className="max-w-4xl mx-auto px-4 sm:px-6 py-6 h-full flex flex-col">
@@ -633,19 +854,28 @@ export default function AIPage() {
               distance={15}
               duration={500}
             >
-              <div className="mb-4">
-                <h1 className="text-2xl font-bold flex items-center gap-3">
-                  <div className="relative">
-                    <Sparkles className="h-7 w-7 text-purple-500" />
-                    <div className="absolute inset-0 blur-lg bg-purple-500/30 rounded-full" />
-                  </div>
-                  <span className="bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
-                    AI 助手
-                  </span>
-                </h1>
-                <p className="text-muted-foreground text-sm mt-1">
-                  智能分析您的文章，提供摘要、趋势分析和个性化推荐
-                </p>
+              <div className="mb-4 flex items-start justify-between gap-4">
+                <div>
+                  <h1 className="text-2xl font-bold flex items-center gap-3">
+                    <div className="relative">
+                      <Sparkles className="h-7 w-7 text-purple-500" />
+                      <div className="absolute inset-0 blur-lg bg-purple-500/30 rounded-full" />
+                    </div>
+                    <span className="bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
+                      AI 助手
+                    </span>
+                  </h1>
+                  <p className="text-muted-foreground text-sm mt-1">
+                    智能分析您的文章，提供摘要、趋势分析和个性化推荐
+                  </p>
+                </div>
+                <Button
+                  className="xl:hidden"
+                  icon={<History className="h-4 w-4" />}
+                  onClick={() => setIsHistoryOpen(true)}
+                >
+                  历史对话
+                </Button>
               </div>
             </Fade>
 
@@ -659,7 +889,7 @@ export default function AIPage() {
                   <EmptyState onSuggestion={handleSuggestion} />
                 ) : (
                   <>
-                    {messages.map((msg, index) => (
+                    {visibleMessages.map((msg, index) => (
                       <MessageBubble
                         key={msg.id}
                         message={msg}
@@ -667,7 +897,7 @@ export default function AIPage() {
                         onCopy={copyMessage}
                       />
                     ))}
-                    {isLoading && <LoadingMessage />}
+                    {isLoading && visibleMessages.every((m) => !m.isStreaming) && <LoadingMessage />}
                     <div ref={messagesEndRef} />
                   </>
                 )}
@@ -686,6 +916,7 @@ export default function AIPage() {
                 value={input}
                 onChange={setInput}
                 onSend={handleSend}
+                onStop={handleStop}
                 isLoading={isLoading}
                 onClear={openClearModal}
                 hasMessages={messages.length > 0}
@@ -708,7 +939,7 @@ export default function AIPage() {
                   <Lightbulb className="h-4 w-4" />
                   <span>
                     <strong>提示：</strong>AI
-                    助手可以帮助您分析文章、生成摘要、发现趋势。回答基于您订阅的文章内容。
+                    助手会从您订阅的全部文章中检索相关内容并标注引用，还可以帮您为文章加星标、创建订阅规则、总结订阅源。
                   </span>
                 </Typography.Text>
               </Card>
@@ -717,12 +948,23 @@ export default function AIPage() {
         </main>
       </div>
 
-      {/* 清空确认弹窗 */}
+      {/* 删除确认弹窗 */}
       <ClearConfirmModal
         open={isClearModalOpen}
         onCancel={closeClearModal}
         onConfirm={confirmClear}
       />
+
+      {/* 历史对话（小屏幕） */}
+      <Drawer
+        title="历史对话"
+        placement="left"
+        width={300}
+        open={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+      >
+        {conversationList}
+      </Drawer>
     </div>
   );
 }
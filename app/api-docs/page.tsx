@@ -0,0 +1,324 @@
+/**
+ * REST API 文档浏览器
+ * 读取 /api/v1/openapi.json，按分组列出接口，可填写 API Key 直接发起请求
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Book, ChevronDown, ChevronRight, Download, Play } from 'lucide-react';
+import { Button, Card, Empty, Input, Spin, Tag } from 'antd';
+import { PageTransition } from '@/components/animation/fade';
+import { cn } from '@/lib/utils';
+
+const SPEC_URL = '/api/v1/openapi.json';
+
+type JsonSchema = Record<string, any>;
+
+interface Parameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  operationId: string;
+  tags: string[];
+  summary: string;
+  description?: string;
+  'x-required-scope': string;
+  parameters: Parameter[];
+  requestBody?: { content: { 'application/json': { schema: JsonSchema } } };
+  responses: Record<string, { description: string; content?: { 'application/json': { schema: JsonSchema } } }>;
+}
+
+interface OpenApiDocument {
+  info: { title: string; version: string; description: string };
+  servers: { url: string }[];
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+const methodColors: Record<string, string> = {
+  get: 'blue',
+  post: 'green',
+  patch: 'orange',
+  delete: 'red',
+};
+
+/**
+ * 展开 $ref（遇到循环引用时保留引用）
+ */
+function resolveSchema(schema: JsonSchema, schemas: Record<string, JsonSchema>, seen: string[] = []): JsonSchema {
+  if (typeof schema !== 'object' || schema === null) return schema;
+  if (Array.isArray(schema)) return schema.map((item) => resolveSchema(item, schemas, seen));
+
+  if (typeof schema.$ref === 'string') {
+    const name = schema.$ref.split('/').pop()!;
+    if (seen.includes(name) || !schemas[name]) return schema;
+    return resolveSchema(schemas[name], schemas, [...seen, name]);
+  }
+
+  return Object.fromEntries(
+    Object.entries(schema).map(([key, value]) => [key, resolveSchema(value, schemas, seen)])
+  );
+}
+
+function JsonBlock({ value }: { value: unknown }) {
+  return (
+    <pre className="bg-slate-900 text-slate-100 text-xs rounded-lg p-3 overflow-auto max-h-80">
+      {typeof value === 'string' ? value : JSON.stringify(value, null, 2)}
+    </pre>
+  );
+}
+
+function OperationCard({
+  method,
+  path,
+  operation,
+  doc,
+  apiKey,
+}: {
+  method: string;
+  path: string;
+  operation: Operation;
+  doc: OpenApiDocument;
+  apiKey: string;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [body, setBody] = useState('{\n}');
+  const [sending, setSending] = useState(false);
+  const [result, setResult] = useState<{ status: number; body: unknown } | null>(null);
+
+  const schemas = doc.components.schemas;
+  const bodySchema = operation.requestBody?.content['application/json'].schema;
+  const [successStatus, success] = Object.entries(operation.responses)[0];
+
+  const send = async () => {
+    setSending(true);
+    setResult(null);
+    try {
+      let url = doc.servers[0].url + path;
+      const query = new URLSearchParams();
+      for (const param of operation.parameters) {
+        const value = values[param.name];
+        if (!value) continue;
+        if (param.in === 'path') {
+          url = url.replace(`{${param.name}}`, encodeURIComponent(value));
+        } else {
+          query.set(param.name, value);
+        }
+      }
+      if (query.size > 0) url += `?${query}`;
+
+      const response = await fetch(url, {
+        method: method.toUpperCase(),
+        headers: {
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+          ...(bodySchema && { 'Content-Type': 'application/json' }),
+        },
+        body: bodySchema ? body : undefined,
+      });
+      const text = await response.text();
+      let parsed: unknown = text;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        // 非 JSON 响应按原文显示
+      }
+      setResult({ status: response.status, body: parsed });
+    } catch (err) {
+      setResult({ status: 0, body: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-border/60 overflow-hidden">
+      <button
+        type="button"
+        className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-muted/40"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        <Tag color={methodColors[method]} className="font-mono uppercase w-16 text-center">
+          {method}
+        </Tag>
+        <code className="font-mono text-sm">{path}</code>
+        <span className="text-sm text-muted-foreground truncate">{operation.summary}</span>
+        <Tag className="ml-auto">{operation['x-required-scope']}</Tag>
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-4 border-t border-border/60 pt-4">
+          {operation.description && (
+            <p className="text-sm text-muted-foreground">{operation.description}</p>
+          )}
+
+          {operation.parameters.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-medium text-sm">参数</h4>
+              {operation.parameters.map((param) => (
+                <div key={param.in + param.name} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
+                  <div className="text-sm">
+                    <code className="font-mono">{param.name}</code>
+                    {param.required && <span className="text-red-500 ml-1">*</span>}
+                    <span className="text-xs text-muted-foreground ml-2">
+                      {param.in} · {param.schema.enum?.join(' | ') ?? param.schema.format ?? param.schema.type}
+                    </span>
+                  </div>
+                  <Input
+                    className="md:col-span-2"
+                    size="small"
+                    placeholder={param.description ?? (param.schema.default !== undefined ? `默认 ${param.schema.default}` : '')}
+                    value={values[param.name] ?? ''}
+                    onChange={(e) => setValues({ ...values, [param.name]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {bodySchema && (
+            <div className="space-y-2">
+              <h4 className="font-medium text-sm">请求体</h4>
+              <JsonBlock value={resolveSchema(bodySchema, schemas)} />
+              <Input.TextArea
+                className="font-mono text-xs"
+                autoSize={{ minRows: 3, maxRows: 12 }}
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="font-medium text-sm">
+              响应 <span className="font-mono text-green-600">{successStatus}</span>
+            </h4>
+            {success.content && <JsonBlock value={resolveSchema(success.content['application/json'].schema, schemas)} />}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button type="primary" icon={<Play className="h-4 w-4" />} loading={sending} onClick={send}>
+              发送请求
+            </Button>
+            {!apiKey && <span className="text-xs text-muted-foreground">请先在上方填写 API Key</span>}
+          </div>
+
+          {result && (
+            <div className="space-y-2">
+              <h4 className="font-medium text-sm">
+                结果{' '}
+                <span className={cn('font-mono', result.status >= 200 && result.status < 300 ? 'text-green-600' : 'text-red-500')}>
+                  {result.status || '网络错误'}
+                </span>
+              </h4>
+              <JsonBlock value={result.body} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ApiDocsPage() {
+  const router = useRouter();
+  const [doc, setDoc] = useState<OpenApiDocument | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [apiKey, setApiKey] = useState('');
+
+  useEffect(() => {
+    fetch(SPEC_URL)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.json();
+      })
+      .then(setDoc)
+      .catch((err) => setLoadError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  // 按分组整理接口
+  const groups = useMemo(() => {
+    const result = new Map<string, { method: string; path: string; operation: Operation }[]>();
+    if (!doc) return result;
+    for (const [path, methods] of Object.entries(doc.paths)) {
+      for (const [method, operation] of Object.entries(methods)) {
+        const tag = operation.tags[0];
+        result.set(tag, [...(result.get(tag) ?? []), { method, path, operation }]);
+      }
+    }
+    return result;
+  }, [doc]);
+
+  return (
+    <PageTransition className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        {/* 头部 */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button
+            type="text"
+            shape="circle"
+            icon={<ArrowLeft className="h-5 w-5" />}
+            onClick={() => router.back()}
+          />
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold flex items-center gap-3">
+              <Book className="h-6 w-6 text-primary" />
+              REST API 文档
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              {doc ? `${doc.info.title} v${doc.info.version} · ${doc.servers[0].url}` : '加载中...'}
+            </p>
+          </div>
+          <Button icon={<Download className="h-4 w-4" />} href={SPEC_URL} target="_blank">
+            OpenAPI JSON
+          </Button>
+        </div>
+
+        {loadError && <Empty description={`加载文档失败：${loadError}`} />}
+        {!doc && !loadError && (
+          <div className="flex justify-center py-16">
+            <Spin />
+          </div>
+        )}
+
+        {doc && (
+          <div className="space-y-6">
+            <Card>
+              <p className="text-sm text-muted-foreground mb-4">{doc.info.description}</p>
+              <Input.Password
+                placeholder="API Key（rss_ 开头），仅保存在当前页面"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value.trim())}
+              />
+            </Card>
+
+            {[...groups.entries()].map(([tag, operations]) => (
+              <Card key={tag} title={tag}>
+                <div className="space-y-2">
+                  {operations.map(({ method, path, operation }) => (
+                    <OperationCard
+                      key={operation.operationId}
+                      method={method}
+                      path={path}
+                      operation={operation}
+                      doc={doc}
+                      apiKey={apiKey}
+                    />
+                  ))}
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * 账户归档导出 API
+ * 以 NDJSON 流式返回完整账户数据
+ */
+
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { encodeArchiveRecord, exportAccount } from '@/lib/archive';
+import { error, info } from '@/lib/logger';
+
+export async function GET() {
+  const session = await getSession();
+  if (!session?.userId) {
+    return NextResponse.json({ error: '未登录' }, { status: 401 });
+  }
+  const userId = session.userId;
+
+  const encoder = new TextEncoder();
+  const records = exportAccount(userId);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await records.next();
+        if (done) {
+          await info('system', '导出账户归档', { userId });
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(encodeArchiveRecord(value)));
+        }
+      } catch (err) {
+        // 不写 footer，导入时会识别为不完整的归档
+        await error('system', '导出账户归档失败', err instanceof Error ? err : undefined, { userId });
+        controller.error(err);
+      }
+    },
+    async cancel() {
+      await records.return(undefined);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Content-Disposition': `attachment; filename="rss-post-account-${new Date().toISOString().split('T')[0]}.ndjson"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * 账户归档导入 API
+ * 请求体为导出的 NDJSON 归档，?conflict=skip|overwrite 指定已存在数据的处理方式（默认 skip）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { ArchiveFormatError, importAccount, readArchiveRecords } from '@/lib/archive';
+import { error } from '@/lib/logger';
+
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session?.userId) {
+    return NextResponse.json({ error: '未登录' }, { status: 401 });
+  }
+
+  const conflict = request.nextUrl.searchParams.get('conflict') ?? 'skip';
+  if (conflict !== 'skip' && conflict !== 'overwrite') {
+    return NextResponse.json({ error: 'conflict 只能为 skip 或 overwrite' }, { status: 400 });
+  }
+
+  if (!request.body) {
+    return NextResponse.json({ error: '请上传归档文件' }, { status: 400 });
+  }
+
+  try {
+    const result = await importAccount(session.userId, readArchiveRecords(request.body), { conflict });
+    return NextResponse.json({ success: true, ...result });
+  } catch (err) {
+    if (err instanceof ArchiveFormatError) {
+      return NextResponse.json(
+        { error: `${err.message}。已导入的数据会保留，修正后可重新导入` },
+        { status: 400 }
+      );
+    }
+
+    await error('system', '导入账户归档失败', err instanceof Error ? err : undefined, { userId: session.userId });
+    return NextResponse.json({ error: '导入失败，请稍后重试' }, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * AI 助手流式对话 API
+ * 以 Server-Sent Events 逐段返回回答，对话保存到会话中
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession } from '@/lib/auth/session';
+import { getChatAssistant } from '@/lib/ai/assistant/chat-assistant';
+import {
+  discardConversationTurn,
+  saveAssistantReply,
+  startConversationTurn,
+} from '@/lib/ai/assistant/conversations';
+import { encodeStreamEvent } from '@/lib/ai/assistant/sse';
+import type { AssistantStreamEvent } from '@/lib/ai/assistant/types';
+import { error } from '@/lib/logger';
+
+const chatSchema = z.object({
+  conversationId: z.string().uuid().optional(),
+  message: z.string().trim().min(1, '消息不能为空').max(20000),
+});
+
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session?.userId) {
+    return NextResponse.json({ error: '未登录' }, { status: 401 });
+  }
+  const userId = session.userId;
+
+  const parsed = chatSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || '请求参数无效' }, { status: 400 });
+  }
+
+  const turn = await startConversationTurn(userId, parsed.data.conversationId, parsed.data.message);
+  if (!turn) {
+    return NextResponse.json({ error: '会话不存在' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  const { conversation, userMessageId, history } = turn;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (event: AssistantStreamEvent) => {
+        if (closed || request.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+        } catch {
+          // 客户端已断开
+          closed = true;
+        }
+      };
+
+      let partial = '';
+      let finished = false;
+
+      try {
+        send({ type: 'conversation', id: conversation.id, title: conversation.title });
+
+        for await (const event of getChatAssistant().stream(userId, history, request.signal)) {
+          if (event.type === 'delta') {
+            partial += event.text;
+            send(event);
+          } else if (event.type === 'done') {
+            const messageId = await saveAssistantReply(conversation.id, event.reply);
+            finished = true;
+            send({ ...event, messageId });
+          } else {
+            send(event);
+          }
+        }
+      } catch (err) {
+        if (!finished) {
+          // 已有输出（如客户端中途停止）时保留部分回答，否则撤销本轮
+          if (partial.trim()) {
+            await saveAssistantReply(conversation.id, {
+              role: 'assistant',
+              content: partial.trim(),
+              citations: [],
+              actions: [],
+            });
+          } else {
+            await discardConversationTurn(conversation.id, userMessageId);
+          }
+        }
+
+        if (!request.signal.aborted) {
+          await error('ai', 'AI 助手流式回答失败', err instanceof Error ? err : undefined, {
+            userId,
+            conversationId: conversation.id,
+          });
+          send({ type: 'error', message: 'AI处理失败，请稍后重试' });
+        }
+      } finally {
+        if (!closed) {
+          try {
+            controller.close();
+          } catch {
+            // 客户端已断开
+          }
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -36,7 +36,7 @@ export async function GET(req: NextRequest) {
         // 统计信息
         _count: {
           select: {
-            feeds: true,
+            subscriptions: true,
             categories: true,
           },
         },
@@ -0,0 +1,112 @@
+/**
+ * Fever 兼容 API
+ * 服务地址为 /api/fever，客户端以用户名 + API Key 登录，表单字段 api_key 为 md5("用户名:API Key")
+ * 读取需要 read 权限，标记需要 write 权限
+ * 公开路由，由本路由自行验证 api_key
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { error } from '@/lib/logger';
+import { validateFeverApiKey } from '@/lib/auth/user-api-key';
+import {
+  FEVER_API_VERSION,
+  getFeeds,
+  getGroups,
+  getItems,
+  getLastRefreshedOnTime,
+  getSavedItemIds,
+  getUnreadItemIds,
+  mark,
+  parseIdList,
+  type FeverMark,
+} from '@/lib/sync/fever';
+
+const ITEM_MARKS = ['read', 'unread', 'saved', 'unsaved'] as const;
+
+/**
+ * 解析 mark 参数，无效时返回 null
+ */
+function parseMark(params: URLSearchParams): FeverMark | null {
+  const target = params.get('mark');
+  const as = params.get('as');
+  const id = Number(params.get('id'));
+  if (!Number.isSafeInteger(id) || id < 0) return null;
+
+  if (target === 'item') {
+    const itemMark = ITEM_MARKS.find((m) => m === as);
+    return itemMark ? { mark: 'item', as: itemMark, id } : null;
+  }
+
+  if ((target === 'feed' || target === 'group') && as === 'read') {
+    const before = Number(params.get('before'));
+    return { mark: target, as, id, before: before > 0 ? before : undefined };
+  }
+
+  return null;
+}
+
+async function handle(request: NextRequest) {
+  const query = request.nextUrl.searchParams;
+  const form = request.method === 'POST' ? new URLSearchParams(await request.text()) : new URLSearchParams();
+  const params = new URLSearchParams([...query, ...form]);
+
+  if (!query.has('api')) {
+    return NextResponse.json({ error: '缺少 api 参数' }, { status: 400 });
+  }
+
+  const markInput = parseMark(params);
+  const auth = await validateFeverApiKey(params.get('api_key') ?? '', markInput ? ['read', 'write'] : ['read']);
+
+  // Fever 以 auth: 0 表示认证失败，仍返回 200
+  if (!auth.valid || !auth.userId) {
+    return NextResponse.json({ api_version: FEVER_API_VERSION, auth: 0 });
+  }
+  const userId = auth.userId;
+
+  try {
+    if (markInput) {
+      await mark(userId, markInput);
+    }
+
+    const response: Record<string, unknown> = {
+      api_version: FEVER_API_VERSION,
+      auth: 1,
+      last_refreshed_on_time: await getLastRefreshedOnTime(userId),
+    };
+
+    if (params.has('groups')) Object.assign(response, await getGroups(userId));
+    if (params.has('feeds')) Object.assign(response, await getFeeds(userId));
+    if (params.has('favicons')) response.favicons = [];
+    if (params.has('links')) response.links = [];
+    if (params.has('unread_item_ids')) Object.assign(response, await getUnreadItemIds(userId));
+    if (params.has('saved_item_ids')) Object.assign(response, await getSavedItemIds(userId));
+
+    if (params.has('items')) {
+      const sinceId = params.get('since_id');
+      const maxId = params.get('max_id');
+      Object.assign(
+        response,
+        await getItems(userId, {
+          sinceId: sinceId !== null ? Number(sinceId) || 0 : undefined,
+          maxId: maxId !== null && Number(maxId) > 0 ? Number(maxId) : undefined,
+          withIds: params.has('with_ids') ? parseIdList(params.get('with_ids')) : undefined,
+        })
+      );
+    }
+
+    // 标记后返回最新的未读/星标 ID，便于客户端同步
+    if (markInput?.mark === 'item' && markInput.as.endsWith('saved')) {
+      Object.assign(response, await getSavedItemIds(userId));
+    } else if (markInput) {
+      Object.assign(response, await getUnreadItemIds(userId));
+    }
+
+    return NextResponse.json(response);
+  } catch (err) {
+    await error('api', 'Fever API 请求失败', err instanceof Error ? err : undefined, { userId });
+    return NextResponse.json({ api_version: FEVER_API_VERSION, auth: 1, error: '请求失败' }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,215 @@
+/**
+ * Google Reader 兼容 API
+ * 服务地址为 /api/greader，客户端以用户名 + API Key 登录（ClientLogin 返回的 Auth 即 API Key）
+ * 之后请求携带 Authorization: GoogleLogin auth=<API Key>；读取需要 read 权限，修改需要 write 权限
+ * 公开路由，由本路由自行验证 API Key
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { error } from '@/lib/logger';
+import { validateApiKeyAuth } from '@/lib/auth/api-auth';
+import { validateUserApiKey, type ApiKeyScope } from '@/lib/auth/user-api-key';
+import { loginRateLimiter, getClientIdentifier, rateLimitResponse } from '@/lib/security/rate-limit';
+import { parseContinuation, parseItemId } from '@/lib/sync/ids';
+import {
+  disableTag,
+  editSubscription,
+  editTag,
+  getItemContents,
+  getStreamContents,
+  getStreamItemIds,
+  getSubscriptionList,
+  getTagList,
+  getUnreadCounts,
+  getUserInfo,
+  markAllAsRead,
+  renameTag,
+  subscribeFeed,
+  SyncApiError,
+  type StreamQuery,
+} from '@/lib/sync/greader';
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+const API_PREFIX = 'reader/api/0/';
+const STREAM_CONTENTS = 'stream/contents/';
+
+const text = (body: string, status = 200) =>
+  new NextResponse(body, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+
+/**
+ * 合并查询参数与表单参数（参数可重复，如 i、s、a、r）
+ */
+async function readParams(request: NextRequest): Promise<URLSearchParams> {
+  const params = new URLSearchParams(request.nextUrl.searchParams);
+  if (request.method === 'POST') {
+    const body = new URLSearchParams(await request.text());
+    body.forEach((value, key) => params.append(key, value));
+  }
+  return params;
+}
+
+function streamQuery(streamId: string, params: URLSearchParams): StreamQuery {
+  const number = (key: string) => {
+    const value = Number(params.get(key));
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+
+  return {
+    streamId,
+    count: number('n'),
+    oldestFirst: params.get('r') === 'o',
+    newerThan: number('ot'),
+    olderThan: number('nt'),
+    exclude: params.get('xt') ?? undefined,
+    include: params.get('it') ?? undefined,
+    continuation: parseContinuation(params.get('c')),
+  };
+}
+
+/**
+ * 流 ID 可能以编码形式出现在路径中（如 user%2F-%2Flabel%2F...）
+ */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function itemIds(params: URLSearchParams): number[] {
+  return params.getAll('i').map(parseItemId).filter((id): id is number => id !== null);
+}
+
+/**
+ * ClientLogin：Email 为用户名或邮箱，Passwd 为 API Key
+ */
+async function clientLogin(request: NextRequest, params: URLSearchParams) {
+  const rateLimit = await loginRateLimiter.check(getClientIdentifier(request));
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(rateLimit.resetTime);
+  }
+
+  const login = params.get('Email')?.trim() ?? '';
+  const apiKey = params.get('Passwd')?.trim() ?? '';
+  const result = await validateUserApiKey(apiKey, ['read']);
+
+  const user = result.valid
+    ? await db.user.findUnique({ where: { id: result.userId }, select: { username: true, email: true } })
+    : null;
+
+  if (!user || (login !== user.username && login.toLowerCase() !== user.email.toLowerCase())) {
+    return text('Error=BadAuthentication\n', 401);
+  }
+
+  return text(`SID=${apiKey}\nLSID=null\nAuth=${apiKey}\n`);
+}
+
+/**
+ * 按路径分发请求
+ */
+async function dispatch(request: NextRequest, path: string) {
+  const params = await readParams(request);
+
+  if (path === 'accounts/ClientLogin') {
+    return clientLogin(request, params);
+  }
+
+  if (!path.startsWith(API_PREFIX)) {
+    return text('Not Found', 404);
+  }
+  const endpoint = path.slice(API_PREFIX.length);
+  const write = request.method === 'POST' && endpoint !== 'stream/items/contents';
+
+  const requiredScopes: ApiKeyScope[] = write ? ['write'] : ['read'];
+  const auth = await validateApiKeyAuth(request, requiredScopes);
+  if (!auth.valid || !auth.userId) {
+    return text('Unauthorized', 401);
+  }
+  const userId = auth.userId;
+
+  if (endpoint.startsWith(STREAM_CONTENTS)) {
+    const streamId = endpoint.slice(STREAM_CONTENTS.length) || params.get('s') || '';
+    return NextResponse.json(await getStreamContents(userId, streamQuery(streamId, params)));
+  }
+
+  switch (endpoint) {
+    case 'token':
+      return text(auth.apiKeyId ?? '');
+    case 'user-info':
+      return NextResponse.json(await getUserInfo(userId));
+    case 'subscription/list':
+      return NextResponse.json(await getSubscriptionList(userId));
+    case 'tag/list':
+      return NextResponse.json(await getTagList(userId));
+    case 'unread-count':
+      return NextResponse.json(await getUnreadCounts(userId));
+    case 'stream/items/ids':
+      return NextResponse.json(await getStreamItemIds(userId, streamQuery(params.get('s') ?? '', params)));
+    case 'stream/items/contents':
+      return NextResponse.json(await getItemContents(userId, itemIds(params)));
+  }
+
+  if (!write) {
+    return text('Method Not Allowed', 405);
+  }
+
+  switch (endpoint) {
+    case 'edit-tag':
+      await editTag(userId, itemIds(params), params.getAll('a'), params.getAll('r'));
+      return text('OK');
+    case 'mark-all-as-read': {
+      const ts = Number(params.get('ts'));
+      await markAllAsRead(userId, params.get('s') ?? '', Number.isFinite(ts) && ts > 0 ? ts : undefined);
+      return text('OK');
+    }
+    case 'subscription/edit': {
+      const action = params.get('ac');
+      if (action !== 'subscribe' && action !== 'unsubscribe' && action !== 'edit') {
+        throw new SyncApiError('无效的 ac 参数');
+      }
+      await editSubscription(userId, {
+        action,
+        streamIds: params.getAll('s'),
+        title: params.get('t') ?? undefined,
+        addLabel: params.get('a') ?? undefined,
+        removeLabel: params.get('r') ?? undefined,
+      });
+      return text('OK');
+    }
+    case 'subscription/quickadd': {
+      const url = (params.get('quickadd') ?? '').replace(/^feed\//, '');
+      const added = await subscribeFeed(userId, url);
+      return NextResponse.json({ query: url, numResults: 1, streamId: added.streamId, streamName: added.title });
+    }
+    case 'rename-tag':
+      await renameTag(userId, params.get('s') ?? '', params.get('dest') ?? '');
+      return text('OK');
+    case 'disable-tag':
+      await disableTag(userId, params.get('s') ?? '');
+      return text('OK');
+  }
+
+  return text('Not Found', 404);
+}
+
+async function handle(request: NextRequest, { params }: RouteContext) {
+  const { path } = await params;
+
+  try {
+    return await dispatch(request, path.map(decodeSegment).join('/'));
+  } catch (err) {
+    if (err instanceof SyncApiError) {
+      return text(err.message, err.status);
+    }
+    await error('api', 'Google Reader API 请求失败', err instanceof Error ? err : undefined, {
+      path: path.join('/'),
+    });
+    return text('Internal Server Error', 500);
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,62 @@
+/**
+ * 对外订阅源
+ * GET /api/outbound/{token}?format=atom|rss|json，默认 Atom
+ * 支持 ETag / Last-Modified 条件请求；公开路由，仅凭令牌访问
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  findOutboundFeed,
+  loadOutboundFeed,
+  outboundETag,
+  outboundFeedUrl,
+  recordOutboundAccess,
+  renderOutboundFeed,
+  OUTBOUND_CONTENT_TYPES,
+  OUTBOUND_FORMATS,
+  type OutboundFormat,
+} from '@/lib/outbound';
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+// 允许阅读器缓存 5 分钟；不允许共享缓存，重置令牌后旧地址不再返回内容
+const CACHE_CONTROL = 'private, max-age=300';
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { token } = await params;
+  const format = (request.nextUrl.searchParams.get('format') || 'atom') as OutboundFormat;
+
+  if (!OUTBOUND_FORMATS.includes(format)) {
+    return NextResponse.json({ error: `不支持的格式，可选 ${OUTBOUND_FORMATS.join(' / ')}` }, { status: 400 });
+  }
+
+  const feed = await findOutboundFeed(token);
+  if (!feed) {
+    return NextResponse.json({ error: '订阅源不存在或已失效' }, { status: 404, headers: { 'Cache-Control': 'no-store' } });
+  }
+
+  const origin = request.nextUrl.origin;
+  const { channel, items } = await loadOutboundFeed(feed, outboundFeedUrl(origin, token, format), origin);
+  const body = renderOutboundFeed(format, channel, items);
+
+  await recordOutboundAccess(feed.id);
+
+  const etag = outboundETag(format, body, channel.updatedAt);
+  const lastModified = channel.updatedAt.toUTCString();
+  const headers = { 'Cache-Control': CACHE_CONTROL, ETag: etag, 'Last-Modified': lastModified };
+
+  // If-None-Match 优先于 If-Modified-Since
+  const ifNoneMatch = request.headers.get('if-none-match');
+  const ifModifiedSince = request.headers.get('if-modified-since');
+  const notModified = ifNoneMatch
+    ? ifNoneMatch.split(',').some((tag) => tag.trim() === etag || tag.trim() === '*')
+    : !!ifModifiedSince && Math.floor(channel.updatedAt.getTime() / 1000) * 1000 <= Date.parse(ifModifiedSince);
+
+  if (notModified) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(body, {
+    headers: { ...headers, 'Content-Type': OUTBOUND_CONTENT_TYPES[format] },
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * 其他阅读器导入 API
+ * 上传 Inoreader / FreshRSS / Feedly / Pocket / Miniflux 的导出文件，恢复文章及星标、已读、标签
+ * 导入进度通过 settings.getImportProgress 查询
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { info, error } from '@/lib/logger';
+import {
+  detectReaderImportSource,
+  importReaderItems,
+  parseReaderExport,
+  READER_IMPORT_SOURCES,
+  ReaderImportError,
+  type ReaderImportSource,
+} from '@/lib/reader-import';
+import { setImportProgress } from '@/lib/opml/importer';
+
+// 安全配置：文件大小限制（50MB，文章导出包含正文）
+const MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+export async function POST(req: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return NextResponse.json({ error: '请上传导出文件' }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: '文件不能超过 50MB' }, { status: 400 });
+    }
+
+    const text = await file.text();
+    const requested = formData.get('source') as string | null;
+    if (requested && !(requested in READER_IMPORT_SOURCES)) {
+      return NextResponse.json({ error: '不支持的导入来源' }, { status: 400 });
+    }
+
+    const source = (requested as ReaderImportSource | null) || detectReaderImportSource(text);
+    if (!source) {
+      return NextResponse.json({ error: '无法识别文件格式，请手动选择导入来源' }, { status: 400 });
+    }
+
+    setImportProgress(session.userId, {
+      phase: 'parsing',
+      current: 0,
+      total: 0,
+      message: `正在解析 ${READER_IMPORT_SOURCES[source]} 导出文件...`,
+      stats: { imported: 0, skipped: 0, failed: 0 },
+    });
+
+    const items = parseReaderExport(source, text);
+    const result = await importReaderItems(items, { userId: session.userId, source });
+
+    await info('rss', '阅读器导入 API 完成', { userId: session.userId, source, fileName: file.name });
+
+    return NextResponse.json({ source, ...result });
+  } catch (err) {
+    if (err instanceof ReaderImportError) {
+      setImportProgress(session.userId, {
+        phase: 'completed',
+        current: 0,
+        total: 0,
+        message: err.message,
+        stats: { imported: 0, skipped: 0, failed: 0 },
+      });
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+
+    await error('rss', '阅读器导入失败', err instanceof Error ? err : undefined, { userId: session.userId });
+    return NextResponse.json({ error: '导入失败，请稍后重试' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * 公开分享报告 API
+ * GET：按分享令牌读取报告；POST：验证访问密码并写入访问凭证 Cookie
+ * 公开路由，不需要登录
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  getSharedReport,
+  recordShareView,
+  shareAccessCookieName,
+  unlockSharedReport,
+  SHARE_ACCESS_MAX_AGE,
+} from '@/lib/reports/share';
+import { shouldUseSecureCookie } from '@/lib/auth/session';
+import { shareUnlockRateLimiter, getClientIdentifier, rateLimitResponse } from '@/lib/security/rate-limit';
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+// 取消分享后立即失效，不缓存
+const NO_STORE = { 'Cache-Control': 'private, no-store' };
+
+const unlockSchema = z.object({
+  password: z.string().min(1, '请输入访问密码').max(100),
+});
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { token } = await params;
+  const access = await getSharedReport(token, request.cookies.get(shareAccessCookieName(token))?.value);
+
+  if (access.status === 'not_found') {
+    return NextResponse.json({ error: '分享不存在或已失效' }, { status: 404, headers: NO_STORE });
+  }
+
+  if (access.status === 'password_required') {
+    return NextResponse.json(
+      { error: '需要访问密码', passwordRequired: true, title: access.title },
+      { status: 401, headers: NO_STORE }
+    );
+  }
+
+  await recordShareView(access.report.id);
+
+  return NextResponse.json({ report: access.report }, { headers: NO_STORE });
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { token } = await params;
+
+  const rateLimit = await shareUnlockRateLimiter.check(getClientIdentifier(request));
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(rateLimit.resetTime);
+  }
+
+  const parsed = unlockSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message || '请求参数无效' }, { status: 400 });
+  }
+
+  const proof = await unlockSharedReport(token, parsed.data.password);
+  if (!proof) {
+    return NextResponse.json({ error: '密码错误或分享已失效' }, { status: 401, headers: NO_STORE });
+  }
+
+  const response = NextResponse.json({ success: true }, { headers: NO_STORE });
+  response.cookies.set(shareAccessCookieName(token), proof, {
+    httpOnly: true,
+    secure: shouldUseSecureCookie(),
+    sameSite: 'lax',
+    maxAge: SHARE_ACCESS_MAX_AGE,
+    path: '/',
+  });
+  return response;
+}
@@ -0,0 +1,20 @@
+/**
+ * REST API v1
+ * 以 API Key 认证（Authorization: Bearer rss_xxx），接口说明见 /api/v1/openapi.json
+ * 公开路由，由 handleRestRequest 自行验证 API Key 和权限范围
+ */
+
+import { NextRequest } from 'next/server';
+import { handleRestRequest } from '@/lib/rest-api';
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+async function handle(request: NextRequest, { params }: RouteContext) {
+  const { path } = await params;
+  return handleRestRequest(request, '/' + path.join('/'));
+}
+
+export const GET = handle;
+export const POST = handle;
+export const PATCH = handle;
+export const DELETE = handle;
@@ -0,0 +1,11 @@
+/**
+ * REST API v1 的 OpenAPI 文档
+ * 公开路由
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/rest-api';
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(`${request.nextUrl.origin}/api/v1`));
+}
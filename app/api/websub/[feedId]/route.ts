@@ -0,0 +1,74 @@
+/**
+ * WebSub 回调 API
+ * GET：hub 验证订阅意图；POST：hub 推送更新内容（校验 X-Hub-Signature）
+ * 公开路由，不需要登录
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { feedManager } from '@/lib/rss/feed-manager';
+import { getWebSubManager, verifyWebSubSignature, WEBSUB_SIGNATURE_HEADER } from '@/lib/rss/websub';
+import { error as logError, warn } from '@/lib/logger';
+
+type RouteContext = { params: Promise<{ feedId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { feedId } = await params;
+  const query = request.nextUrl.searchParams;
+  const mode = query.get('hub.mode') || '';
+  const topic = query.get('hub.topic') || '';
+  const manager = getWebSubManager();
+
+  if (mode === 'denied') {
+    const accepted = await manager.markDenied(feedId, topic, query.get('hub.reason') || undefined);
+    return accepted
+      ? new NextResponse(null, { status: 200 })
+      : new NextResponse('Unknown subscription', { status: 404 });
+  }
+
+  const leaseSeconds = parseInt(query.get('hub.lease_seconds') || '', 10);
+  const challenge = await manager.verifyIntent(feedId, {
+    mode,
+    topic,
+    challenge: query.get('hub.challenge') || '',
+    leaseSeconds: leaseSeconds > 0 ? leaseSeconds : undefined,
+  });
+
+  if (!challenge) {
+    return new NextResponse('Unknown subscription', { status: 404 });
+  }
+
+  return new NextResponse(challenge, {
+    status: 200,
+    headers: { 'Content-Type': 'text/plain' },
+  });
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { feedId } = await params;
+  const manager = getWebSubManager();
+
+  const subscription = await manager.getActiveSubscription(feedId);
+  if (!subscription) {
+    // 410 通知 hub 停止推送
+    return new NextResponse(null, { status: 410 });
+  }
+
+  const body = Buffer.from(await request.arrayBuffer());
+  const signature = request.headers.get(WEBSUB_SIGNATURE_HEADER);
+
+  // 按规范签名不匹配时仍返回 2xx，但忽略内容
+  if (!verifyWebSubSignature(body, subscription.secret, signature)) {
+    await warn('rss', 'WebSub 推送签名校验失败，已忽略', { feedId });
+    return new NextResponse(null, { status: 202 });
+  }
+
+  await manager.recordPush(feedId);
+
+  // 异步入库，尽快响应 hub
+  const contentType = request.headers.get('content-type') ?? undefined;
+  feedManager.ingestPushedContent(feedId, body.toString('utf-8'), contentType).catch((err) =>
+    logError('rss', '处理 WebSub 推送失败', err instanceof Error ? err : undefined, { feedId })
+  );
+
+  return new NextResponse(null, { status: 202 });
+}
@@ -38,6 +38,7 @@ import {
   CheckCircle,
   XCircle,
   Loader2,
+  History,
 } from 'lucide-react';
 import { Button, Card as AntCard, Empty, Tag, Space, Tooltip, Divider, Typography, Badge, Skeleton } from 'antd';
 import { AppHeader } from '@/components/layout/app-header';
@@ -50,6 +51,8 @@ import { StatusBadge } from '@/components/ui/status-badge';
 import { Spinner, LoadingDots } from '@/components/animation/loading';
 import { usePageLoadAnimation, useScrollProgress, useRipple } from '@/hooks/use-animation';
 import { useIsMobile } from '@/hooks/use-media-query';
+import { MediaPlayer } from '@/components/entries/media-player';
+import { EntryRevisions } from '@/components/entries/entry-revisions';
 import dynamic from 'next/dynamic';
 
 // 动态导入大型组件，减少首屏加载时间
@@ -281,6 +284,11 @@ export default function EntryPage() {
     }
     : null;
 
+  // 播客/视频附件
+  const mediaEnclosure = entry?.enclosures.find(
+    (enclosure) => enclosure.mediaKind === 'audio' || enclosure.mediaKind === 'video'
+  );
+
   if (isLoading) {
     return <LoadingState />;
   }
@@ -446,6 +454,11 @@ export default function EntryPage() {
                           已星标
                         </StatusBadge>
                       )}
+                      {displayEntry.revisionCount > 0 && (
+                        <StatusBadge status="info" animated={false}>
+                          已更新 {displayEntry.revisionCount} 次
+                        </StatusBadge>
+                      )}
                     </div>
 
                     {/* 元信息网格 */}
@@ -462,6 +475,17 @@ export default function EntryPage() {
                         }
                         delay={200}
                       />
+                      {displayEntry.contentUpdatedAt && (
+                        <MetaItem
+                          icon={<History className="w-3.5 h-3.5" />}
+                          label="更新"
+                          value={formatDistanceToNow(new Date(displayEntry.contentUpdatedAt), {
+                            addSuffix: true,
+                            locale: zhCN,
+                          })}
+                          delay={240}
+                        />
+                      )}
                       {displayEntry.readingTime && (
                         <MetaItem
                           icon={<Clock className="w-3.5 h-3.5" />}
@@ -537,6 +561,18 @@ export default function EntryPage() {
                 </div>
               </Fade>
 
+              {/* 音视频播放器 */}
+              {mediaEnclosure && (
+                <Fade in={isLoaded} delay={250} direction="up" distance={20} duration={500}>
+                  <MediaPlayer
+                    entryId={displayEntry.id}
+                    enclosure={mediaEnclosure}
+                    initialPosition={displayEntry.playback.position}
+                    className="mb-6"
+                  />
+                </Fade>
+              )}
+
               {/* 文章内容 */}
               <Fade in={isLoaded} delay={300} direction="up" distance={20} duration={500}>
                 <AntCard
@@ -563,6 +599,20 @@ export default function EntryPage() {
                   )}
                 </AntCard>
               </Fade>
+
+              {/* 修改记录 */}
+              {displayEntry.revisionCount > 0 && (
+                <Fade in={isLoaded} delay={350} direction="up" distance={20} duration={500}>
+                  <div className="mt-6">
+                    <EntryRevisions
+                      entryId={displayEntry.id}
+                      title={displayEntry.title}
+                      content={displayEntry.content}
+                      summary={displayEntry.summary}
+                    />
+                  </div>
+                </Fade>
+              )}
             </div>
           </div>
 
@@ -22,12 +22,18 @@ import {
   Zap,
   AlertCircle,
   Inbox,
+  CalendarClock,
+  ScanText,
+  ScanSearch,
 } from 'lucide-react';
 import { Button, Card as AntCard, Row, Col, Statistic, Empty, Dropdown, Modal, Input, Select, Switch, Space, Form, Badge, Tag } from 'antd';
 const { TextArea } = Input;
 import type { MenuProps } from 'antd';
 import { AppHeader } from '@/components/layout/app-header';
 import { AppSidebar } from '@/components/layout/app-sidebar';
+import { ExtractionRulesModal } from '@/components/feeds/extraction-rules-modal';
+import { PageSelectorsModal } from '@/components/feeds/page-watcher-form';
+import type { PageSelectors } from '@/lib/rss/page-watcher';
 import { trpc } from '@/lib/trpc/client';
 import { handleApiSuccess, handleApiError } from '@/lib/feedback';
 import { cn } from '@/lib/utils';
@@ -55,6 +61,8 @@ export default function FeedPage() {
   const { data: categories } = trpc.categories.list.useQuery();
 
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isExtractionModalOpen, setIsExtractionModalOpen] = useState(false);
+  const [isPageSelectorsModalOpen, setIsPageSelectorsModalOpen] = useState(false);
   const [editForm] = Form.useForm();
 
   // 页面加载动画
@@ -167,6 +175,22 @@ export default function FeedPage() {
       label: '编辑',
       onClick: openEditModal,
     },
+    {
+      key: 'extraction',
+      icon: <ScanText className="h-4 w-4" />,
+      label: '内容提取规则',
+      onClick: () => setIsExtractionModalOpen(true),
+    },
+    ...(feed.sourceType === 'page' && feed.isOwner
+      ? [
+          {
+            key: 'page-selectors',
+            icon: <ScanSearch className="h-4 w-4" />,
+            label: '网页监控选择器',
+            onClick: () => setIsPageSelectorsModalOpen(true),
+          },
+        ]
+      : []),
     {
       type: 'divider',
     },
@@ -351,7 +375,7 @@ export default function FeedPage() {
                                 suffix=" 分钟"
                               />
                             </div>
-                            <div className="text-sm text-muted-foreground">更新频率</div>
+                            <div className="text-sm text-muted-foreground">默认间隔</div>
                           </div>
                         </div>
                       </div>
@@ -375,6 +399,18 @@ export default function FeedPage() {
                       </div>
                     </Col>
                   </Row>
+
+                  {/* 自适应调度预测 */}
+                  <div className="mt-4 flex items-start gap-2 text-sm text-muted-foreground">
+                    <CalendarClock className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      下次抓取:{' '}
+                      {!feed.nextFetchAt || new Date(feed.nextFetchAt) <= new Date()
+                        ? '即将抓取'
+                        : formatDistanceToNow(new Date(feed.nextFetchAt), { addSuffix: true, locale: zhCN })}
+                      {feed.fetchReason && <span className="ml-2">（{feed.fetchReason}）</span>}
+                    </span>
+                  </div>
                 </div>
               </AntCard>
             </Fade>
@@ -452,6 +488,7 @@ export default function FeedPage() {
               label="更新频率（分钟）"
               name="fetchInterval"
               rules={[{ required: true }]}
+              extra="发布记录不足时使用，之后按订阅源的发布节奏自动调整"
             >
               <Select
                 options={[
@@ -507,6 +544,19 @@ export default function FeedPage() {
           </Form>
         </Scale>
       </Modal>
+
+      {isExtractionModalOpen && (
+        <ExtractionRulesModal feedId={feedId} onClose={() => setIsExtractionModalOpen(false)} />
+      )}
+
+      {isPageSelectorsModalOpen && (
+        <PageSelectorsModal
+          feedId={feedId}
+          url={feed.feedUrl}
+          selectors={feed.pageSelectors as PageSelectors | null}
+          onClose={() => setIsPageSelectorsModalOpen(false)}
+        />
+      )}
     </div>
   );
 }
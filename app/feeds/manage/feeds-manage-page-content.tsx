@@ -34,6 +34,7 @@ import {
   AlertTriangle,
   Database,
   RotateCcw,
+  ScanSearch,
 } from 'lucide-react';
 import { Button, Input, Card, Space, Modal, Badge, Tag, Tooltip, Switch, Select, Empty, Tabs, Progress, Upload } from 'antd';
 import type { MenuProps } from 'antd';
@@ -44,10 +45,11 @@ import { Fade, StaggerContainer, ListItemFade } from '@/components/animation/fad
 import { AnimatedCounter } from '@/components/animation/animated-counter';
 import { StatusBadge } from '@/components/ui/status-badge';
 import { EmptyState } from '@/components/ui/empty-state';
+import { PageWatcherForm } from '@/components/feeds/page-watcher-form';
 import { usePageLoadAnimation, useShakeAnimation, useClipboard } from '@/hooks/use-animation';
 
 type ViewMode = 'list' | 'add' | 'edit';
-type AddMode = 'single' | 'opml';
+type AddMode = 'single' | 'page' | 'opml';
 
 interface PreviewFeed {
   url: string;
@@ -258,6 +260,16 @@ export function FeedsManagePageContent() {
 
     try {
       const result = await discoverFeed.mutateAsync({ url: formUrl });
+      if (!result.isFeed) {
+        Modal.confirm({
+          title: '该地址不是订阅源',
+          content: '没有找到 RSS / Atom 内容。可以改用网页监控，按选择器从该页面提取条目生成订阅源。',
+          okText: '使用网页监控',
+          cancelText: '取消',
+          onOk: () => setAddMode('page'),
+        });
+        return;
+      }
       if (result.feed) {
         setFormTitle(result.feed.title || formTitle);
         setFormDescription(result.feed.description || formDescription);
@@ -1389,6 +1401,28 @@ export function FeedsManagePageContent() {
                     </Card>
                   ),
                 },
+                {
+                  key: 'page',
+                  label: (
+                    <span className="flex items-center gap-2">
+                      <ScanSearch className="h-4 w-4" />
+                      网页监控
+                    </span>
+                  ),
+                  children: (
+                    <Card className="border-border/60" styles={{ body: { paddingTop: 16 } }}>
+                      <PageWatcherForm
+                        initialUrl={formUrl}
+                        categories={categories}
+                        onCancel={goToList}
+                        onCreated={() => {
+                          refetch();
+                          goToList();
+                        }}
+                      />
+                    </Card>
+                  ),
+                },
                 {
                   key: 'opml',
                   label: (
@@ -6,7 +6,7 @@
 'use client';
 
 import { useState } from 'react';
-import { Bell, Check, CheckCheck, Trash2, Filter, Mail, FileText, AlertTriangle, Sparkles, Info } from 'lucide-react';
+import { Bell, Check, CheckCheck, Trash2, Filter, Mail, FileText, AlertTriangle, Sparkles, Info, Zap, FolderSearch } from 'lucide-react';
 import { AppHeader } from '@/components/layout/app-header';
 import { AppSidebar } from '@/components/layout/app-sidebar';
 import { trpc } from '@/lib/trpc/client';
@@ -236,6 +236,10 @@ export default function NotificationsPage() {
         return <AlertTriangle className="h-5 w-5 text-red-500" />;
       case 'ai_complete':
         return <Sparkles className="h-5 w-5 text-purple-500" />;
+      case 'rule_match':
+        return <Zap className="h-5 w-5 text-orange-500" />;
+      case 'smart_folder':
+        return <FolderSearch className="h-5 w-5 text-cyan-500" />;
       default:
         return <Info className="h-5 w-5 text-muted-foreground" />;
     }
@@ -251,6 +255,10 @@ export default function NotificationsPage() {
         return '错误';
       case 'ai_complete':
         return 'AI';
+      case 'rule_match':
+        return '规则';
+      case 'smart_folder':
+        return '智能文件夹';
       default:
         return '系统';
     }
@@ -266,6 +274,10 @@ export default function NotificationsPage() {
         return 'red';
       case 'ai_complete':
         return 'purple';
+      case 'rule_match':
+        return 'orange';
+      case 'smart_folder':
+        return 'cyan';
       default:
         return 'default';
     }
@@ -8,11 +8,13 @@ import { FullscreenLoader } from '@/components/animation/loading';
 function HomePageContent() {
   const searchParams = useSearchParams();
   const feedId = searchParams.get('feed');
+  const smartFolderId = searchParams.get('folder');
 
   return (
     <ReaderLayout
       filters={{
         feedId: feedId || undefined,
+        smartFolderId: smartFolderId || undefined,
       }}
     />
   );
@@ -0,0 +1,165 @@
+/**
+ * 播客页面 - 三栏布局
+ * 列出含音视频附件的文章，默认只显示未播放完的节目
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import Link from 'next/link';
+import { Headphones, Video, ExternalLink } from 'lucide-react';
+import { Segmented, Progress, Button } from 'antd';
+import { formatDistanceToNow } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { trpc } from '@/lib/trpc/client';
+import { AppHeader } from '@/components/layout/app-header';
+import { AppSidebar } from '@/components/layout/app-sidebar';
+import { CompactEntryEmpty } from '@/components/entries/compact-entry-list';
+import { MediaPlayer, formatDuration } from '@/components/entries/media-player';
+import { cn } from '@/lib/utils';
+
+export default function PodcastsPage() {
+  const [selectedEntryId, setSelectedEntryId] = useState<string | null>(null);
+  const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
+  const [unplayedOnly, setUnplayedOnly] = useState(true);
+  const toggleSidebar = () => setIsSidebarCollapsed(prev => !prev);
+
+  const { data: podcastsData, isLoading } = trpc.entries.podcasts.useQuery({
+    page: 1,
+    limit: 50,
+    unplayedOnly,
+  });
+
+  const episodes = podcastsData?.items || [];
+  const selectedEpisode = episodes.find((episode) => episode.id === selectedEntryId);
+
+  const handleSelectEpisode = useCallback((entryId: string) => {
+    setSelectedEntryId(entryId);
+  }, []);
+
+  return (
+    <div className="h-screen flex flex-col overflow-hidden">
+      <AppHeader onToggleSidebar={toggleSidebar} isSidebarCollapsed={isSidebarCollapsed} />
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* 左侧栏 */}
+        <aside className={cn(
+          'w-60 flex-shrink-0 border-r border-border/60 bg-muted/5 transition-all duration-300',
+          isSidebarCollapsed ? 'hidden lg:hidden' : 'block'
+        )}>
+          <AppSidebar />
+        </aside>
+
+        {/* 中间栏 - 节目列表 */}
+        <section className="flex-1 min-w-0 max-w-lg xl:max-w-xl border-r border-border/60 flex flex-col bg-background/30">
+          <div className="flex-shrink-0 px-4 py-3 border-b border-border/60 bg-background/50">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Headphones className="h-4 w-4 text-muted-foreground" />
+                <h2 className="font-semibold">播客</h2>
+                <span className="text-xs text-muted-foreground">
+                  {podcastsData?.pagination.total ?? 0} 集
+                </span>
+              </div>
+              <Segmented
+                size="small"
+                value={unplayedOnly ? 'unplayed' : 'all'}
+                onChange={(value) => setUnplayedOnly(value === 'unplayed')}
+                options={[
+                  { label: '未播放', value: 'unplayed' },
+                  { label: '全部', value: 'all' },
+                ]}
+              />
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-20">
+                <div className="text-center text-sm text-muted-foreground">加载中...</div>
+              </div>
+            ) : episodes.length === 0 ? (
+              <CompactEntryEmpty message={unplayedOnly ? '没有未播放的节目' : '暂无播客节目'} />
+            ) : (
+              <div className="divide-y divide-border/40">
+                {episodes.map((episode) => {
+                  const duration = episode.enclosure?.duration || 0;
+                  const percent = duration > 0 ? Math.min(100, Math.round((episode.playback.position / duration) * 100)) : 0;
+
+                  return (
+                    <button
+                      key={episode.id}
+                      type="button"
+                      onClick={() => handleSelectEpisode(episode.id)}
+                      className={cn(
+                        'w-full text-left px-4 py-3 flex gap-3 transition-colors',
+                        selectedEntryId === episode.id ? 'bg-primary/5' : 'hover:bg-muted/40'
+                      )}
+                    >
+                      {episode.enclosure?.imageUrl || episode.mainImageUrl ? (
+                        <img
+                          src={episode.enclosure?.imageUrl || episode.mainImageUrl || ''}
+                          alt=""
+                          className="w-12 h-12 rounded-lg object-cover flex-shrink-0"
+                        />
+                      ) : (
+                        <div className="w-12 h-12 rounded-lg bg-primary/10 text-primary flex items-center justify-center flex-shrink-0">
+                          {episode.enclosure?.mediaKind === 'video' ? <Video className="w-5 h-5" /> : <Headphones className="w-5 h-5" />}
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className={cn('text-sm line-clamp-2', episode.playback.playedAt ? 'text-muted-foreground' : 'font-medium')}>
+                          {episode.title}
+                        </div>
+                        <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                          <span className="truncate">{episode.feed.title}</span>
+                          {episode.publishedAt && (
+                            <span className="flex-shrink-0">
+                              {formatDistanceToNow(new Date(episode.publishedAt), { addSuffix: true, locale: zhCN })}
+                            </span>
+                          )}
+                          {duration > 0 && <span className="flex-shrink-0">{formatDuration(duration)}</span>}
+                        </div>
+                        {episode.playback.position > 0 && !episode.playback.playedAt && (
+                          <Progress percent={percent} size="small" showInfo={false} className="mb-0" />
+                        )}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </section>
+
+        {/* 右侧栏 - 播放器 */}
+        <aside className="flex-1 min-w-0 bg-background/10 hidden md:block overflow-y-auto">
+          {selectedEpisode?.enclosure ? (
+            <div className="max-w-2xl mx-auto p-6 space-y-4">
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">{selectedEpisode.feed.title}</div>
+                <h1 className="text-xl font-semibold leading-snug">{selectedEpisode.title}</h1>
+              </div>
+              <MediaPlayer
+                key={selectedEpisode.id}
+                entryId={selectedEpisode.id}
+                enclosure={selectedEpisode.enclosure}
+                initialPosition={selectedEpisode.playback.position}
+              />
+              {selectedEpisode.summary && (
+                <p className="text-sm text-muted-foreground leading-relaxed">{selectedEpisode.summary}</p>
+              )}
+              <Link href={`/entries/${selectedEpisode.id}`}>
+                <Button type="link" icon={<ExternalLink className="w-4 h-4" />} className="px-0">
+                  查看节目详情
+                </Button>
+              </Link>
+            </div>
+          ) : (
+            <CompactEntryEmpty message="选择一集开始播放" />
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+}
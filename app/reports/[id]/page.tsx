@@ -94,6 +94,8 @@ import { Skeleton } from '@/components/ui/skeleton';
 // Hooks
 import { usePageLoadAnimation } from '@/hooks/use-animation';
 
+import { ShareReportModal } from '../components/share-report-modal';
+
 const { Title, Text, Paragraph } = Typography;
 
 // 报告类型配置
@@ -565,15 +567,8 @@ export default function ReportDetailPage() {
     addToast({ type: 'success', title: '下载成功' });
   };
 
-  const handleShare = async () => {
-    try {
-      const url = window.location.href;
-      await navigator.clipboard.writeText(url);
-      addToast({ type: 'success', title: '链接已复制到剪贴板' });
-    } catch (error) {
-      addToast({ type: 'error', title: '复制失败' });
-    }
-  };
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const handleShare = () => setIsShareOpen(true);
 
   const handleDelete = () => {
     Modal.confirm({
@@ -917,6 +912,13 @@ export default function ReportDetailPage() {
           </div>
         </main>
       </div>
+
+      <ShareReportModal
+        open={isShareOpen}
+        onClose={() => setIsShareOpen(false)}
+        onChange={refetch}
+        report={report}
+      />
     </div>
   );
 }
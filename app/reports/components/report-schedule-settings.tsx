@@ -73,7 +73,10 @@ interface Schedule {
   recipientEmail: string;
   emailSubject: string | null;
   isEnabled: boolean;
+  timezone: string;
   runCount: number;
+  lastStatus: string | null;
+  lastError: string | null;
   createdAt: Date;
 }
 
@@ -161,8 +164,13 @@ function ScheduleCard({
             <p className="text-xs text-muted-foreground mt-2">
               上次执行：{dayjs(schedule.lastRunAt).format('YYYY-MM-DD HH:mm')}
               ({schedule.runCount} 次)
+              {schedule.lastStatus === 'success' && <Tag color="success" className="ml-2">成功</Tag>}
+              {schedule.lastStatus === 'failed' && <Tag color="error" className="ml-2">失败</Tag>}
             </p>
           )}
+          {schedule.lastStatus === 'failed' && schedule.lastError && (
+            <p className="text-xs text-destructive mt-1 line-clamp-2">{schedule.lastError}</p>
+          )}
         </div>
 
         <div className="flex items-center gap-1 ml-4">
@@ -404,6 +412,8 @@ export function ReportScheduleSettings({ open, onClose }: ReportScheduleSettings
       const input = {
         ...values,
         firstRunAt: values.firstRunAt.toDate(),
+        // 按浏览器时区保持每次执行的本地时间
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       };
 
       if (editingId) {
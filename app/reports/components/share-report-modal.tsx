@@ -0,0 +1,173 @@
+/**
+ * 报告分享设置弹窗
+ * 生成公开只读链接，可设置有效期和访问密码
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Modal, Button, Input, Select, Space, Popconfirm, Tag, Checkbox } from 'antd';
+import { Copy, Eye, Link2, Lock, Clock } from 'lucide-react';
+import { format } from 'date-fns';
+import { trpc } from '@/lib/trpc/client';
+import { handleApiError, notifySuccess, notifyError } from '@/lib/feedback';
+
+const expiryOptions = [
+  { value: 0, label: '永久有效' },
+  { value: 1, label: '1 天' },
+  { value: 7, label: '7 天' },
+  { value: 30, label: '30 天' },
+  { value: 90, label: '90 天' },
+];
+
+interface ShareReportModalProps {
+  open: boolean;
+  onClose: () => void;
+  onChange: () => void;
+  report: {
+    id: string;
+    isPublic: boolean;
+    shareToken: string | null;
+    shareExpiresAt: Date | string | null;
+    shareViewCount: number;
+    sharePasswordProtected: boolean;
+  };
+}
+
+export function ShareReportModal({ open, onClose, onChange, report }: ShareReportModalProps) {
+  const [expiresInDays, setExpiresInDays] = useState(0);
+  const [password, setPassword] = useState('');
+  const [removePassword, setRemovePassword] = useState(false);
+
+  const generateShareToken = trpc.reports.generateShareToken.useMutation();
+  const revokeShare = trpc.reports.revokeShare.useMutation();
+
+  const isShared = report.isPublic && !!report.shareToken;
+  const shareUrl = isShared && typeof window !== 'undefined'
+    ? `${window.location.origin}/share/reports/${report.shareToken}`
+    : '';
+
+  const handleGenerate = async () => {
+    try {
+      await generateShareToken.mutateAsync({
+        id: report.id,
+        expiresInDays: expiresInDays || null,
+        // 留空时保留原密码，勾选移除时清除
+        password: password || (removePassword ? null : undefined),
+      });
+      setPassword('');
+      setRemovePassword(false);
+      notifySuccess(isShared ? '分享设置已更新' : '分享链接已生成');
+      onChange();
+    } catch (error) {
+      handleApiError(error, '生成分享链接失败');
+    }
+  };
+
+  const handleRevoke = async () => {
+    try {
+      await revokeShare.mutateAsync({ id: report.id });
+      notifySuccess('已取消分享', '原链接已失效');
+      onChange();
+    } catch (error) {
+      handleApiError(error, '取消分享失败');
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      notifySuccess('链接已复制到剪贴板');
+    } catch {
+      notifyError('复制失败');
+    }
+  };
+
+  return (
+    <Modal
+      title={
+        <span className="flex items-center gap-2">
+          <Link2 className="h-4 w-4" />
+          分享报告
+        </span>
+      }
+      open={open}
+      onCancel={onClose}
+      footer={null}
+      destroyOnClose
+    >
+      {isShared && (
+        <div className="mb-6 space-y-3">
+          <Space.Compact className="w-full">
+            <Input value={shareUrl} readOnly />
+            <Button icon={<Copy className="h-4 w-4" />} onClick={handleCopy}>
+              复制
+            </Button>
+          </Space.Compact>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <Tag icon={<Clock className="h-3 w-3 inline mr-1" />}>
+              {report.shareExpiresAt
+                ? `有效期至 ${format(new Date(report.shareExpiresAt), 'yyyy-MM-dd HH:mm')}`
+                : '永久有效'}
+            </Tag>
+            {report.sharePasswordProtected && (
+              <Tag color="gold" icon={<Lock className="h-3 w-3 inline mr-1" />}>
+                需要密码
+              </Tag>
+            )}
+            <Tag icon={<Eye className="h-3 w-3 inline mr-1" />}>访问 {report.shareViewCount} 次</Tag>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div>
+          <div className="text-sm font-medium mb-1.5">有效期</div>
+          <Select className="w-full" value={expiresInDays} onChange={setExpiresInDays} options={expiryOptions} />
+        </div>
+        <div>
+          <div className="text-sm font-medium mb-1.5">访问密码</div>
+          <Input.Password
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={report.sharePasswordProtected ? '留空则保留原密码' : '留空则无需密码（至少 4 位）'}
+            maxLength={100}
+            disabled={removePassword}
+          />
+          {report.sharePasswordProtected && (
+            <Checkbox
+              className="mt-2"
+              checked={removePassword}
+              onChange={(e) => {
+                setRemovePassword(e.target.checked);
+                setPassword('');
+              }}
+            >
+              移除访问密码
+            </Checkbox>
+          )}
+        </div>
+
+        <div className="flex justify-between pt-2">
+          {isShared ? (
+            <Popconfirm title="取消分享后原链接立即失效，确定吗？" onConfirm={handleRevoke} okText="取消分享" cancelText="保留">
+              <Button danger loading={revokeShare.isPending}>
+                取消分享
+              </Button>
+            </Popconfirm>
+          ) : (
+            <span />
+          )}
+          <Button
+            type="primary"
+            onClick={handleGenerate}
+            loading={generateShareToken.isPending}
+            disabled={password.length > 0 && password.length < 4}
+          >
+            {isShared ? '更新设置' : '生成分享链接'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -5,7 +5,8 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useState, type ReactNode } from 'react';
+import Link from 'next/link';
 import {
   Plus,
   Trash2,
@@ -23,7 +24,7 @@ import {
   Settings2,
   Sparkles,
 } from 'lucide-react';
-import { Button, Card, Modal, Form, Input, Select, Switch, Space, Tag, Badge, Tooltip, Divider, Collapse } from 'antd';
+import { Button, Card, Modal, Form, Input, InputNumber, Select, Switch, Space, Tag, Badge, Tooltip, Divider, Collapse } from 'antd';
 import { AppHeader } from '@/components/layout/app-header';
 import { AppSidebar } from '@/components/layout/app-sidebar';
 import { trpc } from '@/lib/trpc/client';
@@ -37,13 +38,47 @@ import { StatusBadge } from '@/components/ui/status-badge';
 import { EmptyState } from '@/components/ui/empty-state';
 
 type RuleCondition = {
-  field: 'title' | 'content' | 'author' | 'category' | 'tag' | 'feedTitle';
+  field:
+    | 'title'
+    | 'content'
+    | 'author'
+    | 'category'
+    | 'tag'
+    | 'feedTitle'
+    | 'aiImportanceScore'
+    | 'aiPrelimValue'
+    | 'aiCategory'
+    | 'aiSentiment'
+    | 'readingTime'
+    | 'wordCount'
+    | 'publishedAge'
+    | 'language'
+    | 'hasMedia';
   operator: 'contains' | 'notContains' | 'equals' | 'notEquals' | 'matches' | 'in' | 'gt' | 'lt';
-  value: string | string[] | number;
+  value: string | string[] | number | boolean;
 };
 
+type RuleConditionGroup = {
+  logic: 'and' | 'or' | 'not';
+  conditions: RuleConditionNode[];
+};
+
+type RuleConditionNode = RuleCondition | RuleConditionGroup;
+
 type RuleAction = {
-  type: 'markRead' | 'markUnread' | 'star' | 'unstar' | 'archive' | 'unarchive' | 'assignCategory' | 'addTag' | 'removeTag';
+  type:
+    | 'markRead'
+    | 'markUnread'
+    | 'star'
+    | 'unstar'
+    | 'archive'
+    | 'unarchive'
+    | 'assignCategory'
+    | 'addTag'
+    | 'removeTag'
+    | 'webhook'
+    | 'notify'
+    | 'email';
   params?: Record<string, any>;
 };
 
@@ -51,11 +86,13 @@ type Rule = {
   id: string;
   name: string;
   isEnabled: boolean;
-  conditions: RuleCondition[];
+  conditions: RuleConditionNode[];
   actions: RuleAction[];
   matchedCount: number;
   lastMatchedAt: Date | null;
-  order?: number;
+  sortOrder: number;
+  stopProcessing: boolean;
+  rateLimitPerHour: number | null;
 };
 
 // 字段配置
@@ -66,6 +103,22 @@ const fieldConfig: Record<string, { label: string; icon: string; color: string }
   category: { label: '分类', icon: 'G', color: 'text-orange-600 bg-orange-50 border-orange-200' },
   tag: { label: '标签', icon: '#', color: 'text-pink-600 bg-pink-50 border-pink-200' },
   feedTitle: { label: '订阅源', icon: 'F', color: 'text-cyan-600 bg-cyan-50 border-cyan-200' },
+  aiImportanceScore: { label: '重要性', icon: '!', color: 'text-red-600 bg-red-50 border-red-200' },
+  aiPrelimValue: { label: '初评价值', icon: 'V', color: 'text-amber-600 bg-amber-50 border-amber-200' },
+  aiCategory: { label: 'AI 分类', icon: 'G', color: 'text-indigo-600 bg-indigo-50 border-indigo-200' },
+  aiSentiment: { label: '情感', icon: 'S', color: 'text-rose-600 bg-rose-50 border-rose-200' },
+  readingTime: { label: '阅读时长', icon: 'R', color: 'text-teal-600 bg-teal-50 border-teal-200' },
+  wordCount: { label: '字数', icon: 'W', color: 'text-lime-600 bg-lime-50 border-lime-200' },
+  publishedAge: { label: '发布时长', icon: 'H', color: 'text-sky-600 bg-sky-50 border-sky-200' },
+  language: { label: '语言', icon: 'L', color: 'text-violet-600 bg-violet-50 border-violet-200' },
+  hasMedia: { label: '含媒体', icon: 'M', color: 'text-fuchsia-600 bg-fuchsia-50 border-fuchsia-200' },
+};
+
+// 条件组逻辑配置
+const logicConfig: Record<string, { label: string; color: string }> = {
+  and: { label: '全部满足', color: 'border-blue-300' },
+  or: { label: '任一满足', color: 'border-green-300' },
+  not: { label: '均不满足', color: 'border-red-300' },
 };
 
 // 操作符配置
@@ -91,6 +144,17 @@ const actionConfig: Record<string, { label: string; icon: string; color: string;
   assignCategory: { label: '分配分类', icon: '📁', color: 'text-purple-600', bgColor: 'bg-purple-50' },
   addTag: { label: '添加标签', icon: '+', color: 'text-pink-600', bgColor: 'bg-pink-50' },
   removeTag: { label: '移除标签', icon: '-', color: 'text-red-600', bgColor: 'bg-red-50' },
+  webhook: { label: 'Webhook', icon: '↗', color: 'text-indigo-600', bgColor: 'bg-indigo-50' },
+  notify: { label: '站内通知', icon: '🔔', color: 'text-orange-600', bgColor: 'bg-orange-50' },
+  email: { label: '邮件', icon: '✉', color: 'text-sky-600', bgColor: 'bg-sky-50' },
+};
+
+// 投递状态配置
+const deliveryStatusConfig: Record<string, { label: string; color: string }> = {
+  pending: { label: '投递中', color: 'blue' },
+  success: { label: '成功', color: 'green' },
+  failed: { label: '失败', color: 'red' },
+  rate_limited: { label: '已限流', color: 'orange' },
 };
 
 const fieldOptions = [
@@ -100,6 +164,24 @@ const fieldOptions = [
   { label: '分类', value: 'category' },
   { label: '标签', value: 'tag' },
   { label: '订阅源', value: 'feedTitle' },
+  { label: '重要性评分 (0-1)', value: 'aiImportanceScore' },
+  { label: '初评价值 (1-5)', value: 'aiPrelimValue' },
+  { label: 'AI 分类', value: 'aiCategory' },
+  { label: '情感倾向', value: 'aiSentiment' },
+  { label: '阅读时长（秒）', value: 'readingTime' },
+  { label: '字数', value: 'wordCount' },
+  { label: '发布时长（小时）', value: 'publishedAge' },
+  { label: '语言', value: 'language' },
+  { label: '含媒体', value: 'hasMedia' },
+];
+
+// 数值类型字段，使用数字输入框
+const numericFields = ['aiImportanceScore', 'aiPrelimValue', 'readingTime', 'wordCount', 'publishedAge'];
+
+const logicOptions = [
+  { label: '全部满足 (AND)', value: 'and' },
+  { label: '任一满足 (OR)', value: 'or' },
+  { label: '均不满足 (NOT)', value: 'not' },
 ];
 
 const operatorOptions = [
@@ -123,8 +205,152 @@ const actionOptions = [
   { label: '分配分类', value: 'assignCategory' },
   { label: '添加标签', value: 'addTag' },
   { label: '移除标签', value: 'removeTag' },
+  { label: '推送 Webhook', value: 'webhook' },
+  { label: '发送站内通知', value: 'notify' },
+  { label: '发送邮件', value: 'email' },
 ];
 
+const isConditionGroup = (node: RuleConditionNode | undefined): node is RuleConditionGroup =>
+  !!node && typeof node === 'object' && 'logic' in node;
+
+/**
+ * 条件列表编辑器，条件组内递归嵌套
+ * name 为相对于上层 Form.List 的字段名，path 为完整字段路径
+ */
+function ConditionListEditor({
+  name,
+  path,
+  depth = 0,
+}: {
+  name: string | number | (string | number)[];
+  path: (string | number)[];
+  depth?: number;
+}) {
+  return (
+    <Form.List name={name}>
+      {(fields, { add, remove }) => (
+        <div className="space-y-3">
+          {fields.map(({ key, name: fieldName, ...restField }) => (
+            <Form.Item key={key} noStyle shouldUpdate>
+              {({ getFieldValue }) => {
+                const node = getFieldValue([...path, fieldName]) as RuleConditionNode | undefined;
+
+                if (isConditionGroup(node)) {
+                  return (
+                    <div
+                      className={cn(
+                        'bg-background rounded-lg p-3 border-l-4 border border-border/60',
+                        logicConfig[node.logic]?.color
+                      )}
+                    >
+                      <div className="flex items-center gap-2 mb-3">
+                        <span className="text-xs text-muted-foreground">条件组</span>
+                        <Form.Item
+                          {...restField}
+                          name={[fieldName, 'logic']}
+                          className="mb-0"
+                          style={{ width: 160 }}
+                        >
+                          <Select options={logicOptions} />
+                        </Form.Item>
+                        <div className="flex-1" />
+                        <Button
+                          type="text"
+                          icon={<X className="h-4 w-4" />}
+                          onClick={() => remove(fieldName)}
+                          className="text-muted-foreground hover:text-red-500"
+                        />
+                      </div>
+                      <ConditionListEditor
+                        name={[fieldName, 'conditions']}
+                        path={[...path, fieldName, 'conditions']}
+                        depth={depth + 1}
+                      />
+                    </div>
+                  );
+                }
+
+                const field = node?.field;
+                let valueInput = <Input placeholder="值" />;
+                if (field === 'hasMedia') {
+                  valueInput = (
+                    <Select
+                      placeholder="值"
+                      options={[
+                        { label: '是', value: true },
+                        { label: '否', value: false },
+                      ]}
+                    />
+                  );
+                } else if (field && numericFields.includes(field)) {
+                  valueInput = <InputNumber placeholder="数值" className="w-full" />;
+                }
+
+                return (
+                  <div className="flex items-start gap-2 bg-background rounded-lg p-3 border border-border/60">
+                    <Form.Item
+                      {...restField}
+                      name={[fieldName, 'field']}
+                      rules={[{ required: true, message: '选择字段' }]}
+                      className="mb-0"
+                      style={{ width: 150 }}
+                    >
+                      <Select placeholder="字段" options={fieldOptions} />
+                    </Form.Item>
+                    <Form.Item
+                      {...restField}
+                      name={[fieldName, 'operator']}
+                      rules={[{ required: true, message: '选择操作符' }]}
+                      className="mb-0"
+                      style={{ width: 120 }}
+                    >
+                      <Select placeholder="操作" options={operatorOptions} />
+                    </Form.Item>
+                    <Form.Item
+                      {...restField}
+                      name={[fieldName, 'value']}
+                      rules={[{ required: true, message: '输入值' }]}
+                      className="mb-0 flex-1"
+                    >
+                      {valueInput}
+                    </Form.Item>
+                    <Button
+                      type="text"
+                      icon={<X className="h-4 w-4" />}
+                      onClick={() => remove(fieldName)}
+                      className="text-muted-foreground hover:text-red-500"
+                    />
+                  </div>
+                );
+              }}
+            </Form.Item>
+          ))}
+          <div className="flex gap-2">
+            <Button
+              type="dashed"
+              onClick={() => add()}
+              icon={<Plus className="h-4 w-4" />}
+              className="border-dashed flex-1"
+            >
+              添加条件
+            </Button>
+            {depth < 3 && (
+              <Button
+                type="dashed"
+                onClick={() => add({ logic: 'or', conditions: [{}] })}
+                icon={<Plus className="h-4 w-4" />}
+                className="border-dashed flex-1"
+              >
+                添加条件组
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </Form.List>
+  );
+}
+
 export default function RulesPage() {
   const [showForm, setShowForm] = useState(false);
   const [editingRule, setEditingRule] = useState<Rule | null>(null);
@@ -143,6 +369,9 @@ export default function RulesPage() {
   const toggleMutation = trpc.rules.toggle.useMutation();
   const testMutation = trpc.rules.test.useMutation();
   const executeMutation = trpc.rules.execute.useMutation();
+  const reorderMutation = trpc.rules.reorder.useMutation();
+  const { data: history, refetch: refetchHistory } = trpc.rules.history.useQuery({ limit: 20 });
+  const { data: deliveries } = trpc.rules.deliveries.useQuery({ limit: 20 });
 
   const [form] = Form.useForm();
 
@@ -156,9 +385,16 @@ export default function RulesPage() {
     handleDragOver,
     handleDrop,
     handleDragEnd,
-  } = useDragSort(displayRules as any[], (newItems) => {
+  } = useDragSort(displayRules as any[], async (newItems) => {
     setLocalRules(newItems);
-    // 这里可以调用 API 保存排序
+    try {
+      await reorderMutation.mutateAsync({ ids: newItems.map((r: Rule) => r.id) });
+      await refetch();
+    } catch (error) {
+      handleApiError(error, '保存排序失败');
+    } finally {
+      setLocalRules([]);
+    }
   });
 
   const handleAdd = () => {
@@ -174,7 +410,12 @@ export default function RulesPage() {
     form.setFieldsValue({
       name: rule.name,
       conditions: rule.conditions,
-      actions: rule.actions,
+      // 邮件只发送到账户邮箱，去掉早先保存的收件人
+      actions: (rule.actions as RuleAction[])?.map((action) =>
+        action.type === 'email' ? { type: action.type } : action
+      ),
+      stopProcessing: rule.stopProcessing,
+      rateLimitPerHour: rule.rateLimitPerHour,
     });
     setTestResult(null);
     setShowTestResult(false);
@@ -261,11 +502,32 @@ export default function RulesPage() {
       await executeMutation.mutateAsync({ ruleId: id });
       handleApiSuccess('规则执行成功');
       refetch();
+      refetchHistory();
     } catch (error) {
       handleApiError(error, '执行失败');
     }
   };
 
+  // 渲染条件树节点，条件组递归渲染
+  const renderConditionNode = (node: RuleConditionNode, index: number): ReactNode => {
+    if (isConditionGroup(node)) {
+      const logic = logicConfig[node.logic] || logicConfig.and;
+      return (
+        <div
+          key={index}
+          className={cn(
+            'inline-flex flex-wrap items-center gap-2 px-2 py-1.5 rounded-lg border border-dashed',
+            logic.color
+          )}
+        >
+          <span className="text-xs font-medium text-muted-foreground">{logic.label}</span>
+          {node.conditions.map((child, idx) => renderConditionNode(child, idx))}
+        </div>
+      );
+    }
+    return renderConditionTag(node, index);
+  };
+
   // 渲染条件标签
   const renderConditionTag = (condition: RuleCondition, index: number) => {
     const field = fieldConfig[condition.field] || fieldConfig.title;
@@ -353,6 +615,9 @@ export default function RulesPage() {
               <div className="flex-1 min-w-0">
                 {/* 头部：名称和状态 */}
                 <div className="flex items-center gap-3 mb-3">
+                  <Tooltip title="执行顺序">
+                    <span className="text-xs font-mono text-muted-foreground">#{index + 1}</span>
+                  </Tooltip>
                   <h3 className={cn('font-semibold text-base', !rule.isEnabled && 'text-muted-foreground')}>
                     {rule.name}
                   </h3>
@@ -392,6 +657,18 @@ export default function RulesPage() {
                       已禁用
                     </StatusBadge>
                   )}
+
+                  {rule.stopProcessing && (
+                    <Tooltip title="匹配后不再执行后续规则">
+                      <Tag color="orange" className="m-0">停止后续规则</Tag>
+                    </Tooltip>
+                  )}
+
+                  {rule.rateLimitPerHour && (
+                    <Tooltip title="外发动作（Webhook/通知/邮件）每小时投递上限">
+                      <Tag className="m-0">≤ {rule.rateLimitPerHour} 次/小时</Tag>
+                    </Tooltip>
+                  )}
                 </div>
 
                 {/* 条件和操作流程图 */}
@@ -405,8 +682,8 @@ export default function RulesPage() {
                       </span>
                     </div>
                     <div className="flex-1 flex flex-wrap gap-2">
-                      {(rule.conditions as RuleCondition[])?.map((condition, idx) => 
-                        renderConditionTag(condition, idx)
+                      {(rule.conditions as RuleConditionNode[])?.map((node, idx) =>
+                        renderConditionNode(node, idx)
                       )}
                       {!rule.conditions?.length && (
                         <span className="text-xs text-muted-foreground italic">无条件（匹配所有文章）</span>
@@ -575,12 +852,58 @@ export default function RulesPage() {
                   {/* 拖拽提示 */}
                   <div className="flex items-center gap-2 text-xs text-muted-foreground px-1">
                     <GripVertical className="w-3 h-3" />
-                    <span>拖拽卡片可调整规则执行顺序</span>
+                    <span>拖拽卡片可调整规则执行顺序，新文章抓取后按此顺序自动执行</span>
                   </div>
                   
                   {displayRules.map((rule, index) => renderRuleCard(rule as any, index))}
                 </div>
               )}
+
+              {/* 最近匹配记录 */}
+              {history && history.length > 0 && (
+                <Card size="small" className="mt-6 border-border/60" title="最近匹配记录">
+                  <div className="space-y-2 max-h-80 overflow-y-auto">
+                    {history.map((log) => (
+                      <div key={log.id} className="flex items-center gap-3 text-sm p-2 rounded hover:bg-muted/50">
+                        <Tag className="m-0 flex-shrink-0">{log.ruleName}</Tag>
+                        <Link href={`/entries/${log.entryId}`} className="truncate flex-1 hover:text-primary">
+                          {log.entryTitle}
+                        </Link>
+                        <span className="text-xs text-muted-foreground flex-shrink-0">
+                          {log.trigger === 'ingest' || log.trigger === 'analysis' ? '自动' : '手动'} · {new Date(log.createdAt).toLocaleString('zh-CN')}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </Card>
+              )}
+
+              {/* 外发投递记录 */}
+              {deliveries && deliveries.length > 0 && (
+                <Card size="small" className="mt-6 border-border/60" title="外发投递记录">
+                  <div className="space-y-2 max-h-80 overflow-y-auto">
+                    {deliveries.map((delivery) => {
+                      const status = deliveryStatusConfig[delivery.status] || deliveryStatusConfig.failed;
+                      return (
+                        <div key={delivery.id} className="flex items-center gap-3 text-sm p-2 rounded hover:bg-muted/50">
+                          <Tag color={status.color} className="m-0 flex-shrink-0">{status.label}</Tag>
+                          <Tag className="m-0 flex-shrink-0">{delivery.ruleName}</Tag>
+                          <span className="flex-shrink-0">{actionConfig[delivery.actionType]?.label || delivery.actionType}</span>
+                          <Tooltip title={delivery.error || undefined}>
+                            <span className="truncate flex-1 text-muted-foreground">
+                              {delivery.target || '-'}
+                              {delivery.responseCode ? ` (HTTP ${delivery.responseCode})` : ''}
+                            </span>
+                          </Tooltip>
+                          <span className="text-xs text-muted-foreground flex-shrink-0">
+                            尝试 {delivery.attempts} 次 · {new Date(delivery.createdAt).toLocaleString('zh-CN')}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </Card>
+              )}
             </div>
           </Fade>
         </main>
@@ -634,63 +957,10 @@ export default function RulesPage() {
                 <Filter className="w-3 h-3 text-blue-600" />
               </div>
               <span className="font-medium">匹配条件</span>
-              <span className="text-xs text-muted-foreground">（满足以下所有条件时执行操作）</span>
+              <span className="text-xs text-muted-foreground">（满足以下所有条件时执行操作，可通过条件组组合任一/非逻辑）</span>
             </div>
 
-            <Form.List name="conditions">
-              {(fields, { add, remove }) => (
-                <div className="space-y-3">
-                  {fields.map(({ key, name, ...restField }) => (
-                    <div 
-                      key={key} 
-                      className="flex items-start gap-2 bg-background rounded-lg p-3 border border-border/60"
-                    >
-                      <Form.Item
-                        {...restField}
-                        name={[name, 'field']}
-                        rules={[{ required: true, message: '选择字段' }]}
-                        className="mb-0"
-                        style={{ width: 120 }}
-                      >
-                        <Select placeholder="字段" options={fieldOptions} />
-                      </Form.Item>
-                      <Form.Item
-                        {...restField}
-                        name={[name, 'operator']}
-                        rules={[{ required: true, message: '选择操作符' }]}
-                        className="mb-0"
-                        style={{ width: 120 }}
-                      >
-                        <Select placeholder="操作" options={operatorOptions} />
-                      </Form.Item>
-                      <Form.Item
-                        {...restField}
-                        name={[name, 'value']}
-                        rules={[{ required: true, message: '输入值' }]}
-                        className="mb-0 flex-1"
-                      >
-                        <Input placeholder="值" />
-                      </Form.Item>
-                      <Button 
-                        type="text" 
-                        icon={<X className="h-4 w-4" />} 
-                        onClick={() => remove(name)}
-                        className="text-muted-foreground hover:text-red-500"
-                      />
-                    </div>
-                  ))}
-                  <Button 
-                    type="dashed" 
-                    onClick={() => add()} 
-                    icon={<Plus className="h-4 w-4" />} 
-                    block
-                    className="border-dashed"
-                  >
-                    添加条件
-                  </Button>
-                </div>
-              )}
-            </Form.List>
+            <ConditionListEditor name="conditions" path={['conditions']} />
           </div>
 
           {/* 操作区域 */}
@@ -723,6 +993,42 @@ export default function RulesPage() {
                           className="w-full"
                         />
                       </Form.Item>
+                      <Form.Item noStyle shouldUpdate>
+                        {({ getFieldValue }) => {
+                          const type = getFieldValue(['actions', name, 'type']);
+                          if (type === 'webhook') {
+                            return (
+                              <>
+                                <Form.Item
+                                  {...restField}
+                                  name={[name, 'params', 'url']}
+                                  rules={[{ required: true, type: 'url', message: '输入有效的 URL' }]}
+                                  className="mb-0 flex-1"
+                                >
+                                  <Input placeholder="https://example.com/hook" />
+                                </Form.Item>
+                                <Form.Item
+                                  {...restField}
+                                  name={[name, 'params', 'secret']}
+                                  className="mb-0"
+                                  style={{ width: 160 }}
+                                  tooltip="用于 HMAC-SHA256 签名"
+                                >
+                                  <Input.Password placeholder="签名密钥（可选）" />
+                                </Form.Item>
+                              </>
+                            );
+                          }
+                          if (type === 'email') {
+                            return (
+                              <span className="flex-1 text-sm text-muted-foreground">
+                                发送到账户邮箱
+                              </span>
+                            );
+                          }
+                          return null;
+                        }}
+                      </Form.Item>
                       <Button 
                         type="text" 
                         icon={<X className="h-4 w-4" />} 
@@ -745,6 +1051,24 @@ export default function RulesPage() {
             </Form.List>
           </div>
 
+          {/* 执行控制 */}
+          <Form.Item
+            name="stopProcessing"
+            valuePropName="checked"
+            label="匹配后停止处理后续规则"
+            tooltip="开启后，文章匹配此规则时将不再执行排在其后的规则"
+          >
+            <Switch />
+          </Form.Item>
+
+          <Form.Item
+            name="rateLimitPerHour"
+            label="外发动作每小时上限"
+            tooltip="限制 Webhook、站内通知和邮件动作的投递频率，留空表示不限制"
+          >
+            <InputNumber min={1} max={10000} placeholder="不限制" style={{ width: 160 }} />
+          </Form.Item>
+
           {/* 测试结果区域 */}
           <Fade in={showTestResult} duration={300} direction="up" distance={10}>
             {showTestResult && (
@@ -774,9 +1098,6 @@ export default function RulesPage() {
                           <div className="flex items-center gap-2 text-sm p-2 rounded hover:bg-muted/50">
                             <Check className="w-4 h-4 text-green-500 flex-shrink-0" />
                             <span className="truncate flex-1">{match.entryTitle}</span>
-                            <span className="text-xs text-muted-foreground flex-shrink-0">
-                              匹配 {match.matchedConditions?.length || 0} 个条件
-                            </span>
                           </div>
                         </ListItemFade>
                       ))}
@@ -20,6 +20,7 @@ import {
   RotateCcw,
   ChevronLeft,
   ChevronRight,
+  FolderPlus,
 } from 'lucide-react';
 import { Button, Input, Spin, Select, Badge } from 'antd';
 import { AppHeader } from '@/components/layout/app-header';
@@ -35,6 +36,7 @@ import { Fade, StaggerContainer, ListItemFade } from '@/components/animation/fad
 import { usePageLoadAnimation } from '@/hooks/use-animation';
 import { EmptyState } from '@/components/ui/empty-state';
 import { EntryListSkeleton } from '@/components/ui/skeleton';
+import { SmartFolderModal } from '@/components/entries/smart-folder-modal';
 import { useLocalStorage } from '@/hooks/use-local-storage';
 
 // 搜索历史最大数量
@@ -51,6 +53,7 @@ function SearchPageContent() {
   const [query, setQuery] = useState(initialQuery);
   const [hasSearched, setHasSearched] = useState(!!initialQuery);
   const [showFilters, setShowFilters] = useState(false);
+  const [isSmartFolderOpen, setIsSmartFolderOpen] = useState(false);
   const [isInputFocused, setIsInputFocused] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -542,24 +545,33 @@ function SearchPageContent() {
                     </span>
                   )}
                 </div>
-                <Button
-                  icon={<Filter className="h-4 w-4" />}
-                  onClick={() => setShowFilters(!showFilters)}
-                  type={showFilters ? 'primary' : 'default'}
-                  className={cn(
-                    'transition-all duration-200',
-                    activeFilterCount > 0 && 'relative'
-                  )}
-                >
-                  筛选
-                  {activeFilterCount > 0 && (
-                    <Badge
-                      count={activeFilterCount}
-                      className="absolute -top-1 -right-1"
-                      style={{ backgroundColor: '#ff4d4f' }}
-                    />
-                  )}
-                </Button>
+                <div className="flex items-center gap-2">
+                  <Button
+                    icon={<FolderPlus className="h-4 w-4" />}
+                    onClick={() => setIsSmartFolderOpen(true)}
+                    disabled={!query.trim() && activeFilterCount === 0}
+                  >
+                    保存为智能文件夹
+                  </Button>
+                  <Button
+                    icon={<Filter className="h-4 w-4" />}
+                    onClick={() => setShowFilters(!showFilters)}
+                    type={showFilters ? 'primary' : 'default'}
+                    className={cn(
+                      'transition-all duration-200',
+                      activeFilterCount > 0 && 'relative'
+                    )}
+                  >
+                    筛选
+                    {activeFilterCount > 0 && (
+                      <Badge
+                        count={activeFilterCount}
+                        className="absolute -top-1 -right-1"
+                        style={{ backgroundColor: '#ff4d4f' }}
+                      />
+                    )}
+                  </Button>
+                </div>
               </div>
             </Fade>
 
@@ -687,6 +699,19 @@ function SearchPageContent() {
           </div>
         </main>
       </div>
+
+      {isSmartFolderOpen && (
+        <SmartFolderModal
+          onClose={() => setIsSmartFolderOpen(false)}
+          initial={{
+            query,
+            feedId: filters.feedId || undefined,
+            categoryId: filters.categoryId || undefined,
+            isRead: filters.isRead,
+            isStarred: filters.isStarred,
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -30,6 +30,7 @@ export function AISettings({ user }: AISettingsProps) {
 
   const [provider, setProvider] = useState<AIProvider>(aiConfig.provider || 'openai');
   const [model, setModel] = useState(aiConfig.model || '');
+  const [embeddingModel, setEmbeddingModel] = useState(aiConfig.embeddingModel || '');
   const [apiKey, setApiKey] = useState('');
   const [baseURL, setBaseURL] = useState(aiConfig.baseURL || '');
   const [autoSummary, setAutoSummary] = useState(aiConfig.autoSummary ?? false);
@@ -64,6 +65,7 @@ export function AISettings({ user }: AISettingsProps) {
   const hasChanges =
     provider !== aiConfig.provider ||
     model !== aiConfig.model ||
+    embeddingModel !== (aiConfig.embeddingModel || '') ||
     baseURL !== aiConfig.baseURL ||
     hasNewApiKey ||  // 只有当用户输入了新密钥时才算变化
     autoSummary !== (aiConfig.autoSummary ?? false) ||
@@ -77,6 +79,7 @@ export function AISettings({ user }: AISettingsProps) {
       const updateData: any = {
         provider,
         model,
+        embeddingModel,
         baseURL: baseURL || undefined,
         autoSummary,
         autoCategorize,
@@ -131,6 +134,7 @@ export function AISettings({ user }: AISettingsProps) {
       const updateData: any = {
         provider,
         model,
+        embeddingModel,
         baseURL: baseURL || undefined,
         autoSummary,
         autoCategorize,
@@ -251,6 +255,26 @@ export function AISettings({ user }: AISettingsProps) {
             />
           </div>
 
+          {/* 嵌入模型 */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">嵌入模型</label>
+            <input
+              type="text"
+              value={embeddingModel}
+              onChange={(e) => setEmbeddingModel(e.target.value)}
+              placeholder={['openai', 'anthropic', 'deepseek'].includes(provider) ? 'text-embedding-3-small' : '输入嵌入模型名称'}
+              className={cn(
+                'w-full px-4 py-3 rounded-xl border-2 border-border bg-background',
+                'focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary/50',
+                'transition-all duration-200 input-warm',
+                'placeholder:text-muted-foreground/50'
+              )}
+            />
+            <p className="text-xs text-muted-foreground">
+              用于语义搜索，需输出 1536 维向量；Ollama 和自定义 API 必须填写。更换模型后，只有用新模型生成嵌入的文章参与语义搜索
+            </p>
+          </div>
+
           {/* API密钥 */}
           {needsApiKey && (
             <div className="space-y-2">
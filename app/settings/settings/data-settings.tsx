@@ -4,10 +4,13 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import {
   Database,
   Download,
+  Upload,
+  FileArchive,
+  BookMarked,
   Trash2,
   AlertTriangle,
   Loader2,
@@ -20,7 +23,8 @@ import {
 import { cn } from '@/lib/utils';
 import { trpc } from '@/lib/trpc/client';
 import { notifySuccess, notifyError } from '@/lib/feedback';
-import { Button, Card, Progress, Statistic, Row, Col } from 'antd';
+import { READER_IMPORT_SOURCES, type ReaderImportSource } from '@/lib/reader-import/parsers';
+import { Button, Card, Progress, Statistic, Row, Col, Select } from 'antd';
 
 interface DataSettingsProps {
   onOpenDeleteModal: () => void;
@@ -30,6 +34,13 @@ export function DataSettings({ onOpenDeleteModal }: DataSettingsProps) {
   const [isExporting, setIsExporting] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
   const [isCleaning, setIsCleaning] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [conflict, setConflict] = useState<'skip' | 'overwrite'>('skip');
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const [isReaderImporting, setIsReaderImporting] = useState(false);
+  const [readerSource, setReaderSource] = useState<ReaderImportSource | 'auto'>('auto');
+  const readerInputRef = useRef<HTMLInputElement>(null);
+  const utils = trpc.useUtils();
 
   const { mutateAsync: exportOPML } = trpc.settings.exportOPML.useMutation();
   const { mutate: clearAllEntries } = trpc.settings.clearAllEntries.useMutation();
@@ -38,6 +49,12 @@ export function DataSettings({ onOpenDeleteModal }: DataSettingsProps) {
   // 获取文章统计
   const { data: entryStats, refetch: refetchStats } = trpc.settings.getEntryStats.useQuery();
   
+  // 阅读器导入进度
+  const { data: importProgress } = trpc.settings.getImportProgress.useQuery(undefined, {
+    enabled: isReaderImporting,
+    refetchInterval: isReaderImporting ? 1000 : false,
+  });
+
   // 获取用户偏好设置
   const { data: settings } = trpc.settings.get.useQuery();
 
@@ -62,6 +79,66 @@ export function DataSettings({ onOpenDeleteModal }: DataSettingsProps) {
     }
   };
 
+  const handleArchiveExport = () => {
+    // 归档可能很大，直接由浏览器下载流式响应
+    const a = document.createElement('a');
+    a.href = '/api/account/export';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  const handleArchiveImport = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const response = await fetch(`/api/account/import?conflict=${conflict}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-ndjson' },
+        body: file,
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || '导入失败');
+      }
+
+      const created = result.created as Record<string, number>;
+      notifySuccess(
+        `导入完成：新增订阅 ${created.subscription} 个、文章 ${created.entry} 篇、规则 ${created.rule} 条、报告 ${created.report} 份`
+      );
+      await utils.invalidate();
+    } catch (error) {
+      notifyError(error instanceof Error ? error.message : '导入失败');
+    } finally {
+      setIsImporting(false);
+      if (archiveInputRef.current) archiveInputRef.current.value = '';
+    }
+  };
+
+  const handleReaderImport = async (file: File) => {
+    setIsReaderImporting(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (readerSource !== 'auto') formData.append('source', readerSource);
+
+      const response = await fetch('/api/reader-import', { method: 'POST', body: formData });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || '导入失败');
+      }
+
+      notifySuccess(
+        `已从 ${READER_IMPORT_SOURCES[result.source as ReaderImportSource]} 导入：新增文章 ${result.imported} 篇，星标 ${result.starred} 篇`
+      );
+      await utils.invalidate();
+    } catch (error) {
+      notifyError(error instanceof Error ? error.message : '导入失败');
+    } finally {
+      setIsReaderImporting(false);
+      if (readerInputRef.current) readerInputRef.current.value = '';
+    }
+  };
+
   const handleClearEntries = async () => {
     if (!confirm('确定要清空所有文章吗？此操作无法撤销。')) return;
 
@@ -240,6 +317,137 @@ export function DataSettings({ onOpenDeleteModal }: DataSettingsProps) {
               导出 OPML
             </Button>
           </div>
+
+          {/* 账户归档 */}
+          <div className="flex items-center justify-between p-4 rounded-xl border border-border bg-muted/30">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+                <FileArchive className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <div className="font-medium">账户归档</div>
+                <div className="text-sm text-muted-foreground">
+                  导出订阅、文章及阅读状态、阅读历史、规则、定时报告和报告，可导入到其他实例恢复
+                </div>
+              </div>
+            </div>
+            <Button onClick={handleArchiveExport} icon={<Download className="h-4 w-4" />}>
+              导出归档
+            </Button>
+          </div>
+
+          <div className="flex items-center justify-between p-4 rounded-xl border border-border bg-muted/30">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+                <Upload className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <div className="font-medium">导入归档</div>
+                <div className="text-sm text-muted-foreground">
+                  从账户归档恢复数据；AI 密钥和 SMTP 密码不会导出，导入后需重新填写
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select
+                size="middle"
+                value={conflict}
+                onChange={setConflict}
+                disabled={isImporting}
+                options={[
+                  { value: 'skip', label: '保留现有数据' },
+                  { value: 'overwrite', label: '覆盖现有数据' },
+                ]}
+                style={{ width: 130 }}
+              />
+              <input
+                ref={archiveInputRef}
+                type="file"
+                accept=".ndjson,application/x-ndjson"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleArchiveImport(file);
+                }}
+              />
+              <Button
+                onClick={() => archiveInputRef.current?.click()}
+                loading={isImporting}
+                disabled={isImporting}
+                icon={<Upload className="h-4 w-4" />}
+              >
+                导入归档
+              </Button>
+            </div>
+          </div>
+          </div>
+        </Card>
+      </div>
+
+      {/* 从其他阅读器导入 */}
+      <div className="mb-6">
+        <Card
+          className="overflow-hidden"
+          variant="borderless"
+          title={
+            <div className="flex items-center gap-2">
+              <BookMarked className="h-5 w-5 text-primary" />
+              从其他阅读器导入
+            </div>
+          }
+        >
+          <div className="space-y-4">
+            <div className="flex items-center justify-between p-4 rounded-xl border border-border bg-muted/30">
+              <div>
+                <div className="font-medium">导入星标和稍后阅读</div>
+                <div className="text-sm text-muted-foreground">
+                  支持 Inoreader / FreshRSS 的 JSON 导出、Feedly 稍后阅读、Pocket 的 HTML/CSV 导出和 Miniflux 的文章 JSON，保留星标、已读和标签
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0 ml-4">
+                <Select
+                  value={readerSource}
+                  onChange={setReaderSource}
+                  disabled={isReaderImporting}
+                  options={[
+                    { value: 'auto', label: '自动识别' },
+                    ...Object.entries(READER_IMPORT_SOURCES).map(([value, label]) => ({ value, label })),
+                  ]}
+                  style={{ width: 160 }}
+                />
+                <input
+                  ref={readerInputRef}
+                  type="file"
+                  accept=".json,.html,.htm,.csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleReaderImport(file);
+                  }}
+                />
+                <Button
+                  onClick={() => readerInputRef.current?.click()}
+                  loading={isReaderImporting}
+                  disabled={isReaderImporting}
+                  icon={<Upload className="h-4 w-4" />}
+                >
+                  选择文件
+                </Button>
+              </div>
+            </div>
+
+            {isReaderImporting && importProgress && (
+              <div className="space-y-1">
+                <Progress
+                  percent={importProgress.total > 0 ? Math.round((importProgress.current / importProgress.total) * 100) : 0}
+                  size="small"
+                />
+                <div className="text-xs text-muted-foreground">
+                  {importProgress.message}
+                  {importProgress.total > 0 && ` ${importProgress.current}/${importProgress.total}`}
+                </div>
+              </div>
+            )}
           </div>
         </Card>
       </div>
@@ -355,7 +563,7 @@ export function DataSettings({ onOpenDeleteModal }: DataSettingsProps) {
               <ul className="text-sm text-amber-700 dark:text-amber-400 mt-2 space-y-1">
                 <li>• 清空文章后，所有文章内容将被永久删除</li>
                 <li>• 删除账户后，所有数据包括订阅源、文章、设置等都将无法恢复</li>
-                <li>• 建议在执行这些操作前先导出 OPML 备份您的订阅源</li>
+                <li>• 建议在执行这些操作前先导出账户归档备份您的数据</li>
               </ul>
             </div>
           </div>
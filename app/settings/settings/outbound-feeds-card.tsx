@@ -0,0 +1,270 @@
+/**
+ * 对外订阅源管理
+ * 将星标、标签、分类或重要度筛选出的文章发布为 RSS / Atom / JSON Feed 地址
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Check, Copy, Plus, RefreshCw, Rss, Trash2 } from 'lucide-react';
+import { Button, Card, Input, InputNumber, Modal, Select, Switch } from 'antd';
+import { trpc } from '@/lib/trpc/client';
+import { notifySuccess, notifyError } from '@/lib/feedback';
+
+const formats = [
+  { key: 'rss', label: 'RSS' },
+  { key: 'atom', label: 'Atom' },
+  { key: 'json', label: 'JSON Feed' },
+] as const;
+
+const emptyForm = {
+  name: '',
+  starredOnly: false,
+  tag: '',
+  categoryId: null as string | null,
+  minImportance: null as number | null,
+  includeAiSummary: true,
+};
+
+export function OutboundFeedsCard({
+  origin,
+  copiedId,
+  onCopy,
+}: {
+  origin: string;
+  copiedId: string | null;
+  onCopy: (text: string, id: string) => void;
+}) {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const utils = trpc.useUtils();
+  const { data: feeds = [] } = trpc.outboundFeeds.list.useQuery();
+  const { data: categories = [] } = trpc.categories.list.useQuery();
+  const createFeed = trpc.outboundFeeds.create.useMutation();
+  const updateFeed = trpc.outboundFeeds.update.useMutation();
+  const rotateToken = trpc.outboundFeeds.rotateToken.useMutation();
+  const deleteFeed = trpc.outboundFeeds.delete.useMutation();
+
+  const hasFilter = form.starredOnly || !!form.tag.trim() || !!form.categoryId || form.minImportance !== null;
+
+  const handleCreate = async () => {
+    try {
+      await createFeed.mutateAsync({
+        name: form.name.trim(),
+        starredOnly: form.starredOnly,
+        tag: form.tag.trim() || null,
+        categoryId: form.categoryId,
+        minImportance: form.minImportance,
+        includeAiSummary: form.includeAiSummary,
+      });
+      notifySuccess('订阅源已创建');
+      setIsModalOpen(false);
+      setForm(emptyForm);
+      utils.outboundFeeds.list.invalidate();
+    } catch (error) {
+      notifyError(error instanceof Error ? error.message : '创建失败');
+    }
+  };
+
+  const handleToggleSummary = async (id: string, includeAiSummary: boolean) => {
+    try {
+      await updateFeed.mutateAsync({ id, includeAiSummary });
+      utils.outboundFeeds.list.invalidate();
+    } catch (error) {
+      notifyError(error instanceof Error ? error.message : '更新失败');
+    }
+  };
+
+  const handleRotate = async (id: string, name: string) => {
+    if (!confirm(`确定要重置 "${name}" 的地址吗？旧地址将立即失效，已订阅的阅读器需要更新地址。`)) return;
+
+    try {
+      await rotateToken.mutateAsync({ id });
+      notifySuccess('地址已重置');
+      utils.outboundFeeds.list.invalidate();
+    } catch (error) {
+      notifyError(error instanceof Error ? error.message : '重置失败');
+    }
+  };
+
+  const handleDelete = async (id: string, name: string) => {
+    if (!confirm(`确定要删除订阅源 "${name}" 吗？订阅地址将立即失效。`)) return;
+
+    try {
+      await deleteFeed.mutateAsync({ id });
+      notifySuccess('订阅源已删除');
+      utils.outboundFeeds.list.invalidate();
+    } catch (error) {
+      notifyError(error instanceof Error ? error.message : '删除失败');
+    }
+  };
+
+  return (
+    <>
+      <Card
+        variant="borderless"
+        title={
+          <div className="flex items-center gap-2">
+            <Rss className="h-5 w-5 text-primary" />
+            对外订阅源
+          </div>
+        }
+        extra={
+          <Button type="primary" size="small" icon={<Plus className="h-4 w-4" />} onClick={() => setIsModalOpen(true)}>
+            创建订阅源
+          </Button>
+        }
+      >
+        <p className="text-sm text-muted-foreground mb-4">
+          将筛选出的文章发布为 RSS / Atom / JSON Feed，可在 Slack RSS 应用或其他阅读器中订阅。
+          地址包含访问令牌，任何拿到地址的人都能读取，泄露后请重置地址。
+        </p>
+
+        {feeds.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">暂无对外订阅源</div>
+        ) : (
+          <div className="space-y-3">
+            {feeds.map((feed) => (
+              <div key={feed.id} className="p-4 rounded-xl border border-border bg-muted/20">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium">{feed.name}</div>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {feed.starredOnly && (
+                        <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-primary/10 text-primary">星标</span>
+                      )}
+                      {feed.tag && (
+                        <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-primary/10 text-primary">
+                          标签：{feed.tag}
+                        </span>
+                      )}
+                      {feed.category && (
+                        <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-primary/10 text-primary">
+                          分类：{feed.category.name}
+                        </span>
+                      )}
+                      {feed.minImportance !== null && (
+                        <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-primary/10 text-primary">
+                          重要度 ≥ {feed.minImportance}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-2">
+                      访问 {feed.accessCount} 次
+                      {feed.lastAccessedAt && ` · 最后访问 ${new Date(feed.lastAccessedAt).toLocaleString('zh-CN')}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button type="text" title="重置地址" onClick={() => handleRotate(feed.id, feed.name)}>
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <Button type="text" danger title="删除" onClick={() => handleDelete(feed.id, feed.name)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 mt-3">
+                  {formats.map(({ key, label }) => {
+                    const copyId = `outbound-${feed.id}-${key}`;
+                    return (
+                      <Button
+                        key={key}
+                        size="small"
+                        icon={copiedId === copyId ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+                        onClick={() => onCopy(`${origin}/api/outbound/${feed.token}?format=${key}`, copyId)}
+                      >
+                        {label}
+                      </Button>
+                    );
+                  })}
+                  <label className="flex items-center gap-2 text-xs text-muted-foreground ml-auto">
+                    使用 AI 摘要
+                    <Switch
+                      size="small"
+                      checked={feed.includeAiSummary}
+                      onChange={(checked) => handleToggleSummary(feed.id, checked)}
+                    />
+                  </label>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <Modal
+        open={isModalOpen}
+        onCancel={() => setIsModalOpen(false)}
+        title="创建对外订阅源"
+        okText="创建"
+        onOk={handleCreate}
+        confirmLoading={createFeed.isPending}
+        okButtonProps={{ disabled: !form.name.trim() || !hasFilter }}
+      >
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">名称</label>
+            <Input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="例如：星标的 AI 文章"
+              maxLength={100}
+            />
+          </div>
+
+          <p className="text-xs text-muted-foreground">以下条件至少设置一项，多个条件需同时满足</p>
+
+          <label className="flex items-center justify-between">
+            <span className="text-sm font-medium">仅星标文章</span>
+            <Switch checked={form.starredOnly} onChange={(starredOnly) => setForm({ ...form, starredOnly })} />
+          </label>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">标签</label>
+            <Input
+              value={form.tag}
+              onChange={(e) => setForm({ ...form, tag: e.target.value })}
+              placeholder="例如：security"
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">分类</label>
+            <Select
+              className="w-full"
+              allowClear
+              placeholder="全部分类"
+              value={form.categoryId}
+              onChange={(categoryId) => setForm({ ...form, categoryId: categoryId ?? null })}
+              options={categories.map((category) => ({ value: category.id, label: category.name }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">最低重要度（0 - 1）</label>
+            <InputNumber
+              className="w-full"
+              min={0}
+              max={1}
+              step={0.1}
+              value={form.minImportance}
+              onChange={(minImportance) => setForm({ ...form, minImportance })}
+              placeholder="不限"
+            />
+          </div>
+
+          <label className="flex items-center justify-between">
+            <span className="text-sm font-medium">优先使用 AI 摘要作为描述</span>
+            <Switch
+              checked={form.includeAiSummary}
+              onChange={(includeAiSummary) => setForm({ ...form, includeAiSummary })}
+            />
+          </label>
+        </div>
+      </Modal>
+    </>
+  );
+}
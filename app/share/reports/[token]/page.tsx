@@ -0,0 +1,254 @@
+/**
+ * 公开分享的报告页面（只读，不需要登录）
+ */
+
+import type { Metadata } from 'next';
+import { cookies } from 'next/headers';
+import { format } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { BarChart3, BookOpen, ExternalLink, FileText, FolderOpen, Lightbulb, Lock, Rss, Star } from 'lucide-react';
+import { getSharedReport, recordShareView, shareAccessCookieName, type SharedReport } from '@/lib/reports/share';
+import { cn } from '@/lib/utils';
+import { SharePasswordForm } from './password-form';
+
+// 取消分享后立即失效，每次请求重新读取
+export const dynamic = 'force-dynamic';
+
+type PageProps = { params: Promise<{ token: string }> };
+
+const REPORT_TYPE_LABELS: Record<string, string> = {
+  daily: '日报',
+  weekly: '周报',
+  monthly: '月报',
+  custom: '定期报告',
+};
+
+const SECTIONS = [
+  { key: 'highlights', label: '精选', icon: Star, color: 'text-yellow-500', bg: 'bg-yellow-500/10' },
+  { key: 'topic', label: '专题', icon: FolderOpen, color: 'text-blue-500', bg: 'bg-blue-500/10' },
+  { key: 'recommendation', label: '推荐', icon: Lightbulb, color: 'text-green-500', bg: 'bg-green-500/10' },
+];
+
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || process.env.APP_URL || 'http://localhost:3000';
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { token } = await params;
+  const access = await getSharedReport(token, (await cookies()).get(shareAccessCookieName(token))?.value);
+
+  // 分享链接不应被搜索引擎收录
+  const base: Metadata = {
+    metadataBase: new URL(getAppUrl()),
+    robots: { index: false, follow: false },
+  };
+
+  if (access.status === 'not_found') {
+    return { ...base, title: '分享不存在或已失效 - RSS-Post' };
+  }
+
+  const title = access.status === 'ok' ? access.report.title : access.title;
+  const description = access.status === 'ok'
+    ? access.report.summary || `收录 ${access.report.totalEntries} 篇文章`
+    : '该报告需要访问密码';
+
+  return {
+    ...base,
+    title: `${title} - RSS-Post`,
+    description,
+    openGraph: {
+      type: 'article',
+      siteName: 'RSS-Post',
+      url: `/share/reports/${token}`,
+      title,
+      description,
+      locale: 'zh_CN',
+      images: [{ url: '/icons/icon-512x512.png', width: 512, height: 512 }],
+      ...(access.status === 'ok' && { publishedTime: access.report.createdAt.toISOString() }),
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description,
+    },
+  };
+}
+
+function ShareShell({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
+      <header className="border-b border-border/60 bg-background/80 backdrop-blur">
+        <div className="max-w-3xl mx-auto px-4 h-14 flex items-center gap-2">
+          <Rss className="h-5 w-5 text-primary" />
+          <span className="font-semibold">RSS-Post</span>
+          <span className="text-xs text-muted-foreground ml-2">分享的报告</span>
+        </div>
+      </header>
+      <main className="max-w-3xl mx-auto px-4 py-8">{children}</main>
+    </div>
+  );
+}
+
+function SharedMarkdown({ content }: { content: string }) {
+  // 公开页面不渲染原始 HTML
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      components={{
+        h1: ({ children }) => <h1 className="text-2xl font-bold mt-6 mb-4 pb-2 border-b border-border/60 first:mt-0">{children}</h1>,
+        h2: ({ children }) => <h2 className="text-xl font-semibold mt-5 mb-3 pb-2 border-b border-border/40">{children}</h2>,
+        h3: ({ children }) => <h3 className="text-lg font-semibold mt-4 mb-2">{children}</h3>,
+        p: ({ children }) => <p className="my-3 leading-7 text-foreground/90">{children}</p>,
+        ul: ({ children }) => <ul className="my-3 ml-6 space-y-1.5 list-disc marker:text-foreground/40">{children}</ul>,
+        ol: ({ children }) => <ol className="my-3 ml-6 space-y-1.5 list-decimal marker:text-foreground/40">{children}</ol>,
+        li: ({ children }) => <li className="leading-7 text-foreground/90">{children}</li>,
+        blockquote: ({ children }) => (
+          <blockquote className="my-4 pl-4 border-l-4 border-primary/50 italic text-foreground/70">{children}</blockquote>
+        ),
+        code: ({ children }) => <code className="px-1.5 py-0.5 rounded bg-muted text-sm font-mono">{children}</code>,
+        pre: ({ children }) => <pre className="my-4 p-4 rounded-lg bg-muted/50 overflow-x-auto">{children}</pre>,
+        a: ({ href, children }) => (
+          <a
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-primary hover:text-primary/80 underline underline-offset-4"
+          >
+            {children}
+          </a>
+        ),
+        hr: () => <hr className="my-6 border-t border-border/60" />,
+      }}
+    >
+      {content}
+    </ReactMarkdown>
+  );
+}
+
+function SharedEntries({ entries }: { entries: SharedReport['entries'] }) {
+  if (entries.length === 0) return null;
+
+  return (
+    <section className="mt-8">
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <BookOpen className="h-5 w-5 text-primary" />
+        相关文章
+      </h2>
+      <div className="space-y-2">
+        {entries.map(({ entry, section, rank }) => {
+          const config = SECTIONS.find((s) => s.key === section);
+          const Icon = config?.icon || FileText;
+          return (
+            <a
+              key={entry.id}
+              href={entry.url}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className="block p-4 rounded-xl border border-border/60 bg-muted/5 hover:bg-muted/10 hover:border-primary/30 transition-colors group"
+            >
+              <div className="flex items-start gap-3">
+                <div className={cn('w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0', config?.bg || 'bg-muted')}>
+                  <Icon className={cn('h-4 w-4', config?.color || 'text-muted-foreground')} />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-sm line-clamp-2 group-hover:text-primary transition-colors">
+                    {entry.title}
+                  </div>
+                  <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                    <span className={config?.color}>{config?.label || '文章'}</span>
+                    <span>·</span>
+                    <span>#{rank}</span>
+                    <span>·</span>
+                    <span className="truncate max-w-[200px]">{entry.feedTitle}</span>
+                    {entry.publishedAt && (
+                      <>
+                        <span>·</span>
+                        <span>{format(entry.publishedAt, 'MM-dd HH:mm')}</span>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <ExternalLink className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+              </div>
+            </a>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
+
+export default async function SharedReportPage({ params }: PageProps) {
+  const { token } = await params;
+  const access = await getSharedReport(token, (await cookies()).get(shareAccessCookieName(token))?.value);
+
+  if (access.status === 'not_found') {
+    return (
+      <ShareShell>
+        <div className="text-center py-24">
+          <FileText className="h-12 w-12 text-muted-foreground/40 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold mb-2">分享不存在或已失效</h1>
+          <p className="text-sm text-muted-foreground">链接可能已过期，或分享者已取消分享</p>
+        </div>
+      </ShareShell>
+    );
+  }
+
+  if (access.status === 'password_required') {
+    return (
+      <ShareShell>
+        <div className="max-w-sm mx-auto py-16 text-center">
+          <Lock className="h-10 w-10 text-primary mx-auto mb-4" />
+          <h1 className="text-xl font-semibold mb-1">{access.title}</h1>
+          <p className="text-sm text-muted-foreground mb-6">该报告需要访问密码</p>
+          <SharePasswordForm token={token} />
+        </div>
+      </ShareShell>
+    );
+  }
+
+  const { report } = access;
+  await recordShareView(report.id);
+
+  return (
+    <ShareShell>
+      <article>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
+          <span className="px-2 py-0.5 rounded-full bg-primary/10 text-primary">
+            {REPORT_TYPE_LABELS[report.reportType] || '报告'}
+          </span>
+          <span>{format(report.reportDate, 'yyyy年M月d日', { locale: zhCN })}</span>
+          {report.aiGenerated && <span>· AI 生成</span>}
+        </div>
+        <h1 className="text-3xl font-bold mb-4">{report.title}</h1>
+
+        <div className="flex items-center gap-6 text-sm text-muted-foreground mb-6">
+          <span className="flex items-center gap-1.5">
+            <FileText className="h-4 w-4" />
+            {report.totalEntries} 篇文章
+          </span>
+          <span className="flex items-center gap-1.5">
+            <BarChart3 className="h-4 w-4" />
+            {report.totalFeeds} 个订阅源
+          </span>
+        </div>
+
+        {report.summary && (
+          <div className="p-4 rounded-xl bg-primary/5 border border-primary/20 mb-6 leading-7">
+            {report.summary}
+          </div>
+        )}
+
+        {report.content && <SharedMarkdown content={report.content} />}
+
+        <SharedEntries entries={report.entries} />
+      </article>
+
+      <footer className="mt-12 pt-6 border-t border-border/60 text-center text-xs text-muted-foreground">
+        由 RSS-Post 生成
+      </footer>
+    </ShareShell>
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * 分享报告访问密码表单
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button, Input } from 'antd';
+
+export function SharePasswordForm({ token }: { token: string }) {
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!password) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/share/reports/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || '验证失败');
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      setError('网络错误，请稍后重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Input.Password
+        size="large"
+        placeholder="请输入访问密码"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        onPressEnter={handleSubmit}
+        status={error ? 'error' : undefined}
+        autoFocus
+      />
+      {error && <p className="text-sm text-destructive text-left">{error}</p>}
+      <Button type="primary" size="large" block loading={loading} onClick={handleSubmit}>
+        查看报告
+      </Button>
+    </div>
+  );
+}
@@ -41,6 +41,7 @@ interface EntryListProps {
     feedId?: string;
     categoryId?: string;
     search?: string;
+    smartFolderId?: string;
   };
   onSelect?: (entryId: string) => void;
   selectedId?: string | null;
@@ -190,6 +191,7 @@ export function EntryList({
         utils.feeds.globalStats.invalidate(),
         utils.categories.list.invalidate(),
         utils.feeds.list.invalidate({ limit: 100 }),
+        utils.smartFolders.list.invalidate(),
       ]);
     },
     onError: (error, _vars, context) => {
@@ -484,6 +486,9 @@ interface EntryItemProps {
     aiSentiment?: string | null;
     aiImportanceScore?: number;
     aiKeywords?: string[];
+    /** 发布者修改过标题或正文的次数 */
+    revisionCount?: number;
+    contentUpdatedAt?: Date | string | null;
     feed: {
       id: string;
       title: string;
@@ -586,6 +591,12 @@ const EntryItem = memo(function EntryItem({
             <span className="truncate max-w-[120px]">{entry.feed.title}</span>
             <span className="text-muted-foreground/50">·</span>
             <span>{formattedDate}</span>
+            {!!entry.revisionCount && (
+              <>
+                <span className="text-muted-foreground/50">·</span>
+                <span className="text-amber-600">已更新</span>
+              </>
+            )}
             {/* 重要性评分 - 只显示高分的 */}
             {entry.aiImportanceScore != null && entry.aiImportanceScore >= 0.7 && (
               <>
@@ -681,6 +692,16 @@ const EntryItem = memo(function EntryItem({
               <span className="font-medium">{entry.feed.title}</span>
               <span>·</span>
               <span>{formattedDate}</span>
+              {!!entry.revisionCount && entry.contentUpdatedAt && (
+                <>
+                  <span>·</span>
+                  <Tooltip content={`更新于 ${new Date(entry.contentUpdatedAt).toLocaleString('zh-CN')}`}>
+                    <Badge variant="warning" size="sm">
+                      已更新
+                    </Badge>
+                  </Tooltip>
+                </>
+              )}
               {entry.aiCategory && (
                 <>
                   <span>·</span>
@@ -819,7 +840,8 @@ const EntryItem = memo(function EntryItem({
     prevProps.isSelected === nextProps.isSelected &&
     prevProps.isChecked === nextProps.isChecked &&
     prevProps.entry.isRead === nextProps.entry.isRead &&
-    prevProps.entry.isStarred === nextProps.entry.isStarred
+    prevProps.entry.isStarred === nextProps.entry.isStarred &&
+    prevProps.entry.revisionCount === nextProps.entry.revisionCount
   );
 });
 
@@ -0,0 +1,105 @@
+/**
+ * 文章历史版本
+ * 选择一个旧版本，与它之后的版本对比标题和正文的修改
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { History } from 'lucide-react';
+import { Card, Empty, Select, Skeleton } from 'antd';
+import { trpc } from '@/lib/trpc/client';
+import { cn } from '@/lib/utils';
+import { diffText, htmlToDiffText, type DiffSegment } from '@/lib/entries/revision-diff';
+
+interface EntryVersion {
+  title: string;
+  content: string | null;
+  summary: string | null;
+}
+
+function DiffView({ segments, className }: { segments: DiffSegment[]; className?: string }) {
+  return (
+    <div className={cn('whitespace-pre-wrap break-words leading-relaxed', className)}>
+      {segments.map((segment, index) =>
+        segment.type === 'insert' ? (
+          <ins key={index} className="no-underline bg-green-500/15 text-green-700 dark:text-green-400 rounded-sm">
+            {segment.text}
+          </ins>
+        ) : segment.type === 'delete' ? (
+          <del key={index} className="bg-red-500/15 text-red-700 dark:text-red-400 rounded-sm">
+            {segment.text}
+          </del>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </div>
+  );
+}
+
+function versionText(version: EntryVersion): string {
+  return htmlToDiffText(version.content || version.summary);
+}
+
+export function EntryRevisions({ entryId, title, content, summary }: EntryVersion & { entryId: string }) {
+  const { data: revisions, isLoading } = trpc.entries.revisions.useQuery({ entryId });
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const diff = useMemo(() => {
+    const previous = revisions?.[selectedIndex];
+    if (!previous) return null;
+    // 与紧接着的下一个版本对比（最近一次修改与当前版本对比）
+    const next = selectedIndex === 0 ? { title, content, summary } : revisions[selectedIndex - 1];
+    return {
+      title: diffText(previous.title, next.title),
+      content: diffText(versionText(previous), versionText(next)),
+    };
+  }, [revisions, selectedIndex, title, content, summary]);
+
+  return (
+    <Card
+      title={
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-muted-foreground" />
+          <span className="text-sm font-medium">修改记录</span>
+        </div>
+      }
+      extra={
+        revisions && revisions.length > 0 && (
+          <Select
+            size="small"
+            className="min-w-[220px]"
+            value={selectedIndex}
+            onChange={setSelectedIndex}
+            options={revisions.map((revision, index) => ({
+              value: index,
+              label: `${new Date(revision.createdAt).toLocaleString('zh-CN')} 的修改`,
+            }))}
+          />
+        )
+      }
+      className="border-border/60"
+    >
+      {isLoading ? (
+        <Skeleton active paragraph={{ rows: 4 }} />
+      ) : !diff ? (
+        <Empty description="暂无修改记录" image={Empty.PRESENTED_IMAGE_SIMPLE} />
+      ) : (
+        <div className="space-y-4">
+          <p className="text-xs text-muted-foreground">
+            <del className="bg-red-500/15 text-red-700 dark:text-red-400 rounded-sm px-1">删除</del>
+            {' '}
+            <ins className="no-underline bg-green-500/15 text-green-700 dark:text-green-400 rounded-sm px-1">新增</ins>
+            {' '}
+            的内容相对于修改前的版本
+          </p>
+          {diff.title.some((segment) => segment.type !== 'equal') && (
+            <DiffView segments={diff.title} className="text-base font-semibold" />
+          )}
+          <DiffView segments={diff.content} className="text-sm text-muted-foreground max-h-[480px] overflow-y-auto" />
+        </div>
+      )}
+    </Card>
+  );
+}
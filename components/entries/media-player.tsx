@@ -0,0 +1,161 @@
+'use client';
+
+/**
+ * 音视频播放器组件
+ * 播放文章附件（播客/视频），自动保存播放进度到阅读历史
+ */
+
+import { useRef, useEffect, useCallback } from 'react';
+import { Headphones, Video, ListOrdered, Download } from 'lucide-react';
+import { Tag } from 'antd';
+import { trpc } from '@/lib/trpc/client';
+
+/** 播放中保存进度的间隔（毫秒） */
+const SAVE_INTERVAL = 15000;
+
+export interface MediaEnclosure {
+  url: string;
+  mimeType: string | null;
+  mediaKind: string;
+  duration: number | null;
+  episode: number | null;
+  season: number | null;
+  episodeType: string | null;
+  explicit: boolean | null;
+  imageUrl: string | null;
+  chaptersUrl: string | null;
+}
+
+interface MediaPlayerProps {
+  entryId: string;
+  enclosure: MediaEnclosure;
+  /** 上次播放位置（秒） */
+  initialPosition?: number;
+  className?: string;
+}
+
+/**
+ * 格式化时长：1:02:03 / 12:34
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
+export function MediaPlayer({ entryId, enclosure, initialPosition = 0, className }: MediaPlayerProps) {
+  const mediaRef = useRef<HTMLAudioElement & HTMLVideoElement>(null);
+  const lastSavedRef = useRef({ position: initialPosition, at: 0 });
+  const savePlayback = trpc.entries.savePlayback.useMutation();
+  const { mutate } = savePlayback;
+
+  const isVideo = enclosure.mediaKind === 'video';
+
+  const save = useCallback(
+    (completed = false, media: HTMLMediaElement | null = mediaRef.current) => {
+      if (!media) return;
+
+      const position = Math.floor(media.currentTime);
+      // 位置未变化时不重复保存
+      if (!completed && position === lastSavedRef.current.position) return;
+
+      lastSavedRef.current = { position, at: Date.now() };
+      mutate({ entryId, position, completed });
+    },
+    [entryId, mutate]
+  );
+
+  // 恢复上次播放位置
+  const handleLoadedMetadata = () => {
+    const media = mediaRef.current;
+    if (media && initialPosition > 0 && initialPosition < media.duration - 5) {
+      media.currentTime = initialPosition;
+    }
+  };
+
+  const handleTimeUpdate = () => {
+    if (Date.now() - lastSavedRef.current.at >= SAVE_INTERVAL) {
+      save();
+    }
+  };
+
+  // 离开页面时保存进度（卸载时 ref 已被置空，先取到播放器元素）
+  useEffect(() => {
+    const media = mediaRef.current;
+    return () => save(false, media);
+  }, [save]);
+
+  return (
+    <div className={className}>
+      <div className="rounded-xl border border-border/60 bg-muted/20 p-4 space-y-3">
+        <div className="flex items-center gap-3">
+          {enclosure.imageUrl && !isVideo ? (
+            <img src={enclosure.imageUrl} alt="" className="w-14 h-14 rounded-lg object-cover flex-shrink-0" />
+          ) : (
+            <div className="w-10 h-10 rounded-lg bg-primary/10 text-primary flex items-center justify-center flex-shrink-0">
+              {isVideo ? <Video className="w-5 h-5" /> : <Headphones className="w-5 h-5" />}
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-2 min-w-0">
+            {enclosure.season && <Tag>第 {enclosure.season} 季</Tag>}
+            {enclosure.episode && <Tag color="blue">第 {enclosure.episode} 集</Tag>}
+            {enclosure.episodeType && enclosure.episodeType !== 'full' && (
+              <Tag color="purple">{enclosure.episodeType === 'trailer' ? '预告' : '特别节目'}</Tag>
+            )}
+            {enclosure.explicit && <Tag color="red">E</Tag>}
+            {enclosure.duration && (
+              <span className="text-xs text-muted-foreground">时长 {formatDuration(enclosure.duration)}</span>
+            )}
+          </div>
+        </div>
+
+        {isVideo ? (
+          <video
+            ref={mediaRef}
+            src={enclosure.url}
+            controls
+            preload="metadata"
+            className="w-full rounded-lg bg-black"
+            onLoadedMetadata={handleLoadedMetadata}
+            onTimeUpdate={handleTimeUpdate}
+            onPause={() => save()}
+            onEnded={() => save(true)}
+          />
+        ) : (
+          <audio
+            ref={mediaRef}
+            src={enclosure.url}
+            controls
+            preload="metadata"
+            className="w-full"
+            onLoadedMetadata={handleLoadedMetadata}
+            onTimeUpdate={handleTimeUpdate}
+            onPause={() => save()}
+            onEnded={() => save(true)}
+          />
+        )}
+
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <a href={enclosure.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 hover:text-primary">
+            <Download className="w-3.5 h-3.5" />
+            下载
+          </a>
+          {enclosure.chaptersUrl && (
+            <a
+              href={enclosure.chaptersUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 hover:text-primary"
+            >
+              <ListOrdered className="w-3.5 h-3.5" />
+              章节
+            </a>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
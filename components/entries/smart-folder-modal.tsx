@@ -0,0 +1,209 @@
+/**
+ * 保存为智能文件夹
+ * 以当前搜索关键词和筛选条件为初始值，可补充标签、时间范围和重要度等条件
+ * 表单只在挂载时初始化，调用方在打开时渲染该组件
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Input, InputNumber, Modal, Select, Switch } from 'antd';
+import { trpc } from '@/lib/trpc/client';
+import { notifySuccess, notifyError } from '@/lib/feedback';
+
+export interface SmartFolderModalProps {
+  onClose: () => void;
+  initial: {
+    query: string;
+    feedId?: string;
+    categoryId?: string;
+    isRead?: boolean;
+    isStarred?: boolean;
+  };
+}
+
+const readStateOptions = [
+  { value: 'all', label: '全部' },
+  { value: 'unread', label: '仅未读' },
+  { value: 'read', label: '仅已读' },
+];
+
+function initialForm(initial: SmartFolderModalProps['initial']) {
+  return {
+    name: initial.query.trim(),
+    query: initial.query.trim(),
+    feedIds: initial.feedId ? [initial.feedId] : [],
+    categoryIds: initial.categoryId ? [initial.categoryId] : [],
+    tags: [] as string[],
+    readState: initial.isRead === undefined ? 'all' : initial.isRead ? 'read' : 'unread',
+    isStarred: initial.isStarred ?? false,
+    withinDays: null as number | null,
+    minImportance: null as number | null,
+    notifyOnMatch: false,
+  };
+}
+
+export function SmartFolderModal({ onClose, initial }: SmartFolderModalProps) {
+  const [form, setForm] = useState(() => initialForm(initial));
+
+  const utils = trpc.useUtils();
+  const { data: feeds } = trpc.feeds.list.useQuery({ limit: 100 });
+  const { data: categories = [] } = trpc.categories.list.useQuery();
+  const createFolder = trpc.smartFolders.create.useMutation();
+
+  const hasCondition =
+    !!form.query ||
+    form.feedIds.length > 0 ||
+    form.categoryIds.length > 0 ||
+    form.tags.length > 0 ||
+    form.readState !== 'all' ||
+    form.isStarred ||
+    form.withinDays !== null ||
+    form.minImportance !== null;
+
+  const handleCreate = async () => {
+    try {
+      await createFolder.mutateAsync({
+        name: form.name.trim(),
+        query: form.query,
+        filters: {
+          feedIds: form.feedIds,
+          categoryIds: form.categoryIds,
+          tags: form.tags,
+          isRead: form.readState === 'all' ? undefined : form.readState === 'read',
+          isStarred: form.isStarred || undefined,
+          withinDays: form.withinDays ?? undefined,
+          minImportance: form.minImportance ?? undefined,
+        },
+        notifyOnMatch: form.notifyOnMatch,
+      });
+      notifySuccess('智能文件夹已创建');
+      utils.smartFolders.list.invalidate();
+      onClose();
+    } catch (error) {
+      notifyError(error instanceof Error ? error.message : '创建失败');
+    }
+  };
+
+  return (
+    <Modal
+      open
+      onCancel={onClose}
+      title="保存为智能文件夹"
+      okText="保存"
+      onOk={handleCreate}
+      confirmLoading={createFolder.isPending}
+      okButtonProps={{ disabled: !form.name.trim() || !hasCondition }}
+    >
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">名称</label>
+          <Input
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="例如：Rust 相关"
+            maxLength={100}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">关键词</label>
+          <Input
+            value={form.query}
+            onChange={(e) => setForm({ ...form, query: e.target.value })}
+            placeholder="不限"
+            maxLength={500}
+          />
+        </div>
+
+        <p className="text-xs text-muted-foreground">关键词和以下条件至少设置一项，多个条件需同时满足</p>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">订阅源</label>
+          <Select
+            mode="multiple"
+            className="w-full"
+            allowClear
+            placeholder="全部订阅源"
+            value={form.feedIds}
+            onChange={(feedIds) => setForm({ ...form, feedIds })}
+            options={feeds?.items.map((feed: { id: string; title: string }) => ({ value: feed.id, label: feed.title }))}
+            optionFilterProp="label"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">分类</label>
+          <Select
+            mode="multiple"
+            className="w-full"
+            allowClear
+            placeholder="全部分类"
+            value={form.categoryIds}
+            onChange={(categoryIds) => setForm({ ...form, categoryIds })}
+            options={categories.map((category) => ({ value: category.id, label: category.name }))}
+            optionFilterProp="label"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">标签</label>
+          <Select
+            mode="tags"
+            className="w-full"
+            placeholder="输入后回车添加"
+            value={form.tags}
+            onChange={(tags) => setForm({ ...form, tags })}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">最近天数</label>
+            <InputNumber
+              className="w-full"
+              min={1}
+              max={365}
+              precision={0}
+              value={form.withinDays}
+              onChange={(withinDays) => setForm({ ...form, withinDays })}
+              placeholder="不限"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">最低重要度（0 - 1）</label>
+            <InputNumber
+              className="w-full"
+              min={0}
+              max={1}
+              step={0.1}
+              value={form.minImportance}
+              onChange={(minImportance) => setForm({ ...form, minImportance })}
+              placeholder="不限"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">阅读状态</label>
+          <Select
+            className="w-full"
+            value={form.readState}
+            onChange={(readState) => setForm({ ...form, readState })}
+            options={readStateOptions}
+          />
+        </div>
+
+        <label className="flex items-center justify-between">
+          <span className="text-sm font-medium">仅星标文章</span>
+          <Switch checked={form.isStarred} onChange={(isStarred) => setForm({ ...form, isStarred })} />
+        </label>
+
+        <label className="flex items-center justify-between">
+          <span className="text-sm font-medium">有新文章时通知我</span>
+          <Switch checked={form.notifyOnMatch} onChange={(notifyOnMatch) => setForm({ ...form, notifyOnMatch })} />
+        </label>
+      </div>
+    </Modal>
+  );
+}
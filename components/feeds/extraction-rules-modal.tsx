@@ -0,0 +1,248 @@
+/**
+ * 订阅源内容提取规则
+ * 设置全文抓取方式、正文 / 移除选择器、请求头和 Cookie，保存前可用任意文章预览提取结果
+ * 规则由订阅源所有者设置，其他订阅者只能查看
+ * 表单只在规则加载后初始化，调用方在打开时渲染该组件
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button, Empty, Input, Modal, Radio, Select, Skeleton, Tag } from 'antd';
+import { trpc } from '@/lib/trpc/client';
+import { notifySuccess, notifyError } from '@/lib/feedback';
+import { RichContentRenderer } from '@/components/entries/rich-content-renderer';
+import {
+  EXTRACTION_METHOD_LABELS,
+  formatHeaderLines,
+  parseHeaderLines,
+  type FullTextMode,
+} from '@/lib/rss/extraction-rules';
+
+const { TextArea } = Input;
+
+export interface ExtractionRulesModalProps {
+  feedId: string;
+  onClose: () => void;
+}
+
+const fullTextModeOptions: { value: FullTextMode; label: string }[] = [
+  { value: 'auto', label: '正文过短时抓取' },
+  { value: 'always', label: '总是抓取网页' },
+  { value: 'never', label: '从不抓取' },
+];
+
+interface RulesForm {
+  fullTextMode: FullTextMode;
+  contentSelectors: string[];
+  removeSelectors: string[];
+  headers: string;
+  cookie: string;
+  clearCookie: boolean;
+}
+
+function RulesEditor({
+  feedId,
+  initial,
+  hasCookie,
+  editable,
+  onClose,
+}: ExtractionRulesModalProps & { initial: RulesForm; hasCookie: boolean; editable: boolean }) {
+  const [form, setForm] = useState(initial);
+  const [previewUrl, setPreviewUrl] = useState('');
+
+  const utils = trpc.useUtils();
+  const updateRules = trpc.feeds.updateExtractionRules.useMutation();
+  const preview = trpc.feeds.previewExtraction.useMutation();
+
+  const { headers, invalid } = parseHeaderLines(form.headers);
+
+  const toRules = () => ({
+    fullTextMode: form.fullTextMode,
+    contentSelectors: form.contentSelectors,
+    removeSelectors: form.removeSelectors,
+    headers,
+    // 留空保持已保存的 Cookie
+    cookie: form.clearCookie ? null : form.cookie.trim() || undefined,
+  });
+
+  const handlePreview = () => {
+    preview.mutate(
+      { id: feedId, url: previewUrl.trim() || undefined, rules: toRules() },
+      { onError: (error) => notifyError(error.message) }
+    );
+  };
+
+  const handleSave = async () => {
+    try {
+      await updateRules.mutateAsync({ id: feedId, rules: toRules() });
+      notifySuccess('提取规则已保存', '下次抓取时生效');
+      utils.feeds.extractionRules.invalidate({ id: feedId });
+      onClose();
+    } catch (error) {
+      notifyError(error instanceof Error ? error.message : '保存失败');
+    }
+  };
+
+  return (
+    <Modal
+      open
+      onCancel={onClose}
+      title="内容提取规则"
+      width={720}
+      okText="保存"
+      onOk={handleSave}
+      confirmLoading={updateRules.isPending}
+      okButtonProps={{ disabled: invalid.length > 0, hidden: !editable }}
+      cancelText={editable ? '取消' : '关闭'}
+    >
+      <div className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          {editable ? '规则对该订阅源的所有订阅者生效' : '规则由添加该订阅源的用户设置，对所有订阅者生效，你只能查看'}
+        </p>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">全文抓取</label>
+          <div>
+            <Radio.Group
+              optionType="button"
+              value={form.fullTextMode}
+              onChange={(e) => setForm({ ...form, fullTextMode: e.target.value })}
+              options={fullTextModeOptions}
+              disabled={!editable}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">正文选择器</label>
+          <Select
+            mode="tags"
+            className="w-full"
+            placeholder="例如 .post-body，输入后回车添加，按顺序尝试"
+            value={form.contentSelectors}
+            onChange={(contentSelectors) => setForm({ ...form, contentSelectors })}
+            open={false}
+            disabled={!editable}
+          />
+          <p className="text-xs text-muted-foreground">都未匹配时使用内置的站点规则和自动识别</p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">移除元素</label>
+          <Select
+            mode="tags"
+            className="w-full"
+            placeholder="例如 .ad-banner、.author-card"
+            value={form.removeSelectors}
+            onChange={(removeSelectors) => setForm({ ...form, removeSelectors })}
+            open={false}
+            disabled={!editable}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">请求头</label>
+          <TextArea
+            rows={3}
+            value={form.headers}
+            onChange={(e) => setForm({ ...form, headers: e.target.value })}
+            placeholder={'每行一个，例如\nReferer: https://example.com/'}
+            className="font-mono text-xs"
+            disabled={!editable}
+          />
+          {invalid.length > 0 && (
+            <p className="text-xs text-red-500">无法识别或不允许设置：{invalid.join('；')}</p>
+          )}
+        </div>
+
+        {editable && (
+          <>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Cookie</label>
+              <div className="flex items-center gap-2">
+                <Input.Password
+                  value={form.cookie}
+                  onChange={(e) => setForm({ ...form, cookie: e.target.value, clearCookie: false })}
+                  placeholder={hasCookie && !form.clearCookie ? '已设置，留空保持不变' : 'name=value; other=value'}
+                  autoComplete="off"
+                />
+                {hasCookie && (
+                  <Button
+                    onClick={() => setForm({ ...form, cookie: '', clearCookie: !form.clearCookie })}
+                    danger={!form.clearCookie}
+                  >
+                    {form.clearCookie ? '撤销清除' : '清除'}
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">请求头和 Cookie 只发送到订阅源地址所在的网站（含子域名）</p>
+            </div>
+
+            <div className="space-y-2 pt-2 border-t border-border/60">
+              <label className="text-sm font-medium">预览提取</label>
+              <div className="flex items-center gap-2">
+                <Input
+                  value={previewUrl}
+                  onChange={(e) => setPreviewUrl(e.target.value)}
+                  placeholder="文章地址，留空使用最新文章"
+                />
+                <Button onClick={handlePreview} loading={preview.isPending} disabled={invalid.length > 0}>
+                  预览
+                </Button>
+              </div>
+
+              {preview.isPending ? (
+                <Skeleton active paragraph={{ rows: 4 }} />
+              ) : preview.data && !preview.data.result ? (
+                <Empty description="未能从该页面提取正文" image={Empty.PRESENTED_IMAGE_SIMPLE} />
+              ) : preview.data?.result ? (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Tag color={preview.data.result.method === 'custom' ? 'green' : 'default'}>
+                      {EXTRACTION_METHOD_LABELS[preview.data.result.method]}
+                    </Tag>
+                    <span>{preview.data.result.textLength} 字</span>
+                    <span className="truncate">{preview.data.url}</span>
+                  </div>
+                  <div className="max-h-[360px] overflow-y-auto rounded-lg border border-border/60 p-4">
+                    <RichContentRenderer html={preview.data.result.content} />
+                  </div>
+                </div>
+              ) : null}
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+export function ExtractionRulesModal({ feedId, onClose }: ExtractionRulesModalProps) {
+  const { data: rules, isLoading } = trpc.feeds.extractionRules.useQuery({ id: feedId });
+
+  if (isLoading || !rules) {
+    return (
+      <Modal open onCancel={onClose} title="内容提取规则" footer={null} width={720}>
+        <Skeleton active paragraph={{ rows: 6 }} />
+      </Modal>
+    );
+  }
+
+  return (
+    <RulesEditor
+      feedId={feedId}
+      onClose={onClose}
+      hasCookie={rules.hasCookie}
+      editable={rules.editable}
+      initial={{
+        fullTextMode: rules.fullTextMode,
+        contentSelectors: rules.contentSelectors,
+        removeSelectors: rules.removeSelectors,
+        headers: formatHeaderLines(rules.headers),
+        cookie: '',
+        clearCookie: false,
+      }}
+    />
+  );
+}
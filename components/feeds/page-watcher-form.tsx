@@ -0,0 +1,319 @@
+/**
+ * 网页监控
+ * 为没有 RSS 的网站设置列表页选择器：自动识别重复出现的条目结构或手动填写，保存前预览提取结果
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button, Empty, Input, Modal, Select, Skeleton, Tag } from 'antd';
+import { Eye, Globe, Save, Wand2 } from 'lucide-react';
+import { trpc } from '@/lib/trpc/client';
+import { notifySuccess, notifyError } from '@/lib/feedback';
+import { cn, formatDate } from '@/lib/utils';
+import type { PageSelectors } from '@/lib/rss/page-watcher';
+
+type SelectorFields = Record<keyof PageSelectors, string>;
+
+const selectorFields: { key: keyof PageSelectors; label: string; placeholder: string }[] = [
+  { key: 'item', label: '条目', placeholder: '必填，例如 ul.posts > li' },
+  { key: 'title', label: '标题', placeholder: '默认使用条目内的标题元素或链接文本' },
+  { key: 'link', label: '链接', placeholder: '默认使用条目内的第一个链接' },
+  { key: 'date', label: '日期', placeholder: '默认使用条目内的 <time>' },
+  { key: 'summary', label: '摘要', placeholder: '可选，作为条目正文；留空时按提取规则抓取全文' },
+];
+
+function toFields(selectors?: PageSelectors | null): SelectorFields {
+  return {
+    item: selectors?.item ?? '',
+    title: selectors?.title ?? '',
+    link: selectors?.link ?? '',
+    date: selectors?.date ?? '',
+    summary: selectors?.summary ?? '',
+  };
+}
+
+/**
+ * 表单转为选择器，未填写条目选择器时返回 null
+ */
+function toSelectors(fields: SelectorFields): PageSelectors | null {
+  if (!fields.item.trim()) return null;
+  const optional = (value: string) => value.trim() || undefined;
+  return {
+    item: fields.item.trim(),
+    title: optional(fields.title),
+    link: optional(fields.link),
+    date: optional(fields.date),
+    summary: optional(fields.summary),
+  };
+}
+
+interface SelectorsEditorProps {
+  url: string;
+  fields: SelectorFields;
+  onChange: (fields: SelectorFields) => void;
+  /** 自动识别得到页面标题时回调，用于填充订阅源标题 */
+  onTitle?: (title: string) => void;
+}
+
+function SelectorsEditor({ url, fields, onChange, onTitle }: SelectorsEditorProps) {
+  const suggest = trpc.feeds.previewPage.useMutation();
+  const preview = trpc.feeds.previewPage.useMutation();
+  const selectors = toSelectors(fields);
+
+  const handleSuggest = () => {
+    suggest.mutate(
+      { url },
+      {
+        onSuccess: (result) => {
+          onTitle?.(result.title);
+          if (result.suggestions.length === 0) {
+            notifyError('未能识别', '没有找到重复出现的条目，请手动填写选择器');
+            return;
+          }
+          onChange(toFields(result.suggestions[0].selectors));
+        },
+        onError: (error) => notifyError('识别失败', error.message),
+      }
+    );
+  };
+
+  const handlePreview = () => {
+    if (!selectors) return;
+    preview.mutate({ url, selectors }, { onError: (error) => notifyError('预览失败', error.message) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium">选择器</label>
+          <Button
+            size="small"
+            icon={<Wand2 className="h-3.5 w-3.5" />}
+            onClick={handleSuggest}
+            loading={suggest.isPending}
+            disabled={!url}
+          >
+            自动识别
+          </Button>
+        </div>
+
+        {suggest.data && suggest.data.suggestions.length > 1 && (
+          <div className="space-y-2">
+            {suggest.data.suggestions.map((suggestion) => (
+              <button
+                key={suggestion.selectors.item}
+                type="button"
+                onClick={() => onChange(toFields(suggestion.selectors))}
+                className={cn(
+                  'w-full rounded-lg border p-2 text-left text-xs transition-colors hover:border-primary',
+                  fields.item === suggestion.selectors.item ? 'border-primary bg-primary/5' : 'border-border/60'
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <Tag>{suggestion.itemCount} 条</Tag>
+                  <code className="truncate">{suggestion.selectors.item}</code>
+                </div>
+                <div className="mt-1 truncate text-muted-foreground">
+                  {suggestion.sample.map((item) => item.title).join(' · ')}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {selectorFields.map(({ key, label, placeholder }) => (
+          <Input
+            key={key}
+            addonBefore={<span className="inline-block w-8">{label}</span>}
+            value={fields[key]}
+            onChange={(e) => onChange({ ...fields, [key]: e.target.value })}
+            placeholder={placeholder}
+            className="font-mono text-xs"
+          />
+        ))}
+        <p className="text-xs text-muted-foreground">除条目外的选择器都在条目内查找</p>
+      </div>
+
+      <div className="space-y-2 pt-2 border-t border-border/60">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium">预览</label>
+          <Button
+            size="small"
+            icon={<Eye className="h-3.5 w-3.5" />}
+            onClick={handlePreview}
+            loading={preview.isPending}
+            disabled={!url || !selectors}
+          >
+            预览条目
+          </Button>
+        </div>
+
+        {preview.isPending ? (
+          <Skeleton active paragraph={{ rows: 4 }} />
+        ) : preview.data && preview.data.items.length === 0 ? (
+          <Empty description="没有匹配到条目" image={Empty.PRESENTED_IMAGE_SIMPLE} />
+        ) : preview.data ? (
+          <div className="max-h-[320px] overflow-y-auto rounded-lg border border-border/60 divide-y divide-border/60">
+            {preview.data.items.map((item) => (
+              <div key={item.guid} className="px-3 py-2 text-sm">
+                <div className="font-medium truncate">{item.title}</div>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  {item.pubDate && <span className="flex-shrink-0">{formatDate(item.pubDate)}</span>}
+                  <span className="truncate">{item.link ?? item.guid}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+export interface PageWatcherFormProps {
+  initialUrl?: string;
+  categories?: { id: string; name: string; color?: string | null }[];
+  onCancel: () => void;
+  onCreated: () => void;
+}
+
+/**
+ * 添加网页监控
+ */
+export function PageWatcherForm({ initialUrl = '', categories, onCancel, onCreated }: PageWatcherFormProps) {
+  const [url, setUrl] = useState(initialUrl);
+  const [title, setTitle] = useState('');
+  const [categoryId, setCategoryId] = useState<string>();
+  const [fields, setFields] = useState(toFields());
+
+  const addPage = trpc.feeds.addPage.useMutation();
+  const selectors = toSelectors(fields);
+  const validUrl = /^https?:\/\/.+/.test(url.trim());
+
+  const handleSave = async () => {
+    if (!selectors) return;
+    try {
+      await addPage.mutateAsync({
+        url: url.trim(),
+        title: title.trim() || undefined,
+        categoryId,
+        selectors,
+      });
+      notifySuccess('添加成功', '网页监控已添加，将定期检查列表页的新条目');
+      onCreated();
+    } catch (error) {
+      notifyError('添加失败', error instanceof Error ? error.message : '请稍后重试');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="mb-2 block text-sm font-medium">
+          列表页地址 <span className="text-red-500">*</span>
+        </label>
+        <Input
+          placeholder="https://example.com/changelog"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          prefix={<Globe className="h-4 w-4 text-muted-foreground" />}
+        />
+        <p className="mt-1 text-xs text-muted-foreground">
+          没有 RSS 的网站（更新日志、公告、新闻列表等），按选择器从列表页提取条目生成订阅源
+        </p>
+      </div>
+
+      <SelectorsEditor
+        url={validUrl ? url.trim() : ''}
+        fields={fields}
+        onChange={setFields}
+        onTitle={(pageTitle) => setTitle((current) => current || pageTitle)}
+      />
+
+      <div>
+        <label className="mb-2 block text-sm font-medium">标题</label>
+        <Input placeholder="留空则使用网页标题" value={title} onChange={(e) => setTitle(e.target.value)} />
+      </div>
+
+      <div>
+        <label className="mb-2 block text-sm font-medium">分类</label>
+        <Select
+          className="w-full"
+          placeholder="选择分类"
+          allowClear
+          value={categoryId}
+          onChange={setCategoryId}
+          options={categories?.map((category) => ({ label: category.name, value: category.id }))}
+        />
+      </div>
+
+      <div className="flex gap-3 pt-4 border-t border-border/60">
+        <Button onClick={onCancel} size="large">
+          取消
+        </Button>
+        <Button
+          type="primary"
+          icon={<Save className="h-4 w-4" />}
+          onClick={handleSave}
+          loading={addPage.isPending}
+          disabled={!validUrl || !selectors}
+          size="large"
+          className="flex-1"
+        >
+          添加网页监控
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export interface PageSelectorsModalProps {
+  feedId: string;
+  url: string;
+  selectors: PageSelectors | null;
+  onClose: () => void;
+}
+
+/**
+ * 修改网页监控的选择器（仅订阅源所有者可用）
+ */
+export function PageSelectorsModal({ feedId, url, selectors, onClose }: PageSelectorsModalProps) {
+  const [fields, setFields] = useState(toFields(selectors));
+  const updateSelectors = trpc.feeds.updatePageSelectors.useMutation();
+  const utils = trpc.useUtils();
+  const edited = toSelectors(fields);
+
+  const handleSave = async () => {
+    if (!edited) return;
+    try {
+      await updateSelectors.mutateAsync({ id: feedId, selectors: edited });
+      notifySuccess('选择器已保存', '正在按新的选择器重新抓取');
+      utils.feeds.byId.invalidate({ id: feedId });
+      onClose();
+    } catch (error) {
+      notifyError('保存失败', error instanceof Error ? error.message : '请稍后重试');
+    }
+  };
+
+  return (
+    <Modal
+      open
+      onCancel={onClose}
+      title="网页监控选择器"
+      width={720}
+      okText="保存"
+      onOk={handleSave}
+      confirmLoading={updateSelectors.isPending}
+      okButtonProps={{ disabled: !edited }}
+    >
+      <div className="space-y-4">
+        <p className="truncate text-xs text-muted-foreground">
+          {url} · 选择器对该网页监控的所有订阅者生效
+        </p>
+        <SelectorsEditor url={url} fields={fields} onChange={setFields} />
+      </div>
+    </Modal>
+  );
+}
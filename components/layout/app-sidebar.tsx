@@ -15,10 +15,12 @@ import {
   Inbox,
   Star,
   Archive,
+  Headphones,
   Clock,
   Settings,
   Sparkles,
   FileText,
+  FolderSearch,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { trpc } from '@/lib/trpc/client';
@@ -54,6 +56,9 @@ function AppSidebarComponent({ collapsed = false }: AppSidebarProps) {
     limit: 100,
   });
   const { data: stats } = trpc.feeds.globalStats.useQuery();
+  const { data: smartFolders } = trpc.smartFolders.list.useQuery(undefined, {
+    refetchInterval: 60000,
+  });
 
   // 获取 tRPC utils 用于缓存操作
   const utils = trpc.useUtils();
@@ -98,6 +103,16 @@ function AppSidebarComponent({ collapsed = false }: AppSidebarProps) {
     },
   });
 
+  const deleteSmartFolder = trpc.smartFolders.delete.useMutation({
+    onSuccess: async () => {
+      addToast({ type: 'success', title: '智能文件夹已删除' });
+      await utils.smartFolders.list.invalidate();
+    },
+    onError: (error) => {
+      addToast({ type: 'error', title: '删除失败', message: error.message });
+    },
+  });
+
   const toggleCategory = useCallback((categoryId: string) => {
     setOpenCategories((prev) => {
       const next = new Set(prev);
@@ -143,6 +158,13 @@ function AppSidebarComponent({ collapsed = false }: AppSidebarProps) {
     await deleteCategory.mutateAsync({ id: categoryId });
   };
 
+  const handleDeleteSmartFolder = async (folderId: string, folderName: string) => {
+    if (!confirm(`确定要删除智能文件夹 "${folderName}" 吗？文章不会被删除。`)) {
+      return;
+    }
+    await deleteSmartFolder.mutateAsync({ id: folderId });
+  };
+
   const isActive = (path: string) => {
     if (path === '/') return pathname === '/';
     return pathname.startsWith(path);
@@ -153,6 +175,7 @@ function AppSidebarComponent({ collapsed = false }: AppSidebarProps) {
     { icon: Clock, label: t('nav.unread'), href: '/unread', count: stats?.unreadCount },
     { icon: Star, label: t('nav.starred'), href: '/starred' },
     { icon: Archive, label: t('nav.archive'), href: '/archive' },
+    { icon: Headphones, label: t('nav.podcasts'), href: '/podcasts' },
     { icon: Sparkles, label: t('nav.ai_reports'), href: '/reports' },
   ];
 
@@ -225,6 +248,51 @@ function AppSidebarComponent({ collapsed = false }: AppSidebarProps) {
           ))}
         </nav>
 
+        {/* 智能文件夹 */}
+        {smartFolders && smartFolders.length > 0 && (
+          <div>
+            <div className="flex items-center justify-between mb-2 px-3">
+              <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                {t('nav.smart_folders')}
+              </span>
+              <Tooltip content="在搜索页保存为智能文件夹">
+                <Link href="/search">
+                  <Button type="text" size="small" className="h-7 w-7" icon={<Plus className="h-4 w-4" />} />
+                </Link>
+              </Tooltip>
+            </div>
+
+            <nav className="space-y-0.5">
+              {smartFolders.map((folder) => (
+                <div key={folder.id} className="group/folder flex items-center gap-1">
+                  <Link
+                    href={`/?folder=${folder.id}`}
+                    className="flex items-center gap-2 flex-1 min-w-0 px-3 py-2 rounded-xl text-sm text-foreground hover:bg-muted/60 hover:translate-x-0.5 transition-all duration-200"
+                  >
+                    <FolderSearch className="h-4 w-4 text-primary/60 flex-shrink-0 transition-transform duration-200 group-hover/folder:scale-110" />
+                    <span className="flex-1 truncate">{folder.name}</span>
+                    {folder.unreadCount > 0 && (
+                      <span className="px-1.5 py-0.5 text-xs bg-primary text-primary-foreground rounded">
+                        {folder.unreadCount}
+                      </span>
+                    )}
+                  </Link>
+                  <div className="opacity-0 group-hover/folder:opacity-100 transition-opacity duration-200">
+                    <Tooltip content="删除智能文件夹">
+                      <button
+                        onClick={() => handleDeleteSmartFolder(folder.id, folder.name)}
+                        className="p-1.5 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/30 text-muted-foreground hover:text-red-500 transition-colors"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </Tooltip>
+                  </div>
+                </div>
+              ))}
+            </nav>
+          </div>
+        )}
+
         {/* 分组 */}
         <div>
           <div className="flex items-center justify-between mb-2 px-3">
@@ -10,6 +10,7 @@ import {
   Inbox,
   Star,
   Archive,
+  Headphones,
   Clock,
   Settings,
   Rss,
@@ -93,6 +94,7 @@ export function MobileDrawer({ isOpen, onClose }: MobileDrawerProps) {
     { icon: Clock, label: '未读文章', href: '/unread', count: stats?.unreadCount },
     { icon: Star, label: '星标文章', href: '/starred' },
     { icon: Archive, label: '归档', href: '/archive' },
+    { icon: Headphones, label: '播客', href: '/podcasts' },
     { icon: Sparkles, label: 'AI 报告', href: '/reports' },
   ];
 
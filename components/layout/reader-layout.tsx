@@ -26,6 +26,7 @@ interface ReaderLayoutProps {
     feedId?: string;
     categoryId?: string;
     search?: string;
+    smartFolderId?: string;
   };
 }
 
@@ -173,6 +174,7 @@ export function ReaderLayout({ filters = {} }: ReaderLayoutProps) {
         utils.feeds.globalStats.invalidate(),
         utils.categories.list.invalidate(),
         utils.feeds.list.invalidate({ limit: 100 }),
+        utils.smartFolders.list.invalidate(),
       ]);
     },
     onError: (error, _vars, context) => {
@@ -239,6 +241,7 @@ export function ReaderLayout({ filters = {} }: ReaderLayoutProps) {
         utils.feeds.globalStats.invalidate(),
         utils.categories.list.invalidate(),
         utils.feeds.list.invalidate({ limit: 100 }),
+        utils.smartFolders.list.invalidate(),
       ]);
       // 等待所有查询重新完成
       await Promise.all([
@@ -37,9 +37,12 @@ export function MobileBottomNav() {
   const pathname = usePathname();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
 
+  // 登录页和公开分享页不显示（访客未登录）
+  const isHidden = ['/login', '/register', '/share/'].some((prefix) => pathname?.startsWith(prefix));
+
   // 获取未读数量
   const { data: stats } = trpc.feeds.globalStats.useQuery(undefined, {
-    enabled: isMobile,
+    enabled: isMobile && !isHidden,
     refetchInterval: 30000,
   });
 
@@ -52,8 +55,7 @@ export function MobileBottomNav() {
 
   if (!isMobile) return null;
 
-  // 在登录页面不显示
-  if (pathname?.startsWith('/login') || pathname?.startsWith('/register')) {
+  if (isHidden) {
     return null;
   }
 
@@ -68,7 +68,9 @@ const translations: Record<Language, Record<string, string>> = {
     'nav.unread': '未读',
     'nav.starred': '星标',
     'nav.archive': '归档',
+    'nav.podcasts': '播客',
     'nav.ai_reports': 'AI 报告',
+    'nav.smart_folders': '智能文件夹',
     'nav.categories': '分组',
     'nav.feeds': '订阅源',
     'nav.settings': '设置',
@@ -333,7 +335,9 @@ const translations: Record<Language, Record<string, string>> = {
     'nav.unread': 'Unread',
     'nav.starred': 'Starred',
     'nav.archive': 'Archive',
+    'nav.podcasts': 'Podcasts',
     'nav.ai_reports': 'AI Reports',
+    'nav.smart_folders': 'Smart Folders',
     'nav.categories': 'Categories',
     'nav.feeds': 'Feeds',
     'nav.settings': 'Settings',
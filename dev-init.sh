@@ -99,6 +99,13 @@ else
     exit 1
 fi
 
+echo "  - 初始化全文检索..."
+if npm run search:setup > /dev/null 2>&1; then
+    echo -e "  ${GREEN}[OK] 全文检索已就绪${NC}"
+else
+    echo -e "${YELLOW}[警告] 全文检索初始化失败，搜索将回退到模糊匹配${NC}"
+fi
+
 echo "  - 执行数据库 Seed..."
 if npm run db:seed > /dev/null 2>&1; then
     echo -e "  ${GREEN}[OK] Seed 完成${NC}"
@@ -97,9 +97,16 @@ case "$SERVICE_TYPE" in
         exec dumb-init -- tsx --tsconfig tsconfig.json scripts/start-feed-discovery-worker.ts
         ;;
 
+      "rule-delivery")
+        echo "[INFO] Starting Rule Delivery Worker..."
+        echo "  Concurrency: ${RULE_DELIVERY_CONCURRENCY:-5}"
+        echo ""
+        exec dumb-init -- tsx --tsconfig tsconfig.json scripts/start-rule-delivery-worker.ts
+        ;;
+
       *)
         echo "[ERROR] Unknown WORKER_TYPE: $WORKER_TYPE"
-        echo "[INFO] Valid types: preliminary, deep-analysis, feed-discovery"
+        echo "[INFO] Valid types: preliminary, deep-analysis, feed-discovery, rule-delivery"
         exit 1
         ;;
     esac
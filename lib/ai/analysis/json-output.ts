@@ -0,0 +1,166 @@
+/**
+ * 分析引擎 - 模型 JSON 输出解析
+ *
+ * 模型输出可能带代码块、前后说明文字或尾随逗号，先修复再按结构校验；
+ * 仍不符合要求时把错误反馈给模型重试
+ */
+
+import { z } from 'zod';
+import type { ChatOptions, ChatProvider } from '../client';
+
+export class AnalysisOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalysisOutputError';
+  }
+}
+
+const score = z.coerce.number().min(0).max(10);
+const ratio = z.coerce.number().min(0).max(1);
+
+/** 分段分析输出 */
+export const segmentOutputSchema = z.object({
+  keyPoints: z.array(z.string()),
+  technicalDetails: z.array(z.string()).optional(),
+  sentiment: z.enum(['positive', 'neutral', 'negative']).catch('neutral'),
+  importance: ratio.catch(0.5),
+  entities: z.array(z.string()).optional(),
+});
+
+/** 摘要输出 */
+export const summaryOutputSchema = z.object({
+  oneLine: z.string().min(1),
+  full: z.string().min(1),
+});
+
+/** 反思输出 */
+export const reflectionOutputSchema = z.object({
+  quality: score,
+  issues: z.array(z.string()).default([]),
+  suggestions: z.array(z.string()).default([]),
+  scores: z
+    .object({
+      comprehensiveness: score,
+      accuracy: score,
+      depth: score,
+      consistency: score,
+      objectivity: score,
+    })
+    .optional()
+    .catch(undefined),
+});
+
+/** 改进后的完整分析结果，对应 ArticleAnalysisResult 中由模型生成的部分 */
+export const analysisOutputSchema = z.object({
+  oneLineSummary: z.string().min(1),
+  summary: z.string().min(1),
+  mainPoints: z
+    .array(
+      z.union([
+        z.string().transform((point) => ({ point, explanation: '', importance: 0.5 })),
+        z.object({
+          point: z.string().min(1),
+          explanation: z.string().default(''),
+          importance: ratio.catch(0.5),
+        }),
+      ])
+    )
+    .min(1),
+  keyQuotes: z
+    .array(z.object({ quote: z.string().min(1), significance: z.string().default('') }))
+    .optional()
+    .catch(undefined),
+  tags: z.array(z.string()),
+  domain: z.string().min(1),
+  subcategory: z.string().min(1),
+  aiScore: score,
+  scoreDimensions: z.object({
+    depth: score,
+    quality: score,
+    practicality: score,
+    novelty: score,
+  }),
+});
+
+/**
+ * 从模型输出中取出 JSON 文本：去掉代码块标记和对象前后的说明文字
+ */
+function extractJsonText(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = fenced ? fenced[1] : content;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text.trim();
+}
+
+/**
+ * 修复常见的 JSON 格式问题：尾随逗号
+ */
+function repairJson(text: string): string {
+  return text.replace(/,(\s*[}\]])/g, '$1');
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map((issue) => `${issue.path.join('.') || '(根)'}: ${issue.message}`)
+    .join('；');
+}
+
+/**
+ * 解析并校验模型输出的 JSON
+ * @throws AnalysisOutputError 不是有效的 JSON 或不符合结构
+ */
+export function parseJsonOutput<T>(content: string, schema: z.ZodType<T>): T {
+  const text = extractJsonText(content);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    try {
+      data = JSON.parse(repairJson(text));
+    } catch {
+      throw new AnalysisOutputError('输出不是有效的 JSON');
+    }
+  }
+
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    throw new AnalysisOutputError(`JSON 不符合要求的结构（${formatIssues(parsed.error)}）`);
+  }
+  return parsed.data;
+}
+
+/**
+ * 请求 JSON 输出，输出无效时附上原输出和错误让模型更正，最多尝试 maxAttempts 次
+ */
+export async function chatJson<T>(
+  llm: ChatProvider,
+  options: ChatOptions,
+  schema: z.ZodType<T>,
+  maxAttempts = 2
+): Promise<T> {
+  let messages = options.messages;
+  let lastError: AnalysisOutputError | undefined;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const response = await llm.chat({ ...options, messages });
+    try {
+      return parseJsonOutput(response.content, schema);
+    } catch (error) {
+      if (!(error instanceof AnalysisOutputError)) throw error;
+      lastError = error;
+      messages = [
+        ...options.messages,
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content: `上面的输出无法使用：${error.message}。请按要求的格式重新输出，只输出 JSON，不要包含其他文字。`,
+        },
+      ];
+    }
+  }
+
+  throw lastError!;
+}
@@ -4,19 +4,20 @@
  * 通过多轮自我反思，不断提升分析结果的质量
  */
 
-import type { AIProvider } from '../client';
+import type { ChatProvider } from '../client';
 import type {
   ReflectionResult,
   ArticleAnalysisResult,
   AnalysisConfig,
 } from './types';
 import { DEFAULT_ANALYSIS_CONFIG } from './types';
+import { analysisOutputSchema, chatJson, reflectionOutputSchema } from './json-output';
 
 export class ReflectionEngine {
   private readonly config: AnalysisConfig;
 
   constructor(
-    private llm: AIProvider,
+    private llm: ChatProvider,
     config: Partial<AnalysisConfig> = {}
   ) {
     this.config = { ...DEFAULT_ANALYSIS_CONFIG, ...config };
@@ -62,29 +63,28 @@ export class ReflectionEngine {
     const prompt = this.buildReflectionPrompt(originalContent, analysis);
 
     try {
-      const response = await this.llm.chat({
-        model: this.config.reflectionModel!,
-        messages: [
-          {
-            role: 'system',
-            content: '你是一位资深技术编辑，负责严格审查文章分析质量。',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        response_format: { type: 'json_object' },
-      });
-
-      const result = JSON.parse(response.content);
+      const result = await chatJson(
+        this.llm,
+        {
+          model: this.config.reflectionModel!,
+          messages: [
+            {
+              role: 'system',
+              content: '你是一位资深技术编辑，负责严格审查文章分析质量。',
+            },
+            {
+              role: 'user',
+              content: prompt,
+            },
+          ],
+          response_format: { type: 'json_object' },
+        },
+        reflectionOutputSchema
+      );
 
       return {
-        quality: result.quality || 0,
-        issues: result.issues || [],
-        suggestions: result.suggestions || [],
+        ...result,
         needsRefinement: result.quality < (this.config.qualityThreshold || 7),
-        scores: result.scores,
       };
     } catch (error) {
       console.error('反思过程出错:', error);
@@ -157,34 +157,30 @@ ${originalContent.length > 3000 ? '...(已截断)' : ''}
     const prompt = this.buildImprovementPrompt(analysis, reflection, originalContent);
 
     try {
-      const response = await this.llm.chat({
-        model: this.config.reflectionModel!,
-        messages: [
-          {
-            role: 'system',
-            content: '你是一位资深技术编辑，负责根据审查建议优化文章分析结果。',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        response_format: { type: 'json_object' },
-      });
-
-      const result = JSON.parse(response.content);
-
-      // 合并结果
+      const result = await chatJson(
+        this.llm,
+        {
+          model: this.config.reflectionModel!,
+          messages: [
+            {
+              role: 'system',
+              content: '你是一位资深技术编辑，负责根据审查建议优化文章分析结果。',
+            },
+            {
+              role: 'user',
+              content: prompt,
+            },
+          ],
+          response_format: { type: 'json_object' },
+        },
+        analysisOutputSchema
+      );
+
+      // 合并结果，未输出金句时保留原有的
       return {
         ...analysis,
-        oneLineSummary: result.oneLineSummary || analysis.oneLineSummary,
-        summary: result.summary || analysis.summary,
-        mainPoints: result.mainPoints || analysis.mainPoints,
-        tags: result.tags || analysis.tags,
-        domain: result.domain || analysis.domain,
-        subcategory: result.subcategory || analysis.subcategory,
-        aiScore: result.aiScore || analysis.aiScore,
-        scoreDimensions: result.scoreDimensions || analysis.scoreDimensions,
+        ...result,
+        keyQuotes: result.keyQuotes ?? analysis.keyQuotes,
       };
     } catch (error) {
       console.error('改进过程出错:', error);
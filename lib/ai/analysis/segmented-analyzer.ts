@@ -7,7 +7,7 @@
  */
 
 import { marked } from 'marked';
-import type { AIProvider } from '../client';
+import type { ChatProvider } from '../client';
 import type {
   Segment,
   SegmentAnalysis,
@@ -15,6 +15,7 @@ import type {
   AnalysisConfig,
 } from './types';
 import { DEFAULT_ANALYSIS_CONFIG } from './types';
+import { chatJson, segmentOutputSchema, summaryOutputSchema } from './json-output';
 
 export class SegmentedAnalyzer {
   private readonly SEGMENT_SIZE: number;
@@ -22,7 +23,7 @@ export class SegmentedAnalyzer {
   private readonly config: AnalysisConfig;
 
   constructor(
-    private llm: AIProvider,
+    private llm: ChatProvider,
     config: Partial<AnalysisConfig> = {}
   ) {
     this.config = { ...DEFAULT_ANALYSIS_CONFIG, ...config };
@@ -160,31 +161,26 @@ export class SegmentedAnalyzer {
     const prompt = this.buildAnalysisPrompt(segment);
 
     try {
-      const response = await this.llm.chat({
-        model: this.config.analysisModel!,
-        messages: [
-          {
-            role: 'system',
-            content: '你是一个专业的技术文章分析助手。请仔细分析给定的文章段落，提取关键信息。',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        response_format: { type: 'json_object' },
-      });
-
-      const result = JSON.parse(response.content);
-
-      return {
-        segmentId: segment.id,
-        keyPoints: result.keyPoints || [],
-        technicalDetails: result.technicalDetails,
-        sentiment: result.sentiment || 'neutral',
-        importance: result.importance || 0.5,
-        entities: result.entities,
-      };
+      const result = await chatJson(
+        this.llm,
+        {
+          model: this.config.analysisModel!,
+          messages: [
+            {
+              role: 'system',
+              content: '你是一个专业的技术文章分析助手。请仔细分析给定的文章段落，提取关键信息。',
+            },
+            {
+              role: 'user',
+              content: prompt,
+            },
+          ],
+          response_format: { type: 'json_object' },
+        },
+        segmentOutputSchema
+      );
+
+      return { segmentId: segment.id, ...result };
     } catch (error) {
       // 出错时返回默认分析结果
       return {
@@ -297,17 +293,15 @@ ${allPoints.map((p, i) => `${i + 1}. ${p}`).join('\n')}
 }`;
 
     try {
-      const response = await this.llm.chat({
-        model: 'gpt-4o-mini',
-        messages: [{ role: 'user', content: prompt }],
-        response_format: { type: 'json_object' },
-      });
-
-      const result = JSON.parse(response.content);
-      return {
-        oneLine: result.oneLine || metadata.title,
-        full: result.full || '',
-      };
+      return await chatJson(
+        this.llm,
+        {
+          model: this.config.analysisModel!,
+          messages: [{ role: 'user', content: prompt }],
+          response_format: { type: 'json_object' },
+        },
+        summaryOutputSchema
+      );
     } catch {
       return {
         oneLine: metadata.title,
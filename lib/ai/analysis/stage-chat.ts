@@ -0,0 +1,110 @@
+/**
+ * 分析引擎 - 分阶段对话
+ *
+ * 深度分析的分段分析和反思阶段各自使用模型选择器选定的模型，
+ * 并分别统计调用次数和 token 用量
+ */
+
+import {
+  AIService,
+  getDefaultAIService,
+  type AIConfig,
+  type ChatOptions,
+  type ChatProvider,
+  type ChatResponse,
+  type UserAIConfig,
+} from '../client';
+import { getModelProvider, isModelAvailable } from '../model-selector';
+import { calculateCost } from '../model-config';
+
+export type AnalysisStage = 'analysis' | 'reflection';
+
+export interface StageUsage {
+  stage: AnalysisStage;
+  /** 实际使用的模型 */
+  model: string;
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** 累计耗时（毫秒） */
+  duration: number;
+}
+
+/**
+ * 按阶段选定的模型创建 AI 服务
+ * - 用户配置了 AI 服务时使用用户的提供商和密钥：选定模型属于该提供商时使用选定模型，否则使用用户设置的模型
+ * - 否则按模型名称推断提供商，缺少该提供商的 API Key 时回退到默认 AI 服务
+ */
+export function resolveStageService(model: string, userConfig?: UserAIConfig): AIService {
+  const provider = getModelProvider(model) as AIConfig['provider'];
+
+  if (userConfig?.provider) {
+    return getDefaultAIService(provider === userConfig.provider ? { ...userConfig, model } : userConfig);
+  }
+
+  if (isModelAvailable(model)) {
+    return getDefaultAIService({ provider, model });
+  }
+
+  return getDefaultAIService();
+}
+
+/**
+ * 单个分析阶段的对话服务
+ * 请求中的模型名称统一替换为该阶段实际使用的模型
+ */
+export class StageChat implements ChatProvider {
+  readonly usage: StageUsage;
+
+  constructor(
+    stage: AnalysisStage,
+    private service: AIService
+  ) {
+    this.usage = {
+      stage,
+      model: service.model,
+      calls: 0,
+      failedCalls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      duration: 0,
+    };
+  }
+
+  get model(): string {
+    return this.service.model;
+  }
+
+  async chat(options: ChatOptions): Promise<ChatResponse> {
+    const startTime = Date.now();
+    this.usage.calls++;
+
+    try {
+      const response = await this.service.chat({ ...options, model: this.service.model });
+      this.usage.inputTokens += response.promptTokens ?? 0;
+      this.usage.outputTokens += response.completionTokens ?? 0;
+      this.usage.totalTokens +=
+        response.tokensUsed ?? (response.promptTokens ?? 0) + (response.completionTokens ?? 0);
+      return response;
+    } catch (error) {
+      this.usage.failedCalls++;
+      throw error;
+    } finally {
+      this.usage.duration += Date.now() - startTime;
+    }
+  }
+
+  /**
+   * 按累计 token 估算成本（美元）
+   */
+  cost(): number {
+    const { inputTokens, outputTokens, totalTokens } = this.usage;
+    // 提供商只返回总数时全部按输入计
+    return inputTokens + outputTokens > 0
+      ? calculateCost(this.model, inputTokens, outputTokens)
+      : calculateCost(this.model, totalTokens, 0);
+  }
+}
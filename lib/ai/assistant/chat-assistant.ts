@@ -0,0 +1,188 @@
+/**
+ * AI 助手
+ *
+ * 检索增强的多轮对话：
+ * 1. 检索：用最新问题（追问时结合上一个问题）在用户全部文章中混合搜索
+ * 2. 回答：参考文章以 [n] 编号提供给模型，回答中的引用转换为文章链接
+ * 3. 工具：模型可调用工具（检索、星标、创建规则、总结订阅源），结果返回给模型继续回答
+ * 4. 流式：逐段输出生成的文本，工具调用代码块不展示给用户
+ */
+
+import { getSearchService } from '@/lib/search/service';
+import { getUserAIConfig } from '@/lib/ai/health-check';
+import { getDefaultAIService, type ChatMessage } from '@/lib/ai/client';
+import { db } from '@/lib/db';
+import { warn } from '@/lib/logger';
+import { formatSources, linkCitations, parseToolCall, ToolCallStreamGuard, trimHistory } from './protocol';
+import { loadSourceEntries, SourceRegistry } from './sources';
+import { describeTools, executeTool, type ToolContext } from './tools';
+import type { AssistantAction, AssistantMessage, AssistantReply, AssistantStreamEvent } from './types';
+
+/** 初始检索的文章数 */
+const RETRIEVAL_LIMIT = 8;
+/** 结果太少时结合上一个问题再检索 */
+const MIN_RETRIEVAL_RESULTS = 3;
+/** 一次回答最多引用的文章数 */
+const MAX_SOURCES = 30;
+/** 一次回答最多调用工具的轮数 */
+const MAX_TOOL_ROUNDS = 3;
+/** 传给模型的对话历史长度上限（字符） */
+const MAX_HISTORY_CHARS = 12000;
+
+export class ChatAssistant {
+  /**
+   * 回答用户的最新消息
+   * @param messages 完整对话历史，最后一条为用户消息
+   */
+  async reply(userId: string, messages: AssistantMessage[]): Promise<AssistantReply> {
+    for await (const event of this.stream(userId, messages)) {
+      if (event.type === 'done') return event.reply;
+    }
+    throw new Error('AI 助手没有返回回答');
+  }
+
+  /**
+   * 流式回答：逐段返回生成的文本和工具执行记录，最后返回完整回答
+   * 工具调用代码块不会输出；每轮工具调用前的说明文字与最终回答依次拼接
+   */
+  async *stream(
+    userId: string,
+    messages: AssistantMessage[],
+    signal?: AbortSignal
+  ): AsyncGenerator<AssistantStreamEvent> {
+    const history = trimHistory(messages, MAX_HISTORY_CHARS);
+    const sources = new SourceRegistry(MAX_SOURCES);
+    const ctx: ToolContext = { userId, sources };
+
+    await this.retrieve(userId, messages, sources);
+
+    const aiService = getDefaultAIService((await getUserAIConfig(userId, db)) ?? undefined);
+    const actions: AssistantAction[] = [];
+    const conversation: ChatMessage[] = [
+      { role: 'system', content: this.buildSystemPrompt(sources) },
+      ...history,
+    ];
+    const parts: string[] = [];
+
+    for (let round = 0; ; round++) {
+      const canUseTools = round < MAX_TOOL_ROUNDS;
+      if (!canUseTools) {
+        conversation.push({ role: 'user', content: '请直接根据已有信息回答，不要再调用工具。' });
+      }
+
+      const guard = new ToolCallStreamGuard();
+      const separator = parts.length > 0 ? '\n\n' : '';
+      let started = false;
+
+      const emit = (text: string): AssistantStreamEvent[] => {
+        const body = started ? text : text.trimStart();
+        if (!body) return [];
+
+        const delta = started ? body : `${separator}${body}`;
+        started = true;
+        return [{ type: 'delta', text: delta }];
+      };
+
+      for await (const chunk of aiService.chatStream({
+        model: aiService.model,
+        messages: conversation,
+        max_tokens: 2000,
+        temperature: 0.3,
+        signal,
+      })) {
+        yield* emit(guard.push(chunk));
+      }
+      yield* emit(guard.end());
+
+      const parsed = parseToolCall(guard.content);
+      const visible = (parsed ? parsed.text : guard.content).trim();
+      if (visible) parts.push(visible);
+
+      if (!parsed || !canUseTools) break;
+
+      const result = await executeTool(ctx, parsed.call);
+      const action = { tool: parsed.call.name, success: result.success, summary: result.summary };
+      actions.push(action);
+      yield { type: 'action', action };
+
+      conversation.push(
+        { role: 'assistant', content: guard.content.trim() },
+        { role: 'user', content: `工具 ${parsed.call.name} 的执行结果：\n${result.observation}\n\n请继续。` }
+      );
+    }
+
+    const linked = linkCitations(parts.join('\n\n'), sources.list);
+
+    yield {
+      type: 'done',
+      reply: {
+        role: 'assistant',
+        content: linked.content,
+        citations: linked.citations,
+        actions,
+      },
+    };
+  }
+
+  /**
+   * 检索参考文章，检索失败时不带参考文章继续回答
+   */
+  private async retrieve(userId: string, messages: AssistantMessage[], sources: SourceRegistry): Promise<void> {
+    const questions = messages.filter((m) => m.role === 'user').map((m) => m.content);
+    const question = questions[questions.length - 1];
+    const previous = questions[questions.length - 2];
+
+    try {
+      const search = getSearchService();
+      let { results } = await search.hybridSearch(question, { userId, semanticSearch: true, limit: RETRIEVAL_LIMIT });
+
+      // 追问（如"那它的缺点呢"）单独检索不到时，结合上一个问题
+      if (results.length < MIN_RETRIEVAL_RESULTS && previous) {
+        const followUp = await search.hybridSearch(`${previous} ${question}`, {
+          userId,
+          semanticSearch: true,
+          limit: RETRIEVAL_LIMIT,
+        });
+        results = [...results, ...followUp.results];
+      }
+
+      sources.add(await loadSourceEntries(userId, [...new Set(results.map((r) => r.entryId))]));
+    } catch (error) {
+      await warn('ai', 'AI 助手检索文章失败', { userId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private buildSystemPrompt(sources: SourceRegistry): string {
+    return `你是 RSS 阅读器中的 AI 助手，帮助用户基于其订阅的文章回答问题、总结和发现趋势。今天是 ${new Date().toISOString().slice(0, 10)}。
+
+## 参考文章
+以下是从用户全部文章中检索到的相关内容：
+
+${formatSources(sources.list)}
+
+## 回答要求
+- 使用中文，Markdown 格式
+- 引用参考文章时在句末标注编号，如 [1] 或 [2, 5]，只能引用上面或工具结果中出现的编号
+- 参考文章不足以回答时如实说明，不要编造文章内容
+
+## 工具
+需要更多信息或用户要求执行操作时，可以调用工具。调用时只输出一个代码块，不要输出其他内容：
+\`\`\`tool
+{"name": "工具名", "arguments": {参数}}
+\`\`\`
+
+可用工具：
+${describeTools()}
+
+工具执行结果会以用户消息的形式返回，之后继续回答。只有用户明确要求时才执行星标、创建规则等修改操作。`;
+  }
+}
+
+let chatAssistant: ChatAssistant | null = null;
+
+export function getChatAssistant(): ChatAssistant {
+  if (!chatAssistant) {
+    chatAssistant = new ChatAssistant();
+  }
+  return chatAssistant;
+}
@@ -0,0 +1,102 @@
+/**
+ * AI 助手 - 会话存储
+ * 每轮对话先保存用户消息，回答完成后保存助手消息；回答失败且没有输出时撤销本轮
+ */
+
+import { db } from '@/lib/db';
+import type { AssistantMessage, AssistantReply } from './types';
+
+/** 会话标题最大长度（取首个问题） */
+export const MAX_TITLE_LENGTH = 40;
+
+/**
+ * 根据首个问题生成会话标题
+ */
+export function conversationTitle(message: string): string {
+  const text = message.replace(/\s+/g, ' ').trim();
+  if (!text) return '新对话';
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH)}…` : text;
+}
+
+export interface ConversationTurn {
+  conversation: { id: string; title: string };
+  userMessageId: string;
+  /** 含本轮用户消息的完整历史 */
+  history: AssistantMessage[];
+}
+
+/**
+ * 开始一轮对话：保存用户消息并读取历史
+ * @param conversationId 为空时创建新会话
+ * @returns 会话不存在或不属于该用户时返回 null
+ */
+export async function startConversationTurn(
+  userId: string,
+  conversationId: string | undefined,
+  content: string
+): Promise<ConversationTurn | null> {
+  const conversation = conversationId
+    ? await db.aIConversation.findFirst({
+        where: { id: conversationId, userId },
+        select: { id: true, title: true },
+      })
+    : await db.aIConversation.create({
+        data: { userId, title: conversationTitle(content) },
+        select: { id: true, title: true },
+      });
+
+  if (!conversation) return null;
+
+  const userMessage = await db.aIConversationMessage.create({
+    data: { conversationId: conversation.id, role: 'user', content },
+    select: { id: true },
+  });
+
+  const messages = await db.aIConversationMessage.findMany({
+    where: { conversationId: conversation.id },
+    orderBy: { createdAt: 'asc' },
+    select: { role: true, content: true },
+  });
+
+  return {
+    conversation,
+    userMessageId: userMessage.id,
+    history: messages.map((m) => ({ role: m.role as AssistantMessage['role'], content: m.content })),
+  };
+}
+
+/**
+ * 保存助手回答
+ */
+export async function saveAssistantReply(conversationId: string, reply: AssistantReply): Promise<string> {
+  const [message] = await db.$transaction([
+    db.aIConversationMessage.create({
+      data: {
+        conversationId,
+        role: 'assistant',
+        content: reply.content,
+        citations: reply.citations as any,
+        actions: reply.actions as any,
+      },
+      select: { id: true },
+    }),
+    db.aIConversation.update({
+      where: { id: conversationId },
+      data: { updatedAt: new Date() },
+    }),
+  ]);
+
+  return message.id;
+}
+
+/**
+ * 撤销本轮对话：删除用户消息，会话因此为空时一并删除
+ */
+export async function discardConversationTurn(conversationId: string, userMessageId: string): Promise<void> {
+  await db.aIConversationMessage.delete({ where: { id: userMessageId } });
+
+  const remaining = await db.aIConversationMessage.count({ where: { conversationId } });
+  if (remaining === 0) {
+    await db.aIConversation.delete({ where: { id: conversationId } });
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * AI 助手 - 对话协议
+ *
+ * 与具体提供商无关的文本协议：
+ * - 参考文章以 [n] 编号提供给模型，回答中的 [n] 转换为指向 /entries/<id> 的链接
+ * - 模型需要调用工具时输出 ```tool {"name": ..., "arguments": {...}}``` 代码块
+ */
+
+import type { AssistantCitation, AssistantMessage, AssistantSource, ToolCall } from './types';
+
+const TOOL_FENCE = '```tool';
+const TOOL_BLOCK_PATTERN = /```tool\s*([\s\S]*?)```/;
+
+// [1]、[1, 3]、[1，3]，不匹配已经是 Markdown 链接文本的 [1](...)
+const CITATION_PATTERN = /\[(\d+(?:\s*[,，]\s*\d+)*)\](?!\()/g;
+
+/**
+ * 从模型输出中解析工具调用
+ * @returns 工具调用及代码块之前的文本；没有或无法解析时返回 null
+ */
+export function parseToolCall(content: string): { call: ToolCall; text: string } | null {
+  const match = content.match(TOOL_BLOCK_PATTERN);
+  if (!match) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(match[1].trim());
+  } catch {
+    return null;
+  }
+
+  if (!parsed || typeof parsed !== 'object') return null;
+
+  const { name, arguments: args } = parsed as { name?: unknown; arguments?: unknown };
+  if (typeof name !== 'string' || !name) return null;
+
+  return {
+    call: {
+      name,
+      arguments: args && typeof args === 'object' && !Array.isArray(args) ? (args as Record<string, unknown>) : {},
+    },
+    text: content.slice(0, match.index).trim(),
+  };
+}
+
+/**
+ * 流式输出时拦截工具代码块
+ * 工具调用不展示给用户：遇到 ```tool 后停止输出，可能是其开头的末尾片段暂缓输出
+ */
+export class ToolCallStreamGuard {
+  private raw = '';
+  private emitted = 0;
+  private fenceIndex = -1;
+
+  /** 已收到的完整文本 */
+  get content(): string {
+    return this.raw;
+  }
+
+  /** 可展示的文本（工具代码块之前的部分） */
+  get visibleContent(): string {
+    return this.fenceIndex >= 0 ? this.raw.slice(0, this.fenceIndex) : this.raw;
+  }
+
+  /**
+   * 追加一段输出
+   * @returns 可以立即展示的文本
+   */
+  push(chunk: string): string {
+    this.raw += chunk;
+    if (this.fenceIndex >= 0) return '';
+
+    // 可能是代码块开头的片段不会输出，因此只需从已输出位置开始查找
+    const fenceIndex = this.raw.indexOf(TOOL_FENCE, this.emitted);
+    if (fenceIndex >= 0) {
+      this.fenceIndex = fenceIndex;
+      return this.flush(fenceIndex);
+    }
+
+    // 末尾可能是 ```tool 的开头，等待后续片段
+    let held = Math.min(TOOL_FENCE.length - 1, this.raw.length);
+    while (held > 0 && !TOOL_FENCE.startsWith(this.raw.slice(-held))) held--;
+
+    return this.flush(this.raw.length - held);
+  }
+
+  /**
+   * 输出结束
+   * @returns 暂缓输出的剩余文本
+   */
+  end(): string {
+    return this.fenceIndex >= 0 ? '' : this.flush(this.raw.length);
+  }
+
+  private flush(until: number): string {
+    const text = this.raw.slice(this.emitted, until);
+    this.emitted = Math.max(this.emitted, until);
+    return text;
+  }
+}
+
+/**
+ * 将回答中的 [n] 引用转换为文章链接
+ * 未知编号保持原样
+ */
+export function linkCitations(
+  content: string,
+  sources: AssistantSource[]
+): { content: string; citations: AssistantCitation[] } {
+  const byIndex = new Map(sources.map((s) => [s.index, s]));
+  const cited = new Map<number, AssistantCitation>();
+
+  const linked = content.replace(CITATION_PATTERN, (whole, group: string) => {
+    const indexes = group.split(/\s*[,，]\s*/).map(Number);
+    if (!indexes.every((i) => byIndex.has(i))) return whole;
+
+    return indexes
+      .map((i) => {
+        const source = byIndex.get(i)!;
+        cited.set(i, {
+          index: source.index,
+          entryId: source.entryId,
+          title: source.title,
+          url: source.url,
+          feedTitle: source.feedTitle,
+        });
+        return `[[${i}]](/entries/${source.entryId})`;
+      })
+      .join('');
+  });
+
+  return {
+    content: linked,
+    citations: [...cited.values()].sort((a, b) => a.index - b.index),
+  };
+}
+
+/**
+ * 参考文章列表（用于提示词）
+ */
+export function formatSources(sources: AssistantSource[]): string {
+  if (sources.length === 0) return '（没有检索到相关文章）';
+
+  return sources
+    .map((s) => {
+      const date = s.publishedAt ? s.publishedAt.toISOString().slice(0, 10) : '未知日期';
+      return `[${s.index}] ${s.title}（${s.feedTitle}，${date}）\n${s.excerpt}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * 纯文本摘录：去除 HTML 标签并截断
+ */
+export function toExcerpt(text: string | null | undefined, maxLength: number): string {
+  if (!text) return '';
+
+  const plain = text.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  return plain.length > maxLength ? `${plain.slice(0, maxLength)}…` : plain;
+}
+
+/**
+ * 截取最近的对话历史，总长度不超过 maxChars（最后一条始终保留）
+ */
+export function trimHistory(messages: AssistantMessage[], maxChars: number): AssistantMessage[] {
+  const kept: AssistantMessage[] = [];
+  let total = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    total += messages[i].content.length;
+    if (kept.length > 0 && total > maxChars) break;
+    kept.unshift(messages[i]);
+  }
+
+  return kept;
+}
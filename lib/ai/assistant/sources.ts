@@ -0,0 +1,90 @@
+/**
+ * AI 助手 - 参考文章
+ * 一次回答内检索到的文章统一编号，工具和回答都以编号引用
+ */
+
+import { db } from '@/lib/db';
+import { entryFeedInclude, entryVisibleTo, toUserEntry } from '@/lib/entries/state';
+import { toExcerpt } from './protocol';
+import type { AssistantSource } from './types';
+
+const EXCERPT_LENGTH = 500;
+
+export type SourceEntry = Omit<AssistantSource, 'index'>;
+
+/**
+ * 读取用户可见的文章，保持 entryIds 的顺序
+ */
+export async function loadSourceEntries(userId: string, entryIds: string[]): Promise<SourceEntry[]> {
+  if (entryIds.length === 0) return [];
+
+  const entries = await db.entry.findMany({
+    where: { id: { in: entryIds }, ...entryVisibleTo(userId) },
+    select: {
+      id: true,
+      title: true,
+      url: true,
+      publishedAt: true,
+      summary: true,
+      aiSummary: true,
+      content: true,
+      feed: entryFeedInclude(userId),
+    },
+  });
+
+  const byId = new Map(entries.map((e) => [e.id, toUserEntry(e)]));
+
+  return entryIds.flatMap((id) => {
+    const entry = byId.get(id);
+    if (!entry) return [];
+
+    return [{
+      entryId: entry.id,
+      title: entry.title,
+      url: entry.url,
+      feedTitle: entry.feed.title,
+      publishedAt: entry.publishedAt,
+      excerpt: toExcerpt(entry.aiSummary || entry.summary || entry.content, EXCERPT_LENGTH),
+    }];
+  });
+}
+
+/**
+ * 参考文章编号表
+ */
+export class SourceRegistry {
+  private sources: AssistantSource[] = [];
+
+  constructor(private readonly maxSources: number) {}
+
+  get list(): AssistantSource[] {
+    return this.sources;
+  }
+
+  /**
+   * 登记文章，已登记的沿用原编号；超过上限的忽略
+   * @returns 本次涉及的文章（含已有编号的）
+   */
+  add(entries: SourceEntry[]): AssistantSource[] {
+    const added: AssistantSource[] = [];
+
+    for (const entry of entries) {
+      const existing = this.sources.find((s) => s.entryId === entry.entryId);
+      if (existing) {
+        added.push(existing);
+        continue;
+      }
+      if (this.sources.length >= this.maxSources) continue;
+
+      const source = { ...entry, index: this.sources.length + 1 };
+      this.sources.push(source);
+      added.push(source);
+    }
+
+    return added;
+  }
+
+  resolve(indexes: number[]): AssistantSource[] {
+    return this.sources.filter((s) => indexes.includes(s.index));
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * AI 助手 - Server-Sent Events 编解码
+ * 服务端与浏览器共用，不依赖服务端模块
+ */
+
+import type { AssistantStreamEvent } from './types';
+
+/**
+ * 编码为一条 SSE 消息
+ */
+export function encodeStreamEvent(event: AssistantStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * 增量解析 SSE 数据流
+ * 网络分块可能截断消息，不完整的部分留到下一次解析
+ */
+export class StreamEventParser {
+  private buffer = '';
+
+  feed(chunk: string): AssistantStreamEvent[] {
+    this.buffer += chunk;
+
+    const messages = this.buffer.split('\n\n');
+    this.buffer = messages.pop() ?? '';
+
+    return messages.flatMap((message) => {
+      const data = message
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (!data) return [];
+
+      try {
+        return [JSON.parse(data) as AssistantStreamEvent];
+      } catch {
+        return [];
+      }
+    });
+  }
+}
+
+/**
+ * 读取 SSE 响应体，逐个返回事件
+ */
+export async function* readStreamEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<AssistantStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new StreamEventParser();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield* parser.feed(decoder.decode(value, { stream: true }));
+    }
+    yield* parser.feed(decoder.decode() + '\n\n');
+  } finally {
+    reader.releaseLock();
+  }
+}
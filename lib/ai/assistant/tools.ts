@@ -0,0 +1,234 @@
+/**
+ * AI 助手 - 工具
+ * 模型通过 ```tool``` 代码块调用，参数使用 zod 校验，只能操作当前用户的数据
+ */
+
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { getSearchService } from '@/lib/search/service';
+import { entryVisibleTo, setEntryState } from '@/lib/entries/state';
+import type { RuleAction, RuleConditionNode } from '@/lib/rules/engine';
+import { info } from '@/lib/logger';
+import { loadSourceEntries, type SourceRegistry } from './sources';
+import type { AssistantSource, ToolCall } from './types';
+
+export interface ToolContext {
+  userId: string;
+  sources: SourceRegistry;
+}
+
+export interface ToolResult {
+  success: boolean;
+  /** 展示给用户的执行结果 */
+  summary: string;
+  /** 返回给模型的观察结果 */
+  observation: string;
+}
+
+interface AssistantTool<T> {
+  name: string;
+  description: string;
+  /** 参数示例（JSON） */
+  example: string;
+  schema: z.ZodType<T>;
+  execute(ctx: ToolContext, args: T): Promise<ToolResult>;
+}
+
+function describeSources(sources: AssistantSource[]): string {
+  return sources.map((s) => `[${s.index}] ${s.title}（${s.feedTitle}）\n${s.excerpt}`).join('\n\n');
+}
+
+const searchEntries: AssistantTool<{ query: string; limit: number }> = {
+  name: 'search_entries',
+  description: '在用户的全部文章中检索，结果追加到参考文章',
+  example: '{"query": "Rust 异步运行时", "limit": 5}',
+  schema: z.object({
+    query: z.string().min(1).max(200),
+    limit: z.number().int().min(1).max(10).default(5),
+  }),
+  async execute(ctx, { query, limit }) {
+    const { results } = await getSearchService().hybridSearch(query, {
+      userId: ctx.userId,
+      semanticSearch: true,
+      limit,
+    });
+    const sources = ctx.sources.add(await loadSourceEntries(ctx.userId, results.map((r) => r.entryId)));
+
+    return {
+      success: true,
+      summary: `检索「${query}」，找到 ${sources.length} 篇文章`,
+      observation: sources.length > 0 ? describeSources(sources) : '没有找到相关文章',
+    };
+  },
+};
+
+const starEntries: AssistantTool<{ sources: number[]; starred: boolean }> = {
+  name: 'star_entries',
+  description: '为参考文章添加或取消星标，sources 为参考文章编号',
+  example: '{"sources": [1, 3], "starred": true}',
+  schema: z.object({
+    sources: z.array(z.number().int().min(1)).min(1).max(50),
+    starred: z.boolean().default(true),
+  }),
+  async execute(ctx, { sources, starred }) {
+    const targets = ctx.sources.resolve(sources);
+    if (targets.length === 0) {
+      return { success: false, summary: '没有找到要操作的文章', observation: '参考文章编号无效' };
+    }
+
+    await setEntryState(ctx.userId, targets.map((s) => s.entryId), { isStarred: starred });
+    await info('ai', 'AI 助手更新星标', { userId: ctx.userId, count: targets.length, starred });
+
+    const verb = starred ? '添加星标' : '取消星标';
+    return {
+      success: true,
+      summary: `已为 ${targets.length} 篇文章${verb}`,
+      observation: `已${verb}：${targets.map((s) => `[${s.index}]`).join('')}`,
+    };
+  },
+};
+
+const ruleConditionSchema = z.object({
+  field: z.enum(['title', 'content', 'author', 'feedTitle', 'aiCategory', 'aiImportanceScore', 'readingTime']),
+  operator: z.enum(['contains', 'notContains', 'equals', 'notEquals', 'gt', 'lt']),
+  value: z.union([z.string().min(1), z.number()]),
+});
+
+const ruleActionSchema = z.object({
+  type: z.enum(['markRead', 'star', 'archive', 'skip', 'addTag']),
+  tag: z.string().min(1).max(50).optional(),
+});
+
+type CreateRuleArgs = {
+  name: string;
+  match: 'all' | 'any';
+  conditions: z.infer<typeof ruleConditionSchema>[];
+  actions: z.infer<typeof ruleActionSchema>[];
+};
+
+const createRule: AssistantTool<CreateRuleArgs> = {
+  name: 'create_rule',
+  description:
+    '创建订阅规则，新文章满足条件时自动执行动作。match 为 all（全部满足）或 any（任一满足）；' +
+    'field 可选 title/content/author/feedTitle/aiCategory/aiImportanceScore/readingTime，' +
+    'operator 可选 contains/notContains/equals/notEquals/gt/lt，' +
+    'action 可选 markRead/star/archive/skip/addTag（addTag 需要 tag）',
+  example: '{"name": "自动标记融资新闻", "match": "any", "conditions": [{"field": "title", "operator": "contains", "value": "融资"}], "actions": [{"type": "star"}]}',
+  schema: z.object({
+    name: z.string().min(1).max(100),
+    match: z.enum(['all', 'any']).default('all'),
+    conditions: z.array(ruleConditionSchema).min(1).max(10),
+    actions: z.array(ruleActionSchema).min(1).max(5),
+  }),
+  async execute(ctx, args) {
+    if (args.actions.some((a) => a.type === 'addTag' && !a.tag)) {
+      return { success: false, summary: '创建规则失败：addTag 动作缺少标签', observation: 'addTag 动作需要 tag 参数' };
+    }
+
+    const conditions: RuleConditionNode[] = args.match === 'any'
+      ? [{ logic: 'or', conditions: args.conditions }]
+      : args.conditions;
+    const actions: RuleAction[] = args.actions.map((a) => ({
+      type: a.type,
+      ...(a.type === 'addTag' && { params: { tag: a.tag } }),
+    }));
+
+    // 新规则排在最后执行
+    const lastRule = await db.subscriptionRule.findFirst({
+      where: { userId: ctx.userId },
+      orderBy: { sortOrder: 'desc' },
+      select: { sortOrder: true },
+    });
+
+    const rule = await db.subscriptionRule.create({
+      data: {
+        userId: ctx.userId,
+        name: args.name,
+        conditions: conditions as any,
+        actions: actions as any,
+        sortOrder: lastRule ? lastRule.sortOrder + 1 : 0,
+      },
+    });
+
+    await info('ai', 'AI 助手创建订阅规则', { userId: ctx.userId, ruleId: rule.id, name: rule.name });
+
+    return {
+      success: true,
+      summary: `已创建规则「${rule.name}」`,
+      observation: `规则已创建（id: ${rule.id}），可在「订阅规则」页面查看和修改`,
+    };
+  },
+};
+
+const summarizeFeed: AssistantTool<{ feed: string; days: number }> = {
+  name: 'summarize_feed',
+  description: '读取某个订阅源最近的文章（按名称模糊匹配），结果追加到参考文章，用于总结该订阅源',
+  example: '{"feed": "少数派", "days": 7}',
+  schema: z.object({
+    feed: z.string().min(1).max(200),
+    days: z.number().int().min(1).max(30).default(7),
+  }),
+  async execute(ctx, { feed, days }) {
+    const subscription = await db.subscription.findFirst({
+      where: {
+        userId: ctx.userId,
+        OR: [
+          { title: { contains: feed, mode: 'insensitive' } },
+          { feed: { title: { contains: feed, mode: 'insensitive' } } },
+        ],
+      },
+      select: { title: true, feedId: true },
+    });
+
+    if (!subscription) {
+      return { success: false, summary: `没有找到订阅源「${feed}」`, observation: `用户没有订阅名称包含「${feed}」的订阅源` };
+    }
+
+    const entries = await db.entry.findMany({
+      where: {
+        feedId: subscription.feedId,
+        ...entryVisibleTo(ctx.userId),
+        publishedAt: { gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) },
+      },
+      orderBy: { publishedAt: 'desc' },
+      take: 15,
+      select: { id: true },
+    });
+    const sources = ctx.sources.add(await loadSourceEntries(ctx.userId, entries.map((e) => e.id)));
+
+    return {
+      success: true,
+      summary: `读取「${subscription.title}」最近 ${days} 天的 ${sources.length} 篇文章`,
+      observation: sources.length > 0
+        ? `「${subscription.title}」最近 ${days} 天的文章：\n\n${describeSources(sources)}`
+        : `「${subscription.title}」最近 ${days} 天没有新文章`,
+    };
+  },
+};
+
+const TOOLS: AssistantTool<any>[] = [searchEntries, starEntries, createRule, summarizeFeed];
+
+/**
+ * 工具说明（用于系统提示词）
+ */
+export function describeTools(): string {
+  return TOOLS.map((t) => `- ${t.name}：${t.description}\n  参数示例：${t.example}`).join('\n');
+}
+
+/**
+ * 执行工具调用，参数或执行错误作为观察结果返回给模型
+ */
+export async function executeTool(ctx: ToolContext, call: ToolCall): Promise<ToolResult> {
+  const tool = TOOLS.find((t) => t.name === call.name);
+  if (!tool) {
+    return { success: false, summary: `未知工具 ${call.name}`, observation: `工具 ${call.name} 不存在` };
+  }
+
+  const parsed = tool.schema.safeParse(call.arguments);
+  if (!parsed.success) {
+    const message = parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ');
+    return { success: false, summary: `${tool.name} 参数无效`, observation: `参数无效：${message}` };
+  }
+
+  return tool.execute(ctx, parsed.data);
+}
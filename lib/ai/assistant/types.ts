@@ -0,0 +1,71 @@
+/**
+ * AI 助手 - 类型定义
+ */
+
+export interface AssistantMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * 提供给模型的参考文章，以 [n] 编号引用
+ */
+export interface AssistantSource {
+  index: number;
+  entryId: string;
+  title: string;
+  url: string;
+  feedTitle: string;
+  publishedAt: Date | null;
+  excerpt: string;
+}
+
+/**
+ * 回答中实际引用到的文章
+ */
+export interface AssistantCitation {
+  index: number;
+  entryId: string;
+  title: string;
+  url: string;
+  feedTitle: string;
+}
+
+/**
+ * 模型发起的工具调用
+ */
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * 工具执行记录（返回给前端展示）
+ */
+export interface AssistantAction {
+  tool: string;
+  success: boolean;
+  summary: string;
+}
+
+export interface AssistantReply {
+  role: 'assistant';
+  content: string;
+  citations: AssistantCitation[];
+  actions: AssistantAction[];
+}
+
+/**
+ * 流式回答事件
+ * - conversation：回答所属的会话（新会话在此时创建）
+ * - delta：新生成的文本片段
+ * - action：工具执行完成
+ * - done：回答完成，content 为处理引用链接后的完整内容
+ * - error：回答失败
+ */
+export type AssistantStreamEvent =
+  | { type: 'conversation'; id: string; title: string }
+  | { type: 'delta'; text: string }
+  | { type: 'action'; action: AssistantAction }
+  | { type: 'done'; reply: AssistantReply; messageId?: string }
+  | { type: 'error'; message: string };
@@ -11,8 +11,10 @@ import { EmbeddingCache } from './embedding-cache';
 const DEFAULT_TIMEOUT = 60000;
 
 export interface AIConfig {
-  provider: 'openai' | 'anthropic' | 'deepseek' | 'gemini' | 'ollama' | 'custom';
+  provider: 'openai' | 'anthropic' | 'deepseek' | 'gemini' | 'ollama' | 'custom' | 'mock';
   model: string;
+  /** 嵌入模型，未设置时使用提供商的默认模型 */
+  embeddingModel?: string;
   apiKey?: string;
   baseURL?: string;
   maxTokens?: number;
@@ -43,6 +45,9 @@ export interface ChatMessage {
 export interface ChatResponse {
   content: string;
   tokensUsed?: number;
+  /** 输入 / 输出 token 数（提供商返回时） */
+  promptTokens?: number;
+  completionTokens?: number;
 }
 
 export interface ChatOptions {
@@ -51,8 +56,21 @@ export interface ChatOptions {
   max_tokens?: number;
   temperature?: number;
   response_format?: { type: 'json_object' | 'text' };
+  /** 用于取消请求（如客户端断开） */
+  signal?: AbortSignal;
 }
 
+/**
+ * 各提供商默认的嵌入模型
+ * Anthropic 和 DeepSeek 没有嵌入接口，使用 OpenAI 生成；Gemini、Ollama 和自定义 API 需在配置中指定
+ */
+const DEFAULT_EMBEDDING_MODELS: Partial<Record<AIConfig['provider'], string>> = {
+  openai: 'text-embedding-3-small',
+  anthropic: 'text-embedding-3-small',
+  deepseek: 'text-embedding-3-small',
+  mock: 'mock',
+};
+
 /**
  * AI服务基类
  */
@@ -77,6 +95,21 @@ export abstract class AIProvider {
     ]);
   }
 
+  /**
+   * 使用的嵌入模型（未配置且提供商没有默认模型时为 undefined）
+   */
+  get embeddingModel(): string | undefined {
+    return this.config.embeddingModel || DEFAULT_EMBEDDING_MODELS[this.config.provider];
+  }
+
+  protected requireEmbeddingModel(): string {
+    const model = this.embeddingModel;
+    if (!model) {
+      throw new Error(`AI 提供商 ${this.config.provider} 没有默认的嵌入模型，请在 AI 设置中填写嵌入模型`);
+    }
+    return model;
+  }
+
   abstract generateSummary(content: string): Promise<string>;
   abstract extractKeywords(content: string): Promise<string[]>;
   abstract categorize(content: string): Promise<string>;
@@ -84,8 +117,22 @@ export abstract class AIProvider {
   abstract calculateImportance(content: string): Promise<number>;
   abstract generateEmbedding(text: string): Promise<EmbeddingResult>;
   abstract chat(options: ChatOptions): Promise<ChatResponse>;
+
+  /**
+   * 流式对话，逐段返回生成的文本
+   * 默认一次性返回完整结果，支持流式输出的提供商覆盖此方法
+   */
+  async *chatStream(options: ChatOptions): AsyncGenerator<string> {
+    const response = await this.chat(options);
+    yield response.content;
+  }
 }
 
+/**
+ * 只需要对话能力的调用方（分析引擎、评分）使用的接口
+ */
+export type ChatProvider = Pick<AIProvider, 'chat'>;
+
 /**
  * OpenAI提供商
  */
@@ -248,7 +295,7 @@ AI/机器学习, 前端开发, 后端开发, 移动开发, 云计算/DevOps,
   async generateEmbedding(text: string): Promise<EmbeddingResult> {
     return this.withTimeout((async () => {
       const response = await this.client.embeddings.create({
-        model: 'text-embedding-3-small',
+        model: this.requireEmbeddingModel(),
         input: text.slice(0, 8191),
       });
 
@@ -272,9 +319,27 @@ AI/机器学习, 前端开发, 后端开发, 移动开发, 云计算/DevOps,
       return {
         content: response.choices[0].message.content || '',
         tokensUsed: response.usage?.total_tokens,
+        promptTokens: response.usage?.prompt_tokens,
+        completionTokens: response.usage?.completion_tokens,
       };
     })());
   }
+
+  async *chatStream(options: ChatOptions): AsyncGenerator<string> {
+    // 超时只限制建立连接，生成过程由 signal 控制
+    const stream = await this.withTimeout(this.client.chat.completions.create({
+      model: options.model,
+      messages: options.messages as any,
+      max_tokens: options.max_tokens || this.config.maxTokens || 2000,
+      temperature: options.temperature ?? this.config.temperature ?? 0.7,
+      stream: true,
+    }, { signal: options.signal }));
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
 }
 
 /**
@@ -433,7 +498,7 @@ class AnthropicProvider extends AIProvider {
       });
 
       const response = await openai.embeddings.create({
-        model: 'text-embedding-3-small',
+        model: this.requireEmbeddingModel(),
         input: text.slice(0, 8191),
       });
 
@@ -458,9 +523,29 @@ class AnthropicProvider extends AIProvider {
       return {
         content: content.type === 'text' ? content.text : '',
         tokensUsed: response.usage?.input_tokens + response.usage?.output_tokens,
+        promptTokens: response.usage?.input_tokens,
+        completionTokens: response.usage?.output_tokens,
       };
     })());
   }
+
+  async *chatStream(options: ChatOptions): AsyncGenerator<string> {
+    // 超时只限制建立连接，生成过程由 signal 控制
+    const stream = await this.withTimeout(this.client.messages.create({
+      model: options.model,
+      max_tokens: options.max_tokens || this.config.maxTokens || 2000,
+      temperature: options.temperature ?? this.config.temperature ?? 0.7,
+      system: options.messages.find(m => m.role === 'system')?.content,
+      messages: options.messages.filter(m => m.role !== 'system') as any,
+      stream: true,
+    }, { signal: options.signal }));
+
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield event.delta.text;
+      }
+    }
+  }
 }
 
 /**
@@ -622,7 +707,7 @@ class DeepSeekProvider extends AIProvider {
       });
 
       const response = await openai.embeddings.create({
-        model: 'text-embedding-3-small',
+        model: this.requireEmbeddingModel(),
         input: text.slice(0, 8191),
       });
 
@@ -646,9 +731,78 @@ class DeepSeekProvider extends AIProvider {
       return {
         content: response.choices[0].message.content || '',
         tokensUsed: response.usage?.total_tokens,
+        promptTokens: response.usage?.prompt_tokens,
+        completionTokens: response.usage?.completion_tokens,
       };
     })());
   }
+
+  async *chatStream(options: ChatOptions): AsyncGenerator<string> {
+    // 超时只限制建立连接，生成过程由 signal 控制
+    const stream = await this.withTimeout(this.client.chat.completions.create({
+      model: options.model,
+      messages: options.messages as any,
+      max_tokens: options.max_tokens || this.config.maxTokens || 2000,
+      temperature: options.temperature ?? this.config.temperature ?? 0.7,
+      stream: true,
+    }, { signal: options.signal }));
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+}
+
+/**
+ * 本地模拟提供商
+ * 不调用任何外部服务，用于开发和测试：回复固定前缀加用户最后一条消息，流式输出时按字符分段
+ */
+class MockAIProvider extends AIProvider {
+  private reply(messages: ChatMessage[]): string {
+    const lastUser = [...messages].reverse().find(m => m.role === 'user');
+    return `（模拟回答）${lastUser?.content ?? ''}`;
+  }
+
+  async generateSummary(content: string): Promise<string> {
+    return content.slice(0, 200);
+  }
+
+  async extractKeywords(): Promise<string[]> {
+    return [];
+  }
+
+  async categorize(): Promise<string> {
+    return '其他';
+  }
+
+  async analyzeSentiment(): Promise<'positive' | 'neutral' | 'negative'> {
+    return 'neutral';
+  }
+
+  async calculateImportance(): Promise<number> {
+    return 0.5;
+  }
+
+  async generateEmbedding(text: string): Promise<EmbeddingResult> {
+    const embedding = new Array(1536).fill(0);
+    for (let i = 0; i < text.length; i++) {
+      embedding[text.charCodeAt(i) % 1536] += 1;
+    }
+    return { embedding, tokensUsed: 0 };
+  }
+
+  async chat(options: ChatOptions): Promise<ChatResponse> {
+    return { content: this.reply(options.messages), tokensUsed: 0 };
+  }
+
+  async *chatStream(options: ChatOptions): AsyncGenerator<string> {
+    const content = this.reply(options.messages);
+    for (let i = 0; i < content.length; i += 4) {
+      options.signal?.throwIfAborted();
+      yield content.slice(i, i + 4);
+    }
+  }
 }
 
 /**
@@ -694,6 +848,13 @@ export function createAIProvider(config: AIConfig): AIProvider {
       return new AnthropicProvider(config);
     case 'deepseek':
       return new DeepSeekProvider(config);
+    case 'gemini':
+      // Gemini 的 OpenAI 兼容接口
+      return new OpenAIProvider({
+        ...config,
+        baseURL: config.baseURL || 'https://generativelanguage.googleapis.com/v1beta/openai/',
+        apiKey: config.apiKey || process.env.GEMINI_API_KEY,
+      });
     case 'ollama':
       return new OpenAIProvider({
         ...config,
@@ -707,6 +868,8 @@ export function createAIProvider(config: AIConfig): AIProvider {
         baseURL: config.baseURL,
         apiKey: config.apiKey || 'custom',
       });
+    case 'mock':
+      return new MockAIProvider(config);
     default:
       throw new Error(`Unsupported AI provider: ${config.provider}`);
   }
@@ -717,9 +880,17 @@ export function createAIProvider(config: AIConfig): AIProvider {
  */
 export class AIService {
   private provider: AIProvider;
+  /** 当前使用的模型 */
+  readonly model: string;
 
   constructor(config: AIConfig) {
     this.provider = createAIProvider(config);
+    this.model = config.model;
+  }
+
+  /** 生成嵌入使用的模型，随嵌入一起保存 */
+  get embeddingModel(): string | undefined {
+    return this.provider.embeddingModel;
   }
 
   async analyzeArticle(content: string, options: {
@@ -800,13 +971,21 @@ export class AIService {
   }
 
   async generateEmbedding(text: string): Promise<EmbeddingResult> {
-    // 使用缓存避免重复调用 API
-    return EmbeddingCache.getOrCompute(text, () => this.provider.generateEmbedding(text));
+    const model = this.embeddingModel;
+    if (!model) {
+      return this.provider.generateEmbedding(text);
+    }
+    // 使用缓存避免重复调用 API（按模型区分）
+    return EmbeddingCache.getOrCompute(model, text, () => this.provider.generateEmbedding(text));
   }
 
   async chat(options: ChatOptions): Promise<ChatResponse> {
     return this.provider.chat(options);
   }
+
+  chatStream(options: ChatOptions): AsyncGenerator<string> {
+    return this.provider.chatStream(options);
+  }
 }
 
 /**
@@ -815,6 +994,7 @@ export class AIService {
 export interface UserAIConfig {
   provider?: string;
   model?: string;
+  embeddingModel?: string;
   apiKey?: string;
   baseURL?: string;
 }
@@ -832,7 +1012,9 @@ export function getDefaultAIService(userConfig?: UserAIConfig): AIService {
     provider === 'openai' ? 'gpt-4o' :
     provider === 'anthropic' ? 'claude-3-5-sonnet-20241022' :
     provider === 'deepseek' ? 'deepseek-chat' :
+    provider === 'gemini' ? 'gemini-1.5-flash' :
     provider === 'ollama' ? 'llama3' :
+    provider === 'mock' ? 'mock' :
     provider === 'custom' ? process.env.CUSTOM_API_MODEL || 'gpt-3.5-turbo' :
     'gpt-4o'
   );
@@ -842,6 +1024,7 @@ export function getDefaultAIService(userConfig?: UserAIConfig): AIService {
     const config: AIConfig = {
       provider: 'custom',
       model: defaultModel,
+      embeddingModel: userConfig?.embeddingModel || process.env.AI_EMBEDDING_MODEL,
       apiKey: userConfig?.apiKey || process.env.CUSTOM_API_KEY,
       baseURL: userConfig?.baseURL || process.env.CUSTOM_API_BASE_URL,
       maxTokens: 2000,
@@ -873,6 +1056,7 @@ export function getDefaultAIService(userConfig?: UserAIConfig): AIService {
   const config: AIConfig = {
     provider,
     model: defaultModel,
+    embeddingModel: userConfig?.embeddingModel || process.env.AI_EMBEDDING_MODEL,
     apiKey,
     baseURL: userConfig?.baseURL,
     maxTokens: 2000,
@@ -18,12 +18,12 @@ const MAX_MEMORY_CACHE_SIZE = 1000;
 const MEMORY_CACHE_TTL = 15 * 60 * 1000; // 15 分钟
 
 /**
- * 生成内容哈希
+ * 生成内容哈希（包含模型名，不同嵌入模型的结果分开缓存）
  */
-function generateContentHash(text: string): string {
+function generateContentHash(model: string, text: string): string {
   // 标准化文本：去除多余空格、统一换行符
   const normalizedText = text.trim().replace(/\s+/g, ' ').slice(0, 8191);
-  return createHash('sha256').update(normalizedText).digest('hex').slice(0, 32);
+  return createHash('sha256').update(`${model}\n${normalizedText}`).digest('hex').slice(0, 32);
 }
 
 /**
@@ -54,8 +54,8 @@ export const EmbeddingCache = {
   /**
    * 获取缓存的嵌入向量
    */
-  async get(text: string): Promise<EmbeddingResult | null> {
-    const contentHash = generateContentHash(text);
+  async get(model: string, text: string): Promise<EmbeddingResult | null> {
+    const contentHash = generateContentHash(model, text);
     const cacheKey = CacheKeys.aiEmbedding(contentHash);
 
     try {
@@ -80,8 +80,8 @@ export const EmbeddingCache = {
   /**
    * 缓存嵌入向量
    */
-  async set(text: string, result: EmbeddingResult): Promise<void> {
-    const contentHash = generateContentHash(text);
+  async set(model: string, text: string, result: EmbeddingResult): Promise<void> {
+    const contentHash = generateContentHash(model, text);
     const cacheKey = CacheKeys.aiEmbedding(contentHash);
 
     try {
@@ -107,11 +107,12 @@ export const EmbeddingCache = {
    * 获取或计算嵌入向量（自动缓存）
    */
   async getOrCompute(
+    model: string,
     text: string,
     compute: () => Promise<EmbeddingResult>
   ): Promise<EmbeddingResult> {
     // 先尝试从缓存获取
-    const cached = await this.get(text);
+    const cached = await this.get(model, text);
     if (cached) {
       return cached;
     }
@@ -120,7 +121,7 @@ export const EmbeddingCache = {
     const result = await compute();
 
     // 异步缓存结果
-    this.set(text, result).catch(err => {
+    this.set(model, text, result).catch(err => {
       console.error('[Embedding Cache] Background set error:', err);
     });
 
@@ -130,8 +131,8 @@ export const EmbeddingCache = {
   /**
    * 删除缓存的嵌入向量
    */
-  async delete(text: string): Promise<void> {
-    const contentHash = generateContentHash(text);
+  async delete(model: string, text: string): Promise<void> {
+    const contentHash = generateContentHash(model, text);
     const cacheKey = CacheKeys.aiEmbedding(contentHash);
 
     await CacheService.delete(cacheKey);
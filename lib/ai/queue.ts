@@ -24,6 +24,7 @@ import { info, warn, error as logError } from '../logger';
 import type { Entry, Feed, User } from '@prisma/client';
 import type { AIAnalysisQueue as AIAnalysisQueueModel } from '@prisma/client';
 import { safeDecrypt } from '../crypto/encryption';
+import { getRuleEngine } from '../rules/engine';
 
 // 任务类型，包含嵌套的关系
 type TaskWithRelations = AIAnalysisQueueModel & {
@@ -286,18 +287,24 @@ export class AIAnalysisQueue {
         },
       });
 
-      // 返回完整的任务数据
-      return tx.aIAnalysisQueue.findMany({
+      // 返回完整的任务数据（文章共享，使用最早订阅者的 AI 配置）
+      const tasks = await tx.aIAnalysisQueue.findMany({
         where: { id: { in: taskIds } },
         include: {
           entry: {
             include: {
               feed: {
                 include: {
-                  user: {
+                  subscriptions: {
+                    orderBy: { createdAt: 'asc' },
+                    take: 1,
                     select: {
-                      id: true,
-                      aiConfig: true,
+                      user: {
+                        select: {
+                          id: true,
+                          aiConfig: true,
+                        },
+                      },
                     },
                   },
                 },
@@ -306,6 +313,14 @@ export class AIAnalysisQueue {
           },
         },
       });
+
+      return tasks.map(({ entry: { feed: { subscriptions, ...feed }, ...entry }, ...task }) => ({
+        ...task,
+        entry: {
+          ...entry,
+          feed: { ...feed, user: subscriptions[0]?.user ?? null },
+        },
+      }));
     }, {
       isolationLevel: 'Serializable', // 最高隔离级别，防止竞态条件
       maxWait: 5000, // 最多等待5秒获取锁
@@ -409,6 +424,15 @@ export class AIAnalysisQueue {
         data: updateData,
       });
 
+      // 分类、情感和重要性已更新，执行引用分析字段的订阅规则
+      try {
+        await getRuleEngine().processAnalyzedEntry(task.entryId);
+      } catch (err) {
+        await logError('queue', '分析后执行订阅规则失败', err instanceof Error ? err : undefined, {
+          entryId: task.entryId,
+        });
+      }
+
       const duration = Date.now() - startTime;
       console.log(`✅ [Queue] 任务 ${task.id} 完成, 耗时: ${duration}ms`);
 
@@ -444,11 +468,13 @@ export class AIAnalysisQueue {
 
       // 发送AI分析完成通知
       const notificationService = getNotificationService();
-      await notificationService.notifyAIComplete(
-        task.entry.feed.userId,
-        task.entry.id,
-        task.entry.title
-      );
+      if (task.entry.feed.user) {
+        await notificationService.notifyAIComplete(
+          task.entry.feed.user.id,
+          task.entry.id,
+          task.entry.title
+        );
+      }
     } catch (error) {
       const duration = Date.now() - startTime;
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
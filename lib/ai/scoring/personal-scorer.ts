@@ -4,7 +4,7 @@
  * 基于用户阅读行为和偏好，为每篇文章生成个性化评分
  */
 
-import type { AIProvider } from '../client';
+import type { ChatProvider } from '../client';
 import type { ArticleAnalysisResult } from '../analysis/types';
 import type {
   ScoringDimensions,
@@ -18,7 +18,7 @@ export class PersonalScorer {
   private readonly config: RecommendationConfig;
 
   constructor(
-    private llm: AIProvider,
+    private llm: ChatProvider,
     config: Partial<RecommendationConfig> = {}
   ) {
     this.config = { ...DEFAULT_RECOMMENDATION_CONFIG, ...config };
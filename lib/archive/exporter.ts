@@ -0,0 +1,246 @@
+/**
+ * 账户归档导出
+ * 按记录逐条生成，文章分批读取，避免一次性加载全部数据
+ */
+
+import { db } from '@/lib/db';
+import { entryVisibleTo } from '@/lib/entries/state';
+import type { ScheduleDateRange, ScheduleFrequency } from '@/lib/reports/schedule';
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_RECORD_KINDS,
+  ARCHIVE_VERSION,
+  archiveRuleSchema,
+  sortCategoriesByParent,
+  toArchiveJson,
+  withoutSecrets,
+  type ArchiveOutputRecord,
+  type ArchiveRecordKind,
+} from './format';
+
+/** 每批读取的文章数 */
+const ENTRY_BATCH_SIZE = 200;
+
+/** 导出时移除的 AI 配置字段 */
+const AI_CONFIG_SECRETS = ['apiKey', 'configValid', 'configError', 'lastTestedAt'];
+/** 导出时移除的邮件配置字段 */
+const EMAIL_CONFIG_SECRETS = ['smtpPassword'];
+
+/**
+ * 生成用户的完整账户归档
+ * 包含订阅中的全部文章及其阅读状态，以及已取消订阅但仍有星标/归档/阅读记录或被报告引用的文章
+ */
+export async function* exportAccount(userId: string): AsyncGenerator<ArchiveOutputRecord> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      username: true,
+      email: true,
+      preferences: true,
+      aiConfig: true,
+      emailConfig: true,
+      userPreference: {
+        select: { topicWeights: true, preferredDepth: true, preferredLength: true, excludedTags: true },
+      },
+    },
+  });
+  if (!user) throw new Error('用户不存在');
+
+  const counts = Object.fromEntries(ARCHIVE_RECORD_KINDS.map((kind) => [kind, 0])) as Record<ArchiveRecordKind, number>;
+  const record = <R extends ArchiveOutputRecord>(r: R): R => {
+    if (r.type !== 'header' && r.type !== 'footer') counts[r.type]++;
+    return r;
+  };
+
+  yield {
+    type: 'header',
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date(),
+    account: { username: user.username, email: user.email },
+  };
+
+  yield record({
+    type: 'settings',
+    data: {
+      preferences: withoutSecrets(user.preferences, []),
+      aiConfig: withoutSecrets(user.aiConfig, AI_CONFIG_SECRETS),
+      emailConfig: withoutSecrets(user.emailConfig, EMAIL_CONFIG_SECRETS),
+      userPreference: user.userPreference && {
+        ...user.userPreference,
+        topicWeights: toArchiveJson(user.userPreference.topicWeights),
+      },
+    },
+  });
+
+  const categories = await db.category.findMany({
+    where: { userId },
+    orderBy: { sortOrder: 'asc' },
+    select: { id: true, name: true, description: true, color: true, icon: true, parentId: true, sortOrder: true },
+  });
+  for (const category of sortCategoriesByParent(categories)) {
+    yield record({ type: 'category', data: category });
+  }
+
+  const subscriptions = await db.subscription.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+    include: {
+      feed: { select: { id: true, feedUrl: true, title: true, description: true, siteUrl: true, iconUrl: true } },
+    },
+  });
+  for (const subscription of subscriptions) {
+    yield record({
+      type: 'subscription',
+      data: {
+        feed: subscription.feed,
+        title: subscription.title,
+        categoryId: subscription.categoryId,
+        fetchTimeRange: subscription.fetchTimeRange,
+        isActive: subscription.isActive,
+        priority: subscription.priority,
+        tags: subscription.tags,
+        createdAt: subscription.createdAt,
+      },
+    });
+  }
+
+  // 订阅中的文章 + 未订阅但有用户数据的文章；后者的订阅源以 feed 记录导出
+  const entryWhere = {
+    OR: [
+      entryVisibleTo(userId),
+      { states: { some: { userId, OR: [{ isStarred: true }, { isArchived: true }] } } },
+      { readingHistory: { some: { userId } } },
+      { reportEntries: { some: { report: { userId } } } },
+    ],
+  };
+  const exportedFeedIds = new Set(subscriptions.map((s) => s.feedId));
+
+  let cursor: string | undefined;
+  for (;;) {
+    const entries = await db.entry.findMany({
+      where: entryWhere,
+      orderBy: { id: 'asc' },
+      take: ENTRY_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      select: {
+        id: true,
+        feedId: true,
+        url: true,
+        title: true,
+        content: true,
+        summary: true,
+        excerpt: true,
+        author: true,
+        authorUrl: true,
+        publishedAt: true,
+        contentHash: true,
+        tags: true,
+        mainImageUrl: true,
+        readingTime: true,
+        wordCount: true,
+        aiSummary: true,
+        aiOneLineSummary: true,
+        aiKeywords: true,
+        aiCategory: true,
+        aiSentiment: true,
+        aiImportanceScore: true,
+        feed: { select: { id: true, feedUrl: true, title: true, description: true, siteUrl: true, iconUrl: true } },
+        states: {
+          where: { userId },
+          select: { isRead: true, isStarred: true, isArchived: true, readAt: true, starredAt: true, tags: true },
+        },
+      },
+    });
+    if (entries.length === 0) break;
+
+    for (const { feed, states, ...entry } of entries) {
+      if (!exportedFeedIds.has(feed.id)) {
+        exportedFeedIds.add(feed.id);
+        yield record({ type: 'feed', data: feed });
+      }
+      yield record({ type: 'entry', data: { ...entry, state: states[0] ?? null } });
+    }
+
+    cursor = entries[entries.length - 1].id;
+  }
+
+  const history = await db.readingHistory.findMany({ where: { userId }, orderBy: { firstOpenedAt: 'asc' } });
+  for (const { id: _id, userId: _userId, ...item } of history) {
+    yield record({ type: 'readingHistory', data: item });
+  }
+
+  const rules = await db.subscriptionRule.findMany({ where: { userId }, orderBy: { sortOrder: 'asc' } });
+  for (const rule of rules) {
+    // 条件或动作结构无效的规则无法导入，不导出
+    const definition = archiveRuleSchema.pick({ conditions: true, actions: true }).safeParse(rule);
+    if (!definition.success) continue;
+
+    yield record({
+      type: 'rule',
+      data: {
+        name: rule.name,
+        isEnabled: rule.isEnabled,
+        conditions: definition.data.conditions,
+        actions: definition.data.actions,
+        sortOrder: rule.sortOrder,
+        stopProcessing: rule.stopProcessing,
+        rateLimitPerHour: rule.rateLimitPerHour,
+      },
+    });
+  }
+
+  const schedules = await db.reportSchedule.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } });
+  for (const schedule of schedules) {
+    yield record({
+      type: 'reportSchedule',
+      data: {
+        id: schedule.id,
+        name: schedule.name,
+        firstRunAt: schedule.firstRunAt,
+        frequency: schedule.frequency as ScheduleFrequency,
+        dateRange: schedule.dateRange as ScheduleDateRange,
+        customDays: schedule.customDays,
+        includeStats: schedule.includeStats,
+        includeHighlights: schedule.includeHighlights,
+        includeAiSummary: schedule.includeAiSummary,
+        recipientEmail: schedule.recipientEmail,
+        emailSubject: schedule.emailSubject,
+        isEnabled: schedule.isEnabled,
+        timezone: schedule.timezone,
+      },
+    });
+  }
+
+  // 只导出已完成的报告；分享链接不导出
+  const reports = await db.report.findMany({
+    where: { userId, status: 'completed' },
+    orderBy: { reportDate: 'asc' },
+    include: { entries: { select: { entryId: true, section: true, rank: true, notes: true } } },
+  });
+  for (const report of reports) {
+    yield record({
+      type: 'report',
+      data: {
+        reportType: report.reportType,
+        reportDate: report.reportDate,
+        status: report.status,
+        title: report.title,
+        summary: report.summary,
+        highlights: report.highlights,
+        topics: toArchiveJson(report.topics),
+        totalEntries: report.totalEntries,
+        totalFeeds: report.totalFeeds,
+        format: report.format,
+        content: report.content,
+        aiGenerated: report.aiGenerated,
+        aiModel: report.aiModel,
+        scheduleId: report.scheduleId,
+        createdAt: report.createdAt,
+        entries: report.entries,
+      },
+    });
+  }
+
+  yield { type: 'footer', counts };
+}
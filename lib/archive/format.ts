@@ -0,0 +1,399 @@
+/**
+ * 账户归档格式
+ *
+ * NDJSON：每行一条记录，首行为 header，末行为 footer（各类记录数，用于检测截断）
+ * 记录按依赖顺序排列：设置 → 分类（父分类在前）→ 订阅 → 文章 → 阅读历史 → 规则 → 定时报告 → 报告
+ * 已取消订阅但文章仍被星标、归档、阅读记录或报告引用的订阅源以 feed 记录出现在其文章之前
+ * 记录中的 id 只在归档内部有效，导入时重新映射为目标实例中的 id
+ */
+
+import { z } from 'zod';
+import { isValidTimezone } from '@/lib/reports/schedule';
+
+export const ARCHIVE_FORMAT = 'rss-post-account';
+/** 当前归档版本；导入支持不高于该版本的归档 */
+export const ARCHIVE_VERSION = 1;
+
+const date = z.coerce.date();
+const optionalDate = z.coerce.date().nullable().optional();
+/** Json 列的值（设置、规则条件和动作、报告主题等原样写入的字段） */
+const jsonValue = z.json();
+const jsonObject = z.record(z.string(), jsonValue);
+
+export type ArchiveJson = z.infer<typeof jsonValue>;
+
+export const archiveHeaderSchema = z.object({
+  type: z.literal('header'),
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int().min(1),
+  exportedAt: date,
+  account: z.object({ username: z.string(), email: z.string() }),
+});
+
+export const archiveSettingsSchema = z.object({
+  preferences: jsonObject.default({}),
+  /** 不含 API 密钥（密钥由源实例加密，无法在其他实例解密） */
+  aiConfig: jsonObject.default({}),
+  /** 不含 SMTP 密码 */
+  emailConfig: jsonObject.default({}),
+  userPreference: z
+    .object({
+      topicWeights: jsonValue.optional(),
+      preferredDepth: z.string().nullable().optional(),
+      preferredLength: z.string().nullable().optional(),
+      excludedTags: z.array(z.string()).default([]),
+    })
+    .nullable()
+    .optional(),
+});
+
+export const archiveCategorySchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  color: z.string().nullable().optional(),
+  icon: z.string().nullable().optional(),
+  parentId: z.string().nullable().optional(),
+  sortOrder: z.number().int().default(0),
+});
+
+export const archiveFeedSchema = z.object({
+  id: z.string(),
+  feedUrl: z.string().min(1),
+  title: z.string(),
+  description: z.string().nullable().optional(),
+  siteUrl: z.string().nullable().optional(),
+  iconUrl: z.string().nullable().optional(),
+});
+
+export const archiveSubscriptionSchema = z.object({
+  feed: archiveFeedSchema,
+  title: z.string(),
+  categoryId: z.string().nullable().optional(),
+  fetchTimeRange: z.number().int().nullable().optional(),
+  isActive: z.boolean().default(true),
+  priority: z.number().int().default(5),
+  tags: z.array(z.string()).default([]),
+  createdAt: optionalDate,
+});
+
+export const archiveEntrySchema = z.object({
+  id: z.string(),
+  feedId: z.string(),
+  url: z.string(),
+  title: z.string(),
+  content: z.string().nullable().optional(),
+  summary: z.string().nullable().optional(),
+  excerpt: z.string().nullable().optional(),
+  author: z.string().nullable().optional(),
+  authorUrl: z.string().nullable().optional(),
+  publishedAt: optionalDate,
+  contentHash: z.string().min(1),
+  tags: z.array(z.string()).default([]),
+  mainImageUrl: z.string().nullable().optional(),
+  readingTime: z.number().int().nullable().optional(),
+  wordCount: z.number().int().nullable().optional(),
+  aiSummary: z.string().nullable().optional(),
+  aiOneLineSummary: z.string().nullable().optional(),
+  aiKeywords: z.array(z.string()).default([]),
+  aiCategory: z.string().nullable().optional(),
+  aiSentiment: z.string().nullable().optional(),
+  aiImportanceScore: z.number().default(0),
+  state: z
+    .object({
+      isRead: z.boolean().default(false),
+      isStarred: z.boolean().default(false),
+      isArchived: z.boolean().default(false),
+      readAt: optionalDate,
+      starredAt: optionalDate,
+      tags: z.array(z.string()).default([]),
+    })
+    .nullable()
+    .optional(),
+});
+
+export const archiveReadingHistorySchema = z.object({
+  entryId: z.string(),
+  readProgress: z.number().int().default(0),
+  scrollPosition: z.number().int().default(0),
+  readingTime: z.number().int().default(0),
+  firstOpenedAt: date,
+  lastOpenedAt: date,
+  completedAt: optionalDate,
+  playbackPosition: z.number().int().default(0),
+  playedAt: optionalDate,
+  source: z.string(),
+});
+
+export const archiveRuleSchema = z.object({
+  name: z.string().min(1),
+  isEnabled: z.boolean().default(true),
+  conditions: z.array(jsonValue),
+  actions: z.array(z.object({ type: z.string(), params: jsonObject.optional() })),
+  sortOrder: z.number().int().default(0),
+  stopProcessing: z.boolean().default(false),
+  rateLimitPerHour: z.number().int().nullable().optional(),
+});
+
+export const archiveReportScheduleSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  firstRunAt: date,
+  frequency: z.enum(['once', 'daily', 'weekly', 'monthly']),
+  dateRange: z.enum(['yesterday', 'last7days', 'last30days', 'lastWeek', 'lastMonth', 'custom']),
+  customDays: z.number().int().nullable().optional(),
+  includeStats: z.boolean().default(true),
+  includeHighlights: z.boolean().default(true),
+  includeAiSummary: z.boolean().default(true),
+  recipientEmail: z.string(),
+  emailSubject: z.string().nullable().optional(),
+  isEnabled: z.boolean().default(true),
+  timezone: z.string().refine(isValidTimezone, '无效的时区').default('Asia/Shanghai'),
+});
+
+export const archiveReportSchema = z.object({
+  reportType: z.string(),
+  reportDate: date,
+  status: z.string(),
+  title: z.string(),
+  summary: z.string().nullable().optional(),
+  highlights: z.array(z.string()).default([]),
+  topics: jsonValue.optional(),
+  totalEntries: z.number().int().default(0),
+  totalFeeds: z.number().int().default(0),
+  format: z.string().default('markdown'),
+  content: z.string().nullable().optional(),
+  aiGenerated: z.boolean().default(false),
+  aiModel: z.string().nullable().optional(),
+  scheduleId: z.string().nullable().optional(),
+  createdAt: optionalDate,
+  entries: z
+    .array(
+      z.object({
+        entryId: z.string(),
+        section: z.string(),
+        rank: z.number().int().default(0),
+        notes: z.string().nullable().optional(),
+      })
+    )
+    .default([]),
+});
+
+/** 各类记录的数据结构 */
+export const archiveRecordSchemas = {
+  settings: archiveSettingsSchema,
+  category: archiveCategorySchema,
+  feed: archiveFeedSchema,
+  subscription: archiveSubscriptionSchema,
+  entry: archiveEntrySchema,
+  readingHistory: archiveReadingHistorySchema,
+  rule: archiveRuleSchema,
+  reportSchedule: archiveReportScheduleSchema,
+  report: archiveReportSchema,
+};
+
+export type ArchiveRecordKind = keyof typeof archiveRecordSchemas;
+
+export const ARCHIVE_RECORD_KINDS = Object.keys(archiveRecordSchemas) as ArchiveRecordKind[];
+
+export const archiveFooterSchema = z.object({
+  type: z.literal('footer'),
+  counts: z.record(z.string(), z.number().int()),
+});
+
+export type ArchiveHeader = z.infer<typeof archiveHeaderSchema>;
+export type ArchiveFooter = z.infer<typeof archiveFooterSchema>;
+export type ArchiveData<K extends ArchiveRecordKind> = z.infer<(typeof archiveRecordSchemas)[K]>;
+
+/** 导出时写入的记录（日期等字段按 JSON 序列化） */
+export type ArchiveOutputRecord =
+  | ArchiveHeader
+  | ArchiveFooter
+  | { [K in ArchiveRecordKind]: { type: K; data: z.input<(typeof archiveRecordSchemas)[K]> } }[ArchiveRecordKind];
+
+/** 导入时解析出的记录 */
+export type ArchiveRecord =
+  | ArchiveHeader
+  | ArchiveFooter
+  | { [K in ArchiveRecordKind]: { type: K; data: ArchiveData<K> } }[ArchiveRecordKind];
+
+/** 每行记录的外层结构，data 按 type 对应的结构校验 */
+const archiveEnvelopeSchema = z.looseObject({ type: z.string(), data: z.unknown() });
+
+export class ArchiveFormatError extends Error {
+  constructor(message: string, public readonly line?: number) {
+    super(line ? `第 ${line} 行：${message}` : message);
+    this.name = 'ArchiveFormatError';
+  }
+}
+
+/**
+ * 序列化为一行 NDJSON
+ */
+export function encodeArchiveRecord(record: ArchiveOutputRecord): string {
+  return `${JSON.stringify(record)}\n`;
+}
+
+/**
+ * 解析并校验一行记录
+ * @throws ArchiveFormatError 不是有效 JSON、类型未知或字段无效
+ */
+export function parseArchiveRecord(line: string, lineNumber?: number): ArchiveRecord {
+  let json: unknown;
+  try {
+    json = JSON.parse(line);
+  } catch {
+    throw new ArchiveFormatError('不是有效的 JSON', lineNumber);
+  }
+
+  const envelope = archiveEnvelopeSchema.safeParse(json);
+  if (!envelope.success) throw new ArchiveFormatError('缺少记录类型', lineNumber);
+  const value = envelope.data;
+  const type = value.type;
+  if (type === 'header') {
+    const parsed = archiveHeaderSchema.safeParse(value);
+    if (!parsed.success) throw new ArchiveFormatError('不是有效的账户归档', lineNumber);
+    if (parsed.data.version > ARCHIVE_VERSION) {
+      throw new ArchiveFormatError(`归档版本 ${parsed.data.version} 高于当前支持的版本 ${ARCHIVE_VERSION}`, lineNumber);
+    }
+    return parsed.data;
+  }
+
+  if (type === 'footer') {
+    const parsed = archiveFooterSchema.safeParse(value);
+    if (!parsed.success) throw new ArchiveFormatError('footer 无效', lineNumber);
+    return parsed.data;
+  }
+
+  if (!ARCHIVE_RECORD_KINDS.includes(type as ArchiveRecordKind)) {
+    throw new ArchiveFormatError(`未知的记录类型 ${String(type)}`, lineNumber);
+  }
+
+  const parsed = archiveRecordSchemas[type as ArchiveRecordKind].safeParse(value.data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ArchiveFormatError(`${type} 记录无效：${issue?.path.join('.')} ${issue?.message}`, lineNumber);
+  }
+  return { type, data: parsed.data } as ArchiveRecord;
+}
+
+/**
+ * 从字节流逐行读取并校验记录
+ * 首条记录必须是 header，缺少 footer 或记录数与 footer 不符时视为归档不完整
+ */
+export async function* readArchiveRecords(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<ArchiveRecord> {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  const counts: Record<string, number> = {};
+  let buffer = '';
+  let lineNumber = 0;
+  let header = false;
+  let footer: ArchiveFooter | null = null;
+
+  const handle = (line: string): ArchiveRecord | null => {
+    lineNumber++;
+    if (!line.trim()) return null;
+    if (footer) throw new ArchiveFormatError('footer 之后不应有记录', lineNumber);
+
+    const record = parseArchiveRecord(line, lineNumber);
+    if (!header && record.type !== 'header') throw new ArchiveFormatError('缺少 header', lineNumber);
+    if (header && record.type === 'header') throw new ArchiveFormatError('重复的 header', lineNumber);
+
+    header = true;
+    if (record.type === 'footer') {
+      footer = record;
+    } else if (record.type !== 'header') {
+      counts[record.type] = (counts[record.type] ?? 0) + 1;
+    }
+    return record;
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const record = handle(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+        if (record) yield record;
+      }
+
+      if (done) break;
+    }
+
+    const last = handle(buffer);
+    if (last) yield last;
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (!header) throw new ArchiveFormatError('归档为空');
+
+  const expected: Record<string, number> | undefined = (footer as ArchiveFooter | null)?.counts;
+  if (!expected) throw new ArchiveFormatError('缺少 footer，归档可能不完整');
+  for (const kind of ARCHIVE_RECORD_KINDS) {
+    if ((expected[kind] ?? 0) !== (counts[kind] ?? 0)) {
+      throw new ArchiveFormatError(`${kind} 记录数与 footer 不符，归档可能不完整`);
+    }
+  }
+}
+
+/**
+ * 按父分类在前的顺序排列分类；父分类缺失或存在循环时作为顶级分类
+ */
+export function sortCategoriesByParent<T extends { id: string; parentId?: string | null }>(categories: T[]): T[] {
+  const byId = new Map(categories.map((c) => [c.id, c]));
+  const sorted: T[] = [];
+  const visited = new Set<string>();
+
+  const visit = (category: T, path: Set<string>) => {
+    if (visited.has(category.id)) return;
+    path.add(category.id);
+    const parent = category.parentId ? byId.get(category.parentId) : undefined;
+    if (parent && !path.has(parent.id)) visit(parent, path);
+    visited.add(category.id);
+    sorted.push(category);
+  };
+
+  for (const category of categories) visit(category, new Set());
+  return sorted;
+}
+
+/**
+ * 替换规则动作中引用的分类 id；找不到对应分类的 assignCategory 动作被移除
+ */
+export function remapRuleActions<T extends { type: string; params?: Record<string, unknown> }>(
+  actions: T[],
+  categoryIds: Map<string, string>
+): T[] {
+  return actions.flatMap((action) => {
+    const categoryId = action.params?.categoryId;
+    if (action.type !== 'assignCategory' || typeof categoryId !== 'string') return [action];
+
+    const mapped = categoryIds.get(categoryId);
+    return mapped ? [{ ...action, params: { ...action.params, categoryId: mapped } }] : [];
+  });
+}
+
+/**
+ * 读取 Json 列的值（不是有效 JSON 值时返回 undefined）
+ */
+export function toArchiveJson(value: unknown): ArchiveJson | undefined {
+  const parsed = jsonValue.safeParse(value);
+  return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * 移除导出设置中的密钥
+ */
+export function withoutSecrets(config: unknown, keys: string[]): Record<string, ArchiveJson> {
+  const parsed = jsonObject.safeParse(config);
+  if (!parsed.success) return {};
+  const result = { ...parsed.data };
+  for (const key of keys) delete result[key];
+  return result;
+}
@@ -0,0 +1,533 @@
+/**
+ * 账户归档导入
+ *
+ * 逐条导入记录，归档中的 id 重新映射为本实例中的 id：
+ * - 分类按名称匹配，订阅源按 URL 匹配（拒绝内网等不安全地址），文章按（订阅源, 内容哈希或链接）匹配
+ * - 规则和定时报告按名称匹配，报告按（类型, 日期, 定时报告）匹配
+ * 订阅源和文章在用户间共享，归档只能为订阅源中已有的文章导入用户状态；
+ * 订阅源中没有的文章归入该用户的"归档导入"订阅源，不会出现在其他订阅者的时间线中
+ * 已存在的记录按冲突策略处理：skip 保留现有数据，overwrite 用归档覆盖
+ * 导入可重复执行；归档不完整导致中途失败时，已导入的数据保留
+ */
+
+import type { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { info, warn } from '@/lib/logger';
+import { isUrlSafe } from '@/lib/utils';
+import { refreshUnreadCounts } from '@/lib/entries/state';
+import { nextRunAfter } from '@/lib/reports/schedule';
+import {
+  ARCHIVE_RECORD_KINDS,
+  remapRuleActions,
+  type ArchiveData,
+  type ArchiveHeader,
+  type ArchiveRecord,
+  type ArchiveRecordKind,
+} from './format';
+
+export type ArchiveConflictStrategy = 'skip' | 'overwrite';
+
+export interface ImportAccountOptions {
+  conflict?: ArchiveConflictStrategy;
+}
+
+type KindCounts = Record<ArchiveRecordKind, number>;
+
+export interface ImportAccountResult {
+  source: { username: string; email: string; exportedAt: Date; version: number } | null;
+  created: KindCounts;
+  updated: KindCounts;
+  /** 已存在且按 skip 策略保留，或引用的记录缺失而跳过 */
+  skipped: KindCounts;
+}
+
+const emptyCounts = (): KindCounts =>
+  Object.fromEntries(ARCHIVE_RECORD_KINDS.map((kind) => [kind, 0])) as KindCounts;
+
+class AccountImporter {
+  private readonly categoryIds = new Map<string, string>();
+  /** 归档订阅源 id -> 本实例订阅源 id，地址不安全而拒绝的为 null */
+  private readonly feedIds = new Map<string, string | null>();
+  private placeholderFeedId: string | null = null;
+  private readonly entryIds = new Map<string, string>();
+  private readonly scheduleIds = new Map<string, string>();
+
+  readonly result: ImportAccountResult = {
+    source: null,
+    created: emptyCounts(),
+    updated: emptyCounts(),
+    skipped: emptyCounts(),
+  };
+
+  constructor(
+    private readonly userId: string,
+    private readonly conflict: ArchiveConflictStrategy
+  ) {}
+
+  private get overwrite(): boolean {
+    return this.conflict === 'overwrite';
+  }
+
+  async import(record: ArchiveRecord): Promise<void> {
+    switch (record.type) {
+      case 'header':
+        return this.header(record);
+      case 'footer':
+        return;
+      case 'settings':
+        return this.settings(record.data);
+      case 'category':
+        return this.category(record.data);
+      case 'feed':
+        return this.feed(record.data);
+      case 'subscription':
+        return this.subscription(record.data);
+      case 'entry':
+        return this.entry(record.data);
+      case 'readingHistory':
+        return this.readingHistory(record.data);
+      case 'rule':
+        return this.rule(record.data);
+      case 'reportSchedule':
+        return this.reportSchedule(record.data);
+      case 'report':
+        return this.report(record.data);
+    }
+  }
+
+  private header(header: ArchiveHeader): void {
+    this.result.source = {
+      username: header.account.username,
+      email: header.account.email,
+      exportedAt: header.exportedAt,
+      version: header.version,
+    };
+  }
+
+  /**
+   * 设置按字段合并：skip 时现有字段优先，overwrite 时归档字段优先
+   * 归档不含 API 密钥和 SMTP 密码，现有的密钥始终保留
+   */
+  private async settings(data: ArchiveData<'settings'>): Promise<void> {
+    const user = await db.user.findUniqueOrThrow({
+      where: { id: this.userId },
+      select: { preferences: true, aiConfig: true, emailConfig: true },
+    });
+
+    const merge = (current: Prisma.JsonValue, incoming: Prisma.InputJsonObject): Prisma.InputJsonObject => {
+      const existing = current && typeof current === 'object' && !Array.isArray(current) ? current : {};
+      return this.overwrite ? { ...existing, ...incoming } : { ...incoming, ...existing };
+    };
+
+    await db.user.update({
+      where: { id: this.userId },
+      data: {
+        preferences: merge(user.preferences, data.preferences),
+        aiConfig: merge(user.aiConfig, data.aiConfig),
+        emailConfig: merge(user.emailConfig, data.emailConfig),
+      },
+    });
+
+    if (data.userPreference) {
+      const preference = {
+        topicWeights: data.userPreference.topicWeights ?? {},
+        preferredDepth: data.userPreference.preferredDepth ?? null,
+        preferredLength: data.userPreference.preferredLength ?? null,
+        excludedTags: data.userPreference.excludedTags,
+      };
+      await db.userPreference.upsert({
+        where: { userId: this.userId },
+        create: { userId: this.userId, ...preference },
+        update: this.overwrite ? preference : {},
+      });
+    }
+
+    this.result.updated.settings++;
+  }
+
+  private async category(data: ArchiveData<'category'>): Promise<void> {
+    const fields = {
+      description: data.description ?? null,
+      color: data.color ?? null,
+      icon: data.icon ?? null,
+      parentId: (data.parentId && this.categoryIds.get(data.parentId)) || null,
+      sortOrder: data.sortOrder,
+    };
+
+    const existing = await db.category.findUnique({
+      where: { userId_name: { userId: this.userId, name: data.name } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      this.categoryIds.set(data.id, existing.id);
+      if (this.overwrite) {
+        await db.category.update({ where: { id: existing.id }, data: fields });
+        this.result.updated.category++;
+      } else {
+        this.result.skipped.category++;
+      }
+      return;
+    }
+
+    const created = await db.category.create({
+      data: { userId: this.userId, name: data.name, ...fields },
+      select: { id: true },
+    });
+    this.categoryIds.set(data.id, created.id);
+    this.result.created.category++;
+  }
+
+  /**
+   * 订阅源在实例间共享，按 URL 复用已有订阅源，不修改其元数据
+   * 不安全的地址（内网、非 HTTP 协议等）不创建订阅源，返回 null
+   */
+  private async resolveFeed(data: ArchiveData<'feed'>): Promise<{ id: string; created: boolean } | null> {
+    if (this.feedIds.has(data.id)) {
+      const id = this.feedIds.get(data.id);
+      return id ? { id, created: false } : null;
+    }
+
+    const urlCheck = isUrlSafe(data.feedUrl);
+    if (!urlCheck.safe) {
+      this.feedIds.set(data.id, null);
+      await warn('system', '归档中的订阅源地址不安全，已跳过', {
+        userId: this.userId,
+        feedUrl: data.feedUrl,
+        reason: urlCheck.reason,
+      });
+      return null;
+    }
+
+    const existing = await db.feed.findUnique({ where: { feedUrl: data.feedUrl }, select: { id: true } });
+    if (existing) {
+      this.feedIds.set(data.id, existing.id);
+      return { id: existing.id, created: false };
+    }
+
+    const created = await db.feed.create({
+      data: {
+        feedUrl: data.feedUrl,
+        title: data.title,
+        description: data.description ?? null,
+        siteUrl: data.siteUrl ?? null,
+        iconUrl: data.iconUrl ?? null,
+        nextFetchAt: new Date(),
+      },
+      select: { id: true },
+    });
+    this.feedIds.set(data.id, created.id);
+    return { id: created.id, created: true };
+  }
+
+  private async feed(data: ArchiveData<'feed'>): Promise<void> {
+    const feed = await this.resolveFeed(data);
+    this.result[feed?.created ? 'created' : 'skipped'].feed++;
+  }
+
+  /**
+   * 归档中订阅源没有发布过的文章归入的订阅源（每个用户一个，订阅为停用状态，不会被抓取）
+   */
+  private async resolvePlaceholderFeed(): Promise<string> {
+    if (this.placeholderFeedId) return this.placeholderFeedId;
+
+    const title = '归档导入';
+    const { id: feedId } = await db.feed.upsert({
+      where: { feedUrl: `import://archive/${this.userId}` },
+      create: { feedUrl: `import://archive/${this.userId}`, title },
+      update: {},
+      select: { id: true },
+    });
+    await db.subscription.upsert({
+      where: { userId_feedId: { userId: this.userId, feedId } },
+      create: { userId: this.userId, feedId, title, isActive: false },
+      update: {},
+    });
+
+    this.placeholderFeedId = feedId;
+    return feedId;
+  }
+
+  private async subscription(data: ArchiveData<'subscription'>): Promise<void> {
+    const feed = await this.resolveFeed(data.feed);
+    if (!feed) {
+      this.result.skipped.subscription++;
+      return;
+    }
+    const fields = {
+      title: data.title || data.feed.title,
+      categoryId: (data.categoryId && this.categoryIds.get(data.categoryId)) || null,
+      fetchTimeRange: data.fetchTimeRange ?? null,
+      isActive: data.isActive,
+      priority: data.priority,
+      tags: data.tags,
+    };
+
+    const existing = await db.subscription.findUnique({
+      where: { userId_feedId: { userId: this.userId, feedId: feed.id } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      if (this.overwrite) {
+        await db.subscription.update({ where: { id: existing.id }, data: fields });
+        this.result.updated.subscription++;
+      } else {
+        this.result.skipped.subscription++;
+      }
+      return;
+    }
+
+    await db.subscription.create({
+      data: {
+        userId: this.userId,
+        feedId: feed.id,
+        ...fields,
+        ...(data.createdAt && { createdAt: data.createdAt }),
+      },
+    });
+    this.result.created.subscription++;
+  }
+
+  /**
+   * 订阅源已发布的文章（按内容哈希或链接匹配）只导入阅读状态，不修改文章内容；
+   * 其余文章在用户的"归档导入"订阅源中创建。阅读状态按冲突策略处理
+   */
+  private async entry(data: ArchiveData<'entry'>): Promise<void> {
+    if (!this.feedIds.has(data.feedId)) {
+      this.result.skipped.entry++;
+      return;
+    }
+
+    const { id: _id, feedId: archiveFeedId, state, ...fields } = data;
+    const feedId = this.feedIds.get(archiveFeedId);
+    const published = feedId
+      ? await db.entry.findFirst({
+          where: { feedId, OR: [{ contentHash: data.contentHash }, { url: data.url }] },
+          select: { id: true },
+        })
+      : null;
+
+    let existing = published;
+    let entryId = published?.id;
+    if (!entryId) {
+      const placeholderFeedId = await this.resolvePlaceholderFeed();
+      existing = await db.entry.findUnique({
+        where: { feedId_contentHash: { feedId: placeholderFeedId, contentHash: data.contentHash } },
+        select: { id: true },
+      });
+      entryId =
+        existing?.id ??
+        (
+          await db.entry.create({
+            data: { ...fields, feedId: placeholderFeedId, publishedAt: fields.publishedAt ?? null },
+            select: { id: true },
+          })
+        ).id;
+    }
+    this.entryIds.set(data.id, entryId);
+
+    if (state) {
+      const entryState = {
+        isRead: state.isRead,
+        isStarred: state.isStarred,
+        isArchived: state.isArchived,
+        readAt: state.readAt ?? null,
+        starredAt: state.starredAt ?? null,
+        tags: state.tags,
+      };
+      await db.entryState.upsert({
+        where: { userId_entryId: { userId: this.userId, entryId } },
+        create: { userId: this.userId, entryId, ...entryState },
+        update: this.overwrite ? entryState : {},
+      });
+    }
+
+    if (!existing) {
+      this.result.created.entry++;
+    } else if (this.overwrite && state) {
+      this.result.updated.entry++;
+    } else {
+      this.result.skipped.entry++;
+    }
+  }
+
+  private async readingHistory(data: ArchiveData<'readingHistory'>): Promise<void> {
+    const entryId = this.entryIds.get(data.entryId);
+    if (!entryId) {
+      this.result.skipped.readingHistory++;
+      return;
+    }
+
+    const { entryId: _entryId, ...fields } = data;
+    const history = { ...fields, completedAt: fields.completedAt ?? null, playedAt: fields.playedAt ?? null };
+    const existing = await db.readingHistory.findUnique({
+      where: { userId_entryId: { userId: this.userId, entryId } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      if (this.overwrite) {
+        await db.readingHistory.update({ where: { id: existing.id }, data: history });
+        this.result.updated.readingHistory++;
+      } else {
+        this.result.skipped.readingHistory++;
+      }
+      return;
+    }
+
+    await db.readingHistory.create({ data: { userId: this.userId, entryId, ...history } });
+    this.result.created.readingHistory++;
+  }
+
+  private async rule(data: ArchiveData<'rule'>): Promise<void> {
+    const fields = {
+      isEnabled: data.isEnabled,
+      conditions: data.conditions,
+      actions: remapRuleActions(data.actions, this.categoryIds),
+      sortOrder: data.sortOrder,
+      stopProcessing: data.stopProcessing,
+      rateLimitPerHour: data.rateLimitPerHour ?? null,
+    };
+
+    const existing = await db.subscriptionRule.findFirst({
+      where: { userId: this.userId, name: data.name },
+      select: { id: true },
+    });
+
+    if (existing) {
+      if (this.overwrite) {
+        await db.subscriptionRule.update({ where: { id: existing.id }, data: fields });
+        this.result.updated.rule++;
+      } else {
+        this.result.skipped.rule++;
+      }
+      return;
+    }
+
+    await db.subscriptionRule.create({ data: { userId: this.userId, name: data.name, ...fields } });
+    this.result.created.rule++;
+  }
+
+  /**
+   * 定时报告从导入时起重新计算下次执行时间，执行记录不导入
+   */
+  private async reportSchedule(data: ArchiveData<'reportSchedule'>): Promise<void> {
+    const { id, name, ...fields } = data;
+    const schedule = {
+      ...fields,
+      customDays: fields.customDays ?? null,
+      emailSubject: fields.emailSubject ?? null,
+      nextRunAt: fields.isEnabled
+        ? nextRunAfter(fields.firstRunAt, fields.frequency, fields.timezone, new Date())
+        : null,
+    };
+
+    const existing = await db.reportSchedule.findFirst({
+      where: { userId: this.userId, name },
+      select: { id: true },
+    });
+
+    if (existing) {
+      this.scheduleIds.set(id, existing.id);
+      if (this.overwrite) {
+        await db.reportSchedule.update({ where: { id: existing.id }, data: schedule });
+        this.result.updated.reportSchedule++;
+      } else {
+        this.result.skipped.reportSchedule++;
+      }
+      return;
+    }
+
+    const created = await db.reportSchedule.create({
+      data: { userId: this.userId, name, ...schedule },
+      select: { id: true },
+    });
+    this.scheduleIds.set(id, created.id);
+    this.result.created.reportSchedule++;
+  }
+
+  /**
+   * 报告引用的文章缺失时只跳过该文章；分享设置不导入
+   */
+  private async report(data: ArchiveData<'report'>): Promise<void> {
+    const { entries, scheduleId: archiveScheduleId, createdAt, ...fields } = data;
+    const scheduleId = (archiveScheduleId && this.scheduleIds.get(archiveScheduleId)) || null;
+    const report = {
+      ...fields,
+      summary: fields.summary ?? null,
+      topics: fields.topics ?? undefined,
+      content: fields.content ?? null,
+      aiModel: fields.aiModel ?? null,
+      progress: 100,
+    };
+    const reportEntries = entries.flatMap(({ entryId, ...entry }) => {
+      const mapped = this.entryIds.get(entryId);
+      return mapped ? [{ ...entry, entryId: mapped, notes: entry.notes ?? null }] : [];
+    });
+
+    const existing = await db.report.findFirst({
+      where: { userId: this.userId, reportType: data.reportType, reportDate: data.reportDate, scheduleId },
+      select: { id: true },
+    });
+
+    if (existing) {
+      if (this.overwrite) {
+        await db.$transaction([
+          db.reportEntry.deleteMany({ where: { reportId: existing.id } }),
+          db.report.update({
+            where: { id: existing.id },
+            data: { ...report, entries: { create: reportEntries } },
+          }),
+        ]);
+        this.result.updated.report++;
+      } else {
+        this.result.skipped.report++;
+      }
+      return;
+    }
+
+    await db.report.create({
+      data: {
+        userId: this.userId,
+        scheduleId,
+        ...report,
+        ...(createdAt && { createdAt }),
+        entries: { create: reportEntries },
+      },
+    });
+    this.result.created.report++;
+  }
+}
+
+/**
+ * 将归档导入到用户账户
+ * @param records 已校验的记录流（见 readArchiveRecords）
+ */
+export async function importAccount(
+  userId: string,
+  records: AsyncIterable<ArchiveRecord>,
+  options: ImportAccountOptions = {}
+): Promise<ImportAccountResult> {
+  const importer = new AccountImporter(userId, options.conflict ?? 'skip');
+
+  try {
+    for await (const record of records) {
+      await importer.import(record);
+    }
+  } finally {
+    // 中途失败时已导入的文章状态同样需要反映到未读数
+    await refreshUnreadCounts({ userId });
+  }
+
+  await info('system', '导入账户归档', {
+    userId,
+    conflict: options.conflict ?? 'skip',
+    source: importer.result.source?.username,
+    created: importer.result.created,
+    updated: importer.result.updated,
+    skipped: importer.result.skipped,
+  });
+
+  return importer.result;
+}
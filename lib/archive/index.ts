@@ -0,0 +1,7 @@
+/**
+ * 账户归档模块导出
+ */
+
+export * from './format';
+export * from './exporter';
+export * from './importer';
@@ -14,7 +14,7 @@ export interface Session extends TokenPayload {}
  * 判断是否应该使用 secure cookie
  * 只有在 HTTPS 环境下才启用 secure
  */
-function shouldUseSecureCookie(): boolean {
+export function shouldUseSecureCookie(): boolean {
   // 1. 检查环境变量是否明确设置
   const secureCookieEnv = process.env.SECURE_COOKIE;
   if (secureCookieEnv !== undefined) {
@@ -88,69 +88,58 @@ export async function validateUserApiKey(
     // 查找 API Key
     const apiKeyRecord = await db.apiKey.findUnique({
       where: { keyHash },
-      select: {
-        id: true,
-        userId: true,
-        scopes: true,
-        isActive: true,
-        expiresAt: true,
-      },
+      select: apiKeyRecordSelect,
     });
 
-    // Key 不存在
-    if (!apiKeyRecord) {
-      return {
-        valid: false,
-        error: 'API Key 不存在',
-      };
-    }
+    return verifyApiKeyRecord(apiKeyRecord, requiredScopes);
+  } catch (error) {
+    console.error('[UserApiKey] Validation error:', error);
+    return {
+      valid: false,
+      error: 'API Key 验证失败',
+    };
+  }
+}
 
-    // 检查是否激活
-    if (!apiKeyRecord.isActive) {
-      return {
-        valid: false,
-        error: 'API Key 已被禁用',
-      };
-    }
+/**
+ * 计算 Fever API 的 api_key
+ * Fever 客户端以 md5("用户名:密码") 认证，这里的密码为 API Key
+ */
+export function computeFeverApiKey(username: string, apiKey: string): string {
+  return createHash('md5').update(`${username}:${apiKey}`).digest('hex');
+}
 
-    // 检查是否过期
-    if (apiKeyRecord.expiresAt && apiKeyRecord.expiresAt < new Date()) {
-      return {
-        valid: false,
-        error: 'API Key 已过期',
-      };
-    }
+/**
+ * 计算保存的 Fever 认证哈希
+ * Fever 的 api_key 本身就是凭据，与 API Key 一样只保存其 SHA-256 哈希
+ */
+export function hashFeverApiKey(feverKey: string): string {
+  return hashApiKey(feverKey.toLowerCase());
+}
 
-    // 检查权限范围
-    if (requiredScopes && requiredScopes.length > 0) {
-      const hasAllScopes = requiredScopes.every(scope =>
-        apiKeyRecord.scopes.includes(scope)
-      );
-
-      if (!hasAllScopes) {
-        return {
-          valid: false,
-          error: '权限不足',
-        };
-      }
-    }
+/**
+ * 验证 Fever API 的 api_key（创建 API Key 时保存了对应的 Fever 哈希）
+ */
+export async function validateFeverApiKey(
+  feverKey: string,
+  requiredScopes?: ApiKeyScope[]
+): Promise<ApiKeyValidationResult> {
+  if (!/^[a-f0-9]{32}$/i.test(feverKey)) {
+    return {
+      valid: false,
+      error: '无效的 API Key 格式',
+    };
+  }
 
-    // 更新最后使用时间（异步，不阻塞）
-    db.apiKey.update({
-      where: { id: apiKeyRecord.id },
-      data: { lastUsedAt: new Date() },
-    }).catch(err => {
-      console.error('[UserApiKey] Failed to update lastUsedAt:', err);
+  try {
+    const apiKeyRecord = await db.apiKey.findUnique({
+      where: { feverKeyHash: hashFeverApiKey(feverKey) },
+      select: apiKeyRecordSelect,
     });
 
-    return {
-      valid: true,
-      userId: apiKeyRecord.userId,
-      apiKeyId: apiKeyRecord.id,
-      scopes: apiKeyRecord.scopes,
-    };
+    return verifyApiKeyRecord(apiKeyRecord, requiredScopes);
   } catch (error) {
-    console.error('[UserApiKey] Validation error:', error);
+    console.error('[UserApiKey] Fever validation error:', error);
     return {
       valid: false,
       error: 'API Key 验证失败',
@@ -158,6 +147,75 @@ export async function validateUserApiKey(
   }
 }
 
+const apiKeyRecordSelect = {
+  id: true,
+  userId: true,
+  scopes: true,
+  isActive: true,
+  expiresAt: true,
+} as const;
+
+/**
+ * 检查 API Key 记录的状态、有效期和权限，通过后更新最后使用时间
+ */
+function verifyApiKeyRecord(
+  apiKeyRecord: { id: string; userId: string; scopes: string[]; isActive: boolean; expiresAt: Date | null } | null,
+  requiredScopes?: ApiKeyScope[]
+): ApiKeyValidationResult {
+  // Key 不存在
+  if (!apiKeyRecord) {
+    return {
+      valid: false,
+      error: 'API Key 不存在',
+    };
+  }
+
+  // 检查是否激活
+  if (!apiKeyRecord.isActive) {
+    return {
+      valid: false,
+      error: 'API Key 已被禁用',
+    };
+  }
+
+  // 检查是否过期
+  if (apiKeyRecord.expiresAt && apiKeyRecord.expiresAt < new Date()) {
+    return {
+      valid: false,
+      error: 'API Key 已过期',
+    };
+  }
+
+  // 检查权限范围
+  if (requiredScopes && requiredScopes.length > 0) {
+    const hasAllScopes = requiredScopes.every(scope =>
+      apiKeyRecord.scopes.includes(scope)
+    );
+
+    if (!hasAllScopes) {
+      return {
+        valid: false,
+        error: '权限不足',
+      };
+    }
+  }
+
+  // 更新最后使用时间（异步，不阻塞）
+  db.apiKey.update({
+    where: { id: apiKeyRecord.id },
+    data: { lastUsedAt: new Date() },
+  }).catch(err => {
+    console.error('[UserApiKey] Failed to update lastUsedAt:', err);
+  });
+
+  return {
+    valid: true,
+    userId: apiKeyRecord.userId,
+    apiKeyId: apiKeyRecord.id,
+    scopes: apiKeyRecord.scopes,
+  };
+}
+
 /**
  * 检查是否拥有指定权限
  */
@@ -196,6 +254,7 @@ export function hasAllScopes(
  * 支持格式：
  * - Authorization: ApiKey rss_xxx
  * - Authorization: Bearer rss_xxx
+ * - Authorization: GoogleLogin auth=rss_xxx（Google Reader 兼容 API）
  */
 export function extractApiKeyFromHeader(authHeader: string | null): string | null {
   if (!authHeader) {
@@ -216,6 +275,11 @@ export function extractApiKeyFromHeader(authHeader: string | null): string | nul
     }
   }
 
+  // GoogleLogin 格式（ClientLogin 返回的 Auth 即 API Key）
+  if (authHeader.startsWith('GoogleLogin auth=')) {
+    return authHeader.slice(17).trim();
+  }
+
   return null;
 }
 
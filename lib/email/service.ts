@@ -54,6 +54,25 @@ export interface EmailAttachment {
   contentType?: string;
 }
 
+/**
+ * 报告邮件选项（定时任务可自定义主题和内容）
+ */
+export interface ReportEmailOptions {
+  subject?: string | null;
+  includeStats?: boolean;
+  includeHighlights?: boolean;
+}
+
+/**
+ * 各报告类型的邮件样式
+ */
+const REPORT_TYPE_STYLES: Record<string, { text: string; color: string; icon: string }> = {
+  daily: { text: '日报', color: '#3b82f6', icon: '📅' },
+  weekly: { text: '周报', color: '#8b5cf6', icon: '📊' },
+  monthly: { text: '月报', color: '#10b981', icon: '🗓️' },
+  custom: { text: '定期报告', color: '#f59e0b', icon: '📰' },
+};
+
 /**
  * 邮件服务类
  */
@@ -249,7 +268,7 @@ export class EmailService {
     report: {
       id: string;
       title: string;
-      reportType: 'daily' | 'weekly';
+      reportType: string;
       reportDate: Date;
       summary: string | null;
       content: string | null;
@@ -257,10 +276,11 @@ export class EmailService {
       totalEntries: number;
       totalFeeds: number;
     },
-    pdfAttachment?: EmailAttachment
+    pdfAttachment?: EmailAttachment,
+    options: ReportEmailOptions = {}
   ): Promise<SendResult> {
-    const subject = `[RSS-Post] ${report.title}`;
-    const html = this.getReportEmailTemplate(username, report);
+    const subject = options.subject || `[RSS-Post] ${report.title}`;
+    const html = this.getReportEmailTemplate(username, report, options);
     const text = this.stripHtml(report.content || '');
 
     // 如果有 PDF 附件，添加附件信息到邮件
@@ -466,14 +486,15 @@ export class EmailService {
     report: {
       id: string;
       title: string;
-      reportType: 'daily' | 'weekly';
+      reportType: string;
       reportDate: Date;
       summary: string | null;
       content: string | null;
       highlights: string[];
       totalEntries: number;
       totalFeeds: number;
-    }
+    },
+    options: ReportEmailOptions = {}
   ): string {
     const displayName = escapeHtml(username || '用户');
     const safeTitle = escapeHtml(report.title);
@@ -496,9 +517,10 @@ export class EmailService {
         .replace(/\n\n/g, '<br>');
     }
 
-    const reportTypeText = report.reportType === 'daily' ? '日报' : '周报';
-    const reportTypeColor = report.reportType === 'daily' ? '#3b82f6' : '#8b5cf6';
-    const reportTypeIcon = report.reportType === 'daily' ? '📅' : '📊';
+    const { text: reportTypeText, color: reportTypeColor, icon: reportTypeIcon } =
+      REPORT_TYPE_STYLES[report.reportType] || REPORT_TYPE_STYLES.custom;
+    const includeStats = options.includeStats ?? true;
+    const includeHighlights = options.includeHighlights ?? true;
 
     // 生成亮点 HTML
     const highlightsHtml = report.highlights?.length > 0
@@ -552,6 +574,7 @@ export class EmailService {
         您的${reportTypeText}已生成，以下是本期阅读摘要。
       </div>
 
+      ${includeStats ? `
       <div class="stats">
         <div class="stat-item">
           <div class="stat-value">${report.totalEntries}</div>
@@ -562,6 +585,7 @@ export class EmailService {
           <div class="stat-label">订阅源</div>
         </div>
       </div>
+      ` : ''}
 
       ${safeSummary ? `
       <div class="section">
@@ -570,12 +594,14 @@ export class EmailService {
       </div>
       ` : ''}
 
+      ${includeHighlights ? `
       <div class="section">
         <div class="section-title">✨ 精选亮点</div>
         <div class="highlights">
           ${highlightsHtml}
         </div>
       </div>
+      ` : ''}
 
       <div class="section">
         <div class="section-title">📝 详细内容</div>
@@ -0,0 +1,129 @@
+/**
+ * 文章版本对比
+ * 在纯文本上按词（中日韩文字按字）计算最长公共子序列，输出新增、删除和未变化的片段
+ */
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/** LCS 表格的最大单元数，超出时退化为按行对比 */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** 中日韩文字逐字切分，其余按连续的非空白 / 空白切分 */
+const TOKEN_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]|[^\s\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]+|\s+/g;
+
+/**
+ * HTML 转为用于对比的纯文本：块级元素换行，去掉标签，解码常见实体
+ */
+export function htmlToDiffText(html: string | null | undefined): string {
+  return (html ?? '')
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6]|blockquote|pre|tr)>/gi, '\n')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ *\n\s*/g, '\n')
+    .trim();
+}
+
+function tokenizeWords(text: string): string[] {
+  return text.match(TOKEN_PATTERN) ?? [];
+}
+
+function tokenizeLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * 合并相邻的同类片段
+ */
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string) {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * 按 token 对比；差异部分过大时交给 fallback（没有时整段视为删除 + 新增）
+ */
+function diffTokens(
+  before: string[],
+  after: string[],
+  fallback?: (before: string, after: string) => DiffSegment[]
+): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+
+  // 去掉公共前后缀，缩小 LCS 表格
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  pushSegment(segments, 'equal', before.slice(0, start).join(''));
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    const parts = fallback
+      ? fallback(a.join(''), b.join(''))
+      : [{ type: 'delete' as const, text: a.join('') }, { type: 'insert' as const, text: b.join('') }];
+    for (const part of parts) pushSegment(segments, part.type, part.text);
+  } else {
+    // lengths[i * cols + j]：a[i..] 与 b[j..] 的 LCS 长度
+    const lengths = new Uint32Array(rows * cols);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * cols + j] =
+          a[i] === b[j]
+            ? lengths[(i + 1) * cols + j + 1] + 1
+            : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        pushSegment(segments, 'equal', a[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+        pushSegment(segments, 'delete', a[i++]);
+      } else {
+        pushSegment(segments, 'insert', b[j++]);
+      }
+    }
+    pushSegment(segments, 'delete', a.slice(i).join(''));
+    pushSegment(segments, 'insert', b.slice(j).join(''));
+  }
+
+  pushSegment(segments, 'equal', before.slice(endBefore).join(''));
+  return segments;
+}
+
+/**
+ * 对比两段纯文本
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  return diffTokens(tokenizeWords(before), tokenizeWords(after), (a, b) =>
+    diffTokens(tokenizeLines(a), tokenizeLines(b))
+  );
+}
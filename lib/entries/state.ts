@@ -0,0 +1,271 @@
+/**
+ * 用户文章状态
+ * 文章由订阅同一订阅源的用户共享，已读/星标/归档和用户添加的标签按用户保存在 entry_states
+ */
+
+import type { Prisma } from '@prisma/client';
+import { db } from '../db';
+
+export interface EntryStateFlags {
+  isRead: boolean;
+  isStarred: boolean;
+  isArchived: boolean;
+  readAt: Date | null;
+}
+
+/** 无状态记录时的默认值（未读） */
+export const DEFAULT_ENTRY_STATE: EntryStateFlags = {
+  isRead: false,
+  isStarred: false,
+  isArchived: false,
+  readAt: null,
+};
+
+export type EntryStateUpdate = Partial<Pick<EntryStateFlags, 'isRead' | 'isStarred' | 'isArchived'>>;
+
+/**
+ * 用户可见的文章：所属订阅源被该用户订阅
+ */
+export function entryVisibleTo(userId: string, categoryId?: string): Prisma.EntryWhereInput {
+  return {
+    feed: {
+      subscriptions: {
+        some: { userId, ...(categoryId && { categoryId }) },
+      },
+    },
+  };
+}
+
+/**
+ * 按用户状态过滤；未指定的状态不参与过滤
+ */
+export function entryStateFilter(userId: string, filter: EntryStateUpdate): Prisma.EntryWhereInput[] {
+  const conditions: Prisma.EntryWhereInput[] = [];
+
+  for (const key of ['isRead', 'isStarred', 'isArchived'] as const) {
+    const value = filter[key];
+    if (value === undefined) continue;
+
+    // 无记录视为 false，因此“为 false”需用 none 表达
+    conditions.push(
+      value
+        ? { states: { some: { userId, [key]: true } } }
+        : { states: { none: { userId, [key]: true } } }
+    );
+  }
+
+  return conditions;
+}
+
+/**
+ * 查询文章时附带当前用户的状态（配合 withEntryState 使用）
+ */
+export function entryStateInclude(userId: string) {
+  return {
+    where: { userId },
+    select: { isRead: true, isStarred: true, isArchived: true, readAt: true },
+    take: 1,
+  } satisfies Prisma.Entry$statesArgs;
+}
+
+/**
+ * 将 states 展平为 isRead / isStarred / isArchived / readAt
+ */
+export function withEntryState<T extends { states?: EntryStateFlags[] }>(
+  entry: T
+): Omit<T, 'states'> & EntryStateFlags {
+  const { states, ...rest } = entry;
+  return { ...rest, ...DEFAULT_ENTRY_STATE, ...states?.[0] };
+}
+
+/**
+ * 查询文章时附带订阅源信息，标题和分组取当前用户的订阅设置
+ */
+export function entryFeedInclude(userId: string) {
+  return {
+    select: {
+      id: true,
+      title: true,
+      iconUrl: true,
+      siteUrl: true,
+      subscriptions: {
+        where: { userId },
+        select: { title: true, categoryId: true },
+        take: 1,
+      },
+    },
+  } satisfies Prisma.FeedDefaultArgs;
+}
+
+type EntryFeedWithSubscription = {
+  title: string;
+  subscriptions: { title: string; categoryId: string | null }[];
+};
+
+/**
+ * 文章列表常用的 include：订阅源信息 + 用户状态
+ */
+export function userEntryInclude(userId: string) {
+  return {
+    feed: entryFeedInclude(userId),
+    states: entryStateInclude(userId),
+  };
+}
+
+/**
+ * 转换为用户视角的文章：展平状态，订阅源标题和分组取用户设置
+ */
+export function toUserEntry<T extends { feed: EntryFeedWithSubscription; states?: EntryStateFlags[] }>(entry: T) {
+  const { subscriptions, ...feed } = entry.feed;
+  const subscription = subscriptions[0];
+
+  return withEntryState({
+    ...entry,
+    feed: {
+      ...feed,
+      title: subscription?.title ?? feed.title,
+      categoryId: subscription?.categoryId ?? null,
+    } as Omit<T['feed'], 'subscriptions'> & { categoryId: string | null },
+  });
+}
+
+/**
+ * 读取单篇文章的用户状态
+ */
+export async function getEntryState(userId: string, entryId: string): Promise<EntryStateFlags> {
+  const state = await db.entryState.findUnique({
+    where: { userId_entryId: { userId, entryId } },
+    select: { isRead: true, isStarred: true, isArchived: true, readAt: true },
+  });
+
+  return state ?? DEFAULT_ENTRY_STATE;
+}
+
+/**
+ * 更新用户的文章状态（不存在时创建）
+ */
+export async function setEntryState(
+  userId: string,
+  entryIds: string[],
+  data: EntryStateUpdate
+): Promise<void> {
+  if (entryIds.length === 0) return;
+
+  const now = new Date();
+  const update: Prisma.EntryStateUpdateManyMutationInput = {
+    ...data,
+    ...(data.isRead !== undefined && { readAt: data.isRead ? now : null }),
+    ...(data.isStarred !== undefined && { starredAt: data.isStarred ? now : null }),
+  };
+
+  await db.$transaction([
+    db.entryState.createMany({
+      data: entryIds.map((entryId) => ({ userId, entryId })),
+      skipDuplicates: true,
+    }),
+    db.entryState.updateMany({
+      where: { userId, entryId: { in: entryIds } },
+      data: update,
+    }),
+  ]);
+}
+
+/**
+ * 按标签过滤：订阅源自带的分类（entries.tags）或用户添加的标签（entry_states.tags）
+ */
+export function entryTagFilter(userId: string, tags: string | string[]): Prisma.EntryWhereInput {
+  const list = Array.isArray(tags) ? tags : [tags];
+  return {
+    OR: [{ tags: { hasSome: list } }, { states: { some: { userId, tags: { hasSome: list } } } }],
+  };
+}
+
+/**
+ * 查询文章时附带当前用户添加的标签（配合 mergeEntryTags 使用）
+ */
+export function entryUserTagsInclude(userId: string) {
+  return {
+    where: { userId },
+    select: { tags: true },
+    take: 1,
+  } satisfies Prisma.Entry$statesArgs;
+}
+
+/**
+ * 文章对用户显示的标签：订阅源分类在前，用户标签在后，去重
+ */
+export function mergeEntryTags(entryTags: string[], states?: { tags: string[] }[]): string[] {
+  return [...new Set([...entryTags, ...(states?.[0]?.tags ?? [])])];
+}
+
+/**
+ * 为用户添加文章标签，只影响该用户
+ */
+export async function addEntryTags(userId: string, entryId: string, tags: string[]): Promise<void> {
+  if (tags.length === 0) return;
+
+  const state = await db.entryState.findUnique({
+    where: { userId_entryId: { userId, entryId } },
+    select: { tags: true },
+  });
+  const merged = [...new Set([...(state?.tags ?? []), ...tags])];
+  if (state && merged.length === state.tags.length) return;
+
+  await db.entryState.upsert({
+    where: { userId_entryId: { userId, entryId } },
+    create: { userId, entryId, tags: merged },
+    update: { tags: merged },
+  });
+}
+
+/**
+ * 移除用户添加的文章标签（订阅源自带的分类不受影响）
+ */
+export async function removeEntryTag(userId: string, entryId: string, tag: string): Promise<void> {
+  const state = await db.entryState.findUnique({
+    where: { userId_entryId: { userId, entryId } },
+    select: { tags: true },
+  });
+  if (!state?.tags.includes(tag)) return;
+
+  await db.entryState.update({
+    where: { userId_entryId: { userId, entryId } },
+    data: { tags: state.tags.filter((t) => t !== tag) },
+  });
+}
+
+/**
+ * 重新计算订阅的未读数
+ * @param scope 按用户（可选限定订阅源）或按订阅源（全部订阅者）
+ */
+export async function refreshUnreadCounts(scope: { userId: string; feedIds?: string[] } | { feedId: string }): Promise<void> {
+  const params: unknown[] = [];
+  let where: string;
+
+  if ('feedId' in scope) {
+    params.push(scope.feedId);
+    where = 's.feed_id = $1';
+  } else {
+    params.push(scope.userId);
+    where = 's.user_id = $1';
+    if (scope.feedIds) {
+      params.push(scope.feedIds);
+      where += ' AND s.feed_id = ANY($2::text[])';
+    }
+  }
+
+  await db.$executeRawUnsafe(
+    `UPDATE subscriptions s
+     SET unread_count = (
+       SELECT COUNT(*)
+       FROM entries e
+       WHERE e.feed_id = s.feed_id
+         AND NOT EXISTS (
+           SELECT 1 FROM entry_states st
+           WHERE st.entry_id = e.id AND st.user_id = s.user_id AND st.is_read
+         )
+     )
+     WHERE ${where}`,
+    ...params
+  );
+}
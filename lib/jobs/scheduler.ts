@@ -1,9 +1,11 @@
 /**
  * 后台任务调度器
- * 负责 Feed 抓取、AI 分析和文章清理的定时调度
+ * 负责 Feed 抓取、AI 分析、定时报告、智能文件夹通知和文章清理的定时调度
  */
 
 import { feedManager, DEFAULT_ENTRY_RETENTION_DAYS } from '@/lib/rss/feed-manager';
+import { getSubscriberIds } from '@/lib/rss/subscriptions';
+import { getWebSubManager } from '@/lib/rss/websub';
 import {
   getQueueStatus as getPreliminaryQueueStatus,
   addUnanalyzedEntries,
@@ -12,6 +14,8 @@ import {
   getQueueStatus as getDeepAnalysisQueueStatus,
 } from '@/lib/queue/deep-analysis-processor';
 import { getNotificationService } from '@/lib/notifications/service';
+import { getReportScheduleRunner } from '@/lib/reports/schedule-runner';
+import { notifySmartFolderMatches } from '@/lib/search/smart-folders';
 import { info, error as logError } from '@/lib/logger';
 
 export class TaskScheduler {
@@ -37,12 +41,16 @@ export class TaskScheduler {
     // 立即执行一次
     this.runFetchCycle();
     this.runAIProcessCycle();
+    this.runReportScheduleCycle();
+    this.runSmartFolderCycle();
     this.runCleanupCycle();
 
     // 定期执行 Feed 抓取
     this.intervalId = setInterval(() => {
       this.runFetchCycle();
       this.runAIProcessCycle();
+      this.runReportScheduleCycle();
+      this.runSmartFolderCycle();
     }, Math.min(this.fetchInterval, this.aiProcessInterval));
 
     // 定期执行文章清理（每天一次）
@@ -67,6 +75,26 @@ export class TaskScheduler {
     console.log('[Scheduler] Stopped');
   }
 
+  /**
+   * 执行到期的报告定时任务
+   */
+  private async runReportScheduleCycle() {
+    const executed = await getReportScheduleRunner().runDue();
+    if (executed > 0) {
+      console.log(`[Scheduler] Executed ${executed} report schedules`);
+    }
+  }
+
+  /**
+   * 检查智能文件夹的新文章并发送通知
+   */
+  private async runSmartFolderCycle() {
+    const notified = await notifySmartFolderMatches();
+    if (notified > 0) {
+      console.log(`[Scheduler] Sent ${notified} smart folder notifications`);
+    }
+  }
+
   /**
    * 运行 Feed 抓取周期
    */
@@ -74,6 +102,13 @@ export class TaskScheduler {
     try {
       console.log('[Scheduler] Starting fetch cycle...');
 
+      // 续订即将到期的 WebSub 租约
+      try {
+        await getWebSubManager().renewExpiring();
+      } catch (error) {
+        console.error('[Scheduler] WebSub renewal error:', error);
+      }
+
       // 获取需要更新的 feeds
       const feeds = await feedManager.getFeedsToUpdate(20);
 
@@ -89,19 +124,24 @@ export class TaskScheduler {
 
       let totalAdded = 0;
       let totalUpdated = 0;
+      let notModifiedCount = 0;
       let errorCount = 0;
 
       for (const result of results) {
         if (result.success) {
           totalAdded += result.entriesAdded;
           totalUpdated += result.entriesUpdated;
+          if (result.notModified) {
+            notModifiedCount++;
+          }
         } else {
           errorCount++;
         }
       }
 
       console.log(
-        `[Scheduler] Fetch cycle complete: ${totalAdded} added, ${totalUpdated} updated, ${errorCount} errors`
+        `[Scheduler] Fetch cycle complete: ${totalAdded} added, ${totalUpdated} updated, ` +
+        `${notModifiedCount} not modified, ${errorCount} errors`
       );
 
       // 检查并通知失败的订阅源
@@ -160,13 +200,16 @@ export class TaskScheduler {
         const feed = feeds[i];
         // 检查错误计数
         if (feed.errorCount >= 3) {
-          await notificationService.notifyFeedError(
-            feed.userId,
-            feed.id,
-            feed.title,
-            result.error || '未知错误',
-            feed.errorCount
-          );
+          // 订阅源共享，通知所有订阅者
+          for (const userId of await getSubscriberIds(feed.id)) {
+            await notificationService.notifyFeedError(
+              userId,
+              feed.id,
+              feed.title,
+              result.error || '未知错误',
+              feed.errorCount
+            );
+          }
         }
       }
     }
@@ -6,12 +6,20 @@
 import { db } from '@/lib/db';
 import { info, warn, error } from '@/lib/logger';
 
-export type NotificationType = 'new_entry' | 'report_ready' | 'feed_error' | 'ai_complete' | 'system';
+export type NotificationType =
+  | 'new_entry'
+  | 'report_ready'
+  | 'feed_error'
+  | 'ai_complete'
+  | 'rule_match'
+  | 'smart_folder'
+  | 'system';
 
 export interface NotificationData {
   entryId?: string;
   feedId?: string;
   reportId?: string;
+  smartFolderId?: string;
   feedTitle?: string;
   entryTitle?: string;
   errorCount?: number;
@@ -190,9 +198,11 @@ export class NotificationService {
   async notifyReportReady(
     userId: string,
     reportId: string,
-    reportType: 'daily' | 'weekly',
+    reportType: 'daily' | 'weekly' | 'monthly' | 'custom',
     reportTitle: string
   ): Promise<void> {
+    const typeText = { daily: '日报', weekly: '周报', monthly: '月报', custom: '定期报告' }[reportType];
+
     await info('email', '报告就绪通知已创建', {
       userId,
       reportId,
@@ -203,7 +213,7 @@ export class NotificationService {
     await this.create({
       userId,
       type: 'report_ready',
-      title: `${reportType === 'daily' ? '日报' : '周报'}已生成`,
+      title: `${typeText}已生成`,
       content: reportTitle,
       data: {
         reportId,
@@ -272,6 +282,27 @@ export class NotificationService {
     });
   }
 
+  /**
+   * 创建智能文件夹新文章通知
+   */
+  async notifySmartFolderMatch(
+    userId: string,
+    folder: { id: string; name: string },
+    count: number,
+    entryTitles: string[]
+  ): Promise<void> {
+    await this.create({
+      userId,
+      type: 'smart_folder',
+      title: `智能文件夹「${folder.name}」有 ${count} 篇新文章`,
+      content: entryTitles.join('\n'),
+      data: {
+        smartFolderId: folder.id,
+        link: `/?folder=${folder.id}`,
+      },
+    });
+  }
+
   /**
    * 创建系统通知
    */
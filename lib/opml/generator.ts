@@ -18,43 +18,59 @@ interface Category {
   feeds: Feed[];
 }
 
+const OUTLINE_SUBSCRIPTION_SELECT = {
+  feedId: true,
+  title: true,
+  feed: { select: { feedUrl: true, siteUrl: true } },
+} as const;
+
+/**
+ * 订阅转换为 OPML 条目（标题取用户自定义标题）
+ */
+function toOutlineFeed(subscription: {
+  feedId: string;
+  title: string;
+  feed: { feedUrl: string; siteUrl: string | null };
+}) {
+  return {
+    id: subscription.feedId,
+    title: subscription.title,
+    feedUrl: subscription.feed.feedUrl,
+    siteUrl: subscription.feed.siteUrl,
+  };
+}
+
 /**
  * 生成 OPML XML 字符串
  */
 export async function generateOPML(userId: string): Promise<string> {
   // 获取所有分类及其订阅源
-  const categories = await db.category.findMany({
+  const categoryRows = await db.category.findMany({
     where: { userId },
     include: {
-      feeds: {
+      subscriptions: {
         where: { isActive: true },
-        select: {
-          id: true,
-          title: true,
-          feedUrl: true,
-          siteUrl: true,
-        },
+        select: OUTLINE_SUBSCRIPTION_SELECT,
         orderBy: { title: 'asc' },
       },
     },
     orderBy: { sortOrder: 'asc' },
   });
+  const categories = categoryRows.map(({ subscriptions, ...category }) => ({
+    ...category,
+    feeds: subscriptions.map(toOutlineFeed),
+  }));
 
   // 获取未分类的订阅源
-  const uncategorizedFeeds = await db.feed.findMany({
+  const uncategorizedFeeds = (await db.subscription.findMany({
     where: {
       userId,
       isActive: true,
       categoryId: null,
     },
-    select: {
-      id: true,
-      title: true,
-      feedUrl: true,
-      siteUrl: true,
-    },
+    select: OUTLINE_SUBSCRIPTION_SELECT,
     orderBy: { title: 'asc' },
-  });
+  })).map(toOutlineFeed);
 
   const date = new Date().toISOString();
 
@@ -10,6 +10,7 @@
 import { db } from '@/lib/db';
 import { info, warn, error } from '@/lib/logger';
 import { isUrlSafe } from '@/lib/utils';
+import { refreshUnreadCounts } from '@/lib/entries/state';
 import { parseOPML, type OPMLOutline } from './parser';
 
 export interface ImportFeedItem {
@@ -75,9 +76,9 @@ export function getImportProgress(userId: string): ImportProgress | null {
 }
 
 /**
- * 设置导入进度
+ * 设置导入进度（其他阅读器的导入共用此进度）
  */
-function setImportProgress(userId: string, progress: ImportProgress) {
+export function setImportProgress(userId: string, progress: ImportProgress) {
   importProgressStore.set(userId, {
     ...progress,
     stats: { ...progress.stats },
@@ -240,12 +241,12 @@ export async function smartImportOPML(
       stats: { imported: 0, skipped: 0, failed: result.failed },
     });
 
-    // 3.1 获取用户现有订阅源（一次性查询）
-    const existingFeeds = await db.feed.findMany({
+    // 3.1 获取用户现有订阅（一次性查询）
+    const existingSubscriptions = await db.subscription.findMany({
       where: { userId },
-      select: { feedUrl: true, title: true },
+      select: { feed: { select: { feedUrl: true } } },
     });
-    const existingUrlSet = new Set(existingFeeds.map((f: { feedUrl: string }) => f.feedUrl));
+    const existingUrlSet = new Set(existingSubscriptions.map((s: { feed: { feedUrl: string } }) => s.feed.feedUrl));
 
     // 3.2 获取用户现有分类（一次性查询）
     const existingCategories = await db.category.findMany({
@@ -305,67 +306,94 @@ export async function smartImportOPML(
       }
     }
 
-    // 3.5 批量创建订阅源
-    const importedFeedIds: string[] = [];
+    // 3.5 批量创建订阅源和订阅
+    // 订阅源按 URL 全局共享：已被其他用户订阅的直接复用，只为新订阅源触发发现和抓取
+    const discoveryTargets: { feedId: string; feedUrl: string }[] = [];
 
     if (feedsToCreate.length > 0) {
-      // 使用 createMany 批量创建（不返回 ID，需要单独查询）
-      await db.feed.createMany({
-        data: feedsToCreate.map(feed => {
-          // 确定分类
-          let feedCategoryId: string | null | undefined = categoryId;
-          if (feed.categoryOutline) {
-            const categoryName = feed.categoryOutline.text || feed.categoryOutline.title;
-            if (categoryName) {
-              const foundId = categoryMap.get(categoryName.toLowerCase());
-              if (foundId) {
-                feedCategoryId = foundId;
-              }
+      const importUrls = feedsToCreate.map((f: ImportFeedItem) => f.url);
+      const sharedFeeds = await db.feed.findMany({
+        where: { feedUrl: { in: importUrls } },
+        select: { feedUrl: true },
+      });
+      const sharedUrlSet = new Set(sharedFeeds.map((f: { feedUrl: string }) => f.feedUrl));
+
+      // 确定分类和标题
+      const prepared = feedsToCreate.map(feed => {
+        let feedCategoryId: string | null | undefined = categoryId;
+        if (feed.categoryOutline) {
+          const categoryName = feed.categoryOutline.text || feed.categoryOutline.title;
+          if (categoryName) {
+            const foundId = categoryMap.get(categoryName.toLowerCase());
+            if (foundId) {
+              feedCategoryId = foundId;
             }
           }
+        }
 
-          // 生成标题
-          let finalTitle = feed.title;
-          if (!finalTitle) {
-            try {
-              finalTitle = new URL(feed.url).hostname;
-            } catch {
-              finalTitle = 'Unknown Feed';
-            }
+        let finalTitle = feed.title;
+        if (!finalTitle) {
+          try {
+            finalTitle = new URL(feed.url).hostname;
+          } catch {
+            finalTitle = 'Unknown Feed';
           }
+        }
 
-          return {
-            userId,
+        return { feed, title: finalTitle, categoryId: feedCategoryId || null };
+      });
+
+      // 使用 createMany 批量创建（不返回 ID，需要单独查询）
+      await db.feed.createMany({
+        data: prepared
+          .filter(({ feed }) => !sharedUrlSet.has(feed.url))
+          .map(({ feed, title }) => ({
             feedUrl: feed.url,
-            title: finalTitle,
+            title,
             description: feed.description || '',
             siteUrl: feed.siteUrl || '',
-            categoryId: feedCategoryId || null,
             fetchInterval: 3600,
-            priority: 5,
-            isActive: true,
-          };
-        }),
+          })),
         skipDuplicates: true,
       });
 
-      // 查询刚创建的订阅源 ID（通过 feedUrl 匹配）
-      const createdFeeds = await db.feed.findMany({
-        where: {
-          userId,
-          feedUrl: { in: feedsToCreate.map((f: ImportFeedItem) => f.url) },
-        },
+      // 查询订阅源 ID（通过 feedUrl 匹配）
+      const feeds = await db.feed.findMany({
+        where: { feedUrl: { in: importUrls } },
         select: { id: true, feedUrl: true, title: true },
       });
+      const feedByUrl = new Map(feeds.map((f: { id: string; feedUrl: string; title: string }) => [f.feedUrl, f]));
+
+      await db.subscription.createMany({
+        data: prepared
+          .filter(({ feed }) => feedByUrl.has(feed.url))
+          .map(({ feed, title, categoryId: feedCategoryId }) => ({
+            userId,
+            feedId: feedByUrl.get(feed.url)!.id,
+            title,
+            categoryId: feedCategoryId,
+            priority: 5,
+            isActive: true,
+          })),
+        skipDuplicates: true,
+      });
+
+      for (const feed of feeds) {
+        if (!sharedUrlSet.has(feed.feedUrl)) {
+          discoveryTargets.push({ feedId: feed.id, feedUrl: feed.feedUrl });
+        }
+      }
+
+      // 共享订阅源已有文章，计入未读数
+      await refreshUnreadCounts({ userId, feedIds: feeds.map((f: { id: string }) => f.id) });
 
-      importedFeedIds.push(...createdFeeds.map((f: { id: string }) => f.id));
-      result.imported = createdFeeds.length;
+      result.imported = feeds.length;
 
       // 更新详情
-      const createdUrlSet = new Set(createdFeeds.map((f: { feedUrl: string }) => f.feedUrl));
+      const createdUrlSet = new Set(feeds.map((f: { feedUrl: string }) => f.feedUrl));
       for (const feed of feedsToCreate) {
         if (createdUrlSet.has(feed.url)) {
-          const created = createdFeeds.find((f: { feedUrl: string; title: string }) => f.feedUrl === feed.url);
+          const created = feeds.find((f: { feedUrl: string; title: string }) => f.feedUrl === feed.url);
           result.details.push({
             url: feed.url,
             title: created?.title || feed.title || feed.url,
@@ -387,14 +415,14 @@ export async function smartImportOPML(
     // ========================================
     // 阶段 4：添加到发现队列（可达性检查 + 信息补充）
     // ========================================
-    if (importedFeedIds.length > 0) {
+    if (discoveryTargets.length > 0) {
       // 动态导入队列模块，避免循环依赖
       const { addFeedDiscoveryJobsBatch } = await import('@/lib/queue/feed-discovery-processor');
 
       // 批量添加发现任务（包含可达性检查 + 信息补充 + 触发抓取）
-      const discoveryJobs = importedFeedIds.map((feedId, index) => ({
+      const discoveryJobs = discoveryTargets.map(({ feedId, feedUrl }) => ({
         feedId,
-        feedUrl: feedsToCreate[index]?.url || '',
+        feedUrl,
         userId,
         triggerFetch: true, // 发现完成后自动触发抓取
       }));
@@ -422,7 +450,7 @@ export async function smartImportOPML(
       total: result.total,
       message: `导入完成: 成功 ${result.imported}, 跳过 ${result.skipped}, 失败 ${result.failed}`,
       stats: { imported: result.imported, skipped: result.skipped, failed: result.failed },
-      backgroundTasks: importedFeedIds.length,
+      backgroundTasks: discoveryTargets.length,
     });
 
     await info('rss', 'OPML 快速导入完成', {
@@ -431,7 +459,7 @@ export async function smartImportOPML(
       skipped: result.skipped,
       failed: result.failed,
       total: result.total,
-      triggeredFeeds: importedFeedIds.length,
+      triggeredFeeds: discoveryTargets.length,
     });
 
   } catch (err) {
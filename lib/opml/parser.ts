@@ -6,6 +6,7 @@
  */
 
 import { XMLParser } from 'fast-xml-parser';
+import { z } from 'zod';
 
 export interface OPMLOutline {
   text: string;
@@ -22,25 +23,48 @@ export interface ParsedOPML {
   outlines: OPMLOutline[];
 }
 
+/** XML 元素（属性和子元素都是字段） */
+const xmlElementSchema = z.record(z.string(), z.unknown());
+
+type XmlElement = z.infer<typeof xmlElementSchema>;
+
+const opmlDocumentSchema = z.object({
+  opml: z.object({
+    head: z.object({ title: z.string().optional().catch(undefined) }).optional().catch(undefined),
+    body: z.object({ outline: z.unknown() }).optional().catch(undefined),
+  }),
+});
+
+/**
+ * 子 outline 元素：只有一个时解析结果为对象，多个时为数组，不是元素的值忽略
+ */
+function childElements(value: unknown): XmlElement[] {
+  return (Array.isArray(value) ? value : [value]).flatMap((child) => {
+    const parsed = xmlElementSchema.safeParse(child);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
 /**
  * 获取属性值（忽略大小写）
  */
-function getAttr(obj: Record<string, unknown>, attrName: string): string | undefined {
+function getAttr(obj: XmlElement, attrName: string): string | undefined {
   const lowerName = attrName.toLowerCase();
 
   // 尝试各种大小写组合
   const keys = [attrName, lowerName, attrName.toUpperCase(), attrName.charAt(0).toUpperCase() + attrName.slice(1)];
 
   for (const key of keys) {
-    if (typeof obj[key] === 'string') {
-      return obj[key];
+    const value = obj[key];
+    if (typeof value === 'string') {
+      return value;
     }
   }
 
   // 遍历所有属性查找
-  for (const key of Object.keys(obj)) {
-    if (key.toLowerCase() === lowerName && typeof obj[key] === 'string') {
-      return obj[key] as string;
+  for (const [key, value] of Object.entries(obj)) {
+    if (key.toLowerCase() === lowerName && typeof value === 'string') {
+      return value;
     }
   }
 
@@ -50,11 +74,7 @@ function getAttr(obj: Record<string, unknown>, attrName: string): string | undef
 /**
  * 解析 outline 元素
  */
-function parseOutlineElement(element: Record<string, unknown>): OPMLOutline | null {
-  if (!element || typeof element !== 'object') {
-    return null;
-  }
-
+function parseOutlineElement(element: XmlElement): OPMLOutline {
   const outline: OPMLOutline = {
     text: getAttr(element, 'text') || getAttr(element, 'title') || '',
   };
@@ -75,18 +95,9 @@ function parseOutlineElement(element: Record<string, unknown>): OPMLOutline | nu
   if (type) outline.type = type;
 
   // 递归解析子 outline
-  const childOutlines = element.outline;
-  if (childOutlines) {
-    if (Array.isArray(childOutlines)) {
-      outline.outlines = childOutlines
-        .map((child) => parseOutlineElement(child as Record<string, unknown>))
-        .filter((o): o is OPMLOutline => o !== null);
-    } else if (typeof childOutlines === 'object') {
-      const parsed = parseOutlineElement(childOutlines as Record<string, unknown>);
-      if (parsed) {
-        outline.outlines = [parsed];
-      }
-    }
+  const children = childElements(element.outline);
+  if (children.length > 0) {
+    outline.outlines = children.map(parseOutlineElement);
   }
 
   return outline;
@@ -104,7 +115,7 @@ export function parseOPML(xmlString: string): ParsedOPML {
     trimValues: true,
   });
 
-  let parsed: Record<string, unknown>;
+  let parsed: unknown;
 
   try {
     parsed = parser.parse(xmlString);
@@ -113,35 +124,16 @@ export function parseOPML(xmlString: string): ParsedOPML {
   }
 
   // 获取 opml 根节点
-  const opml = parsed.opml;
-  if (!opml || typeof opml !== 'object') {
+  const document = opmlDocumentSchema.safeParse(parsed);
+  if (!document.success) {
     throw new Error('Invalid OPML format: missing opml root element');
   }
 
-  // 获取标题
-  const opmlObj = opml as Record<string, unknown>;
-  const head = opmlObj.head as Record<string, unknown> | undefined;
-  const title = (head && typeof head.title === 'string' ? head.title : null) || 'Imported Feeds';
+  const { head, body } = document.data.opml;
+  const title = head?.title || 'Imported Feeds';
 
   // 获取 body 中的 outline
-  const body = opmlObj.body as Record<string, unknown> | undefined;
-  if (!body) {
-    return { title, outlines: [] };
-  }
-
-  const bodyOutlines = body.outline;
-  let outlines: OPMLOutline[] = [];
-
-  if (Array.isArray(bodyOutlines)) {
-    outlines = bodyOutlines
-      .map((child) => parseOutlineElement(child as Record<string, unknown>))
-      .filter((o): o is OPMLOutline => o !== null);
-  } else if (bodyOutlines && typeof bodyOutlines === 'object') {
-    const parsed = parseOutlineElement(bodyOutlines as Record<string, unknown>);
-    if (parsed) {
-      outlines = [parsed];
-    }
-  }
+  const outlines = childElements(body?.outline).map(parseOutlineElement);
 
   return { title, outlines };
 }
@@ -0,0 +1,173 @@
+/**
+ * 对外订阅源
+ * 用户把星标、标签、分类或重要度筛选出的文章发布为订阅源，供 Slack RSS 应用或其他阅读器订阅
+ * 地址中的令牌为 32 字节随机值，仅凭令牌即可访问，重置令牌或删除后旧地址立即失效
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { OutboundFeed, Prisma } from '@prisma/client';
+import { db } from '../db';
+import {
+  entryStateFilter,
+  entryTagFilter,
+  entryUserTagsInclude,
+  entryVisibleTo,
+  mergeEntryTags,
+} from '../entries/state';
+import type { OutboundChannel, OutboundFormat, OutboundItem } from './render';
+
+/** 每次输出的文章数 */
+export const OUTBOUND_ITEM_LIMIT = 50;
+
+export type OutboundFilter = Pick<OutboundFeed, 'starredOnly' | 'tag' | 'categoryId' | 'minImportance'>;
+
+export function generateOutboundToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * 订阅地址
+ */
+export function outboundFeedUrl(baseUrl: string, token: string, format: OutboundFormat): string {
+  return `${baseUrl}/api/outbound/${token}?format=${format}`;
+}
+
+/**
+ * 筛选条件是否为空（为空时会公开全部订阅文章，不允许保存）
+ */
+export function isEmptyOutboundFilter(filter: OutboundFilter): boolean {
+  return !filter.starredOnly && !filter.tag && !filter.categoryId && filter.minImportance == null;
+}
+
+/**
+ * 不考虑星标、标签条件时可能入选的文章（其状态变化可能改变输出）
+ */
+function outboundCandidateWhere(userId: string, filter: OutboundFilter): Prisma.EntryWhereInput {
+  return {
+    ...entryVisibleTo(userId, filter.categoryId ?? undefined),
+    ...(filter.minImportance != null && { aiImportanceScore: { gte: filter.minImportance } }),
+  };
+}
+
+/**
+ * 筛选条件对应的文章查询（各条件同时满足）
+ */
+export function outboundEntryWhere(userId: string, filter: OutboundFilter): Prisma.EntryWhereInput {
+  return {
+    ...outboundCandidateWhere(userId, filter),
+    AND: [
+      ...entryStateFilter(userId, filter.starredOnly ? { isStarred: true } : {}),
+      ...(filter.tag ? [entryTagFilter(userId, filter.tag)] : []),
+    ],
+  };
+}
+
+/**
+ * 按令牌查找订阅源
+ */
+export async function findOutboundFeed(token: string) {
+  if (!token) return null;
+
+  return db.outboundFeed.findUnique({
+    where: { token },
+    include: { category: { select: { name: true } } },
+  });
+}
+
+/**
+ * 读取订阅源内容
+ */
+export async function loadOutboundFeed(
+  feed: OutboundFeed & { category: { name: string } | null },
+  feedUrl: string,
+  siteUrl: string
+): Promise<{ channel: OutboundChannel; items: OutboundItem[] }> {
+  const entries = await db.entry.findMany({
+    where: outboundEntryWhere(feed.userId, feed),
+    select: {
+      id: true,
+      title: true,
+      url: true,
+      author: true,
+      summary: true,
+      excerpt: true,
+      aiSummary: true,
+      publishedAt: true,
+      createdAt: true,
+      updatedAt: true,
+      tags: true,
+      states: { ...entryUserTagsInclude(feed.userId), select: { tags: true, updatedAt: true } },
+    },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: OUTBOUND_ITEM_LIMIT,
+  });
+
+  const items = entries.map((entry) => ({
+    id: entry.id,
+    title: entry.title,
+    url: entry.url,
+    author: entry.author,
+    description: (feed.includeAiSummary && entry.aiSummary) || entry.summary || entry.excerpt,
+    publishedAt: entry.publishedAt ?? entry.createdAt,
+    // 用户标签变化也算文章更新
+    updatedAt: new Date(Math.max(entry.updatedAt.getTime(), entry.states[0]?.updatedAt.getTime() ?? 0)),
+    tags: mergeEntryTags(entry.tags, entry.states),
+  }));
+
+  // 取消星标、移除标签后文章不再入选，因此取所有可能入选文章的状态的最后修改时间（阅读状态变化也会计入）
+  const { _max: states } = await db.entryState.aggregate({
+    where: { userId: feed.userId, entry: outboundCandidateWhere(feed.userId, feed) },
+    _max: { updatedAt: true },
+  });
+
+  // feed.updatedAt 只在修改设置时变化（访问计数不更新它）
+  const updatedAt = new Date(
+    Math.max(
+      feed.updatedAt.getTime(),
+      states.updatedAt?.getTime() ?? 0,
+      ...items.map((item) => item.updatedAt.getTime())
+    )
+  );
+
+  return {
+    channel: {
+      title: feed.name,
+      description: describeOutboundFilter(feed, feed.category?.name),
+      siteUrl,
+      feedUrl,
+      updatedAt,
+    },
+    items,
+  };
+}
+
+/**
+ * 筛选条件的文字说明
+ */
+export function describeOutboundFilter(filter: OutboundFilter, categoryName?: string): string {
+  const parts: string[] = [];
+  if (filter.starredOnly) parts.push('星标文章');
+  if (filter.tag) parts.push(`标签「${filter.tag}」`);
+  if (filter.categoryId) parts.push(`分类「${categoryName ?? '未知'}」`);
+  if (filter.minImportance != null) parts.push(`重要度 ≥ ${filter.minImportance}`);
+  return parts.join(' · ');
+}
+
+/**
+ * 内容的 ETag（文章、文章状态或设置变化时改变）
+ * JSON Feed 不输出订阅源的更新时间，因此单独计入 updatedAt
+ */
+export function outboundETag(format: OutboundFormat, body: string, updatedAt: Date): string {
+  return `"${createHash('sha256').update(format).update(updatedAt.toISOString()).update(body).digest('base64url').slice(0, 27)}"`;
+}
+
+/**
+ * 记录一次访问
+ * 直接执行 SQL，不触发 @updatedAt：updated_at 只表示设置的修改时间，作为 Last-Modified 的一部分
+ */
+export async function recordOutboundAccess(id: string): Promise<void> {
+  await db.$executeRaw`
+    UPDATE outbound_feeds
+    SET access_count = access_count + 1, last_accessed_at = NOW()
+    WHERE id = ${id}`;
+}
@@ -0,0 +1,6 @@
+/**
+ * 对外订阅源
+ */
+
+export * from './feeds';
+export * from './render';
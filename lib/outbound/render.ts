@@ -0,0 +1,154 @@
+/**
+ * 对外订阅源渲染
+ * 将文章列表输出为 RSS 2.0、Atom 1.0 或 JSON Feed 1.1
+ */
+
+export type OutboundFormat = 'rss' | 'atom' | 'json';
+
+export const OUTBOUND_FORMATS: OutboundFormat[] = ['rss', 'atom', 'json'];
+
+export const OUTBOUND_CONTENT_TYPES: Record<OutboundFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+export interface OutboundChannel {
+  title: string;
+  description: string;
+  /** 站点首页 */
+  siteUrl: string;
+  /** 当前格式的订阅地址 */
+  feedUrl: string;
+  updatedAt: Date;
+}
+
+export interface OutboundItem {
+  id: string;
+  title: string;
+  url: string;
+  author: string | null;
+  /** 摘要（AI 摘要或原文摘要），纯文本 */
+  description: string | null;
+  publishedAt: Date;
+  updatedAt: Date;
+  tags: string[];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * 去除 XML 1.0 不允许的控制字符
+ */
+function xmlText(value: string): string {
+  return escapeXml(value.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, ''));
+}
+
+function element(name: string, value: string | null | undefined, indent: string): string {
+  return value ? `${indent}<${name}>${xmlText(value)}</${name}>\n` : '';
+}
+
+function renderRss(channel: OutboundChannel, items: OutboundItem[]): string {
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  xml += '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">\n';
+  xml += '  <channel>\n';
+  xml += element('title', channel.title, '    ');
+  xml += element('link', channel.siteUrl, '    ');
+  xml += element('description', channel.description, '    ');
+  xml += `    <atom:link href="${xmlText(channel.feedUrl)}" rel="self" type="application/rss+xml"/>\n`;
+  xml += element('lastBuildDate', channel.updatedAt.toUTCString(), '    ');
+
+  for (const item of items) {
+    xml += '    <item>\n';
+    xml += element('title', item.title, '      ');
+    xml += element('link', item.url, '      ');
+    xml += `      <guid isPermaLink="false">${xmlText(item.id)}</guid>\n`;
+    xml += element('pubDate', item.publishedAt.toUTCString(), '      ');
+    xml += element('dc:creator', item.author, '      ');
+    xml += element('description', item.description, '      ');
+    for (const tag of item.tags) {
+      xml += element('category', tag, '      ');
+    }
+    xml += '    </item>\n';
+  }
+
+  xml += '  </channel>\n';
+  xml += '</rss>\n';
+  return xml;
+}
+
+function renderAtom(channel: OutboundChannel, items: OutboundItem[]): string {
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  xml += '<feed xmlns="http://www.w3.org/2005/Atom">\n';
+  xml += element('id', channel.feedUrl, '  ');
+  xml += element('title', channel.title, '  ');
+  xml += element('subtitle', channel.description, '  ');
+  xml += element('updated', channel.updatedAt.toISOString(), '  ');
+  xml += `  <link href="${xmlText(channel.feedUrl)}" rel="self" type="application/atom+xml"/>\n`;
+  xml += `  <link href="${xmlText(channel.siteUrl)}" rel="alternate" type="text/html"/>\n`;
+
+  for (const item of items) {
+    xml += '  <entry>\n';
+    xml += element('id', `urn:uuid:${item.id}`, '    ');
+    xml += element('title', item.title, '    ');
+    xml += `    <link href="${xmlText(item.url)}" rel="alternate" type="text/html"/>\n`;
+    xml += element('published', item.publishedAt.toISOString(), '    ');
+    xml += element('updated', item.updatedAt.toISOString(), '    ');
+    if (item.author) {
+      xml += `    <author>\n${element('name', item.author, '      ')}    </author>\n`;
+    }
+    xml += element('summary', item.description, '    ');
+    for (const tag of item.tags) {
+      xml += `    <category term="${xmlText(tag)}"/>\n`;
+    }
+    xml += '  </entry>\n';
+  }
+
+  xml += '</feed>\n';
+  return xml;
+}
+
+function renderJsonFeed(channel: OutboundChannel, items: OutboundItem[]): string {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: channel.title,
+    home_page_url: channel.siteUrl,
+    feed_url: channel.feedUrl,
+    description: channel.description,
+    items: items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      // JSON Feed 要求 content_html 或 content_text 至少有一个
+      content_text: item.description ?? item.title,
+      ...(item.description && { summary: item.description }),
+      date_published: item.publishedAt.toISOString(),
+      date_modified: item.updatedAt.toISOString(),
+      ...(item.author && { authors: [{ name: item.author }] }),
+      ...(item.tags.length > 0 && { tags: item.tags }),
+    })),
+  };
+
+  return JSON.stringify(feed, null, 2);
+}
+
+/**
+ * 按格式渲染订阅源
+ */
+export function renderOutboundFeed(format: OutboundFormat, channel: OutboundChannel, items: OutboundItem[]): string {
+  switch (format) {
+    case 'rss':
+      return renderRss(channel, items);
+    case 'atom':
+      return renderAtom(channel, items);
+    case 'json':
+      return renderJsonFeed(channel, items);
+  }
+}
@@ -8,12 +8,16 @@ import { Queue, Worker, Job } from 'bullmq';
 import { db } from '@/lib/db';
 import { getDefaultAIService, UserAIConfig } from '@/lib/ai/client';
 import { safeDecrypt } from '@/lib/crypto/encryption';
+import { getEmbeddingService } from '@/lib/search/embeddings';
+import { getRuleEngine } from '@/lib/rules/engine';
 import { SegmentedAnalyzer } from '@/lib/ai/analysis/segmented-analyzer';
 import { ReflectionEngine } from '@/lib/ai/analysis/reflection-engine';
+import { StageChat, resolveStageService } from '@/lib/ai/analysis/stage-chat';
 import { PersonalScorer } from '@/lib/ai/scoring/personal-scorer';
 import type { ArticleAnalysisResult } from '@/lib/ai/analysis/types';
 import { quickDetectLanguage } from '@/lib/ai/language-detector';
 import { createModelSelector } from '@/lib/ai/model-selector';
+import { createMetric, metricsCollector } from '@/lib/ai/metrics';
 import { info, warn, error as logError } from '@/lib/logger';
 
 // Redis 连接配置
@@ -125,6 +129,7 @@ export function createDeepAnalysisWorker(): Worker<DeepAnalysisJobData> {
           userAIConfig = {
             provider: dbConfig.provider,
             model: dbConfig.model,
+            embeddingModel: dbConfig.embeddingModel,
             baseURL: dbConfig.baseURL,
           };
 
@@ -157,26 +162,25 @@ export function createDeepAnalysisWorker(): Worker<DeepAnalysisJobData> {
 
       job.updateProgress(35);
 
-      // 4. 初始化 AI 服务（使用用户配置或环境变量）
+      // 4. 初始化 AI 服务（使用用户配置或环境变量），分析和反思阶段各自使用选定的模型
       const aiService = getDefaultAIService(userAIConfig);
-      const llm = {
-        chat: async (params: any) => {
-          // 使用 AI 服务进行对话
-          const result = await aiService.analyzeArticle(params.messages[1].content, {
-            summary: true,
-            keywords: true,
-            category: true,
-          });
-          return {
-            content: JSON.stringify(result),
-          };
-        },
-      } as any;
+      const analysisLLM = new StageChat('analysis', resolveStageService(analysisModel, userAIConfig));
+      const reflectionLLM = new StageChat('reflection', resolveStageService(reflectionModel, userAIConfig));
+
+      if (analysisLLM.model !== analysisModel || reflectionLLM.model !== reflectionModel) {
+        await warn('ai', '选定的模型不可用，使用已配置的模型', {
+          entryId,
+          userId,
+          selected: { analysisModel, reflectionModel },
+          used: { analysisModel: analysisLLM.model, reflectionModel: reflectionLLM.model },
+          phase: 'deep-analysis',
+        });
+      }
 
       job.updateProgress(40);
 
       // 5. 执行分段分析
-      const segmentedAnalyzer = new SegmentedAnalyzer(llm);
+      const segmentedAnalyzer = new SegmentedAnalyzer(analysisLLM, { analysisModel: analysisLLM.model });
       let analysisResult: ArticleAnalysisResult;
 
       try {
@@ -197,7 +201,7 @@ export function createDeepAnalysisWorker(): Worker<DeepAnalysisJobData> {
       }
 
       // 5. 执行反思优化
-      const reflectionEngine = new ReflectionEngine(llm);
+      const reflectionEngine = new ReflectionEngine(reflectionLLM, { reflectionModel: reflectionLLM.model });
       try {
         analysisResult = await reflectionEngine.refine(
           entry.content,
@@ -219,6 +223,27 @@ export function createDeepAnalysisWorker(): Worker<DeepAnalysisJobData> {
 
       // 6. 保存分析结果到数据库
       const processingTime = Date.now() - startTime;
+      const usage = [analysisLLM, reflectionLLM].map((stageChat) => {
+        const { stage, model, calls, failedCalls, inputTokens, outputTokens, totalTokens, duration } =
+          stageChat.usage;
+        const cost = stageChat.cost();
+        metricsCollector.record(
+          createMetric({
+            entryId,
+            stage,
+            model,
+            language,
+            contentLength: entry.content!.length,
+            processingTime: duration,
+            inputTokens,
+            outputTokens,
+            totalTokens,
+            cost,
+            success: calls > failedCalls,
+          })
+        );
+        return { stage, model, calls, failedCalls, totalTokens, cost };
+      });
 
       try {
         await db.entry.update({
@@ -229,9 +254,9 @@ export function createDeepAnalysisWorker(): Worker<DeepAnalysisJobData> {
             aiMainPoints: analysisResult.mainPoints as any,
             aiKeyQuotes: analysisResult.keyQuotes as any,
             aiScoreDimensions: analysisResult.scoreDimensions as any,
-            aiAnalysisModel: `${analysisModel}+${reflectionModel}`,
+            aiAnalysisModel: `${analysisLLM.model}+${reflectionLLM.model}`,
             aiProcessingTime: processingTime,
-            aiReflectionRounds: analysisResult.reflectionRounds || 2,
+            aiReflectionRounds: analysisResult.reflectionRounds,
             aiAnalyzedAt: new Date(),
           },
         });
@@ -245,11 +270,34 @@ export function createDeepAnalysisWorker(): Worker<DeepAnalysisJobData> {
         // 数据库保存失败不影响任务完成
       }
 
+      // 深度摘要生成后重新计算向量嵌入
+      try {
+        await getEmbeddingService().embedEntry(entryId, aiService);
+      } catch (err) {
+        await warn('ai', '更新文章嵌入失败', {
+          entryId,
+          error: err instanceof Error ? err.message : String(err),
+          phase: 'deep-analysis',
+          step: 'embedding',
+        });
+      }
+
+      // 分析结果已保存，执行引用分析字段的订阅规则
+      try {
+        await getRuleEngine().processAnalyzedEntry(entryId);
+      } catch (err) {
+        await logError('queue', '深度分析后执行订阅规则失败', err instanceof Error ? err : undefined, {
+          entryId,
+          phase: 'deep-analysis',
+          step: 'rules',
+        });
+      }
+
       job.updateProgress(90);
 
       // 7. 计算个性化评分（如果有用户）
       if (userId && userPrefs) {
-        const personalScorer = new PersonalScorer(llm);
+        const personalScorer = new PersonalScorer(analysisLLM);
         // 映射数据库字段到 UserPreferenceProfile 接口
         const mappedPrefs: any = {
           userId: userPrefs.userId,
@@ -283,9 +331,10 @@ export function createDeepAnalysisWorker(): Worker<DeepAnalysisJobData> {
         entryId,
         userId,
         language,
-        analysisModel,
-        reflectionModel,
+        analysisModel: analysisLLM.model,
+        reflectionModel: reflectionLLM.model,
         processingTime,
+        usage,
         reflectionRounds: analysisResult.reflectionRounds,
         hasMainPoints: (analysisResult.mainPoints?.length || 0) > 0,
         hasKeyQuotes: (analysisResult.keyQuotes?.length || 0) > 0,
@@ -295,6 +344,7 @@ export function createDeepAnalysisWorker(): Worker<DeepAnalysisJobData> {
       return {
         success: true,
         analysisResult,
+        usage,
       };
     },
     {
@@ -11,6 +11,8 @@ import { createPreliminaryEvaluator } from '@/lib/ai/preliminary-evaluator';
 import type { PreliminaryEvaluation } from '@/lib/ai/preliminary-evaluator';
 import type { UserAIConfig } from '@/lib/ai/client';
 import { safeDecrypt } from '@/lib/crypto/encryption';
+import { getEmbeddingService } from '@/lib/search/embeddings';
+import { getRuleEngine } from '@/lib/rules/engine';
 import { info, warn, error as logError } from '@/lib/logger';
 
 // =====================================================
@@ -171,6 +173,23 @@ export function createPreliminaryWorker(): Worker<PreliminaryJobData, Preliminar
         },
       });
 
+      // 生成向量嵌入供语义搜索使用，失败不影响初评结果
+      try {
+        await getEmbeddingService().embedEntry(entryId);
+      } catch (error) {
+        console.error('生成文章嵌入失败:', error);
+      }
+
+      // 初评结果已保存，执行引用分析字段的订阅规则
+      try {
+        await getRuleEngine().processAnalyzedEntry(entryId);
+      } catch (err) {
+        await logError('queue', '初评后执行订阅规则失败', err instanceof Error ? err : undefined, {
+          entryId,
+          phase: 'preliminary',
+        });
+      }
+
       job.updateProgress(90);
 
       // 5. 如果通过初评，添加到深度分析队列
@@ -0,0 +1,118 @@
+/**
+ * 规则外发队列处理器
+ *
+ * Webhook、站内通知和邮件投递带退避重试，放到后台执行，
+ * 避免阻塞订阅源抓取时的规则处理
+ */
+
+import { Queue, Worker, Job } from 'bullmq';
+import {
+  getRuleDeliveryService,
+  type DeliveryStatus,
+  type OutboundAction,
+  type OutboundRule,
+} from '@/lib/rules/delivery';
+
+// =====================================================
+// Redis 配置
+// =====================================================
+
+const REDIS_CONFIG = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379', 10),
+  password: process.env.REDIS_PASSWORD,
+  maxRetriesPerRequest: 3,
+  retryStrategy: (times: number) => {
+    const delay = Math.min(times * 100, 3000);
+    return delay;
+  },
+};
+
+// =====================================================
+// 任务数据类型
+// =====================================================
+
+export interface RuleDeliveryJobData {
+  entryId: string;
+  rule: OutboundRule;
+  action: OutboundAction;
+}
+
+export interface RuleDeliveryJobResult {
+  status: DeliveryStatus;
+}
+
+// =====================================================
+// 队列定义（懒加载）
+// =====================================================
+
+let ruleDeliveryQueueInstance: Queue<RuleDeliveryJobData> | null = null;
+
+export function getRuleDeliveryQueue(): Queue<RuleDeliveryJobData> {
+  if (!ruleDeliveryQueueInstance) {
+    ruleDeliveryQueueInstance = new Queue<RuleDeliveryJobData>('rule-delivery', {
+      connection: REDIS_CONFIG,
+      defaultJobOptions: {
+        // 投递服务内部已带退避重试并记录结果，任务不再整体重试，避免重复投递
+        attempts: 1,
+        removeOnComplete: {
+          age: 24 * 3600, // 1天后删除
+          count: 1000,
+        },
+        removeOnFail: {
+          age: 7 * 24 * 3600, // 7天后删除
+        },
+      },
+    });
+  }
+  return ruleDeliveryQueueInstance;
+}
+
+// =====================================================
+// 队列处理器
+// =====================================================
+
+export function createRuleDeliveryWorker(): Worker<RuleDeliveryJobData, RuleDeliveryJobResult> {
+  return new Worker<RuleDeliveryJobData, RuleDeliveryJobResult>(
+    'rule-delivery',
+    async (job: Job<RuleDeliveryJobData>) => {
+      const { entryId, rule, action } = job.data;
+      const status = await getRuleDeliveryService().dispatch(entryId, rule, action);
+      return { status };
+    },
+    {
+      connection: REDIS_CONFIG,
+      concurrency: parseInt(process.env.RULE_DELIVERY_CONCURRENCY || '5', 10),
+      lockDuration: 60000, // 锁持续时间 1 分钟（3 次 10 秒超时加退避）
+      lockRenewTime: 15000, // 每 15 秒续期一次
+    }
+  );
+}
+
+// =====================================================
+// 队列操作函数
+// =====================================================
+
+/**
+ * 添加外发投递任务
+ */
+export async function addRuleDeliveryJob(data: RuleDeliveryJobData): Promise<string> {
+  const job = await getRuleDeliveryQueue().add('deliver', data);
+  return job.id!;
+}
+
+/**
+ * 获取队列状态
+ */
+export async function getRuleDeliveryQueueStatus() {
+  const queue = getRuleDeliveryQueue();
+  const [waiting, active, completed, failed, delayed] = await Promise.all([
+    queue.getWaitingCount(),
+    queue.getActiveCount(),
+    queue.getCompletedCount(),
+    queue.getFailedCount(),
+    queue.getDelayedCount(),
+  ]);
+
+  return { waiting, active, completed, failed, delayed };
+}
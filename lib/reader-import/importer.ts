@@ -0,0 +1,208 @@
+/**
+ * 其他阅读器文章导入
+ *
+ * 恢复导出文件中文章的星标、已读状态和标签（标签按用户保存，不会取消已有的星标或已读）：
+ * 1. 文章所属订阅源按 URL 复用或创建；用户未订阅时创建停用的订阅（文章可见，但不会自动抓取）
+ * 2. 订阅源中已有相同 URL 的文章时只合并用户状态；订阅源在用户间共享，不会向其中写入文章
+ * 3. 其余文章（订阅源中没有的，或没有订阅源的，如 Pocket）归入该用户按来源区分的"导入"订阅源
+ *
+ * 进度通过 OPML 导入的进度存储上报，可用 settings.getImportProgress 轮询
+ */
+
+import { db } from '@/lib/db';
+import { info, warn } from '@/lib/logger';
+import { generateContentHash, isUrlSafe } from '@/lib/utils';
+import { addEntryTags, refreshUnreadCounts } from '@/lib/entries/state';
+import { setImportProgress, type ImportProgress } from '@/lib/opml/importer';
+import { READER_IMPORT_SOURCES, type ReaderImportSource, type ReaderItem } from './parsers';
+
+/** 每处理多少篇文章更新一次进度 */
+const PROGRESS_INTERVAL = 20;
+
+export interface ReaderImportOptions {
+  userId: string;
+  source: ReaderImportSource;
+}
+
+export interface ReaderImportResult {
+  success: boolean;
+  total: number;
+  /** 新建的文章数（导入订阅源中） */
+  imported: number;
+  /** 已存在、只合并了状态和标签的文章数 */
+  skipped: number;
+  failed: number;
+  /** 新订阅（停用状态）的订阅源数 */
+  subscribedFeeds: number;
+  starred: number;
+}
+
+class ReaderItemImporter {
+  private readonly feedIds = new Map<string, string>();
+
+  readonly result: ReaderImportResult = {
+    success: true,
+    total: 0,
+    imported: 0,
+    skipped: 0,
+    failed: 0,
+    subscribedFeeds: 0,
+    starred: 0,
+  };
+
+  constructor(
+    private readonly userId: string,
+    private readonly source: ReaderImportSource
+  ) {}
+
+  async import(item: ReaderItem): Promise<void> {
+    const feed = item.feed && isUrlSafe(item.feed.url).safe ? item.feed : undefined;
+    const feedId = feed
+      ? await this.resolveFeed(feed.url, feed.title || new URL(feed.url).hostname, feed.siteUrl ?? null)
+      : null;
+
+    // 只关联订阅源真正发布过的文章，其余文章写入用户自己的导入订阅源
+    const published = feedId
+      ? await db.entry.findFirst({ where: { feedId, url: item.url }, select: { id: true } })
+      : null;
+    if (published) this.result.skipped++;
+    const entryId = published?.id ?? (await this.resolveImportedEntry(item));
+
+    if (item.isRead || item.isStarred) {
+      const now = new Date();
+      const state = {
+        ...(item.isRead && { isRead: true, readAt: now }),
+        ...(item.isStarred && { isStarred: true, starredAt: item.starredAt ?? now }),
+      };
+      await db.entryState.upsert({
+        where: { userId_entryId: { userId: this.userId, entryId } },
+        create: { userId: this.userId, entryId, ...state },
+        update: state,
+      });
+    }
+    await addEntryTags(this.userId, entryId, item.tags);
+    if (item.isStarred) this.result.starred++;
+  }
+
+  /**
+   * 获取或创建导入订阅源中的文章
+   */
+  private async resolveImportedEntry(item: ReaderItem): Promise<string> {
+    const feedId = await this.resolveFeed(this.placeholderUrl(), `${READER_IMPORT_SOURCES[this.source]} 导入`, null);
+
+    const existing = await db.entry.findFirst({ where: { feedId, url: item.url }, select: { id: true } });
+    if (existing) {
+      this.result.skipped++;
+      return existing.id;
+    }
+
+    const created = await db.entry.create({
+      data: {
+        feedId,
+        url: item.url,
+        title: item.title,
+        content: item.content ?? null,
+        author: item.author ?? null,
+        publishedAt: item.publishedAt ?? item.starredAt ?? null,
+        contentHash: await generateContentHash(`${item.title}${item.url}${item.content || ''}`),
+      },
+      select: { id: true },
+    });
+    this.result.imported++;
+    return created.id;
+  }
+
+  /**
+   * 按 URL 获取订阅源，并确保用户已订阅（新订阅为停用状态）
+   */
+  private async resolveFeed(feedUrl: string, title: string, siteUrl: string | null): Promise<string> {
+    const cached = this.feedIds.get(feedUrl);
+    if (cached) return cached;
+
+    const { id: feedId } = await db.feed.upsert({
+      where: { feedUrl },
+      create: { feedUrl, title, siteUrl },
+      update: {},
+      select: { id: true },
+    });
+
+    const subscription = await db.subscription.findUnique({
+      where: { userId_feedId: { userId: this.userId, feedId } },
+      select: { id: true },
+    });
+    if (!subscription) {
+      await db.subscription.create({
+        data: { userId: this.userId, feedId, title, isActive: false },
+      });
+      this.result.subscribedFeeds++;
+    }
+
+    this.feedIds.set(feedUrl, feedId);
+    return feedId;
+  }
+
+  /**
+   * 订阅源中没有的文章归入的订阅源（每个用户每种来源一个，不会被抓取）
+   */
+  private placeholderUrl(): string {
+    const source = this.source.startsWith('pocket') ? 'pocket' : this.source;
+    return `import://${source}/${this.userId}`;
+  }
+}
+
+/**
+ * 导入解析出的文章
+ */
+export async function importReaderItems(
+  items: ReaderItem[],
+  options: ReaderImportOptions
+): Promise<ReaderImportResult> {
+  const { userId, source } = options;
+  const importer = new ReaderItemImporter(userId, source);
+  const result = importer.result;
+  result.total = items.length;
+
+  const report = (phase: ImportProgress['phase'], current: number, message: string, currentItem?: string) =>
+    setImportProgress(userId, {
+      phase,
+      current,
+      total: items.length,
+      currentItem,
+      message,
+      stats: { imported: result.imported, skipped: result.skipped, failed: result.failed },
+    });
+
+  await info('rss', `开始导入 ${READER_IMPORT_SOURCES[source]} 文章`, { userId, source, total: items.length });
+  report('creating', 0, '正在导入文章...');
+
+  for (const [index, item] of items.entries()) {
+    try {
+      await importer.import(item);
+    } catch (err) {
+      result.failed++;
+      await warn('rss', '导入文章失败，跳过继续', {
+        userId,
+        source,
+        url: item.url,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    if ((index + 1) % PROGRESS_INTERVAL === 0) {
+      report('creating', index + 1, '正在导入文章...', item.title);
+    }
+  }
+
+  await refreshUnreadCounts({ userId });
+
+  result.success = result.failed < items.length || items.length === 0;
+  report(
+    'completed',
+    items.length,
+    `导入完成：新增 ${result.imported}，已存在 ${result.skipped}，失败 ${result.failed}`
+  );
+
+  await info('rss', `${READER_IMPORT_SOURCES[source]} 文章导入完成`, { userId, ...result });
+
+  return result;
+}
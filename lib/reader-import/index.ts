@@ -0,0 +1,6 @@
+/**
+ * 其他阅读器导入模块导出
+ */
+
+export * from './parsers';
+export * from './importer';
@@ -0,0 +1,435 @@
+/**
+ * 其他阅读器导出文件解析
+ *
+ * 支持的格式：
+ * - google-reader：Google Reader 风格的 JSON（Inoreader、FreshRSS 的星标/文章导出）
+ * - feedly：Feedly 的稍后阅读（Saved For Later）导出
+ * - pocket-html：Pocket 的 HTML 导出（ril_export.html）
+ * - pocket-csv：Pocket 的 CSV 导出（part_000000.csv）
+ * - miniflux：Miniflux API 的文章 JSON（/v1/entries）
+ */
+
+import { z } from 'zod';
+
+export type ReaderImportSource = 'google-reader' | 'feedly' | 'pocket-html' | 'pocket-csv' | 'miniflux';
+
+export const READER_IMPORT_SOURCES: Record<ReaderImportSource, string> = {
+  'google-reader': 'Inoreader / FreshRSS',
+  feedly: 'Feedly',
+  'pocket-html': 'Pocket（HTML）',
+  'pocket-csv': 'Pocket（CSV）',
+  miniflux: 'Miniflux',
+};
+
+/**
+ * 解析出的文章
+ */
+export interface ReaderItem {
+  url: string;
+  title: string;
+  content?: string;
+  author?: string;
+  publishedAt?: Date;
+  /** 来源订阅源；Pocket 等稍后读服务没有订阅源 */
+  feed?: { url: string; title?: string; siteUrl?: string };
+  isRead: boolean;
+  isStarred: boolean;
+  /** 星标（收藏）时间 */
+  starredAt?: Date;
+  tags: string[];
+}
+
+export class ReaderImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReaderImportError';
+  }
+}
+
+// 导出文件中的字段类型不可靠：类型不符的字段视为缺失，不影响同一文章的其他字段
+const optionalString = z.string().optional().catch(undefined);
+const timestamp = z.union([z.number(), z.string()]).optional().catch(undefined);
+const stringList = z
+  .array(z.unknown())
+  .catch([])
+  .transform((values) => values.filter((value): value is string => typeof value === 'string'));
+const linkList = z.array(z.object({ href: optionalString }).nullable().catch(null)).catch([]);
+const textContent = z.object({ content: optionalString }).optional().catch(undefined);
+const originSchema = z
+  .object({ streamId: optionalString, title: optionalString, htmlUrl: optionalString })
+  .optional()
+  .catch(undefined);
+
+/** 文章数组，或 { items: 文章数组 } */
+const itemListSchema = z.union([
+  z.array(z.unknown()),
+  z.object({ items: z.array(z.unknown()) }).transform((data) => data.items),
+]);
+
+const googleReaderExportSchema = z.object({ id: optionalString, items: z.array(z.unknown()) });
+
+const googleReaderItemSchema = z.object({
+  title: optionalString,
+  canonical: linkList,
+  alternate: linkList,
+  published: timestamp,
+  crawlTimeMsec: timestamp,
+  summary: textContent,
+  content: textContent,
+  author: optionalString,
+  categories: stringList,
+  origin: originSchema,
+});
+
+const feedlyItemSchema = googleReaderItemSchema.omit({ categories: true, crawlTimeMsec: true }).extend({
+  canonicalUrl: optionalString,
+  originId: optionalString,
+  unread: z.boolean().optional().catch(undefined),
+  actionTimestamp: timestamp,
+  crawled: timestamp,
+  tags: z.array(z.object({ id: z.string(), label: optionalString }).nullable().catch(null)).catch([]),
+});
+
+/** 文章数组，或 { entries: 文章数组 } */
+const minifluxExportSchema = z.union([
+  z.array(z.unknown()),
+  z.object({ entries: z.array(z.unknown()) }).transform((data) => data.entries),
+]);
+
+const minifluxEntrySchema = z.object({
+  url: z.string(),
+  title: optionalString,
+  content: optionalString,
+  author: optionalString,
+  published_at: timestamp,
+  changed_at: timestamp,
+  status: optionalString,
+  starred: z.boolean().optional().catch(undefined),
+  tags: stringList,
+  feed: z
+    .object({ feed_url: optionalString, title: optionalString, site_url: optionalString })
+    .optional()
+    .catch(undefined),
+});
+
+/**
+ * 根据文件内容识别格式
+ * @returns 无法识别时返回 null
+ */
+export function detectReaderImportSource(text: string): ReaderImportSource | null {
+  const trimmed = text.trimStart();
+
+  if (trimmed.startsWith('<')) {
+    return /<h1>\s*(Unread|Read Archive)\s*<\/h1>/i.test(trimmed) || /time_added=/i.test(trimmed) ? 'pocket-html' : null;
+  }
+
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    const header = trimmed.split(/\r?\n/, 1)[0].toLowerCase();
+    return header.includes('url') && header.includes('time_added') ? 'pocket-csv' : null;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+
+  if (z.object({ entries: z.array(z.unknown()) }).safeParse(data).success) return 'miniflux';
+
+  const items = itemListSchema.safeParse(data);
+  if (!items.success) return null;
+
+  // Google Reader 用 categories 字符串数组表示状态和标签，Feedly 用 tags 对象数组
+  const first = items.data.find((item) => item && typeof item === 'object');
+  return z.object({ categories: z.array(z.string()) }).safeParse(first).success ? 'google-reader' : 'feedly';
+}
+
+/**
+ * 按格式解析导出文件
+ * @throws ReaderImportError 文件格式无效
+ */
+export function parseReaderExport(source: ReaderImportSource, text: string): ReaderItem[] {
+  switch (source) {
+    case 'google-reader':
+      return parseGoogleReaderJson(text);
+    case 'feedly':
+      return parseFeedlyJson(text);
+    case 'pocket-html':
+      return parsePocketHtml(text);
+    case 'pocket-csv':
+      return parsePocketCsv(text);
+    case 'miniflux':
+      return parseMinifluxJson(text);
+  }
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ReaderImportError('文件不是有效的 JSON');
+  }
+}
+
+/**
+ * 逐条校验，不是对象的条目跳过
+ */
+function parseEach<T extends z.ZodType>(schema: T, items: unknown[]): z.infer<T>[] {
+  return items.flatMap((item) => {
+    const parsed = schema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+function toDate(value: unknown, unit: 'ms' | 's' = 'ms'): Date | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date =
+    typeof value === 'number' || /^\d+$/.test(String(value))
+      ? new Date(Number(value) * (unit === 's' ? 1000 : 1))
+      : new Date(String(value));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function isHttpUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^https?:\/\//i.test(value);
+}
+
+/**
+ * 从 origin.streamId（feed/https://...）提取订阅源
+ */
+function originFeed(origin: z.infer<typeof originSchema>): ReaderItem['feed'] {
+  const streamId = origin?.streamId;
+  if (!origin || !streamId?.startsWith('feed/')) return undefined;
+
+  const url = streamId.slice('feed/'.length);
+  if (!isHttpUrl(url)) return undefined;
+  return { url, title: origin.title || undefined, siteUrl: isHttpUrl(origin.htmlUrl) ? origin.htmlUrl : undefined };
+}
+
+function uniqueTags(tags: Array<string | undefined>): string[] {
+  return [...new Set(tags.map((t) => t?.trim()).filter((t): t is string => !!t))];
+}
+
+/**
+ * Google Reader 风格 JSON：{ id, items: [{ title, canonical, alternate, published, summary, content, categories, origin }] }
+ * 状态和标签来自 categories：user/-/state/com.google/read、user/-/state/com.google/starred、user/-/label/名称
+ * 星标导出（id 以 /state/com.google/starred 结尾）中的文章全部视为星标
+ */
+export function parseGoogleReaderJson(text: string): ReaderItem[] {
+  const data = googleReaderExportSchema.safeParse(parseJson(text));
+  if (!data.success) throw new ReaderImportError('缺少 items 字段，不是 Google Reader 格式的导出');
+
+  const starredExport = !!data.data.id?.endsWith('/state/com.google/starred');
+
+  return parseEach(googleReaderItemSchema, data.data.items).flatMap((item): ReaderItem[] => {
+    const url = [...item.canonical, ...item.alternate].map((link) => link?.href).find(isHttpUrl);
+    if (!url) return [];
+
+    const categories = item.categories;
+    const hasState = (state: string) => categories.some((c) => c.endsWith(`/state/com.google/${state}`));
+    const isStarred = starredExport || hasState('starred');
+
+    return [
+      {
+        url,
+        title: item.title || url,
+        content: item.content?.content ?? item.summary?.content ?? undefined,
+        author: item.author || undefined,
+        publishedAt: toDate(item.published, 's'),
+        feed: originFeed(item.origin),
+        isRead: hasState('read'),
+        isStarred,
+        starredAt: isStarred ? toDate(item.crawlTimeMsec) : undefined,
+        tags: uniqueTags(categories.map((c) => /^user\/[^/]+\/label\/(.+)$/.exec(c)?.[1])),
+      },
+    ];
+  });
+}
+
+/**
+ * Feedly 稍后阅读导出：文章数组（或 { items }），时间为毫秒
+ * 标签为 { id: user/.../tag/名称, label }，global.* 为系统标签
+ */
+export function parseFeedlyJson(text: string): ReaderItem[] {
+  const items = itemListSchema.safeParse(parseJson(text));
+  if (!items.success) throw new ReaderImportError('不是 Feedly 的导出文件');
+
+  return parseEach(feedlyItemSchema, items.data).flatMap((item): ReaderItem[] => {
+    const links = [...item.canonical, ...item.alternate].map((link) => link?.href);
+    const url = [item.canonicalUrl, ...links, item.originId].find(isHttpUrl);
+    if (!url) return [];
+
+    return [
+      {
+        url,
+        title: item.title || url,
+        content: item.content?.content ?? item.summary?.content ?? undefined,
+        author: item.author || undefined,
+        publishedAt: toDate(item.published),
+        feed: originFeed(item.origin),
+        isRead: item.unread === false,
+        isStarred: true,
+        starredAt: toDate(item.actionTimestamp ?? item.crawled),
+        tags: uniqueTags(
+          item.tags.flatMap((tag) =>
+            tag && !tag.id.includes('/tag/global.') ? [tag.label || /\/tag\/(.+)$/.exec(tag.id)?.[1]] : []
+          )
+        ),
+      },
+    ];
+  });
+}
+
+function decodeHtmlEntities(value: string): string {
+  return value
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Pocket HTML 导出：<h1>Unread</h1> 与 <h1>Read Archive</h1> 下的链接列表
+ * <a href="..." time_added="秒" tags="a,b">标题</a>
+ * Pocket 中保存的文章均视为星标，Read Archive 中的文章标记为已读
+ */
+export function parsePocketHtml(text: string): ReaderItem[] {
+  const items: ReaderItem[] = [];
+  const pattern = /<h1[^>]*>([\s\S]*?)<\/h1>|<a\s([^>]*)>([\s\S]*?)<\/a>/gi;
+  let isRead = false;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    if (match[1] !== undefined) {
+      isRead = /archive/i.test(match[1]);
+      continue;
+    }
+
+    const attrs = Object.fromEntries(
+      [...match[2].matchAll(/([\w-]+)\s*=\s*"([^"]*)"/g)].map(([, name, value]) => [name.toLowerCase(), decodeHtmlEntities(value)])
+    );
+    if (!isHttpUrl(attrs.href)) continue;
+
+    const title = decodeHtmlEntities(match[3].replace(/<[^>]+>/g, '')).trim();
+    items.push({
+      url: attrs.href,
+      title: title || attrs.href,
+      isRead,
+      isStarred: true,
+      starredAt: toDate(attrs.time_added, 's'),
+      tags: uniqueTags((attrs.tags ?? '').split(',')),
+    });
+  }
+
+  return items;
+}
+
+/**
+ * 解析 CSV（支持引号内的逗号、换行和转义的双引号）
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+/**
+ * Pocket CSV 导出：title,url,time_added,tags,status，标签以 | 分隔，status 为 unread 或 archive
+ */
+export function parsePocketCsv(text: string): ReaderItem[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  const column = (row: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index >= 0 ? row[index]?.trim() ?? '' : '';
+  };
+
+  if (!columns.includes('url')) throw new ReaderImportError('CSV 缺少 url 列，不是 Pocket 的导出文件');
+
+  return rows.flatMap((row): ReaderItem[] => {
+    const url = column(row, 'url');
+    if (!isHttpUrl(url)) return [];
+
+    return [
+      {
+        url,
+        title: column(row, 'title') || url,
+        isRead: column(row, 'status').toLowerCase() === 'archive',
+        isStarred: true,
+        starredAt: toDate(column(row, 'time_added'), 's'),
+        tags: uniqueTags(column(row, 'tags').split('|')),
+      },
+    ];
+  });
+}
+
+/**
+ * Miniflux 文章 JSON：{ total, entries: [{ url, title, content, author, published_at, status, starred, tags, feed }] }
+ * status 为 removed 的文章不导入
+ */
+export function parseMinifluxJson(text: string): ReaderItem[] {
+  const entries = minifluxExportSchema.safeParse(parseJson(text));
+  if (!entries.success) throw new ReaderImportError('缺少 entries 字段，不是 Miniflux 的导出');
+
+  return parseEach(minifluxEntrySchema, entries.data).flatMap((entry): ReaderItem[] => {
+    if (!isHttpUrl(entry.url) || entry.status === 'removed') return [];
+
+    const feed = entry.feed;
+    return [
+      {
+        url: entry.url,
+        title: entry.title || entry.url,
+        content: entry.content || undefined,
+        author: entry.author || undefined,
+        publishedAt: toDate(entry.published_at),
+        feed: feed && isHttpUrl(feed.feed_url)
+          ? { url: feed.feed_url, title: feed.title || undefined, siteUrl: isHttpUrl(feed.site_url) ? feed.site_url : undefined }
+          : undefined,
+        isRead: entry.status === 'read',
+        isStarred: entry.starred === true,
+        starredAt: entry.starred === true ? toDate(entry.changed_at) : undefined,
+        tags: uniqueTags(entry.tags),
+      },
+    ];
+  });
+}
@@ -7,9 +7,31 @@ import { db } from '../db';
 import { AIService } from '../ai/client';
 import { checkAIConfig, getUserAIConfig } from '../ai/health-check';
 import { getNotificationService } from '../notifications/service';
-import { info, error } from '../logger';
+import { info, warn, error } from '../logger';
+import { entryVisibleTo } from '../entries/state';
 import type { Report, ReportEntry } from '@prisma/client';
 
+export type ReportType = 'daily' | 'weekly' | 'monthly' | 'custom';
+
+const REPORT_TYPE_LABELS: Record<ReportType, { name: string; period: string }> = {
+  daily: { name: '日报', period: '今天' },
+  weekly: { name: '周报', period: '本周' },
+  monthly: { name: '月报', period: '本月' },
+  custom: { name: '报告', period: '这段时间' },
+};
+
+/**
+ * 指定数据范围的报告（定时任务使用）
+ */
+export interface ReportPeriodOptions {
+  reportType: ReportType;
+  reportDate: Date;
+  startDate: Date;
+  endDate: Date;
+  title?: string;
+  scheduleId?: string;
+}
+
 // 收集的文章条目（用于AI生成）
 interface CollectedEntry {
   entryId: string;
@@ -90,6 +112,7 @@ export class AsyncReportGenerator {
           userId,
           reportType,
           reportDate,
+          scheduleId: null,
         },
       });
 
@@ -147,15 +170,89 @@ export class AsyncReportGenerator {
     }
   }
 
+  /**
+   * 按指定数据范围生成报告并等待完成
+   * 同一范围已有完成的报告时直接复用；AI 不可用时退回模板生成
+   */
+  async generateForPeriod(
+    userId: string,
+    period: ReportPeriodOptions,
+    aiGenerated: boolean = true
+  ): Promise<Report> {
+    const { reportType, reportDate, scheduleId = null } = period;
+
+    const existing = await db.report.findFirst({
+      where: { userId, reportType, reportDate, scheduleId },
+    });
+
+    if (existing) {
+      if (existing.status === 'completed') {
+        return existing;
+      }
+      if (this.generatingReports.has(existing.id)) {
+        throw new Error('该报告正在生成中');
+      }
+      // 失败或中断的报告重新生成
+      await db.report.delete({ where: { id: existing.id } });
+    }
+
+    if (aiGenerated) {
+      const healthCheck = await checkAIConfig(await getUserAIConfig(userId, db));
+      if (!healthCheck.success) {
+        await warn('system', 'AI 配置不可用，改用模板生成报告', {
+          userId,
+          reportType,
+          error: healthCheck.error || healthCheck.message,
+        });
+        aiGenerated = false;
+      }
+    }
+
+    const title = period.title || this.generateTitle(reportType, reportDate);
+    const report = await db.report.create({
+      data: {
+        userId,
+        scheduleId,
+        reportType,
+        reportDate,
+        title,
+        status: 'pending',
+        progress: 0,
+        currentStep: '准备开始',
+        steps: GENERATION_STEPS.map(s => ({
+          ...s,
+          status: 'pending',
+        })) as any,
+        totalEntries: 0,
+        totalFeeds: 0,
+        format: 'markdown',
+        aiGenerated,
+      },
+    });
+
+    await this.runGeneration(report.id, userId, reportType, reportDate, aiGenerated, {
+      startDate: period.startDate,
+      endDate: period.endDate,
+      title,
+    });
+
+    const result = await db.report.findUniqueOrThrow({ where: { id: report.id } });
+    if (result.status !== 'completed') {
+      throw new Error(result.errorMessage || '报告生成失败');
+    }
+    return result;
+  }
+
   /**
    * 运行生成任务
    */
   private async runGeneration(
     reportId: string,
     userId: string,
-    reportType: 'daily' | 'weekly',
+    reportType: ReportType,
     reportDate: Date,
-    aiGenerated: boolean
+    aiGenerated: boolean,
+    period?: { startDate: Date; endDate: Date; title: string }
   ): Promise<void> {
     const abortController = new AbortController();
     this.generatingReports.set(reportId, abortController);
@@ -165,7 +262,7 @@ export class AsyncReportGenerator {
       await this.updateReportStatus(reportId, 'generating', 5, '初始化', 'init');
 
       // 计算日期范围
-      const { startDate, endDate } = this.getDateRange(reportType, reportDate);
+      const { startDate, endDate } = period ?? this.getDateRange(reportType, reportDate);
 
       // 步骤1: 收集数据
       await this.updateStepStatus(reportId, 'collect_data', 'doing', '正在收集文章数据...');
@@ -285,7 +382,7 @@ export class AsyncReportGenerator {
         userId,
         reportId,
         reportType,
-        this.generateTitle(reportType, reportDate)
+        period?.title ?? this.generateTitle(reportType, reportDate)
       );
 
       await info('system', '报告生成完成', { reportId, userId, reportType });
@@ -364,8 +461,12 @@ export class AsyncReportGenerator {
   /**
    * 获取日期范围
    */
-  private getDateRange(reportType: 'daily' | 'weekly', reportDate: Date): { startDate: Date; endDate: Date } {
-    if (reportType === 'daily') {
+  private getDateRange(reportType: ReportType, reportDate: Date): { startDate: Date; endDate: Date } {
+    if (reportType === 'monthly') {
+      const startDate = new Date(reportDate.getFullYear(), reportDate.getMonth(), 1);
+      const endDate = new Date(reportDate.getFullYear(), reportDate.getMonth() + 1, 0, 23, 59, 59, 999);
+      return { startDate, endDate };
+    } else if (reportType === 'daily' || reportType === 'custom') {
       const startDate = new Date(reportDate);
       startDate.setHours(0, 0, 0, 0);
       const endDate = new Date(reportDate);
@@ -385,13 +486,13 @@ export class AsyncReportGenerator {
   /**
    * 生成标题
    */
-  private generateTitle(reportType: 'daily' | 'weekly', reportDate: Date): string {
+  private generateTitle(reportType: ReportType, reportDate: Date): string {
     const dateStr = reportDate.toLocaleDateString('zh-CN', {
       year: 'numeric',
       month: 'long',
       day: 'numeric',
     });
-    return reportType === 'daily' ? `${dateStr} 日报` : `${dateStr} 周报`;
+    return `${dateStr} ${REPORT_TYPE_LABELS[reportType].name}`;
   }
 
   /**
@@ -400,15 +501,21 @@ export class AsyncReportGenerator {
   private async collectStats(userId: string, startDate: Date, endDate: Date) {
     const entries = await db.entry.findMany({
       where: {
-        feed: { userId },
+        ...entryVisibleTo(userId),
         createdAt: { gte: startDate, lte: endDate },
       },
-      include: { feed: { include: { category: true } } },
+      include: {
+        feed: {
+          include: {
+            subscriptions: { where: { userId }, include: { category: true } },
+          },
+        },
+      },
     });
 
     const categories: Record<string, number> = {};
     entries.forEach(e => {
-      const cat = e.feed.category?.name || '未分类';
+      const cat = e.feed.subscriptions[0]?.category?.name || '未分类';
       categories[cat] = (categories[cat] || 0) + 1;
     });
 
@@ -425,7 +532,7 @@ export class AsyncReportGenerator {
   private async collectEntries(userId: string, startDate: Date, endDate: Date, limit: number): Promise<CollectedEntry[]> {
     const entries = await db.entry.findMany({
       where: {
-        feed: { userId },
+        ...entryVisibleTo(userId),
         createdAt: { gte: startDate, lte: endDate },
       },
       include: { feed: { select: { id: true, title: true } } },
@@ -462,7 +569,7 @@ export class AsyncReportGenerator {
     aiService: AIService,
     entries: CollectedEntry[],
     stats: any,
-    reportType: 'daily' | 'weekly',
+    reportType: ReportType,
     reportDate: Date,
     reportId: string,
     aiConfig: any,
@@ -506,9 +613,9 @@ export class AsyncReportGenerator {
   /**
    * 构建AI提示词
    */
-  private buildAIPrompt(entries: any[], stats: any, reportType: 'daily' | 'weekly', reportDate: Date): string {
+  private buildAIPrompt(entries: any[], stats: any, reportType: ReportType, reportDate: Date): string {
     const dateStr = reportDate.toLocaleDateString('zh-CN');
-    const period = reportType === 'daily' ? '今天' : '本周';
+    const period = REPORT_TYPE_LABELS[reportType].period;
     
     const entriesText = entries.map((e, i) => 
       `${i + 1}. ${e.title}${e.aiSummary ? `\n   摘要：${e.aiSummary}` : ''}`
@@ -564,9 +671,9 @@ ${entriesText}
   /**
    * 模板生成内容
    */
-  private generateTemplateContent(entries: any[], stats: any, reportType: 'daily' | 'weekly', reportDate: Date): { content: string; summary: string; highlights: string[]; topics: any } {
+  private generateTemplateContent(entries: any[], stats: any, reportType: ReportType, reportDate: Date): { content: string; summary: string; highlights: string[]; topics: any } {
     const dateStr = reportDate.toLocaleDateString('zh-CN');
-    const title = reportType === 'daily' ? `${dateStr} 日报` : `${dateStr} 周报`;
+    const title = `${dateStr} ${REPORT_TYPE_LABELS[reportType].name}`;
     
     const content = `# ${title}
 
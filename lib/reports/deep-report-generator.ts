@@ -7,6 +7,7 @@ import { db } from '../db';
 import { AIService } from '../ai/client';
 import { getUserAIConfig } from '../ai/health-check';
 import { info, warn, error } from '../logger';
+import { entryVisibleTo } from '../entries/state';
 import type { Entry, Feed, Category } from '@prisma/client';
 
 interface ReportEntry extends Entry {
@@ -132,21 +133,36 @@ export class DeepReportGenerator {
     startDate: Date,
     endDate: Date
   ): Promise<ReportEntry[]> {
-    return db.entry.findMany({
+    const entries = await db.entry.findMany({
       where: {
-        feed: { userId },
+        ...entryVisibleTo(userId),
         createdAt: { gte: startDate, lte: endDate },
       },
       include: {
         feed: {
-          include: { category: true },
+          include: {
+            subscriptions: {
+              where: { userId },
+              include: { category: true },
+            },
+          },
         },
       },
       orderBy: [
         { aiImportanceScore: 'desc' },
         { publishedAt: 'desc' },
       ],
-    }) as Promise<ReportEntry[]>;
+    });
+
+    // 订阅源标题和分类取用户的订阅设置
+    return entries.map(({ feed: { subscriptions, ...feed }, ...entry }) => ({
+      ...entry,
+      feed: {
+        ...feed,
+        title: subscriptions[0]?.title ?? feed.title,
+        category: subscriptions[0]?.category ?? null,
+      },
+    }));
   }
 
   /**
@@ -11,6 +11,7 @@ import { getUserAIConfig } from '../ai/health-check';
 import { convertMarkdownToPdf } from './pdf-converter';
 import { createSystemEmailService } from '../email/service';
 import { info, warn, error } from '../logger';
+import { entryVisibleTo } from '../entries/state';
 import { getDeepReportGenerator, DeepReportOptions } from './deep-report-generator';
 import type { Report, Entry } from '@prisma/client';
 
@@ -52,6 +53,7 @@ export class ReportGenerator {
         userId,
         reportType: 'daily',
         reportDate,
+        scheduleId: null,
       },
     });
 
@@ -130,6 +132,7 @@ export class ReportGenerator {
         userId,
         reportType: 'weekly',
         reportDate,
+        scheduleId: null,
       },
     });
 
@@ -205,9 +208,7 @@ export class ReportGenerator {
     // 获取总文章数和阅读数
     const entries = await db.entry.findMany({
       where: {
-        feed: {
-          userId,
-        },
+        ...entryVisibleTo(userId),
         createdAt: {
           gte: startDate,
           lte: endDate,
@@ -216,7 +217,10 @@ export class ReportGenerator {
       include: {
         feed: {
           include: {
-            category: true,
+            subscriptions: {
+              where: { userId },
+              include: { category: true },
+            },
           },
         },
       },
@@ -225,21 +229,17 @@ export class ReportGenerator {
     const totalEntries = entries.length;
 
     // 获取订阅源数量
-    const feeds = await db.feed.findMany({
+    const totalFeeds = await db.subscription.count({
       where: {
         userId,
         isActive: true,
       },
-      select: {
-        id: true,
-      },
     });
-    const totalFeeds = feeds.length;
 
     // 按分类统计
     const categoryMap = new Map<string, number>();
     entries.forEach((entry) => {
-      const categoryName = entry.feed.category?.name || '未分类';
+      const categoryName = entry.feed.subscriptions[0]?.category?.name || '未分类';
       categoryMap.set(categoryName, (categoryMap.get(categoryName) || 0) + 1);
     });
 
@@ -279,9 +279,7 @@ export class ReportGenerator {
   ): Promise<Entry[]> {
     return db.entry.findMany({
       where: {
-        feed: {
-          userId,
-        },
+        ...entryVisibleTo(userId),
         createdAt: {
           gte: startDate,
           lte: endDate,
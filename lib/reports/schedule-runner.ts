@@ -0,0 +1,245 @@
+/**
+ * 报告定时任务执行器
+ * 由后台调度器定期调用：生成到期任务的报告、发送邮件、推进下次执行时间并记录执行结果
+ */
+
+import { Prisma, type Report, type ReportSchedule, type ReportScheduleRun } from '@prisma/client';
+import { db } from '../db';
+import { AsyncReportGenerator } from './async-generator';
+import { convertMarkdownToPdf } from './pdf-converter';
+import {
+  formatReportPeriod,
+  nextRunAfter,
+  resolveReportPeriod,
+  type ReportPeriod,
+  type ScheduleDateRange,
+  type ScheduleFrequency,
+} from './schedule';
+import {
+  createEmailServiceFromUser,
+  createSystemEmailService,
+  type EmailAttachment,
+} from '../email/service';
+import { info, warn, error as logError } from '../logger';
+
+export type ScheduleRunTrigger = 'scheduled' | 'manual';
+
+/**
+ * 报告定时任务执行器
+ */
+export class ReportScheduleRunner {
+  private isRunning = false;
+
+  /**
+   * 执行所有到期的定时任务
+   * 停机期间错过的多次执行合并为一次补执行，不会重复发送
+   */
+  async runDue(now: Date = new Date()): Promise<number> {
+    if (this.isRunning) return 0;
+    this.isRunning = true;
+
+    let executed = 0;
+    try {
+      const schedules = await db.reportSchedule.findMany({
+        where: { isEnabled: true, nextRunAt: { lte: now } },
+        orderBy: { nextRunAt: 'asc' },
+      });
+
+      for (const schedule of schedules) {
+        const scheduledFor = schedule.nextRunAt!;
+        const nextRunAt = nextRunAfter(
+          schedule.firstRunAt,
+          schedule.frequency as ScheduleFrequency,
+          schedule.timezone,
+          now
+        );
+
+        // 以当前 nextRunAt 为条件推进，保证多实例部署时同一次执行只被认领一次
+        const claimed = await db.reportSchedule.updateMany({
+          where: { id: schedule.id, nextRunAt: scheduledFor },
+          data: { nextRunAt },
+        });
+        if (claimed.count === 0) continue;
+
+        const missed = nextRunAfter(
+          schedule.firstRunAt,
+          schedule.frequency as ScheduleFrequency,
+          schedule.timezone,
+          scheduledFor
+        );
+        if (missed && missed <= now) {
+          await info('system', '定时报告错过了执行时间，合并为一次补执行', {
+            scheduleId: schedule.id,
+            scheduledFor,
+            nextRunAt,
+          });
+        }
+
+        await this.execute(schedule, scheduledFor, 'scheduled');
+        executed++;
+      }
+    } catch (err) {
+      await logError('system', '执行报告定时任务失败', err instanceof Error ? err : undefined);
+    } finally {
+      this.isRunning = false;
+    }
+
+    return executed;
+  }
+
+  /**
+   * 执行一次定时任务：生成报告并发送邮件
+   * 同一执行时间已有执行记录时跳过，返回 null
+   */
+  async execute(
+    schedule: ReportSchedule,
+    scheduledFor: Date,
+    trigger: ScheduleRunTrigger
+  ): Promise<ReportScheduleRun | null> {
+    let run: ReportScheduleRun;
+    try {
+      run = await db.reportScheduleRun.create({
+        data: { scheduleId: schedule.id, scheduledFor, trigger },
+      });
+    } catch (err) {
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+        await warn('system', '定时报告已执行过，跳过', { scheduleId: schedule.id, scheduledFor });
+        return null;
+      }
+      throw err;
+    }
+
+    let report: Report | null = null;
+    let emailSent = false;
+    let errorMessage: string | null = null;
+
+    try {
+      const period = resolveReportPeriod(
+        schedule.dateRange as ScheduleDateRange,
+        schedule.customDays,
+        scheduledFor,
+        schedule.timezone
+      );
+
+      report = await AsyncReportGenerator.getInstance().generateForPeriod(
+        schedule.userId,
+        {
+          ...period,
+          scheduleId: schedule.id,
+          title: `${schedule.name}（${formatReportPeriod(period, schedule.timezone)}）`,
+        },
+        schedule.includeAiSummary
+      );
+
+      await this.sendEmail(schedule, report, period);
+      emailSent = true;
+    } catch (err) {
+      errorMessage = err instanceof Error ? err.message : String(err);
+      await logError('system', '定时报告执行失败', err instanceof Error ? err : undefined, {
+        scheduleId: schedule.id,
+        scheduledFor,
+        reportId: report?.id,
+      });
+    }
+
+    const status = errorMessage ? 'failed' : 'success';
+    const finishedAt = new Date();
+
+    const [finishedRun] = await db.$transaction([
+      db.reportScheduleRun.update({
+        where: { id: run.id },
+        data: { status, reportId: report?.id, emailSent, error: errorMessage, finishedAt },
+      }),
+      db.reportSchedule.update({
+        where: { id: schedule.id },
+        data: {
+          runCount: { increment: 1 },
+          lastRunAt: finishedAt,
+          lastStatus: status,
+          lastError: errorMessage,
+        },
+      }),
+    ]);
+
+    if (!errorMessage) {
+      await info('system', '定时报告已发送', {
+        scheduleId: schedule.id,
+        reportId: report?.id,
+        trigger,
+        recipient: schedule.recipientEmail,
+      });
+    }
+
+    return finishedRun;
+  }
+
+  /**
+   * 发送报告邮件：优先使用用户的邮件配置，未配置时使用系统邮件服务
+   */
+  private async sendEmail(schedule: ReportSchedule, report: Report, period: ReportPeriod): Promise<void> {
+    const user = await db.user.findUnique({
+      where: { id: schedule.userId },
+      select: { username: true, emailConfig: true },
+    });
+
+    const emailService = createEmailServiceFromUser(user?.emailConfig) || createSystemEmailService();
+    if (!emailService) {
+      throw new Error('邮件服务未配置，请先在设置中配置邮件');
+    }
+
+    // PDF 生成失败不影响邮件发送
+    let pdfAttachment: EmailAttachment | undefined;
+    if (report.content) {
+      try {
+        const pdfResult = await convertMarkdownToPdf(report.content, { title: report.title });
+        if (pdfResult.success && pdfResult.pdfBuffer) {
+          pdfAttachment = {
+            filename: `${schedule.name}_${formatReportPeriod(period, schedule.timezone).replace(/ ~ /, '_')}.pdf`,
+            content: pdfResult.pdfBuffer,
+            contentType: 'application/pdf',
+          };
+        }
+      } catch (pdfError) {
+        await warn('system', 'PDF 附件生成失败，将发送无附件邮件', {
+          reportId: report.id,
+          error: pdfError instanceof Error ? pdfError.message : String(pdfError),
+        });
+      }
+    }
+
+    const result = await emailService.sendReportEmail(
+      schedule.recipientEmail,
+      user?.username ?? null,
+      {
+        id: report.id,
+        title: report.title,
+        reportType: report.reportType,
+        reportDate: report.reportDate,
+        summary: report.summary,
+        content: report.content,
+        highlights: report.highlights,
+        totalEntries: report.totalEntries,
+        totalFeeds: report.totalFeeds,
+      },
+      pdfAttachment,
+      {
+        subject: schedule.emailSubject,
+        includeStats: schedule.includeStats,
+        includeHighlights: schedule.includeHighlights,
+      }
+    );
+
+    if (!result.success) {
+      throw new Error(result.error || result.message);
+    }
+  }
+}
+
+let reportScheduleRunner: ReportScheduleRunner | null = null;
+
+export function getReportScheduleRunner(): ReportScheduleRunner {
+  if (!reportScheduleRunner) {
+    reportScheduleRunner = new ReportScheduleRunner();
+  }
+  return reportScheduleRunner;
+}
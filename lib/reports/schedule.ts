@@ -0,0 +1,155 @@
+/**
+ * 报告定时任务的时间计算
+ * 执行时间按任务时区保持墙上时间（跨夏令时不漂移），数据范围按任务时区的自然日计算
+ */
+
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export type ScheduleFrequency = 'once' | 'daily' | 'weekly' | 'monthly';
+
+export type ScheduleDateRange = 'yesterday' | 'last7days' | 'last30days' | 'lastWeek' | 'lastMonth' | 'custom';
+
+export type ScheduledReportType = 'daily' | 'weekly' | 'monthly' | 'custom';
+
+/** 未指定时区时的默认时区 */
+export const DEFAULT_SCHEDULE_TIMEZONE = 'Asia/Shanghai';
+
+const WALL_FORMAT = 'YYYY-MM-DDTHH:mm:ss';
+
+const FREQUENCY_UNITS = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+} as const;
+
+/** 每个周期的最长毫秒数，用于估算已过去的周期数（只会低估） */
+const MAX_PERIOD_MS = {
+  daily: 25 * 3600 * 1000,
+  weekly: (7 * 24 + 1) * 3600 * 1000,
+  monthly: 31 * 24 * 3600 * 1000 + 3600 * 1000,
+};
+
+export interface ReportPeriod {
+  reportType: ScheduledReportType;
+  /** 报告日期（数据范围起始日，UTC 零点，对应 @db.Date） */
+  reportDate: Date;
+  startDate: Date;
+  /** 数据范围结束时间（含） */
+  endDate: Date;
+}
+
+/**
+ * 校验 IANA 时区名
+ */
+export function isValidTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 第 n 次重复的执行时间（n = 0 为首次执行）
+ * 按月重复时超出月末取月末
+ */
+export function occurrenceAt(firstRunAt: Date, frequency: ScheduleFrequency, tz: string, n: number): Date {
+  if (frequency === 'once' || n === 0) return firstRunAt;
+
+  const wall = dayjs(firstRunAt).tz(tz).format(WALL_FORMAT);
+  const shifted = dayjs.utc(wall).add(n, FREQUENCY_UNITS[frequency]).format(WALL_FORMAT);
+  return dayjs.tz(shifted, tz).toDate();
+}
+
+/**
+ * 晚于 after 的下一次执行时间；一次性任务已执行过时返回 null
+ */
+export function nextRunAfter(
+  firstRunAt: Date,
+  frequency: ScheduleFrequency,
+  tz: string,
+  after: Date
+): Date | null {
+  if (firstRunAt > after) return firstRunAt;
+  if (frequency === 'once') return null;
+
+  let n = Math.max(1, Math.floor((after.getTime() - firstRunAt.getTime()) / MAX_PERIOD_MS[frequency]));
+  let next = occurrenceAt(firstRunAt, frequency, tz, n);
+  while (next <= after) {
+    n++;
+    next = occurrenceAt(firstRunAt, frequency, tz, n);
+  }
+  return next;
+}
+
+/**
+ * 按执行时间计算报告的数据范围（均为执行日之前的完整自然日）
+ */
+export function resolveReportPeriod(
+  dateRange: ScheduleDateRange,
+  customDays: number | null | undefined,
+  runAt: Date,
+  tz: string
+): ReportPeriod {
+  // 在 UTC 上做墙上时间的日期运算，最后再换算回任务时区
+  const today = dayjs.utc(dayjs(runAt).tz(tz).format('YYYY-MM-DD'));
+
+  let start: dayjs.Dayjs;
+  let end = today;
+  let reportType: ScheduledReportType;
+
+  switch (dateRange) {
+    case 'yesterday':
+      start = today.subtract(1, 'day');
+      reportType = 'daily';
+      break;
+    case 'last7days':
+      start = today.subtract(7, 'day');
+      reportType = 'weekly';
+      break;
+    case 'last30days':
+      start = today.subtract(30, 'day');
+      reportType = 'monthly';
+      break;
+    case 'lastWeek': {
+      // 周一为一周的开始
+      const monday = today.subtract((today.day() + 6) % 7, 'day');
+      start = monday.subtract(7, 'day');
+      end = monday;
+      reportType = 'weekly';
+      break;
+    }
+    case 'lastMonth':
+      end = today.startOf('month');
+      start = end.subtract(1, 'month');
+      reportType = 'monthly';
+      break;
+    case 'custom':
+    default:
+      start = today.subtract(customDays || 7, 'day');
+      reportType = 'custom';
+      break;
+  }
+
+  return {
+    reportType,
+    reportDate: new Date(start.format('YYYY-MM-DD')),
+    startDate: dayjs.tz(start.format(WALL_FORMAT), tz).toDate(),
+    endDate: new Date(dayjs.tz(end.format(WALL_FORMAT), tz).valueOf() - 1),
+  };
+}
+
+/**
+ * 格式化数据范围，如 2024-06-01 ~ 2024-06-07
+ */
+export function formatReportPeriod(period: ReportPeriod, tz: string): string {
+  const start = dayjs(period.startDate).tz(tz).format('YYYY-MM-DD');
+  const end = dayjs(period.endDate).tz(tz).format('YYYY-MM-DD');
+  return start === end ? start : `${start} ~ ${end}`;
+}
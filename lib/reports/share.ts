@@ -0,0 +1,175 @@
+/**
+ * 报告公开分享
+ * 通过分享令牌只读访问报告，支持过期时间和访问密码
+ * 密码验证通过后以 Cookie 保存访问凭证，凭证与令牌和密码绑定，取消分享或修改密码后立即失效
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { db } from '../db';
+import { verifyPassword } from '../auth/password';
+
+/** 访问凭证 Cookie 有效期（秒） */
+export const SHARE_ACCESS_MAX_AGE = 7 * 24 * 60 * 60;
+
+/** 分享链接可设置的最长有效天数 */
+export const MAX_SHARE_EXPIRY_DAYS = 365;
+
+const sharedReportInclude = {
+  entries: {
+    include: {
+      entry: {
+        select: {
+          id: true,
+          title: true,
+          url: true,
+          author: true,
+          publishedAt: true,
+          feed: { select: { title: true } },
+        },
+      },
+    },
+    orderBy: { rank: 'asc' as const },
+  },
+};
+
+export interface SharedReport {
+  id: string;
+  title: string;
+  reportType: string;
+  reportDate: Date;
+  summary: string | null;
+  content: string | null;
+  highlights: string[];
+  totalEntries: number;
+  totalFeeds: number;
+  aiGenerated: boolean;
+  createdAt: Date;
+  entries: Array<{
+    section: string;
+    rank: number;
+    entry: {
+      id: string;
+      title: string;
+      url: string;
+      author: string | null;
+      publishedAt: Date | null;
+      feedTitle: string;
+    };
+  }>;
+}
+
+export type SharedReportAccess =
+  | { status: 'not_found' }
+  | { status: 'password_required'; title: string }
+  | { status: 'ok'; report: SharedReport };
+
+function getShareSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET or JWT_SECRET environment variable is not set');
+  }
+  return secret;
+}
+
+/**
+ * 访问凭证 Cookie 名称（每个分享链接独立）
+ */
+export function shareAccessCookieName(token: string): string {
+  return `report_share_${createHash('sha256').update(token).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * 生成访问凭证
+ */
+export function createShareAccessProof(token: string, passwordHash: string): string {
+  return createHmac('sha256', getShareSecret()).update(`${token}:${passwordHash}`).digest('base64url');
+}
+
+function isValidAccessProof(token: string, passwordHash: string, proof: string | undefined): boolean {
+  if (!proof) return false;
+
+  const expected = Buffer.from(createShareAccessProof(token, passwordHash));
+  const actual = Buffer.from(proof);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * 查找有效的分享（未取消、未过期）
+ */
+async function findActiveShare(token: string) {
+  if (!token) return null;
+
+  const report = await db.report.findUnique({
+    where: { shareToken: token },
+    include: sharedReportInclude,
+  });
+
+  if (!report || !report.isPublic || report.status !== 'completed') return null;
+  if (report.shareExpiresAt && report.shareExpiresAt <= new Date()) return null;
+
+  return report;
+}
+
+/**
+ * 按分享令牌读取报告
+ * 设置了密码时需要提供有效的访问凭证
+ */
+export async function getSharedReport(token: string, accessProof?: string): Promise<SharedReportAccess> {
+  const report = await findActiveShare(token);
+  if (!report) return { status: 'not_found' };
+
+  if (report.sharePasswordHash && !isValidAccessProof(token, report.sharePasswordHash, accessProof)) {
+    return { status: 'password_required', title: report.title };
+  }
+
+  return {
+    status: 'ok',
+    report: {
+      id: report.id,
+      title: report.title,
+      reportType: report.reportType,
+      reportDate: report.reportDate,
+      summary: report.summary,
+      content: report.content,
+      highlights: report.highlights,
+      totalEntries: report.totalEntries,
+      totalFeeds: report.totalFeeds,
+      aiGenerated: report.aiGenerated,
+      createdAt: report.createdAt,
+      entries: report.entries.map((e) => ({
+        section: e.section,
+        rank: e.rank,
+        entry: {
+          id: e.entry.id,
+          title: e.entry.title,
+          url: e.entry.url,
+          author: e.entry.author,
+          publishedAt: e.entry.publishedAt,
+          feedTitle: e.entry.feed.title,
+        },
+      })),
+    },
+  };
+}
+
+/**
+ * 验证分享密码，成功时返回访问凭证
+ */
+export async function unlockSharedReport(token: string, password: string): Promise<string | null> {
+  const report = await findActiveShare(token);
+  if (!report?.sharePasswordHash) return null;
+
+  if (!(await verifyPassword(password, report.sharePasswordHash))) return null;
+
+  return createShareAccessProof(token, report.sharePasswordHash);
+}
+
+/**
+ * 记录一次访问
+ */
+export async function recordShareView(reportId: string): Promise<void> {
+  await db.report.update({
+    where: { id: reportId },
+    data: { shareViewCount: { increment: 1 } },
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * 以 API Key 身份调用 tRPC 过程
+ * REST 端点复用 tRPC 路由的校验和业务逻辑，避免两套实现不一致
+ */
+
+import { db } from '@/lib/db';
+import { appRouter } from '@/server/api';
+import type { Context } from '@/server/trpc/context';
+
+export type ApiCaller = ReturnType<typeof appRouter.createCaller>;
+
+export interface ApiKeyIdentity {
+  userId: string;
+  apiKeyId: string;
+  scopes: string[];
+  ip: string | null;
+}
+
+/**
+ * 创建 tRPC 调用器（上下文与 API Key 认证的 tRPC 请求一致）
+ */
+export async function createApiCaller(identity: ApiKeyIdentity): Promise<ApiCaller> {
+  const user = await db.user.findUnique({
+    where: { id: identity.userId },
+    select: { role: true },
+  });
+
+  const ctx: Context = {
+    db,
+    userId: identity.userId,
+    userRole: user?.role ?? null,
+    session: null,
+    requestId: null,
+    csrfToken: null,
+    sessionToken: null,
+    ip: identity.ip,
+    authMethod: 'api_key',
+    apiKeyId: identity.apiKeyId,
+    apiKeyScopes: identity.scopes,
+  };
+
+  return appRouter.createCaller(ctx);
+}
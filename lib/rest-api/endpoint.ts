@@ -0,0 +1,98 @@
+/**
+ * REST API 端点定义
+ *
+ * 每个端点声明路径、权限范围和 zod 模式，同一份定义用于请求校验、响应整形和生成 OpenAPI 文档
+ */
+
+import type { z } from 'zod';
+import type { ApiKeyScope } from '@/lib/auth/user-api-key';
+import type { ApiCaller } from './caller';
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+/**
+ * REST API 错误（status 为 HTTP 状态码，code 为机器可读的错误码）
+ */
+export class RestApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RestApiError';
+  }
+}
+
+type AnyObject = z.ZodObject<z.ZodRawShape>;
+type Infer<S> = S extends z.ZodType ? z.output<S> : undefined;
+
+export interface EndpointContext<P, Q, B> {
+  userId: string;
+  /** 以当前 API Key 身份调用 tRPC 过程 */
+  caller: ApiCaller;
+  params: P;
+  query: Q;
+  body: B;
+}
+
+export interface Endpoint<
+  P extends AnyObject | undefined = AnyObject | undefined,
+  Q extends AnyObject | undefined = AnyObject | undefined,
+  B extends z.ZodType | undefined = z.ZodType | undefined,
+  R extends z.ZodType = z.ZodType,
+> {
+  method: HttpMethod;
+  /** 相对 /api/v1 的路径，参数写作 {name} */
+  path: string;
+  /** OpenAPI operationId */
+  operationId: string;
+  /** 分组 */
+  tag: string;
+  summary: string;
+  description?: string;
+  scope: ApiKeyScope;
+  params?: P;
+  query?: Q;
+  body?: B;
+  response: R;
+  /** 成功时的状态码，默认 200 */
+  status?: number;
+  handler: (ctx: EndpointContext<Infer<P>, Infer<Q>, Infer<B>>) => Promise<z.input<R>>;
+}
+
+/** 任意端点（用于端点列表） */
+export type AnyEndpoint = Endpoint<any, any, any, any>;
+
+/**
+ * 定义端点（仅用于推导类型）
+ */
+export function defineEndpoint<
+  P extends AnyObject | undefined = undefined,
+  Q extends AnyObject | undefined = undefined,
+  B extends z.ZodType | undefined = undefined,
+  R extends z.ZodType = z.ZodType,
+>(endpoint: Endpoint<P, Q, B, R>): Endpoint<P, Q, B, R> {
+  return endpoint;
+}
+
+/**
+ * 按路径模板匹配请求路径
+ * @returns 匹配时返回路径参数，否则返回 null
+ */
+export function matchPath(template: string, path: string): Record<string, string> | null {
+  const expected = template.split('/').filter(Boolean);
+  const actual = path.split('/').filter(Boolean);
+  if (expected.length !== actual.length) return null;
+
+  const params: Record<string, string> = {};
+  for (const [index, segment] of expected.entries()) {
+    const name = /^\{(\w+)\}$/.exec(segment)?.[1];
+    if (name) {
+      params[name] = actual[index];
+    } else if (segment !== actual[index]) {
+      return null;
+    }
+  }
+  return params;
+}
@@ -0,0 +1,90 @@
+/**
+ * 分类端点
+ */
+
+import { z } from 'zod';
+import { defineEndpoint } from '../endpoint';
+import { categorySchema, categoryWithStatsSchema, idParams, successResponse } from '../schemas';
+
+const categoryFields = {
+  description: z.string().optional(),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
+  icon: z.string().optional(),
+  parentId: z.uuid().optional(),
+  sortOrder: z.number().int().optional(),
+};
+
+/**
+ * 合并分类下订阅源的统计
+ */
+function withStats<T extends { feeds: { id: string }[]; unreadCount: number }>(category: T) {
+  return { ...category, feedIds: category.feeds.map((feed) => feed.id) };
+}
+
+export const listCategories = defineEndpoint({
+  method: 'GET',
+  path: '/categories',
+  operationId: 'listCategories',
+  tag: '分类',
+  summary: '列出分类',
+  scope: 'read',
+  response: z.object({ data: z.array(categoryWithStatsSchema) }),
+  handler: async ({ caller }) => {
+    const categories = await caller.categories.list();
+    return { data: categories.map(withStats) };
+  },
+});
+
+export const createCategory = defineEndpoint({
+  method: 'POST',
+  path: '/categories',
+  operationId: 'createCategory',
+  tag: '分类',
+  summary: '创建分类',
+  scope: 'write',
+  body: z.object({ name: z.string().min(1).max(100), ...categoryFields }),
+  response: categorySchema,
+  status: 201,
+  handler: ({ caller, body }) => caller.categories.add(body),
+});
+
+export const getCategory = defineEndpoint({
+  method: 'GET',
+  path: '/categories/{id}',
+  operationId: 'getCategory',
+  tag: '分类',
+  summary: '获取分类',
+  scope: 'read',
+  params: idParams,
+  response: categoryWithStatsSchema,
+  handler: async ({ caller, params }) => withStats(await caller.categories.byId(params)),
+});
+
+export const updateCategory = defineEndpoint({
+  method: 'PATCH',
+  path: '/categories/{id}',
+  operationId: 'updateCategory',
+  tag: '分类',
+  summary: '更新分类',
+  scope: 'write',
+  params: idParams,
+  body: z.object({ name: z.string().min(1).max(100).optional(), ...categoryFields }),
+  response: categorySchema,
+  handler: ({ caller, params, body }) => caller.categories.update({ ...body, id: params.id }),
+});
+
+export const deleteCategory = defineEndpoint({
+  method: 'DELETE',
+  path: '/categories/{id}',
+  operationId: 'deleteCategory',
+  tag: '分类',
+  summary: '删除分类',
+  description: '分类下的订阅源移出分类；有子分类时返回 409',
+  scope: 'write',
+  params: idParams,
+  response: successResponse,
+  handler: async ({ caller, params }) => {
+    await caller.categories.delete(params);
+    return { success: true };
+  },
+});
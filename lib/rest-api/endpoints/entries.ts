@@ -0,0 +1,152 @@
+/**
+ * 文章端点
+ */
+
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import {
+  entryStateFilter,
+  entryTagFilter,
+  entryVisibleTo,
+  getEntryState,
+  toUserEntry,
+  userEntryInclude,
+} from '@/lib/entries/state';
+import { defineEndpoint, RestApiError } from '../endpoint';
+import { cursorArgs, paginated, paginationQuery, toPage } from '../pagination';
+import { booleanQuery, entryDetailSchema, entrySchema, idParams, successResponse } from '../schemas';
+
+const dateTimeQuery = z.iso.datetime({ offset: true }).transform((value) => new Date(value));
+
+const stateActions = ['read', 'unread', 'star', 'unstar', 'archive', 'unarchive'] as const;
+
+/** REST 动作对应的 tRPC 批量操作 */
+const bulkActions = {
+  read: 'markRead',
+  unread: 'markUnread',
+  star: 'star',
+  unstar: 'unstar',
+  archive: 'archive',
+  unarchive: 'unarchive',
+} as const;
+
+export const listEntries = defineEndpoint({
+  method: 'GET',
+  path: '/entries',
+  operationId: 'listEntries',
+  tag: '文章',
+  summary: '列出文章',
+  description: '按入库时间倒序，新文章总在前面，适合增量同步',
+  scope: 'read',
+  query: z.object({
+    ...paginationQuery,
+    feedId: z.uuid().optional(),
+    categoryId: z.uuid().optional(),
+    tag: z.string().optional(),
+    isRead: booleanQuery.optional(),
+    isStarred: booleanQuery.optional(),
+    isArchived: booleanQuery.optional(),
+    publishedAfter: dateTimeQuery.optional().describe('ISO 8601 时间'),
+    publishedBefore: dateTimeQuery.optional().describe('ISO 8601 时间'),
+  }),
+  response: paginated(entrySchema),
+  handler: async ({ userId, query }) => {
+    const where: Prisma.EntryWhereInput = {
+      ...entryVisibleTo(userId, query.categoryId),
+      AND: [
+        ...entryStateFilter(userId, {
+          isRead: query.isRead,
+          isStarred: query.isStarred,
+          isArchived: query.isArchived,
+        }),
+        ...(query.tag ? [entryTagFilter(userId, query.tag)] : []),
+      ],
+      ...(query.feedId && { feedId: query.feedId }),
+      ...((query.publishedAfter || query.publishedBefore) && {
+        publishedAt: { gte: query.publishedAfter, lte: query.publishedBefore },
+      }),
+    };
+
+    const entries = await db.entry.findMany({
+      where,
+      include: userEntryInclude(userId),
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    const page = toPage(entries, query.limit);
+    return { data: page.data.map(toUserEntry), nextCursor: page.nextCursor };
+  },
+});
+
+export const getEntry = defineEndpoint({
+  method: 'GET',
+  path: '/entries/{id}',
+  operationId: 'getEntry',
+  tag: '文章',
+  summary: '获取文章',
+  description: '包含正文和 AI 分析结果，并记入阅读历史',
+  scope: 'read',
+  params: idParams,
+  response: entryDetailSchema,
+  handler: ({ caller, params }) => caller.entries.byId(params),
+});
+
+export const updateEntry = defineEndpoint({
+  method: 'PATCH',
+  path: '/entries/{id}',
+  operationId: 'updateEntry',
+  tag: '文章',
+  summary: '更新文章状态',
+  scope: 'write',
+  params: idParams,
+  body: z.object({
+    isRead: z.boolean().optional(),
+    isStarred: z.boolean().optional(),
+    isArchived: z.boolean().optional(),
+  }),
+  response: z.object({
+    id: z.uuid(),
+    isRead: z.boolean(),
+    isStarred: z.boolean(),
+    isArchived: z.boolean(),
+    readAt: z.date().nullable(),
+  }),
+  handler: async ({ userId, caller, params, body }) => {
+    const visible = await db.entry.count({ where: { id: params.id, ...entryVisibleTo(userId) } });
+    if (!visible) {
+      throw new RestApiError(404, 'NOT_FOUND', '文章不存在');
+    }
+
+    const entryIds = [params.id];
+    if (body.isRead !== undefined) {
+      await caller.entries.bulkAction({ entryIds, action: body.isRead ? 'markRead' : 'markUnread' });
+    }
+    if (body.isStarred !== undefined) {
+      await caller.entries.bulkAction({ entryIds, action: body.isStarred ? 'star' : 'unstar' });
+    }
+    if (body.isArchived !== undefined) {
+      await caller.entries.bulkAction({ entryIds, action: body.isArchived ? 'archive' : 'unarchive' });
+    }
+
+    return { id: params.id, ...(await getEntryState(userId, params.id)) };
+  },
+});
+
+export const markEntries = defineEndpoint({
+  method: 'POST',
+  path: '/entries/mark',
+  operationId: 'markEntries',
+  tag: '文章',
+  summary: '批量标记文章',
+  description: '不可见的文章 ID 会被忽略',
+  scope: 'write',
+  body: z.object({
+    entryIds: z.array(z.uuid()).min(1).max(1000),
+    action: z.enum(stateActions),
+  }),
+  response: successResponse,
+  handler: ({ caller, body }) =>
+    caller.entries.bulkAction({ entryIds: body.entryIds, action: bulkActions[body.action] }),
+});
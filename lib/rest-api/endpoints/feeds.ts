@@ -0,0 +1,121 @@
+/**
+ * 订阅源端点
+ */
+
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { toUserFeed } from '@/lib/rss/subscriptions';
+import { defineEndpoint } from '../endpoint';
+import { cursorArgs, paginated, paginationQuery, toPage } from '../pagination';
+import { booleanQuery, feedSchema, idParams, successResponse } from '../schemas';
+
+const feedSettings = {
+  title: z.string().min(1).optional(),
+  categoryId: z.uuid().optional(),
+  tags: z.array(z.string()).optional(),
+  fetchInterval: z.number().int().min(60).max(86400).optional().describe('抓取间隔（秒）'),
+  fetchTimeRange: z.number().int().min(1).max(365).nullable().optional().describe('抓取时间范围（天）'),
+  priority: z.number().int().min(1).max(10).optional(),
+};
+
+export const listFeeds = defineEndpoint({
+  method: 'GET',
+  path: '/feeds',
+  operationId: 'listFeeds',
+  tag: '订阅源',
+  summary: '列出订阅源',
+  description: '按订阅时间排序',
+  scope: 'read',
+  query: z.object({
+    ...paginationQuery,
+    categoryId: z.uuid().optional(),
+    tag: z.string().optional(),
+    isActive: booleanQuery.optional(),
+  }),
+  response: paginated(feedSchema),
+  handler: async ({ userId, query }) => {
+    const subscriptions = await db.subscription.findMany({
+      where: {
+        userId,
+        ...(query.categoryId && { categoryId: query.categoryId }),
+        ...(query.tag && { tags: { has: query.tag } }),
+        ...(query.isActive !== undefined && { isActive: query.isActive }),
+      },
+      include: { feed: true },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      ...cursorArgs(query),
+    });
+
+    const page = toPage(subscriptions, query.limit);
+    return {
+      data: page.data.map(({ feed, ...subscription }) => toUserFeed(feed, subscription)),
+      nextCursor: page.nextCursor,
+    };
+  },
+});
+
+export const createFeed = defineEndpoint({
+  method: 'POST',
+  path: '/feeds',
+  operationId: 'createFeed',
+  tag: '订阅源',
+  summary: '添加订阅源',
+  description: '订阅源已被其他用户订阅时直接复用，否则创建后立即抓取',
+  scope: 'write',
+  body: z.object({ url: z.url(), ...feedSettings }),
+  response: feedSchema,
+  status: 201,
+  handler: ({ caller, body }) => caller.feeds.add(body),
+});
+
+export const getFeed = defineEndpoint({
+  method: 'GET',
+  path: '/feeds/{id}',
+  operationId: 'getFeed',
+  tag: '订阅源',
+  summary: '获取订阅源',
+  scope: 'read',
+  params: idParams,
+  response: feedSchema,
+  handler: ({ caller, params }) => caller.feeds.byId(params),
+});
+
+export const updateFeed = defineEndpoint({
+  method: 'PATCH',
+  path: '/feeds/{id}',
+  operationId: 'updateFeed',
+  tag: '订阅源',
+  summary: '更新订阅源',
+  description: '修改 url 相当于改订另一个订阅源，返回的 id 会变化',
+  scope: 'write',
+  params: idParams,
+  body: z.object({ url: z.url().optional(), isActive: z.boolean().optional(), ...feedSettings }),
+  response: feedSchema,
+  handler: ({ caller, params, body }) => caller.feeds.update({ ...body, id: params.id }),
+});
+
+export const deleteFeed = defineEndpoint({
+  method: 'DELETE',
+  path: '/feeds/{id}',
+  operationId: 'deleteFeed',
+  tag: '订阅源',
+  summary: '取消订阅',
+  scope: 'write',
+  params: idParams,
+  response: successResponse,
+  handler: ({ caller, params }) => caller.feeds.delete(params),
+});
+
+export const refreshFeed = defineEndpoint({
+  method: 'POST',
+  path: '/feeds/{id}/refresh',
+  operationId: 'refreshFeed',
+  tag: '订阅源',
+  summary: '立即抓取订阅源',
+  description: '异步执行，返回时抓取可能尚未完成',
+  scope: 'write',
+  params: idParams,
+  response: successResponse,
+  status: 202,
+  handler: ({ caller, params }) => caller.feeds.refresh(params),
+});
@@ -0,0 +1,39 @@
+/**
+ * REST API v1 端点列表
+ */
+
+import type { AnyEndpoint } from '../endpoint';
+import { createFeed, deleteFeed, getFeed, listFeeds, refreshFeed, updateFeed } from './feeds';
+import { createCategory, deleteCategory, getCategory, listCategories, updateCategory } from './categories';
+import { getEntry, listEntries, markEntries, updateEntry } from './entries';
+import { searchEntries } from './search';
+import { createRule, deleteRule, getRule, listRules, updateRule } from './rules';
+import { createReport, deleteReport, getReport, listReports } from './reports';
+
+export const endpoints: AnyEndpoint[] = [
+  listFeeds,
+  createFeed,
+  getFeed,
+  updateFeed,
+  deleteFeed,
+  refreshFeed,
+  listCategories,
+  createCategory,
+  getCategory,
+  updateCategory,
+  deleteCategory,
+  listEntries,
+  markEntries,
+  getEntry,
+  updateEntry,
+  searchEntries,
+  listRules,
+  createRule,
+  getRule,
+  updateRule,
+  deleteRule,
+  listReports,
+  createReport,
+  getReport,
+  deleteReport,
+];
@@ -0,0 +1,87 @@
+/**
+ * 报告端点
+ */
+
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { defineEndpoint, RestApiError } from '../endpoint';
+import { cursorArgs, paginated, paginationQuery, toPage } from '../pagination';
+import { idParams, reportDetailSchema, reportSchema, successResponse } from '../schemas';
+
+const reportType = z.enum(['daily', 'weekly']);
+
+export const listReports = defineEndpoint({
+  method: 'GET',
+  path: '/reports',
+  operationId: 'listReports',
+  tag: '报告',
+  summary: '列出报告',
+  description: '按报告日期倒序',
+  scope: 'read',
+  query: z.object({ ...paginationQuery, type: reportType.optional() }),
+  response: paginated(reportSchema),
+  handler: async ({ userId, query }) => {
+    const reports = await db.report.findMany({
+      where: { userId, ...(query.type && { reportType: query.type }) },
+      omit: { sharePasswordHash: true },
+      orderBy: [{ reportDate: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    return toPage(reports, query.limit);
+  },
+});
+
+export const getReport = defineEndpoint({
+  method: 'GET',
+  path: '/reports/{id}',
+  operationId: 'getReport',
+  tag: '报告',
+  summary: '获取报告',
+  description: '包含正文和引用的文章',
+  scope: 'read',
+  params: idParams,
+  response: reportDetailSchema,
+  handler: ({ caller, params }) => caller.reports.byId(params),
+});
+
+export const createReport = defineEndpoint({
+  method: 'POST',
+  path: '/reports',
+  operationId: 'createReport',
+  tag: '报告',
+  summary: '生成报告',
+  description: '异步生成，返回 status 为 pending 的报告，可轮询获取报告查看进度',
+  scope: 'write',
+  body: z.object({
+    type: reportType,
+    date: z.iso.date().optional().describe('报告日期（YYYY-MM-DD），默认今天'),
+    aiGenerated: z.boolean().default(true),
+  }),
+  response: reportSchema,
+  status: 202,
+  handler: async ({ caller, body }) => {
+    const input = { reportDate: body.date ? new Date(body.date) : new Date(), aiGenerated: body.aiGenerated };
+    const report =
+      body.type === 'daily'
+        ? await caller.reports.startGenerateDaily(input)
+        : await caller.reports.startGenerateWeekly(input);
+
+    if (!report) {
+      throw new RestApiError(500, 'INTERNAL_ERROR', '启动生成失败');
+    }
+    return report;
+  },
+});
+
+export const deleteReport = defineEndpoint({
+  method: 'DELETE',
+  path: '/reports/{id}',
+  operationId: 'deleteReport',
+  tag: '报告',
+  summary: '删除报告',
+  scope: 'write',
+  params: idParams,
+  response: successResponse,
+  handler: ({ caller, params }) => caller.reports.delete(params),
+});
@@ -0,0 +1,101 @@
+/**
+ * 订阅规则端点
+ */
+
+import { z } from 'zod';
+import type { SubscriptionRule } from '@prisma/client';
+import { actionSchema, conditionNodeSchema } from '@/server/api/rules';
+import { defineEndpoint } from '../endpoint';
+import { idParams, ruleSchema, successResponse } from '../schemas';
+
+const ruleFields = {
+  stopProcessing: z.boolean().optional().describe('匹配后不再执行后续规则'),
+  rateLimitPerHour: z.number().int().min(1).max(10000).nullable().optional().describe('外发动作每小时上限'),
+};
+
+type RuleOutput = z.input<typeof ruleSchema>;
+
+/**
+ * 条件和动作以 JSON 存储，写入时已校验
+ */
+function toRule(rule: SubscriptionRule): RuleOutput {
+  return {
+    ...rule,
+    conditions: rule.conditions as RuleOutput['conditions'],
+    actions: rule.actions as RuleOutput['actions'],
+  };
+}
+
+export const listRules = defineEndpoint({
+  method: 'GET',
+  path: '/rules',
+  operationId: 'listRules',
+  tag: '规则',
+  summary: '列出规则',
+  description: '按执行顺序返回',
+  scope: 'read',
+  response: z.object({ data: z.array(ruleSchema) }),
+  handler: async ({ caller }) => ({ data: (await caller.rules.list()).map(toRule) }),
+});
+
+export const createRule = defineEndpoint({
+  method: 'POST',
+  path: '/rules',
+  operationId: 'createRule',
+  tag: '规则',
+  summary: '创建规则',
+  description: '新规则排在最后执行',
+  scope: 'write',
+  body: z.object({
+    name: z.string().min(1).max(100),
+    conditions: z.array(conditionNodeSchema).min(1),
+    actions: z.array(actionSchema).min(1),
+    ...ruleFields,
+  }),
+  response: ruleSchema,
+  status: 201,
+  handler: async ({ caller, body }) => toRule(await caller.rules.add(body)),
+});
+
+export const getRule = defineEndpoint({
+  method: 'GET',
+  path: '/rules/{id}',
+  operationId: 'getRule',
+  tag: '规则',
+  summary: '获取规则',
+  scope: 'read',
+  params: idParams,
+  response: ruleSchema,
+  handler: async ({ caller, params }) => toRule(await caller.rules.byId(params)),
+});
+
+export const updateRule = defineEndpoint({
+  method: 'PATCH',
+  path: '/rules/{id}',
+  operationId: 'updateRule',
+  tag: '规则',
+  summary: '更新规则',
+  scope: 'write',
+  params: idParams,
+  body: z.object({
+    name: z.string().min(1).max(100).optional(),
+    conditions: z.array(conditionNodeSchema).min(1).optional(),
+    actions: z.array(actionSchema).min(1).optional(),
+    isEnabled: z.boolean().optional(),
+    ...ruleFields,
+  }),
+  response: ruleSchema,
+  handler: async ({ caller, params, body }) => toRule(await caller.rules.update({ ...body, id: params.id })),
+});
+
+export const deleteRule = defineEndpoint({
+  method: 'DELETE',
+  path: '/rules/{id}',
+  operationId: 'deleteRule',
+  tag: '规则',
+  summary: '删除规则',
+  scope: 'write',
+  params: idParams,
+  response: successResponse,
+  handler: ({ caller, params }) => caller.rules.delete(params),
+});
@@ -0,0 +1,48 @@
+/**
+ * 搜索端点
+ */
+
+import { z } from 'zod';
+import { defineEndpoint } from '../endpoint';
+import { booleanQuery, searchResultSchema } from '../schemas';
+
+export const searchEntries = defineEndpoint({
+  method: 'GET',
+  path: '/search',
+  operationId: 'searchEntries',
+  tag: '搜索',
+  summary: '搜索文章',
+  description: '结果按相关度排序，因此使用 offset 分页',
+  scope: 'read',
+  query: z.object({
+    q: z.string().min(1).describe('关键词'),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    offset: z.coerce.number().int().min(0).default(0),
+    semantic: booleanQuery.optional().describe('是否启用语义搜索'),
+    feedId: z.uuid().optional(),
+    categoryId: z.uuid().optional(),
+    isRead: booleanQuery.optional(),
+    isStarred: booleanQuery.optional(),
+  }),
+  response: z.object({
+    data: z.array(searchResultSchema),
+    total: z.number().int().describe('结果数；语义搜索只在相关度最高的候选范围内分页，为该范围内的结果数'),
+    hasMore: z.boolean(),
+  }),
+  handler: async ({ caller, query }) => {
+    const { results, pagination } = await caller.search.search({
+      query: query.q,
+      limit: query.limit,
+      offset: query.offset,
+      semanticSearch: query.semantic ?? false,
+      filters: {
+        feedIds: query.feedId ? [query.feedId] : undefined,
+        categoryIds: query.categoryId ? [query.categoryId] : undefined,
+        isRead: query.isRead,
+        isStarred: query.isStarred,
+      },
+    });
+
+    return { data: results, total: pagination.total, hasMore: pagination.hasMore };
+  },
+});
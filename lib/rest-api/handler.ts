@@ -0,0 +1,164 @@
+/**
+ * REST API 请求处理
+ *
+ * 流程：匹配端点 → 校验 API Key 与权限范围 → 按 API Key 限流 → 校验参数 → 执行 → 按响应模式整形
+ * 错误统一返回 { error: { code, message, issues? } }
+ */
+
+import { NextResponse } from 'next/server';
+import { TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import { Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
+import { error, warn } from '@/lib/logger';
+import { extractApiKeyFromHeader, validateUserApiKey } from '@/lib/auth/user-api-key';
+import { apiKeyRateLimiter, type RateLimitResult } from '@/lib/security/redis-rate-limit';
+import { createApiCaller } from './caller';
+import { matchPath, RestApiError, type AnyEndpoint } from './endpoint';
+import { endpoints } from './endpoints';
+
+function errorResponse(
+  status: number,
+  code: string,
+  message: string,
+  init: { issues?: { path: string; message: string }[]; headers?: HeadersInit } = {}
+) {
+  return NextResponse.json(
+    { error: { code, message, ...(init.issues && { issues: init.issues }) } },
+    { status, headers: init.headers }
+  );
+}
+
+function zodIssues(err: ZodError) {
+  return err.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(apiKeyRateLimiter.getConfig().maxRequests),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt.getTime() / 1000)),
+  };
+}
+
+/**
+ * 查找端点
+ * @returns 路径存在但方法不匹配时返回 'method_not_allowed'
+ */
+function findEndpoint(method: string, path: string) {
+  let pathMatched = false;
+  for (const endpoint of endpoints) {
+    const params = matchPath(endpoint.path, path);
+    if (!params) continue;
+    pathMatched = true;
+    if (endpoint.method === method) return { endpoint, params };
+  }
+  return pathMatched ? 'method_not_allowed' : null;
+}
+
+async function readBody(request: Request): Promise<unknown> {
+  const text = await request.text();
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new RestApiError(400, 'INVALID_JSON', '请求体不是有效的 JSON');
+  }
+}
+
+/**
+ * 将端点执行中的错误转换为响应
+ */
+async function toErrorResponse(err: unknown, endpoint: AnyEndpoint, headers: HeadersInit) {
+  if (err instanceof RestApiError) {
+    return errorResponse(err.status, err.code, err.message, { headers });
+  }
+  if (err instanceof ZodError) {
+    return errorResponse(400, 'VALIDATION_ERROR', '请求参数无效', { issues: zodIssues(err), headers });
+  }
+  if (err instanceof TRPCError) {
+    const status = getHTTPStatusCodeFromError(err);
+    if (err.cause instanceof ZodError) {
+      return errorResponse(status, 'VALIDATION_ERROR', '请求参数无效', { issues: zodIssues(err.cause), headers });
+    }
+    if (status < 500) {
+      return errorResponse(status, err.code, err.message, { headers });
+    }
+  }
+  if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2025') {
+    return errorResponse(404, 'NOT_FOUND', '资源不存在', { headers });
+  }
+
+  await error('api', 'REST API 请求失败', err instanceof Error ? err : undefined, {
+    operationId: endpoint.operationId,
+  });
+  return errorResponse(500, 'INTERNAL_ERROR', '服务器内部错误', { headers });
+}
+
+/**
+ * 处理 /api/v1 请求
+ * @param path 相对 /api/v1 的路径
+ */
+export async function handleRestRequest(request: Request, path: string): Promise<Response> {
+  const match = findEndpoint(request.method, path);
+  if (!match) {
+    return errorResponse(404, 'NOT_FOUND', '接口不存在');
+  }
+  if (match === 'method_not_allowed') {
+    return errorResponse(405, 'METHOD_NOT_ALLOWED', `不支持 ${request.method} 方法`);
+  }
+  const { endpoint } = match;
+
+  // 认证与权限
+  const apiKey = extractApiKeyFromHeader(request.headers.get('authorization'));
+  if (!apiKey) {
+    return errorResponse(401, 'UNAUTHORIZED', '需要 API Key（Authorization: Bearer rss_xxx）');
+  }
+  const auth = await validateUserApiKey(apiKey, [endpoint.scope]);
+  if (!auth.valid || !auth.userId || !auth.apiKeyId) {
+    if (auth.error === '权限不足') {
+      return errorResponse(403, 'FORBIDDEN', `API Key 缺少 ${endpoint.scope} 权限`);
+    }
+    return errorResponse(401, 'UNAUTHORIZED', auth.error || 'API Key 无效');
+  }
+
+  // 按 API Key 限流
+  const rateLimit = await apiKeyRateLimiter.check(auth.apiKeyId);
+  const headers = rateLimitHeaders(rateLimit);
+  if (!rateLimit.allowed) {
+    await warn('security', 'REST API 速率限制触发', { apiKeyId: auth.apiKeyId, userId: auth.userId });
+    return errorResponse(429, 'RATE_LIMITED', `请求过于频繁，请在 ${rateLimit.retryAfter} 秒后重试`, {
+      headers: { ...headers, 'Retry-After': String(rateLimit.retryAfter ?? 60) },
+    });
+  }
+
+  let result: unknown;
+  try {
+    const url = new URL(request.url);
+    const params = endpoint.params ? endpoint.params.parse(match.params) : undefined;
+    const query = endpoint.query ? endpoint.query.parse(Object.fromEntries(url.searchParams)) : undefined;
+    const body = endpoint.body ? endpoint.body.parse(await readBody(request)) : undefined;
+
+    const caller = await createApiCaller({
+      userId: auth.userId,
+      apiKeyId: auth.apiKeyId,
+      scopes: auth.scopes ?? [],
+      ip: request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || request.headers.get('x-real-ip'),
+    });
+
+    result = await endpoint.handler({ userId: auth.userId, caller, params, query, body });
+  } catch (err) {
+    return toErrorResponse(err, endpoint, headers);
+  }
+
+  const output = endpoint.response.safeParse(result);
+  if (!output.success) {
+    await error('api', 'REST API 响应不符合模式', undefined, {
+      operationId: endpoint.operationId,
+      issues: zodIssues(output.error),
+    });
+    return errorResponse(500, 'INTERNAL_ERROR', '服务器内部错误', { headers });
+  }
+
+  return NextResponse.json(output.data, { status: endpoint.status ?? 200, headers });
+}
@@ -0,0 +1,8 @@
+/**
+ * REST API v1
+ */
+
+export { handleRestRequest } from './handler';
+export { buildOpenApiDocument } from './openapi';
+export { RestApiError } from './endpoint';
+export type { Endpoint, HttpMethod } from './endpoint';
@@ -0,0 +1,145 @@
+/**
+ * 由端点定义生成 OpenAPI 3.1 文档
+ */
+
+import { z } from 'zod';
+import type { AnyEndpoint } from './endpoint';
+import { endpoints } from './endpoints';
+import { namedSchemas } from './schemas';
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+type JsonSchema = Record<string, unknown>;
+
+/** 通用错误响应 */
+const ERROR_RESPONSES: Record<string, string> = {
+  '400': '请求参数无效',
+  '401': '缺少或无效的 API Key',
+  '403': 'API Key 权限不足',
+  '404': '资源不存在',
+  '429': '超过速率限制',
+};
+
+const jsonSchemaOptions = {
+  io: 'input',
+  unrepresentable: 'any',
+  // 日期在 JSON 中为 ISO 8601 字符串
+  override: (ctx: { zodSchema: z.core.$ZodTypes; jsonSchema: JsonSchema }) => {
+    if (ctx.zodSchema._zod.def.type === 'date') {
+      ctx.jsonSchema.type = 'string';
+      ctx.jsonSchema.format = 'date-time';
+    }
+  },
+} as const;
+
+function pascalCase(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * 路径参数和查询参数
+ */
+function parameters(endpoint: AnyEndpoint) {
+  const list: JsonSchema[] = [];
+
+  for (const [location, schema] of [['path', endpoint.params], ['query', endpoint.query]] as const) {
+    if (!schema) continue;
+    for (const [name, field] of Object.entries(schema.shape as Record<string, z.ZodType>)) {
+      const { $schema: _, description, ...fieldSchema } = z.toJSONSchema(field, jsonSchemaOptions);
+      list.push({
+        name,
+        in: location,
+        required: location === 'path' || !field.safeParse(undefined).success,
+        ...(description !== undefined && { description }),
+        schema: fieldSchema,
+      });
+    }
+  }
+
+  return list;
+}
+
+/**
+ * 生成 OpenAPI 文档
+ * @param serverUrl API 根地址（如 https://example.com/api/v1）
+ */
+export function buildOpenApiDocument(serverUrl: string) {
+  const registry = z.registry<{ id: string }>();
+  for (const [id, schema] of Object.entries(namedSchemas)) {
+    registry.add(schema, { id });
+  }
+
+  // 未命名的请求体和响应按 operationId 命名
+  const ref = (schema: z.ZodType, fallbackId: string) => {
+    if (!registry.has(schema)) {
+      registry.add(schema, { id: fallbackId });
+    }
+    return { $ref: `${SCHEMA_REF_PREFIX}${registry.get(schema)!.id}` };
+  };
+  const errorRef = ref(namedSchemas.Error, 'Error');
+
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const endpoint of endpoints) {
+    const name = pascalCase(endpoint.operationId);
+    const status = String(endpoint.status ?? 200);
+
+    paths[endpoint.path] ??= {};
+    paths[endpoint.path][endpoint.method.toLowerCase()] = {
+      operationId: endpoint.operationId,
+      tags: [endpoint.tag],
+      summary: endpoint.summary,
+      ...(endpoint.description && { description: endpoint.description }),
+      'x-required-scope': endpoint.scope,
+      parameters: parameters(endpoint),
+      ...(endpoint.body && {
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: ref(endpoint.body, `${name}Request`) } },
+        },
+      }),
+      responses: {
+        [status]: {
+          description: '成功',
+          content: { 'application/json': { schema: ref(endpoint.response, `${name}Response`) } },
+        },
+        ...Object.fromEntries(
+          Object.entries(ERROR_RESPONSES).map(([code, description]) => [
+            code,
+            { description, content: { 'application/json': { schema: errorRef } } },
+          ])
+        ),
+      },
+    };
+  }
+
+  const { schemas } = z.toJSONSchema(registry, {
+    ...jsonSchemaOptions,
+    uri: (id) => `${SCHEMA_REF_PREFIX}${id}`,
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'RSS-Post API',
+      version: '1.0.0',
+      description:
+        '以 API Key 认证的 REST API。请求头携带 Authorization: Bearer rss_xxx；' +
+        '读取需要 read 权限，修改需要 write 权限。每个 API Key 有独立的速率限制，' +
+        '当前额度见响应头 X-RateLimit-Limit / X-RateLimit-Remaining / X-RateLimit-Reset。' +
+        '列表接口使用游标分页：将响应中的 nextCursor 作为下一次请求的 cursor 参数。',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKey: [] }],
+    tags: [...new Set(endpoints.map((e) => e.tag))].map((tag) => ({ name: tag })),
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'http', scheme: 'bearer', description: '在设置 → API 中创建的 API Key（rss_ 开头）' },
+      },
+      schemas: Object.fromEntries(
+        Object.entries(schemas).map(([id, { $schema: _schema, $id: _id, ...schema }]) => [id, schema])
+      ),
+    },
+  };
+}
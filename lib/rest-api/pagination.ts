@@ -0,0 +1,71 @@
+/**
+ * 游标分页
+ * 游标为最后一条记录 ID 的 base64url 编码，对客户端不透明；下一页从游标之后开始
+ */
+
+import { z } from 'zod';
+import { RestApiError } from './endpoint';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * 列表端点的分页查询参数
+ */
+export const paginationQuery = {
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .default(DEFAULT_PAGE_SIZE)
+    .describe(`每页数量，最大 ${MAX_PAGE_SIZE}`),
+  cursor: z.string().optional().describe('上一页返回的 nextCursor'),
+};
+
+/**
+ * 分页列表响应
+ */
+export function paginated<T extends z.ZodType>(item: T) {
+  return z.object({
+    data: z.array(item),
+    nextCursor: z.string().nullable().describe('下一页游标，没有更多数据时为 null'),
+  });
+}
+
+export function encodeCursor(id: string): string {
+  return Buffer.from(id, 'utf8').toString('base64url');
+}
+
+/**
+ * 解析游标
+ * @throws RestApiError 游标无效
+ */
+export function decodeCursor(cursor: string): string {
+  const id = Buffer.from(cursor, 'base64url').toString('utf8');
+  if (!z.uuid().safeParse(id).success) {
+    throw new RestApiError(400, 'INVALID_CURSOR', '无效的分页游标');
+  }
+  return id;
+}
+
+/**
+ * Prisma 查询的游标参数：多取一条用于判断是否还有下一页
+ */
+export function cursorArgs(query: { limit: number; cursor?: string }) {
+  return {
+    take: query.limit + 1,
+    ...(query.cursor && { cursor: { id: decodeCursor(query.cursor) }, skip: 1 }),
+  };
+}
+
+/**
+ * 截取一页并生成下一页游标
+ */
+export function toPage<T extends { id: string }>(rows: T[], limit: number): { data: T[]; nextCursor: string | null } {
+  if (rows.length <= limit) {
+    return { data: rows, nextCursor: null };
+  }
+  const data = rows.slice(0, limit);
+  return { data, nextCursor: encodeCursor(data[data.length - 1].id) };
+}
@@ -0,0 +1,179 @@
+/**
+ * REST API 公共模式
+ * 响应按这些模式整形（多余字段被移除），同时作为 OpenAPI 文档中的命名模式
+ */
+
+import { z } from 'zod';
+import { actionSchema, conditionNodeSchema } from '@/server/api/rules';
+
+/** 查询参数中的布尔值（true / false） */
+export const booleanQuery = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+export const idParams = z.object({ id: z.uuid() });
+
+export const successResponse = z.object({ success: z.boolean() });
+
+export const errorResponse = z.object({
+  error: z.object({
+    code: z.string().describe('错误码，如 UNAUTHORIZED、FORBIDDEN、NOT_FOUND、VALIDATION_ERROR、RATE_LIMITED'),
+    message: z.string(),
+    issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+  }),
+});
+
+export const categorySchema = z.object({
+  id: z.uuid(),
+  name: z.string(),
+  description: z.string().nullable(),
+  color: z.string().nullable(),
+  icon: z.string().nullable(),
+  parentId: z.uuid().nullable(),
+  sortOrder: z.number().int(),
+  createdAt: z.date(),
+});
+
+export const categoryWithStatsSchema = categorySchema.extend({
+  unreadCount: z.number().int(),
+  feedIds: z.array(z.uuid()),
+});
+
+export const feedSchema = z.object({
+  id: z.uuid(),
+  title: z.string().describe('订阅标题（用户可自定义）'),
+  description: z.string().nullable(),
+  feedUrl: z.string(),
+  siteUrl: z.string().nullable(),
+  iconUrl: z.string().nullable(),
+  categoryId: z.uuid().nullable(),
+  tags: z.array(z.string()),
+  isActive: z.boolean(),
+  priority: z.number().int(),
+  unreadCount: z.number().int(),
+  fetchInterval: z.number().int().describe('抓取间隔（秒）'),
+  fetchTimeRange: z.number().int().nullable().describe('抓取时间范围（天），null 表示不限制'),
+  lastFetchedAt: z.date().nullable(),
+  lastSuccessAt: z.date().nullable(),
+  errorCount: z.number().int(),
+  lastError: z.string().nullable(),
+  totalEntries: z.number().int(),
+  createdAt: z.date(),
+});
+
+export const entrySchema = z.object({
+  id: z.uuid(),
+  feedId: z.uuid(),
+  title: z.string(),
+  url: z.string(),
+  summary: z.string().nullable(),
+  author: z.string().nullable(),
+  publishedAt: z.date().nullable(),
+  createdAt: z.date().describe('入库时间，列表按此倒序'),
+  tags: z.array(z.string()),
+  aiSummary: z.string().nullable(),
+  aiCategory: z.string().nullable(),
+  aiImportanceScore: z.number(),
+  readingTime: z.number().int().nullable(),
+  isRead: z.boolean(),
+  isStarred: z.boolean(),
+  isArchived: z.boolean(),
+  readAt: z.date().nullable(),
+  feed: z.object({
+    id: z.uuid(),
+    title: z.string(),
+    siteUrl: z.string().nullable(),
+    categoryId: z.uuid().nullable(),
+  }),
+});
+
+export const entryDetailSchema = entrySchema.extend({
+  content: z.string().nullable(),
+  aiOneLineSummary: z.string().nullable(),
+  aiKeywords: z.array(z.string()),
+  aiSentiment: z.string().nullable(),
+  wordCount: z.number().int().nullable(),
+});
+
+export const searchResultSchema = z.object({
+  entryId: z.uuid(),
+  title: z.string(),
+  url: z.string(),
+  summary: z.string().nullable(),
+  feedId: z.uuid(),
+  feedTitle: z.string(),
+  publishedAt: z.date().nullable(),
+  isRead: z.boolean(),
+  isStarred: z.boolean(),
+  aiCategory: z.string().nullable(),
+  aiImportanceScore: z.number(),
+  relevanceScore: z.number(),
+  similarity: z.number().optional().describe('向量余弦相似度（仅语义搜索）'),
+  highlights: z.object({ title: z.array(z.string()), content: z.array(z.string()) }).optional(),
+});
+
+export const ruleSchema = z.object({
+  id: z.uuid(),
+  name: z.string(),
+  isEnabled: z.boolean(),
+  conditions: z.array(conditionNodeSchema),
+  actions: z.array(actionSchema),
+  sortOrder: z.number().int(),
+  stopProcessing: z.boolean(),
+  rateLimitPerHour: z.number().int().nullable(),
+  matchedCount: z.number().int(),
+  lastMatchedAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const reportSchema = z.object({
+  id: z.uuid(),
+  reportType: z.string().describe('daily / weekly'),
+  reportDate: z.date(),
+  status: z.string().describe('pending / generating / completed / failed'),
+  progress: z.number().int(),
+  title: z.string(),
+  summary: z.string().nullable(),
+  highlights: z.array(z.string()),
+  totalEntries: z.number().int(),
+  totalFeeds: z.number().int(),
+  aiGenerated: z.boolean(),
+  createdAt: z.date(),
+});
+
+export const reportDetailSchema = reportSchema.extend({
+  format: z.string(),
+  content: z.string().nullable(),
+  topics: z.unknown(),
+  entries: z.array(
+    z.object({
+      section: z.string(),
+      rank: z.number().int(),
+      notes: z.string().nullable(),
+      entry: z.object({
+        id: z.uuid(),
+        title: z.string(),
+        url: z.string(),
+        feed: z.object({ id: z.uuid(), title: z.string() }),
+      }),
+    })
+  ),
+});
+
+/**
+ * OpenAPI 文档中的命名模式
+ */
+export const namedSchemas: Record<string, z.ZodType> = {
+  Error: errorResponse,
+  Success: successResponse,
+  Category: categorySchema,
+  CategoryWithStats: categoryWithStatsSchema,
+  Feed: feedSchema,
+  Entry: entrySchema,
+  EntryDetail: entryDetailSchema,
+  SearchResult: searchResultSchema,
+  RuleCondition: conditionNodeSchema,
+  RuleAction: actionSchema,
+  Rule: ruleSchema,
+  Report: reportSchema,
+  ReportDetail: reportDetailSchema,
+};
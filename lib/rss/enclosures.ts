@@ -0,0 +1,90 @@
+/**
+ * 媒体附件（enclosure）
+ * 解析 iTunes 播客元数据
+ */
+
+export type MediaKind = 'audio' | 'video' | 'image' | 'other';
+
+export type ParsedEnclosure = {
+  url: string;
+  type?: string;
+  length?: number;
+  // iTunes 播客元数据
+  /** 时长（秒） */
+  duration?: number;
+  episode?: number;
+  season?: number;
+  /** full / trailer / bonus */
+  episodeType?: string;
+  explicit?: boolean;
+  image?: string;
+  /** Podcasting 2.0 章节文件（podcast:chapters） */
+  chaptersUrl?: string;
+};
+
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'aac', 'ogg', 'oga', 'opus', 'wav', 'flac'];
+const VIDEO_EXTENSIONS = ['mp4', 'm4v', 'mov', 'webm', 'mkv'];
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'avif'];
+
+/**
+ * 根据 MIME 类型或扩展名判断媒体类型
+ */
+export function detectMediaKind(mimeType?: string | null, url?: string): MediaKind {
+  const type = mimeType?.toLowerCase() || '';
+  if (type.startsWith('audio/')) return 'audio';
+  if (type.startsWith('video/')) return 'video';
+  if (type.startsWith('image/')) return 'image';
+
+  const extension = url?.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+  if (AUDIO_EXTENSIONS.includes(extension)) return 'audio';
+  if (VIDEO_EXTENSIONS.includes(extension)) return 'video';
+  if (IMAGE_EXTENSIONS.includes(extension)) return 'image';
+
+  return 'other';
+}
+
+/**
+ * 解析 itunes:duration（支持 HH:MM:SS、MM:SS 和秒数）
+ */
+export function parseItunesDuration(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? Math.round(value) : undefined;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) {
+    return undefined;
+  }
+
+  return Math.round(parts.reduce((total, part) => total * 60 + parseFloat(part), 0));
+}
+
+/**
+ * 解析正整数（集数、季数）
+ */
+function parsePositiveInt(value: unknown): number | undefined {
+  const parsed = parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * 从 rss-parser 条目中提取 iTunes 元数据
+ */
+export function extractItunesMetadata(item: any): Omit<ParsedEnclosure, 'url' | 'type' | 'length'> {
+  const itunes = item.itunes || {};
+  const chapters = item['podcast:chapters'];
+  const explicit = String(itunes.explicit ?? '').toLowerCase();
+
+  return {
+    duration: parseItunesDuration(itunes.duration),
+    episode: parsePositiveInt(itunes.episode),
+    season: parsePositiveInt(itunes.season),
+    episodeType: typeof itunes.episodeType === 'string' ? itunes.episodeType.toLowerCase() : undefined,
+    explicit: explicit ? ['yes', 'true', 'explicit'].includes(explicit) : undefined,
+    image: typeof itunes.image === 'string' ? itunes.image : undefined,
+    chaptersUrl: chapters?.$?.url || (typeof chapters === 'string' ? chapters : undefined),
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * 条目标识与更新检测
+ * 同一订阅源内以 GUID 标识条目（没有 GUID 时使用规范化后的链接），
+ * 发布者修改标题或正文时更新原条目并保存旧版本，而不是生成重复文章
+ */
+
+import { htmlToDiffText } from '../entries/revision-diff';
+
+/** 标识的最大长度（超长 GUID 截断，避免索引过大） */
+const MAX_IDENTITY_LENGTH = 512;
+
+/** 规范化链接时去掉的跟踪参数 */
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|spm|from|ref)$/i;
+
+/**
+ * 规范化链接：小写协议和主机名，去掉片段、跟踪参数、默认端口和路径末尾的斜杠
+ * 无法解析的链接原样返回（去掉首尾空白）
+ */
+export function normalizeEntryUrl(url: string): string {
+  const trimmed = url.trim();
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    return trimmed;
+  }
+
+  parsed.hash = '';
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+  }
+  parsed.searchParams.sort();
+  if (parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * 条目在订阅源内的标识：优先 GUID，其次规范化链接；都没有时返回 null（退回内容哈希去重）
+ */
+export function entryIdentityKey(item: { guid?: unknown; link?: string }): string | null {
+  const guid = typeof item.guid === 'string' ? item.guid.trim() : '';
+  if (guid) return guid.slice(0, MAX_IDENTITY_LENGTH);
+
+  const link = item.link ? normalizeEntryUrl(item.link) : '';
+  return link ? link.slice(0, MAX_IDENTITY_LENGTH) : null;
+}
+
+/**
+ * 标题或正文的可见文本是否发生变化（只改排版、属性或空白不算更新）
+ */
+export function hasEntryContentChanged(
+  previous: { title: string; content: string | null },
+  next: { title: string; content?: string | null }
+): boolean {
+  if (previous.title.trim() !== next.title.trim()) return true;
+  // 新版本没有正文时（部分订阅源只在首次输出全文）不视为修改
+  if (!next.content) return false;
+  return comparableText(previous.content) !== comparableText(next.content);
+}
+
+function comparableText(html: string | null | undefined): string {
+  return htmlToDiffText(html).replace(/\s+/g, ' ');
+}
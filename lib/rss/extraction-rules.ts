@@ -0,0 +1,212 @@
+/**
+ * 订阅源内容提取规则
+ * 每个订阅源可设置全文抓取方式、正文 / 移除选择器，以及抓取全文时附加的请求头和 Cookie，
+ * 由订阅源所有者设置并保存在其订阅的 feed_extraction_rules，由 RSSParser 抓取和提取全文时使用
+ */
+
+import { z } from 'zod';
+import type { CheerioAPI } from 'cheerio';
+
+/**
+ * 全文抓取方式
+ * auto：正文过短时抓取；always：总是使用网页正文；never：只使用订阅源中的内容
+ */
+export const FULL_TEXT_MODES = ['auto', 'always', 'never'] as const;
+
+export type FullTextMode = (typeof FULL_TEXT_MODES)[number];
+
+/** 全文的来源：自定义选择器、内置站点规则、通用选择器、文本密度分析或整个 body */
+export type ExtractionMethod = 'custom' | 'site' | 'general' | 'density' | 'fallback';
+
+export const EXTRACTION_METHOD_LABELS: Record<ExtractionMethod, string> = {
+  custom: '自定义选择器',
+  site: '内置站点规则',
+  general: '通用选择器',
+  density: '文本密度分析',
+  fallback: '整个页面',
+};
+
+/** 由 HTTP 客户端管理或不应由订阅源覆盖的请求头（Cookie 单独设置） */
+const RESERVED_HEADERS = new Set([
+  'host',
+  'cookie',
+  'connection',
+  'content-length',
+  'transfer-encoding',
+  'accept-encoding',
+  'keep-alive',
+  'upgrade',
+  'te',
+  'trailer',
+  'proxy-authorization',
+]);
+
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+const selectorListSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .min(1)
+      .max(200)
+      // 以 < 开头会被 cheerio 当作 HTML 片段而非选择器
+      .refine((selector) => !selector.startsWith('<'), '选择器不能以 < 开头')
+  )
+  .max(20);
+
+export const extractionRulesSchema = z.object({
+  fullTextMode: z.enum(FULL_TEXT_MODES),
+  /** 正文选择器，按顺序尝试，同一选择器匹配多个元素时依次拼接 */
+  contentSelectors: selectorListSchema,
+  /** 从正文中移除的元素 */
+  removeSelectors: selectorListSchema,
+  headers: z
+    .record(z.string(), z.string().max(2000))
+    .refine((headers) => Object.keys(headers).length <= 20, '请求头最多 20 个')
+    .refine(
+      (headers) => Object.keys(headers).every((name) => HEADER_NAME.test(name) && !RESERVED_HEADERS.has(name.toLowerCase())),
+      '请求头名称无效或不允许设置'
+    )
+    .refine((headers) => Object.values(headers).every((value) => !/[\r\n]/.test(value)), '请求头的值不能换行'),
+  cookie: z
+    .string()
+    .max(4000)
+    .refine((cookie) => !/[\r\n]/.test(cookie), 'Cookie 不能换行')
+    .nullable(),
+});
+
+export type ExtractionRules = z.infer<typeof extractionRulesSchema>;
+
+export const DEFAULT_EXTRACTION_RULES: ExtractionRules = {
+  fullTextMode: 'auto',
+  contentSelectors: [],
+  removeSelectors: [],
+  headers: {},
+  cookie: null,
+};
+
+/**
+ * 读取存储的规则（没有记录或内容无效时使用默认规则）
+ */
+export function toExtractionRules(
+  record: {
+    fullTextMode: string;
+    contentSelectors: string[];
+    removeSelectors: string[];
+    headers: unknown;
+    cookie: string | null;
+  } | null
+): ExtractionRules {
+  if (!record) return DEFAULT_EXTRACTION_RULES;
+  const parsed = extractionRulesSchema.safeParse({
+    fullTextMode: record.fullTextMode,
+    contentSelectors: record.contentSelectors,
+    removeSelectors: record.removeSelectors,
+    headers: record.headers ?? {},
+    cookie: record.cookie,
+  });
+  return parsed.success ? parsed.data : DEFAULT_EXTRACTION_RULES;
+}
+
+/**
+ * 可以接收规则中请求头和 Cookie 的域名：订阅源地址的域名（去掉 www.），含子域名
+ * 只取规则所有者订阅的地址，不使用可被修改的站点地址或 feed 文档中的 <link>
+ */
+export function credentialHosts(feedUrl: string | null | undefined): string[] {
+  if (!feedUrl) return [];
+  try {
+    return [new URL(feedUrl).hostname.toLowerCase().replace(/^www\./, '')];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 抓取全文时附加的请求头
+ * 订阅源在用户间共享，文章链接或预览地址可能指向其他网站，只有目标在 hosts 内时才附加
+ */
+export function extractionRequestHeaders(rules: ExtractionRules, url: string, hosts: string[]): Record<string, string> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return {};
+  }
+  if (!hosts.some((host) => hostname === host || hostname.endsWith(`.${host}`))) {
+    return {};
+  }
+
+  return {
+    ...rules.headers,
+    ...(rules.cookie && { Cookie: rules.cookie }),
+  };
+}
+
+/**
+ * 解析 “名称: 值” 格式的请求头，每行一个，空行和 # 开头的行忽略
+ * @returns invalid 为无法解析的行
+ */
+export function parseHeaderLines(text: string): { headers: Record<string, string>; invalid: string[] } {
+  const headers: Record<string, string> = {};
+  const invalid: string[] = [];
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const separator = trimmed.indexOf(':');
+    const name = separator > 0 ? trimmed.slice(0, separator).trim() : '';
+    if (!HEADER_NAME.test(name) || RESERVED_HEADERS.has(name.toLowerCase())) {
+      invalid.push(trimmed);
+      continue;
+    }
+    headers[name] = trimmed.slice(separator + 1).trim();
+  }
+
+  return { headers, invalid };
+}
+
+export function formatHeaderLines(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+}
+
+/**
+ * 移除匹配的元素（无效选择器忽略）
+ */
+export function removeMatchedElements($: CheerioAPI, selectors: string[]): void {
+  for (const selector of selectors) {
+    try {
+      $(selector).remove();
+    } catch {
+      // 忽略无效选择器
+    }
+  }
+}
+
+/**
+ * 按自定义正文选择器提取：使用第一个匹配到文本的选择器，多个匹配元素依次拼接（嵌套的只保留外层）
+ */
+export function selectContent($: CheerioAPI, selectors: string[]): string | null {
+  for (const selector of selectors) {
+    let matched;
+    try {
+      matched = $(selector);
+    } catch {
+      continue;
+    }
+
+    const outermost = matched.filter((_, el) => $(el).parents(selector).length === 0);
+    if (!outermost.text().trim()) continue;
+
+    outermost.find('script, style, noscript').remove();
+    return outermost
+      .map((_, el) => $.html(el))
+      .get()
+      .join('\n');
+  }
+
+  return null;
+}
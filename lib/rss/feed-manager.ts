@@ -4,20 +4,53 @@
  */
 
 import { db } from '../db';
-import { parseFeed } from './parser';
+import {
+  parseFeedConditional,
+  parsePageConditional,
+  parseFeedString,
+  FeedHttpError,
+  type ConditionalParseResult,
+  type ParsedEntry,
+} from './parser';
+import { predictNextFetch, type FeedScheduleHints } from './schedule';
+import { getWebSubManager } from './websub';
+import { detectMediaKind, type ParsedEnclosure } from './enclosures';
 import { generateContentHash } from '../utils';
 import { info, warn, error } from '../logger';
 import type { Feed, Entry } from '@prisma/client';
 import { addPreliminaryJob } from '../queue/preliminary-processor';
 import { controlledRequest } from './request-controller';
+import { getRuleEngine } from '../rules/engine';
+import { findOwnerSubscription, getFetchPolicy, getSubscriberIds } from './subscriptions';
+import { refreshUnreadCounts } from '../entries/state';
+import { entryIdentityKey, hasEntryContentChanged } from './entry-identity';
+import { DEFAULT_EXTRACTION_RULES, toExtractionRules, type ExtractionRules } from './extraction-rules';
+import { toPageSelectors } from './page-watcher';
 
 export interface FeedUpdateResult {
   success: boolean;
   entriesAdded: number;
+  /** 检测到标题或正文修改的条目数 */
   entriesUpdated: number;
+  /** 服务器返回 304，内容未变化 */
+  notModified?: boolean;
   error?: string;
 }
 
+/**
+ * 条件请求（304）节省统计
+ */
+export interface ConditionalFetchStats {
+  /** 有校验信息（ETag/Last-Modified）的订阅源数 */
+  feedsWithValidators: number;
+  /** 累计 304 次数 */
+  notModifiedCount: number;
+  /** 因 304 跳过处理的条目数 */
+  itemsSkipped: number;
+  /** 累计节省字节数 */
+  bytesSaved: number;
+}
+
 export interface CleanupResult {
   deletedCount: number;
   preservedCount: number;
@@ -27,6 +60,9 @@ export interface CleanupResult {
 /** 单个 Feed 抓取超时时间（毫秒） */
 const FEED_FETCH_TIMEOUT = 60000;
 
+/** 估算发布节奏时参考的最近文章数 */
+const CADENCE_SAMPLE_SIZE = 30;
+
 /** 默认抓取时间范围（天）- 不限制 */
 export const DEFAULT_FETCH_TIME_RANGES = {
   unlimited: null,
@@ -76,11 +112,15 @@ export class FeedManager {
 
     await info('rss', '开始抓取订阅源', { feedId, feedUrl: feed.feedUrl, title: feed.title });
 
+    // 汇总订阅者的设置（优先级、抓取时间范围）
+    const policy = await getFetchPolicy(feedId);
+    const rules = await this.getExtractionRules(feedId);
+
     try {
-      // 使用请求控制器执行网络请求
-      const parsedFeed = await controlledRequest(
+      // 使用请求控制器执行网络请求（携带上次的 ETag / Last-Modified）
+      const fetchResult = await controlledRequest(
         () => Promise.race([
-          parseFeed(feed.feedUrl),
+          this.fetchSource(feed, rules),
           new Promise<never>((_, reject) =>
             setTimeout(() => reject(new Error('Feed 解析超时')), FEED_FETCH_TIMEOUT)
           ),
@@ -88,116 +128,54 @@ export class FeedManager {
         { url: feed.feedUrl, feedId }
       );
 
-      let entriesAdded = 0;
-      let entriesUpdated = 0;
-      let entryErrors = 0;
+      // 304 Not Modified：内容未变化，仅更新抓取时间和节省统计
+      if (fetchResult.notModified) {
+        const schedule = await this.scheduleNextFetch(feed, {
+          priority: policy.priority,
+          fetchInterval: policy.fetchInterval,
+        });
 
-      // 计算时间范围过滤
-      const fetchTimeRange = feed.fetchTimeRange;
-      const cutoffDate = fetchTimeRange
-        ? new Date(Date.now() - fetchTimeRange * 24 * 60 * 60 * 1000)
-        : null;
+        await db.feed.update({
+          where: { id: feedId },
+          data: {
+            lastFetchedAt: new Date(),
+            lastSuccessAt: new Date(),
+            ...schedule,
+            retryAfter: null,
+            errorCount: 0,
+            lastError: null,
+            notModifiedCount: { increment: 1 },
+            itemsSkipped: { increment: feed.lastItemCount },
+            bytesSaved: { increment: feed.lastResponseBytes ?? 0 },
+            // 服务器可能在 304 中返回新的校验信息
+            ...(fetchResult.meta.etag && { etag: fetchResult.meta.etag }),
+            ...(fetchResult.meta.lastModified && { lastModified: fetchResult.meta.lastModified }),
+          },
+        });
 
-      if (fetchTimeRange) {
-        await info('rss', '启用时间范围过滤', {
+        await info('rss', '订阅源未变化（304）', {
           feedId,
-          fetchTimeRange: `${fetchTimeRange}天`,
-          cutoffDate: cutoffDate!.toISOString(),
+          title: feed.title,
+          itemsSkipped: feed.lastItemCount,
+          bytesSaved: feed.lastResponseBytes ?? 0,
+          duration: Date.now() - startTime,
         });
-      }
-
-      // 处理每个条目（带容错机制）
-      for (const item of parsedFeed.items) {
-        try {
-          // 时间范围过滤：如果文章发布时间早于截止时间，则跳过
-          if (cutoffDate && item.pubDate) {
-            if (item.pubDate < cutoffDate) {
-              continue; // 跳过过期文章
-            }
-          }
 
-          const contentHash = await generateContentHash(
-            `${item.title}${item.link}${item.content || ''}`
-          );
+        return {
+          success: true,
+          entriesAdded: 0,
+          entriesUpdated: 0,
+          notModified: true,
+        };
+      }
 
-          // 检查是否已存在
-          const existingEntry = await db.entry.findUnique({
-            where: { contentHash },
-          });
+      const { feed: parsedFeed, meta } = fetchResult;
 
-          // 准备通用数据
-          const entryData = {
-            title: item.title,
-            content: item.content,
-            summary: item.contentSnippet?.slice(0, 500), // 限制摘要长度
-            url: item.link,
-            publishedAt: item.pubDate,
-            author: item.author,
-            tags: item.categories || [],
-            // 存储图片URL（如果有）
-            ...(item.image && { mainImageUrl: item.image }),
-          };
-
-          if (existingEntry) {
-            // 更新现有条目
-            await db.entry.update({
-              where: { id: existingEntry.id },
-              data: entryData,
-            });
-            entriesUpdated++;
-          } else {
-            // 创建新条目
-            const newEntry = await db.entry.create({
-              data: {
-                feedId: feed.id,
-                contentHash,
-                ...entryData,
-              },
-            });
-            entriesAdded++;
-
-            // 自动添加到AI分析队列（需要用户启用且配置有效）
-            try {
-              // 获取用户的AI配置
-              const user = await db.user.findUnique({
-                where: { id: feed.userId },
-                select: { aiConfig: true },
-              });
-
-              const aiConfig = (user?.aiConfig as any) || {};
-              const configValid = aiConfig.configValid === true;
-              const autoSummary = aiConfig.autoSummary === true;
-              const autoCategorize = aiConfig.autoCategorize === true;
-              const aiQueueEnabled = aiConfig.aiQueueEnabled === true;
-
-              // 只有当配置验证通过且用户启用功能时才添加到队列
-              if (configValid && (autoSummary || autoCategorize || aiQueueEnabled)) {
-                // 使用新的 BullMQ 队列系统
-                await addPreliminaryJob({
-                  entryId: newEntry.id,
-                  userId: feed.userId,
-                  priority: 5,
-                });
-              }
-            } catch (err) {
-              // AI分析失败不影响feed抓取
-              await error('rss', '添加AI分析任务失败', err instanceof Error ? err : undefined, {
-                entryId: newEntry.id,
-                feedId: feed.id,
-                error: err instanceof Error ? err.message : String(err),
-              });
-            }
-          }
-        } catch (entryErr) {
-          // 单个条目失败不影响其他条目
-          entryErrors++;
-          await warn('rss', '处理条目失败，跳过继续', {
-            feedId,
-            itemTitle: item.title?.slice(0, 100),
-            error: entryErr instanceof Error ? entryErr.message : String(entryErr),
-          });
-        }
-      }
+      const { entriesAdded, entriesUpdated, entryErrors } = await this.saveItems(
+        feed,
+        parsedFeed.items,
+        policy.fetchTimeRange
+      );
 
       const duration = Date.now() - startTime;
       await info('rss', '订阅源抓取完成', {
@@ -210,16 +188,34 @@ export class FeedManager {
         duration,
       });
 
+      // 按本次保存的文章和订阅源声明的调度信息预测下次抓取
+      const hints: FeedScheduleHints = parsedFeed.schedule ?? { skipHours: [], skipDays: [] };
+      const schedule = await this.scheduleNextFetch(feed, {
+        priority: policy.priority,
+        fetchInterval: policy.fetchInterval,
+        hints,
+      });
+
       // 更新feed信息（包括从RSS获取的描述）
       const updateData: any = {
         lastFetchedAt: new Date(),
         lastSuccessAt: new Date(),
-        nextFetchAt: this.calculateNextFetch(feed.priority),
+        ...schedule,
+        ttl: hints.ttl ?? null,
+        updatePeriod: hints.updatePeriod ?? null,
+        skipHours: hints.skipHours,
+        skipDays: hints.skipDays,
+        retryAfter: null,
         totalEntries: {
           increment: entriesAdded,
         },
         errorCount: 0,
         lastError: null,
+        // 保存校验信息供下次条件请求使用（未返回时清空，避免使用过期值）
+        etag: meta.etag ?? null,
+        lastModified: meta.lastModified ?? null,
+        lastResponseBytes: meta.bytes,
+        lastItemCount: parsedFeed.items.length,
       };
 
       // 如果RSS中有描述且当前描述为空，更新描述
@@ -237,8 +233,27 @@ export class FeedManager {
         data: updateData,
       });
 
-      // 更新未读计数
-      await this.updateUnreadCount(feedId);
+      // 更新所有订阅者的未读计数
+      if (entriesAdded > 0) {
+        await refreshUnreadCounts({ feedId });
+      }
+
+      // 订阅源声明了 hub 时订阅 WebSub 推送
+      if (parsedFeed.hubUrl) {
+        try {
+          await getWebSubManager().ensureSubscribed(
+            feedId,
+            parsedFeed.hubUrl,
+            parsedFeed.selfUrl || feed.feedUrl
+          );
+        } catch (err) {
+          await warn('rss', 'WebSub 订阅失败', {
+            feedId,
+            hubUrl: parsedFeed.hubUrl,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
 
       return {
         success: true,
@@ -256,11 +271,22 @@ export class FeedManager {
         error: errorMessage,
       });
 
+      // 限流时遵循 Retry-After，其余失败按连续失败次数退避
+      const retryAfter = err instanceof FeedHttpError ? err.retryAfter : null;
+      const schedule = await this.scheduleNextFetch(feed, {
+        priority: policy.priority,
+        fetchInterval: policy.fetchInterval,
+        errorCount: feed.errorCount + 1,
+        retryAfter,
+      });
+
       // 更新错误信息（同时更新 lastFetchedAt 表示已尝试抓取）
       await db.feed.update({
         where: { id: feedId },
         data: {
           lastFetchedAt: new Date(),
+          ...schedule,
+          retryAfter,
           errorCount: {
             increment: 1,
           },
@@ -277,6 +303,287 @@ export class FeedManager {
     }
   }
 
+  /**
+   * 条件抓取并解析订阅源：RSS 等格式直接解析，网页监控按选择器从列表页提取条目
+   */
+  private async fetchSource(feed: Feed, rules: ExtractionRules): Promise<ConditionalParseResult> {
+    const validators = { etag: feed.etag, lastModified: feed.lastModified };
+    if (feed.sourceType !== 'page') {
+      return parseFeedConditional(feed.feedUrl, validators, rules);
+    }
+
+    const selectors = toPageSelectors(feed.pageSelectors);
+    if (!selectors) {
+      throw new Error('网页监控的选择器无效，请重新设置');
+    }
+    return parsePageConditional(feed.feedUrl, selectors, validators, rules);
+  }
+
+  /**
+   * 订阅源所有者设置的内容提取规则（全文抓取方式、选择器、请求头），未设置时使用默认规则
+   */
+  private async getExtractionRules(feedId: string): Promise<ExtractionRules> {
+    const owner = await findOwnerSubscription(feedId);
+    if (!owner) return DEFAULT_EXTRACTION_RULES;
+    return toExtractionRules(await db.feedExtractionRule.findUnique({ where: { subscriptionId: owner.id } }));
+  }
+
+  /**
+   * 处理 WebSub 推送的内容，与抓取使用相同的入库流程
+   * contentType 为推送请求的 Content-Type，辅助识别格式
+   */
+  async ingestPushedContent(feedId: string, content: string, contentType?: string): Promise<FeedUpdateResult> {
+    const feed = await db.feed.findUnique({ where: { id: feedId } });
+    if (!feed) {
+      return { success: false, entriesAdded: 0, entriesUpdated: 0, error: 'Feed not found' };
+    }
+
+    const policy = await getFetchPolicy(feedId);
+    if (!policy.isActive) {
+      return { success: true, entriesAdded: 0, entriesUpdated: 0 };
+    }
+
+    try {
+      const parsedFeed = await parseFeedString(
+        content,
+        contentType,
+        await this.getExtractionRules(feedId),
+        feed.feedUrl
+      );
+      const { entriesAdded, entriesUpdated, entryErrors } = await this.saveItems(
+        feed,
+        parsedFeed.items,
+        policy.fetchTimeRange
+      );
+
+      await db.feed.update({
+        where: { id: feedId },
+        data: {
+          lastSuccessAt: new Date(),
+          totalEntries: { increment: entriesAdded },
+        },
+      });
+
+      if (entriesAdded > 0) {
+        await refreshUnreadCounts({ feedId });
+      }
+
+      await info('rss', '已处理 WebSub 推送', {
+        feedId,
+        title: feed.title,
+        entriesAdded,
+        entriesUpdated,
+        entryErrors,
+        totalItems: parsedFeed.items.length,
+      });
+
+      return { success: true, entriesAdded, entriesUpdated };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      await error('rss', '处理 WebSub 推送失败', err instanceof Error ? err : undefined, {
+        feedId,
+        error: errorMessage,
+      });
+      return { success: false, entriesAdded: 0, entriesUpdated: 0, error: errorMessage };
+    }
+  }
+
+  /**
+   * 保存解析出的条目（抓取和 WebSub 推送共用）：去重、保存附件、执行规则、加入 AI 分析队列
+   */
+  private async saveItems(
+    feed: Feed,
+    items: ParsedEntry[],
+    fetchTimeRange: number | null
+  ): Promise<{ entriesAdded: number; entriesUpdated: number; entryErrors: number }> {
+    let entriesAdded = 0;
+    let entriesUpdated = 0;
+    let entryErrors = 0;
+
+    // 计算时间范围过滤
+    const cutoffDate = fetchTimeRange
+      ? new Date(Date.now() - fetchTimeRange * 24 * 60 * 60 * 1000)
+      : null;
+
+    if (fetchTimeRange) {
+      await info('rss', '启用时间范围过滤', {
+        feedId: feed.id,
+        fetchTimeRange: `${fetchTimeRange}天`,
+        cutoffDate: cutoffDate!.toISOString(),
+      });
+    }
+
+    // 处理每个条目（带容错机制）
+    for (const item of items) {
+      try {
+        // 时间范围过滤：如果文章发布时间早于截止时间，则跳过
+        if (cutoffDate && item.pubDate) {
+          if (item.pubDate < cutoffDate) {
+            continue; // 跳过过期文章
+          }
+        }
+
+        const contentHash = await generateContentHash(
+          `${item.title}${item.link}${item.content || ''}`
+        );
+        const guid = entryIdentityKey(item);
+
+        // 检查该订阅源中是否已存在
+        const existingEntry = await this.findExistingEntry(feed.id, guid, contentHash, item.link);
+
+        // 准备通用数据
+        const entryData = {
+          title: item.title,
+          content: item.content,
+          summary: item.contentSnippet?.slice(0, 500), // 限制摘要长度
+          url: item.link,
+          publishedAt: item.pubDate,
+          author: item.author,
+          tags: item.categories || [],
+          // 存储图片URL（如果有）
+          ...(item.image && { mainImageUrl: item.image }),
+          ...(item.enclosure && { hasMedia: true }),
+          ...(item.updatedDate && { sourceUpdatedAt: item.updatedDate }),
+        };
+
+        if (existingEntry) {
+          // 旧条目没有标识时补上
+          const identityData = !existingEntry.guid && guid ? { guid } : {};
+
+          if (hasEntryContentChanged(existingEntry, item)) {
+            // 发布者修改了标题或正文：保存被替换的版本
+            await db.$transaction([
+              db.entryRevision.create({
+                data: {
+                  entryId: existingEntry.id,
+                  title: existingEntry.title,
+                  content: existingEntry.content,
+                  summary: existingEntry.summary,
+                  url: existingEntry.url,
+                  versionAt: existingEntry.contentUpdatedAt ?? existingEntry.createdAt,
+                },
+              }),
+              db.entry.update({
+                where: { id: existingEntry.id },
+                data: {
+                  ...entryData,
+                  ...identityData,
+                  contentHash,
+                  contentUpdatedAt: new Date(),
+                  revisionCount: { increment: 1 },
+                },
+              }),
+            ]);
+            entriesUpdated++;
+
+            // 内容已修改，重新初评（初评会重新生成向量嵌入并按结果重新深度分析）
+            await this.queueAnalysis(feed.id, existingEntry.id, true);
+          } else {
+            await db.entry.update({
+              where: { id: existingEntry.id },
+              data: { ...entryData, ...identityData },
+            });
+          }
+          if (item.enclosure) {
+            await this.saveEnclosure(existingEntry.id, item.enclosure);
+          }
+        } else {
+          // 创建新条目
+          const newEntry = await db.entry.create({
+            data: {
+              feedId: feed.id,
+              contentHash,
+              guid,
+              ...entryData,
+            },
+          });
+          if (item.enclosure) {
+            await this.saveEnclosure(newEntry.id, item.enclosure);
+          }
+          entriesAdded++;
+
+          // 执行各订阅者的订阅规则
+          try {
+            await getRuleEngine().processEntry(newEntry.id);
+          } catch (err) {
+            // 规则执行失败不影响feed抓取
+            await error('rss', '执行订阅规则失败', err instanceof Error ? err : undefined, {
+              entryId: newEntry.id,
+              feedId: feed.id,
+            });
+          }
+
+          // 自动添加到AI分析队列
+          await this.queueAnalysis(feed.id, newEntry.id);
+        }
+      } catch (entryErr) {
+        // 单个条目失败不影响其他条目
+        entryErrors++;
+        await warn('rss', '处理条目失败，跳过继续', {
+          feedId: feed.id,
+          itemTitle: item.title?.slice(0, 100),
+          error: entryErr instanceof Error ? entryErr.message : String(entryErr),
+        });
+      }
+    }
+
+    return { entriesAdded, entriesUpdated, entryErrors };
+  }
+
+  /**
+   * 添加到 AI 分析队列
+   * 文章共享，只需分析一次，使用第一个启用了自动分析的订阅者的配置
+   */
+  private async queueAnalysis(feedId: string, entryId: string, forceReanalyze = false): Promise<void> {
+    try {
+      const analysisUserId = await this.findAnalysisUser(feedId);
+
+      if (analysisUserId) {
+        // 使用新的 BullMQ 队列系统
+        await addPreliminaryJob({
+          entryId,
+          userId: analysisUserId,
+          priority: 5,
+          forceReanalyze,
+        });
+      }
+    } catch (err) {
+      // AI分析失败不影响feed抓取
+      await error('rss', '添加AI分析任务失败', err instanceof Error ? err : undefined, {
+        entryId,
+        feedId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * 查找已保存的同一条目
+   * 优先按标识（GUID 或规范化链接）匹配；再按内容哈希匹配，兼容没有标识的旧条目和不提供 GUID、链接的订阅源；
+   * 最后匹配同一链接、尚未记录标识的旧条目（修改后内容哈希已变化）
+   */
+  private async findExistingEntry(
+    feedId: string,
+    guid: string | null,
+    contentHash: string,
+    url: string
+  ): Promise<Entry | null> {
+    if (guid) {
+      const byGuid = await db.entry.findUnique({ where: { feedId_guid: { feedId, guid } } });
+      if (byGuid) return byGuid;
+    }
+
+    const byHash = await db.entry.findUnique({
+      where: { feedId_contentHash: { feedId, contentHash } },
+    });
+    if (byHash || !guid || !url) return byHash;
+
+    return db.entry.findFirst({
+      where: { feedId, guid: null, url },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
   /**
    * 批量抓取feeds（带并发控制）
    */
@@ -311,53 +618,148 @@ export class FeedManager {
   async getFeedsToUpdate(limit: number = 50): Promise<Feed[]> {
     const now = new Date();
 
+    // 只抓取至少有一个启用订阅的订阅源（优先级已体现在 nextFetchAt 中）
     return db.feed.findMany({
       where: {
-        isActive: true,
+        subscriptions: { some: { isActive: true } },
         OR: [
           { nextFetchAt: null },
           { nextFetchAt: { lte: now } },
         ],
       },
-      orderBy: [
-        { priority: 'desc' },
-        { nextFetchAt: 'asc' },
-      ],
+      orderBy: { nextFetchAt: 'asc' },
       take: limit,
     });
   }
 
   /**
-   * 计算下次抓取时间
+   * 获取条件请求节省统计
+   */
+  async getConditionalFetchStats(): Promise<ConditionalFetchStats> {
+    const [aggregate, feedsWithValidators] = await Promise.all([
+      db.feed.aggregate({
+        _sum: {
+          notModifiedCount: true,
+          itemsSkipped: true,
+          bytesSaved: true,
+        },
+      }),
+      db.feed.count({
+        where: {
+          OR: [
+            { etag: { not: null } },
+            { lastModified: { not: null } },
+          ],
+        },
+      }),
+    ]);
+
+    return {
+      feedsWithValidators,
+      notModifiedCount: aggregate._sum.notModifiedCount ?? 0,
+      itemsSkipped: aggregate._sum.itemsSkipped ?? 0,
+      bytesSaved: aggregate._sum.bytesSaved ?? 0,
+    };
+  }
+
+  /**
+   * 预测下次抓取时间
+   * 结合最近文章的发布节奏、订阅源设置的间隔、声明的调度信息（未传入时使用上次保存的值）和 WebSub 推送状态
    */
-  private calculateNextFetch(priority: number): Date {
-    const baseInterval = 3600000; // 1小时
-    const priorityMultiplier = 11 - priority; // 优先级越高，间隔越短
-    const interval = baseInterval * priorityMultiplier;
+  private async scheduleNextFetch(
+    feed: Feed,
+    options: {
+      priority: number;
+      fetchInterval?: number | null;
+      errorCount?: number;
+      retryAfter?: Date | null;
+      hints?: FeedScheduleHints;
+    }
+  ): Promise<{ nextFetchAt: Date; fetchReason: string }> {
+    const recent = await db.entry.findMany({
+      where: { feedId: feed.id, publishedAt: { not: null } },
+      orderBy: { publishedAt: 'desc' },
+      select: { publishedAt: true },
+      take: CADENCE_SAMPLE_SIZE,
+    });
 
-    return new Date(Date.now() + interval);
+    const hints = options.hints ?? feed;
+    const pushActive = await getWebSubManager().isPushActive(feed.id);
+    const prediction = predictNextFetch({
+      fetchInterval: options.fetchInterval ?? feed.fetchInterval,
+      priority: options.priority,
+      errorCount: options.errorCount ?? 0,
+      retryAfter: options.retryAfter,
+      publishedAt: recent.map((e) => e.publishedAt!),
+      ttl: hints.ttl,
+      updatePeriod: hints.updatePeriod,
+      skipHours: hints.skipHours,
+      skipDays: hints.skipDays,
+      pushActive,
+    });
+
+    return { nextFetchAt: prediction.nextFetchAt, fetchReason: prediction.reason };
   }
 
   /**
-   * 更新未读计数
+   * 保存文章附件（按 URL 去重，重复抓取时更新播客元数据）
    */
-  private async updateUnreadCount(feedId: string): Promise<void> {
-    const unreadCount = await db.entry.count({
-      where: {
-        feedId,
-        isRead: false,
-      },
+  private async saveEnclosure(entryId: string, enclosure: ParsedEnclosure): Promise<void> {
+    const data = {
+      mimeType: enclosure.type ?? null,
+      length: enclosure.length ? BigInt(enclosure.length) : null,
+      mediaKind: detectMediaKind(enclosure.type, enclosure.url),
+      duration: enclosure.duration ?? null,
+      episode: enclosure.episode ?? null,
+      season: enclosure.season ?? null,
+      episodeType: enclosure.episodeType ?? null,
+      explicit: enclosure.explicit ?? null,
+      imageUrl: enclosure.image ?? null,
+      chaptersUrl: enclosure.chaptersUrl ?? null,
+    };
+
+    await db.entryEnclosure.upsert({
+      where: { entryId_url: { entryId, url: enclosure.url } },
+      create: { entryId, url: enclosure.url, ...data },
+      update: data,
     });
+  }
 
-    await db.feed.update({
-      where: { id: feedId },
-      data: { unreadCount },
+  /**
+   * 查找用于自动分析的订阅者：AI 配置有效且启用了自动分析
+   */
+  private async findAnalysisUser(feedId: string): Promise<string | null> {
+    const userIds = await getSubscriberIds(feedId);
+    if (userIds.length === 0) {
+      return null;
+    }
+
+    const users = await db.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, aiConfig: true },
     });
+
+    for (const user of users) {
+      const aiConfig = (user.aiConfig as any) || {};
+      const configValid = aiConfig.configValid === true;
+      const autoSummary = aiConfig.autoSummary === true;
+      const autoCategorize = aiConfig.autoCategorize === true;
+      const aiQueueEnabled = aiConfig.aiQueueEnabled === true;
+
+      // 只有当配置验证通过且用户启用功能时才添加到队列
+      if (configValid && (autoSummary || autoCategorize || aiQueueEnabled)) {
+        return user.id;
+      }
+    }
+
+    return null;
   }
 
   /**
    * 清理旧条目
-   * @param daysToKeep 保留天数
+   * 文章由订阅者共享，只删除对所有订阅者都已超过保留期、且没有订阅者未读或加星标的文章，
+   * 仍被其他订阅者保留的文章对该用户保持原样（清除其已读状态会使文章重新显示为未读）
+   * @param daysToKeep 保留天数（指定用户时作为该用户的保留期，其他订阅者按各自的设置）
    * @param userId 可选：指定用户ID，为null则清理所有用户的过期文章
    * @returns 清理结果
    */
@@ -377,62 +779,49 @@ export class FeedManager {
         userId: userId || 'all',
       });
 
-      // 构建查询条件
-      const whereClause: any = {
-        createdAt: {
-          lt: cutoffDate,
-        },
-        isRead: true,
-        isStarred: false,
-      };
-
-      // 如果指定了用户ID，添加用户过滤
-      if (userId) {
-        whereClause.feed = {
-          userId: userId,
-        };
-      }
-
-      // 先统计将要删除的文章数量
-      const toDeleteCount = await db.entry.count({
-        where: whereClause,
-      });
-
-      // 统计符合清理条件但受保护的文章（未读或星标）
-      const protectedWhereClause: any = {
-        createdAt: {
-          lt: cutoffDate,
-        },
-        OR: [
-          { isRead: false },
-          { isStarred: true },
-        ],
-      };
-
-      if (userId) {
-        protectedWhereClause.feed = {
-          userId: userId,
-        };
-      }
-
-      const preservedCount = await db.entry.count({
-        where: protectedWhereClause,
-      });
+      // 订阅者的保留天数取其偏好设置（0 或负数表示不清理）
+      const retentionDays = `COALESCE((u.preferences->>'entryRetentionDays')::numeric, ${DEFAULT_ENTRY_RETENTION_DAYS})`;
+      const withinRetention = `(${retentionDays} <= 0 OR e.created_at >= NOW() - ${retentionDays} * INTERVAL '1 day')`;
+      // 仍有订阅者未读、星标或未超过其保留期的文章受保护
+      const protectedCondition = `EXISTS (
+        SELECT 1 FROM subscriptions s
+        JOIN users u ON u.id = s.user_id
+        LEFT JOIN entry_states st ON st.entry_id = e.id AND st.user_id = s.user_id
+        WHERE s.feed_id = e.feed_id
+          AND (
+            st.id IS NULL OR NOT st.is_read OR st.is_starred
+            OR (${userId ? 's.user_id <> $2 AND ' : ''}${withinRetention})
+          )
+      )`;
+      const userCondition = userId
+        ? 'AND e.feed_id IN (SELECT feed_id FROM subscriptions WHERE user_id = $2)'
+        : '';
+      const params = userId ? [cutoffDate, userId] : [cutoffDate];
+
+      // 统计符合清理条件但受保护的文章
+      const preservedResult = await db.$queryRawUnsafe<{ count: bigint }[]>(
+        `SELECT COUNT(*) AS count FROM entries e
+         WHERE e.created_at < $1 ${userCondition} AND ${protectedCondition}`,
+        ...params
+      );
+      const preservedCount = Number(preservedResult[0]?.count || 0);
 
       // 执行删除
-      const result = await db.entry.deleteMany({
-        where: whereClause,
-      });
+      const deletedCount = await db.$executeRawUnsafe(
+        `DELETE FROM entries e
+         WHERE e.created_at < $1 ${userCondition} AND NOT ${protectedCondition}`,
+        ...params
+      );
 
       await info('rss', '清理旧文章完成', {
         daysToKeep,
-        deletedCount: result.count,
+        deletedCount,
         preservedCount,
         userId: userId || 'all',
       });
 
       return {
-        deletedCount: result.count,
+        deletedCount,
         preservedCount,
         errors: errors.length > 0 ? errors : undefined,
       };
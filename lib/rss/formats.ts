@@ -0,0 +1,294 @@
+/**
+ * 订阅源格式识别与 JSON Feed 解析
+ * 根据响应内容（其次是 Content-Type）区分 RSS 2.0、Atom、RDF（RSS 0.90 / 1.0）和 JSON Feed 1.0 / 1.1，
+ * JSON Feed 转换为与 rss-parser 输出相同的结构，复用后续的全文抓取和字段提取
+ */
+
+import { z } from 'zod';
+
+export type FeedFormat = 'rss' | 'atom' | 'rdf' | 'json';
+
+/** JSON Feed 支持的版本 */
+const JSON_FEED_VERSIONS = ['https://jsonfeed.org/version/1', 'https://jsonfeed.org/version/1.1'];
+
+/** 只检查开头的这部分内容识别 XML 根元素 */
+const SNIFF_LENGTH = 4096;
+
+/** 没有标题的条目（微博客等）用正文开头作为标题的最大长度 */
+const UNTITLED_TITLE_LENGTH = 80;
+
+const ROOT_ELEMENT_FORMATS: Record<string, FeedFormat> = {
+  rss: 'rss',
+  feed: 'atom',
+  rdf: 'rdf',
+};
+
+const CONTENT_TYPE_FORMATS: [RegExp, FeedFormat][] = [
+  [/^application\/(feed\+)?json\b/, 'json'],
+  [/^application\/atom\+xml\b/, 'atom'],
+  [/^application\/rdf\+xml\b/, 'rdf'],
+  [/^(application|text)\/(rss\+)?xml\b/, 'rss'],
+];
+
+/**
+ * 与 rss-parser 输出结构一致的订阅源
+ */
+export interface RawFeed {
+  title?: string;
+  description?: string;
+  link?: string;
+  language?: string;
+  feedUrl?: string;
+  icon?: string;
+  image?: { url: string };
+  /** 与 Atom <link> 相同的结构，供 WebSub hub 识别 */
+  links?: { $: { rel: string; href: string } }[];
+  items: RawFeedItem[];
+}
+
+export interface RawFeedItem {
+  title?: string;
+  link?: string;
+  guid?: string;
+  content?: string;
+  summary?: string;
+  pubDate?: string;
+  isoDate?: string;
+  updated?: string;
+  author?: string;
+  categories?: string[];
+  image?: string;
+  enclosure?: { url: string; type?: string; length?: number };
+  /** 附件时长放在 iTunes 字段，与播客 RSS 共用 enclosure 元数据提取 */
+  itunes?: { duration?: number };
+}
+
+/**
+ * 识别订阅源格式
+ * 优先看内容（以 { 开头为 JSON，否则取 XML 根元素），无法判断时参考 Content-Type；仍无法判断时返回 null
+ */
+export function detectFeedFormat(body: string, contentType?: string | null): FeedFormat | null {
+  const head = body.slice(0, SNIFF_LENGTH).replace(/^\uFEFF/, '').trimStart();
+
+  if (head.startsWith('{')) return 'json';
+
+  const root = head
+    .replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^[>]*(\[[\s\S]*?\])?\s*>/gi, '')
+    .match(/^\s*<(?:[\w.-]+:)?([\w.-]+)/);
+  if (root) {
+    const format = ROOT_ELEMENT_FORMATS[root[1].toLowerCase()];
+    if (format) return format;
+  }
+
+  const type = contentType?.trim().toLowerCase() ?? '';
+  return CONTENT_TYPE_FORMATS.find(([pattern]) => pattern.test(type))?.[1] ?? null;
+}
+
+/**
+ * 将 RDF 根元素统一为 rdf:RDF
+ * rss-parser 只识别 rdf 前缀，使用默认命名空间或其他前缀的 RSS 1.0 会被当作未知格式
+ */
+export function normalizeRdfRoot(xml: string): string {
+  const match = xml.match(/<([\w.-]+:)?RDF\b/);
+  if (!match || match[1] === 'rdf:') return xml;
+
+  const prefix = match[1] ?? '';
+  const closing = `</${prefix}RDF>`;
+  const closingIndex = xml.lastIndexOf(closing);
+  if (closingIndex === -1) return xml;
+
+  return (
+    xml.slice(0, match.index) +
+    '<rdf:RDF' +
+    xml.slice(match.index! + match[0].length, closingIndex) +
+    '</rdf:RDF>' +
+    xml.slice(closingIndex + closing.length)
+  );
+}
+
+// JSON Feed 字段：类型不符或为空字符串时视为缺失，不影响其他字段
+const textField = z
+  .string()
+  .transform((value) => value.trim() || undefined)
+  .optional()
+  .catch(undefined);
+const positiveNumber = z.number().positive().optional().catch(undefined);
+const authorSchema = z.object({ name: textField }).nullable().catch(null);
+
+/** 1.1 使用 authors 数组，1.0 使用 author 对象 */
+const authorFields = {
+  authors: z.array(authorSchema).catch([]),
+  author: authorSchema,
+};
+
+const attachmentSchema = z
+  .object({
+    url: z.string().min(1),
+    mime_type: textField,
+    size_in_bytes: positiveNumber,
+    duration_in_seconds: positiveNumber,
+  })
+  .nullable()
+  .catch(null);
+
+const jsonFeedItemSchema = z.object({
+  // id 可能是数字，规范要求按字符串比较
+  id: z
+    .union([z.string(), z.number()])
+    .transform((value) => String(value).trim() || undefined)
+    .optional()
+    .catch(undefined),
+  url: textField,
+  external_url: textField,
+  title: textField,
+  content_html: textField,
+  content_text: textField,
+  summary: textField,
+  image: textField,
+  banner_image: textField,
+  date_published: textField,
+  date_modified: textField,
+  tags: z
+    .array(z.unknown())
+    .catch([])
+    .transform((tags) => tags.filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== '')),
+  attachments: z.array(attachmentSchema).catch([]),
+  ...authorFields,
+});
+
+const jsonFeedSchema = z.object({
+  version: z.string().optional().catch(undefined),
+  title: textField,
+  description: textField,
+  home_page_url: textField,
+  feed_url: textField,
+  language: textField,
+  icon: textField,
+  favicon: textField,
+  hubs: z
+    .array(z.object({ type: z.string().optional().catch(undefined), url: z.string() }).nullable().catch(null))
+    .catch([]),
+  items: z.array(z.unknown()),
+  ...authorFields,
+});
+
+type JsonFeedItem = z.infer<typeof jsonFeedItemSchema>;
+type JsonFeedAttachment = NonNullable<JsonFeedItem['attachments'][number]>;
+
+/**
+ * 解析 JSON Feed 1.0 / 1.1
+ */
+export function parseJsonFeed(body: string): RawFeed {
+  let json: unknown;
+  try {
+    json = JSON.parse(body.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error('JSON Feed 解析失败：内容不是有效的 JSON');
+  }
+
+  const parsed = jsonFeedSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error('JSON Feed 解析失败：缺少 items 数组');
+  }
+  const data = parsed.data;
+  const version = data.version?.replace(/\/+$/, '') ?? '';
+  if (version && !JSON_FEED_VERSIONS.includes(version)) {
+    throw new Error(`不支持的 JSON Feed 版本: ${data.version}`);
+  }
+
+  const feedAuthor = authorNames(data);
+  const hubs = data.hubs.flatMap((hub) =>
+    hub && /websub|pubsubhubbub/i.test(hub.type ?? '') ? [{ $: { rel: 'hub', href: hub.url } }] : []
+  );
+  const icon = data.icon ?? data.favicon;
+
+  return {
+    title: data.title,
+    description: data.description,
+    link: data.home_page_url,
+    language: data.language,
+    feedUrl: data.feed_url,
+    ...(icon && { icon, image: { url: icon } }),
+    ...(hubs.length > 0 && { links: hubs }),
+    // 不是对象的条目跳过
+    items: data.items.flatMap((item) => {
+      const parsedItem = jsonFeedItemSchema.safeParse(item);
+      return parsedItem.success ? [toRawItem(parsedItem.data, feedAuthor)] : [];
+    }),
+  };
+}
+
+function toRawItem(item: JsonFeedItem, feedAuthor?: string): RawFeedItem {
+  const contentText = item.content_text;
+  const content = item.content_html ?? (contentText && textToHtml(contentText));
+  const published = isoDate(item.date_published);
+  const modified = isoDate(item.date_modified);
+  const enclosure = pickAttachment(item.attachments);
+
+  return {
+    title: item.title ?? untitled(contentText ?? item.summary),
+    link: item.url ?? item.external_url,
+    guid: item.id,
+    content,
+    summary: item.summary,
+    pubDate: published ?? modified,
+    isoDate: published ?? modified,
+    updated: modified,
+    author: authorNames(item) ?? feedAuthor,
+    categories: item.tags,
+    image: item.image ?? item.banner_image,
+    ...(enclosure && {
+      enclosure: { url: enclosure.url, type: enclosure.mime_type, length: enclosure.size_in_bytes },
+      itunes: { duration: enclosure.duration_in_seconds },
+    }),
+  };
+}
+
+/**
+ * 作者名：优先 authors 数组，没有时使用 author
+ */
+function authorNames(source: Pick<JsonFeedItem, 'authors' | 'author'>): string | undefined {
+  const authors = source.authors.length > 0 ? source.authors : [source.author];
+  const names = authors.map((author) => author?.name).filter((name): name is string => !!name);
+  return names.length > 0 ? names.join(', ') : undefined;
+}
+
+/**
+ * 选择作为 enclosure 的附件：优先音视频
+ */
+function pickAttachment(attachments: JsonFeedItem['attachments']): JsonFeedAttachment | undefined {
+  const valid = attachments.filter((attachment): attachment is JsonFeedAttachment => !!attachment);
+  return valid.find((attachment) => /^(audio|video)\//i.test(attachment.mime_type ?? '')) ?? valid[0];
+}
+
+/**
+ * content_text 转为 HTML：转义后按空行分段，段内换行转为 <br>
+ */
+function textToHtml(value: string): string {
+  return value
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function untitled(value?: string): string | undefined {
+  const line = value?.replace(/\s+/g, ' ').trim();
+  if (!line) return undefined;
+  return line.length > UNTITLED_TITLE_LENGTH ? `${line.slice(0, UNTITLED_TITLE_LENGTH)}…` : line;
+}
+
+function isoDate(value?: string): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
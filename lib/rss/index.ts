@@ -7,10 +7,22 @@ export {
   feedManager,
   type FeedUpdateResult,
   type CleanupResult,
+  type ConditionalFetchStats,
   DEFAULT_FETCH_TIME_RANGES,
   DEFAULT_ENTRY_RETENTION_DAYS,
   FETCH_TIME_RANGE_OPTIONS,
 } from './feed-manager';
 
-export { parseFeed, type ParsedFeed } from './parser';
+export {
+  parseFeed,
+  parseFeedConditional,
+  type ParsedFeed,
+  type ConditionalParseResult,
+  FeedHttpError,
+} from './parser';
+export {
+  predictNextFetch,
+  type FeedScheduleHints,
+  type SchedulePrediction,
+} from './schedule';
 export { controlledRequest } from './request-controller';
@@ -0,0 +1,407 @@
+/**
+ * 网页监控
+ * 没有 RSS 的网站（更新日志、公告列表等）按 CSS 选择器从列表页提取条目，
+ * 转换为与 rss-parser 输出相同的结构，与普通订阅源共用抓取、全文提取和入库流程
+ */
+
+import { load, type CheerioAPI, type Cheerio } from 'cheerio';
+import { z } from 'zod';
+import type { RawFeed, RawFeedItem } from './formats';
+
+/**
+ * 订阅源类型
+ * rss：RSS / Atom / RDF / JSON Feed；page：网页监控
+ */
+export type FeedSourceType = 'rss' | 'page';
+
+/** 每次最多从列表页提取的条目数 */
+const MAX_PAGE_ITEMS = 100;
+
+/** 条目标题的最大长度 */
+const MAX_TITLE_LENGTH = 300;
+
+/** 自动识别时，同一结构至少重复出现的次数 */
+const MIN_REPEATED_ITEMS = 3;
+
+/** 自动识别返回的候选数 */
+const MAX_SUGGESTIONS = 3;
+
+/** 候选中用于预览的条目数 */
+const SAMPLE_ITEMS = 5;
+
+/** 多数条目具备某特征的比例 */
+const MAJORITY = 0.6;
+
+/** 导航、页眉页脚等区域的重复链接不是内容条目 */
+const NON_CONTENT_AREAS = 'nav, header, footer, aside, [role="navigation"], [role="banner"], [role="contentinfo"]';
+const NON_CONTENT_CLASS = /(^|[-_\s])(nav|navbar|menu|breadcrumbs?|pagination|pager|footer|sidebar|toolbar|tabs)([-_\s]|$)/i;
+
+/** 可直接写入选择器的类名 / ID（跳过 Tailwind 变体等含特殊字符的类名） */
+const SAFE_IDENTIFIER = /^[A-Za-z_][\w-]*$/;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const selectorSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(200)
+  // 以 < 开头会被 cheerio 当作 HTML 片段而非选择器
+  .refine((selector) => !selector.startsWith('<'), '选择器不能以 < 开头');
+
+/**
+ * 网页监控的选择器
+ * item 匹配每个条目，其余选择器在条目内查找；未设置时使用默认规则
+ */
+export const pageSelectorsSchema = z.object({
+  item: selectorSchema,
+  /** 默认使用条目内的第一个标题元素，其次是链接文本 */
+  title: selectorSchema.optional(),
+  /** 默认使用条目内的第一个链接（条目本身是链接时使用条目） */
+  link: selectorSchema.optional(),
+  /** 默认使用条目内的 <time> */
+  date: selectorSchema.optional(),
+  /** 作为条目正文的摘要，默认不提取（正文过短时按提取规则抓取全文） */
+  summary: selectorSchema.optional(),
+});
+
+export type PageSelectors = z.infer<typeof pageSelectorsSchema>;
+
+/**
+ * 自动识别出的选择器候选
+ */
+export interface PageSelectorSuggestion {
+  selectors: PageSelectors;
+  /** 匹配的条目数 */
+  itemCount: number;
+  /** 按该选择器提取的前几个条目 */
+  sample: RawFeedItem[];
+}
+
+/**
+ * 读取存储的选择器（无效时返回 null）
+ */
+export function toPageSelectors(value: unknown): PageSelectors | null {
+  const parsed = pageSelectorsSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * 按选择器从列表页提取条目
+ * 链接解析为绝对地址并去重；没有链接的条目（如更新日志的段落）以页面锚点作为 GUID，条目本身作为正文
+ */
+export function extractPageFeed(html: string, pageUrl: string, selectors: PageSelectors): RawFeed {
+  const $ = load(html);
+  return {
+    ...pageMetadata($, pageUrl),
+    items: extractItems($, pageUrl, selectors),
+  };
+}
+
+/**
+ * 自动识别列表页中重复出现的条目结构
+ * 同一父元素下标签和类名相同、且多数带有链接和文本的兄弟元素作为候选，按条目数和文本量排序
+ */
+export function suggestPageSelectors(html: string, pageUrl: string): PageSelectorSuggestion[] {
+  const $ = load(html);
+  const candidates: { selectors: PageSelectors; score: number }[] = [];
+  const seen = new Set<string>();
+
+  $('body *').each((_, parent) => {
+    const $parent = $(parent);
+    if (isNonContentArea($, $parent)) return;
+
+    const groups = new Map<string, any[]>();
+    $parent.children().each((_, child) => {
+      const signature = elementSignature($(child));
+      groups.set(signature, [...(groups.get(signature) ?? []), child]);
+    });
+
+    for (const [signature, elements] of groups) {
+      if (elements.length < MIN_REPEATED_ITEMS) continue;
+      const $items = $(elements);
+
+      const texts = $items.map((_, el) => collapse($(el).text()).length).get() as number[];
+      const linked = $items.filter((i, el) => texts[i] >= 10 && findLink($(el)).length > 0).length;
+      if (linked < MIN_REPEATED_ITEMS || linked / $items.length < MAJORITY) continue;
+
+      const item = uniqueSelector($, $parent, signature, $items.length);
+      if (seen.has(item)) continue;
+      seen.add(item);
+
+      const selectors = { item, ...suggestFieldSelectors($, $items) };
+      const averageText = texts.reduce((sum, length) => sum + Math.min(length, 300), 0) / texts.length;
+      const score =
+        linked *
+        Math.log(averageText + 1) *
+        (selectors.title ? 1.5 : 1) *
+        (selectors.date ? 1.3 : 1);
+      candidates.push({ selectors, score });
+    }
+  });
+
+  return candidates
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ selectors }) => {
+      const items = extractItems($, pageUrl, selectors);
+      return { selectors, itemCount: items.length, sample: items.slice(0, SAMPLE_ITEMS) };
+    });
+}
+
+/**
+ * 从条目文本中识别日期
+ * 支持 ISO 8601、2026年3月1日 / 2026/03/01 / 2026.3.1 和英文月份（March 1, 2026 / 1 Mar 2026），
+ * 不含时区的日期按 UTC 处理
+ */
+export function parsePageDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+
+  const iso = value.match(/\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?/);
+  if (iso) {
+    const normalized = iso[0].replace(' ', 'T');
+    const date = new Date(/T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(normalized) ? `${normalized}Z` : normalized);
+    if (!isNaN(date.getTime())) return date.toISOString();
+  }
+
+  const numeric = value.match(/(\d{4})\s*[年./-]\s*(\d{1,2})\s*[月./-]\s*(\d{1,2})/);
+  if (numeric) {
+    return utcDate(Number(numeric[1]), Number(numeric[2]), Number(numeric[3]));
+  }
+
+  const english = value.match(
+    /\b(?:(\d{1,2})(?:st|nd|rd|th)?\s+)?(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(?:(\d{1,2})(?:st|nd|rd|th)?,?\s+)?(\d{4})\b/i
+  );
+  if (english) {
+    const month = MONTHS.indexOf(english[2].toLowerCase()) + 1;
+    return utcDate(Number(english[4]), month, Number(english[1] ?? english[3] ?? 1));
+  }
+
+  return undefined;
+}
+
+function utcDate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // 排除 2026-02-31 之类会被顺延的日期
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return date.toISOString();
+}
+
+/**
+ * 页面标题（列表页的 <title> 通常比站点名更具体）、描述，链接为列表页地址
+ */
+export function extractPageMetadata(html: string, pageUrl: string): { title: string; description?: string; link: string } {
+  return pageMetadata(load(html), pageUrl);
+}
+
+function pageMetadata($: CheerioAPI, pageUrl: string): { title: string; description?: string; link: string } {
+  const title =
+    collapse($('title').first().text()) ||
+    collapse($('meta[property="og:site_name"]').attr('content') ?? '') ||
+    new URL(pageUrl).hostname;
+  const description =
+    collapse($('meta[name="description"]').attr('content') ?? '') ||
+    collapse($('meta[property="og:description"]').attr('content') ?? '');
+
+  return {
+    title,
+    ...(description && { description }),
+    link: pageUrl,
+  };
+}
+
+function extractItems($: CheerioAPI, pageUrl: string, selectors: PageSelectors): RawFeedItem[] {
+  let $items: Cheerio<any>;
+  try {
+    $items = $(selectors.item);
+  } catch {
+    throw new Error(`无效的条目选择器: ${selectors.item}`);
+  }
+
+  const baseHref = $('base[href]').attr('href');
+  const baseUrl = (baseHref && resolveLink(baseHref, pageUrl)) || pageUrl;
+  const items: RawFeedItem[] = [];
+  const seen = new Set<string>();
+
+  $items.each((_, el) => {
+    if (items.length >= MAX_PAGE_ITEMS) return false;
+    const $item = $(el);
+
+    const $link = selectors.link ? findWithin($item, selectors.link) : findLink($item);
+    const href = $link.attr('href') ?? $link.find('a[href]').first().attr('href');
+    const link = href ? resolveLink(href, baseUrl) : undefined;
+
+    const title = truncate(
+      collapse(
+        selectors.title
+          ? findWithin($item, selectors.title).text()
+          : $item.find('h1, h2, h3, h4, h5, h6').first().text() || $link.text()
+      ) || collapse($item.text())
+    );
+    if (!title) return;
+
+    // 没有链接时以条目（或其中元素）的 id 作为页面锚点，否则以标题区分
+    const anchor = $item.attr('id') ?? $item.find('[id]').first().attr('id');
+    const guid = link ?? (anchor ? `${withoutHash(pageUrl)}#${anchor}` : `${withoutHash(pageUrl)}#${title}`);
+    if (seen.has(guid)) return;
+    seen.add(guid);
+
+    const $date = selectors.date ? findWithin($item, selectors.date) : $item.find('time').first();
+    const date = parsePageDate($date.attr('datetime') ?? $date.attr('title') ?? collapse($date.text()));
+
+    // 没有链接的条目无法抓取全文，以条目本身作为正文
+    const $summary = selectors.summary ? findWithin($item, selectors.summary) : null;
+    const content = $summary?.length ? $.html($summary) : link ? undefined : $.html($item);
+
+    const imageSrc = $item.find('img[src]').first().attr('src');
+    const image = imageSrc ? resolveLink(imageSrc, baseUrl) : undefined;
+
+    items.push({
+      title,
+      ...(link && { link }),
+      guid,
+      ...(content && { content }),
+      ...(date && { pubDate: date, isoDate: date }),
+      ...(image && { image }),
+    });
+  });
+
+  return items;
+}
+
+/**
+ * 在条目内查找（包括条目本身），无效选择器视为没有匹配
+ */
+function findWithin($item: Cheerio<any>, selector: string): Cheerio<any> {
+  try {
+    return $item.is(selector) ? $item : $item.find(selector).first();
+  } catch {
+    return $item.slice(0, 0);
+  }
+}
+
+function findLink($item: Cheerio<any>): Cheerio<any> {
+  return $item.is('a[href]') ? $item : $item.find('a[href]').first();
+}
+
+/**
+ * 条目字段的建议选择器：多数条目都具备时才使用
+ */
+function suggestFieldSelectors($: CheerioAPI, $items: Cheerio<any>): Omit<PageSelectors, 'item'> {
+  const majority = (count: number) => count >= $items.length * MAJORITY;
+  const countWhere = (predicate: (el: any) => boolean) => $items.filter((_, el) => predicate(el)).length;
+  const suggestion: Omit<PageSelectors, 'item'> = {};
+
+  const heading = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'].find((tag) =>
+    majority(countWhere((el) => $(el).find(tag).length > 0))
+  );
+  if (heading) {
+    suggestion.title = heading;
+    if (majority(countWhere((el) => $(el).find(`${heading} a[href]`).length > 0))) {
+      suggestion.link = `${heading} a`;
+    }
+  }
+
+  if (majority(countWhere((el) => $(el).find('time').length > 0))) {
+    suggestion.date = 'time';
+  } else {
+    const dateClass = commonClass($, $items, /date|time|publish|posted/i, (text) => !!parsePageDate(text));
+    if (dateClass) suggestion.date = `.${dateClass}`;
+  }
+
+  const summaryClass = commonClass($, $items, /summary|excerpt|desc|intro|abstract/i, (text) => text.length > 0);
+  if (summaryClass) suggestion.summary = `.${summaryClass}`;
+
+  return suggestion;
+}
+
+/**
+ * 多数条目中都出现、类名匹配 pattern 且文本满足条件的子元素类名
+ */
+function commonClass(
+  $: CheerioAPI,
+  $items: Cheerio<any>,
+  pattern: RegExp,
+  accept: (text: string) => boolean
+): string | undefined {
+  const counts = new Map<string, number>();
+  $items.each((_, el) => {
+    const classes = new Set<string>();
+    $(el)
+      .find('[class]')
+      .each((_, child) => {
+        const text = collapse($(child).text());
+        for (const name of classNames($(child))) {
+          if (pattern.test(name) && accept(text)) classes.add(name);
+        }
+      });
+    for (const name of classes) counts.set(name, (counts.get(name) ?? 0) + 1);
+  });
+
+  const [best] = [...counts].sort((a, b) => b[1] - a[1]);
+  return best && best[1] >= $items.length * MAJORITY ? best[0] : undefined;
+}
+
+/**
+ * 元素的标签加第一个可用类名，如 li.post
+ */
+function elementSignature($el: Cheerio<any>): string {
+  const tag = ($el.prop('tagName') ?? '').toLowerCase();
+  const [className] = classNames($el);
+  return className ? `${tag}.${className}` : tag;
+}
+
+function classNames($el: Cheerio<any>): string[] {
+  return ($el.attr('class') ?? '').split(/\s+/).filter((name) => SAFE_IDENTIFIER.test(name));
+}
+
+/**
+ * 生成只匹配这一组条目的选择器：条目签名不唯一时逐级加上祖先（遇到 id 为止）
+ */
+function uniqueSelector($: CheerioAPI, $parent: Cheerio<any>, signature: string, count: number): string {
+  let selector = signature;
+  let $ancestor = $parent;
+
+  for (let depth = 0; depth < 4 && $(selector).length !== count && $ancestor.length; depth++) {
+    const tag = ($ancestor.prop('tagName') ?? '').toLowerCase();
+    if (!tag || tag === 'html') break;
+
+    const id = $ancestor.attr('id');
+    if (id && SAFE_IDENTIFIER.test(id)) {
+      return `#${id} > ${selector}`;
+    }
+    selector = `${elementSignature($ancestor)} > ${selector}`;
+    $ancestor = $ancestor.parent();
+  }
+
+  return selector;
+}
+
+function isNonContentArea($: CheerioAPI, $el: Cheerio<any>): boolean {
+  if ($el.is(NON_CONTENT_AREAS) || $el.closest(NON_CONTENT_AREAS).length > 0) return true;
+  return $el
+    .add($el.parents())
+    .toArray()
+    .some((node) => NON_CONTENT_CLASS.test(`${$(node).attr('class') ?? ''} ${$(node).attr('id') ?? ''}`));
+}
+
+function resolveLink(href: string, baseUrl: string): string | undefined {
+  try {
+    const url = new URL(href.trim(), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function withoutHash(url: string): string {
+  return url.split('#')[0];
+}
+
+function collapse(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_TITLE_LENGTH ? `${value.slice(0, MAX_TITLE_LENGTH)}…` : value;
+}
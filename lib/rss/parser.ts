@@ -1,6 +1,6 @@
 /**
  * RSS解析器
- * 支持RSS、Atom、JSON Feed等格式
+ * 支持RSS、Atom、RDF（RSS 1.0）、JSON Feed等格式
  */
 
 import Parser from 'rss-parser';
@@ -10,6 +10,25 @@ import { HttpsProxyAgent } from 'https-proxy-agent';
 import { SocksProxyAgent } from 'socks-proxy-agent';
 import { retry, sleep } from '../utils';
 import { getProxyConfig } from '../system/init-check';
+import { extractItunesMetadata, type ParsedEnclosure } from './enclosures';
+import { parseRetryAfter, parseUpdatePeriod, type FeedScheduleHints } from './schedule';
+import { detectFeedFormat, normalizeRdfRoot, parseJsonFeed, type RawFeedItem } from './formats';
+import {
+  extractPageFeed,
+  extractPageMetadata,
+  suggestPageSelectors,
+  type PageSelectorSuggestion,
+  type PageSelectors,
+} from './page-watcher';
+import {
+  DEFAULT_EXTRACTION_RULES,
+  credentialHosts,
+  extractionRequestHeaders,
+  removeMatchedElements,
+  selectContent,
+  type ExtractionMethod,
+  type ExtractionRules,
+} from './extraction-rules';
 
 /**
  * 浏览器请求头配置 - 模拟真实浏览器访问
@@ -101,6 +120,12 @@ export type ParsedFeed = {
   managingEditor?: string;
   webMaster?: string;
   pubDate?: Date;
+  /** 订阅源声明的调度信息（ttl / sy:updatePeriod / skipHours / skipDays） */
+  schedule?: FeedScheduleHints;
+  /** WebSub hub 地址（<link rel="hub">） */
+  hubUrl?: string;
+  /** 订阅源自身地址（<link rel="self">），WebSub 订阅的 topic */
+  selfUrl?: string;
 };
 
 export type ParsedEntry = {
@@ -121,11 +146,7 @@ export type ParsedEntry = {
   publishedDate?: Date;
   tags?: string[];
   image?: string;
-  enclosure?: {
-    url: string;
-    type?: string;
-    length?: number;
-  };
+  enclosure?: ParsedEnclosure;
   // 从内容提取的元数据
   source?: string;
   extractedDate?: string;
@@ -133,6 +154,66 @@ export type ParsedEntry = {
   raw?: any;
 };
 
+/**
+ * 条件请求校验信息（来自上次响应的 ETag / Last-Modified）
+ */
+export type FeedValidators = {
+  etag?: string | null;
+  lastModified?: string | null;
+};
+
+/**
+ * Feed 响应元数据
+ */
+export type FeedResponseMeta = {
+  /** HTTP 状态码（200 或 304） */
+  status: number;
+  etag?: string;
+  lastModified?: string;
+  /** 响应体字节数（304 时为 0） */
+  bytes: number;
+  /** Content-Type 响应头，辅助识别订阅源格式 */
+  contentType?: string;
+};
+
+/**
+ * HTTP 错误响应，携带状态码和 Retry-After（429 / 503）
+ */
+export class FeedHttpError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly retryAfter: Date | null = null
+  ) {
+    super(message);
+    this.name = 'FeedHttpError';
+  }
+}
+
+/**
+ * 条件抓取结果
+ * notModified 为 true 时服务器返回 304，不包含 feed 内容
+ */
+export type ConditionalParseResult =
+  | { notModified: true; meta: FeedResponseMeta }
+  | { notModified: false; feed: ParsedFeed; meta: FeedResponseMeta };
+
+/**
+ * 网页监控的列表页及选择器
+ */
+type PageSource = {
+  url: string;
+  selectors: PageSelectors;
+};
+
+/**
+ * 从网页提取的全文及使用的提取方式
+ */
+export type ExtractedContent = {
+  html: string;
+  method: ExtractionMethod;
+};
+
 /**
  * 并发控制 - 限制同时执行的 Promise 数量
  */
@@ -234,6 +315,17 @@ export class RSSParser {
           'webMaster',
           'image',
           'icon',
+          'sy:updatePeriod',
+          'sy:updateFrequency',
+          // RDF（RSS 1.0）使用 Dublin Core 声明语言和更新时间
+          'dc:language',
+          'dc:date',
+          // WebSub hub / self 链接（RSS 使用 atom:link，Atom 使用 link）
+          // rss-parser 运行时支持 [字段, 别名, 选项] 形式，但类型定义只声明了字符串
+          ...([
+            ['atom:link', 'atomLinks', { keepArray: true }],
+            ['link', 'links', { keepArray: true }],
+          ] as unknown as string[]),
         ],
         item: [
           // 标准 RSS/Atom 字段
@@ -260,6 +352,8 @@ export class RSSParser {
           'media:credit',
           'enclosure',
           'enclosures',
+          // 播客扩展（iTunes 字段由 rss-parser 解析到 item.itunes）
+          'podcast:chapters',
           // 其他扩展字段
           'category',
           'categories',
@@ -283,10 +377,14 @@ export class RSSParser {
   }
 
   /**
-   * 使用浏览器请求头获取 RSS Feed 内容
-   * 解决反爬虫保护问题
+   * 获取 RSS Feed 响应（支持条件请求）
+   * 携带 If-None-Match / If-Modified-Since，服务器返回 304 时 content 为 null；extraHeaders 为提取规则中的请求头
    */
-  private async fetchFeedContent(url: string): Promise<string> {
+  private async fetchFeedResponse(
+    url: string,
+    validators: FeedValidators = {},
+    extraHeaders: Record<string, string> = {}
+  ): Promise<{ content: string | null; meta: FeedResponseMeta }> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.FEED_FETCH_TIMEOUT);
 
@@ -294,28 +392,52 @@ export class RSSParser {
       // 获取代理配置（从数据库读取）
       const proxyAgent = await getProxyAgent(url);
 
+      const conditionalHeaders: Record<string, string> = {};
+      if (validators.etag) {
+        conditionalHeaders['If-None-Match'] = validators.etag;
+      }
+      if (validators.lastModified) {
+        conditionalHeaders['If-Modified-Since'] = validators.lastModified;
+      }
+
       const response = await axios.get(url, {
         timeout: this.FEED_FETCH_TIMEOUT,
         maxRedirects: 5,
         signal: controller.signal,
         headers: {
           ...BROWSER_HEADERS,
+          ...extraHeaders,
+          ...conditionalHeaders,
           'host': new URL(url).hostname,
         },
         responseType: 'arraybuffer',
         maxContentLength: 50 * 1024 * 1024, // 50MB
+        // 304 Not Modified 视为成功响应
+        validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
         ...proxyAgent,
       });
 
       clearTimeout(timeoutId);
 
+      const meta: FeedResponseMeta = {
+        status: response.status,
+        etag: response.headers['etag'] || undefined,
+        lastModified: response.headers['last-modified'] || undefined,
+        bytes: 0,
+        contentType: response.headers['content-type'] || undefined,
+      };
+
+      if (response.status === 304) {
+        return { content: null, meta };
+      }
+
       // 检测并解码响应内容
-      const contentType = response.headers['content-type'] || '';
+      const contentType = meta.contentType || '';
       let content: string;
 
-      // 处理可能的编码
-      if (response.data instanceof ArrayBuffer) {
-        const buffer = Buffer.from(response.data);
+      // 处理可能的编码（Node.js 下 axios 返回 Buffer 而非 ArrayBuffer）
+      if (Buffer.isBuffer(response.data) || response.data instanceof ArrayBuffer) {
+        const buffer = Buffer.isBuffer(response.data) ? response.data : Buffer.from(response.data);
 
         // 尝试从 content-type 检测编码
         const charsetMatch = contentType.match(/charset=([^;]+)/i);
@@ -339,7 +461,11 @@ export class RSSParser {
         content = response.data;
       }
 
-      return content;
+      meta.bytes = Buffer.isBuffer(response.data) || response.data instanceof ArrayBuffer
+        ? response.data.byteLength
+        : Buffer.byteLength(String(content ?? ''));
+
+      return { content, meta };
     } catch (error: any) {
       clearTimeout(timeoutId);
 
@@ -354,14 +480,15 @@ export class RSSParser {
         throw new Error(`网络连接超时或不可达: ${url}。建议设置 HTTPS_PROXY 环境变量使用代理访问。`);
       } else if (error.response) {
         const status = error.response.status;
+        const retryAfter = parseRetryAfter(error.response.headers?.['retry-after']);
         if (status === 403) {
-          throw new Error(`访问被拒绝 (403): ${url}。该网站可能有反爬虫保护。建议：1) 设置 HTTPS_PROXY 环境变量使用代理 2) 联系网站管理员添加白名单。`);
+          throw new FeedHttpError(`访问被拒绝 (403): ${url}。该网站可能有反爬虫保护。建议：1) 设置 HTTPS_PROXY 环境变量使用代理 2) 联系网站管理员添加白名单。`, status);
         } else if (status === 429) {
-          throw new Error(`请求频率过高 (429): ${url}。请稍后重试。`);
+          throw new FeedHttpError(`请求频率过高 (429): ${url}。请稍后重试。`, status, retryAfter);
         } else if (status === 503) {
-          throw new Error(`服务暂时不可用 (503): ${url}。该网站可能正在维护或有 Cloudflare 保护。`);
+          throw new FeedHttpError(`服务暂时不可用 (503): ${url}。该网站可能正在维护或有 Cloudflare 保护。`, status, retryAfter);
         }
-        throw new Error(`HTTP 错误 ${status}: ${url}`);
+        throw new FeedHttpError(`HTTP 错误 ${status}: ${url}`, status);
       }
 
       throw error;
@@ -375,161 +502,311 @@ export class RSSParser {
     return retry(
       async () => {
         // 使用自定义 fetch 获取内容（带浏览器请求头）
-        const feedContent = await this.fetchFeedContent(url);
+        const { content, meta } = await this.fetchFeedResponse(url);
+        return this.parseFeedContent(content ?? '', meta.contentType);
+      },
+      { maxAttempts: 3, delay: 1000 }
+    );
+  }
 
-        // 使用 parseString 解析内容
-        const feed = await this.parser.parseString(feedContent);
+  /**
+   * 条件抓取并解析 feed
+   * 使用上次保存的 ETag / Last-Modified，未变化时跳过下载和解析；rules 为订阅源的内容提取规则
+   */
+  async parseFeedConditional(
+    url: string,
+    validators: FeedValidators = {},
+    rules: ExtractionRules = DEFAULT_EXTRACTION_RULES
+  ): Promise<ConditionalParseResult> {
+    return retry(
+      async () => {
+        const { content, meta } = await this.fetchFeedResponse(url, validators);
 
-        // 第一遍：快速处理所有条目，不抓取全文
-        const preliminaryItems = (feed.items || []).map((item: any) => {
-          // 提取内容 - 按优先级尝试多个字段
-          let content = item['content:encoded'] || item.content || item['content:html'] || item.summary || '';
-          const description = item.description || '';
+        if (content === null) {
+          return { notModified: true, meta };
+        }
 
-          // 如果主要内容为空或太短，使用 description
-          if ((!content || content.length < this.MIN_CONTENT_LENGTH) && description) {
-            content = description;
-          }
+        const feed = await this.parseFeedContent(content, meta.contentType, rules, url);
+        return { notModified: false, feed, meta };
+      },
+      // 被限流时立即放弃，由调度器按 Retry-After 安排下次抓取
+      { maxAttempts: 3, delay: 1000, shouldRetry: (err) => !(err instanceof FeedHttpError && err.status === 429) }
+    );
+  }
 
-          return {
-            item,
-            content,
-            needsFullFetch: !content || this.stripHtml(content).length < this.MIN_CONTENT_LENGTH,
-          };
-        });
+  /**
+   * 条件抓取网页监控的列表页，按选择器提取条目
+   * 列表页请求同样附加提取规则中的请求头和 Cookie
+   */
+  async parsePageConditional(
+    url: string,
+    selectors: PageSelectors,
+    validators: FeedValidators = {},
+    rules: ExtractionRules = DEFAULT_EXTRACTION_RULES
+  ): Promise<ConditionalParseResult> {
+    return retry(
+      async () => {
+        const { content, meta } = await this.fetchFeedResponse(
+          url,
+          validators,
+          extractionRequestHeaders(rules, url, credentialHosts(url))
+        );
 
-        // 找出需要全文抓取的条目，但限制数量
-        const itemsNeedingFetch = preliminaryItems
-          .filter(p => p.needsFullFetch && p.item.link)
-          .slice(0, this.MAX_FULL_TEXT_FETCHES);
-
-        // 使用并发控制进行全文抓取
-        if (itemsNeedingFetch.length > 0) {
-          const fetchTasks = itemsNeedingFetch.map(p => async () => {
-            try {
-              const fetchedContent = await this.fetchContentWithTimeout(p.item.link);
-              if (fetchedContent && fetchedContent.length > (p.content?.length || 0)) {
-                p.content = fetchedContent;
-              }
-            } catch {
-              // 静默失败
-            }
-          });
-
-          await limitConcurrency(fetchTasks, this.MAX_CONCURRENT_FETCHES);
+        if (content === null) {
+          return { notModified: true, meta };
         }
 
-        // 第二遍：处理所有条目的元数据
-        const items = preliminaryItems.map(({ item, content }) => {
-          try {
-            // 清理HTML内容中的元数据
-            content = this.cleanContentHtml(content || '');
-
-            // 清理HTML标签，获取纯文本摘要
-            const contentSnippet = this.extractSnippet(content);
-
-            // 提取作者 - 多个可能的字段
-            let author = item.author ||
-                        item.creator ||
-                        item['dc:creator'] ||
-                        item['dc:author'] ||
-                        item['mp:author'] ||
-                        undefined;
-
-            // 提取分类/标签
-            const categories = this.extractCategories(item);
-
-            // 从 HTML 内容中提取元数据（微信等特殊格式）
-            const contentMetadata = this.extractMetadataFromContent(content || '');
-
-            // 如果没有从 XML 字段中找到作者，尝试从内容中提取
-            if (!author && contentMetadata.author) {
-              author = contentMetadata.author;
-            }
-
-            // 规范化 author 为字符串
-            const normalizedAuthor = normalizeAuthor(author);
-
-            // 提取图片
-            const image = this.extractImage(item, content);
-
-            // 提取 enclosure 信息
-            const enclosure = this.extractEnclosure(item);
-
-            // 提取各种日期
-            const pubDate = this.parseDate(item.pubDate || item.published || item.created || item['dc:date']);
-            const updatedDate = this.parseDate(item.updated || item.modified);
-
-            return {
-              title: (item.title || 'Untitled').trim(),
-              link: item.link || item['feedburner:origLink'] || (item.guid && item.guid.startsWith('http') ? item.guid : ''),
-              pubDate,
-              content: content || undefined,
-              contentSnippet,
-              author: normalizedAuthor,
-              categories,
-              guid: item.guid || item.id,
-              isoDate: item.isoDate,
-              creator: item.creator,
-              description: item.description,
-              summary: item.summary,
-              updatedDate,
-              publishedDate: pubDate,
-              tags: item.tags || categories,
-              image,
-              enclosure,
-              source: contentMetadata.source,
-              ...(contentMetadata.date && { extractedDate: contentMetadata.date }),
-              raw: process.env.NODE_ENV === 'development' ? item : undefined,
-            } as ParsedEntry;
-          } catch (error) {
-            // 如果单个条目处理失败，返回基本条目
-            console.error('Error parsing RSS item:', error);
-            const rawItem = item as any;
-            const fallbackLink = rawItem.link || (rawItem.guid && rawItem.guid.startsWith('http') ? rawItem.guid : '');
-            return {
-              title: (rawItem.title || 'Untitled').trim(),
-              link: fallbackLink,
-              pubDate: (item as any).pubDate ? new Date((item as any).pubDate) : undefined,
-              content: (item as any).content || (item as any)['content:encoded'] || undefined,
-              contentSnippet: (item as any).contentSnippet || '',
-              author: normalizeAuthor((item as any).author || (item as any).creator),
-              categories: this.extractCategories(item),
-              guid: (item as any).guid,
-            } as ParsedEntry;
+        const feed = await this.parseFeedContent(content, meta.contentType, rules, url, { url, selectors });
+        return { notModified: false, feed, meta };
+      },
+      { maxAttempts: 3, delay: 1000, shouldRetry: (err) => !(err instanceof FeedHttpError && err.status === 429) }
+    );
+  }
+
+  /**
+   * 解析已获取的 feed 内容（如 WebSub 推送的内容）
+   * feedUrl 为订阅源地址，决定全文抓取时可以附加规则中请求头和 Cookie 的网站
+   */
+  async parseFeedString(
+    content: string,
+    contentType?: string,
+    rules: ExtractionRules = DEFAULT_EXTRACTION_RULES,
+    feedUrl?: string
+  ): Promise<ParsedFeed> {
+    return this.parseFeedContent(content, contentType, rules, feedUrl);
+  }
+
+  /**
+   * 按格式解析为 rss-parser 的输出结构
+   * JSON Feed 单独解析，XML 格式交给 rss-parser（RDF 先统一根元素前缀），网页监控按选择器从 HTML 提取
+   */
+  private async parseFeedDocument(
+    feedContent: string,
+    contentType?: string,
+    page?: PageSource
+  ): Promise<{ [key: string]: any } & Parser.Output<{ [key: string]: any }>> {
+    if (page) {
+      return extractPageFeed(feedContent, page.url, page.selectors);
+    }
+    const format = detectFeedFormat(feedContent, contentType);
+    if (format === 'json') {
+      return parseJsonFeed(feedContent);
+    }
+    return this.parser.parseString(format === 'rdf' ? normalizeRdfRoot(feedContent) : feedContent);
+  }
+
+  /**
+   * 解析已下载的 feed 内容
+   */
+  private async parseFeedContent(
+    feedContent: string,
+    contentType?: string,
+    rules: ExtractionRules = DEFAULT_EXTRACTION_RULES,
+    feedUrl?: string,
+    page?: PageSource
+  ): Promise<ParsedFeed> {
+    const feed = await this.parseFeedDocument(feedContent, contentType, page);
+    // 规则中的请求头和 Cookie 只发送到订阅源地址所在的网站（feed 文档中的 <link> 不可信）
+    const hosts = credentialHosts(feedUrl);
+
+    // 第一遍：快速处理所有条目，不抓取全文
+    const preliminaryItems = (feed.items || []).map((item: any) => {
+      // 提取内容 - 按优先级尝试多个字段
+      let content = item['content:encoded'] || item.content || item['content:html'] || item.summary || '';
+      const description = item.description || '';
+
+      // 如果主要内容为空或太短，使用 description
+      if ((!content || content.length < this.MIN_CONTENT_LENGTH) && description) {
+        content = description;
+      }
+
+      return {
+        item,
+        content,
+        needsFullFetch:
+          rules.fullTextMode === 'always' ||
+          (rules.fullTextMode === 'auto' && (!content || this.stripHtml(content).length < this.MIN_CONTENT_LENGTH)),
+      };
+    });
+
+    // 找出需要全文抓取的条目，但限制数量
+    const itemsNeedingFetch = preliminaryItems
+      .filter(p => p.needsFullFetch && p.item.link)
+      .slice(0, this.MAX_FULL_TEXT_FETCHES);
+
+    // 使用并发控制进行全文抓取
+    if (itemsNeedingFetch.length > 0) {
+      const fetchTasks = itemsNeedingFetch.map(p => async () => {
+        try {
+          const fetched = await this.fetchContentWithTimeout(p.item.link, rules, hosts);
+          // always 模式总是使用网页正文，否则只在比订阅源内容更长时替换
+          if (fetched && (rules.fullTextMode === 'always' || fetched.html.length > (p.content?.length || 0))) {
+            p.content = fetched.html;
           }
-        });
+        } catch {
+          // 静默失败
+        }
+      });
+
+      await limitConcurrency(fetchTasks, this.MAX_CONCURRENT_FETCHES);
+    }
+
+    // 第二遍：处理所有条目的元数据
+    const items = preliminaryItems.map(({ item, content }) => {
+      try {
+        // 清理HTML内容中的元数据
+        content = this.cleanContentHtml(content || '', rules.removeSelectors);
+
+        // 清理HTML标签，获取纯文本摘要
+        const contentSnippet = this.extractSnippet(content);
+
+        // 提取作者 - 多个可能的字段
+        let author = item.author ||
+                    item.creator ||
+                    item['dc:creator'] ||
+                    item['dc:author'] ||
+                    item['mp:author'] ||
+                    undefined;
+
+        // 提取分类/标签
+        const categories = this.extractCategories(item);
+
+        // 从 HTML 内容中提取元数据（微信等特殊格式）
+        const contentMetadata = this.extractMetadataFromContent(content || '');
+
+        // 如果没有从 XML 字段中找到作者，尝试从内容中提取
+        if (!author && contentMetadata.author) {
+          author = contentMetadata.author;
+        }
+
+        // 规范化 author 为字符串
+        const normalizedAuthor = normalizeAuthor(author);
+
+        // 提取图片
+        const image = this.extractImage(item, content);
+
+        // 提取 enclosure 信息
+        const enclosure = this.extractEnclosure(item);
+
+        // 提取各种日期
+        const pubDate = this.parseDate(item.pubDate || item.published || item.created || item['dc:date']);
+        const updatedDate = this.parseDate(item.updated || item.modified);
+
+        // RDF 条目没有 guid，以 rdf:about（通常是文章地址）作为标识
+        const rdfAbout = item['rdf:about'];
 
         return {
-          title: (feed.title || 'Untitled Feed').trim(),
-          description: feed.description,
-          link: feed.link,
-          language: feed.language,
-          lastBuildDate: feed.lastBuildDate ? new Date(feed.lastBuildDate) : undefined,
-          items,
-          // 额外的 feed 元数据
-          ...(feed.image && {
-            image: {
-              url: feed.image.url || feed.image.link,
-              title: feed.image.title,
-              link: feed.image.link,
-            },
-          }),
-          ...(feed.icon && { icon: feed.icon }),
-          ...(feed.managingEditor && { managingEditor: feed.managingEditor }),
-          ...(feed.webMaster && { webMaster: feed.webMaster }),
-          ...(feed.pubDate && { pubDate: new Date(feed.pubDate) }),
-        };
-      },
-      { maxAttempts: 3, delay: 1000 }
-    );
+          title: (item.title || 'Untitled').trim(),
+          link: item.link || item['feedburner:origLink'] || (item.guid && item.guid.startsWith('http') ? item.guid : '') || rdfAbout || '',
+          pubDate,
+          content: content || undefined,
+          contentSnippet,
+          author: normalizedAuthor,
+          categories,
+          guid: item.guid || item.id || rdfAbout,
+          isoDate: item.isoDate,
+          creator: item.creator,
+          description: item.description,
+          summary: item.summary,
+          updatedDate,
+          publishedDate: pubDate,
+          tags: item.tags || categories,
+          image,
+          enclosure,
+          source: contentMetadata.source,
+          ...(contentMetadata.date && { extractedDate: contentMetadata.date }),
+          raw: process.env.NODE_ENV === 'development' ? item : undefined,
+        } as ParsedEntry;
+      } catch (error) {
+        // 如果单个条目处理失败，返回基本条目
+        console.error('Error parsing RSS item:', error);
+        const rawItem = item as any;
+        const fallbackLink = rawItem.link || (rawItem.guid && rawItem.guid.startsWith('http') ? rawItem.guid : '');
+        return {
+          title: (rawItem.title || 'Untitled').trim(),
+          link: fallbackLink,
+          pubDate: (item as any).pubDate ? new Date((item as any).pubDate) : undefined,
+          content: (item as any).content || (item as any)['content:encoded'] || undefined,
+          contentSnippet: (item as any).contentSnippet || '',
+          author: normalizeAuthor((item as any).author || (item as any).creator),
+          categories: this.extractCategories(item),
+          guid: (item as any).guid,
+        } as ParsedEntry;
+      }
+    });
+
+    return {
+      title: (feed.title || 'Untitled Feed').trim(),
+      description: feed.description,
+      link: feed.link,
+      language: feed.language || feed['dc:language'],
+      lastBuildDate: this.parseDate(feed.lastBuildDate || feed['dc:date']),
+      items,
+      // 额外的 feed 元数据
+      ...(feed.image && {
+        image: {
+          url: feed.image.url || feed.image.link,
+          title: feed.image.title,
+          link: feed.image.link,
+        },
+      }),
+      ...(feed.icon && { icon: feed.icon }),
+      ...(feed.managingEditor && { managingEditor: feed.managingEditor }),
+      ...(feed.webMaster && { webMaster: feed.webMaster }),
+      ...(feed.pubDate && { pubDate: new Date(feed.pubDate) }),
+      schedule: this.extractScheduleHints(feed),
+      ...this.extractWebSubLinks(feed),
+    };
+  }
+
+  /**
+   * 提取 WebSub hub 和 self 链接
+   */
+  private extractWebSubLinks(feed: any): { hubUrl?: string; selfUrl?: string } {
+    const links: { rel: string; href: string }[] = [...(feed.atomLinks ?? []), ...(feed.links ?? [])]
+      .map((link: any) => link?.$)
+      .filter((attrs: any) => attrs?.rel && attrs?.href);
+    const find = (rel: string) =>
+      links.find((link) => link.rel.split(/\s+/).includes(rel))?.href;
+
+    const hubUrl = find('hub');
+    const selfUrl = find('self') ?? feed.feedUrl;
+    return {
+      ...(hubUrl && { hubUrl }),
+      ...(selfUrl && { selfUrl }),
+    };
+  }
+
+  /**
+   * 提取订阅源声明的调度信息
+   * skipHours / skipDays 由 xml2js 解析为 { hour: [...] } / { day: [...] }
+   */
+  private extractScheduleHints(feed: any): FeedScheduleHints {
+    const ttl = parseInt(feed.ttl, 10);
+    const skipHours = ([] as unknown[]).concat(feed.skipHours?.hour ?? [])
+      .map((h) => parseInt(String(h), 10))
+      .filter((h) => h >= 0 && h <= 23);
+    const skipDays = ([] as unknown[]).concat(feed.skipDays?.day ?? [])
+      .map((d) => String(d).trim())
+      .filter(Boolean);
+
+    return {
+      ...(ttl > 0 && { ttl }),
+      updatePeriod: parseUpdatePeriod(feed['sy:updatePeriod'], feed['sy:updateFrequency']),
+      skipHours,
+      skipDays,
+    };
   }
 
   /**
    * 带超时控制的全文抓取
    * 使用 AbortController 实现更可靠的超时控制
    */
-  private async fetchContentWithTimeout(url: string): Promise<string | null> {
+  private async fetchContentWithTimeout(
+    url: string,
+    rules: ExtractionRules = DEFAULT_EXTRACTION_RULES,
+    hosts: string[] = []
+  ): Promise<ExtractedContent | null> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.FETCH_CONTENT_TIMEOUT);
 
@@ -543,6 +820,7 @@ export class RSSParser {
         signal: controller.signal,
         headers: {
           ...BROWSER_HEADERS,
+          ...extractionRequestHeaders(rules, url, hosts),
           'host': new URL(url).hostname,
         },
         // 限制响应大小（10MB）
@@ -557,23 +835,7 @@ export class RSSParser {
         return null;
       }
 
-      const $ = load(html);
-      const urlObj = new URL(url);
-      const hostname = urlObj.hostname.replace('www.', '');
-
-      this.removeUnwantedElements($);
-
-      // 尝试各种提取方法
-      const siteSpecificResult = this.extractBySiteSpecific($, hostname);
-      if (siteSpecificResult) return siteSpecificResult;
-
-      const generalResult = this.extractByGeneralSelectors($);
-      if (generalResult) return generalResult;
-
-      const densityResult = this.extractByDensityAnalysis($);
-      if (densityResult) return densityResult;
-
-      return this.extractFallback($);
+      return this.extractContent(load(html), url, rules);
     } catch (error: any) {
       clearTimeout(timeoutId);
       // 超时或网络错误，静默返回 null
@@ -589,7 +851,11 @@ export class RSSParser {
    * 用于 RSS 只有简短摘要时获取全文
    * 支持多种网站的内容提取
    */
-  private async fetchContent(url: string): Promise<string | null> {
+  private async fetchContent(
+    url: string,
+    rules: ExtractionRules = DEFAULT_EXTRACTION_RULES,
+    hosts: string[] = []
+  ): Promise<string | null> {
     try {
       // 获取代理配置
       const proxyAgent = await getProxyAgent(url);
@@ -599,45 +865,50 @@ export class RSSParser {
         maxRedirects: 3,
         headers: {
           ...BROWSER_HEADERS,
+          ...extractionRequestHeaders(rules, url, hosts),
           'host': new URL(url).hostname,
         },
         ...proxyAgent,
       });
 
-      const html = response.data;
-      const $ = load(html);
+      return this.extractContent(load(response.data), url, rules)?.html ?? null;
+    } catch (error) {
+      // 记录错误但不抛出，返回 null 让调用者使用现有内容
+      return null;
+    }
+  }
 
-      // 解析 URL 获取域名，用于站点特定选择器
-      const urlObj = new URL(url);
-      const hostname = urlObj.hostname.replace('www.', '');
+  /**
+   * 从网页中提取正文
+   * 优先使用订阅源的自定义选择器，其次依次尝试站点规则、通用选择器、文本密度分析和整个 body
+   */
+  private extractContent($: CheerioAPI, url: string, rules: ExtractionRules): ExtractedContent | null {
+    // 用户规则先于内置清理执行，避免自定义的正文容器被通用规则（如 header、[class*="share"]）误删
+    removeMatchedElements($, rules.removeSelectors);
+    const customResult = selectContent($, rules.contentSelectors);
+    if (customResult) return { html: customResult, method: 'custom' };
 
-      // 移除不需要的元素
-      this.removeUnwantedElements($);
+    // 解析 URL 获取域名，用于站点特定选择器
+    const hostname = new URL(url).hostname.replace('www.', '');
 
-      // 站点特定选择器（高优先级）
-      const siteSpecificResult = this.extractBySiteSpecific($, hostname);
-      if (siteSpecificResult) {
-        return siteSpecificResult;
-      }
+    // 移除不需要的元素
+    this.removeUnwantedElements($);
 
-      // 通用选择器提取
-      const generalResult = this.extractByGeneralSelectors($);
-      if (generalResult) {
-        return generalResult;
-      }
+    // 站点特定选择器（高优先级）
+    const siteSpecificResult = this.extractBySiteSpecific($, hostname);
+    if (siteSpecificResult) return { html: siteSpecificResult, method: 'site' };
 
-      // 文本密度分析提取（类似 Readability）
-      const densityResult = this.extractByDensityAnalysis($);
-      if (densityResult) {
-        return densityResult;
-      }
+    // 通用选择器提取
+    const generalResult = this.extractByGeneralSelectors($);
+    if (generalResult) return { html: generalResult, method: 'general' };
 
-      // 最终 fallback
-      return this.extractFallback($);
-    } catch (error) {
-      // 记录错误但不抛出，返回 null 让调用者使用现有内容
-      return null;
-    }
+    // 文本密度分析提取（类似 Readability）
+    const densityResult = this.extractByDensityAnalysis($);
+    if (densityResult) return { html: densityResult, method: 'density' };
+
+    // 最终 fallback
+    const fallbackResult = this.extractFallback($);
+    return fallbackResult ? { html: fallbackResult, method: 'fallback' } : null;
   }
 
   /**
@@ -940,13 +1211,16 @@ export class RSSParser {
   }
 
   /**
-   * 清理HTML内容中的元数据（微信公众号等）
+   * 清理HTML内容中的元数据（微信公众号等）和订阅源规则指定移除的元素
    */
-  private cleanContentHtml(html: string): string {
+  private cleanContentHtml(html: string, removeSelectors: string[] = []): string {
     if (!html) return html;
 
     const $ = load(html);
 
+    // 0. 移除订阅源规则指定的元素
+    removeMatchedElements($, removeSelectors);
+
     // 1. 移除开头的作者/日期/地点信息
     // 通常格式：<p><span>作者</span> <span>日期</span> <span>地点</span></p>
     const firstP = $('p').first();
@@ -1214,6 +1488,11 @@ export class RSSParser {
    * 支持 Media RSS、enclosure 和从 HTML 内容中提取
    */
   private extractImage(item: any, content: string): string | undefined {
+    // 0. JSON Feed 条目图片
+    if (typeof item.image === 'string' && item.image) {
+      return item.image;
+    }
+
     // 1. 检查 media:thumbnail
     if (item['media:thumbnail']) {
       const thumbnail = item['media:thumbnail'];
@@ -1331,22 +1610,24 @@ export class RSSParser {
   }
 
   /**
-   * 提取 enclosure 信息
+   * 提取 enclosure 信息（含 iTunes 播客元数据）
    */
-  private extractEnclosure(item: any): { url: string; type?: string; length?: number } | undefined {
+  private extractEnclosure(item: any): ParsedEnclosure | undefined {
     const enclosure = item.enclosure || item.enclosures?.[0];
 
     if (!enclosure) return undefined;
 
     if (typeof enclosure === 'string') {
-      return { url: enclosure };
+      return { url: enclosure, ...extractItunesMetadata(item) };
     }
 
     if (enclosure.url) {
+      const length = parseInt(enclosure.length || '0', 10);
       return {
         url: enclosure.url,
         type: enclosure.type || enclosure.mimeType,
-        length: enclosure.length || parseInt(enclosure.length || '0'),
+        length: length > 0 ? length : undefined,
+        ...extractItunesMetadata(item),
       };
     }
 
@@ -1390,14 +1671,61 @@ export class RSSParser {
    */
   async validateFeedUrl(url: string): Promise<boolean> {
     try {
-      const feedContent = await this.fetchFeedContent(url);
-      await this.parser.parseString(feedContent);
+      const { content, meta } = await this.fetchFeedResponse(url);
+      await this.parseFeedDocument(content ?? '', meta.contentType);
       return true;
     } catch {
       return false;
     }
   }
 
+  /**
+   * 按提取规则抓取单个网页的正文，用于保存规则前预览
+   * 与抓取订阅源时的处理相同（含元数据清理），请求头和 Cookie 只在 url 属于 hosts 时附加，无法提取时返回 null
+   */
+  async previewExtraction(
+    url: string,
+    rules: ExtractionRules,
+    hosts: string[]
+  ): Promise<{ content: string; method: ExtractionMethod; textLength: number } | null> {
+    const extracted = await this.fetchContentWithTimeout(url, rules, hosts);
+    if (!extracted) return null;
+
+    const content = this.cleanContentHtml(extracted.html, rules.removeSelectors);
+    return {
+      content,
+      method: extracted.method,
+      textLength: this.stripHtml(content).length,
+    };
+  }
+
+  /**
+   * 抓取网页监控的列表页，用于保存前预览
+   * 指定选择器时返回按选择器提取的条目，否则返回自动识别的候选选择器
+   */
+  async previewPage(
+    url: string,
+    selectors?: PageSelectors,
+    rules: ExtractionRules = DEFAULT_EXTRACTION_RULES
+  ): Promise<{ title: string; items: RawFeedItem[]; suggestions: PageSelectorSuggestion[] }> {
+    const { content, meta } = await this.fetchFeedResponse(
+      url,
+      {},
+      extractionRequestHeaders(rules, url, credentialHosts(url))
+    );
+    const html = content ?? '';
+
+    if (detectFeedFormat(html, meta.contentType)) {
+      throw new Error('该地址是订阅源，请直接订阅');
+    }
+
+    const { title } = extractPageMetadata(html, url);
+    if (selectors) {
+      return { title, items: extractPageFeed(html, url, selectors).items, suggestions: [] };
+    }
+    return { title, items: [], suggestions: suggestPageSelectors(html, url) };
+  }
+
   /**
    * 从HTML页面发现RSS feeds
    */
@@ -1466,6 +1794,41 @@ export async function parseFeed(url: string): Promise<ParsedFeed> {
   return rssParser.parseFeed(url);
 }
 
+/**
+ * 便捷函数：条件抓取并解析feed
+ */
+export async function parseFeedConditional(
+  url: string,
+  validators: FeedValidators = {},
+  rules: ExtractionRules = DEFAULT_EXTRACTION_RULES
+): Promise<ConditionalParseResult> {
+  return rssParser.parseFeedConditional(url, validators, rules);
+}
+
+/**
+ * 便捷函数：条件抓取网页监控的列表页
+ */
+export async function parsePageConditional(
+  url: string,
+  selectors: PageSelectors,
+  validators: FeedValidators = {},
+  rules: ExtractionRules = DEFAULT_EXTRACTION_RULES
+): Promise<ConditionalParseResult> {
+  return rssParser.parsePageConditional(url, selectors, validators, rules);
+}
+
+/**
+ * 便捷函数：解析已获取的feed内容
+ */
+export async function parseFeedString(
+  content: string,
+  contentType?: string,
+  rules: ExtractionRules = DEFAULT_EXTRACTION_RULES,
+  feedUrl?: string
+): Promise<ParsedFeed> {
+  return rssParser.parseFeedString(content, contentType, rules, feedUrl);
+}
+
 /**
  * 便捷函数：验证feed URL
  */
@@ -0,0 +1,221 @@
+/**
+ * 自适应抓取调度
+ * 根据订阅源的实际发布节奏、声明的更新周期（ttl / sy:updatePeriod）、WebSub 推送状态、
+ * 服务器限流（Retry-After）、连续失败次数和 skipHours / skipDays 预测下次抓取时间
+ */
+
+/** 最短抓取间隔（秒） */
+export const MIN_FETCH_INTERVAL = 15 * 60;
+
+/** 最长抓取间隔（秒） */
+export const MAX_FETCH_INTERVAL = 24 * 60 * 60;
+
+/** 估算发布节奏所需的最少发布记录数 */
+const MIN_CADENCE_SAMPLES = 3;
+
+/** 距上次发布超过节奏的倍数时视为不活跃，逐步降低频率 */
+const IDLE_CADENCE_MULTIPLIER = 10;
+
+/** 指数退避的最大次方，避免溢出 */
+const MAX_BACKOFF_EXPONENT = 10;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** sy:updatePeriod 对应的秒数 */
+const UPDATE_PERIODS: Record<string, number> = {
+  hourly: 3600,
+  daily: 86400,
+  weekly: 7 * 86400,
+  monthly: 30 * 86400,
+  yearly: 365 * 86400,
+};
+
+/**
+ * 订阅源声明的调度信息
+ */
+export interface FeedScheduleHints {
+  /** RSS ttl（分钟） */
+  ttl?: number;
+  /** sy:updatePeriod / sy:updateFrequency 换算的更新周期（秒） */
+  updatePeriod?: number;
+  /** 不抓取的小时（GMT，0-23） */
+  skipHours: number[];
+  /** 不抓取的星期（英文全称） */
+  skipDays: string[];
+}
+
+export interface ScheduleInput {
+  now?: Date;
+  /** 订阅源设置的抓取间隔（秒），无发布记录时使用 */
+  fetchInterval: number;
+  /** 订阅者中的最高优先级（1-10） */
+  priority: number;
+  /** 连续失败次数 */
+  errorCount: number;
+  /** 服务器通过 Retry-After 要求的最早重试时间 */
+  retryAfter?: Date | null;
+  /** 最近文章的发布时间 */
+  publishedAt: Date[];
+  ttl?: number | null;
+  updatePeriod?: number | null;
+  skipHours?: number[];
+  skipDays?: string[];
+  /** WebSub 推送生效中，只需低频兜底轮询 */
+  pushActive?: boolean;
+}
+
+export interface SchedulePrediction {
+  nextFetchAt: Date;
+  /** 抓取间隔（秒） */
+  interval: number;
+  /** 预测依据，展示给用户 */
+  reason: string;
+}
+
+/**
+ * 格式化时长
+ */
+export function formatInterval(seconds: number): string {
+  if (seconds < 3600) return `${Math.max(1, Math.round(seconds / 60))} 分钟`;
+  if (seconds < 86400) return `${Math.round((seconds / 3600) * 10) / 10} 小时`;
+  return `${Math.round((seconds / 86400) * 10) / 10} 天`;
+}
+
+/**
+ * 估算发布间隔（秒）：相邻发布时间差的中位数
+ * 发布记录不足时返回 null
+ */
+export function estimatePublishInterval(publishedAt: Date[]): number | null {
+  const times = [...new Set(publishedAt.map((d) => d.getTime()))].sort((a, b) => a - b);
+  if (times.length < MIN_CADENCE_SAMPLES) return null;
+
+  const gaps = times.slice(1).map((t, i) => (t - times[i]) / 1000);
+  gaps.sort((a, b) => a - b);
+
+  const mid = Math.floor(gaps.length / 2);
+  const median = gaps.length % 2 ? gaps[mid] : (gaps[mid - 1] + gaps[mid]) / 2;
+  return median > 0 ? median : null;
+}
+
+/**
+ * 解析 sy:updatePeriod / sy:updateFrequency 为秒数
+ */
+export function parseUpdatePeriod(period?: string, frequency?: string): number | undefined {
+  const seconds = period ? UPDATE_PERIODS[period.trim().toLowerCase()] : undefined;
+  if (!seconds) return undefined;
+
+  const times = frequency ? parseInt(frequency, 10) : 1;
+  return Math.round(seconds / (times > 0 ? times : 1));
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或 HTTP 日期）
+ */
+export function parseRetryAfter(value: string | undefined | null, now: Date = new Date()): Date | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return new Date(now.getTime() + parseInt(trimmed, 10) * 1000);
+  }
+
+  const date = new Date(trimmed);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * 顺延到不在 skipHours / skipDays 内的时间（按 GMT 计算）
+ */
+export function applySkipRules(date: Date, skipHours: number[] = [], skipDays: string[] = []): Date {
+  if (skipHours.length === 0 && skipDays.length === 0) return date;
+
+  const days = new Set(skipDays.map((d) => d.trim().toLowerCase()));
+  const hours = new Set(skipHours);
+  const isSkipped = (d: Date) =>
+    hours.has(d.getUTCHours()) || days.has(WEEKDAYS[d.getUTCDay()].toLowerCase());
+
+  let result = date;
+  // 最多顺延一周，全部跳过时按原时间抓取
+  for (let i = 0; i < 7 * 24 && isSkipped(result); i++) {
+    result = new Date(result);
+    result.setUTCHours(result.getUTCHours() + 1, 0, 0, 0);
+  }
+
+  return isSkipped(result) ? date : result;
+}
+
+/**
+ * 预测下次抓取时间
+ */
+export function predictNextFetch(input: ScheduleInput): SchedulePrediction {
+  const now = input.now ?? new Date();
+  const reasons: string[] = [];
+  let interval: number;
+
+  // 1. 基础间隔：按实际发布节奏，每个发布周期抓取两次
+  const cadence = estimatePublishInterval(input.publishedAt);
+  if (cadence) {
+    interval = cadence / 2;
+    reasons.push(`发布节奏约每 ${formatInterval(cadence)} 一篇`);
+
+    const latest = Math.max(...input.publishedAt.map((d) => d.getTime()));
+    const idle = (now.getTime() - latest) / 1000;
+    if (idle > cadence * IDLE_CADENCE_MULTIPLIER) {
+      interval = Math.max(interval, idle / IDLE_CADENCE_MULTIPLIER);
+      reasons.push(`已 ${formatInterval(idle)} 未更新，降低频率`);
+    }
+  } else {
+    interval = input.fetchInterval;
+    reasons.push(`发布记录不足，使用设置间隔 ${formatInterval(input.fetchInterval)}`);
+  }
+
+  // 2. 优先级：5 为基准，每级调整 10%
+  const priorityFactor = 1 - (input.priority - 5) * 0.1;
+  if (priorityFactor !== 1) {
+    interval *= priorityFactor;
+    reasons.push(`优先级 ${input.priority}`);
+  }
+
+  // 3. 订阅源声明的更新周期为下限
+  const ttl = input.ttl ? input.ttl * 60 : 0;
+  const declared = Math.max(ttl, input.updatePeriod ?? 0);
+  if (declared > interval) {
+    interval = declared;
+    reasons.push(ttl >= (input.updatePeriod ?? 0) ? `遵循 ttl ${input.ttl} 分钟` : `遵循声明的更新周期 ${formatInterval(declared)}`);
+  }
+
+  // 4. 推送生效时更新由 hub 推送，轮询仅作兜底
+  if (input.pushActive) {
+    interval = MAX_FETCH_INTERVAL;
+    reasons.push('已启用 WebSub 推送，低频兜底轮询');
+  }
+
+  interval = Math.min(Math.max(interval, MIN_FETCH_INTERVAL), MAX_FETCH_INTERVAL);
+
+  // 5. 连续失败时指数退避
+  if (input.errorCount > 0) {
+    interval = Math.min(interval * 2 ** Math.min(input.errorCount, MAX_BACKOFF_EXPONENT), MAX_FETCH_INTERVAL);
+    reasons.push(`连续失败 ${input.errorCount} 次，退避至 ${formatInterval(interval)}`);
+  }
+
+  let nextFetchAt = new Date(now.getTime() + interval * 1000);
+
+  // 6. 服务器限流
+  if (input.retryAfter && input.retryAfter > nextFetchAt) {
+    nextFetchAt = input.retryAfter;
+    reasons.push('服务器要求稍后重试（Retry-After）');
+  }
+
+  // 7. skipHours / skipDays
+  const adjusted = applySkipRules(nextFetchAt, input.skipHours, input.skipDays);
+  if (adjusted.getTime() !== nextFetchAt.getTime()) {
+    nextFetchAt = adjusted;
+    reasons.push('避开订阅源声明的 skipHours / skipDays');
+  }
+
+  return {
+    nextFetchAt,
+    interval: Math.round((nextFetchAt.getTime() - now.getTime()) / 1000),
+    reason: reasons.join('；'),
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * 订阅管理
+ * 订阅源（Feed）按 URL 全局共享，用户通过订阅（Subscription）关联，
+ * 多个用户订阅同一 URL 时只抓取和存储一份
+ */
+
+import type { Feed, Prisma, Subscription } from '@prisma/client';
+import { db } from '../db';
+import { info, warn } from '../logger';
+import { getWebSubManager } from './websub';
+import type { FeedSourceType, PageSelectors } from './page-watcher';
+
+/** 用户对订阅源描述、站点地址和抓取间隔的设置，只作用于自己的订阅 */
+export type SubscriptionOverrides = Partial<Pick<Subscription, 'description' | 'siteUrl' | 'fetchInterval'>>;
+
+export interface SubscribeOptions {
+  title?: string;
+  /** 新建订阅源时写入的描述和站点地址（取自订阅源本身） */
+  description?: string;
+  siteUrl?: string;
+  categoryId?: string | null;
+  tags?: string[];
+  overrides?: SubscriptionOverrides;
+  fetchTimeRange?: number | null;
+  priority?: number;
+  isActive?: boolean;
+  /** 订阅源类型与网页监控选择器，只在新建订阅源时使用 */
+  sourceType?: FeedSourceType;
+  pageSelectors?: PageSelectors;
+}
+
+/** 订阅中由用户设置的字段 */
+export type SubscriptionSettings = Pick<
+  Subscription,
+  'categoryId' | 'title' | 'fetchTimeRange' | 'isActive' | 'unreadCount' | 'priority' | 'tags'
+> & {
+  description: string | null;
+  siteUrl: string | null;
+  fetchInterval: number;
+};
+
+/**
+ * 订阅源 + 当前用户的订阅设置，作为 API 返回的“用户订阅源”
+ * id 为订阅源 ID，title 为用户自定义标题
+ */
+export type UserFeed<F extends Feed = Feed> = F & SubscriptionSettings & {
+  subscriptionId: string;
+  userId: string;
+};
+
+/**
+ * 用户订阅了的订阅源
+ */
+export function feedSubscribedBy(userId: string, where: Prisma.SubscriptionWhereInput = {}): Prisma.FeedWhereInput {
+  return { subscriptions: { some: { userId, ...where } } };
+}
+
+/**
+ * 合并订阅源与订阅设置（描述、站点地址和抓取间隔优先使用用户的设置）
+ */
+export function toUserFeed<F extends Feed>(feed: F, subscription: Subscription): UserFeed<F> {
+  return {
+    ...feed,
+    subscriptionId: subscription.id,
+    userId: subscription.userId,
+    categoryId: subscription.categoryId,
+    title: subscription.title,
+    fetchTimeRange: subscription.fetchTimeRange,
+    isActive: subscription.isActive,
+    unreadCount: subscription.unreadCount,
+    priority: subscription.priority,
+    tags: subscription.tags,
+    description: subscription.description ?? feed.description,
+    siteUrl: subscription.siteUrl ?? feed.siteUrl,
+    fetchInterval: subscription.fetchInterval ?? feed.fetchInterval,
+  };
+}
+
+/**
+ * 查找用户对某订阅源的订阅
+ */
+export async function findSubscription(userId: string, feedId: string) {
+  return db.subscription.findUnique({
+    where: { userId_feedId: { userId, feedId } },
+    include: { feed: true },
+  });
+}
+
+/**
+ * 订阅源所有者的订阅：最早的订阅，即添加该订阅源的用户（其取消订阅后顺延到下一位订阅者）
+ * 内容提取规则和网页监控选择器作用于所有订阅者，只有所有者可以修改
+ */
+export async function findOwnerSubscription(feedId: string) {
+  return db.subscription.findFirst({
+    where: { feedId },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  });
+}
+
+export async function isFeedOwner(userId: string, feedId: string): Promise<boolean> {
+  return (await findOwnerSubscription(feedId))?.userId === userId;
+}
+
+/**
+ * 订阅（订阅源不存在时创建）
+ * @returns created 表示本次是否新建了订阅源（需要首次抓取）
+ */
+export async function subscribe(
+  userId: string,
+  feedUrl: string,
+  options: SubscribeOptions = {}
+): Promise<{ feed: Feed; subscription: Subscription; created: boolean }> {
+  let feed = await db.feed.findUnique({ where: { feedUrl } });
+  let created = false;
+
+  if (!feed) {
+    feed = await db.feed.upsert({
+      where: { feedUrl },
+      create: {
+        feedUrl,
+        title: options.title || new URL(feedUrl).hostname,
+        description: options.description,
+        siteUrl: options.siteUrl,
+        nextFetchAt: new Date(), // 立即抓取
+        sourceType: options.sourceType,
+        pageSelectors: options.pageSelectors,
+      },
+      update: {},
+    });
+    created = true;
+  }
+
+  const subscription = await db.subscription.upsert({
+    where: { userId_feedId: { userId, feedId: feed.id } },
+    create: {
+      userId,
+      feedId: feed.id,
+      title: options.title || feed.title,
+      categoryId: options.categoryId ?? null,
+      tags: options.tags || [],
+      fetchTimeRange: options.fetchTimeRange ?? null,
+      priority: options.priority || 5,
+      isActive: options.isActive ?? true,
+      description: options.overrides?.description ?? null,
+      siteUrl: options.overrides?.siteUrl ?? null,
+      fetchInterval: options.overrides?.fetchInterval ?? null,
+      // 订阅已有订阅源时，已存储的文章全部计为未读
+      unreadCount: created ? 0 : await db.entry.count({ where: { feedId: feed.id } }),
+    },
+    update: {},
+  });
+
+  return { feed, subscription, created };
+}
+
+/**
+ * 取消订阅：删除用户对该订阅源文章的状态；没有订阅者的订阅源连同文章一并删除
+ */
+export async function unsubscribe(userId: string, feedId: string): Promise<void> {
+  await db.$transaction([
+    db.entryState.deleteMany({ where: { userId, entry: { feedId } } }),
+    db.subscription.delete({ where: { userId_feedId: { userId, feedId } } }),
+  ]);
+
+  const remaining = await db.subscription.count({ where: { feedId } });
+  if (remaining === 0) {
+    try {
+      await getWebSubManager().unsubscribe(feedId);
+    } catch (err) {
+      await warn('rss', '取消 WebSub 订阅失败', {
+        feedId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+    await db.feed.delete({ where: { id: feedId } });
+    await info('rss', '订阅源已无订阅者，删除共享存储', { feedId });
+  }
+}
+
+/**
+ * 订阅源的活跃订阅者
+ */
+export async function getSubscriberIds(feedId: string): Promise<string[]> {
+  const subscriptions = await db.subscription.findMany({
+    where: { feedId, isActive: true },
+    select: { userId: true },
+  });
+  return subscriptions.map((s) => s.userId);
+}
+
+/**
+ * 汇总订阅者设置得到抓取策略：
+ * 任一订阅启用即抓取，优先级取最高，时间范围取最宽（任一不限制则不限制），
+ * 抓取间隔取最短（未设置的订阅使用订阅源的默认间隔；没有启用的订阅时为 null）
+ */
+export async function getFetchPolicy(feedId: string): Promise<{
+  isActive: boolean;
+  priority: number;
+  fetchTimeRange: number | null;
+  fetchInterval: number | null;
+}> {
+  const subscriptions = await db.subscription.findMany({
+    where: { feedId, isActive: true },
+    select: { priority: true, fetchTimeRange: true, fetchInterval: true, feed: { select: { fetchInterval: true } } },
+  });
+
+  if (subscriptions.length === 0) {
+    return { isActive: false, priority: 5, fetchTimeRange: null, fetchInterval: null };
+  }
+
+  const ranges = subscriptions.map((s) => s.fetchTimeRange);
+
+  return {
+    isActive: true,
+    priority: Math.max(...subscriptions.map((s) => s.priority)),
+    fetchTimeRange: ranges.includes(null) ? null : Math.max(...(ranges as number[])),
+    fetchInterval: Math.min(...subscriptions.map((s) => s.fetchInterval ?? s.feed.fetchInterval)),
+  };
+}
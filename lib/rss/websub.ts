@@ -0,0 +1,339 @@
+/**
+ * WebSub（PubSubHubbub）推送订阅
+ * 订阅源声明 hub 时向 hub 订阅，hub 回调验证意图后推送更新内容；
+ * 推送生效期间抓取调度降为低频兜底轮询
+ */
+
+import crypto from 'crypto';
+import axios from 'axios';
+import { db } from '../db';
+import { info, warn } from '../logger';
+import { validateUrlForSsrf } from '../utils';
+
+/** 请求的租约时长（秒），hub 可以自行调整 */
+export const WEBSUB_LEASE_SECONDS = 7 * 24 * 60 * 60;
+
+/** 租约到期前多久续订（毫秒） */
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+/** 待验证或被拒绝的订阅多久后重新请求（毫秒） */
+const RETRY_AFTER_MS = 24 * 60 * 60 * 1000;
+
+/** 发出订阅请求后多久内接受 hub 的拒绝通知（毫秒） */
+const DENIAL_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** hub 请求超时（毫秒） */
+const HUB_REQUEST_TIMEOUT = 15000;
+
+/** 推送签名请求头 */
+export const WEBSUB_SIGNATURE_HEADER = 'X-Hub-Signature';
+
+const SIGNATURE_ALGORITHMS = ['sha1', 'sha256', 'sha384', 'sha512'];
+
+export type WebSubMode = 'subscribe' | 'unsubscribe';
+
+export interface HubRequestOptions {
+  hubUrl: string;
+  topicUrl: string;
+  callbackUrl: string;
+  mode: WebSubMode;
+  secret?: string;
+  leaseSeconds?: number;
+}
+
+/**
+ * 回调地址，未配置 WEBSUB_CALLBACK_BASE_URL（hub 可访问的公网地址）时不启用 WebSub
+ */
+export function getWebSubCallbackUrl(feedId: string): string | null {
+  const base = process.env.WEBSUB_CALLBACK_BASE_URL;
+  if (!base) return null;
+  return `${base.replace(/\/+$/, '')}/api/websub/${feedId}`;
+}
+
+/**
+ * 计算推送内容签名（X-Hub-Signature: <算法>=<hex>）
+ */
+export function signWebSubPayload(body: Buffer | string, secret: string, algorithm: string = 'sha1'): string {
+  const digest = crypto.createHmac(algorithm, secret).update(body).digest('hex');
+  return `${algorithm}=${digest}`;
+}
+
+/**
+ * 校验推送内容签名
+ */
+export function verifyWebSubSignature(body: Buffer | string, secret: string, header: string | null): boolean {
+  if (!header) return false;
+
+  const [algorithm, signature] = header.split('=', 2);
+  if (!signature || !SIGNATURE_ALGORITHMS.includes(algorithm?.toLowerCase())) return false;
+
+  const expected = Buffer.from(signWebSubPayload(body, secret, algorithm.toLowerCase()));
+  const actual = Buffer.from(`${algorithm.toLowerCase()}=${signature.toLowerCase()}`);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * 向 hub 发送订阅/取消订阅请求
+ * hub 返回 202 表示已接受，随后会异步回调验证意图
+ */
+export async function sendHubRequest(options: HubRequestOptions): Promise<{ accepted: boolean; error?: string }> {
+  const params = new URLSearchParams({
+    'hub.mode': options.mode,
+    'hub.topic': options.topicUrl,
+    'hub.callback': options.callbackUrl,
+  });
+  if (options.secret) params.set('hub.secret', options.secret);
+  if (options.leaseSeconds) params.set('hub.lease_seconds', String(options.leaseSeconds));
+
+  try {
+    const response = await axios.post(options.hubUrl, params.toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: HUB_REQUEST_TIMEOUT,
+      validateStatus: () => true,
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      return { accepted: true };
+    }
+    return {
+      accepted: false,
+      error: `HTTP ${response.status}: ${String(response.data ?? '').slice(0, 200)}`,
+    };
+  } catch (err) {
+    return { accepted: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * WebSub 订阅管理器
+ */
+export class WebSubManager {
+  /**
+   * 订阅源抓取后调用：声明了 hub 时确保已订阅，hub 或 topic 变化时重新订阅
+   */
+  async ensureSubscribed(feedId: string, hubUrl: string, topicUrl: string): Promise<void> {
+    const existing = await db.webSubSubscription.findUnique({ where: { feedId } });
+
+    if (existing && existing.hubUrl === hubUrl && existing.topicUrl === topicUrl) {
+      if (existing.state === 'active' && !this.needsRenewal(existing.expiresAt)) return;
+      // 待验证、被拒绝的订阅一段时间内不重复请求
+      if (
+        ['pending', 'denied'].includes(existing.state) &&
+        Date.now() - existing.updatedAt.getTime() < RETRY_AFTER_MS
+      ) {
+        return;
+      }
+    }
+
+    await this.subscribe(feedId, hubUrl, topicUrl);
+  }
+
+  /**
+   * 向 hub 订阅（续订时沿用原密钥，租约到期前推送保持有效）
+   */
+  async subscribe(feedId: string, hubUrl: string, topicUrl: string): Promise<boolean> {
+    const callbackUrl = getWebSubCallbackUrl(feedId);
+    if (!callbackUrl) return false;
+
+    try {
+      validateUrlForSsrf(hubUrl);
+    } catch {
+      await warn('rss', 'WebSub hub 地址不安全，跳过订阅', { feedId, hubUrl });
+      return false;
+    }
+
+    const existing = await db.webSubSubscription.findUnique({ where: { feedId } });
+    const renewing =
+      existing?.state === 'active' && existing.hubUrl === hubUrl && existing.topicUrl === topicUrl;
+    const secret = renewing ? existing.secret : crypto.randomBytes(32).toString('hex');
+
+    const requestedAt = new Date();
+    await db.webSubSubscription.upsert({
+      where: { feedId },
+      create: { feedId, hubUrl, topicUrl, secret, requestedAt },
+      update: renewing
+        ? { requestedAt, lastError: null }
+        : { hubUrl, topicUrl, secret, state: 'pending', requestedAt, lastError: null },
+    });
+
+    const result = await sendHubRequest({
+      hubUrl,
+      topicUrl,
+      callbackUrl,
+      mode: 'subscribe',
+      secret,
+      leaseSeconds: WEBSUB_LEASE_SECONDS,
+    });
+
+    if (!result.accepted) {
+      await db.webSubSubscription.update({
+        where: { feedId },
+        // 续订失败时保留当前租约，到期后自然失效
+        data: renewing ? { lastError: result.error } : { state: 'denied', lastError: result.error },
+      });
+      await warn('rss', 'WebSub 订阅请求被拒绝', { feedId, hubUrl, error: result.error });
+      return false;
+    }
+
+    await info('rss', 'WebSub 订阅请求已发送，等待 hub 验证', { feedId, hubUrl, topicUrl });
+    return true;
+  }
+
+  /**
+   * 取消 hub 订阅（订阅源删除前调用）
+   */
+  async unsubscribe(feedId: string): Promise<void> {
+    const subscription = await db.webSubSubscription.findUnique({ where: { feedId } });
+    const callbackUrl = getWebSubCallbackUrl(feedId);
+    if (!subscription || subscription.state !== 'active' || !callbackUrl) return;
+
+    await db.webSubSubscription.update({
+      where: { feedId },
+      data: { state: 'unsubscribed' },
+    });
+
+    const result = await sendHubRequest({
+      hubUrl: subscription.hubUrl,
+      topicUrl: subscription.topicUrl,
+      callbackUrl,
+      mode: 'unsubscribe',
+    });
+    if (!result.accepted) {
+      await warn('rss', 'WebSub 取消订阅请求失败', { feedId, error: result.error });
+    }
+  }
+
+  /**
+   * 验证 hub 回调的订阅意图
+   * @returns 意图匹配时返回 challenge（原样响应给 hub），否则返回 null
+   */
+  async verifyIntent(
+    feedId: string,
+    params: { mode: string; topic: string; challenge: string; leaseSeconds?: number }
+  ): Promise<string | null> {
+    const subscription = await db.webSubSubscription.findUnique({ where: { feedId } });
+    if (!subscription || subscription.topicUrl !== params.topic || !params.challenge) {
+      return null;
+    }
+
+    if (params.mode === 'subscribe' && ['pending', 'active'].includes(subscription.state)) {
+      const leaseSeconds = params.leaseSeconds || WEBSUB_LEASE_SECONDS;
+      await db.webSubSubscription.update({
+        where: { feedId },
+        data: {
+          state: 'active',
+          leaseSeconds,
+          expiresAt: new Date(Date.now() + leaseSeconds * 1000),
+          verifiedAt: new Date(),
+          requestedAt: null,
+          lastError: null,
+        },
+      });
+      await info('rss', 'WebSub 订阅已生效', { feedId, leaseSeconds });
+      return params.challenge;
+    }
+
+    if (params.mode === 'unsubscribe' && subscription.state === 'unsubscribed') {
+      return params.challenge;
+    }
+
+    return null;
+  }
+
+  /**
+   * hub 拒绝订阅（hub.mode=denied）
+   * 只接受待验证的订阅或本服务刚发出订阅请求的订阅，避免伪造的拒绝通知停用生效中的推送
+   * @returns 是否已标记为被拒绝
+   */
+  async markDenied(feedId: string, topic: string, reason?: string): Promise<boolean> {
+    const result = await db.webSubSubscription.updateMany({
+      where: {
+        feedId,
+        topicUrl: topic,
+        OR: [
+          { state: 'pending' },
+          { requestedAt: { gte: new Date(Date.now() - DENIAL_WINDOW_MS) } },
+        ],
+      },
+      data: { state: 'denied', requestedAt: null, lastError: reason || 'hub 拒绝订阅' },
+    });
+
+    if (result.count === 0) {
+      await warn('rss', '忽略与订阅请求不对应的 WebSub 拒绝通知', { feedId, topic });
+      return false;
+    }
+
+    await warn('rss', 'hub 拒绝 WebSub 订阅', { feedId, reason });
+    return true;
+  }
+
+  /**
+   * 获取用于校验推送签名的订阅（仅生效中的订阅接受推送）
+   */
+  async getActiveSubscription(feedId: string) {
+    return db.webSubSubscription.findFirst({
+      where: { feedId, state: 'active' },
+    });
+  }
+
+  /**
+   * 记录推送
+   */
+  async recordPush(feedId: string): Promise<void> {
+    await db.webSubSubscription.update({
+      where: { feedId },
+      data: { lastPushAt: new Date(), pushCount: { increment: 1 } },
+    });
+  }
+
+  /**
+   * 推送是否生效（用于降低轮询频率）
+   */
+  async isPushActive(feedId: string): Promise<boolean> {
+    const count = await db.webSubSubscription.count({
+      where: { feedId, state: 'active', expiresAt: { gt: new Date() } },
+    });
+    return count > 0;
+  }
+
+  /**
+   * 续订即将到期的租约
+   */
+  async renewExpiring(): Promise<number> {
+    if (!process.env.WEBSUB_CALLBACK_BASE_URL) return 0;
+
+    const expiring = await db.webSubSubscription.findMany({
+      where: {
+        state: 'active',
+        expiresAt: { lte: new Date(Date.now() + RENEW_BEFORE_MS) },
+      },
+      select: { feedId: true, hubUrl: true, topicUrl: true },
+    });
+
+    let renewed = 0;
+    for (const subscription of expiring) {
+      if (await this.subscribe(subscription.feedId, subscription.hubUrl, subscription.topicUrl)) {
+        renewed++;
+      }
+    }
+
+    if (expiring.length > 0) {
+      await info('rss', 'WebSub 租约续订完成', { total: expiring.length, renewed });
+    }
+    return renewed;
+  }
+
+  private needsRenewal(expiresAt: Date | null): boolean {
+    return !!expiresAt && expiresAt.getTime() - Date.now() < RENEW_BEFORE_MS;
+  }
+}
+
+// 单例
+let webSubManager: WebSubManager | null = null;
+
+export function getWebSubManager(): WebSubManager {
+  if (!webSubManager) {
+    webSubManager = new WebSubManager();
+  }
+  return webSubManager;
+}
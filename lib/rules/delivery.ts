@@ -0,0 +1,361 @@
+/**
+ * 规则外发动作
+ * 将匹配结果推送到 Webhook、站内通知或邮件，带重试、按规则限流和投递记录
+ */
+
+import { db } from '@/lib/db';
+import { info, warn } from '@/lib/logger';
+import { isUrlSafe, retry } from '@/lib/utils';
+import { entryUserTagsInclude, mergeEntryTags } from '@/lib/entries/state';
+import { getNotificationService } from '@/lib/notifications/service';
+import { createEmailServiceFromUser, createSystemEmailService } from '@/lib/email/service';
+import { deliverWebhook } from './webhook';
+
+/** 外发动作类型 */
+export type OutboundActionType = 'webhook' | 'notify' | 'email';
+
+export const OUTBOUND_ACTION_TYPES: OutboundActionType[] = ['webhook', 'notify', 'email'];
+
+/** 投递状态 */
+export type DeliveryStatus = 'success' | 'failed' | 'rate_limited';
+
+export interface OutboundRule {
+  id: string;
+  userId: string;
+  name: string;
+  rateLimitPerHour?: number | null;
+}
+
+export interface OutboundAction {
+  type: OutboundActionType;
+  params?: Record<string, any>;
+}
+
+interface AttemptResult {
+  success: boolean;
+  attempts: number;
+  target?: string;
+  responseCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+/** 重试参数：最多 3 次，间隔 1s、2s */
+const RETRY_OPTIONS = { maxAttempts: 3, delay: 1000, backoff: 2 };
+
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * 判断是否为外发动作
+ */
+export function isOutboundAction(type: string): type is OutboundActionType {
+  return (OUTBOUND_ACTION_TYPES as string[]).includes(type);
+}
+
+/**
+ * 规则外发投递服务
+ */
+export class RuleDeliveryService {
+  /**
+   * 执行外发动作并记录投递结果
+   * 失败不会抛出异常，避免影响同一规则的其他动作
+   */
+  async dispatch(
+    entryId: string,
+    rule: OutboundRule,
+    action: OutboundAction
+  ): Promise<DeliveryStatus> {
+    const entry = await db.entry.findUnique({
+      where: { id: entryId },
+      include: {
+        feed: {
+          select: { id: true, title: true },
+        },
+        states: entryUserTagsInclude(rule.userId),
+      },
+    });
+
+    if (!entry || !isOutboundAction(action.type)) {
+      return 'failed';
+    }
+
+    // 按规则限流：先占用名额再投递，并发的投递任务不会超过上限
+    const deliveryId = await this.reserve(entryId, rule, action);
+    if (!deliveryId) {
+      await warn('rss', '规则外发动作已限流', {
+        ruleId: rule.id,
+        actionType: action.type,
+        limit: rule.rateLimitPerHour,
+      });
+      return 'rate_limited';
+    }
+
+    let result: AttemptResult;
+    try {
+      switch (action.type) {
+        case 'webhook':
+          result = await this.sendWebhook(entry, rule, action);
+          break;
+        case 'notify':
+          result = await this.sendNotification(entry, rule);
+          break;
+        case 'email':
+          result = await this.sendEmail(entry, rule);
+          break;
+      }
+    } catch (err) {
+      result = {
+        success: false,
+        attempts: 0,
+        target: this.getTarget(action),
+        error: err instanceof Error ? err.message : String(err),
+        durationMs: 0,
+      };
+    }
+
+    const status: DeliveryStatus = result.success ? 'success' : 'failed';
+    await this.complete(deliveryId, status, result);
+
+    if (result.success) {
+      await info('rss', '规则外发动作投递成功', {
+        ruleId: rule.id,
+        entryId,
+        actionType: action.type,
+        attempts: result.attempts,
+      });
+    } else {
+      await warn('rss', '规则外发动作投递失败', {
+        ruleId: rule.id,
+        entryId,
+        actionType: action.type,
+        attempts: result.attempts,
+        error: result.error,
+      });
+    }
+
+    return status;
+  }
+
+  /**
+   * 构建 Webhook 负载
+   */
+  buildPayload(entry: any, rule: OutboundRule) {
+    return {
+      event: 'rule.matched',
+      rule: {
+        id: rule.id,
+        name: rule.name,
+      },
+      entry: {
+        id: entry.id,
+        title: entry.title,
+        url: entry.url,
+        author: entry.author,
+        summary: entry.aiSummary || entry.summary,
+        publishedAt: entry.publishedAt,
+        aiCategory: entry.aiCategory,
+        aiImportanceScore: entry.aiImportanceScore,
+        tags: mergeEntryTags(entry.tags ?? [], entry.states),
+        feed: entry.feed,
+      },
+      matchedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * 推送 Webhook
+   */
+  private async sendWebhook(entry: any, rule: OutboundRule, action: OutboundAction): Promise<AttemptResult> {
+    const url = action.params?.url;
+    if (!url || typeof url !== 'string') {
+      return { success: false, attempts: 0, error: '缺少 Webhook URL', durationMs: 0 };
+    }
+
+    // 早先保存的规则未经地址校验，投递前再次检查
+    const urlCheck = isUrlSafe(url);
+    if (!urlCheck.safe) {
+      return { success: false, attempts: 0, target: url, error: `Webhook URL 不安全: ${urlCheck.reason}`, durationMs: 0 };
+    }
+
+    const result = await deliverWebhook({
+      url,
+      payload: this.buildPayload(entry, rule),
+      secret: action.params?.secret || undefined,
+      maxAttempts: RETRY_OPTIONS.maxAttempts,
+      delay: RETRY_OPTIONS.delay,
+    });
+
+    return { ...result, target: url };
+  }
+
+  /**
+   * 创建站内通知
+   */
+  private async sendNotification(entry: any, rule: OutboundRule): Promise<AttemptResult> {
+    return this.withRetry(undefined, async () => {
+      await getNotificationService().create({
+        userId: rule.userId,
+        type: 'rule_match',
+        title: `规则命中: ${rule.name}`,
+        content: entry.title,
+        data: {
+          entryId: entry.id,
+          feedId: entry.feed?.id,
+          feedTitle: entry.feed?.title,
+          entryTitle: entry.title,
+          link: `/entries/${entry.id}`,
+        },
+      });
+    });
+  }
+
+  /**
+   * 发送邮件摘要行到账户邮箱
+   * 优先使用用户的 SMTP 配置，其次使用系统邮件配置
+   */
+  private async sendEmail(entry: any, rule: OutboundRule): Promise<AttemptResult> {
+    const user = await db.user.findUnique({
+      where: { id: rule.userId },
+      select: { email: true, username: true, emailConfig: true },
+    });
+
+    if (!user) {
+      return { success: false, attempts: 0, error: '用户不存在', durationMs: 0 };
+    }
+
+    // 忽略早先规则中保存的其他收件人
+    const to = user.email;
+    const emailService = createEmailServiceFromUser(user.emailConfig) || createSystemEmailService();
+    if (!emailService) {
+      return { success: false, attempts: 0, target: to, error: '邮件服务未配置', durationMs: 0 };
+    }
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const line = `[${entry.feed?.title || '未知订阅源'}] ${entry.title}`;
+
+    return this.withRetry(to, async () => {
+      const result = await emailService.sendNotificationEmail(
+        to,
+        user.username,
+        `规则命中: ${rule.name}`,
+        line,
+        `${appUrl}/entries/${entry.id}`
+      );
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+    });
+  }
+
+  /**
+   * 带退避重试执行，并统计尝试次数
+   */
+  private async withRetry(target: string | undefined, fn: () => Promise<void>): Promise<AttemptResult> {
+    const startTime = Date.now();
+    let attempts = 0;
+
+    try {
+      await retry(async () => {
+        attempts++;
+        await fn();
+      }, RETRY_OPTIONS);
+      return { success: true, attempts, target, durationMs: Date.now() - startTime };
+    } catch (err) {
+      return {
+        success: false,
+        attempts,
+        target,
+        error: err instanceof Error ? err.message : String(err),
+        durationMs: Date.now() - startTime,
+      };
+    }
+  }
+
+  /**
+   * 获取动作的投递目标
+   */
+  private getTarget(action: OutboundAction): string | undefined {
+    if (action.type === 'webhook') return action.params?.url;
+    return undefined;
+  }
+
+  /**
+   * 占用限流名额并写入进行中的投递记录
+   * 在事务中锁定规则行后统计最近一小时的投递，同一规则的并发投递依次判断
+   * @returns 投递记录 ID；超过上限时记录为 rate_limited 并返回 null
+   */
+  private async reserve(entryId: string, rule: OutboundRule, action: OutboundAction): Promise<string | null> {
+    const target = this.getTarget(action);
+
+    return db.$transaction(async (tx) => {
+      if (rule.rateLimitPerHour && rule.rateLimitPerHour > 0) {
+        await tx.$queryRaw`SELECT id FROM subscription_rules WHERE id = ${rule.id} FOR UPDATE`;
+        const recentCount = await tx.ruleActionDelivery.count({
+          where: {
+            ruleId: rule.id,
+            status: { not: 'rate_limited' },
+            createdAt: { gte: new Date(Date.now() - RATE_LIMIT_WINDOW_MS) },
+          },
+        });
+
+        if (recentCount >= rule.rateLimitPerHour) {
+          await tx.ruleActionDelivery.create({
+            data: {
+              ruleId: rule.id,
+              userId: rule.userId,
+              entryId,
+              actionType: action.type,
+              target,
+              status: 'rate_limited',
+              error: `超过每小时 ${rule.rateLimitPerHour} 次的投递上限`,
+              durationMs: 0,
+            },
+          });
+          return null;
+        }
+      }
+
+      const delivery = await tx.ruleActionDelivery.create({
+        data: {
+          ruleId: rule.id,
+          userId: rule.userId,
+          entryId,
+          actionType: action.type,
+          target,
+          status: 'pending',
+        },
+      });
+      return delivery.id;
+    }, {
+      maxWait: 5000,
+      timeout: 10000,
+    });
+  }
+
+  /**
+   * 写入投递结果
+   */
+  private async complete(deliveryId: string, status: DeliveryStatus, result: AttemptResult): Promise<void> {
+    await db.ruleActionDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        target: result.target,
+        status,
+        attempts: result.attempts,
+        responseCode: result.responseCode,
+        error: result.error?.substring(0, 500),
+        durationMs: result.durationMs,
+      },
+    });
+  }
+}
+
+// 单例导出
+let ruleDeliveryServiceInstance: RuleDeliveryService | null = null;
+
+export function getRuleDeliveryService(): RuleDeliveryService {
+  if (!ruleDeliveryServiceInstance) {
+    ruleDeliveryServiceInstance = new RuleDeliveryService();
+  }
+  return ruleDeliveryServiceInstance;
+}
@@ -4,23 +4,310 @@
  */
 
 import { db } from '@/lib/db';
-import { info, warn } from '@/lib/logger';
-import type { Prisma } from '@prisma/client';
+import { info, warn, error as logError } from '@/lib/logger';
+import {
+  addEntryTags,
+  entryUserTagsInclude,
+  entryVisibleTo,
+  mergeEntryTags,
+  removeEntryTag,
+  setEntryState,
+} from '@/lib/entries/state';
+import { getSubscriberIds } from '@/lib/rss/subscriptions';
+import { addRuleDeliveryJob } from '@/lib/queue/rule-delivery-processor';
+import { isOutboundAction } from './delivery';
+
+/**
+ * 条件字段
+ * - publishedAge: 发布至今的小时数
+ * - language: 初评识别的文章语言
+ */
+export type RuleConditionField =
+  | 'title'
+  | 'content'
+  | 'author'
+  | 'category'
+  | 'tag'
+  | 'feedTitle'
+  | 'aiImportanceScore'
+  | 'aiPrelimValue'
+  | 'aiCategory'
+  | 'aiSentiment'
+  | 'readingTime'
+  | 'wordCount'
+  | 'publishedAge'
+  | 'language'
+  | 'hasMedia';
+
+/**
+ * 条件操作符
+ */
+export type RuleConditionOperator =
+  | 'contains'
+  | 'notContains'
+  | 'equals'
+  | 'notEquals'
+  | 'matches'
+  | 'in'
+  | 'gt'
+  | 'lt';
 
 /**
  * 规则条件定义
  */
 export interface RuleCondition {
-  field: 'title' | 'content' | 'author' | 'category' | 'tag' | 'feedTitle';
-  operator: 'contains' | 'notContains' | 'equals' | 'notEquals' | 'matches' | 'in' | 'gt' | 'lt';
-  value: string | string[] | number;
+  field: RuleConditionField;
+  operator: RuleConditionOperator;
+  value: string | string[] | number | boolean;
+}
+
+/**
+ * 条件组：and 全部满足、or 任一满足、not 全部满足时取反
+ */
+export interface RuleConditionGroup {
+  logic: 'and' | 'or' | 'not';
+  conditions: RuleConditionNode[];
+}
+
+/**
+ * 条件树节点
+ * 规则的 conditions 为节点数组，顶层按 AND 组合，因此旧的扁平条件列表依然有效
+ */
+export type RuleConditionNode = RuleCondition | RuleConditionGroup;
+
+/** 数值类型字段 */
+const NUMERIC_FIELDS: RuleConditionField[] = [
+  'aiImportanceScore',
+  'aiPrelimValue',
+  'readingTime',
+  'wordCount',
+  'publishedAge',
+];
+
+/**
+ * 由 AI 分析填充的字段
+ * 抓取时还没有值，第一条引用这些字段的规则及其后的规则在分析完成后按顺序执行
+ */
+const ANALYSIS_FIELDS: RuleConditionField[] = [
+  'aiImportanceScore',
+  'aiPrelimValue',
+  'aiCategory',
+  'aiSentiment',
+  'readingTime',
+  'wordCount',
+  'language',
+];
+
+/**
+ * 判断节点是否为条件组
+ */
+export function isConditionGroup(node: RuleConditionNode): node is RuleConditionGroup {
+  return typeof node === 'object' && node !== null && 'logic' in node;
+}
+
+/**
+ * 计算条件树（顶层 AND）
+ */
+export function evaluateConditions(entry: any, nodes: RuleConditionNode[]): boolean {
+  return nodes.every(node => evaluateNode(entry, node));
+}
+
+/**
+ * 收集条件树引用的分析字段
+ */
+export function getAnalysisFields(nodes: RuleConditionNode[]): RuleConditionField[] {
+  const fields = new Set<RuleConditionField>();
+  const visit = (node: RuleConditionNode) => {
+    if (isConditionGroup(node)) {
+      node.conditions.forEach(visit);
+    } else if (ANALYSIS_FIELDS.includes(node.field)) {
+      fields.add(node.field);
+    }
+  };
+  nodes.forEach(visit);
+  return [...fields];
+}
+
+/**
+ * 判断文章是否已有这些分析字段的值
+ */
+export function hasAnalysisValues(entry: any, fields: RuleConditionField[]): boolean {
+  return fields.every(field => {
+    const value = getFieldValue(entry, field);
+    return value !== null && value !== '';
+  });
+}
+
+/**
+ * 计算单个条件树节点
+ */
+function evaluateNode(entry: any, node: RuleConditionNode): boolean {
+  if (!isConditionGroup(node)) {
+    return matchConditionValue(entry, node);
+  }
+
+  switch (node.logic) {
+    case 'and':
+      return node.conditions.every(child => evaluateNode(entry, child));
+    case 'or':
+      return node.conditions.some(child => evaluateNode(entry, child));
+    case 'not':
+      return !node.conditions.every(child => evaluateNode(entry, child));
+    default:
+      return false;
+  }
+}
+
+/**
+ * 获取条件字段值
+ */
+function getFieldValue(entry: any, field: RuleConditionField): string | string[] | number | boolean | null {
+  switch (field) {
+    case 'title':
+      return entry.title || '';
+    case 'content':
+      return entry.content || entry.summary || '';
+    case 'author':
+      return entry.author || '';
+    case 'category':
+      return entry.feed?.category?.name || '';
+    case 'tag':
+      return entry.tags || [];
+    case 'feedTitle':
+      return entry.feed?.title || '';
+    case 'aiImportanceScore':
+      // 数据库默认值为 0，未分析时视为缺失
+      return entry.aiImportanceScore || entry.aiAnalyzedAt ? entry.aiImportanceScore : null;
+    case 'aiPrelimValue':
+      return entry.aiPrelimValue ?? null;
+    case 'aiCategory':
+      return entry.aiCategory || '';
+    case 'aiSentiment':
+      return entry.aiSentiment || '';
+    case 'readingTime':
+      return entry.readingTime ?? null;
+    case 'wordCount':
+      return entry.wordCount ?? null;
+    case 'publishedAge': {
+      const publishedAt = entry.publishedAt || entry.createdAt;
+      if (!publishedAt) return null;
+      return (Date.now() - new Date(publishedAt).getTime()) / (60 * 60 * 1000);
+    }
+    case 'language':
+      return entry.aiPrelimLanguage || '';
+    case 'hasMedia':
+      return Boolean(entry.hasMedia);
+    default:
+      return null;
+  }
+}
+
+/**
+ * 匹配单个条件
+ */
+function matchConditionValue(entry: any, condition: RuleCondition): boolean {
+  const fieldValue = getFieldValue(entry, condition.field);
+
+  // 数值字段：值缺失时不匹配
+  if (NUMERIC_FIELDS.includes(condition.field)) {
+    if (typeof fieldValue !== 'number') return false;
+    const target = Number(condition.value);
+    if (Number.isNaN(target)) return false;
+
+    switch (condition.operator) {
+      case 'gt':
+        return fieldValue > target;
+      case 'lt':
+        return fieldValue < target;
+      case 'equals':
+        return fieldValue === target;
+      case 'notEquals':
+        return fieldValue !== target;
+      default:
+        return false;
+    }
+  }
+
+  // 布尔字段
+  if (typeof fieldValue === 'boolean') {
+    const target = condition.value === true || condition.value === 'true';
+    switch (condition.operator) {
+      case 'equals':
+        return fieldValue === target;
+      case 'notEquals':
+        return fieldValue !== target;
+      default:
+        return false;
+    }
+  }
+
+  // 值缺失时不匹配，避免未分析的文章命中 notEquals / notContains
+  if (fieldValue === null || (fieldValue === '' && ANALYSIS_FIELDS.includes(condition.field))) return false;
+
+  // 根据操作符进行比较
+  switch (condition.operator) {
+    case 'contains':
+      return typeof fieldValue === 'string'
+        ? fieldValue.toLowerCase().includes(String(condition.value).toLowerCase())
+        : false;
+    case 'notContains':
+      return typeof fieldValue === 'string'
+        ? !fieldValue.toLowerCase().includes(String(condition.value).toLowerCase())
+        : false;
+    case 'equals':
+      return fieldValue === condition.value;
+    case 'notEquals':
+      return fieldValue !== condition.value;
+    case 'matches': {
+      try {
+        const regex = new RegExp(String(condition.value), 'i');
+        return typeof fieldValue === 'string' && regex.test(fieldValue);
+      } catch {
+        // 无效正则视为不匹配
+        return false;
+      }
+    }
+    case 'in': {
+      if (!Array.isArray(condition.value)) return false;
+      const valueArray = condition.value as string[];
+      if (typeof fieldValue === 'string') {
+        return valueArray.some(v => typeof v === 'string' && v === fieldValue);
+      }
+      if (Array.isArray(fieldValue)) {
+        return fieldValue.some(v =>
+          typeof v === 'string' && valueArray.some(cv => typeof cv === 'string' && cv === v)
+        );
+      }
+      return false;
+    }
+    default:
+      return false;
+  }
 }
 
 /**
  * 规则动作定义
  */
 export interface RuleAction {
-  type: 'markRead' | 'markUnread' | 'star' | 'unstar' | 'archive' | 'unarchive' | 'assignCategory' | 'addTag' | 'removeTag' | 'skip';
+  type:
+    | 'markRead'
+    | 'markUnread'
+    | 'star'
+    | 'unstar'
+    | 'archive'
+    | 'unarchive'
+    | 'assignCategory'
+    | 'addTag'
+    | 'removeTag'
+    | 'skip'
+    | 'webhook'
+    | 'notify'
+    | 'email';
+  /**
+   * 动作参数
+   * - webhook: { url, secret? }，secret 用于 HMAC-SHA256 签名
+   * - email: 无参数，发送到账户邮箱
+   */
   params?: Record<string, any>;
 }
 
@@ -32,11 +319,23 @@ export interface SubscriptionRule {
   userId: string;
   name: string;
   isEnabled: boolean;
-  conditions: RuleCondition[];
+  conditions: RuleConditionNode[];
   actions: RuleAction[];
+  sortOrder: number;
+  stopProcessing: boolean;
+  rateLimitPerHour?: number | null;
   matchedCount: number;
 }
 
+/**
+ * 规则触发来源
+ * - ingest: 抓取新文章时自动执行
+ * - analysis: AI 分析完成后自动执行引用分析字段的规则
+ * - manual: 手动应用到指定文章
+ * - execute: 手动执行规则（最近文章）
+ */
+export type RuleTrigger = 'ingest' | 'analysis' | 'manual' | 'execute';
+
 /**
  * 规则引擎类
  */
@@ -48,13 +347,17 @@ export class RuleEngine {
     entryId: string,
     rule: SubscriptionRule
   ): Promise<boolean> {
-    // 获取文章详情
+    // 获取文章详情，订阅源标题、分类和标签取规则所属用户的设置
     const entry = await db.entry.findUnique({
       where: { id: entryId },
       include: {
+        states: entryUserTagsInclude(rule.userId),
         feed: {
           include: {
-            category: true,
+            subscriptions: {
+              where: { userId: rule.userId },
+              include: { category: true },
+            },
           },
         },
       },
@@ -64,84 +367,19 @@ export class RuleEngine {
       return false;
     }
 
-    // 检查所有条件，必须全部匹配（AND 逻辑）
-    for (const condition of rule.conditions) {
-      const isMatch = await this.matchCondition(entry, condition);
-      if (!isMatch) {
-        return false;
-      }
-    }
-
-    return true;
-  }
-
-  /**
-   * 匹配单个条件
-   */
-  private async matchCondition(
-    entry: any,
-    condition: RuleCondition
-  ): Promise<boolean> {
-    let fieldValue: string | string[] = '';
-
-    // 获取字段值
-    switch (condition.field) {
-      case 'title':
-        fieldValue = entry.title || '';
-        break;
-      case 'content':
-        fieldValue = entry.content || entry.summary || '';
-        break;
-      case 'author':
-        fieldValue = entry.author || '';
-        break;
-      case 'category':
-        fieldValue = entry.feed?.category?.name || '';
-        break;
-      case 'tag':
-        fieldValue = entry.tags || [];
-        break;
-      case 'feedTitle':
-        fieldValue = entry.feed?.title || '';
-        break;
-    }
+    const subscription = entry.feed.subscriptions[0];
+    const ruleEntry = {
+      ...entry,
+      tags: mergeEntryTags(entry.tags, entry.states),
+      feed: {
+        ...entry.feed,
+        title: subscription?.title ?? entry.feed.title,
+        category: subscription?.category ?? null,
+      },
+    };
 
-    // 根据操作符进行比较
-    switch (condition.operator) {
-      case 'contains':
-        return typeof fieldValue === 'string'
-          ? fieldValue.toLowerCase().includes(String(condition.value).toLowerCase())
-          : false;
-      case 'notContains':
-        return typeof fieldValue === 'string'
-          ? !fieldValue.toLowerCase().includes(String(condition.value).toLowerCase())
-          : false;
-      case 'equals':
-        return fieldValue === condition.value;
-      case 'notEquals':
-        return fieldValue !== condition.value;
-      case 'matches':
-        const regex = new RegExp(String(condition.value), 'i');
-        return typeof fieldValue === 'string' && regex.test(fieldValue);
-      case 'in':
-        if (!Array.isArray(condition.value)) return false;
-        const valueArray = condition.value as string[];
-        if (typeof fieldValue === 'string') {
-          return valueArray.some(v => typeof v === 'string' && v === fieldValue);
-        }
-        if (Array.isArray(fieldValue)) {
-          return fieldValue.some(v =>
-            typeof v === 'string' && valueArray.some(cv => typeof cv === 'string' && cv === v)
-          );
-        }
-        return false;
-      case 'gt':
-        return typeof fieldValue === 'number' && fieldValue > Number(condition.value);
-      case 'lt':
-        return typeof fieldValue === 'number' && fieldValue < Number(condition.value);
-      default:
-        return false;
-    }
+    // 顶层条件必须全部匹配（AND 逻辑），条件组内按各自逻辑计算
+    return evaluateConditions(ruleEntry, rule.conditions);
   }
 
   /**
@@ -149,58 +387,62 @@ export class RuleEngine {
    */
   async executeActions(
     entryId: string,
-    actions: RuleAction[]
+    rule: SubscriptionRule
   ): Promise<void> {
-    for (const action of actions) {
-      await this.executeAction(entryId, action);
+    for (const action of rule.actions) {
+      if (isOutboundAction(action.type)) {
+        // 外发动作放入后台队列，由投递服务处理重试、限流和投递记录
+        try {
+          await addRuleDeliveryJob({
+            entryId,
+            rule: {
+              id: rule.id,
+              userId: rule.userId,
+              name: rule.name,
+              rateLimitPerHour: rule.rateLimitPerHour,
+            },
+            action: { type: action.type, params: action.params },
+          });
+        } catch (err) {
+          await logError('rss', '添加规则外发任务失败', err instanceof Error ? err : undefined, {
+            ruleId: rule.id,
+            entryId,
+            actionType: action.type,
+          });
+        }
+        continue;
+      }
+      await this.executeAction(entryId, action, rule.userId);
     }
   }
 
   /**
    * 执行单个动作
    */
-  private async executeAction(entryId: string, action: RuleAction): Promise<void> {
+  private async executeAction(entryId: string, action: RuleAction, userId: string): Promise<void> {
     switch (action.type) {
       case 'markRead':
-        await db.entry.update({
-          where: { id: entryId },
-          data: { isRead: true, readAt: new Date() },
-        });
+        await setEntryState(userId, [entryId], { isRead: true });
         break;
 
       case 'markUnread':
-        await db.entry.update({
-          where: { id: entryId },
-          data: { isRead: false, readAt: null },
-        });
+        await setEntryState(userId, [entryId], { isRead: false });
         break;
 
       case 'star':
-        await db.entry.update({
-          where: { id: entryId },
-          data: { isStarred: true },
-        });
+        await setEntryState(userId, [entryId], { isStarred: true });
         break;
 
       case 'unstar':
-        await db.entry.update({
-          where: { id: entryId },
-          data: { isStarred: false },
-        });
+        await setEntryState(userId, [entryId], { isStarred: false });
         break;
 
       case 'archive':
-        await db.entry.update({
-          where: { id: entryId },
-          data: { isArchived: true },
-        });
+        await setEntryState(userId, [entryId], { isArchived: true });
         break;
 
       case 'unarchive':
-        await db.entry.update({
-          where: { id: entryId },
-          data: { isArchived: false },
-        });
+        await setEntryState(userId, [entryId], { isArchived: false });
         break;
 
       case 'assignCategory':
@@ -212,52 +454,25 @@ export class RuleEngine {
           });
 
           if (entry) {
-            await db.entry.update({
-              where: { id: entryId },
-              data: {} as any,
-            });
-            // 更新 feed 的分类
-            await db.feed.update({
-              where: { id: entry.feedId },
+            // 更新用户订阅的分类
+            await db.subscription.updateMany({
+              where: { userId, feedId: entry.feedId },
               data: { categoryId: action.params.categoryId },
             });
           }
         }
         break;
 
+      // 标签保存在用户的文章状态中，不影响其他订阅者
       case 'addTag':
         if (action.params?.tag && typeof action.params.tag === 'string') {
-          const entry = await db.entry.findUnique({
-            where: { id: entryId },
-            select: { tags: true },
-          });
-
-          if (entry) {
-            const tags = entry.tags || [];
-            if (!tags.includes(action.params.tag)) {
-              await db.entry.update({
-                where: { id: entryId },
-                data: { tags: [...tags, action.params.tag] },
-              });
-            }
-          }
+          await addEntryTags(userId, entryId, [action.params.tag]);
         }
         break;
 
       case 'removeTag':
         if (action.params?.tag && typeof action.params.tag === 'string') {
-          const tagToRemove = action.params.tag;
-          const entry = await db.entry.findUnique({
-            where: { id: entryId },
-            select: { tags: true },
-          });
-
-          if (entry && entry.tags) {
-            await db.entry.update({
-              where: { id: entryId },
-              data: { tags: entry.tags.filter((t: string) => t !== tagToRemove) },
-            });
-          }
+          await removeEntryTag(userId, entryId, action.params.tag);
         }
         break;
 
@@ -268,53 +483,191 @@ export class RuleEngine {
   }
 
   /**
-   * 处理新文章，应用所有启用的规则
+   * 应用单个规则：匹配成功则执行动作并记录匹配日志
+   * @returns 是否匹配
+   */
+  async applyRule(
+    entryId: string,
+    rule: SubscriptionRule,
+    trigger: RuleTrigger
+  ): Promise<boolean> {
+    const isMatch = await this.matchRule(entryId, rule);
+    if (!isMatch) {
+      return false;
+    }
+
+    await this.executeActions(entryId, rule);
+
+    // 更新匹配计数
+    await db.subscriptionRule.update({
+      where: { id: rule.id },
+      data: {
+        matchedCount: { increment: 1 },
+        lastMatchedAt: new Date(),
+      },
+    });
+
+    // 记录匹配日志（供 rules.history 查询）
+    await db.ruleMatchLog.create({
+      data: {
+        ruleId: rule.id,
+        userId: rule.userId,
+        entryId,
+        trigger,
+        actions: rule.actions.map(a => a.type),
+      },
+    });
+
+    return true;
+  }
+
+  /**
+   * 处理新文章：对订阅该订阅源的每个用户，按顺序应用其启用规则
+   * 规则设置了 stopProcessing 时，匹配后不再执行该用户的后续规则；
+   * 从第一条引用分析字段的规则起，后续规则全部推迟到分析完成后由 processAnalyzedEntry 按顺序执行
    */
   async processEntry(entryId: string): Promise<{
     matched: string[];
     actions: number;
+    stoppedBy?: string;
+  }> {
+    return this.processSubscribers(entryId, 'ingest');
+  }
+
+  /**
+   * 分析完成后处理文章：按顺序补执行抓取时推迟的规则
+   * 每条规则对同一篇文章只命中一次，初评和深度分析完成后都会调用
+   */
+  async processAnalyzedEntry(entryId: string): Promise<{
+    matched: string[];
+    actions: number;
+    stoppedBy?: string;
+  }> {
+    return this.processSubscribers(entryId, 'analysis');
+  }
+
+  /**
+   * 对订阅该订阅源的每个用户执行规则
+   */
+  private async processSubscribers(entryId: string, trigger: 'ingest' | 'analysis'): Promise<{
+    matched: string[];
+    actions: number;
+    stoppedBy?: string;
+  }> {
+    const entry = await db.entry.findUnique({
+      where: { id: entryId },
+      select: {
+        title: true,
+        feedId: true,
+        aiImportanceScore: true,
+        aiAnalyzedAt: true,
+        aiPrelimValue: true,
+        aiPrelimLanguage: true,
+        aiPrelimStatus: true,
+        aiCategory: true,
+        aiSentiment: true,
+        readingTime: true,
+        wordCount: true,
+      },
+    });
+
+    if (!entry) {
+      await warn('api', '规则处理失败：文章不存在', { entryId });
+      return { matched: [], actions: 0 };
+    }
+
+    const result: { matched: string[]; actions: number; stoppedBy?: string } = { matched: [], actions: 0 };
+
+    for (const userId of await getSubscriberIds(entry.feedId)) {
+      const userResult = await this.processEntryForUser(entryId, entry, userId, trigger);
+      result.matched.push(...userResult.matched);
+      result.actions += userResult.actions;
+      result.stoppedBy = result.stoppedBy ?? userResult.stoppedBy;
+    }
+
+    return result;
+  }
+
+  /**
+   * 按顺序应用单个用户的启用规则
+   * - ingest: 执行到第一条引用分析字段的规则之前为止
+   * - analysis: 从该规则起按顺序补执行尚未命中的规则；遇到所需字段还没有值的规则时停下，等下一次分析后继续，
+   *   分析全部结束（已深度分析或初评未通过）后缺少的字段按不匹配处理；已命中的规则设置了 stopProcessing 时同样停止
+   */
+  private async processEntryForUser(
+    entryId: string,
+    entry: { title: string; aiAnalyzedAt: Date | null; aiPrelimStatus: string | null },
+    userId: string,
+    trigger: 'ingest' | 'analysis'
+  ): Promise<{
+    matched: string[];
+    actions: number;
+    stoppedBy?: string;
   }> {
-    // 获取所有启用的规则
     const rules = await db.subscriptionRule.findMany({
       where: {
+        userId,
         isEnabled: true,
       },
-      orderBy: {
-        createdAt: 'asc',
-      },
+      orderBy: [
+        { sortOrder: 'asc' },
+        { createdAt: 'asc' },
+      ],
     });
 
     if (rules.length === 0) {
       return { matched: [], actions: 0 };
     }
 
+    const matchedBefore = new Set<string>();
+    if (trigger === 'analysis') {
+      const logs = await db.ruleMatchLog.findMany({
+        where: { entryId, userId },
+        select: { ruleId: true },
+      });
+      logs.forEach(log => matchedBefore.add(log.ruleId));
+    }
+
+    const typedRules = rules as unknown as SubscriptionRule[];
+    const firstDeferred = typedRules.findIndex(rule => getAnalysisFields(rule.conditions).length > 0);
+    const analysisFinished = entry.aiAnalyzedAt !== null || entry.aiPrelimStatus === 'rejected';
+
     const matchedRules: string[] = [];
-    let totalActions = 0;
+    const matchedActions: string[] = [];
+    let stoppedBy: string | undefined;
+
+    for (const [index, rule] of typedRules.entries()) {
+      if (matchedBefore.has(rule.id)) {
+        if (rule.stopProcessing) {
+          stoppedBy = rule.name;
+          break;
+        }
+        continue;
+      }
 
-    // 获取文章标题用于日志
-    const entry = await db.entry.findUnique({
-      where: { id: entryId },
-      select: { title: true, feedId: true }
-    });
+      if (firstDeferred !== -1 && index >= firstDeferred) {
+        // 推迟的规则：抓取时停在这里，分析后所需字段还没有值时同样停下，保持规则顺序
+        if (trigger === 'ingest') {
+          break;
+        }
+        if (!analysisFinished && !hasAnalysisValues(entry, getAnalysisFields(rule.conditions))) {
+          break;
+        }
+      } else if (trigger === 'analysis') {
+        // 抓取时已执行过
+        continue;
+      }
 
-    for (const rule of rules) {
-      const isMatch = await this.matchRule(entryId, rule as unknown as SubscriptionRule);
+      const isMatch = await this.applyRule(entryId, rule, trigger);
 
       if (isMatch) {
         matchedRules.push(rule.name);
+        matchedActions.push(...rule.actions.map(a => a.type));
 
-        // 更新匹配计数
-        await db.subscriptionRule.update({
-          where: { id: rule.id },
-          data: {
-            matchedCount: { increment: 1 },
-            lastMatchedAt: new Date(),
-          },
-        });
-
-        // 执行动作
-        await this.executeActions(entryId, rule.actions as unknown as RuleAction[]);
-        totalActions += (rule.actions as unknown as RuleAction[]).length;
+        if (rule.stopProcessing) {
+          stoppedBy = rule.name;
+          break;
+        }
       }
     }
 
@@ -322,40 +675,47 @@ export class RuleEngine {
     if (matchedRules.length > 0) {
       await info('api', '订阅规则执行完成', {
         entryId,
-        entryTitle: entry?.title || 'unknown',
+        entryTitle: entry.title,
+        userId,
+        trigger,
         matchedRules,
         matchedCount: matchedRules.length,
-        totalActions,
-        actions: rules.flatMap(r => (r.actions || []) as any[]).map((a: any) => a?.type).filter(Boolean)
+        totalActions: matchedActions.length,
+        actions: matchedActions,
+        ...(stoppedBy && { stoppedBy }),
       });
     }
 
     return {
       matched: matchedRules,
-      actions: totalActions,
+      actions: matchedActions.length,
+      ...(stoppedBy && { stoppedBy }),
     };
   }
 
   /**
    * 测试规则条件
+   * testResult 统计每个顶层节点的命中数，matches 为整条规则命中的样例文章
    */
   async testRule(
     userId: string,
-    rule: { conditions: RuleCondition[]; actions: RuleAction[] }
+    rule: { conditions: RuleConditionNode[]; actions: RuleAction[] }
   ): Promise<{
     success: boolean;
+    totalEntries: number;
+    matchedCount: number;
+    matches: { entryId: string; entryTitle: string }[];
     testResult: {
-      condition: RuleCondition;
+      condition: RuleConditionNode;
       matchCount: number;
       totalEntries: number;
     }[];
   }> {
     // 获取用户最近的文章用于测试
     const entries = await db.entry.findMany({
-      where: {
-        feed: { userId },
-      },
+      where: entryVisibleTo(userId),
       take: 100,
+      orderBy: { createdAt: 'desc' },
       select: {
         id: true,
         title: true,
@@ -363,12 +723,29 @@ export class RuleEngine {
         summary: true,
         author: true,
         tags: true,
+        states: entryUserTagsInclude(userId),
+        aiImportanceScore: true,
+        aiPrelimValue: true,
+        aiCategory: true,
+        aiSentiment: true,
+        aiPrelimLanguage: true,
+        readingTime: true,
+        wordCount: true,
+        hasMedia: true,
+        publishedAt: true,
+        createdAt: true,
         feed: {
           select: {
             title: true,
-            category: {
+            subscriptions: {
+              where: { userId },
               select: {
-                name: true,
+                title: true,
+                category: {
+                  select: {
+                    name: true,
+                  },
+                },
               },
             },
           },
@@ -376,11 +753,20 @@ export class RuleEngine {
       },
     });
 
+    const ruleEntries = entries.map(({ feed, states, ...entry }) => ({
+      ...entry,
+      tags: mergeEntryTags(entry.tags, states),
+      feed: {
+        title: feed.subscriptions[0]?.title ?? feed.title,
+        category: feed.subscriptions[0]?.category ?? null,
+      },
+    }));
+
     const testResult = rule.conditions.map((condition) => {
       let matchCount = 0;
 
-      for (const entry of entries) {
-        if (this.matchConditionSync(entry, condition)) {
+      for (const entry of ruleEntries) {
+        if (evaluateConditions(entry, [condition])) {
           matchCount++;
         }
       }
@@ -392,75 +778,19 @@ export class RuleEngine {
       };
     });
 
+    const matchedEntries = ruleEntries.filter(entry => evaluateConditions(entry, rule.conditions));
+
     return {
       success: true,
+      totalEntries: entries.length,
+      matchedCount: matchedEntries.length,
+      matches: matchedEntries.slice(0, 10).map(entry => ({
+        entryId: entry.id,
+        entryTitle: entry.title,
+      })),
       testResult,
     };
   }
-
-  /**
-   * 同步版本的条件匹配（用于测试）
-   */
-  private matchConditionSync(entry: any, condition: RuleCondition): boolean {
-    let fieldValue: string | string[] = '';
-
-    switch (condition.field) {
-      case 'title':
-        fieldValue = entry.title || '';
-        break;
-      case 'content':
-        fieldValue = entry.content || entry.summary || '';
-        break;
-      case 'author':
-        fieldValue = entry.author || '';
-        break;
-      case 'category':
-        fieldValue = entry.feed?.category?.name || '';
-        break;
-      case 'tag':
-        fieldValue = entry.tags || [];
-        break;
-      case 'feedTitle':
-        fieldValue = entry.feed?.title || '';
-        break;
-    }
-
-    switch (condition.operator) {
-      case 'contains':
-        return typeof fieldValue === 'string'
-          ? fieldValue.toLowerCase().includes(String(condition.value).toLowerCase())
-          : false;
-      case 'notContains':
-        return typeof fieldValue === 'string'
-          ? !fieldValue.toLowerCase().includes(String(condition.value).toLowerCase())
-          : false;
-      case 'equals':
-        return fieldValue === condition.value;
-      case 'notEquals':
-        return fieldValue !== condition.value;
-      case 'matches':
-        const regex = new RegExp(String(condition.value), 'i');
-        return typeof fieldValue === 'string' && regex.test(fieldValue);
-      case 'in':
-        if (!Array.isArray(condition.value)) return false;
-        const valueArray = condition.value as string[];
-        if (typeof fieldValue === 'string') {
-          return valueArray.some(v => typeof v === 'string' && v === fieldValue);
-        }
-        if (Array.isArray(fieldValue)) {
-          return fieldValue.some(v =>
-            typeof v === 'string' && valueArray.some(cv => typeof cv === 'string' && cv === v)
-          );
-        }
-        return false;
-      case 'gt':
-        return typeof fieldValue === 'number' && fieldValue > Number(condition.value);
-      case 'lt':
-        return typeof fieldValue === 'number' && fieldValue < Number(condition.value);
-      default:
-        return false;
-    }
-  }
 }
 
 // 单例导出
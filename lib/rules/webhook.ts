@@ -0,0 +1,104 @@
+/**
+ * 规则 Webhook 投递
+ * 负责负载签名和带退避重试的 HTTP 投递
+ */
+
+import crypto from 'crypto';
+import axios from 'axios';
+import { retry } from '@/lib/utils';
+
+/** 签名请求头 */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-RSS-Post-Signature';
+/** 时间戳请求头，参与签名以防重放 */
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-RSS-Post-Timestamp';
+
+export interface WebhookDeliveryOptions {
+  url: string;
+  payload: unknown;
+  secret?: string;
+  maxAttempts?: number;
+  delay?: number;
+  timeout?: number;
+}
+
+export interface WebhookDeliveryResult {
+  success: boolean;
+  attempts: number;
+  responseCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * 计算 HMAC-SHA256 签名
+ * 签名内容为 `${timestamp}.${body}`，接收方用相同密钥校验
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp: number): string {
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * 投递 Webhook
+ * 非 2xx 响应或网络错误按指数退避重试，不抛出异常
+ */
+export async function deliverWebhook(options: WebhookDeliveryOptions): Promise<WebhookDeliveryResult> {
+  const { url, payload, secret, maxAttempts = 3, delay = 1000, timeout = 10000 } = options;
+  const body = JSON.stringify(payload);
+  const startTime = Date.now();
+  let attempts = 0;
+  let responseCode: number | undefined;
+
+  try {
+    await retry(
+      async () => {
+        attempts++;
+        // 每次尝试重新签名，保证时间戳新鲜
+        const timestamp = Math.floor(Date.now() / 1000);
+        const headers: Record<string, string> = {
+          'Content-Type': 'application/json',
+          'User-Agent': 'RSS-Post-Webhook/1.0',
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        };
+        if (secret) {
+          headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(body, secret, timestamp);
+        }
+
+        try {
+          const response = await axios.post(url, body, {
+            headers,
+            timeout,
+            maxRedirects: 0,
+            // 以原始字符串发送，保证签名与请求体一致
+            transformRequest: [(data: string) => data],
+          });
+          responseCode = response.status;
+        } catch (err) {
+          if (axios.isAxiosError(err) && err.response) {
+            responseCode = err.response.status;
+          }
+          throw err;
+        }
+      },
+      { maxAttempts, delay, backoff: 2 }
+    );
+
+    return {
+      success: true,
+      attempts,
+      responseCode,
+      durationMs: Date.now() - startTime,
+    };
+  } catch (err) {
+    return {
+      success: false,
+      attempts,
+      responseCode,
+      error: err instanceof Error ? err.message : String(err),
+      durationMs: Date.now() - startTime,
+    };
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * 文章向量嵌入
+ * 负责生成并存储文章嵌入（pgvector），以及历史文章的回填
+ */
+
+import { db } from '../db';
+import { info, warn } from '../logger';
+import { getDefaultAIService, type AIService, type UserAIConfig } from '../ai/client';
+import { safeDecrypt } from '../crypto/encryption';
+
+/** 嵌入维度，需与 schema 中 vector(1536) 一致 */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+/** 生成嵌入时截取的最大字符数 */
+const MAX_EMBEDDING_CHARS = 8000;
+
+/**
+ * 构建用于生成嵌入的文本：标题 + 摘要 + 正文
+ */
+export function buildEmbeddingText(entry: {
+  title: string;
+  aiSummary?: string | null;
+  summary?: string | null;
+  content?: string | null;
+}): string {
+  const parts = [
+    entry.title,
+    entry.aiSummary || entry.summary || '',
+    (entry.content || '').replace(/<[^>]+>/g, ' '),
+  ];
+
+  return parts
+    .filter(Boolean)
+    .join('\n\n')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_EMBEDDING_CHARS);
+}
+
+/**
+ * 转换为 pgvector 字面量
+ */
+export function toVectorLiteral(embedding: number[]): string {
+  if (embedding.length !== EMBEDDING_DIMENSIONS) {
+    throw new Error(`嵌入维度不匹配: 期望 ${EMBEDDING_DIMENSIONS}，实际 ${embedding.length}`);
+  }
+  if (embedding.some((v) => !Number.isFinite(v))) {
+    throw new Error('嵌入包含非法数值');
+  }
+  return `[${embedding.join(',')}]`;
+}
+
+/**
+ * 读取用户 AI 配置（解密 API 密钥）
+ */
+async function loadUserAIConfig(userId: string): Promise<UserAIConfig | undefined> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { aiConfig: true },
+  });
+
+  if (!user?.aiConfig) {
+    return undefined;
+  }
+
+  const dbConfig = user.aiConfig as any;
+  const config: UserAIConfig = {
+    provider: dbConfig.provider,
+    model: dbConfig.model,
+    embeddingModel: dbConfig.embeddingModel,
+    baseURL: dbConfig.baseURL,
+  };
+  if (dbConfig.apiKey) {
+    config.apiKey = safeDecrypt(dbConfig.apiKey) || undefined;
+  }
+  return config;
+}
+
+export interface BackfillOptions {
+  userId?: string;
+  batchSize?: number;
+  limit?: number;
+  onProgress?: (done: number, failed: number) => void;
+}
+
+export interface BackfillResult {
+  processed: number;
+  failed: number;
+}
+
+/**
+ * 文章嵌入服务
+ */
+export class EntryEmbeddingService {
+  /**
+   * 获取用户的 AI 服务（每次读取配置，避免用户修改后仍使用旧密钥）
+   */
+  async getAIService(userId?: string): Promise<AIService> {
+    const userConfig = userId ? await loadUserAIConfig(userId) : undefined;
+    return getDefaultAIService(userConfig);
+  }
+
+  /**
+   * 生成查询文本的嵌入
+   * @returns model 为使用的嵌入模型，只能与同一模型生成的文章嵌入比较
+   */
+  async embedQuery(query: string, userId?: string): Promise<{ embedding: number[]; model: string }> {
+    const aiService = await this.getAIService(userId);
+    const { embedding } = await aiService.generateEmbedding(query.slice(0, MAX_EMBEDDING_CHARS));
+    return { embedding, model: aiService.embeddingModel! };
+  }
+
+  /**
+   * 为单篇文章生成并保存嵌入
+   * @param aiService 可选，调用方已有 AI 服务时复用，否则使用订阅者的配置
+   */
+  async embedEntry(entryId: string, aiService?: AIService): Promise<boolean> {
+    const entry = await db.entry.findUnique({
+      where: { id: entryId },
+      select: {
+        id: true,
+        title: true,
+        summary: true,
+        aiSummary: true,
+        content: true,
+        feed: { select: { subscriptions: { select: { userId: true }, orderBy: { createdAt: 'asc' }, take: 1 } } },
+      },
+    });
+
+    if (!entry) {
+      return false;
+    }
+
+    const text = buildEmbeddingText(entry);
+    if (!text) {
+      return false;
+    }
+
+    const service = aiService || (await this.getAIService(entry.feed.subscriptions[0]?.userId));
+    const { embedding } = await service.generateEmbedding(text);
+    const vector = toVectorLiteral(embedding);
+    // 记录生成嵌入的模型，不同模型的向量不可比较
+
+    await db.$executeRawUnsafe(
+      `UPDATE entries
+       SET embedding = $1::vector, embedding_model = $2, embedded_at = NOW()
+       WHERE id = $3`,
+      vector,
+      service.embeddingModel,
+      entryId
+    );
+
+    return true;
+  }
+
+  /**
+   * 创建 HNSW 余弦距离索引（幂等）
+   * Prisma 无法声明 HNSW 索引，因此在回填时确保存在
+   */
+  async ensureVectorIndex(): Promise<void> {
+    await db.$executeRawUnsafe('CREATE EXTENSION IF NOT EXISTS vector');
+    await db.$executeRawUnsafe(
+      `CREATE INDEX IF NOT EXISTS entries_embedding_hnsw_idx
+       ON entries USING hnsw (embedding vector_cosine_ops)`
+    );
+  }
+
+  /**
+   * 回填缺少嵌入的文章
+   * 指定用户时使用该用户的 AI 配置，并重新生成由其他嵌入模型生成的文章嵌入
+   */
+  async backfill(options: BackfillOptions = {}): Promise<BackfillResult> {
+    const { userId, batchSize = 50, limit, onProgress } = options;
+    let processed = 0;
+    let failed = 0;
+    // 记录失败的文章，避免同一批次反复重试
+    const failedIds = new Set<string>();
+
+    await this.ensureVectorIndex();
+
+    const aiService = userId ? await this.getAIService(userId) : undefined;
+    const model = aiService?.embeddingModel;
+
+    while (!limit || processed + failed < limit) {
+      const take = limit ? Math.min(batchSize, limit - processed - failed) : batchSize;
+      const params: unknown[] = [take];
+      const conditions = [model ? `(e.embedding IS NULL OR e.embedding_model IS DISTINCT FROM $${params.push(model)})` : 'e.embedding IS NULL'];
+      if (userId) {
+        conditions.push(`EXISTS (SELECT 1 FROM subscriptions s WHERE s.feed_id = e.feed_id AND s.user_id = $${params.push(userId)})`);
+      }
+      if (failedIds.size > 0) {
+        conditions.push(`NOT (e.id = ANY($${params.push([...failedIds])}::text[]))`);
+      }
+
+      const rows = await db.$queryRawUnsafe<{ id: string }[]>(
+        `SELECT e.id
+         FROM entries e
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY e.created_at DESC
+         LIMIT $1`,
+        ...params
+      );
+
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        try {
+          const ok = await this.embedEntry(row.id, aiService);
+          if (ok) {
+            processed++;
+          } else {
+            failed++;
+            failedIds.add(row.id);
+          }
+        } catch (err) {
+          failed++;
+          failedIds.add(row.id);
+          await warn('ai', '文章嵌入生成失败', {
+            entryId: row.id,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+
+      onProgress?.(processed, failed);
+    }
+
+    await info('ai', '文章嵌入回填完成', { userId, processed, failed });
+
+    return { processed, failed };
+  }
+
+  /**
+   * 嵌入覆盖情况
+   */
+  async getCoverage(userId?: string): Promise<{ total: number; embedded: number }> {
+    const rows = await db.$queryRawUnsafe<{ total: bigint; embedded: bigint }[]>(
+      `SELECT COUNT(*) AS total, COUNT(e.embedding) AS embedded
+       FROM entries e
+       ${userId ? 'WHERE EXISTS (SELECT 1 FROM subscriptions s WHERE s.feed_id = e.feed_id AND s.user_id = $1)' : ''}`,
+      ...(userId ? [userId] : [])
+    );
+
+    return {
+      total: Number(rows[0]?.total || 0),
+      embedded: Number(rows[0]?.embedded || 0),
+    };
+  }
+}
+
+// 导出单例实例
+let embeddingServiceInstance: EntryEmbeddingService | null = null;
+
+export function getEmbeddingService(): EntryEmbeddingService {
+  if (!embeddingServiceInstance) {
+    embeddingServiceInstance = new EntryEmbeddingService();
+  }
+  return embeddingServiceInstance;
+}
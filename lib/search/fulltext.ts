@@ -0,0 +1,142 @@
+/**
+ * Postgres 全文检索
+ * 维护 entries.search_vector（触发器）和 GIN 索引，支持 CJK 逐字分词
+ *
+ * 环境变量：
+ * - SEARCH_TEXT_CONFIG: 文本检索配置，默认 simple（已安装 zhparser 等扩展时可填对应配置名）
+ * - SEARCH_CJK_TOKENIZER: char（默认，CJK 逐字切分后按短语匹配）或 none（交给检索配置处理）
+ * 修改任一配置后需执行 `npm run search:setup -- --rebuild`
+ */
+
+import { db } from '../db';
+import { info } from '../logger';
+
+export interface FullTextConfig {
+  textConfig: string;
+  cjk: boolean;
+}
+
+/** 高亮标记 */
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_STOP = '</mark>';
+
+/** 正文参与索引的最大字符数（tsvector 上限 1MB） */
+const MAX_INDEXED_CONTENT = 100000;
+
+/** CJK 字符范围（Postgres 正则） */
+const PG_CJK_CLASS = '[\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uac00-\\ud7af\\uf900-\\ufaff]';
+
+/**
+ * 读取全文检索配置
+ */
+export function getFullTextConfig(): FullTextConfig {
+  const textConfig = process.env.SEARCH_TEXT_CONFIG || 'simple';
+  // 配置名会拼入 SQL 函数定义，只允许标识符
+  if (!/^[a-z_][a-z0-9_]*$/i.test(textConfig)) {
+    throw new Error(`无效的 SEARCH_TEXT_CONFIG: ${textConfig}`);
+  }
+
+  return {
+    textConfig,
+    cjk: (process.env.SEARCH_CJK_TOKENIZER || 'char') !== 'none',
+  };
+}
+
+/**
+ * 创建检索函数、触发器和 GIN 索引（幂等）
+ */
+export async function ensureFullTextSearch(config: FullTextConfig = getFullTextConfig()): Promise<void> {
+  const cjkReplace = config.cjk
+    ? `regexp_replace(stripped, '(${PG_CJK_CLASS})', ' \\1 ', 'g')`
+    : 'stripped';
+
+  // 去除 HTML 标签，必要时对 CJK 逐字切分
+  await db.$executeRawUnsafe(`
+    CREATE OR REPLACE FUNCTION rss_search_prepare(doc text) RETURNS text AS $$
+      SELECT ${cjkReplace}
+      FROM (SELECT regexp_replace(coalesce(doc, ''), '<[^>]+>', ' ', 'g') AS stripped) s
+    $$ LANGUAGE sql IMMUTABLE
+  `);
+
+  // 标题 A，关键词/标签和摘要 B，正文 C
+  await db.$executeRawUnsafe(`
+    CREATE OR REPLACE FUNCTION rss_entry_search_vector(
+      title text, summary text, ai_summary text, content text, tags text[], ai_keywords text[]
+    ) RETURNS tsvector AS $$
+      SELECT
+        setweight(to_tsvector('${config.textConfig}'::regconfig, rss_search_prepare(title)), 'A') ||
+        setweight(to_tsvector('${config.textConfig}'::regconfig,
+          rss_search_prepare(array_to_string(coalesce(ai_keywords, '{}') || coalesce(tags, '{}'), ' '))), 'B') ||
+        setweight(to_tsvector('${config.textConfig}'::regconfig,
+          rss_search_prepare(coalesce(ai_summary, '') || ' ' || coalesce(summary, ''))), 'B') ||
+        setweight(to_tsvector('${config.textConfig}'::regconfig,
+          rss_search_prepare(left(content, ${MAX_INDEXED_CONTENT}))), 'C')
+    $$ LANGUAGE sql IMMUTABLE
+  `);
+
+  await db.$executeRawUnsafe(`
+    CREATE OR REPLACE FUNCTION rss_entries_search_vector_trigger() RETURNS trigger AS $$
+    BEGIN
+      NEW.search_vector := rss_entry_search_vector(
+        NEW.title, NEW.summary, NEW.ai_summary, NEW.content, NEW.tags, NEW.ai_keywords
+      );
+      RETURN NEW;
+    END
+    $$ LANGUAGE plpgsql
+  `);
+
+  await db.$executeRawUnsafe(`
+    CREATE OR REPLACE TRIGGER entries_search_vector_update
+    BEFORE INSERT OR UPDATE OF title, summary, ai_summary, content, tags, ai_keywords ON entries
+    FOR EACH ROW EXECUTE FUNCTION rss_entries_search_vector_trigger()
+  `);
+
+  // 与 schema 中 @@index([searchVector], type: Gin) 同名
+  await db.$executeRawUnsafe(
+    'CREATE INDEX IF NOT EXISTS entries_search_vector_idx ON entries USING gin (search_vector)'
+  );
+}
+
+/**
+ * 为已有文章计算 search_vector
+ * @param rebuild 为 true 时重算全部文章（修改检索配置后使用）
+ */
+export async function backfillSearchVectors(options: {
+  rebuild?: boolean;
+  batchSize?: number;
+  onProgress?: (updated: number) => void;
+} = {}): Promise<number> {
+  const { rebuild = false, batchSize = 1000, onProgress } = options;
+  let updated = 0;
+  let cursor = '';
+
+  // 按主键游标分批，避免长事务
+  while (true) {
+    const rows = await db.$queryRawUnsafe<{ id: string }[]>(
+      `SELECT id FROM entries
+       WHERE id > $1 ${rebuild ? '' : 'AND search_vector IS NULL'}
+       ORDER BY id
+       LIMIT $2`,
+      cursor,
+      batchSize
+    );
+
+    if (rows.length === 0) {
+      break;
+    }
+
+    updated += await db.$executeRawUnsafe(
+      `UPDATE entries
+       SET search_vector = rss_entry_search_vector(title, summary, ai_summary, content, tags, ai_keywords)
+       WHERE id = ANY($1::text[])`,
+      rows.map((row) => row.id)
+    );
+
+    cursor = rows[rows.length - 1].id;
+    onProgress?.(updated);
+  }
+
+  await info('system', '全文检索向量回填完成', { updated, rebuild });
+
+  return updated;
+}
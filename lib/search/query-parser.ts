@@ -0,0 +1,154 @@
+/**
+ * 搜索查询语法解析
+ *
+ * 支持：
+ * - 普通词：`rust async`（全部匹配）
+ * - 短语：`"large language model"`
+ * - 排除：`-crypto`、`-"breaking news"`
+ * - 字段过滤：`feed:hackernews`、`tag:ai`、`author:"Paul Graham"`，前加 `-` 表示排除
+ */
+
+export type QueryOperator = 'feed' | 'tag' | 'author';
+
+export interface QueryFieldFilter {
+  field: QueryOperator;
+  value: string;
+  negated: boolean;
+}
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[];
+  excludes: string[];
+  fields: QueryFieldFilter[];
+}
+
+const OPERATORS: QueryOperator[] = ['feed', 'tag', 'author'];
+
+/** CJK 字符（汉字、假名、谚文） */
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+const CJK_CHAR_GLOBAL = new RegExp(`(${CJK_CHAR.source})`, 'g');
+
+/**
+ * 词法切分：保留引号内的空格，记录前缀 `-` 和 `field:`
+ */
+function tokenize(input: string): { negated: boolean; field?: string; value: string; quoted: boolean }[] {
+  const tokens: { negated: boolean; field?: string; value: string; quoted: boolean }[] = [];
+  const pattern = /(-)?(?:([a-zA-Z]+):)?(?:"([^"]*)"?|(\S+))/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    const [, minus, field, quotedValue, bareValue] = match;
+    const value = (quotedValue ?? bareValue ?? '').trim();
+    if (!value) continue;
+    tokens.push({
+      negated: minus === '-',
+      field: field?.toLowerCase(),
+      value,
+      quoted: quotedValue !== undefined,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * 解析搜索查询
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [], phrases: [], excludes: [], fields: [] };
+
+  for (const token of tokenize(input)) {
+    if (token.field && (OPERATORS as string[]).includes(token.field)) {
+      parsed.fields.push({
+        field: token.field as QueryOperator,
+        value: token.value,
+        negated: token.negated,
+      });
+      continue;
+    }
+
+    // 未知字段前缀按普通文本处理
+    const value = token.field ? `${token.field}:${token.value}` : token.value;
+
+    if (token.negated) {
+      parsed.excludes.push(value);
+    } else if (token.quoted) {
+      parsed.phrases.push(value);
+    } else {
+      parsed.terms.push(value);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * CJK 分词：在每个 CJK 字符两侧插入空格，使其成为独立词元
+ * 查询时以短语匹配连续字符，效果等同子串匹配
+ */
+export function segmentCJK(text: string): string {
+  return text.replace(CJK_CHAR_GLOBAL, ' $1 ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 还原 CJK 分词插入的空格（用于高亮片段）
+ */
+export function desegmentCJK(text: string, startSel = '<mark>', stopSel = '</mark>'): string {
+  const sel = `(?:${escapeRegExp(startSel)}|${escapeRegExp(stopSel)})*`;
+  const pattern = new RegExp(`(${CJK_CHAR.source}${sel})\\s+(?=${sel}${CJK_CHAR.source})`, 'g');
+  return text
+    .replace(pattern, '$1')
+    .split(`${stopSel}${startSel}`)
+    .join('');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 转换为 websearch_to_tsquery 可接受的查询串
+ * @param cjk 是否对 CJK 字符分词（需与建索引时一致）
+ * @returns 无文本条件时返回 null
+ */
+export function toWebSearchQuery(parsed: ParsedSearchQuery, cjk: boolean): string | null {
+  const prepare = (value: string) => {
+    const cleaned = value.replace(/["]/g, ' ').trim();
+    return cjk ? segmentCJK(cleaned) : cleaned;
+  };
+  // 含多个词元的内容作为短语，保证顺序相邻
+  const asPhrase = (value: string) => {
+    const prepared = prepare(value);
+    return /\s/.test(prepared) ? `"${prepared}"` : prepared;
+  };
+
+  const parts: string[] = [];
+
+  for (const term of parsed.terms) {
+    // websearch 语法中的 or 保留为逻辑或
+    if (term.toLowerCase() === 'or') {
+      parts.push('or');
+      continue;
+    }
+    const prepared = asPhrase(term);
+    if (prepared) parts.push(prepared);
+  }
+
+  for (const phrase of parsed.phrases) {
+    const prepared = prepare(phrase);
+    if (prepared) parts.push(`"${prepared}"`);
+  }
+
+  // 去掉首尾悬空的 or
+  while (parts[0] === 'or') parts.shift();
+  while (parts[parts.length - 1] === 'or') parts.pop();
+
+  for (const exclude of parsed.excludes) {
+    const prepared = asPhrase(exclude);
+    if (prepared) parts.push(`-${prepared}`);
+  }
+
+  return parts.length > 0 ? parts.join(' ') : null;
+}
+
@@ -5,6 +5,42 @@
 
 import { db } from '../db';
 import type { Prisma } from '@prisma/client';
+import { getEmbeddingService, toVectorLiteral } from './embeddings';
+import { getFullTextConfig, HIGHLIGHT_START, HIGHLIGHT_STOP } from './fulltext';
+import { entryStateFilter, entryStateInclude, entryTagFilter, entryVisibleTo, toUserEntry } from '../entries/state';
+import {
+  desegmentCJK,
+  parseSearchQuery,
+  toWebSearchQuery,
+  type QueryFieldFilter,
+} from './query-parser';
+
+/** RRF 平滑常数 */
+const RRF_K = 60;
+
+/** 混合搜索时每路召回的候选数，语义模式只在这一窗口内分页 */
+const HYBRID_CANDIDATES = 50;
+
+/**
+ * 搜索返回的列；已读/星标和订阅源标题取当前用户的状态与订阅设置
+ * @param userRef 用户 ID 的占位符，未指定用户时为 NULL
+ */
+function searchColumns(userRef: string): string {
+  return `e.id, e.title, e.url, e.summary, e.content, e.published_at,
+  COALESCE((SELECT st.is_read FROM entry_states st WHERE st.entry_id = e.id AND st.user_id = ${userRef}), false) AS is_read,
+  COALESCE((SELECT st.is_starred FROM entry_states st WHERE st.entry_id = e.id AND st.user_id = ${userRef}), false) AS is_starred,
+  e.ai_category, e.ai_importance_score, f.id AS feed_id,
+  COALESCE((SELECT s.title FROM subscriptions s WHERE s.feed_id = e.feed_id AND s.user_id = ${userRef}), f.title) AS feed_title`;
+}
+
+/** 高亮片段分隔符 */
+const HEADLINE_FRAGMENT_DELIMITER = ' … ';
+
+/** 生成正文高亮时截取的最大字符数 */
+const MAX_HEADLINE_SOURCE = 20000;
+
+const TITLE_HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", HighlightAll=true`;
+const CONTENT_HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", MaxFragments=3, MaxWords=30, MinWords=10, FragmentDelimiter="${HEADLINE_FRAGMENT_DELIMITER}"`;
 
 export interface SearchFilters {
   feedIds?: string[];
@@ -30,6 +66,8 @@ export interface SearchResult {
   aiCategory: string | null;
   aiImportanceScore: number;
   relevanceScore: number;
+  /** 向量余弦相似度（仅语义/混合搜索） */
+  similarity?: number;
   highlights?: {
     title: string[];
     content: string[];
@@ -37,6 +75,8 @@ export interface SearchResult {
 }
 
 export interface SearchOptions {
+  /** 限定为该用户订阅的文章 */
+  userId?: string;
   limit?: number;
   offset?: number;
   filters?: SearchFilters;
@@ -50,16 +90,173 @@ export interface SearchOptions {
 export class SearchService {
   /**
    * 关键词搜索
+   * 使用 Postgres 全文检索（search_vector + GIN），按 ts_rank 排序并生成 ts_headline 高亮
+   * 支持短语、排除词和 feed:/tag:/author: 字段过滤，语法见 query-parser.ts
    */
   async keywordSearch(
     query: string,
     options: SearchOptions = {}
   ): Promise<{ results: SearchResult[]; total: number }> {
-    const { limit = 20, offset = 0, filters = {}, includeHighlights = true } = options;
+    try {
+      return await this.fullTextSearch(query, options);
+    } catch (error) {
+      console.error('全文检索失败，回退到模糊匹配:', error);
+      return this.fuzzySearch(query, options);
+    }
+  }
+
+  /**
+   * 全文检索
+   */
+  private async fullTextSearch(
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<{ results: SearchResult[]; total: number }> {
+    const { limit = 20, offset = 0, filters = {}, includeHighlights = true, userId } = options;
+    const { textConfig, cjk } = getFullTextConfig();
+
+    const parsed = parseSearchQuery(query);
+    const tsQuery = toWebSearchQuery(parsed, cjk);
+
+    if (!tsQuery && parsed.fields.length === 0) {
+      return { results: [], total: 0 };
+    }
+
+    // 仅有字段过滤时按时间排序
+    if (!tsQuery) {
+      const { sql: whereSql, params, userRef } = this.buildSqlWhereSafe(filters, userId, 1, parsed.fields);
+
+      const entries = await db.$queryRawUnsafe<any[]>(
+        `SELECT ${searchColumns(userRef)}, 0 AS rank
+        FROM entries e
+        JOIN feeds f ON f.id = e.feed_id
+        WHERE TRUE ${whereSql}
+        ORDER BY e.published_at DESC NULLS LAST
+        LIMIT ${Math.floor(limit)}
+        OFFSET ${Math.floor(offset)}`,
+        ...params
+      );
+
+      const totalResult = await db.$queryRawUnsafe<{ count: bigint }[]>(
+        `SELECT COUNT(*) AS count
+        FROM entries e
+        JOIN feeds f ON f.id = e.feed_id
+        WHERE TRUE ${whereSql}`,
+        ...params
+      );
+
+      return {
+        results: entries.map((entry) => this.toSearchResult(entry)),
+        total: Number(totalResult[0]?.count || 0),
+      };
+    }
+
+    // $1 为查询串，$2 为检索配置，过滤条件参数从 $3 开始
+    const { sql: whereSql, params, userRef } = this.buildSqlWhereSafe(filters, userId, 3, parsed.fields);
+    const highlightSql = includeHighlights
+      ? `,
+        ts_headline($2::regconfig, rss_search_prepare(r.title), q.query, '${TITLE_HEADLINE_OPTIONS}') AS title_headline,
+        ts_headline($2::regconfig, rss_search_prepare(left(coalesce(nullif(r.summary, ''), r.content, ''), ${MAX_HEADLINE_SOURCE})),
+          q.query, '${CONTENT_HEADLINE_OPTIONS}') AS content_headline`
+      : '';
+
+    // 内层先排序分页，只对当前页生成高亮
+    const entries = await db.$queryRawUnsafe<any[]>(
+      `WITH q AS (SELECT websearch_to_tsquery($2::regconfig, $1) AS query)
+      SELECT r.*${highlightSql}
+      FROM (
+        SELECT ${searchColumns(userRef)}, ts_rank(e.search_vector, q.query) AS rank
+        FROM entries e
+        JOIN feeds f ON f.id = e.feed_id
+        CROSS JOIN q
+        WHERE e.search_vector @@ q.query
+          ${whereSql}
+        ORDER BY rank DESC, e.published_at DESC NULLS LAST
+        LIMIT ${Math.floor(limit)}
+        OFFSET ${Math.floor(offset)}
+      ) r
+      CROSS JOIN q
+      ORDER BY r.rank DESC, r.published_at DESC NULLS LAST`,
+      tsQuery,
+      textConfig,
+      ...params
+    );
+
+    const totalResult = await db.$queryRawUnsafe<{ count: bigint }[]>(
+      `SELECT COUNT(*) AS count
+      FROM entries e
+      JOIN feeds f ON f.id = e.feed_id
+      WHERE e.search_vector @@ websearch_to_tsquery($2::regconfig, $1)
+        ${whereSql}`,
+      tsQuery,
+      textConfig,
+      ...params
+    );
+
+    const results = entries.map((entry) => {
+      const result = this.toSearchResult(entry);
+      if (includeHighlights) {
+        result.highlights = this.parseHeadlines(entry.title_headline, entry.content_headline, cjk);
+      }
+      return result;
+    });
+
+    return { results, total: Number(totalResult[0]?.count || 0) };
+  }
+
+  /**
+   * 原始行转换为搜索结果
+   */
+  private toSearchResult(entry: any): SearchResult {
+    return {
+      entryId: entry.id,
+      title: entry.title,
+      url: entry.url,
+      summary: entry.summary,
+      feedTitle: entry.feed_title,
+      feedId: entry.feed_id,
+      publishedAt: entry.published_at ? new Date(entry.published_at) : null,
+      isRead: entry.is_read,
+      isStarred: entry.is_starred,
+      aiCategory: entry.ai_category,
+      aiImportanceScore: entry.ai_importance_score || 0,
+      relevanceScore: Number(entry.rank) || 0,
+    };
+  }
+
+  /**
+   * 解析 ts_headline 结果：只保留含命中标记的片段，并还原 CJK 分词空格
+   */
+  private parseHeadlines(
+    titleHeadline: string | null,
+    contentHeadline: string | null,
+    cjk: boolean
+  ): { title: string[]; content: string[] } {
+    const restore = (text: string) =>
+      (cjk ? desegmentCJK(text, HIGHLIGHT_START, HIGHLIGHT_STOP) : text).replace(/\s+/g, ' ').trim();
+
+    return {
+      title: titleHeadline?.includes(HIGHLIGHT_START) ? [restore(titleHeadline)] : [],
+      content: (contentHeadline || '')
+        .split(HEADLINE_FRAGMENT_DELIMITER)
+        .filter((fragment) => fragment.includes(HIGHLIGHT_START))
+        .map(restore),
+    };
+  }
+
+  /**
+   * 模糊匹配搜索（ILIKE），全文检索未初始化时的回退
+   */
+  private async fuzzySearch(
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<{ results: SearchResult[]; total: number }> {
+    const { limit = 20, offset = 0, filters = {}, includeHighlights = true, userId } = options;
 
     // 构建 WHERE 条件
     const where: Prisma.EntryWhereInput = {
       AND: [
+        ...(userId ? [entryVisibleTo(userId)] : []),
         // 关键词搜索
         {
           OR: [
@@ -70,7 +267,7 @@ export class SearchService {
           ],
         },
         // 应用过滤器
-        ...this.buildFilters(filters),
+        ...this.buildFilters(filters, userId),
       ],
     };
 
@@ -85,8 +282,14 @@ export class SearchService {
           select: {
             id: true,
             title: true,
+            subscriptions: {
+              where: { userId },
+              select: { title: true, categoryId: true },
+              take: 1,
+            },
           },
         },
+        ...(userId && { states: entryStateInclude(userId) }),
       },
       orderBy: [
         { publishedAt: 'desc' },
@@ -94,7 +297,7 @@ export class SearchService {
       ],
       take: limit,
       skip: offset,
-    });
+    }).then((rows) => rows.map(toUserEntry));
 
     // 转换结果并计算相关性得分
     const results: SearchResult[] = entries.map((entry) => ({
@@ -121,167 +324,245 @@ export class SearchService {
 
   /**
    * 语义搜索（使用向量嵌入）
+   * 嵌入不可用时回退到关键词搜索
    */
   async semanticSearch(
     query: string,
     options: SearchOptions = {}
   ): Promise<{ results: SearchResult[]; total: number }> {
-    const { limit = 20, offset = 0, filters = {} } = options;
-
     try {
-      // 获取 AI 服务生成查询嵌入
-      const { getDefaultAIService } = await import('../ai/client');
-      const aiService = getDefaultAIService();
-      const { embedding } = await aiService.generateEmbedding(query);
-
-      // 构建 WHERE 条件（使用参数化查询防止 SQL 注入）
-      const { sql: whereSql, params } = this.buildSqlWhereSafe(filters);
-      const embeddingStr = `[${embedding.join(',')}]`;
-
-      // 查询相似度最高的文章（使用参数化查询）
-      // 注意：embedding 不需要参数化，因为它是系统生成的，不是用户输入
-      const entries = await db.$queryRawUnsafe(
-        `SELECT
-          e.id,
-          e.title,
-          e.url,
-          e.summary,
-          e.published_at,
-          e.is_read,
-          e.is_starred,
-          e.ai_category,
-          e.ai_importance_score,
-          e.content,
-          f.id as "feedId",
-          f.title as "feedTitle"
-        FROM "Entry" e
-        LEFT JOIN "Feed" f ON e."feedId" = f.id
-        WHERE e.embedding IS NOT NULL
-          ${whereSql}
-        ORDER BY (e.embedding <=> '${embeddingStr}'::vector) ASC
-        LIMIT ${limit}
-        OFFSET ${offset}`,
-        ...params
-      ) as any[];
-
-      // 查询总数
-      const totalResult = await db.$queryRawUnsafe(
-        `SELECT COUNT(*) as count
-        FROM "Entry" e
-        WHERE e.embedding IS NOT NULL
-          ${whereSql}`,
-        ...params
-      ) as { count: bigint }[];
-      const total = Number(totalResult[0].count);
+      return await this.vectorSearch(query, options);
+    } catch (error) {
+      console.error('语义搜索失败，回退到关键词搜索:', error);
+      return this.keywordSearch(query, options);
+    }
+  }
 
-      // 转换结果并计算相关性得分
-      const results: SearchResult[] = entries.map((entry: any) => ({
+  /**
+   * 向量检索：按余弦距离排序（走 HNSW 索引），返回相似度
+   */
+  private async vectorSearch(
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<{ results: SearchResult[]; total: number }> {
+    const { limit = 20, offset = 0, filters = {}, userId, includeHighlights = true } = options;
+
+    // 查询向量只与同一嵌入模型生成的文章向量比较
+    const { embedding, model } = await getEmbeddingService().embedQuery(query, userId);
+    const vector = toVectorLiteral(embedding);
+
+    // $1 为查询向量，$2 为嵌入模型，过滤条件参数从 $3 开始
+    const { sql: whereSql, params, userRef } = this.buildSqlWhereSafe(filters, userId, 3);
+
+    const entries = await db.$queryRawUnsafe<any[]>(
+      `SELECT
+        ${searchColumns(userRef)},
+        1 - (e.embedding <=> $1::vector) AS similarity
+      FROM entries e
+      JOIN feeds f ON f.id = e.feed_id
+      WHERE e.embedding IS NOT NULL
+        AND e.embedding_model = $2
+        ${whereSql}
+      ORDER BY e.embedding <=> $1::vector ASC
+      LIMIT ${Math.floor(limit)}
+      OFFSET ${Math.floor(offset)}`,
+      vector,
+      model,
+      ...params
+    );
+
+    // 过滤参数从 $2 开始重新编号
+    const { sql: countWhereSql, params: countParams } = this.buildSqlWhereSafe(filters, userId, 2);
+    const totalResult = await db.$queryRawUnsafe<{ count: bigint }[]>(
+      `SELECT COUNT(*) AS count
+      FROM entries e
+      JOIN feeds f ON f.id = e.feed_id
+      WHERE e.embedding IS NOT NULL
+        AND e.embedding_model = $1
+        ${countWhereSql}`,
+      model,
+      ...countParams
+    );
+    const total = Number(totalResult[0]?.count || 0);
+
+    const results: SearchResult[] = entries.map((entry) => {
+      const similarity = Number(entry.similarity) || 0;
+      return {
         entryId: entry.id,
         title: entry.title,
         url: entry.url,
         summary: entry.summary,
-        feedTitle: entry.feedTitle,
-        feedId: entry.feedId,
-        publishedAt: entry.publishedAt ? new Date(entry.publishedAt) : null,
+        feedTitle: entry.feed_title,
+        feedId: entry.feed_id,
+        publishedAt: entry.published_at ? new Date(entry.published_at) : null,
         isRead: entry.is_read,
         isStarred: entry.is_starred,
         aiCategory: entry.ai_category,
         aiImportanceScore: entry.ai_importance_score || 0,
-        relevanceScore: 1 - parseFloat(entry.similarity || '0'), // 相似度转换为相关性得分
-        highlights: this.generateHighlights(query, {
-          title: entry.title,
-          summary: entry.summary,
-          content: entry.content,
-        }),
-      }));
-
-      return { results, total };
-    } catch (error) {
-      console.error('语义搜索失败，回退到关键词搜索:', error);
-      return this.keywordSearch(query, options);
-    }
+        relevanceScore: similarity,
+        similarity,
+        highlights: includeHighlights
+          ? this.generateHighlights(query, {
+              title: entry.title,
+              summary: entry.summary,
+              content: entry.content,
+            })
+          : undefined,
+      };
+    });
+
+    return { results, total };
   }
 
   /**
    * 混合搜索（结合关键词和语义搜索）
+   * 两路各自召回候选后使用倒数排名融合（RRF）合并排序
+   *
+   * 向量检索对所有有嵌入的文章排序、没有相关性下限，因此语义模式只在两路召回的候选窗口内分页：
+   * total 为窗口内的结果数，hasMore 表示窗口内是否还有下一页
    */
   async hybridSearch(
     query: string,
     options: SearchOptions = {}
-  ): Promise<{ results: SearchResult[]; total: number }> {
+  ): Promise<{ results: SearchResult[]; total: number; hasMore: boolean }> {
     const { limit = 20, offset = 0, semanticSearch = false } = options;
 
-    if (semanticSearch) {
-      // 语义搜索 + 关键词过滤
-      return this.semanticSearch(query, options);
+    if (!semanticSearch) {
+      // 纯关键词搜索
+      const { results, total } = await this.keywordSearch(query, options);
+      return { results, total, hasMore: offset + limit < total };
     }
 
-    // 纯关键词搜索
-    return this.keywordSearch(query, options);
+    const candidateOptions = { ...options, limit: Math.max(HYBRID_CANDIDATES, limit), offset: 0 };
+
+    const keyword = await this.keywordSearch(query, candidateOptions);
+
+    let semantic: { results: SearchResult[] };
+    try {
+      semantic = await this.vectorSearch(query, candidateOptions);
+    } catch (error) {
+      console.error('语义搜索失败，回退到关键词搜索:', error);
+      return {
+        results: keyword.results.slice(offset, offset + limit),
+        total: keyword.results.length,
+        hasMore: offset + limit < keyword.results.length,
+      };
+    }
+
+    const fused = fuseByReciprocalRank([keyword.results, semantic.results]);
+
+    return {
+      results: fused.slice(offset, offset + limit),
+      total: fused.length,
+      hasMore: offset + limit < fused.length,
+    };
   }
 
   /**
    * 构建安全的参数化 SQL WHERE 条件
    * 使用参数化查询防止 SQL 注入
+   * @param startIndex 第一个参数的占位符序号（$n）
+   * @param fields 查询语法中的 feed:/tag:/author: 过滤
    */
-  private buildSqlWhereSafe(filters: SearchFilters): { sql: string; params: unknown[] } {
+  private buildSqlWhereSafe(
+    filters: SearchFilters,
+    userId?: string,
+    startIndex = 1,
+    fields: QueryFieldFilter[] = []
+  ): { sql: string; params: unknown[]; userRef: string } {
     const parts: string[] = [];
     const params: unknown[] = [];
+    const next = (value: unknown) => {
+      params.push(value);
+      return `$${startIndex + params.length - 1}`;
+    };
 
     // UUID 验证正则
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
+    // 用户 ID 占位符，供返回列中的用户状态子查询复用
+    const userRef = userId ? next(userId) : 'NULL';
+    const userSubscription = userId ? `s.feed_id = e.feed_id AND s.user_id = ${userRef}` : 's.feed_id = e.feed_id';
+
+    if (userId) {
+      parts.push(`EXISTS (SELECT 1 FROM subscriptions s WHERE ${userSubscription})`);
+    }
+
     if (filters.feedIds && filters.feedIds.length > 0) {
       const validFeedIds = filters.feedIds.filter(id => uuidRegex.test(id));
       if (validFeedIds.length > 0) {
-        parts.push(`e."feedId" IN (${validFeedIds.map(() => '?').join(', ')})`);
-        params.push(...validFeedIds);
+        parts.push(`e.feed_id = ANY(${next(validFeedIds)}::text[])`);
       }
     }
 
     if (filters.categoryIds && filters.categoryIds.length > 0) {
       const validCategoryIds = filters.categoryIds.filter(id => uuidRegex.test(id));
       if (validCategoryIds.length > 0) {
-        parts.push(`f."categoryId" IN (${validCategoryIds.map(() => '?').join(', ')})`);
-        params.push(...validCategoryIds);
+        parts.push(
+          `EXISTS (SELECT 1 FROM subscriptions s WHERE ${userSubscription} AND s.category_id = ANY(${next(validCategoryIds)}::text[]))`
+        );
       }
     }
 
+    // 标签包括订阅源自带的分类和用户添加的标签
+    const userTags = `COALESCE((SELECT st.tags FROM entry_states st WHERE st.entry_id = e.id AND st.user_id = ${userRef}), '{}')`;
+
+    if (filters.tags && filters.tags.length > 0) {
+      const tags = next(filters.tags);
+      parts.push(`(e.tags && ${tags}::text[] OR ${userTags} && ${tags}::text[])`);
+    }
+
     if (filters.isRead !== undefined) {
-      parts.push(`e."isRead" = ?`);
-      params.push(filters.isRead);
+      parts.push(
+        `COALESCE((SELECT st.is_read FROM entry_states st WHERE st.entry_id = e.id AND st.user_id = ${userRef}), false) = ${next(filters.isRead)}`
+      );
     }
 
     if (filters.isStarred !== undefined) {
-      parts.push(`e."isStarred" = ?`);
-      params.push(filters.isStarred);
+      parts.push(
+        `COALESCE((SELECT st.is_starred FROM entry_states st WHERE st.entry_id = e.id AND st.user_id = ${userRef}), false) = ${next(filters.isStarred)}`
+      );
     }
 
     if (filters.startDate) {
-      parts.push(`e.published_at >= ?`);
-      params.push(filters.startDate.toISOString());
+      parts.push(`e.published_at >= ${next(filters.startDate)}`);
     }
 
     if (filters.endDate) {
-      parts.push(`e.published_at <= ?`);
-      params.push(filters.endDate.toISOString());
+      parts.push(`e.published_at <= ${next(filters.endDate)}`);
     }
 
     if (filters.minImportance !== undefined) {
-      parts.push(`e.ai_importance_score >= ?`);
-      params.push(filters.minImportance);
+      parts.push(`e.ai_importance_score >= ${next(filters.minImportance)}`);
+    }
+
+    for (const field of fields) {
+      let condition: string;
+      switch (field.field) {
+        case 'feed':
+          condition = `f.title ILIKE ${next(`%${escapeLikePattern(field.value)}%`)}`;
+          break;
+        case 'tag':
+          condition = `EXISTS (SELECT 1 FROM unnest(e.tags || ${userTags}) t WHERE lower(t) = lower(${next(field.value)}))`;
+          break;
+        case 'author':
+          condition = `coalesce(e.author, '') ILIKE ${next(`%${escapeLikePattern(field.value)}%`)}`;
+          break;
+      }
+      parts.push(field.negated ? `NOT (${condition})` : condition);
     }
 
     return {
       sql: parts.length > 0 ? `AND ${parts.join(' AND ')}` : '',
-      params
+      params,
+      userRef,
     };
   }
 
   /**
-   * 构建过滤条件
+   * 构建过滤条件（Prisma 查询，智能文件夹也使用）
    */
-  private buildFilters(filters: SearchFilters): Prisma.EntryWhereInput[] {
+  buildFilters(filters: SearchFilters, userId?: string): Prisma.EntryWhereInput[] {
     const conditions: Prisma.EntryWhereInput[] = [];
 
     if (filters.feedIds && filters.feedIds.length > 0) {
@@ -291,23 +572,19 @@ export class SearchService {
     if (filters.categoryIds && filters.categoryIds.length > 0) {
       conditions.push({
         feed: {
-          categoryId: { in: filters.categoryIds },
+          subscriptions: {
+            some: { categoryId: { in: filters.categoryIds }, ...(userId && { userId }) },
+          },
         },
       });
     }
 
     if (filters.tags && filters.tags.length > 0) {
-      conditions.push({
-        OR: filters.tags.map((tag) => ({ tags: { has: tag } })),
-      });
+      conditions.push(userId ? entryTagFilter(userId, filters.tags) : { tags: { hasSome: filters.tags } });
     }
 
-    if (filters.isRead !== undefined) {
-      conditions.push({ isRead: filters.isRead });
-    }
-
-    if (filters.isStarred !== undefined) {
-      conditions.push({ isStarred: filters.isStarred });
+    if (userId) {
+      conditions.push(...entryStateFilter(userId, { isRead: filters.isRead, isStarred: filters.isStarred }));
     }
 
     if (filters.startDate) {
@@ -520,6 +797,40 @@ export class SearchService {
   }
 }
 
+/**
+ * 转义 LIKE 通配符
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * 倒数排名融合（Reciprocal Rank Fusion）
+ * 每个列表中排名 r 的结果得分 1 / (k + r)，多个列表得分相加
+ */
+export function fuseByReciprocalRank(lists: SearchResult[][], k = RRF_K): SearchResult[] {
+  const fused = new Map<string, SearchResult>();
+
+  for (const list of lists) {
+    list.forEach((result, index) => {
+      const score = 1 / (k + index + 1);
+      const existing = fused.get(result.entryId);
+
+      if (existing) {
+        existing.relevanceScore += score;
+        existing.similarity = existing.similarity ?? result.similarity;
+        if (!existing.highlights?.content.length && result.highlights) {
+          existing.highlights = result.highlights;
+        }
+      } else {
+        fused.set(result.entryId, { ...result, relevanceScore: score });
+      }
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.relevanceScore - a.relevanceScore);
+}
+
 // 导出单例实例
 let searchServiceInstance: SearchService | null = null;
 
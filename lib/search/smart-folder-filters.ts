@@ -0,0 +1,64 @@
+/**
+ * 智能文件夹筛选条件
+ * 以 JSON 存储在 smart_folders.filters，读取时转换为搜索服务的 SearchFilters
+ */
+
+import { z } from 'zod';
+import type { SearchFilters } from './service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const smartFolderFiltersSchema = z.object({
+  feedIds: z.array(z.string().uuid()).max(100).optional(),
+  categoryIds: z.array(z.string().uuid()).max(100).optional(),
+  tags: z.array(z.string().trim().min(1).max(100)).max(20).optional(),
+  isRead: z.boolean().optional(),
+  isStarred: z.boolean().optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  /** 相对时间范围：最近 N 天（与 startDate 同时设置时取较晚者） */
+  withinDays: z.number().int().min(1).max(365).optional(),
+  minImportance: z.number().min(0).max(1).optional(),
+});
+
+export type SmartFolderFilters = z.infer<typeof smartFolderFiltersSchema>;
+
+/**
+ * 保存前规范化：去掉空数组和未设置的字段
+ */
+export function normalizeSmartFolderFilters(filters: SmartFolderFilters): SmartFolderFilters {
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+  ) as SmartFolderFilters;
+}
+
+/**
+ * 没有关键词也没有任何筛选条件
+ */
+export function isEmptySmartFolder(query: string, filters: SmartFolderFilters): boolean {
+  return !query.trim() && Object.keys(normalizeSmartFolderFilters(filters)).length === 0;
+}
+
+/**
+ * 读取存储的筛选条件（无效内容视为无筛选）
+ */
+export function parseSmartFolderFilters(value: unknown): SmartFolderFilters {
+  const parsed = smartFolderFiltersSchema.safeParse(value ?? {});
+  return parsed.success ? normalizeSmartFolderFilters(parsed.data) : {};
+}
+
+/**
+ * 转换为搜索服务的筛选条件，相对时间按 now 计算
+ */
+export function toSearchFilters(filters: SmartFolderFilters, now = new Date()): SearchFilters {
+  const { withinDays, startDate, ...rest } = filters;
+  const relativeStart = withinDays ? new Date(now.getTime() - withinDays * DAY_MS) : undefined;
+
+  return {
+    ...rest,
+    startDate:
+      startDate && relativeStart
+        ? new Date(Math.max(startDate.getTime(), relativeStart.getTime()))
+        : (startDate ?? relativeStart),
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * 智能文件夹
+ * 保存的关键词 + 筛选条件，作为文章列表来源，可在有新文章命中时发送通知
+ */
+
+import type { Prisma, SmartFolder } from '@prisma/client';
+import { db } from '../db';
+import { error, info } from '../logger';
+import { entryStateFilter, entryVisibleTo } from '../entries/state';
+import { getNotificationService } from '../notifications/service';
+import { getSearchService } from './service';
+import { parseSmartFolderFilters, toSearchFilters } from './smart-folder-filters';
+
+/** 关键词命中的文章数上限（按相关度取前 N 篇） */
+export const SMART_FOLDER_MATCH_LIMIT = 1000;
+
+/** 新文章入库后等待规则和 AI 初评完成再检查通知 */
+const NOTIFY_SETTLE_MS = 10 * 60 * 1000;
+
+/** 通知中列出的文章标题数 */
+const NOTIFY_PREVIEW_COUNT = 3;
+
+type SmartFolderSource = Pick<SmartFolder, 'query' | 'filters'>;
+
+/**
+ * 智能文件夹对应的文章查询
+ * 筛选条件直接转换为 Prisma 条件；关键词使用全文检索，取命中的文章 ID
+ */
+export async function smartFolderWhere(
+  userId: string,
+  folder: SmartFolderSource,
+  now = new Date()
+): Promise<Prisma.EntryWhereInput> {
+  const searchService = getSearchService();
+  const filters = toSearchFilters(parseSmartFolderFilters(folder.filters), now);
+  const conditions: Prisma.EntryWhereInput[] = [entryVisibleTo(userId), ...searchService.buildFilters(filters, userId)];
+
+  if (folder.query.trim()) {
+    const { results } = await searchService.keywordSearch(folder.query, {
+      userId,
+      filters,
+      limit: SMART_FOLDER_MATCH_LIMIT,
+      includeHighlights: false,
+    });
+    conditions.push({ id: { in: results.map((result) => result.entryId) } });
+  }
+
+  return { AND: conditions };
+}
+
+/**
+ * 查找用户的智能文件夹
+ */
+export async function findSmartFolder(userId: string, id: string): Promise<SmartFolder | null> {
+  return db.smartFolder.findFirst({ where: { id, userId } });
+}
+
+/**
+ * 未读文章数
+ */
+export async function countSmartFolderUnread(userId: string, folder: SmartFolderSource): Promise<number> {
+  return db.entry.count({
+    where: { AND: [await smartFolderWhere(userId, folder), ...entryStateFilter(userId, { isRead: false })] },
+  });
+}
+
+/**
+ * 检查开启了通知的智能文件夹是否有新文章命中
+ * 每个文件夹记录已检查到的入库时间，只通知之后入库的文章
+ * @returns 发送的通知数
+ */
+export async function notifySmartFolderMatches(now = new Date()): Promise<number> {
+  const folders = await db.smartFolder.findMany({ where: { notifyOnMatch: true } });
+  const windowEnd = new Date(now.getTime() - NOTIFY_SETTLE_MS);
+  let notified = 0;
+
+  for (const folder of folders) {
+    const windowStart = folder.lastCheckedAt ?? folder.createdAt;
+    if (windowStart >= windowEnd) continue;
+
+    try {
+      const where: Prisma.EntryWhereInput = {
+        AND: [await smartFolderWhere(folder.userId, folder, now), { createdAt: { gt: windowStart, lte: windowEnd } }],
+      };
+      const [count, preview] = await Promise.all([
+        db.entry.count({ where }),
+        db.entry.findMany({
+          where,
+          select: { title: true },
+          orderBy: { createdAt: 'desc' },
+          take: NOTIFY_PREVIEW_COUNT,
+        }),
+      ]);
+
+      if (count > 0) {
+        await getNotificationService().notifySmartFolderMatch(
+          folder.userId,
+          folder,
+          count,
+          preview.map((entry) => entry.title)
+        );
+        notified++;
+      }
+
+      await db.smartFolder.update({ where: { id: folder.id }, data: { lastCheckedAt: windowEnd } });
+    } catch (err) {
+      await error('system', '检查智能文件夹新文章失败', err instanceof Error ? err : undefined, {
+        smartFolderId: folder.id,
+      });
+    }
+  }
+
+  if (notified > 0) {
+    await info('system', '智能文件夹新文章通知已发送', { count: notified });
+  }
+  return notified;
+}
@@ -35,6 +35,11 @@ export const RATE_LIMIT_CONFIG = {
     maxRequests: 100,
     windowMs: 60 * 1000,
   },
+  // 分享密码验证：每 15 分钟最多 10 次
+  shareUnlock: {
+    maxRequests: 10,
+    windowMs: 15 * 60 * 1000,
+  },
 } as const;
 
 /**
@@ -161,6 +166,12 @@ export const generalApiRateLimiter = new RateLimiter(
   RATE_LIMIT_CONFIG.general.windowMs
 );
 
+// 分享密码验证：10 次/15 分钟（与 Redis 版本一致）
+export const shareUnlockRateLimiter = new RateLimiter(
+  RATE_LIMIT_CONFIG.shareUnlock.maxRequests,
+  RATE_LIMIT_CONFIG.shareUnlock.windowMs
+);
+
 /**
  * 从请求中获取客户端标识符
  */
@@ -120,6 +120,20 @@ const RATE_LIMIT_CONFIGS = {
     keyPrefix: 'ratelimit:pwdreset:',
     skipOnFailure: false, // 安全关键：使用内存备用
   },
+  // 分享密码验证：每 15 分钟最多 10 次
+  shareUnlock: {
+    windowMs: 15 * 60 * 1000,
+    maxRequests: 10,
+    keyPrefix: 'ratelimit:shareunlock:',
+    skipOnFailure: false, // 安全关键：使用内存备用
+  },
+  // REST API：每个 API Key 每分钟最多 120 次
+  apiKey: {
+    windowMs: 60 * 1000,
+    maxRequests: 120,
+    keyPrefix: 'ratelimit:apikey:',
+    skipOnFailure: false, // 使用内存备用，避免 Redis 故障时失去限制
+  },
 } as const;
 
 // Redis 客户端实例（复用）
@@ -363,6 +377,8 @@ export const loginRateLimiter = createRateLimiter('login');
 export const registerRateLimiter = createRateLimiter('register');
 export const generalRateLimiter = createRateLimiter('general');
 export const passwordResetRateLimiter = createRateLimiter('passwordReset');
+export const shareUnlockRateLimiter = createRateLimiter('shareUnlock');
+export const apiKeyRateLimiter = createRateLimiter('apiKey');
 
 /**
  * 获取客户端标识符
@@ -0,0 +1,260 @@
+/**
+ * Fever 兼容 API
+ *
+ * 分组对应分类，订阅源、分组、文章 ID 均为对应记录的 numericId；
+ * 分组 0 表示全部文章（Fever 的 Kindling）
+ */
+
+import type { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import {
+  entryStateFilter,
+  entryStateInclude,
+  entryVisibleTo,
+  refreshUnreadCounts,
+  setEntryState,
+  withEntryState,
+} from '@/lib/entries/state';
+
+export const FEVER_API_VERSION = 3;
+
+/** 单次返回的最大文章数 */
+const MAX_ITEMS = 50;
+/** 批量标记已读时每批的文章数 */
+const MARK_BATCH_SIZE = 500;
+
+const toSeconds = (date: Date | null | undefined) => (date ? Math.floor(date.getTime() / 1000) : 0);
+
+/**
+ * 解析逗号分隔的 ID 列表
+ */
+export function parseIdList(value: string | null | undefined): number[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map((id) => Number(id.trim()))
+    .filter((id) => Number.isSafeInteger(id) && id > 0);
+}
+
+/**
+ * 最近一次成功抓取的时间
+ */
+export async function getLastRefreshedOnTime(userId: string): Promise<number> {
+  const latest = await db.feed.aggregate({
+    where: { subscriptions: { some: { userId } } },
+    _max: { lastSuccessAt: true },
+  });
+  return toSeconds(latest._max.lastSuccessAt);
+}
+
+async function listSubscriptions(userId: string) {
+  return db.subscription.findMany({
+    where: { userId },
+    select: {
+      title: true,
+      feed: { select: { numericId: true, feedUrl: true, siteUrl: true, lastSuccessAt: true } },
+      category: { select: { numericId: true, name: true } },
+    },
+    orderBy: { title: 'asc' },
+  });
+}
+
+/**
+ * 分组与订阅源的对应关系
+ */
+function feedsGroups(subscriptions: Awaited<ReturnType<typeof listSubscriptions>>) {
+  const groups = new Map<number, number[]>();
+  for (const s of subscriptions) {
+    if (!s.category) continue;
+    const feedIds = groups.get(s.category.numericId) ?? [];
+    feedIds.push(s.feed.numericId);
+    groups.set(s.category.numericId, feedIds);
+  }
+  return [...groups].map(([groupId, feedIds]) => ({ group_id: groupId, feed_ids: feedIds.join(',') }));
+}
+
+/**
+ * 分组列表
+ */
+export async function getGroups(userId: string) {
+  const [categories, subscriptions] = await Promise.all([
+    db.category.findMany({
+      where: { userId },
+      select: { numericId: true, name: true },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    }),
+    listSubscriptions(userId),
+  ]);
+
+  return {
+    groups: categories.map((c) => ({ id: c.numericId, title: c.name })),
+    feeds_groups: feedsGroups(subscriptions),
+  };
+}
+
+/**
+ * 订阅源列表
+ */
+export async function getFeeds(userId: string) {
+  const subscriptions = await listSubscriptions(userId);
+
+  return {
+    feeds: subscriptions.map((s) => ({
+      id: s.feed.numericId,
+      favicon_id: 0,
+      title: s.title,
+      url: s.feed.feedUrl,
+      site_url: s.feed.siteUrl ?? '',
+      is_spark: 0,
+      last_updated_on_time: toSeconds(s.feed.lastSuccessAt),
+    })),
+    feeds_groups: feedsGroups(subscriptions),
+  };
+}
+
+export interface FeverItemsQuery {
+  sinceId?: number;
+  maxId?: number;
+  withIds?: number[];
+}
+
+/**
+ * 文章列表：since_id 之后（从旧到新）、max_id 之前（从新到旧）或指定 ID
+ */
+export async function getItems(userId: string, query: FeverItemsQuery) {
+  let where: Prisma.EntryWhereInput = {};
+  let order: Prisma.SortOrder = 'desc';
+
+  if (query.withIds) {
+    where = { numericId: { in: query.withIds.slice(0, MAX_ITEMS) } };
+  } else if (query.sinceId !== undefined) {
+    where = { numericId: { gt: query.sinceId } };
+    order = 'asc';
+  } else if (query.maxId !== undefined) {
+    where = { numericId: { lt: query.maxId } };
+  }
+
+  const visible = entryVisibleTo(userId);
+  const [entries, total] = await Promise.all([
+    db.entry.findMany({
+      where: { AND: [visible, where] },
+      orderBy: { numericId: order },
+      take: MAX_ITEMS,
+      select: {
+        numericId: true,
+        title: true,
+        author: true,
+        content: true,
+        summary: true,
+        url: true,
+        publishedAt: true,
+        createdAt: true,
+        feed: { select: { numericId: true } },
+        states: entryStateInclude(userId),
+      },
+    }),
+    db.entry.count({ where: visible }),
+  ]);
+
+  return {
+    total_items: total,
+    items: entries.map(withEntryState).map((e) => ({
+      id: e.numericId,
+      feed_id: e.feed.numericId,
+      title: e.title,
+      author: e.author ?? '',
+      html: e.content || e.summary || '',
+      url: e.url,
+      is_saved: e.isStarred ? 1 : 0,
+      is_read: e.isRead ? 1 : 0,
+      created_on_time: toSeconds(e.publishedAt ?? e.createdAt),
+    })),
+  };
+}
+
+async function itemIds(userId: string, filter: Prisma.EntryWhereInput[]): Promise<string> {
+  const entries = await db.entry.findMany({
+    where: { AND: [entryVisibleTo(userId), ...filter] },
+    orderBy: { numericId: 'asc' },
+    select: { numericId: true },
+  });
+  return entries.map((e) => e.numericId).join(',');
+}
+
+/**
+ * 未读文章 ID（逗号分隔）
+ */
+export async function getUnreadItemIds(userId: string) {
+  return { unread_item_ids: await itemIds(userId, entryStateFilter(userId, { isRead: false })) };
+}
+
+/**
+ * 星标文章 ID（逗号分隔）
+ */
+export async function getSavedItemIds(userId: string) {
+  return { saved_item_ids: await itemIds(userId, entryStateFilter(userId, { isStarred: true })) };
+}
+
+export type FeverMark =
+  | { mark: 'item'; as: 'read' | 'unread' | 'saved' | 'unsaved'; id: number }
+  | { mark: 'feed' | 'group'; as: 'read'; id: number; before?: number };
+
+/**
+ * 标记文章、订阅源或分组
+ */
+export async function mark(userId: string, input: FeverMark): Promise<void> {
+  if (input.mark === 'item') {
+    const entries = await db.entry.findMany({
+      where: { AND: [entryVisibleTo(userId), { numericId: input.id }] },
+      select: { id: true, feedId: true },
+    });
+    const ids = entries.map((e) => e.id);
+
+    switch (input.as) {
+      case 'read':
+      case 'unread':
+        await setEntryState(userId, ids, { isRead: input.as === 'read' });
+        await refreshUnreadCounts({ userId, feedIds: entries.map((e) => e.feedId) });
+        break;
+      case 'saved':
+      case 'unsaved':
+        await setEntryState(userId, ids, { isStarred: input.as === 'saved' });
+        break;
+    }
+    return;
+  }
+
+  // 分组 0 为全部文章
+  const scope: Prisma.EntryWhereInput =
+    input.mark === 'feed'
+      ? { feed: { numericId: input.id, subscriptions: { some: { userId } } } }
+      : input.id === 0
+        ? entryVisibleTo(userId)
+        : { feed: { subscriptions: { some: { userId, category: { numericId: input.id } } } } };
+
+  const feedIds = new Set<string>();
+  let cursor: string | undefined;
+
+  for (;;) {
+    const entries = await db.entry.findMany({
+      where: {
+        AND: [
+          scope,
+          ...entryStateFilter(userId, { isRead: false }),
+          ...(input.before ? [{ createdAt: { lte: new Date(input.before * 1000) } }] : []),
+        ],
+      },
+      orderBy: { id: 'asc' },
+      take: MARK_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      select: { id: true, feedId: true },
+    });
+    if (entries.length === 0) break;
+
+    await setEntryState(userId, entries.map((e) => e.id), { isRead: true });
+    entries.forEach((e) => feedIds.add(e.feedId));
+    cursor = entries[entries.length - 1].id;
+  }
+
+  await refreshUnreadCounts({ userId, feedIds: [...feedIds] });
+}
@@ -0,0 +1,583 @@
+/**
+ * Google Reader 兼容 API
+ *
+ * 供 Reeder、NetNewsWire、FeedMe、ReadYou 等客户端同步：
+ * - 订阅源对应 feed/<numericId>，分类对应标签 user/-/label/<分类名>
+ * - 已读、星标对应 user/-/state/com.google/read、starred
+ * - 文章 ID 为 Entry.numericId，分页标记为上一页最后一篇文章的 numericId
+ */
+
+import type { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { info, warn } from '@/lib/logger';
+import { isUrlSafe } from '@/lib/utils';
+import { feedManager } from '@/lib/rss/feed-manager';
+import { parseFeed } from '@/lib/rss/parser';
+import { subscribe, unsubscribe } from '@/lib/rss/subscriptions';
+import {
+  entryStateFilter,
+  entryStateInclude,
+  entryVisibleTo,
+  refreshUnreadCounts,
+  setEntryState,
+  withEntryState,
+  type EntryStateUpdate,
+} from '@/lib/entries/state';
+import {
+  feedStreamId,
+  KEPT_UNREAD,
+  labelStreamId,
+  parseStreamId,
+  READ,
+  READING_LIST,
+  STARRED,
+  toLongItemId,
+  type ParsedStream,
+} from './ids';
+
+/** 单次返回的最大文章数 */
+const MAX_ITEMS = 1000;
+/** 单次返回正文的最大文章数 */
+const MAX_CONTENT_ITEMS = 250;
+/** 批量标记已读时每批的文章数 */
+const MARK_BATCH_SIZE = 500;
+
+/**
+ * 同步 API 的请求错误（参数无效、对象不存在等），status 为 HTTP 状态码
+ */
+export class SyncApiError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'SyncApiError';
+  }
+}
+
+export interface StreamQuery {
+  /** 流 ID */
+  streamId: string;
+  /** 数量 n */
+  count?: number;
+  /** r=o 时从旧到新 */
+  oldestFirst?: boolean;
+  /** ot：只返回此时间之后的文章（秒） */
+  newerThan?: number;
+  /** nt：只返回此时间之前的文章（秒） */
+  olderThan?: number;
+  /** xt：排除的状态流 */
+  exclude?: string;
+  /** it：必须包含的状态流 */
+  include?: string;
+  /** c：分页标记 */
+  continuation?: number;
+}
+
+const toSeconds = (date: Date) => Math.floor(date.getTime() / 1000);
+
+/**
+ * 状态流对应的文章状态过滤
+ */
+function stateFilter(userId: string, streamId: string | undefined, present: boolean): Prisma.EntryWhereInput[] {
+  const stream = streamId ? parseStreamId(streamId) : null;
+  if (stream?.type === 'read') return entryStateFilter(userId, { isRead: present });
+  if (stream?.type === 'starred') return entryStateFilter(userId, { isStarred: present });
+  return [];
+}
+
+/**
+ * 流对应的文章查询条件
+ */
+function streamWhere(userId: string, stream: ParsedStream): Prisma.EntryWhereInput {
+  switch (stream.type) {
+    case 'feed':
+      return { feed: { numericId: stream.feedId, subscriptions: { some: { userId } } } };
+    case 'label':
+      return { feed: { subscriptions: { some: { userId, category: { name: stream.name } } } } };
+    case 'read':
+      return { AND: [entryVisibleTo(userId), ...entryStateFilter(userId, { isRead: true })] };
+    case 'starred':
+      return { AND: [entryVisibleTo(userId), ...entryStateFilter(userId, { isStarred: true })] };
+    case 'all':
+      return entryVisibleTo(userId);
+  }
+}
+
+function requireStream(streamId: string): ParsedStream {
+  const stream = parseStreamId(streamId);
+  if (!stream) {
+    throw new SyncApiError(`不支持的流：${streamId}`);
+  }
+  return stream;
+}
+
+/**
+ * 查询流中的文章（按 numericId 排序分页）
+ */
+async function queryStream<S extends Prisma.EntrySelect>(
+  userId: string,
+  query: StreamQuery,
+  limit: number,
+  select: S
+) {
+  const stream = requireStream(query.streamId);
+  const take = Math.min(Math.max(query.count ?? 20, 1), limit);
+  const direction = query.oldestFirst ? 'asc' : 'desc';
+
+  const entries = await db.entry.findMany({
+    where: {
+      AND: [
+        streamWhere(userId, stream),
+        ...stateFilter(userId, query.exclude, false),
+        ...stateFilter(userId, query.include, true),
+        ...(query.newerThan ? [{ createdAt: { gte: new Date(query.newerThan * 1000) } }] : []),
+        ...(query.olderThan ? [{ createdAt: { lte: new Date(query.olderThan * 1000) } }] : []),
+        ...(query.continuation
+          ? [{ numericId: query.oldestFirst ? { gt: query.continuation } : { lt: query.continuation } }]
+          : []),
+      ],
+    },
+    orderBy: { numericId: direction },
+    take,
+    select,
+  });
+
+  const last = entries[entries.length - 1] as { numericId: number } | undefined;
+  return {
+    entries,
+    continuation: entries.length === take && last ? String(last.numericId) : undefined,
+  };
+}
+
+function itemSelect(userId: string) {
+  return {
+    id: true,
+    numericId: true,
+    title: true,
+    url: true,
+    content: true,
+    summary: true,
+    author: true,
+    publishedAt: true,
+    createdAt: true,
+    updatedAt: true,
+    feed: {
+      select: {
+        numericId: true,
+        title: true,
+        siteUrl: true,
+        subscriptions: {
+          where: { userId },
+          select: { title: true, category: { select: { name: true } } },
+          take: 1,
+        },
+      },
+    },
+    states: entryStateInclude(userId),
+  } satisfies Prisma.EntrySelect;
+}
+
+type ItemRecord = Prisma.EntryGetPayload<{ select: ReturnType<typeof itemSelect> }>;
+
+/**
+ * 转换为 Google Reader 的文章格式
+ */
+function toItem(record: ItemRecord) {
+  const entry = withEntryState(record);
+  const subscription = entry.feed.subscriptions[0];
+  const category = subscription?.category?.name;
+
+  return {
+    id: toLongItemId(entry.numericId),
+    crawlTimeMsec: String(entry.createdAt.getTime()),
+    timestampUsec: String(entry.createdAt.getTime() * 1000),
+    published: toSeconds(entry.publishedAt ?? entry.createdAt),
+    updated: toSeconds(entry.updatedAt),
+    title: entry.title,
+    author: entry.author ?? undefined,
+    canonical: [{ href: entry.url }],
+    alternate: [{ href: entry.url, type: 'text/html' }],
+    summary: { direction: 'ltr', content: entry.content || entry.summary || '' },
+    categories: [
+      READING_LIST,
+      ...(category ? [labelStreamId(category)] : []),
+      ...(entry.isRead ? [READ] : []),
+      ...(entry.isStarred ? [STARRED] : []),
+    ],
+    origin: {
+      streamId: feedStreamId(entry.feed.numericId),
+      title: subscription?.title ?? entry.feed.title,
+      htmlUrl: entry.feed.siteUrl ?? '',
+    },
+  };
+}
+
+/**
+ * 用户信息
+ */
+export async function getUserInfo(userId: string) {
+  const user = await db.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { id: true, username: true, email: true },
+  });
+
+  return {
+    userId: user.id,
+    userName: user.username,
+    userProfileId: user.id,
+    userEmail: user.email,
+  };
+}
+
+/**
+ * 订阅列表
+ */
+export async function getSubscriptionList(userId: string) {
+  const subscriptions = await db.subscription.findMany({
+    where: { userId },
+    include: {
+      feed: { select: { numericId: true, feedUrl: true, siteUrl: true, iconUrl: true, createdAt: true } },
+      category: { select: { name: true } },
+    },
+    orderBy: { title: 'asc' },
+  });
+
+  return {
+    subscriptions: subscriptions.map((s) => ({
+      id: feedStreamId(s.feed.numericId),
+      title: s.title,
+      url: s.feed.feedUrl,
+      htmlUrl: s.feed.siteUrl ?? '',
+      iconUrl: s.feed.iconUrl ?? '',
+      firstitemmsec: String(s.createdAt.getTime()),
+      categories: s.category ? [{ id: labelStreamId(s.category.name), label: s.category.name }] : [],
+    })),
+  };
+}
+
+/**
+ * 标签列表：星标 + 分类
+ */
+export async function getTagList(userId: string) {
+  const categories = await db.category.findMany({
+    where: { userId },
+    select: { name: true },
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+  });
+
+  return {
+    tags: [
+      { id: STARRED },
+      ...categories.map((c) => ({ id: labelStreamId(c.name), type: 'folder' })),
+    ],
+  };
+}
+
+/**
+ * 未读数：按订阅源、分类和全部汇总
+ */
+export async function getUnreadCounts(userId: string) {
+  const subscriptions = await db.subscription.findMany({
+    where: { userId },
+    select: {
+      unreadCount: true,
+      updatedAt: true,
+      feed: { select: { numericId: true, lastSuccessAt: true } },
+      category: { select: { name: true } },
+    },
+  });
+
+  const usec = (date: Date | null | undefined) => String((date?.getTime() ?? 0) * 1000);
+  const labels = new Map<string, number>();
+  let total = 0;
+
+  const feeds = subscriptions.map((s) => {
+    total += s.unreadCount;
+    if (s.category) {
+      labels.set(s.category.name, (labels.get(s.category.name) ?? 0) + s.unreadCount);
+    }
+    return {
+      id: feedStreamId(s.feed.numericId),
+      count: s.unreadCount,
+      newestItemTimestampUsec: usec(s.feed.lastSuccessAt ?? s.updatedAt),
+    };
+  });
+
+  const now = usec(new Date());
+
+  return {
+    max: total,
+    unreadcounts: [
+      ...feeds,
+      ...[...labels].map(([name, count]) => ({ id: labelStreamId(name), count, newestItemTimestampUsec: now })),
+      { id: READING_LIST, count: total, newestItemTimestampUsec: now },
+    ],
+  };
+}
+
+/**
+ * 流中的文章 ID
+ */
+export async function getStreamItemIds(userId: string, query: StreamQuery) {
+  const { entries, continuation } = await queryStream(userId, query, MAX_ITEMS, {
+    numericId: true,
+    createdAt: true,
+  });
+
+  return {
+    itemRefs: entries.map((e) => ({
+      id: String(e.numericId),
+      directStreamIds: [],
+      timestampUsec: String(e.createdAt.getTime() * 1000),
+    })),
+    ...(continuation && { continuation }),
+  };
+}
+
+/**
+ * 流中的文章内容
+ */
+export async function getStreamContents(userId: string, query: StreamQuery) {
+  const { entries, continuation } = await queryStream(userId, query, MAX_CONTENT_ITEMS, itemSelect(userId));
+
+  return {
+    direction: 'ltr',
+    id: query.streamId,
+    updated: toSeconds(new Date()),
+    items: entries.map(toItem),
+    ...(continuation && { continuation }),
+  };
+}
+
+/**
+ * 指定文章的内容
+ */
+export async function getItemContents(userId: string, itemIds: number[]) {
+  const entries = await db.entry.findMany({
+    where: { AND: [entryVisibleTo(userId), { numericId: { in: itemIds.slice(0, MAX_CONTENT_ITEMS) } }] },
+    orderBy: { numericId: 'desc' },
+    select: itemSelect(userId),
+  });
+
+  return {
+    direction: 'ltr',
+    id: READING_LIST,
+    updated: toSeconds(new Date()),
+    items: entries.map(toItem),
+  };
+}
+
+/**
+ * 为文章添加/移除状态标签（已读、星标、保持未读）
+ * 文章标签（label）按订阅源分类管理，不支持单篇文章设置，忽略
+ */
+export async function editTag(userId: string, itemIds: number[], add: string[], remove: string[]) {
+  const update: EntryStateUpdate = {};
+  const has = (tags: string[], tag: string) => tags.some((t) => parseStreamId(t)?.type === tag);
+
+  if (has(add, 'read') || remove.includes(KEPT_UNREAD)) update.isRead = true;
+  if (has(remove, 'read') || add.includes(KEPT_UNREAD)) update.isRead = false;
+  if (has(add, 'starred')) update.isStarred = true;
+  if (has(remove, 'starred')) update.isStarred = false;
+
+  if (Object.keys(update).length === 0 || itemIds.length === 0) return;
+
+  const entries = await db.entry.findMany({
+    where: { AND: [entryVisibleTo(userId), { numericId: { in: itemIds } }] },
+    select: { id: true, feedId: true },
+  });
+
+  await setEntryState(userId, entries.map((e) => e.id), update);
+  if (update.isRead !== undefined) {
+    await refreshUnreadCounts({ userId, feedIds: [...new Set(entries.map((e) => e.feedId))] });
+  }
+}
+
+/**
+ * 将流中的文章全部标记为已读
+ * @param before 只标记此时间（微秒）之前抓取的文章
+ */
+export async function markAllAsRead(userId: string, streamId: string, before?: number) {
+  const stream = requireStream(streamId);
+  const feedIds = new Set<string>();
+  let cursor: string | undefined;
+
+  for (;;) {
+    const entries = await db.entry.findMany({
+      where: {
+        AND: [
+          streamWhere(userId, stream),
+          ...entryStateFilter(userId, { isRead: false }),
+          ...(before ? [{ createdAt: { lte: new Date(Math.floor(before / 1000)) } }] : []),
+        ],
+      },
+      orderBy: { id: 'asc' },
+      take: MARK_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      select: { id: true, feedId: true },
+    });
+    if (entries.length === 0) break;
+
+    await setEntryState(userId, entries.map((e) => e.id), { isRead: true });
+    entries.forEach((e) => feedIds.add(e.feedId));
+    cursor = entries[entries.length - 1].id;
+  }
+
+  await refreshUnreadCounts({ userId, feedIds: [...feedIds] });
+}
+
+/**
+ * 按名称获取分类，不存在时创建
+ */
+async function ensureCategory(userId: string, label: string): Promise<string> {
+  const stream = parseStreamId(label);
+  const name = stream?.type === 'label' ? stream.name : label;
+
+  const category = await db.category.upsert({
+    where: { userId_name: { userId, name } },
+    create: { userId, name },
+    update: {},
+    select: { id: true },
+  });
+  return category.id;
+}
+
+/**
+ * 查找用户订阅的订阅源：feed/<numericId> 或 feed/<URL>
+ */
+async function findSubscribedFeed(userId: string, streamId: string) {
+  const stream = parseStreamId(streamId);
+  const url = streamId.replace(/^feed\//, '');
+  const where: Prisma.FeedWhereInput = stream?.type === 'feed' ? { numericId: stream.feedId } : { feedUrl: url };
+
+  const feed = await db.feed.findFirst({
+    where: { ...where, subscriptions: { some: { userId } } },
+    select: { id: true },
+  });
+  if (!feed) {
+    throw new SyncApiError(`未订阅：${streamId}`, 404);
+  }
+  return feed.id;
+}
+
+/**
+ * 订阅新的订阅源
+ */
+export async function subscribeFeed(userId: string, url: string, options: { title?: string; label?: string } = {}) {
+  const urlCheck = isUrlSafe(url);
+  if (!urlCheck.safe) {
+    await warn('rss', '订阅源 URL 被 SSRF 防护拦截', { userId, url, reason: urlCheck.reason });
+    throw new SyncApiError(`URL 不安全: ${urlCheck.reason}`);
+  }
+
+  const shared = await db.feed.findUnique({ where: { feedUrl: url }, select: { title: true } });
+  let title = options.title || shared?.title;
+  let siteUrl: string | undefined;
+  if (!shared) {
+    try {
+      const parsed = await parseFeed(url);
+      title = title || parsed.title;
+      siteUrl = parsed.link;
+    } catch {
+      title = title || new URL(url).hostname;
+    }
+  }
+
+  const { feed, subscription, created } = await subscribe(userId, url, {
+    title,
+    siteUrl,
+    categoryId: options.label ? await ensureCategory(userId, options.label) : undefined,
+  });
+
+  if (created) {
+    feedManager.fetchFeed(feed.id).catch(console.error);
+  }
+
+  await info('rss', '同步客户端添加订阅', { userId, feedId: feed.id, url, shared: !created });
+
+  return { streamId: feedStreamId(feed.numericId), title: subscription.title };
+}
+
+export interface EditSubscriptionInput {
+  action: 'subscribe' | 'unsubscribe' | 'edit';
+  streamIds: string[];
+  title?: string;
+  addLabel?: string;
+  removeLabel?: string;
+}
+
+/**
+ * 订阅、退订或修改订阅的标题与分类
+ */
+export async function editSubscription(userId: string, input: EditSubscriptionInput) {
+  for (const streamId of input.streamIds) {
+    if (input.action === 'subscribe') {
+      await subscribeFeed(userId, streamId.replace(/^feed\//, ''), { title: input.title, label: input.addLabel });
+      continue;
+    }
+
+    const feedId = await findSubscribedFeed(userId, streamId);
+
+    if (input.action === 'unsubscribe') {
+      await unsubscribe(userId, feedId);
+      await info('rss', '同步客户端取消订阅', { userId, feedId });
+      continue;
+    }
+
+    const data: Prisma.SubscriptionUpdateInput = {};
+    if (input.title) data.title = input.title;
+    if (input.addLabel) {
+      data.category = { connect: { id: await ensureCategory(userId, input.addLabel) } };
+    } else if (input.removeLabel) {
+      data.category = { disconnect: true };
+    }
+
+    await db.subscription.update({
+      where: { userId_feedId: { userId, feedId } },
+      data,
+    });
+  }
+}
+
+/**
+ * 重命名分类
+ */
+export async function renameTag(userId: string, source: string, dest: string) {
+  const from = parseStreamId(source);
+  const to = parseStreamId(dest);
+  if (from?.type !== 'label' || to?.type !== 'label') {
+    throw new SyncApiError('只能重命名分类标签');
+  }
+
+  const { count } = await db.category.updateMany({
+    where: { userId, name: from.name },
+    data: { name: to.name },
+  });
+  if (count === 0) {
+    throw new SyncApiError(`分类不存在：${from.name}`, 404);
+  }
+}
+
+/**
+ * 删除分类（订阅保留，移出该分类）
+ */
+export async function disableTag(userId: string, tag: string) {
+  const stream = parseStreamId(tag);
+  if (stream?.type !== 'label') {
+    throw new SyncApiError('只能删除分类标签');
+  }
+
+  const category = await db.category.findUnique({
+    where: { userId_name: { userId, name: stream.name } },
+    select: { id: true, _count: { select: { children: true } } },
+  });
+  if (!category) {
+    throw new SyncApiError(`分类不存在：${stream.name}`, 404);
+  }
+  if (category._count.children > 0) {
+    throw new SyncApiError('请先删除子分类', 409);
+  }
+
+  await db.$transaction([
+    db.subscription.updateMany({ where: { userId, categoryId: category.id }, data: { categoryId: null } }),
+    db.category.delete({ where: { id: category.id } }),
+  ]);
+}
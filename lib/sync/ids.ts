@@ -0,0 +1,90 @@
+/**
+ * 同步 API 的 ID 转换
+ *
+ * Google Reader API：
+ * - 文章 ID 有长格式 tag:google.com,2005:reader/item/<16 位十六进制> 和短格式（十进制），均对应 Entry.numericId
+ * - 订阅源流 feed/<Feed.numericId>，分类流 user/-/label/<分类名>，状态流 user/-/state/com.google/<状态>
+ */
+
+export const STATE_PREFIX = 'user/-/state/com.google/';
+export const READING_LIST = `${STATE_PREFIX}reading-list`;
+export const READ = `${STATE_PREFIX}read`;
+export const STARRED = `${STATE_PREFIX}starred`;
+export const KEPT_UNREAD = `${STATE_PREFIX}kept-unread`;
+
+const LONG_ITEM_PREFIX = 'tag:google.com,2005:reader/item/';
+
+export type ParsedStream =
+  | { type: 'all' }
+  | { type: 'read' }
+  | { type: 'starred' }
+  | { type: 'feed'; feedId: number }
+  | { type: 'label'; name: string };
+
+/**
+ * 文章的长格式 ID
+ */
+export function toLongItemId(numericId: number): string {
+  return `${LONG_ITEM_PREFIX}${numericId.toString(16).padStart(16, '0')}`;
+}
+
+/**
+ * 解析长格式、十进制短格式或 16 位十六进制的文章 ID
+ * @returns 无效时返回 null
+ */
+export function parseItemId(id: string): number | null {
+  const value = id.trim();
+  let parsed: number;
+
+  if (value.startsWith(LONG_ITEM_PREFIX)) {
+    parsed = parseInt(value.slice(LONG_ITEM_PREFIX.length), 16);
+  } else if (/^\d+$/.test(value)) {
+    parsed = Number(value);
+  } else if (/^[0-9a-f]{16}$/i.test(value)) {
+    parsed = parseInt(value, 16);
+  } else {
+    return null;
+  }
+
+  return Number.isSafeInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+export function feedStreamId(numericId: number): string {
+  return `feed/${numericId}`;
+}
+
+export function labelStreamId(name: string): string {
+  return `user/-/label/${name}`;
+}
+
+/**
+ * 解析流 ID；用户段可以是 - 或任意用户 ID
+ * @returns 不支持的流返回 null
+ */
+export function parseStreamId(id: string): ParsedStream | null {
+  const feed = /^feed\/(\d+)$/.exec(id);
+  if (feed) return { type: 'feed', feedId: Number(feed[1]) };
+
+  const label = /^user\/[^/]+\/label\/(.+)$/.exec(id);
+  if (label) return { type: 'label', name: label[1] };
+
+  const state = /^user\/[^/]+\/state\/com\.google\/(.+)$/.exec(id);
+  switch (state?.[1]) {
+    case 'reading-list':
+      return { type: 'all' };
+    case 'read':
+      return { type: 'read' };
+    case 'starred':
+      return { type: 'starred' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * 分页标记：上一页最后一篇文章的 numericId
+ */
+export function parseContinuation(value: string | null | undefined): number | undefined {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+  return Number(value);
+}
@@ -111,9 +111,11 @@ export async function retry<T>(
     maxAttempts?: number;
     delay?: number;
     backoff?: number;
+    /** 返回 false 时不再重试，直接抛出 */
+    shouldRetry?: (error: Error) => boolean;
   } = {}
 ): Promise<T> {
-  const { maxAttempts = 3, delay = 1000, backoff = 2 } = options;
+  const { maxAttempts = 3, delay = 1000, backoff = 2, shouldRetry } = options;
 
   let lastError: Error | undefined;
 
@@ -122,6 +124,9 @@ export async function retry<T>(
       return await fn();
     } catch (error) {
       lastError = error as Error;
+      if (shouldRetry && !shouldRetry(lastError)) {
+        break;
+      }
       if (attempt < maxAttempts - 1) {
         await sleep(delay * Math.pow(backoff, attempt));
       }
@@ -24,8 +24,12 @@ const publicRoutes = new Set([
   '/api/admin/init',
   '/api/admin/init-status',
   '/api/health',
+  '/api/fever',
 ]);
 
+// 公开路由前缀（由路由自行校验，如 WebSub 回调使用签名、分享页和对外订阅源使用令牌、同步 API 和 REST API 使用 API Key）
+const publicPrefixes = ['/api/websub/', '/share/', '/api/share/', '/api/greader/', '/api/v1/', '/api/outbound/'];
+
 // 静态资源前缀
 const staticPrefixes = ['/_next', '/favicon.ico', '/public', '/images', '/logo.png'];
 
@@ -49,7 +53,7 @@ function isStaticResource(pathname: string): boolean {
  * 检查是否是公开路由
  */
 function isPublicRoute(pathname: string): boolean {
-  return publicRoutes.has(pathname);
+  return publicRoutes.has(pathname) || publicPrefixes.some(prefix => pathname.startsWith(prefix));
 }
 
 /**
@@ -0,0 +1,51 @@
+/**
+ * 回填文章向量嵌入
+ *
+ * 用法:
+ *   npm run embeddings:backfill                 # 全部缺少嵌入的文章
+ *   npm run embeddings:backfill -- --user <id>  # 仅指定用户
+ *   npm run embeddings:backfill -- --limit 500  # 限制数量
+ */
+
+import { db } from '../lib/db';
+import { getEmbeddingService } from '../lib/search/embeddings';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function backfill() {
+  console.log('=== 文章嵌入回填 ===\n');
+
+  const userId = getArg('user');
+  const limitArg = getArg('limit');
+  const limit = limitArg ? parseInt(limitArg, 10) : undefined;
+
+  const service = getEmbeddingService();
+
+  const before = await service.getCoverage(userId);
+  console.log(`当前覆盖: ${before.embedded}/${before.total}\n`);
+
+  const result = await service.backfill({
+    userId,
+    limit,
+    onProgress: (done, failed) => {
+      console.log(`  已完成 ${done}，失败 ${failed}`);
+    },
+  });
+
+  const after = await service.getCoverage(userId);
+
+  console.log('\n=== 回填完成 ===');
+  console.log(`成功: ${result.processed}`);
+  console.log(`失败: ${result.failed}`);
+  console.log(`覆盖: ${after.embedded}/${after.total}`);
+}
+
+backfill()
+  .catch((error) => {
+    console.error('回填失败:', error);
+    process.exit(1);
+  })
+  .finally(() => db.$disconnect());
@@ -34,7 +34,7 @@ async function migrate() {
     select: {
       id: true,
       feedId: true,
-      feed: { select: { userId: true } },
+      feed: { select: { subscriptions: { select: { userId: true }, orderBy: { createdAt: 'asc' }, take: 1 } } },
     },
   });
 
@@ -55,7 +55,7 @@ async function migrate() {
 
       await addPreliminaryJob({
         entryId: task.entryId,
-        userId: entry.feed?.userId,
+        userId: entry.feed.subscriptions[0]?.userId,
         priority: task.priority || 5,
       });
 
@@ -0,0 +1,121 @@
+/**
+ * 迁移到共享订阅源（Feed 按 URL 全局唯一 + Subscription + EntryState）
+ *
+ * 旧结构中订阅源属于单个用户，已读/星标/归档存储在文章上。迁移分两步，中间执行 db push：
+ *   npm run feeds:migrate-shared -- prepare    # 1. 备份用户设置和文章状态，按 URL 合并重复订阅源
+ *   npx prisma db push --accept-data-loss      # 2. 应用新结构（删除旧列）
+ *   npm run feeds:migrate-shared -- finalize   # 3. 写入订阅和文章状态，重算未读数
+ *
+ * 注意：规则、报告等 JSON 配置中引用的被合并订阅源 ID 不会自动替换
+ */
+
+import { db } from '../lib/db';
+import { refreshUnreadCounts } from '../lib/entries/state';
+
+/** 每个 URL 保留最早创建的订阅源 */
+const CANONICAL_FEEDS = `
+  SELECT DISTINCT ON (feed_url) id, feed_url
+  FROM feeds
+  ORDER BY feed_url, created_at ASC
+`;
+
+async function prepare() {
+  console.log('=== 阶段 1：备份并合并订阅源 ===\n');
+
+  await db.$executeRawUnsafe(`
+    CREATE TABLE IF NOT EXISTS _migration_subscriptions AS
+    SELECT user_id, id AS feed_id, feed_url, category_id, title, fetch_time_range,
+           is_active, priority, tags, created_at
+    FROM feeds
+  `);
+
+  await db.$executeRawUnsafe(`
+    CREATE TABLE IF NOT EXISTS _migration_entry_states AS
+    SELECT f.user_id, e.id AS entry_id, e.is_read, e.is_starred, e.is_archived, e.read_at
+    FROM entries e
+    JOIN feeds f ON f.id = e.feed_id
+    WHERE e.is_read OR e.is_starred OR e.is_archived
+  `);
+  console.log('✓ 已备份订阅设置和文章状态');
+
+  // 订阅指向保留的订阅源
+  await db.$executeRawUnsafe(`
+    UPDATE _migration_subscriptions m
+    SET feed_id = c.id
+    FROM (${CANONICAL_FEEDS}) c
+    WHERE c.feed_url = m.feed_url
+  `);
+
+  // 重复订阅源的文章移到保留的订阅源
+  const moved = await db.$executeRawUnsafe(`
+    UPDATE entries e
+    SET feed_id = c.id
+    FROM feeds f
+    JOIN (${CANONICAL_FEEDS}) c ON c.feed_url = f.feed_url
+    WHERE e.feed_id = f.id AND f.id <> c.id
+  `);
+
+  const removed = await db.$executeRawUnsafe(`
+    DELETE FROM feeds f
+    USING (${CANONICAL_FEEDS}) c
+    WHERE f.feed_url = c.feed_url AND f.id <> c.id
+  `);
+
+  console.log(`✓ 合并重复订阅源 ${removed} 个，迁移文章 ${moved} 篇`);
+  console.log('\n下一步: npx prisma db push --accept-data-loss');
+}
+
+async function finalize() {
+  console.log('=== 阶段 3：写入订阅和文章状态 ===\n');
+
+  const subscriptions = await db.$executeRawUnsafe(`
+    INSERT INTO subscriptions (id, user_id, feed_id, category_id, title, fetch_time_range,
+                               is_active, priority, tags, created_at, updated_at)
+    SELECT gen_random_uuid()::text, m.user_id, m.feed_id, m.category_id, m.title, m.fetch_time_range,
+           m.is_active, m.priority, m.tags, m.created_at, NOW()
+    FROM _migration_subscriptions m
+    JOIN feeds f ON f.id = m.feed_id
+    ON CONFLICT (user_id, feed_id) DO NOTHING
+  `);
+  console.log(`✓ 订阅: ${subscriptions}`);
+
+  const states = await db.$executeRawUnsafe(`
+    INSERT INTO entry_states (id, user_id, entry_id, is_read, is_starred, is_archived,
+                              read_at, starred_at, created_at, updated_at)
+    SELECT gen_random_uuid()::text, m.user_id, m.entry_id, m.is_read, m.is_starred, m.is_archived,
+           m.read_at, CASE WHEN m.is_starred THEN NOW() END, NOW(), NOW()
+    FROM _migration_entry_states m
+    JOIN entries e ON e.id = m.entry_id
+    ON CONFLICT (user_id, entry_id) DO NOTHING
+  `);
+  console.log(`✓ 文章状态: ${states}`);
+
+  const users = await db.subscription.findMany({
+    distinct: ['userId'],
+    select: { userId: true },
+  });
+  for (const { userId } of users) {
+    await refreshUnreadCounts({ userId });
+  }
+  console.log(`✓ 已重算 ${users.length} 个用户的未读数`);
+
+  await db.$executeRawUnsafe('DROP TABLE _migration_subscriptions');
+  await db.$executeRawUnsafe('DROP TABLE _migration_entry_states');
+
+  console.log('\n=== 迁移完成 ===');
+}
+
+const phase = process.argv[2];
+const run = phase === 'prepare' ? prepare : phase === 'finalize' ? finalize : null;
+
+if (!run) {
+  console.error('用法: tsx scripts/migrate-shared-feeds.ts <prepare|finalize>');
+  process.exit(1);
+}
+
+run()
+  .catch((error) => {
+    console.error('迁移失败:', error);
+    process.exit(1);
+  })
+  .finally(() => db.$disconnect());
@@ -37,6 +37,7 @@ import {
   getFeedDiscoveryQueueStatus,
   clearFeedDiscoveryQueue,
 } from '@/lib/queue/feed-discovery-processor';
+import { feedManager } from '@/lib/rss/feed-manager';
 
 const args = process.argv.slice(2);
 const command = args[0];
@@ -60,6 +61,17 @@ function formatNumber(num: number): string {
   return num.toLocaleString();
 }
 
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${value.toFixed(unitIndex === 0 ? 0 : 2)} ${units[unitIndex]}`;
+}
+
 function getStatusColor(status: string): string {
   switch (status) {
     case 'healthy':
@@ -175,6 +187,16 @@ async function showStatus() {
     console.log(`  ├─ 总处理中: ${formatNumber(totalActive)}`);
     console.log(`  └─ 总失败: ${formatNumber(totalFailed)}`);
 
+    // 条件请求（304）节省统计
+    const fetchStats = await feedManager.getConditionalFetchStats().catch(() => null);
+    if (fetchStats) {
+      console.log(`\n${colors.bright}条件抓取 (ETag/Last-Modified):${colors.reset}`);
+      console.log(`  ├─ 支持校验的订阅源: ${formatNumber(fetchStats.feedsWithValidators)}`);
+      console.log(`  ├─ 304 未变化次数: ${formatNumber(fetchStats.notModifiedCount)}`);
+      console.log(`  ├─ 跳过条目数: ${formatNumber(fetchStats.itemsSkipped)}`);
+      console.log(`  └─ 节省流量: ${formatBytes(fetchStats.bytesSaved)}`);
+    }
+
     // 系统健康状态
     const overallHealth =
       totalFailed > 30 ? 'error' : totalFailed > 10 || totalWaiting > 500 ? 'warning' : 'healthy';
@@ -0,0 +1,38 @@
+/**
+ * 初始化全文检索（函数、触发器、GIN 索引）并回填 search_vector
+ *
+ * 用法:
+ *   npm run search:setup               # 创建触发器并回填缺失的文章
+ *   npm run search:setup -- --rebuild  # 修改 SEARCH_TEXT_CONFIG / SEARCH_CJK_TOKENIZER 后重建全部
+ */
+
+import { db } from '../lib/db';
+import { backfillSearchVectors, ensureFullTextSearch, getFullTextConfig } from '../lib/search/fulltext';
+
+async function setup() {
+  console.log('=== 全文检索初始化 ===\n');
+
+  const rebuild = process.argv.includes('--rebuild');
+  const config = getFullTextConfig();
+  console.log(`检索配置: ${config.textConfig}，CJK 逐字分词: ${config.cjk ? '开启' : '关闭'}\n`);
+
+  await ensureFullTextSearch(config);
+  console.log('✓ 检索函数、触发器和索引已就绪');
+
+  const updated = await backfillSearchVectors({
+    rebuild,
+    onProgress: (done) => {
+      console.log(`  已处理 ${done}`);
+    },
+  });
+
+  console.log('\n=== 初始化完成 ===');
+  console.log(`${rebuild ? '重建' : '回填'}: ${updated}`);
+}
+
+setup()
+  .catch((error) => {
+    console.error('初始化失败:', error);
+    process.exit(1);
+  })
+  .finally(() => db.$disconnect());
@@ -0,0 +1,68 @@
+/**
+ * Rule Delivery Worker 启动脚本
+ *
+ * 处理订阅规则命中后的 Webhook、站内通知和邮件投递
+ */
+
+import { createRuleDeliveryWorker, getRuleDeliveryQueueStatus } from '../lib/queue/rule-delivery-processor';
+
+async function startWorker() {
+  console.log('==========================================');
+  console.log('  Rule Delivery Worker 启动中...');
+  console.log('==========================================\n');
+
+  console.log('📋 配置信息:');
+  console.log(`  并发数: ${process.env.RULE_DELIVERY_CONCURRENCY || '5'}`);
+  console.log(`  Redis: ${process.env.REDIS_HOST || 'localhost'}:${process.env.REDIS_PORT || '6379'}\n`);
+
+  // 创建 Worker
+  const worker = createRuleDeliveryWorker();
+
+  console.log('✅ Worker 已启动\n');
+
+  worker.on('completed', (job, result) => {
+    console.log(`✅ 投递完成: ${job.id}`);
+    console.log(`   规则: ${job.data.rule.name}`);
+    console.log(`   动作: ${job.data.action.type}`);
+    console.log(`   结果: ${result.status}\n`);
+  });
+
+  worker.on('failed', (job, error) => {
+    console.error(`❌ 任务失败: ${job?.id}`);
+    console.error(`   文章ID: ${job?.data?.entryId}`);
+    console.error(`   错误: ${error.message}\n`);
+  });
+
+  worker.on('error', (error) => {
+    console.error('❌ Worker 错误:', error);
+  });
+
+  // 显示队列状态
+  try {
+    const status = await getRuleDeliveryQueueStatus();
+    console.log('📊 当前队列状态:');
+    console.log(`   等待中: ${status.waiting}`);
+    console.log(`   处理中: ${status.active}`);
+    console.log(`   失败: ${status.failed}\n`);
+  } catch (error) {
+    console.warn('⚠️  无法获取队列状态:', error);
+  }
+
+  // 优雅关闭
+  const shutdown = async (signal: string) => {
+    console.log(`\n🛑 收到 ${signal} 信号，正在关闭 Worker...`);
+    await worker.close();
+    console.log('✅ Worker 已关闭');
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  console.log('按 Ctrl+C 停止\n');
+}
+
+startWorker().catch((error) => {
+  console.error('启动 Worker 失败:', error);
+  process.exit(1);
+});
@@ -35,6 +35,9 @@ const WORKER_DEPENDENCIES = {
   // Markdown 处理
   markdown: ['marked'],
 
+  // 邮件发送（规则外发）
+  email: ['nodemailer'],
+
   // 运行时
   runtime: ['tsx'],
 };
@@ -8,6 +8,7 @@ import { db } from '../lib/db';
 import { SegmentedAnalyzer } from '../lib/ai/analysis/segmented-analyzer';
 import { ReflectionEngine } from '../lib/ai/analysis/reflection-engine';
 import { getDefaultAIService } from '../lib/ai/client';
+import { StageChat } from '../lib/ai/analysis/stage-chat';
 
 async function main() {
   console.log('=== AI-Native 深度分析测试 ===\n');
@@ -50,53 +51,16 @@ async function main() {
   console.log('2. 初始化 AI 服务...');
   const aiService = getDefaultAIService();
 
-  // 创建 LLM 提供者接口
-  const llm = {
-    chat: async (params: any) => {
-      const messages = params.messages || [];
-      const userMessage = messages.find((m: any) => m.role === 'user');
-
-      if (!userMessage) {
-        throw new Error('No user message found');
-      }
-
-      // 使用现有的 AI 服务
-      const result = await aiService.analyzeArticle(userMessage.content, {
-        summary: true,
-        keywords: true,
-        category: true,
-        importance: true,
-      });
-
-      return {
-        content: JSON.stringify({
-          oneLineSummary: result.summary?.slice(0, 50) || '',
-          summary: result.summary || '',
-          mainPoints: (result.keywords || []).map((k, i) => ({
-            point: k,
-            explanation: '',
-            importance: 0.8 - i * 0.1,
-          })),
-          tags: result.keywords || [],
-          domain: result.category || '技术',
-          subcategory: result.category || '通用',
-          aiScore: 7,
-          scoreDimensions: {
-            depth: 7,
-            quality: 7,
-            practicality: 7,
-            novelty: 7,
-          },
-        }),
-      };
-    },
-  } as any;
+  // 分析和反思阶段使用同一个 AI 服务，分别统计用量
+  const analysisLLM = new StageChat('analysis', aiService);
+  const reflectionLLM = new StageChat('reflection', aiService);
 
   console.log('✓ AI 服务初始化完成\n');
 
   // 3. 测试分段分析
   console.log('3. 测试分段分析引擎...');
-  const analyzer = new SegmentedAnalyzer(llm, {
+  const analyzer = new SegmentedAnalyzer(analysisLLM, {
+    analysisModel: analysisLLM.model,
     segmentSize: 3000,
     segmentOverlap: 200,
     enableReflection: false,
@@ -123,7 +87,8 @@ async function main() {
 
   // 4. 测试反思引擎
   console.log('4. 测试反思优化引擎...');
-  const reflectionEngine = new ReflectionEngine(llm, {
+  const reflectionEngine = new ReflectionEngine(reflectionLLM, {
+    reflectionModel: reflectionLLM.model,
     enableReflection: true,
     maxReflectionRounds: 1,
     qualityThreshold: 7,
@@ -145,6 +110,11 @@ async function main() {
     console.log('  继续使用原始分析结果...\n');
   }
 
+  for (const { usage } of [analysisLLM, reflectionLLM]) {
+    console.log(`  ${usage.stage}: ${usage.model}，${usage.calls} 次调用，${usage.totalTokens} tokens`);
+  }
+  console.log();
+
   // 5. 保存分析结果到数据库
   console.log('5. 保存分析结果到数据库...');
   try {
@@ -199,7 +199,7 @@ export const adminRouter = router({
             updatedAt: true,
             _count: {
               select: {
-                feeds: true,
+                subscriptions: true,
                 categories: true,
               },
             },
@@ -368,7 +368,7 @@ export const adminRouter = router({
           preferences: true,
           _count: {
             select: {
-              feeds: true,
+              subscriptions: true,
               categories: true,
               readingHistory: true,
               notifications: true,
@@ -7,6 +7,14 @@
 import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import { protectedProcedure, router, publicProcedure } from '../trpc/init';
+import {
+  entryStateFilter,
+  entryUserTagsInclude,
+  entryVisibleTo,
+  mergeEntryTags,
+  toUserEntry,
+  userEntryInclude,
+} from '@/lib/entries/state';
 
 export const analyticsRouter = router({
   /**
@@ -33,7 +41,7 @@ export const analyticsRouter = router({
       const entry = await ctx.db.entry.findFirst({
         where: {
           id: input.entryId,
-          feed: { userId },
+          ...entryVisibleTo(userId),
         },
         select: { id: true },
       });
@@ -169,10 +177,14 @@ export const analyticsRouter = router({
           entry: {
             select: {
               tags: true,
+              states: entryUserTagsInclude(userId),
               feed: {
                 select: {
                   title: true,
-                  tags: true,
+                  subscriptions: {
+                    where: { userId },
+                    select: { tags: true },
+                  },
                 },
               },
             },
@@ -191,7 +203,10 @@ export const analyticsRouter = router({
       // 统计标签
       const tagCounts: Record<string, number> = {};
       for (const session of sessions) {
-        const tags = [...(session.entry.tags || []), ...(session.entry.feed.tags || [])];
+        const tags = [
+          ...mergeEntryTags(session.entry.tags, session.entry.states),
+          ...(session.entry.feed.subscriptions[0]?.tags || []),
+        ];
         for (const tag of tags) {
           tagCounts[tag] = (tagCounts[tag] || 0) + 1;
         }
@@ -294,11 +309,11 @@ export const analyticsRouter = router({
       if (!preference || Object.keys(preference.topicWeights as Record<string, number>).length === 0) {
         // 没有偏好数据，返回普通列表
         const where: any = {
-          feed: { userId },
+          ...entryVisibleTo(userId),
         };
 
         if (filters?.excludeRead) {
-          where.isRead = false;
+          where.AND = entryStateFilter(userId, { isRead: false });
         }
 
         if (cursor) {
@@ -309,16 +324,8 @@ export const analyticsRouter = router({
           where,
           take: limit + 1,
           orderBy: { publishedAt: 'desc' },
-          include: {
-            feed: {
-              select: {
-                id: true,
-                title: true,
-                iconUrl: true,
-              },
-            },
-          },
-        });
+          include: userEntryInclude(userId),
+        }).then((rows) => rows.map(toUserEntry));
 
         let nextCursor: string | undefined;
         if (entries.length > limit) {
@@ -344,7 +351,7 @@ export const analyticsRouter = router({
         .map(([tag]) => tag);
 
       const where: any = {
-        feed: { userId },
+        ...entryVisibleTo(userId),
       };
 
       // 基于用户偏好标签筛选
@@ -358,7 +365,7 @@ export const analyticsRouter = router({
       }
 
       if (filters?.excludeRead) {
-        where.isRead = false;
+        where.AND = entryStateFilter(userId, { isRead: false });
       }
 
       if (cursor) {
@@ -375,16 +382,8 @@ export const analyticsRouter = router({
           { aiAnalyzedAt: 'desc' },
           { publishedAt: 'desc' },
         ],
-        include: {
-          feed: {
-            select: {
-              id: true,
-              title: true,
-              iconUrl: true,
-            },
-          },
-        },
-      });
+        include: userEntryInclude(userId),
+      }).then((rows) => rows.map(toUserEntry));
 
       // 计算个性化评分
       const scoredEntries = entries.map(entry => {
@@ -456,7 +455,7 @@ export const analyticsRouter = router({
       const entry = await ctx.db.entry.findFirst({
         where: {
           id: entryId,
-          feed: { userId },
+          ...entryVisibleTo(userId),
         },
         select: { id: true },
       });
@@ -524,7 +523,7 @@ export const analyticsRouter = router({
       const entry = await ctx.db.entry.findFirst({
         where: {
           id: entryId,
-          feed: { userId: ctx.userId },
+          ...entryVisibleTo(ctx.userId),
         },
         select: { id: true },
       });
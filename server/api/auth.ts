@@ -210,7 +210,7 @@ export const authRouter = router({
         updatedAt: true,
         _count: {
           select: {
-            feeds: true,
+            subscriptions: true,
             categories: true,
           },
         },
@@ -7,6 +7,23 @@ import { z } from 'zod';
 import { protectedProcedure, router } from '../trpc/init';
 import { info } from '@/lib/logger';
 
+/**
+ * 分类下的订阅源（id 为订阅源 ID，标题取用户订阅设置）
+ */
+function toCategoryFeed(subscription: {
+  feedId: string;
+  title: string;
+  unreadCount: number;
+  feed: { iconUrl: string | null };
+}) {
+  return {
+    id: subscription.feedId,
+    title: subscription.title,
+    iconUrl: subscription.feed.iconUrl,
+    unreadCount: subscription.unreadCount,
+  };
+}
+
 export const categoriesRouter = router({
   /**
    * 获取分类列表
@@ -16,33 +33,25 @@ export const categoriesRouter = router({
       const categories = await ctx.db.category.findMany({
         where: { userId: ctx.userId },
         include: {
-          _count: {
-            select: { feeds: true },
-          },
-          feeds: {
+          subscriptions: {
             select: {
-              id: true,
+              feedId: true,
               title: true,
-              iconUrl: true,
               unreadCount: true,
+              feed: { select: { iconUrl: true } },
             },
           },
         },
         orderBy: { sortOrder: 'asc' },
       });
 
-      // 计算未读数
-      const categoriesWithUnread = await Promise.all(
-        categories.map(async (cat) => ({
-          ...cat,
-          unreadCount: await ctx.db.entry.count({
-            where: {
-              feed: { categoryId: cat.id, userId: ctx.userId },
-              isRead: false,
-            },
-          }),
-        }))
-      );
+      // 未读数取自订阅的未读计数
+      const categoriesWithUnread = categories.map(({ subscriptions, ...cat }) => ({
+        ...cat,
+        _count: { feeds: subscriptions.length },
+        feeds: subscriptions.map(toCategoryFeed),
+        unreadCount: subscriptions.reduce((sum, s) => sum + s.unreadCount, 0),
+      }));
 
       return categoriesWithUnread;
     }),
@@ -59,16 +68,12 @@ export const categoriesRouter = router({
           userId: ctx.userId,
         },
         include: {
-          _count: {
-            select: { feeds: true },
-          },
-          feeds: {
+          subscriptions: {
             select: {
-              id: true,
+              feedId: true,
               title: true,
-              iconUrl: true,
               unreadCount: true,
-              description: true,
+              feed: { select: { iconUrl: true, description: true } },
             },
           },
         },
@@ -78,17 +83,16 @@ export const categoriesRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: '分类不存在' });
       }
 
-      // 计算未读数
-      const unreadCount = await ctx.db.entry.count({
-        where: {
-          feed: { categoryId: category.id, userId: ctx.userId },
-          isRead: false,
-        },
-      });
+      const { subscriptions, ...rest } = category;
 
       return {
-        ...category,
-        unreadCount,
+        ...rest,
+        _count: { feeds: subscriptions.length },
+        feeds: subscriptions.map((s) => ({
+          ...toCategoryFeed(s),
+          description: s.feed.description,
+        })),
+        unreadCount: subscriptions.reduce((sum, s) => sum + s.unreadCount, 0),
       };
     }),
 
@@ -172,9 +176,9 @@ export const categoriesRouter = router({
         });
       }
 
-      // 取消关联feeds的分类
-      await ctx.db.feed.updateMany({
-        where: { categoryId: input.id },
+      // 取消关联订阅的分类
+      await ctx.db.subscription.updateMany({
+        where: { categoryId: input.id, userId: ctx.userId },
         data: { categoryId: null },
       });
 
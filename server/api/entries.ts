@@ -10,6 +10,17 @@ import { addDeepAnalysisJob } from '@/lib/queue/deep-analysis-processor';
 import { getDefaultAIService, UserAIConfig } from '@/lib/ai/client';
 import { safeDecrypt } from '@/lib/crypto/encryption';
 import { info } from '@/lib/logger';
+import {
+  entryStateFilter,
+  entryTagFilter,
+  entryVisibleTo,
+  getEntryState,
+  refreshUnreadCounts,
+  setEntryState,
+  toUserEntry,
+  userEntryInclude,
+} from '@/lib/entries/state';
+import { findSmartFolder, smartFolderWhere } from '@/lib/search/smart-folders';
 
 /**
  * 获取用户的 AI 配置（解密 API 密钥）
@@ -39,6 +50,31 @@ async function getUserAIConfig(userId: string, db: any): Promise<UserAIConfig |
   return userAIConfig;
 }
 
+/**
+ * 过滤出用户可见（已订阅订阅源）的文章
+ */
+async function findVisibleEntries(db: any, userId: string, entryIds: string[]): Promise<{ id: string; feedId: string }[]> {
+  return db.entry.findMany({
+    where: { id: { in: entryIds }, ...entryVisibleTo(userId) },
+    select: { id: true, feedId: true },
+  });
+}
+
+/**
+ * 智能文件夹作为列表来源时的查询条件
+ */
+async function smartFolderCondition(userId: string, smartFolderId: string) {
+  const folder = await findSmartFolder(userId, smartFolderId);
+  if (!folder) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: '智能文件夹不存在' });
+  }
+  return smartFolderWhere(userId, folder);
+}
+
+function uniqueFeedIds(entries: { feedId: string }[]): string[] {
+  return [...new Set(entries.map(e => e.feedId))];
+}
+
 export const entriesRouter = router({
   /**
    * 获取文章列表（支持分页）
@@ -58,6 +94,7 @@ export const entriesRouter = router({
       dateTo: z.date().optional(),
       aiCategory: z.string().optional(),
       minImportance: z.number().min(0).max(1).optional(),
+      smartFolderId: z.string().uuid().optional(),
     }))
     .query(async ({ input, ctx }) => {
       const { page, limit, ...filters } = input;
@@ -65,19 +102,19 @@ export const entriesRouter = router({
 
       // 构建where条件
       const where: any = {
-        feed: {
-          userId: ctx.userId,
-        },
+        ...entryVisibleTo(ctx.userId, filters.categoryId),
+        AND: entryStateFilter(ctx.userId, {
+          isRead: filters.unreadOnly ? false : undefined,
+          isStarred: filters.starredOnly ? true : undefined,
+          isArchived: filters.archivedOnly ? true : undefined,
+        }),
       };
 
       if (filters.feedId) where.feedId = filters.feedId;
-      if (filters.categoryId) where.feed.categoryId = filters.categoryId;
-      if (filters.tag) where.tags = { has: filters.tag };
-      if (filters.unreadOnly) where.isRead = false;
-      if (filters.starredOnly) where.isStarred = true;
-      if (filters.archivedOnly) where.isArchived = true;
+      if (filters.tag) where.AND.push(entryTagFilter(ctx.userId, filters.tag));
       if (filters.aiCategory) where.aiCategory = filters.aiCategory;
       if (filters.minImportance) where.aiImportanceScore = { gte: filters.minImportance };
+      if (filters.smartFolderId) where.AND.push(await smartFolderCondition(ctx.userId, filters.smartFolderId));
 
       if (filters.dateFrom || filters.dateTo) {
         where.publishedAt = {};
@@ -99,22 +136,13 @@ export const entriesRouter = router({
           skip,
           take: limit,
           orderBy: { publishedAt: 'desc' },
-          include: {
-            feed: {
-              select: {
-                id: true,
-                title: true,
-                iconUrl: true,
-                categoryId: true,
-              },
-            },
-          },
+          include: userEntryInclude(ctx.userId),
         }),
         ctx.db.entry.count({ where }),
       ]);
 
       return {
-        items: entries,
+        items: entries.map(toUserEntry),
         pagination: {
           page,
           limit,
@@ -144,25 +172,26 @@ export const entriesRouter = router({
       dateTo: z.date().optional(),
       aiCategory: z.string().optional(),
       minImportance: z.number().min(0).max(1).optional(),
+      smartFolderId: z.string().uuid().optional(),
     }))
     .query(async ({ input, ctx }) => {
       const { limit, cursor, ...filters } = input;
 
       // 构建where条件
       const where: any = {
-        feed: {
-          userId: ctx.userId,
-        },
+        ...entryVisibleTo(ctx.userId, filters.categoryId),
+        AND: entryStateFilter(ctx.userId, {
+          isRead: filters.unreadOnly ? false : undefined,
+          isStarred: filters.starredOnly ? true : undefined,
+          isArchived: filters.archivedOnly ? true : undefined,
+        }),
       };
 
       if (filters.feedId) where.feedId = filters.feedId;
-      if (filters.categoryId) where.feed.categoryId = filters.categoryId;
-      if (filters.tag) where.tags = { has: filters.tag };
-      if (filters.unreadOnly) where.isRead = false;
-      if (filters.starredOnly) where.isStarred = true;
-      if (filters.archivedOnly) where.isArchived = true;
+      if (filters.tag) where.AND.push(entryTagFilter(ctx.userId, filters.tag));
       if (filters.aiCategory) where.aiCategory = filters.aiCategory;
       if (filters.minImportance) where.aiImportanceScore = { gte: filters.minImportance };
+      if (filters.smartFolderId) where.AND.push(await smartFolderCondition(ctx.userId, filters.smartFolderId));
 
       if (filters.dateFrom || filters.dateTo) {
         where.publishedAt = {};
@@ -187,16 +216,7 @@ export const entriesRouter = router({
         where,
         take: limit + 1, // 多取一个判断是否还有更多
         orderBy: { publishedAt: 'desc' },
-        include: {
-          feed: {
-            select: {
-              id: true,
-              title: true,
-              iconUrl: true,
-              categoryId: true,
-            },
-          },
-        },
+        include: userEntryInclude(ctx.userId),
       });
 
       let nextCursor: string | undefined;
@@ -206,7 +226,7 @@ export const entriesRouter = router({
       }
 
       return {
-        items: entries,
+        items: entries.map(toUserEntry),
         pagination: {
           nextCursor,
           hasNext: !!nextCursor,
@@ -223,17 +243,12 @@ export const entriesRouter = router({
       const entry = await ctx.db.entry.findFirst({
         where: {
           id: input.id,
-          feed: { userId: ctx.userId },
+          ...entryVisibleTo(ctx.userId),
         },
         include: {
-          feed: {
-            select: {
-              id: true,
-              title: true,
-              iconUrl: true,
-              siteUrl: true,
-              categoryId: true,
-            },
+          ...userEntryInclude(ctx.userId),
+          enclosures: {
+            orderBy: { createdAt: 'asc' },
           },
         },
       });
@@ -267,7 +282,7 @@ export const entriesRouter = router({
       }
 
       // 记录阅读历史
-      await ctx.db.readingHistory.upsert({
+      const history = await ctx.db.readingHistory.upsert({
         where: {
           userId_entryId: {
             userId: ctx.userId,
@@ -286,8 +301,166 @@ export const entriesRouter = router({
 
       // 合并 AI 分析字段
       return {
-        ...entry,
+        ...toUserEntry(entry),
         ...entryWithAI,
+        playback: {
+          position: history.playbackPosition,
+          playedAt: history.playedAt,
+        },
+      };
+    }),
+
+  /**
+   * 获取文章的历史版本（发布者修改标题或正文前的版本，按替换时间倒序）
+   */
+  revisions: protectedProcedure
+    .input(z.object({ entryId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      const entry = await ctx.db.entry.findFirst({
+        where: {
+          id: input.entryId,
+          ...entryVisibleTo(ctx.userId),
+        },
+        select: { id: true },
+      });
+
+      if (!entry) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: '文章不存在' });
+      }
+
+      return ctx.db.entryRevision.findMany({
+        where: { entryId: entry.id },
+        orderBy: { createdAt: 'desc' },
+      });
+    }),
+
+  /**
+   * 保存音视频播放进度
+   */
+  savePlayback: protectedProcedure
+    .input(z.object({
+      entryId: z.string().uuid(),
+      position: z.number().int().min(0),
+      completed: z.boolean().default(false),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const entry = await ctx.db.entry.findFirst({
+        where: {
+          id: input.entryId,
+          ...entryVisibleTo(ctx.userId),
+        },
+        select: { id: true },
+      });
+
+      if (!entry) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: '文章不存在' });
+      }
+
+      // 播放完成后从头开始，避免再次打开时停在末尾
+      const playback = {
+        playbackPosition: input.completed ? 0 : input.position,
+        ...(input.completed && { playedAt: new Date() }),
+        lastOpenedAt: new Date(),
+      };
+
+      const history = await ctx.db.readingHistory.upsert({
+        where: {
+          userId_entryId: {
+            userId: ctx.userId,
+            entryId: entry.id,
+          },
+        },
+        create: {
+          userId: ctx.userId,
+          entryId: entry.id,
+          source: 'player',
+          ...playback,
+        },
+        update: playback,
+      });
+
+      return {
+        position: history.playbackPosition,
+        playedAt: history.playedAt,
+      };
+    }),
+
+  /**
+   * 播客列表：含音视频附件的文章
+   */
+  podcasts: protectedProcedure
+    .input(z.object({
+      page: z.number().min(1).default(1),
+      limit: z.number().min(1).max(100).default(20),
+      feedId: z.string().uuid().optional(),
+      mediaKind: z.enum(['audio', 'video']).optional(),
+      unplayedOnly: z.boolean().default(true),
+    }))
+    .query(async ({ input, ctx }) => {
+      const where = {
+        ...entryVisibleTo(ctx.userId),
+        ...(input.feedId && { feedId: input.feedId }),
+        enclosures: {
+          some: { mediaKind: input.mediaKind ? input.mediaKind : { in: ['audio', 'video'] } },
+        },
+        ...(input.unplayedOnly && {
+          readingHistory: {
+            none: { userId: ctx.userId, playedAt: { not: null } },
+          },
+        }),
+      };
+
+      const [items, total] = await Promise.all([
+        ctx.db.entry.findMany({
+          where,
+          select: {
+            id: true,
+            title: true,
+            url: true,
+            summary: true,
+            publishedAt: true,
+            mainImageUrl: true,
+            feed: {
+              select: {
+                id: true,
+                title: true,
+                iconUrl: true,
+              },
+            },
+            enclosures: {
+              where: { mediaKind: { in: ['audio', 'video'] } },
+              orderBy: { createdAt: 'asc' },
+              take: 1,
+            },
+            readingHistory: {
+              where: { userId: ctx.userId },
+              select: { playbackPosition: true, playedAt: true },
+            },
+          },
+          orderBy: { publishedAt: 'desc' },
+          skip: (input.page - 1) * input.limit,
+          take: input.limit,
+        }),
+        ctx.db.entry.count({ where }),
+      ]);
+
+      return {
+        items: items.map(({ enclosures, readingHistory, ...entry }) => ({
+          ...entry,
+          enclosure: enclosures[0] ?? null,
+          playback: {
+            position: readingHistory[0]?.playbackPosition ?? 0,
+            playedAt: readingHistory[0]?.playedAt ?? null,
+          },
+        })),
+        pagination: {
+          page: input.page,
+          limit: input.limit,
+          total,
+          totalPages: Math.ceil(total / input.limit),
+          hasNext: input.page * input.limit < total,
+          hasPrev: input.page > 1,
+        },
       };
     }),
 
@@ -320,14 +493,13 @@ export const entriesRouter = router({
       const currentEntry = await ctx.db.entry.findFirst({
         where: {
           id: input.entryId,
-          feed: { userId: ctx.userId },
+          ...entryVisibleTo(ctx.userId),
         },
         select: {
           id: true,
           aiKeywords: true,
           aiCategory: true,
           feedId: true,
-          feed: { select: { categoryId: true } },
         },
       });
 
@@ -356,7 +528,7 @@ export const entriesRouter = router({
         const relatedEntries = await ctx.db.entry.findMany({
           where: {
             id: { in: relatedIds },
-            feed: { userId: ctx.userId },
+            ...entryVisibleTo(ctx.userId),
           },
           select: {
             id: true,
@@ -402,7 +574,7 @@ export const entriesRouter = router({
         where: {
           AND: [
             { id: { not: input.entryId } },
-            { feed: { userId: ctx.userId } },
+            entryVisibleTo(ctx.userId),
             {
               OR: [
                 // 匹配关键词
@@ -495,7 +667,7 @@ export const entriesRouter = router({
     }),
 
   /**
-   * 标记为已读（优化版：批量操作避免 N+1 查询）
+   * 标记为已读
    */
   markAsRead: protectedProcedure
     .input(z.object({
@@ -503,44 +675,20 @@ export const entriesRouter = router({
       readAt: z.date().optional(),
     }))
     .mutation(async ({ input, ctx }) => {
-      // 使用事务确保数据一致性
-      await ctx.db.$transaction(async (tx) => {
-        // 1. 批量更新文章状态
-        await tx.entry.updateMany({
-          where: {
-            id: { in: input.entryIds },
-            feed: { userId: ctx.userId },
-          },
-          data: {
-            isRead: true,
-            readAt: input.readAt || new Date(),
-          },
-        });
+      const entries = await findVisibleEntries(ctx.db, ctx.userId, input.entryIds);
 
-        // 2. 使用 groupBy 批量获取每个 feed 受影响的文章数
-        const feedStats = await tx.entry.groupBy({
-          by: ['feedId'],
-          where: {
-            id: { in: input.entryIds },
-            isRead: true,
-          },
-          _count: { id: true },
+      await setEntryState(ctx.userId, entries.map(e => e.id), { isRead: true });
+      if (input.readAt) {
+        await ctx.db.entryState.updateMany({
+          where: { userId: ctx.userId, entryId: { in: entries.map(e => e.id) } },
+          data: { readAt: input.readAt },
         });
-
-        // 3. 批量更新每个 feed 的未读计数（使用 decrement）
-        await Promise.all(
-          feedStats.map(stat =>
-            tx.feed.update({
-              where: { id: stat.feedId },
-              data: { unreadCount: { decrement: stat._count.id } },
-            })
-          )
-        );
-      });
+      }
+      await refreshUnreadCounts({ userId: ctx.userId, feedIds: uniqueFeedIds(entries) });
 
       await info('rss', '标记文章已读', {
         userId: ctx.userId,
-        count: input.entryIds.length
+        count: entries.length
       });
 
       return { success: true };
@@ -555,19 +703,12 @@ export const entriesRouter = router({
       starred: z.boolean(),
     }))
     .mutation(async ({ input, ctx }) => {
-      await ctx.db.entry.updateMany({
-        where: {
-          id: { in: input.entryIds },
-          feed: { userId: ctx.userId },
-        },
-        data: {
-          isStarred: input.starred,
-        },
-      });
+      const entries = await findVisibleEntries(ctx.db, ctx.userId, input.entryIds);
+      await setEntryState(ctx.userId, entries.map(e => e.id), { isStarred: input.starred });
 
       await info('rss', input.starred ? '添加星标' : '取消星标', { 
         userId: ctx.userId, 
-        count: input.entryIds.length 
+        count: entries.length 
       });
 
       return { success: true };
@@ -579,24 +720,16 @@ export const entriesRouter = router({
   toggleStar: protectedProcedure
     .input(z.object({ entryId: z.string().uuid() }))
     .mutation(async ({ input, ctx }) => {
-      const entry = await ctx.db.entry.findFirst({
-        where: {
-          id: input.entryId,
-          feed: { userId: ctx.userId },
-        },
-        select: { isStarred: true },
-      });
+      const [entry] = await findVisibleEntries(ctx.db, ctx.userId, [input.entryId]);
 
       if (!entry) {
         throw new TRPCError({ code: 'NOT_FOUND', message: '文章不存在' });
       }
 
-      await ctx.db.entry.update({
-        where: { id: input.entryId },
-        data: { isStarred: !entry.isStarred },
-      });
+      const state = await getEntryState(ctx.userId, entry.id);
+      const newStatus = !state.isStarred;
 
-      const newStatus = !entry.isStarred;
+      await setEntryState(ctx.userId, [entry.id], { isStarred: newStatus });
       
       await info('rss', newStatus ? '添加星标' : '取消星标', { 
         userId: ctx.userId, 
@@ -612,45 +745,19 @@ export const entriesRouter = router({
   toggleRead: protectedProcedure
     .input(z.object({ entryId: z.string().uuid() }))
     .mutation(async ({ input, ctx }) => {
-      const entry = await ctx.db.entry.findFirst({
-        where: {
-          id: input.entryId,
-          feed: { userId: ctx.userId },
-        },
-        select: {
-          isRead: true,
-          feedId: true,
-        },
-      });
+      const [entry] = await findVisibleEntries(ctx.db, ctx.userId, [input.entryId]);
 
       if (!entry) {
         throw new TRPCError({ code: 'NOT_FOUND', message: '文章不存在' });
       }
 
-      const newReadState = !entry.isRead;
+      const state = await getEntryState(ctx.userId, entry.id);
+      const newReadState = !state.isRead;
 
-      await ctx.db.entry.update({
-        where: { id: input.entryId },
-        data: {
-          isRead: newReadState,
-          readAt: newReadState ? new Date() : null,
-        },
-      });
+      await setEntryState(ctx.userId, [entry.id], { isRead: newReadState });
 
-      // 更新feed的未读计数
-      if (!newReadState) {
-        // 标记为未读，增加计数
-        await ctx.db.feed.update({
-          where: { id: entry.feedId },
-          data: { unreadCount: { increment: 1 } },
-        });
-      } else {
-        // 标记为已读，减少计数
-        await ctx.db.feed.update({
-          where: { id: entry.feedId },
-          data: { unreadCount: { decrement: 1 } },
-        });
-      }
+      // 更新订阅的未读计数
+      await refreshUnreadCounts({ userId: ctx.userId, feedIds: [entry.feedId] });
 
       return { isRead: newReadState };
     }),
@@ -664,56 +771,56 @@ export const entriesRouter = router({
       action: z.enum(['markRead', 'markUnread', 'star', 'unstar', 'archive', 'unarchive', 'delete']),
     }))
     .mutation(async ({ input, ctx }) => {
-      const { entryIds, action } = input;
+      const { action } = input;
+      const entries = await findVisibleEntries(ctx.db, ctx.userId, input.entryIds);
+      const entryIds = entries.map(e => e.id);
 
       switch (action) {
         case 'markRead':
-          await ctx.db.entry.updateMany({
-            where: { id: { in: entryIds }, feed: { userId: ctx.userId } },
-            data: { isRead: true, readAt: new Date() },
-          });
+          await setEntryState(ctx.userId, entryIds, { isRead: true });
           break;
 
         case 'markUnread':
-          await ctx.db.entry.updateMany({
-            where: { id: { in: entryIds }, feed: { userId: ctx.userId } },
-            data: { isRead: false, readAt: null },
-          });
+          await setEntryState(ctx.userId, entryIds, { isRead: false });
           break;
 
         case 'star':
-          await ctx.db.entry.updateMany({
-            where: { id: { in: entryIds }, feed: { userId: ctx.userId } },
-            data: { isStarred: true },
-          });
+          await setEntryState(ctx.userId, entryIds, { isStarred: true });
           break;
 
         case 'unstar':
-          await ctx.db.entry.updateMany({
-            where: { id: { in: entryIds }, feed: { userId: ctx.userId } },
-            data: { isStarred: false },
-          });
+          await setEntryState(ctx.userId, entryIds, { isStarred: false });
           break;
 
         case 'archive':
-          await ctx.db.entry.updateMany({
-            where: { id: { in: entryIds }, feed: { userId: ctx.userId } },
-            data: { isArchived: true },
-          });
+          await setEntryState(ctx.userId, entryIds, { isArchived: true });
           break;
 
         case 'unarchive':
-          await ctx.db.entry.updateMany({
-            where: { id: { in: entryIds }, feed: { userId: ctx.userId } },
-            data: { isArchived: false },
-          });
+          await setEntryState(ctx.userId, entryIds, { isArchived: false });
           break;
 
-        case 'delete':
-          await ctx.db.entry.deleteMany({
-            where: { id: { in: entryIds }, feed: { userId: ctx.userId } },
+        case 'delete': {
+          // 文章由订阅者共享：仅当前用户订阅的直接删除，其他的对当前用户标记为已读并归档
+          const { count } = await ctx.db.entry.deleteMany({
+            where: {
+              id: { in: entryIds },
+              feed: { subscriptions: { every: { userId: ctx.userId } } },
+            },
           });
+          if (count < entryIds.length) {
+            const remaining = await ctx.db.entry.findMany({
+              where: { id: { in: entryIds } },
+              select: { id: true },
+            });
+            await setEntryState(ctx.userId, remaining.map(e => e.id), { isRead: true, isArchived: true });
+          }
           break;
+        }
+      }
+
+      if (action === 'markRead' || action === 'markUnread' || action === 'delete') {
+        await refreshUnreadCounts({ userId: ctx.userId, feedIds: uniqueFeedIds(entries) });
       }
 
       return { success: true };
@@ -731,7 +838,7 @@ export const entriesRouter = router({
       const entry = await ctx.db.entry.findFirst({
         where: {
           id: input.entryId,
-          feed: { userId: ctx.userId },
+          ...entryVisibleTo(ctx.userId),
         },
       });
 
@@ -800,7 +907,7 @@ export const entriesRouter = router({
       const entry = await ctx.db.entry.findFirst({
         where: {
           id: entryId,
-          feed: { userId },
+          ...entryVisibleTo(userId),
         },
         select: {
           id: true,
@@ -879,7 +986,7 @@ export const entriesRouter = router({
       const entry = await ctx.db.entry.findFirst({
         where: {
           id: input.entryId,
-          feed: { userId: ctx.userId },
+          ...entryVisibleTo(ctx.userId),
         },
         select: {
           id: true,
@@ -950,7 +1057,7 @@ export const entriesRouter = router({
       const entries = await ctx.db.entry.findMany({
         where: {
           id: { in: input.entryIds },
-          feed: { userId: ctx.userId },
+          ...entryVisibleTo(ctx.userId),
         },
         select: {
           id: true,
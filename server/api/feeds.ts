@@ -5,11 +5,83 @@
 
 import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
+import { load } from 'cheerio';
 import { protectedProcedure, router } from '../trpc/init';
 import { feedManager } from '@/lib/rss/feed-manager';
-import { parseFeed } from '@/lib/rss/parser';
+import { parseFeed, rssParser } from '@/lib/rss/parser';
+import {
+  credentialHosts,
+  extractionRulesSchema,
+  toExtractionRules,
+  type ExtractionRules,
+} from '@/lib/rss/extraction-rules';
+import { pageSelectorsSchema, toPageSelectors, type FeedSourceType, type PageSelectors } from '@/lib/rss/page-watcher';
 import { info, warn, error } from '@/lib/logger';
 import { isUrlSafe } from '@/lib/utils';
+import { db } from '@/lib/db';
+import {
+  feedSubscribedBy,
+  findOwnerSubscription,
+  findSubscription,
+  subscribe,
+  toUserFeed,
+  unsubscribe,
+} from '@/lib/rss/subscriptions';
+import { entryStateFilter, entryVisibleTo } from '@/lib/entries/state';
+
+/** 提交的提取规则：cookie 省略时保留已保存的值，null 表示清除 */
+const extractionRulesInput = extractionRulesSchema.extend({
+  cookie: extractionRulesSchema.shape.cookie.optional(),
+});
+
+/**
+ * 校验 CSS 选择器能否被 cheerio 解析
+ */
+function assertValidSelectors(selectors: string[]) {
+  const $ = load('<div></div>');
+  for (const selector of selectors) {
+    try {
+      $(selector);
+    } catch {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: `无效的选择器: ${selector}` });
+    }
+  }
+}
+
+function assertValidPageSelectors(selectors: PageSelectors) {
+  assertValidSelectors(Object.values(selectors).filter((selector): selector is string => !!selector));
+}
+
+/**
+ * 查找当前用户的订阅并要求其为订阅源所有者
+ * 提取规则和网页监控选择器作用于所有订阅者，只有所有者可以修改
+ */
+async function findOwnedSubscription(userId: string, feedId: string, action: string) {
+  const subscription = await findSubscription(userId, feedId);
+  if (!subscription) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: '订阅源不存在' });
+  }
+  const owner = await findOwnerSubscription(feedId);
+  if (owner?.id !== subscription.id) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `只有添加该订阅源的用户可以${action}` });
+  }
+  return subscription;
+}
+
+/**
+ * 合并提交的规则与所有者已保存的 Cookie
+ */
+async function resolveExtractionRules(
+  subscriptionId: string,
+  input: z.infer<typeof extractionRulesInput>
+): Promise<ExtractionRules> {
+  assertValidSelectors([...input.contentSelectors, ...input.removeSelectors]);
+  if (input.cookie !== undefined) {
+    return { ...input, cookie: input.cookie?.trim() || null };
+  }
+  const saved = toExtractionRules(await db.feedExtractionRule.findUnique({ where: { subscriptionId } }));
+  return { ...input, cookie: saved.cookie };
+}
 
 export const feedsRouter = router({
   /**
@@ -28,7 +100,7 @@ export const feedsRouter = router({
       const { page, limit, search, categoryId, tag, isActive } = input;
       const skip = (page - 1) * limit;
 
-      // 构建搜索条件
+      // 构建搜索条件（按用户订阅查询）
       const where: any = {
         userId: ctx.userId,
       };
@@ -54,53 +126,43 @@ export const feedsRouter = router({
         where.OR = [
           { title: { contains: searchTerm, mode: 'insensitive' } },
           { description: { contains: searchTerm, mode: 'insensitive' } },
-          { feedUrl: { contains: searchTerm, mode: 'insensitive' } },
           { siteUrl: { contains: searchTerm, mode: 'insensitive' } },
+          { feed: { description: { contains: searchTerm, mode: 'insensitive' } } },
+          { feed: { feedUrl: { contains: searchTerm, mode: 'insensitive' } } },
+          { feed: { siteUrl: { contains: searchTerm, mode: 'insensitive' } } },
         ];
       }
 
-      const [feeds, total] = await Promise.all([
-        ctx.db.feed.findMany({
+      const [subscriptions, total] = await Promise.all([
+        ctx.db.subscription.findMany({
           where,
           skip,
           take: limit,
           orderBy: { updatedAt: 'desc' },
           include: {
             category: true,
-            _count: {
-              select: {
-                entries: true,
+            feed: {
+              include: {
+                _count: {
+                  select: {
+                    entries: true,
+                  },
+                },
               },
             },
           },
         }),
-        ctx.db.feed.count({ where }),
+        ctx.db.subscription.count({ where }),
       ]);
 
-      // 优化：使用单次聚合查询获取所有订阅源的未读数量
-      const feedIds = feeds.map(f => f.id);
-      const unreadCounts = await ctx.db.entry.groupBy({
-        by: ['feedId'],
-        where: {
-          feedId: { in: feedIds },
-          isRead: false,
-        },
-        _count: { id: true },
-      });
-
-      // 创建 feedId -> unreadCount 的映射
-      const unreadMap = new Map(
-        unreadCounts.map(item => [item.feedId, item._count.id])
-      );
-
-      // 合并未读数量（无需额外查询）
-      const feedsWithUnreadCount = feeds.map(feed => ({
-        ...feed,
-        unreadCount: unreadMap.get(feed.id) || 0,
+      // 未读数由 subscriptions.unread_count 维护，无需额外聚合
+      const items = subscriptions.map(({ feed, category, ...subscription }) => ({
+        ...toUserFeed(feed, subscription),
+        category,
       }));
 
       return {
-        items: feedsWithUnreadCount,
+        items,
         pagination: {
           page,
           limit,
@@ -114,43 +176,44 @@ export const feedsRouter = router({
 
   /**
    * 获取单个订阅源
+   * isOwner 表示当前用户是否为订阅源所有者（可修改提取规则和网页监控选择器）
    */
   byId: protectedProcedure
     .input(z.object({ id: z.string().uuid() }))
     .query(async ({ input, ctx }) => {
-      const feed = await ctx.db.feed.findFirst({
+      const subscription = await ctx.db.subscription.findUnique({
         where: {
-          id: input.id,
-          userId: ctx.userId,
+          userId_feedId: { userId: ctx.userId, feedId: input.id },
         },
         include: {
           category: true,
-          _count: {
-            select: { entries: true },
+          feed: {
+            include: {
+              _count: {
+                select: { entries: true },
+              },
+            },
           },
         },
       });
 
-      if (!feed) {
+      if (!subscription) {
         throw new TRPCError({ code: 'NOT_FOUND', message: '订阅源不存在' });
       }
 
-      // 计算未读数
-      const unreadCount = await ctx.db.entry.count({
-        where: {
-          feedId: feed.id,
-          isRead: false,
-        },
-      });
+      const { feed, category, ...settings } = subscription;
+      const owner = await findOwnerSubscription(input.id);
 
       return {
-        ...feed,
-        unreadCount,
+        ...toUserFeed(feed, settings),
+        category,
+        isOwner: owner?.id === subscription.id,
       };
     }),
 
   /**
    * 添加订阅源
+   * 多个用户订阅同一 URL 时共享同一个订阅源，只抓取一次
    * 安全修复：添加 SSRF 防护
    */
   add: protectedProcedure
@@ -186,11 +249,11 @@ export const feedsRouter = router({
         title: input.title
       });
 
-      // 检查是否已存在
-      const existing = await ctx.db.feed.findFirst({
+      // 检查是否已订阅
+      const existing = await ctx.db.subscription.findFirst({
         where: {
           userId: ctx.userId,
-          feedUrl: input.url,
+          feed: { feedUrl: input.url },
         },
       });
 
@@ -198,61 +261,66 @@ export const feedsRouter = router({
         await warn('rss', '创建订阅源失败：已存在', {
           userId: ctx.userId,
           url: input.url,
-          existingFeedId: existing.id
+          existingFeedId: existing.feedId
         });
         throw new TRPCError({ code: 'CONFLICT', message: '订阅源已存在' });
       }
 
-      // 解析RSS feed获取标题
-      let title = input.title;
-      let description = input.description;
-      let siteUrl = input.siteUrl;
+      // 订阅源已被其他用户订阅时直接复用，否则解析RSS feed获取标题、描述和站点地址
+      const shared = await ctx.db.feed.findUnique({ where: { feedUrl: input.url } });
+      let title = input.title || shared?.title;
+      let description: string | undefined;
+      let siteUrl: string | undefined;
 
-      if (!title || !description || !siteUrl) {
+      if (!shared) {
         try {
           const parsed = await parseFeed(input.url);
           title = title || parsed.title;
-          description = description || parsed.description;
-          siteUrl = siteUrl || parsed.link;
+          description = parsed.description;
+          siteUrl = parsed.link;
         } catch {
           title = title || new URL(input.url).hostname;
         }
       }
 
-      // 创建订阅源
-      const feed = await ctx.db.feed.create({
-        data: {
-          userId: ctx.userId,
-          feedUrl: input.url,
-          title,
-          description,
-          siteUrl,
-          categoryId: input.categoryId,
-          tags: input.tags || [],
-          fetchInterval: input.fetchInterval || 3600,
-          fetchTimeRange: input.fetchTimeRange ?? null,
-          priority: input.priority || 5,
-          nextFetchAt: new Date(), // 立即抓取
+      // 创建订阅（用户填写的描述、站点地址和抓取间隔只作用于自己的订阅）
+      const { feed, subscription, created } = await subscribe(ctx.userId, input.url, {
+        title,
+        description,
+        siteUrl,
+        categoryId: input.categoryId,
+        tags: input.tags,
+        overrides: {
+          description: input.description,
+          siteUrl: input.siteUrl,
+          fetchInterval: input.fetchInterval,
         },
+        fetchTimeRange: input.fetchTimeRange,
+        priority: input.priority,
       });
 
-      // 异步抓取
-      feedManager.fetchFeed(feed.id).catch(console.error);
+      // 新订阅源异步抓取；共享订阅源已有文章，无需重复抓取
+      if (created) {
+        feedManager.fetchFeed(feed.id).catch(console.error);
+      }
 
       await info('rss', '订阅源创建成功', {
         userId: ctx.userId,
         feedId: feed.id,
-        title: feed.title,
+        title: subscription.title,
         url: input.url,
+        shared: !created,
         categoryId: input.categoryId,
         tags: input.tags
       });
 
-      return feed;
+      return toUserFeed(feed, subscription);
     }),
 
   /**
    * 更新订阅源
+   * 所有字段都只修改当前用户的订阅；描述、站点和抓取间隔覆盖共享订阅源的值，
+   * 订阅源按所有订阅者中最短的抓取间隔抓取
    */
   update: protectedProcedure
     .input(z.object({
@@ -275,52 +343,278 @@ export const feedsRouter = router({
         updates: Object.keys(input).filter(k => k !== 'id')
       });
 
-      const { id, url, fetchTimeRange, ...data } = input;
-      
-      // 构建更新数据
-      const updateData: any = { ...data };
-      if (url) updateData.feedUrl = url;
-      if (fetchTimeRange !== undefined) updateData.fetchTimeRange = fetchTimeRange;
+      const { id, url, ...settings } = input;
 
-      const feed = await ctx.db.feed.update({
-        where: {
-          id,
-          userId: ctx.userId,
-        },
-        data: updateData,
+      let current = await findSubscription(ctx.userId, id);
+      if (!current) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: '订阅源不存在' });
+      }
+
+      // 修改 URL 相当于改订另一个订阅源，保留用户设置
+      if (url && url !== current.feed.feedUrl) {
+        const urlCheck = isUrlSafe(url);
+        if (!urlCheck.safe) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: `URL 不安全: ${urlCheck.reason}` });
+        }
+
+        const { feed, created } = await subscribe(ctx.userId, url, {
+          title: current.title,
+          categoryId: current.categoryId,
+          tags: current.tags,
+          overrides: {
+            description: current.description,
+            siteUrl: current.siteUrl,
+            fetchInterval: current.fetchInterval,
+          },
+          fetchTimeRange: current.fetchTimeRange,
+          priority: current.priority,
+          isActive: current.isActive,
+          sourceType: current.feed.sourceType as FeedSourceType,
+          pageSelectors: toPageSelectors(current.feed.pageSelectors) ?? undefined,
+        });
+        await unsubscribe(ctx.userId, id);
+        if (created) {
+          feedManager.fetchFeed(feed.id).catch(console.error);
+        }
+        current = await findSubscription(ctx.userId, feed.id);
+        if (!current) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: '订阅源不存在' });
+        }
+      }
+
+      const feedId = current.feedId;
+
+      const subscription = await ctx.db.subscription.update({
+        where: { id: current.id },
+        data: settings,
+        include: { feed: true },
       });
 
       await info('rss', '订阅源更新成功', {
         userId: ctx.userId,
-        feedId: feed.id,
-        title: feed.title,
+        feedId,
+        title: subscription.title,
         updatedFields: Object.keys(input).filter(k => k !== 'id')
       });
 
-      return feed;
+      return toUserFeed(subscription.feed, subscription);
     }),
 
   /**
-   * 删除订阅源
+   * 获取订阅源的内容提取规则
+   * 规则由订阅源所有者设置、对所有订阅者生效；Cookie 只写不读，仅返回是否已设置，editable 表示当前用户能否修改
    */
-  delete: protectedProcedure
+  extractionRules: protectedProcedure
     .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      const subscription = await findSubscription(ctx.userId, input.id);
+      if (!subscription) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: '订阅源不存在' });
+      }
+
+      const owner = await findOwnerSubscription(input.id);
+      const { cookie, ...rules } = toExtractionRules(
+        owner && (await ctx.db.feedExtractionRule.findUnique({ where: { subscriptionId: owner.id } }))
+      );
+      return { ...rules, hasCookie: !!cookie, editable: owner?.id === subscription.id };
+    }),
+
+  /**
+   * 保存订阅源的内容提取规则（全文抓取方式、正文 / 移除选择器、请求头和 Cookie），仅限订阅源所有者
+   */
+  updateExtractionRules: protectedProcedure
+    .input(z.object({ id: z.string().uuid(), rules: extractionRulesInput }))
+    .mutation(async ({ input, ctx }) => {
+      const subscription = await findOwnedSubscription(ctx.userId, input.id, '修改内容提取规则');
+
+      const rules = await resolveExtractionRules(subscription.id, input.rules);
+      await ctx.db.feedExtractionRule.upsert({
+        where: { subscriptionId: subscription.id },
+        create: { subscriptionId: subscription.id, ...rules },
+        update: rules,
+      });
+
+      await info('rss', '订阅源内容提取规则已更新', {
+        userId: ctx.userId,
+        feedId: input.id,
+        fullTextMode: rules.fullTextMode,
+        contentSelectors: rules.contentSelectors.length,
+        removeSelectors: rules.removeSelectors.length,
+        headers: Object.keys(rules.headers),
+        hasCookie: !!rules.cookie,
+      });
+
+      const { cookie, ...saved } = rules;
+      return { ...saved, hasCookie: !!cookie };
+    }),
+
+  /**
+   * 按未保存的提取规则预览网页正文，仅限订阅源所有者
+   * 未指定网址时使用该订阅源最新文章的链接；与抓取时相同，请求头和 Cookie 只发送到订阅源地址所在的网站
+   */
+  previewExtraction: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      url: z.string().url().optional(),
+      rules: extractionRulesInput,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const subscription = await findOwnedSubscription(ctx.userId, input.id, '预览内容提取规则');
+
+      const url = input.url ?? (await ctx.db.entry.findFirst({
+        where: { feedId: input.id },
+        orderBy: { publishedAt: 'desc' },
+        select: { url: true },
+      }))?.url;
+      if (!url) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: '该订阅源还没有文章，请填写要预览的网页地址' });
+      }
+
+      const urlCheck = isUrlSafe(url);
+      if (!urlCheck.safe) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `URL 不安全: ${urlCheck.reason}` });
+      }
+
+      const rules = await resolveExtractionRules(subscription.id, input.rules);
+      const result = await rssParser.previewExtraction(url, rules, credentialHosts(subscription.feed.feedUrl));
+      return { url, result };
+    }),
+
+  /**
+   * 预览网页监控
+   * 未指定选择器时自动识别列表页中重复的条目结构，返回候选选择器及示例条目
+   */
+  previewPage: protectedProcedure
+    .input(z.object({
+      url: z.string().url(),
+      selectors: pageSelectorsSchema.optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const urlCheck = isUrlSafe(input.url);
+      if (!urlCheck.safe) {
+        await warn('rss', '网页监控 URL 被 SSRF 防护拦截', {
+          userId: ctx.userId,
+          url: input.url,
+          reason: urlCheck.reason
+        });
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `URL 不安全: ${urlCheck.reason}` });
+      }
+      if (input.selectors) {
+        assertValidPageSelectors(input.selectors);
+      }
+
+      try {
+        return await rssParser.previewPage(input.url, input.selectors);
+      } catch (err) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: err instanceof Error ? err.message : '无法获取网页内容',
+        });
+      }
+    }),
+
+  /**
+   * 添加网页监控：没有 RSS 的网站按选择器从列表页生成订阅源
+   * 列表页地址作为订阅源地址，与普通订阅源一样按 URL 共享
+   */
+  addPage: protectedProcedure
+    .input(z.object({
+      url: z.string().url(),
+      title: z.string().optional(),
+      categoryId: z.string().uuid().optional(),
+      fetchInterval: z.number().min(60).max(86400).optional(),
+      selectors: pageSelectorsSchema,
+    }))
     .mutation(async ({ input, ctx }) => {
-      // 先获取feed信息用于日志
-      const feed = await ctx.db.feed.findFirst({
+      const urlCheck = isUrlSafe(input.url);
+      if (!urlCheck.safe) {
+        await warn('rss', '网页监控 URL 被 SSRF 防护拦截', {
+          userId: ctx.userId,
+          url: input.url,
+          reason: urlCheck.reason
+        });
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `URL 不安全: ${urlCheck.reason}` });
+      }
+      assertValidPageSelectors(input.selectors);
+
+      const existing = await ctx.db.subscription.findFirst({
         where: {
-          id: input.id,
           userId: ctx.userId,
+          feed: { feedUrl: input.url },
         },
-        select: {
-          id: true,
-          title: true,
-          feedUrl: true,
-          totalEntries: true
-        }
+      });
+      if (existing) {
+        throw new TRPCError({ code: 'CONFLICT', message: '订阅源已存在' });
+      }
+
+      const shared = await ctx.db.feed.findUnique({ where: { feedUrl: input.url } });
+      if (shared && shared.sourceType !== 'page') {
+        throw new TRPCError({ code: 'CONFLICT', message: '该地址已作为 RSS 订阅源存在，请直接订阅' });
+      }
+
+      const { feed, subscription, created } = await subscribe(ctx.userId, input.url, {
+        title: input.title || shared?.title,
+        siteUrl: input.url,
+        categoryId: input.categoryId,
+        overrides: { fetchInterval: input.fetchInterval },
+        sourceType: 'page',
+        pageSelectors: input.selectors,
+      });
+
+      if (created) {
+        feedManager.fetchFeed(feed.id).catch(console.error);
+      }
+
+      await info('rss', '网页监控创建成功', {
+        userId: ctx.userId,
+        feedId: feed.id,
+        title: subscription.title,
+        url: input.url,
+        shared: !created,
+        selectors: input.selectors,
+      });
+
+      return toUserFeed(feed, subscription);
+    }),
+
+  /**
+   * 修改网页监控的选择器（所有订阅者共享，仅限订阅源所有者）
+   * 清除 ETag / Last-Modified 并立即重新抓取，使新选择器作用于未变化的页面
+   */
+  updatePageSelectors: protectedProcedure
+    .input(z.object({ id: z.string().uuid(), selectors: pageSelectorsSchema }))
+    .mutation(async ({ input, ctx }) => {
+      const subscription = await findOwnedSubscription(ctx.userId, input.id, '修改网页监控选择器');
+      if (subscription.feed.sourceType !== 'page') {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: '该订阅源不是网页监控' });
+      }
+      assertValidPageSelectors(input.selectors);
+
+      await ctx.db.feed.update({
+        where: { id: input.id },
+        data: { pageSelectors: input.selectors, etag: null, lastModified: null },
+      });
+      feedManager.fetchFeed(input.id).catch(console.error);
+
+      await info('rss', '网页监控选择器已更新', {
+        userId: ctx.userId,
+        feedId: input.id,
+        selectors: input.selectors,
       });
 
-      if (!feed) {
+      return { success: true };
+    }),
+
+  /**
+   * 删除订阅源（取消订阅）
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      // 先获取订阅信息用于日志
+      const subscription = await findSubscription(ctx.userId, input.id);
+
+      if (!subscription) {
         await warn('rss', '删除订阅源失败：不存在', {
           userId: ctx.userId,
           feedId: input.id
@@ -330,17 +624,12 @@ export const feedsRouter = router({
 
       await info('rss', '用户删除订阅源', {
         userId: ctx.userId,
-        feedId: feed.id,
-        title: feed.title,
-        totalEntries: feed.totalEntries
+        feedId: subscription.feedId,
+        title: subscription.title,
+        totalEntries: subscription.feed.totalEntries
       });
 
-      await ctx.db.feed.delete({
-        where: {
-          id: input.id,
-          userId: ctx.userId,
-        },
-      });
+      await unsubscribe(ctx.userId, input.id);
 
       return { success: true };
     }),
@@ -356,14 +645,9 @@ export const feedsRouter = router({
         feedId: input.id
       });
 
-      const feed = await ctx.db.feed.findFirst({
-        where: {
-          id: input.id,
-          userId: ctx.userId,
-        },
-      });
+      const subscription = await findSubscription(ctx.userId, input.id);
 
-      if (!feed) {
+      if (!subscription) {
         await warn('rss', '刷新订阅源失败：不存在', {
           userId: ctx.userId,
           feedId: input.id
@@ -372,12 +656,12 @@ export const feedsRouter = router({
       }
 
       // 异步抓取
-      feedManager.fetchFeed(feed.id).catch(console.error);
+      feedManager.fetchFeed(subscription.feedId).catch(console.error);
 
       await info('rss', '订阅源刷新任务已提交', {
         userId: ctx.userId,
-        feedId: feed.id,
-        title: feed.title
+        feedId: subscription.feedId,
+        title: subscription.title
       });
 
       return { success: true };
@@ -392,19 +676,29 @@ export const feedsRouter = router({
       action: z.enum(['activate', 'deactivate', 'delete', 'refresh']),
     }))
     .mutation(async ({ input, ctx }) => {
-      const { feedIds, action } = input;
+      const { action } = input;
 
       await info('rss', '用户批量操作订阅源', {
         userId: ctx.userId,
         action,
-        feedCount: feedIds.length
+        feedCount: input.feedIds.length
       });
 
+      // 只处理用户已订阅的订阅源
+      const subscriptions = await ctx.db.subscription.findMany({
+        where: {
+          userId: ctx.userId,
+          feedId: { in: input.feedIds },
+        },
+        select: { feedId: true },
+      });
+      const feedIds = subscriptions.map(s => s.feedId);
+
       switch (action) {
         case 'activate':
-          await ctx.db.feed.updateMany({
+          await ctx.db.subscription.updateMany({
             where: {
-              id: { in: feedIds },
+              feedId: { in: feedIds },
               userId: ctx.userId,
             },
             data: { isActive: true },
@@ -416,9 +710,9 @@ export const feedsRouter = router({
           break;
 
         case 'deactivate':
-          await ctx.db.feed.updateMany({
+          await ctx.db.subscription.updateMany({
             where: {
-              id: { in: feedIds },
+              feedId: { in: feedIds },
               userId: ctx.userId,
             },
             data: { isActive: false },
@@ -430,12 +724,9 @@ export const feedsRouter = router({
           break;
 
         case 'delete':
-          await ctx.db.feed.deleteMany({
-            where: {
-              id: { in: feedIds },
-              userId: ctx.userId,
-            },
-          });
+          for (const feedId of feedIds) {
+            await unsubscribe(ctx.userId, feedId);
+          }
           await info('rss', '批量删除订阅源完成', {
             userId: ctx.userId,
             feedCount: feedIds.length
@@ -465,13 +756,14 @@ export const feedsRouter = router({
       const stats = await ctx.db.$queryRaw`
         SELECT
           COUNT(*) as total_entries,
-          COUNT(CASE WHEN e.is_read = false THEN 1 END) as unread_count,
-          COUNT(CASE WHEN e.is_starred = true THEN 1 END) as starred_count,
+          COUNT(CASE WHEN COALESCE(st.is_read, false) = false THEN 1 END) as unread_count,
+          COUNT(CASE WHEN st.is_starred = true THEN 1 END) as starred_count,
           COUNT(CASE WHEN e.created_at > CURRENT_DATE - INTERVAL '7 days' THEN 1 END) as entries_last_7_days,
           MAX(e.published_at) as latest_entry_at
         FROM entries e
-        JOIN feeds f ON e.feed_id = f.id
-        WHERE f.id = ${input.id} AND f.user_id = ${ctx.userId}
+        JOIN subscriptions s ON s.feed_id = e.feed_id AND s.user_id = ${ctx.userId}
+        LEFT JOIN entry_states st ON st.entry_id = e.id AND st.user_id = ${ctx.userId}
+        WHERE e.feed_id = ${input.id}
       ` as any[];
 
       return stats[0] || {
@@ -490,34 +782,32 @@ export const feedsRouter = router({
     .query(async ({ ctx }) => {
       const [totalFeeds, activeFeeds, inactiveFeeds, totalEntries, unreadCount, todayEntries] = await Promise.all([
         // 订阅源总数
-        ctx.db.feed.count({
+        ctx.db.subscription.count({
           where: { userId: ctx.userId },
         }),
         // 启用的订阅源数
-        ctx.db.feed.count({
+        ctx.db.subscription.count({
           where: { userId: ctx.userId, isActive: true },
         }),
         // 禁用的订阅源数
-        ctx.db.feed.count({
+        ctx.db.subscription.count({
           where: { userId: ctx.userId, isActive: false },
         }),
         // 文章总数
         ctx.db.entry.count({
-          where: {
-            feed: { userId: ctx.userId },
-          },
+          where: entryVisibleTo(ctx.userId),
         }),
         // 未读文章数
         ctx.db.entry.count({
           where: {
-            feed: { userId: ctx.userId },
-            isRead: false,
+            ...entryVisibleTo(ctx.userId),
+            AND: entryStateFilter(ctx.userId, { isRead: false }),
           },
         }),
         // 今日文章数
         ctx.db.entry.count({
           where: {
-            feed: { userId: ctx.userId },
+            ...entryVisibleTo(ctx.userId),
             createdAt: {
               gte: new Date(new Date().setHours(0, 0, 0, 0)),
             },
@@ -563,9 +853,11 @@ export const feedsRouter = router({
         let description: string | null = null;
         let siteUrl: string | null = null;
         let iconUrl: string | null = null;
+        let isFeed = false;
 
         try {
           const parsed = await parseFeed(input.url);
+          isFeed = true;
           title = parsed.title || null;
           description = parsed.description || null;
           siteUrl = parsed.link || input.url;
@@ -653,6 +945,8 @@ export const feedsRouter = router({
             siteUrl: siteUrl || input.url,
             iconUrl: iconUrl || null,
           },
+          // 不是订阅源时前端提示改用网页监控
+          isFeed,
         };
       } catch (error) {
         throw new TRPCError({
@@ -676,8 +970,7 @@ export const feedsRouter = router({
 
       // 查询需要重试的订阅源
       const whereClause: any = {
-        userId: ctx.userId,
-        isActive: true,
+        ...feedSubscribedBy(ctx.userId, { isActive: true }),
       };
 
       if (feedIds && feedIds.length > 0) {
@@ -754,7 +1047,7 @@ export const feedsRouter = router({
     .query(async ({ ctx }) => {
       const failedFeeds = await ctx.db.feed.findMany({
         where: {
-          userId: ctx.userId,
+          ...feedSubscribedBy(ctx.userId),
           errorCount: { gt: 0 },
         },
         select: {
@@ -9,10 +9,12 @@ import { feedsRouter } from './feeds';
 import { entriesRouter } from './entries';
 import { categoriesRouter } from './categories';
 import { searchRouter } from './search';
+import { smartFoldersRouter } from './smart-folders';
 import { reportsRouter } from './reports';
 import { reportSchedulesRouter } from './report-schedules';
 import { settingsRouter } from './settings';
 import { rulesRouter } from './rules';
+import { outboundFeedsRouter } from './outbound-feeds';
 import { notificationsRouter } from './notifications';
 import { aiRouter } from './ai';
 import { analyticsRouter } from './analytics';
@@ -26,10 +28,12 @@ export const appRouter = router({
   entries: entriesRouter,
   categories: categoriesRouter,
   search: searchRouter,
+  smartFolders: smartFoldersRouter,
   reports: reportsRouter,
   reportSchedules: reportSchedulesRouter,
   settings: settingsRouter,
   rules: rulesRouter,
+  outboundFeeds: outboundFeedsRouter,
   notifications: notificationsRouter,
   ai: aiRouter,
   analytics: analyticsRouter,
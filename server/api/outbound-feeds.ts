@@ -0,0 +1,134 @@
+/**
+ * 对外订阅源 API Router
+ * 将星标、标签、分类或重要度筛选出的文章发布为 RSS / Atom / JSON Feed
+ */
+
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { protectedProcedure, router } from '../trpc/init';
+import type { Context } from '../trpc/context';
+import { info } from '@/lib/logger';
+import { generateOutboundToken, isEmptyOutboundFilter, type OutboundFilter } from '@/lib/outbound';
+
+const filterFields = {
+  starredOnly: z.boolean().optional(),
+  tag: z.string().trim().min(1).max(100).nullable().optional(),
+  categoryId: z.string().uuid().nullable().optional(),
+  minImportance: z.number().min(0).max(1).nullable().optional(),
+  includeAiSummary: z.boolean().optional(),
+};
+
+/**
+ * 校验筛选条件：至少一个条件，分类属于当前用户
+ */
+async function assertValidFilter(db: Context['db'], userId: string, filter: OutboundFilter) {
+  if (isEmptyOutboundFilter(filter)) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: '请至少设置一个筛选条件' });
+  }
+
+  if (filter.categoryId) {
+    const category = await db.category.findFirst({ where: { id: filter.categoryId, userId } });
+    if (!category) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: '分类不存在' });
+    }
+  }
+}
+
+export const outboundFeedsRouter = router({
+  /**
+   * 获取对外订阅源列表
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.outboundFeed.findMany({
+      where: { userId: ctx.userId },
+      include: { category: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }),
+
+  /**
+   * 创建对外订阅源
+   */
+  create: protectedProcedure
+    .input(z.object({ name: z.string().trim().min(1).max(100), ...filterFields }))
+    .mutation(async ({ input, ctx }) => {
+      const filter: OutboundFilter = {
+        starredOnly: input.starredOnly ?? false,
+        tag: input.tag ?? null,
+        categoryId: input.categoryId ?? null,
+        minImportance: input.minImportance ?? null,
+      };
+      await assertValidFilter(ctx.db, ctx.userId, filter);
+
+      const feed = await ctx.db.outboundFeed.create({
+        data: {
+          userId: ctx.userId,
+          name: input.name,
+          token: generateOutboundToken(),
+          includeAiSummary: input.includeAiSummary ?? true,
+          ...filter,
+        },
+      });
+
+      await info('security', '创建对外订阅源', { userId: ctx.userId, outboundFeedId: feed.id });
+
+      return feed;
+    }),
+
+  /**
+   * 更新对外订阅源
+   */
+  update: protectedProcedure
+    .input(z.object({ id: z.string().uuid(), name: z.string().trim().min(1).max(100).optional(), ...filterFields }))
+    .mutation(async ({ input, ctx }) => {
+      const { id, ...data } = input;
+
+      const existing = await ctx.db.outboundFeed.findFirst({ where: { id, userId: ctx.userId } });
+      if (!existing) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: '订阅源不存在' });
+      }
+
+      await assertValidFilter(ctx.db, ctx.userId, {
+        starredOnly: data.starredOnly ?? existing.starredOnly,
+        tag: data.tag !== undefined ? data.tag : existing.tag,
+        categoryId: data.categoryId !== undefined ? data.categoryId : existing.categoryId,
+        minImportance: data.minImportance !== undefined ? data.minImportance : existing.minImportance,
+      });
+
+      return ctx.db.outboundFeed.update({ where: { id }, data });
+    }),
+
+  /**
+   * 重置令牌（旧地址立即失效）
+   */
+  rotateToken: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const { count } = await ctx.db.outboundFeed.updateMany({
+        where: { id: input.id, userId: ctx.userId },
+        data: { token: generateOutboundToken(), accessCount: 0, lastAccessedAt: null },
+      });
+      if (count === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: '订阅源不存在' });
+      }
+
+      await info('security', '重置对外订阅源令牌', { userId: ctx.userId, outboundFeedId: input.id });
+
+      return { success: true };
+    }),
+
+  /**
+   * 删除对外订阅源
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      await ctx.db.outboundFeed.deleteMany({
+        where: { id: input.id, userId: ctx.userId },
+      });
+
+      await info('security', '删除对外订阅源', { userId: ctx.userId, outboundFeedId: input.id });
+
+      return { success: true };
+    }),
+});
@@ -17,6 +17,7 @@ import {
   getJobState,
   retryFailedJobs,
 } from '@/lib/queue/preliminary-processor';
+import { entryVisibleTo } from '@/lib/entries/state';
 
 export const preliminaryRouter = router({
   // =====================================================
@@ -40,7 +41,7 @@ export const preliminaryRouter = router({
       const entry = await ctx.db.entry.findFirst({
         where: {
           id: entryId,
-          feed: { userId },
+          ...entryVisibleTo(userId),
         },
         select: {
           id: true,
@@ -114,7 +115,7 @@ export const preliminaryRouter = router({
       const entries = await ctx.db.entry.findMany({
         where: {
           id: { in: entryIds },
-          feed: { userId },
+          ...entryVisibleTo(userId),
         },
         select: {
           id: true,
@@ -177,7 +178,7 @@ export const preliminaryRouter = router({
         where: {
           content: { not: null },
           aiPrelimStatus: null,
-          feed: { userId },
+          ...entryVisibleTo(userId),
         },
       });
 
@@ -223,7 +224,7 @@ export const preliminaryRouter = router({
       const entry = await ctx.db.entry.findFirst({
         where: {
           id: input.entryId,
-          feed: { userId: ctx.userId },
+          ...entryVisibleTo(ctx.userId),
         },
         select: {
           id: true,
@@ -276,7 +277,7 @@ export const preliminaryRouter = router({
       const entries = await ctx.db.entry.findMany({
         where: {
           id: { in: input.entryIds },
-          feed: { userId: ctx.userId },
+          ...entryVisibleTo(ctx.userId),
         },
         select: {
           id: true,
@@ -346,7 +347,7 @@ export const preliminaryRouter = router({
       }
 
       const where: any = {
-        feed: { userId },
+        ...entryVisibleTo(userId),
         aiPrelimStatus: { not: null },
       };
 
@@ -10,6 +10,8 @@ import { getScheduler } from '@/lib/jobs/scheduler';
 import { z } from 'zod';
 import { safeDecrypt } from '@/lib/crypto/encryption';
 import { getFeedDiscoveryQueueStatus } from '@/lib/queue/feed-discovery-processor';
+import { feedSubscribedBy } from '@/lib/rss/subscriptions';
+import { entryStateFilter } from '@/lib/entries/state';
 import {
   getQueueStatus as getPreliminaryQueueStatus,
   addPreliminaryJob,
@@ -74,11 +76,11 @@ interface BullMQQueueStatus {
 
 // 辅助函数：获取用户的 Feed ID 列表
 async function getUserFeedIds(userId: string): Promise<string[]> {
-  const feeds = await db.feed.findMany({
+  const subscriptions = await db.subscription.findMany({
     where: { userId },
-    select: { id: true },
+    select: { feedId: true },
   });
-  return feeds.map(f => f.id);
+  return subscriptions.map(s => s.feedId);
 }
 
 export const queueRouter = router({
@@ -300,15 +302,15 @@ export const queueRouter = router({
       // 检查文章是否存在
       const entry = await db.entry.findUnique({
         where: { id: input.entryId },
-        include: { feed: { select: { userId: true } } },
+        include: { feed: { select: { subscriptions: { where: { userId: ctx.userId }, select: { id: true } } } } },
       });
 
       if (!entry) {
         throw new Error('文章不存在');
       }
 
-      // 验证文章所有权
-      if (entry.feed.userId !== ctx.userId) {
+      // 验证文章所有权（已订阅该订阅源）
+      if (entry.feed.subscriptions.length === 0) {
         throw new Error('无权操作此文章');
       }
 
@@ -451,8 +453,7 @@ export const queueRouter = router({
       // 获取待抓取的 Feed 数量（仅用户的）
       const feedsToUpdate = await db.feed.count({
         where: {
-          userId,
-          isActive: true,
+          ...feedSubscribedBy(userId, { isActive: true }),
           OR: [
             { nextFetchAt: null },
             { nextFetchAt: { lte: new Date() } },
@@ -462,9 +463,9 @@ export const queueRouter = router({
 
       // 获取 Feed 统计（仅用户的）
       const [totalFeeds, activeFeeds, errorFeeds] = await Promise.all([
-        db.feed.count({ where: { userId } }),
-        db.feed.count({ where: { userId, isActive: true } }),
-        db.feed.count({ where: { userId, errorCount: { gt: 0 } } }),
+        db.feed.count({ where: feedSubscribedBy(userId) }),
+        db.feed.count({ where: feedSubscribedBy(userId, { isActive: true }) }),
+        db.feed.count({ where: { ...feedSubscribedBy(userId), errorCount: { gt: 0 } } }),
       ]);
 
       return {
@@ -527,8 +528,8 @@ export const queueRouter = router({
         db.entry.count({ where: { feedId: { in: userFeedIds } } }),
         db.entry.count({ where: { feedId: { in: userFeedIds }, createdAt: { gte: oneHourAgo } } }),
         db.entry.count({ where: { feedId: { in: userFeedIds }, createdAt: { gte: oneDayAgo } } }),
-        db.entry.count({ where: { feedId: { in: userFeedIds }, isRead: false } }),
-        db.entry.count({ where: { feedId: { in: userFeedIds }, isStarred: true } }),
+        db.entry.count({ where: { feedId: { in: userFeedIds }, AND: entryStateFilter(userId, { isRead: false }) } }),
+        db.entry.count({ where: { feedId: { in: userFeedIds }, AND: entryStateFilter(userId, { isStarred: true }) } }),
         // 使用 BullMQ 队列状态替代数据库查询
         Promise.all([
           getPreliminaryQueueStatus(),
@@ -536,8 +537,7 @@ export const queueRouter = router({
         ]).catch(() => [null, null]),
         db.feed.count({
           where: {
-            userId,
-            isActive: true,
+            ...feedSubscribedBy(userId, { isActive: true }),
             OR: [
               { nextFetchAt: null },
               { nextFetchAt: { lte: now } },
@@ -647,8 +647,7 @@ export const queueRouter = router({
 
       const feeds = await db.feed.findMany({
         where: {
-          userId,
-          isActive: true,
+          ...feedSubscribedBy(userId, { isActive: true }),
           OR: [
             { nextFetchAt: null },
             { nextFetchAt: { lte: new Date() } },
@@ -666,13 +665,19 @@ export const queueRouter = router({
           errorCount: true,
           lastError: true,
           totalEntries: true,
-          unreadCount: true,
           fetchInterval: true,
-          category: {
+          subscriptions: {
+            where: { userId },
             select: {
-              id: true,
-              name: true,
-              color: true,
+              title: true,
+              unreadCount: true,
+              category: {
+                select: {
+                  id: true,
+                  name: true,
+                  color: true,
+                },
+              },
             },
           },
         },
@@ -688,8 +693,7 @@ export const queueRouter = router({
       // 获取总数
       const total = await db.feed.count({
         where: {
-          userId,
-          isActive: true,
+          ...feedSubscribedBy(userId, { isActive: true }),
           OR: [
             { nextFetchAt: null },
             { nextFetchAt: { lte: new Date() } },
@@ -699,12 +703,15 @@ export const queueRouter = router({
 
       // 计算待更新时间
       const now = new Date();
-      const feedsWithStatus = feeds.map(feed => {
+      const feedsWithStatus = feeds.map(({ subscriptions, ...feed }) => {
         const lastFetch = feed.lastFetchedAt ? new Date(feed.lastFetchedAt) : null;
         const timeSinceLastFetch = lastFetch ? now.getTime() - lastFetch.getTime() : null;
 
         return {
           ...feed,
+          title: subscriptions[0]?.title ?? feed.title,
+          unreadCount: subscriptions[0]?.unreadCount ?? 0,
+          category: subscriptions[0]?.category ?? null,
           timeSinceLastFetch,
           isOverdue: !feed.nextFetchAt || new Date(feed.nextFetchAt) <= now,
           hasError: feed.errorCount > 0,
@@ -798,14 +805,13 @@ export const queueRouter = router({
         userCount,
       ] = await Promise.all([
         // Feed 统计（仅用户的）
-        db.feed.count({ where: { userId } }),
-        db.feed.count({ where: { userId, isActive: true } }),
-        db.feed.count({ where: { userId, lastSuccessAt: { gte: sevenDaysAgo } } }),
-        db.feed.count({ where: { userId, errorCount: { gt: 0 } } }),
+        db.feed.count({ where: feedSubscribedBy(userId) }),
+        db.feed.count({ where: feedSubscribedBy(userId, { isActive: true }) }),
+        db.feed.count({ where: { ...feedSubscribedBy(userId), lastSuccessAt: { gte: sevenDaysAgo } } }),
+        db.feed.count({ where: { ...feedSubscribedBy(userId), errorCount: { gt: 0 } } }),
         db.feed.count({
           where: {
-            userId,
-            isActive: true,
+            ...feedSubscribedBy(userId, { isActive: true }),
             OR: [
               { nextFetchAt: null },
               { nextFetchAt: { lte: now } },
@@ -814,7 +820,7 @@ export const queueRouter = router({
         }),
         db.feed.count({
           where: {
-            userId,
+            ...feedSubscribedBy(userId),
             lastFetchedAt: { gte: oneHourAgo },
           },
         }),
@@ -823,8 +829,8 @@ export const queueRouter = router({
         db.entry.count({ where: { feedId: { in: userFeedIds } } }),
         db.entry.count({ where: { feedId: { in: userFeedIds }, createdAt: { gte: oneHourAgo } } }),
         db.entry.count({ where: { feedId: { in: userFeedIds }, createdAt: { gte: oneDayAgo } } }),
-        db.entry.count({ where: { feedId: { in: userFeedIds }, isRead: false } }),
-        db.entry.count({ where: { feedId: { in: userFeedIds }, isStarred: true } }),
+        db.entry.count({ where: { feedId: { in: userFeedIds }, AND: entryStateFilter(userId, { isRead: false }) } }),
+        db.entry.count({ where: { feedId: { in: userFeedIds }, AND: entryStateFilter(userId, { isStarred: true }) } }),
 
         // BullMQ 队列状态
         Promise.all([
@@ -860,7 +866,7 @@ export const queueRouter = router({
 
         // 数据库统计（仅用户的）
         db.entry.count({ where: { feedId: { in: userFeedIds } } }),
-        db.feed.count({ where: { userId } }),
+        db.feed.count({ where: feedSubscribedBy(userId) }),
         db.user.count({ where: { id: userId } }),
       ]);
 
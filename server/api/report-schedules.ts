@@ -6,6 +6,8 @@ import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import { protectedProcedure, router } from '../trpc/init';
 import { info, warn, error } from '@/lib/logger';
+import { nextRunAfter, isValidTimezone, DEFAULT_SCHEDULE_TIMEZONE, type ScheduleFrequency } from '@/lib/reports/schedule';
+import { getReportScheduleRunner } from '@/lib/reports/schedule-runner';
 
 // 频次选项
 const FrequencyEnum = z.enum(['once', 'daily', 'weekly', 'monthly']);
@@ -13,30 +15,8 @@ const FrequencyEnum = z.enum(['once', 'daily', 'weekly', 'monthly']);
 // 日期范围选项
 const DateRangeEnum = z.enum(['yesterday', 'last7days', 'last30days', 'lastWeek', 'lastMonth', 'custom']);
 
-// 计算下次执行时间
-function calculateNextRunAt(frequency: string, baseTime: Date): Date | null {
-  if (frequency === 'once') {
-    return null; // 一次性任务没有下次执行时间
-  }
-
-  const next = new Date(baseTime);
-
-  switch (frequency) {
-    case 'daily':
-      next.setDate(next.getDate() + 1);
-      break;
-    case 'weekly':
-      next.setDate(next.getDate() + 7);
-      break;
-    case 'monthly':
-      next.setMonth(next.getMonth() + 1);
-      break;
-    default:
-      return null;
-  }
-
-  return next;
-}
+// IANA 时区
+const TimezoneSchema = z.string().max(64).refine(isValidTimezone, '无效的时区');
 
 export const reportSchedulesRouter = router({
   /**
@@ -87,11 +67,12 @@ export const reportSchedulesRouter = router({
         includeAiSummary: z.boolean().default(true),
         recipientEmail: z.string().email(),
         emailSubject: z.string().max(200).optional(),
+        timezone: TimezoneSchema.default(DEFAULT_SCHEDULE_TIMEZONE),
       })
     )
     .mutation(async ({ input, ctx }) => {
-      // 计算下次执行时间
-      const nextRunAt = calculateNextRunAt(input.frequency, input.firstRunAt);
+      // 首次执行时间已过时顺延到下一个周期
+      const nextRunAt = nextRunAfter(input.firstRunAt, input.frequency, input.timezone, new Date());
 
       const schedule = await ctx.db.reportSchedule.create({
         data: {
@@ -107,6 +88,7 @@ export const reportSchedulesRouter = router({
           includeAiSummary: input.includeAiSummary,
           recipientEmail: input.recipientEmail,
           emailSubject: input.emailSubject,
+          timezone: input.timezone,
           isEnabled: true,
         },
       });
@@ -139,6 +121,7 @@ export const reportSchedulesRouter = router({
         includeAiSummary: z.boolean().optional(),
         recipientEmail: z.string().email().optional(),
         emailSubject: z.string().max(200).optional(),
+        timezone: TimezoneSchema.optional(),
         isEnabled: z.boolean().optional(),
       })
     )
@@ -154,12 +137,20 @@ export const reportSchedulesRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: '定时任务不存在' });
       }
 
-      // 如果更新了执行时间或频次，重新计算下次执行时间
+      // 如果更新了执行时间、频次、时区或重新启用，重新计算下次执行时间
       let nextRunAt = existing.nextRunAt;
-      if (updateData.firstRunAt || updateData.frequency) {
-        const baseTime = updateData.firstRunAt || existing.firstRunAt;
-        const frequency = updateData.frequency || existing.frequency;
-        nextRunAt = calculateNextRunAt(frequency, baseTime);
+      if (
+        updateData.firstRunAt ||
+        updateData.frequency ||
+        updateData.timezone ||
+        (updateData.isEnabled && !existing.isEnabled)
+      ) {
+        nextRunAt = nextRunAfter(
+          updateData.firstRunAt || existing.firstRunAt,
+          (updateData.frequency || existing.frequency) as ScheduleFrequency,
+          updateData.timezone || existing.timezone,
+          new Date()
+        );
       }
 
       const schedule = await ctx.db.reportSchedule.update({
@@ -224,9 +215,20 @@ export const reportSchedulesRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: '定时任务不存在' });
       }
 
+      // 重新启用时跳过停用期间错过的执行
       const schedule = await ctx.db.reportSchedule.update({
         where: { id: input.id },
-        data: { isEnabled: input.isEnabled },
+        data: {
+          isEnabled: input.isEnabled,
+          ...(input.isEnabled && !existing.isEnabled && {
+            nextRunAt: nextRunAfter(
+              existing.firstRunAt,
+              existing.frequency as ScheduleFrequency,
+              existing.timezone,
+              new Date()
+            ),
+          }),
+        },
       });
 
       await info('system', input.isEnabled ? '启用报告定时任务' : '禁用报告定时任务', {
@@ -251,23 +253,49 @@ export const reportSchedulesRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: '定时任务不存在' });
       }
 
-      // 这里可以触发报告生成和发送
-      // 暂时只记录日志，实际实现可以调用报告生成服务
       await info('system', '手动执行报告定时任务', {
         userId: ctx.userId,
         scheduleId: input.id,
         scheduleName: schedule.name,
       });
 
-      // 更新执行次数
-      await ctx.db.reportSchedule.update({
-        where: { id: input.id },
-        data: {
-          runCount: { increment: 1 },
-          lastRunAt: new Date(),
-        },
-      });
+      // 后台生成并发送，执行结果记录在执行历史中
+      getReportScheduleRunner()
+        .execute(schedule, new Date(), 'manual')
+        .catch((err) =>
+          error('system', '手动执行报告定时任务失败', err instanceof Error ? err : undefined, {
+            scheduleId: input.id,
+          })
+        );
 
       return { success: true, message: '任务已触发执行' };
     }),
+
+  /**
+   * 获取执行历史
+   */
+  runs: protectedProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        limit: z.number().min(1).max(100).default(20),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      const schedule = await ctx.db.reportSchedule.findFirst({
+        where: { id: input.id, userId: ctx.userId },
+        select: { id: true },
+      });
+
+      if (!schedule) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: '定时任务不存在' });
+      }
+
+      return ctx.db.reportScheduleRun.findMany({
+        where: { scheduleId: input.id },
+        orderBy: { startedAt: 'desc' },
+        take: input.limit,
+        include: { report: { select: { id: true, title: true, status: true } } },
+      });
+    }),
 });
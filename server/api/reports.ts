@@ -13,6 +13,9 @@ import { createEmailServiceFromUser, type EmailAttachment } from '@/lib/email/se
 import { convertMarkdownToPdf } from '@/lib/reports/pdf-converter';
 import { info, warn, error } from '@/lib/logger';
 import { randomBytes } from 'crypto';
+import { entryVisibleTo } from '@/lib/entries/state';
+import { hashPassword } from '@/lib/auth/password';
+import { MAX_SHARE_EXPIRY_DAYS } from '@/lib/reports/share';
 
 export const reportsRouter = router({
   /**
@@ -82,9 +85,7 @@ export const reportsRouter = router({
       // 获取用户最早和最新的文章日期
       const result = await ctx.db.entry.aggregate({
         where: {
-          feed: {
-            userId: ctx.userId,
-          },
+          ...entryVisibleTo(ctx.userId),
         },
         _min: {
           createdAt: true,
@@ -115,7 +116,7 @@ export const reportsRouter = router({
       const entriesByDay = await ctx.db.$queryRaw<Array<{ date: Date; count: bigint }>>`
         SELECT DATE(created_at) as date, COUNT(*) as count
         FROM entries
-        WHERE feed_id IN (SELECT id FROM feeds WHERE user_id = ${ctx.userId})
+        WHERE feed_id IN (SELECT feed_id FROM subscriptions WHERE user_id = ${ctx.userId})
           AND created_at >= ${thirtyDaysAgo}
         GROUP BY DATE(created_at)
         ORDER BY date DESC
@@ -135,7 +136,7 @@ export const reportsRouter = router({
       const entriesByWeek = await ctx.db.$queryRaw<Array<{ weekStart: Date; count: bigint }>>`
         SELECT DATE_TRUNC('week', created_at) as "weekStart", COUNT(*) as count
         FROM entries
-        WHERE feed_id IN (SELECT id FROM feeds WHERE user_id = ${ctx.userId})
+        WHERE feed_id IN (SELECT feed_id FROM subscriptions WHERE user_id = ${ctx.userId})
           AND created_at >= ${twelveWeeksAgo}
         GROUP BY DATE_TRUNC('week', created_at)
         ORDER BY "weekStart" DESC
@@ -346,6 +347,7 @@ export const reportsRouter = router({
             userId: ctx.userId,
             ...(reportType && { reportType }),
           },
+          omit: { sharePasswordHash: true },
           include: {
             entries: {
               include: {
@@ -427,7 +429,9 @@ export const reportsRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: '报告不存在' });
       }
 
-      return report;
+      // 不返回密码哈希，只告知是否设置了访问密码
+      const { sharePasswordHash, ...rest } = report;
+      return { ...rest, sharePasswordProtected: !!sharePasswordHash };
     }),
 
   /**
@@ -483,12 +487,43 @@ export const reportsRouter = router({
   /**
    * 生成分享链接
    * 安全修复：使用加密安全的随机令牌
+   * 已分享的报告保留原令牌，只更新有效期和密码
+   * 未传 password 时保留原密码，传 null 时移除密码
    */
   generateShareToken: protectedProcedure
-    .input(z.object({ id: z.string().uuid() }))
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        expiresInDays: z.number().int().min(1).max(MAX_SHARE_EXPIRY_DAYS).nullish(),
+        password: z.string().min(4).max(100).nullish(),
+      })
+    )
     .mutation(async ({ input, ctx }) => {
+      const report = await ctx.db.report.findFirst({
+        where: { id: input.id, userId: ctx.userId },
+        select: { status: true, isPublic: true, shareToken: true },
+      });
+
+      if (!report) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: '报告不存在' });
+      }
+
+      if (report.status !== 'completed') {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: '报告尚未生成完成，无法分享' });
+      }
+
       // 生成加密安全的随机 token
-      const shareToken = randomBytes(32).toString('base64url');
+      const shareToken = (report.isPublic && report.shareToken) || randomBytes(32).toString('base64url');
+      const shareExpiresAt = input.expiresInDays
+        ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+        : null;
+
+      let sharePasswordHash: string | null | undefined;
+      if (input.password) {
+        sharePasswordHash = await hashPassword(input.password);
+      } else if (input.password === null) {
+        sharePasswordHash = null;
+      }
 
       await ctx.db.report.update({
         where: {
@@ -498,10 +533,12 @@ export const reportsRouter = router({
         data: {
           isPublic: true,
           shareToken,
+          shareExpiresAt,
+          ...(sharePasswordHash !== undefined && { sharePasswordHash }),
         },
       });
 
-      return { shareToken };
+      return { shareToken, shareExpiresAt };
     }),
 
   /**
@@ -518,6 +555,8 @@ export const reportsRouter = router({
         data: {
           isPublic: false,
           shareToken: null,
+          shareExpiresAt: null,
+          sharePasswordHash: null,
         },
       });
 
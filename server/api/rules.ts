@@ -6,8 +6,114 @@
 import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import { protectedProcedure, router } from '../trpc/init';
-import { getRuleEngine } from '@/lib/rules/engine';
+import { getRuleEngine, type RuleConditionNode } from '@/lib/rules/engine';
 import { info, warn, error } from '@/lib/logger';
+import { entryVisibleTo, refreshUnreadCounts } from '@/lib/entries/state';
+import { isUrlSafe } from '@/lib/utils';
+import { db } from '@/lib/db';
+
+/**
+ * 单个条件
+ */
+const conditionSchema = z.object({
+  field: z.enum([
+    'title',
+    'content',
+    'author',
+    'category',
+    'tag',
+    'feedTitle',
+    'aiImportanceScore',
+    'aiPrelimValue',
+    'aiCategory',
+    'aiSentiment',
+    'readingTime',
+    'wordCount',
+    'publishedAge',
+    'language',
+    'hasMedia',
+  ]),
+  operator: z.enum(['contains', 'notContains', 'equals', 'notEquals', 'matches', 'in', 'gt', 'lt']),
+  value: z.union([z.string(), z.array(z.string()), z.number(), z.boolean()]),
+});
+
+/**
+ * 条件树节点：单个条件或 AND/OR/NOT 条件组（可嵌套）
+ */
+export const conditionNodeSchema: z.ZodType<RuleConditionNode> = z.lazy(() =>
+  z.union([
+    conditionSchema,
+    z.object({
+      logic: z.enum(['and', 'or', 'not']),
+      conditions: z.array(conditionNodeSchema).min(1),
+    }),
+  ])
+);
+
+/**
+ * 规则动作
+ */
+export const actionSchema = z.object({
+  type: z.enum([
+    'markRead',
+    'markUnread',
+    'star',
+    'unstar',
+    'archive',
+    'unarchive',
+    'assignCategory',
+    'addTag',
+    'removeTag',
+    'skip',
+    'webhook',
+    'notify',
+    'email',
+  ]),
+  params: z.record(z.string(), z.any()).optional(),
+});
+
+/**
+ * 校验 Webhook 动作参数
+ */
+function assertWebhookParams(action: z.infer<typeof actionSchema>) {
+  if (action.type !== 'webhook') return;
+
+  const url = action.params?.url;
+  if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'webhook 动作需要有效的 http(s) url 参数',
+    });
+  }
+
+  // 禁止指向内网和本机地址
+  const urlCheck = isUrlSafe(url);
+  if (!urlCheck.safe) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `webhook url 不安全: ${urlCheck.reason}`,
+    });
+  }
+}
+
+/**
+ * 校验邮件动作参数
+ * 规则邮件只发送到账户邮箱，避免借系统 SMTP 向任意地址发信
+ */
+async function assertEmailParams(userId: string, actions: z.infer<typeof actionSchema>[]) {
+  const recipients = actions
+    .filter((action) => action.type === 'email' && action.params?.to)
+    .map((action) => String(action.params!.to).trim().toLowerCase());
+  if (recipients.length === 0) return;
+
+  const user = await db.user.findUnique({ where: { id: userId }, select: { email: true } });
+  if (recipients.some((to) => to !== user?.email.toLowerCase())) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'email 动作只能发送到账户邮箱',
+    });
+  }
+}
 
 export const rulesRouter = router({
   /**
@@ -15,9 +121,13 @@ export const rulesRouter = router({
    */
   list: protectedProcedure
     .query(async ({ ctx }) => {
+      // 按执行顺序返回
       return await ctx.db.subscriptionRule.findMany({
         where: { userId: ctx.userId },
-        orderBy: { createdAt: 'desc' },
+        orderBy: [
+          { sortOrder: 'asc' },
+          { createdAt: 'asc' },
+        ],
       });
     }),
 
@@ -48,30 +158,10 @@ export const rulesRouter = router({
     .input(
       z.object({
         name: z.string().min(1).max(100),
-        conditions: z.array(
-          z.object({
-            field: z.enum(['title', 'content', 'author', 'category', 'tag', 'feedTitle']),
-            operator: z.enum(['contains', 'notContains', 'equals', 'notEquals', 'matches', 'in', 'gt', 'lt']),
-            value: z.union([z.string(), z.array(z.string()), z.number()]),
-          })
-        ),
-        actions: z.array(
-          z.object({
-            type: z.enum([
-              'markRead',
-              'markUnread',
-              'star',
-              'unstar',
-              'archive',
-              'unarchive',
-              'assignCategory',
-              'addTag',
-              'removeTag',
-              'skip',
-            ]),
-            params: z.record(z.string(), z.any()).optional(),
-          })
-        ),
+        conditions: z.array(conditionNodeSchema),
+        actions: z.array(actionSchema),
+        stopProcessing: z.boolean().optional(),
+        rateLimitPerHour: z.number().int().min(1).max(10000).nullable().optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
@@ -120,7 +210,16 @@ export const rulesRouter = router({
             message: `${action.type} 动作需要 tag 参数`,
           });
         }
+        assertWebhookParams(action);
       }
+      await assertEmailParams(ctx.userId, input.actions);
+
+      // 新规则排在最后执行
+      const lastRule = await ctx.db.subscriptionRule.findFirst({
+        where: { userId: ctx.userId },
+        orderBy: { sortOrder: 'desc' },
+        select: { sortOrder: true },
+      });
 
       const rule = await ctx.db.subscriptionRule.create({
         data: {
@@ -128,6 +227,9 @@ export const rulesRouter = router({
           name: input.name,
           conditions: input.conditions as any,
           actions: input.actions as any,
+          stopProcessing: input.stopProcessing ?? false,
+          rateLimitPerHour: input.rateLimitPerHour ?? null,
+          sortOrder: lastRule ? lastRule.sortOrder + 1 : 0,
         },
       });
 
@@ -148,35 +250,11 @@ export const rulesRouter = router({
       z.object({
         id: z.string().uuid(),
         name: z.string().min(1).max(100).optional(),
-        conditions: z
-          .array(
-            z.object({
-              field: z.enum(['title', 'content', 'author', 'category', 'tag', 'feedTitle']),
-              operator: z.enum(['contains', 'notContains', 'equals', 'notEquals', 'matches', 'in', 'gt', 'lt']),
-              value: z.union([z.string(), z.array(z.string()), z.number()]),
-            })
-          )
-          .optional(),
-        actions: z
-          .array(
-            z.object({
-              type: z.enum([
-                'markRead',
-                'markUnread',
-                'star',
-                'unstar',
-                'archive',
-                'unarchive',
-                'assignCategory',
-                'addTag',
-                'removeTag',
-                'skip',
-              ]),
-              params: z.record(z.string(), z.any()).optional(),
-            })
-          )
-          .optional(),
+        conditions: z.array(conditionNodeSchema).optional(),
+        actions: z.array(actionSchema).optional(),
         isEnabled: z.boolean().optional(),
+        stopProcessing: z.boolean().optional(),
+        rateLimitPerHour: z.number().int().min(1).max(10000).nullable().optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
@@ -197,7 +275,9 @@ export const rulesRouter = router({
               message: 'assignCategory 动作需要 categoryId 参数',
             });
           }
+          assertWebhookParams(action);
         }
+        await assertEmailParams(ctx.userId, data.actions);
       }
 
       const rule = await ctx.db.subscriptionRule.update({
@@ -205,7 +285,10 @@ export const rulesRouter = router({
           id,
           userId: ctx.userId,
         },
-        data,
+        data: {
+          ...data,
+          conditions: data.conditions as any,
+        },
       });
 
       await info('api', '订阅规则更新成功', {
@@ -260,6 +343,41 @@ export const rulesRouter = router({
       return { success: true };
     }),
 
+  /**
+   * 调整规则执行顺序
+   */
+  reorder: protectedProcedure
+    .input(z.object({ ids: z.array(z.string().uuid()).min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      const rules = await ctx.db.subscriptionRule.findMany({
+        where: {
+          id: { in: input.ids },
+          userId: ctx.userId,
+        },
+        select: { id: true },
+      });
+
+      if (rules.length !== input.ids.length) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: '部分规则不存在' });
+      }
+
+      await ctx.db.$transaction(
+        input.ids.map((id, index) =>
+          ctx.db.subscriptionRule.update({
+            where: { id },
+            data: { sortOrder: index },
+          })
+        )
+      );
+
+      await info('api', '用户调整订阅规则顺序', {
+        userId: ctx.userId,
+        ruleIds: input.ids,
+      });
+
+      return { success: true };
+    }),
+
   /**
    * 切换规则启用状态
    */
@@ -314,30 +432,8 @@ export const rulesRouter = router({
       z.object({
         rule: z.object({
           name: z.string().optional(),
-          conditions: z.array(
-            z.object({
-              field: z.enum(['title', 'content', 'author', 'category', 'tag', 'feedTitle']),
-              operator: z.enum(['contains', 'notContains', 'equals', 'notEquals', 'matches', 'in', 'gt', 'lt']),
-              value: z.union([z.string(), z.array(z.string()), z.number()]),
-            })
-          ),
-          actions: z.array(
-            z.object({
-              type: z.enum([
-                'markRead',
-                'markUnread',
-                'star',
-                'unstar',
-                'archive',
-                'unarchive',
-                'assignCategory',
-                'addTag',
-                'removeTag',
-                'skip',
-              ]),
-              params: z.record(z.string(), z.any()).optional(),
-            })
-          ),
+          conditions: z.array(conditionNodeSchema),
+          actions: z.array(actionSchema),
         }),
         sampleCount: z.number().min(1).max(20).optional(),
       })
@@ -360,29 +456,70 @@ export const rulesRouter = router({
       })
     )
     .query(async ({ input, ctx }) => {
-      const where: any = {
-        feed: { userId: ctx.userId },
-      };
+      const logs = await ctx.db.ruleMatchLog.findMany({
+        where: {
+          userId: ctx.userId,
+          ...(input.ruleId && { ruleId: input.ruleId }),
+        },
+        orderBy: { createdAt: 'desc' },
+        take: input.limit,
+        include: {
+          rule: { select: { id: true, name: true } },
+          entry: { select: { id: true, title: true } },
+        },
+      });
 
-      if (input.ruleId) {
-        // 获取该规则匹配的文章ID（这里简化处理，实际应该有专门的记录表）
-        // 暂时返回空数组
-        return [];
-      }
+      return logs.map((log) => ({
+        id: log.id,
+        entryId: log.entry.id,
+        entryTitle: log.entry.title,
+        ruleId: log.rule.id,
+        ruleName: log.rule.name,
+        trigger: log.trigger,
+        actions: log.actions,
+        createdAt: log.createdAt,
+      }));
+    }),
 
-      // 返回最近应用规则的文章（简化实现）
-      const entries = await ctx.db.entry.findMany({
-        where,
+  /**
+   * 外发动作投递记录
+   */
+  deliveries: protectedProcedure
+    .input(
+      z.object({
+        limit: z.number().min(1).max(100).default(50),
+        ruleId: z.string().uuid().optional(),
+        status: z.enum(['pending', 'success', 'failed', 'rate_limited']).optional(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      const deliveries = await ctx.db.ruleActionDelivery.findMany({
+        where: {
+          userId: ctx.userId,
+          ...(input.ruleId && { ruleId: input.ruleId }),
+          ...(input.status && { status: input.status }),
+        },
         orderBy: { createdAt: 'desc' },
         take: input.limit,
-        select: {
-          id: true,
-          title: true,
-          createdAt: true,
+        include: {
+          rule: { select: { id: true, name: true } },
         },
       });
 
-      return entries;
+      return deliveries.map((delivery) => ({
+        id: delivery.id,
+        ruleId: delivery.rule.id,
+        ruleName: delivery.rule.name,
+        entryId: delivery.entryId,
+        actionType: delivery.actionType,
+        target: delivery.target,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        responseCode: delivery.responseCode,
+        error: delivery.error,
+        durationMs: delivery.durationMs,
+        createdAt: delivery.createdAt,
+      }));
     }),
 
   /**
@@ -407,17 +544,28 @@ export const rulesRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: '规则不存在' });
       }
 
+      // 只处理属于当前用户的文章
+      const entries = await ctx.db.entry.findMany({
+        where: {
+          id: { in: input.entryIds },
+          ...entryVisibleTo(ctx.userId),
+        },
+        select: { id: true },
+      });
+
       const engine = getRuleEngine();
       const results = [];
 
-      for (const entryId of input.entryIds) {
-        const matched = await engine.matchRule(entryId, rule as any);
+      for (const entry of entries) {
+        const matched = await engine.applyRule(entry.id, rule as any, 'manual');
         if (matched) {
-          await engine.executeActions(entryId, rule.actions as any);
-          results.push(entryId);
+          results.push(entry.id);
         }
       }
 
+      // 规则可能修改已读状态
+      await refreshUnreadCounts({ userId: ctx.userId });
+
       return {
         success: true,
         processed: results.length,
@@ -445,7 +593,7 @@ export const rulesRouter = router({
       // 获取用户的最新文章
       const entries = await ctx.db.entry.findMany({
         where: {
-          feed: { userId: ctx.userId },
+          ...entryVisibleTo(ctx.userId),
         },
         orderBy: { createdAt: 'desc' },
         take: 100,
@@ -455,13 +603,15 @@ export const rulesRouter = router({
       let processed = 0;
 
       for (const entry of entries) {
-        const matched = await engine.matchRule(entry.id, rule as any);
+        const matched = await engine.applyRule(entry.id, rule as any, 'execute');
         if (matched) {
-          await engine.executeActions(entry.id, rule.actions as any);
           processed++;
         }
       }
 
+      // 规则可能修改已读状态
+      await refreshUnreadCounts({ userId: ctx.userId });
+
       return {
         success: true,
         processed,
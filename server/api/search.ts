@@ -36,7 +36,8 @@ export const searchRouter = router({
     .mutation(async ({ input, ctx }) => {
       const searchService = getSearchService();
 
-      const { results, total } = await searchService.hybridSearch(input.query, {
+      const { results, total, hasMore } = await searchService.hybridSearch(input.query, {
+        userId: ctx.userId,
         limit: input.limit,
         offset: input.offset,
         filters: input.filters,
@@ -60,7 +61,7 @@ export const searchRouter = router({
           total,
           limit: input.limit,
           offset: input.offset,
-          hasMore: input.offset + input.limit < total,
+          hasMore,
         },
       };
     }),
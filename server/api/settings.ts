@@ -15,6 +15,14 @@ import { encrypt, safeDecrypt } from '@/lib/crypto/encryption';
 import { verifyPassword } from '@/lib/auth/password';
 import { addPreliminaryJobsBatch } from '@/lib/queue/preliminary-processor';
 import { db } from '@/lib/db';
+import {
+  entryStateFilter,
+  entryVisibleTo,
+  refreshUnreadCounts,
+  setEntryState,
+} from '@/lib/entries/state';
+import { toUserFeed } from '@/lib/rss/subscriptions';
+import { computeFeverApiKey, hashFeverApiKey } from '@/lib/auth/user-api-key';
 
 /**
  * 遮蔽敏感字符串，只显示前后几个字符
@@ -150,6 +158,7 @@ export const settingsRouter = router({
       z.object({
         provider: z.enum(['openai', 'anthropic', 'deepseek', 'ollama', 'custom']).optional(),
         model: z.string().optional(),
+        embeddingModel: z.string().trim().max(200).optional(),
         apiKey: z.string().optional(),
         baseURL: z.string().optional(),
         autoSummary: z.boolean().optional(),
@@ -329,50 +338,30 @@ export const settingsRouter = router({
   clearAllEntries: protectedMutation
     .output(z.object({ success: z.boolean() }))
     .mutation(async ({ ctx }) => {
+      // 仅删除只有当前用户订阅的文章；与其他用户共享的文章对当前用户标记为已读并归档
       await ctx.db.entry.deleteMany({
         where: {
-          feed: { userId: ctx.userId },
+          feed: {
+            subscriptions: {
+              some: { userId: ctx.userId },
+              every: { userId: ctx.userId },
+            },
+          },
         },
       });
 
+      const shared = await ctx.db.entry.findMany({
+        where: entryVisibleTo(ctx.userId),
+        select: { id: true },
+      });
+      await setEntryState(ctx.userId, shared.map(e => e.id), { isRead: true, isArchived: true });
+      await refreshUnreadCounts({ userId: ctx.userId });
+
       await info('system', '清空所有文章', { userId: ctx.userId });
 
       return { success: true };
     }),
 
-  /**
-   * 导出用户数据
-   */
-  exportData: protectedProcedure.mutation(async ({ ctx }) => {
-    // 获取所有用户数据
-    const [user, feeds, categories, entries] = await Promise.all([
-      ctx.db.user.findUnique({
-        where: { id: ctx.userId },
-        select: { id: true, username: true, email: true, preferences: true, createdAt: true },
-      }),
-      ctx.db.feed.findMany({
-        where: { userId: ctx.userId },
-        include: { category: true },
-      }),
-      ctx.db.category.findMany({
-        where: { userId: ctx.userId },
-      }),
-      ctx.db.entry.findMany({
-        where: { feed: { userId: ctx.userId } },
-        include: { feed: true },
-        take: 1000, // 限制导出数量
-      }),
-    ]);
-
-    return {
-      user,
-      feeds,
-      categories,
-      entries,
-      exportedAt: new Date(),
-    };
-  }),
-
   /**
    * 获取API密钥列表
    */
@@ -389,6 +378,8 @@ export const settingsRouter = router({
       createdAt: key.createdAt,
       lastUsedAt: key.lastUsedAt,
       isActive: !key.expiresAt || key.expiresAt > new Date(),
+      // 启用 Fever API 之前创建的密钥没有 Fever 哈希，需要重新创建
+      feverEnabled: key.feverKeyHash !== null,
     }));
   }),
 
@@ -432,12 +423,19 @@ export const settingsRouter = router({
       cryptoHash.update(keyValue);
       const keyHash = cryptoHash.digest('hex');
 
+      // Fever 客户端以 md5("用户名:密码") 认证，密码填写 API 密钥
+      const user = await ctx.db.user.findUniqueOrThrow({
+        where: { id: ctx.userId },
+        select: { username: true },
+      });
+
       const apiKey = await ctx.db.apiKey.create({
         data: {
           userId: ctx.userId,
           name,
           keyHash,
           keyPrefix,
+          feverKeyHash: hashFeverApiKey(computeFeverApiKey(user.username, keyValue)),
           expiresAt,
         },
       });
@@ -487,10 +485,14 @@ export const settingsRouter = router({
       })
     )
     .mutation(async ({ ctx }) => {
-    const feeds = await ctx.db.feed.findMany({
+    const subscriptions = await ctx.db.subscription.findMany({
       where: { userId: ctx.userId },
-      include: { category: true },
+      include: { feed: true, category: true },
     });
+    const feeds = subscriptions.map(({ feed, category, ...subscription }) => ({
+      ...toUserFeed(feed, subscription),
+      category,
+    }));
 
     // 生成OPML内容
     let opml = `<?xml version="1.0" encoding="UTF-8"?>
@@ -1014,7 +1016,7 @@ export const settingsRouter = router({
       
       const message = result.errors && result.errors.length > 0
         ? `清理完成，删除了 ${result.deletedCount} 篇文章，保留 ${result.preservedCount} 篇（受保护），但有 ${result.errors.length} 个错误`
-        : `清理完成，删除了 ${result.deletedCount} 篇文章，保留 ${result.preservedCount} 篇（未读或星标）`;
+        : `清理完成，删除了 ${result.deletedCount} 篇文章，保留 ${result.preservedCount} 篇（未读、星标或其他订阅者仍在保留期内）`;
 
       await info('system', '手动清理旧文章', {
         userId: ctx.userId,
@@ -1077,57 +1079,57 @@ export const settingsRouter = router({
         newestEntry,
       ] = await Promise.all([
         ctx.db.entry.count({
-          where: { feed: { userId: ctx.userId } },
+          where: entryVisibleTo(ctx.userId),
         }),
         ctx.db.entry.count({
-          where: { feed: { userId: ctx.userId }, isRead: false },
+          where: { ...entryVisibleTo(ctx.userId), AND: entryStateFilter(ctx.userId, { isRead: false }) },
         }),
         ctx.db.entry.count({
-          where: { feed: { userId: ctx.userId }, isStarred: true },
+          where: { ...entryVisibleTo(ctx.userId), AND: entryStateFilter(ctx.userId, { isStarred: true }) },
         }),
         ctx.db.entry.count({
           where: {
-            feed: { userId: ctx.userId },
+            ...entryVisibleTo(ctx.userId),
             createdAt: { gte: new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000) },
           },
         }),
         ctx.db.entry.count({
           where: {
-            feed: { userId: ctx.userId },
+            ...entryVisibleTo(ctx.userId),
             createdAt: { gte: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000) },
           },
         }),
         ctx.db.entry.count({
           where: {
-            feed: { userId: ctx.userId },
+            ...entryVisibleTo(ctx.userId),
             createdAt: { gte: new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000) },
           },
         }),
         ctx.db.entry.count({
           where: {
-            feed: { userId: ctx.userId },
+            ...entryVisibleTo(ctx.userId),
             createdAt: { gte: new Date(now.getTime() - 180 * 24 * 60 * 60 * 1000) },
           },
         }),
         ctx.db.entry.count({
           where: {
-            feed: { userId: ctx.userId },
+            ...entryVisibleTo(ctx.userId),
             createdAt: { gte: new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000) },
           },
         }),
         ctx.db.entry.count({
           where: {
-            feed: { userId: ctx.userId },
+            ...entryVisibleTo(ctx.userId),
             createdAt: { lt: new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000) },
           },
         }),
         ctx.db.entry.findFirst({
-          where: { feed: { userId: ctx.userId } },
+          where: entryVisibleTo(ctx.userId),
           orderBy: { createdAt: 'asc' },
           select: { createdAt: true },
         }),
         ctx.db.entry.findFirst({
-          where: { feed: { userId: ctx.userId } },
+          where: entryVisibleTo(ctx.userId),
           orderBy: { createdAt: 'desc' },
           select: { createdAt: true },
         }),
@@ -1163,7 +1165,7 @@ async function queueUnanalyzedEntries(userId: string): Promise<void> {
   // 查找用户没有AI分析结果的文章
   const unanalyzedEntries = await db.entry.findMany({
     where: {
-      feed: { userId },
+      ...entryVisibleTo(userId),
       content: { not: null }, // 必须有内容才能分析
       aiSummary: null, // 没有AI摘要（主要判断条件）
     },
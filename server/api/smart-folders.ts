@@ -0,0 +1,171 @@
+/**
+ * 智能文件夹 API Router
+ * 将搜索关键词和筛选条件保存为侧边栏中的文章列表
+ */
+
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { protectedProcedure, router } from '../trpc/init';
+import type { Context } from '../trpc/context';
+import { countSmartFolderUnread } from '@/lib/search/smart-folders';
+import {
+  isEmptySmartFolder,
+  normalizeSmartFolderFilters,
+  parseSmartFolderFilters,
+  smartFolderFiltersSchema,
+  type SmartFolderFilters,
+} from '@/lib/search/smart-folder-filters';
+
+const nameSchema = z.string().trim().min(1).max(100);
+const querySchema = z.string().trim().max(500);
+
+/**
+ * 校验文件夹内容：关键词或筛选条件至少一项，名称不重复，订阅源和分类属于当前用户
+ */
+async function assertValidFolder(
+  db: Context['db'],
+  userId: string,
+  folder: { id?: string; name: string; query: string; filters: SmartFolderFilters }
+) {
+  if (isEmptySmartFolder(folder.query, folder.filters)) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: '请至少设置关键词或一个筛选条件' });
+  }
+
+  const duplicate = await db.smartFolder.findFirst({
+    where: { userId, name: folder.name, ...(folder.id && { id: { not: folder.id } }) },
+  });
+  if (duplicate) {
+    throw new TRPCError({ code: 'CONFLICT', message: '同名智能文件夹已存在' });
+  }
+
+  const { feedIds = [], categoryIds = [] } = folder.filters;
+  if (feedIds.length > 0) {
+    const count = await db.subscription.count({ where: { userId, feedId: { in: feedIds } } });
+    if (count !== new Set(feedIds).size) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: '订阅源不存在' });
+    }
+  }
+  if (categoryIds.length > 0) {
+    const count = await db.category.count({ where: { userId, id: { in: categoryIds } } });
+    if (count !== new Set(categoryIds).size) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: '分类不存在' });
+    }
+  }
+}
+
+export const smartFoldersRouter = router({
+  /**
+   * 获取智能文件夹列表（含未读数）
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const folders = await ctx.db.smartFolder.findMany({
+      where: { userId: ctx.userId },
+      orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return Promise.all(
+      folders.map(async (folder) => ({
+        ...folder,
+        filters: parseSmartFolderFilters(folder.filters),
+        unreadCount: await countSmartFolderUnread(ctx.userId, folder),
+      }))
+    );
+  }),
+
+  /**
+   * 获取单个智能文件夹
+   */
+  byId: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      const folder = await ctx.db.smartFolder.findFirst({ where: { id: input.id, userId: ctx.userId } });
+      if (!folder) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: '智能文件夹不存在' });
+      }
+
+      return { ...folder, filters: parseSmartFolderFilters(folder.filters) };
+    }),
+
+  /**
+   * 创建智能文件夹
+   */
+  create: protectedProcedure
+    .input(z.object({
+      name: nameSchema,
+      query: querySchema.default(''),
+      filters: smartFolderFiltersSchema.default({}),
+      notifyOnMatch: z.boolean().default(false),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const filters = normalizeSmartFolderFilters(input.filters);
+      await assertValidFolder(ctx.db, ctx.userId, { ...input, filters });
+
+      const count = await ctx.db.smartFolder.count({ where: { userId: ctx.userId } });
+
+      return ctx.db.smartFolder.create({
+        data: {
+          userId: ctx.userId,
+          name: input.name,
+          query: input.query,
+          filters,
+          notifyOnMatch: input.notifyOnMatch,
+          lastCheckedAt: input.notifyOnMatch ? new Date() : null,
+          sortOrder: count,
+        },
+      });
+    }),
+
+  /**
+   * 更新智能文件夹
+   */
+  update: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      name: nameSchema.optional(),
+      query: querySchema.optional(),
+      filters: smartFolderFiltersSchema.optional(),
+      notifyOnMatch: z.boolean().optional(),
+      sortOrder: z.number().int().min(0).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const { id, filters: inputFilters, ...data } = input;
+
+      const existing = await ctx.db.smartFolder.findFirst({ where: { id, userId: ctx.userId } });
+      if (!existing) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: '智能文件夹不存在' });
+      }
+
+      const filters = inputFilters ? normalizeSmartFolderFilters(inputFilters) : undefined;
+      await assertValidFolder(ctx.db, ctx.userId, {
+        id,
+        name: data.name ?? existing.name,
+        query: data.query ?? existing.query,
+        filters: filters ?? parseSmartFolderFilters(existing.filters),
+      });
+
+      // 开启通知时从现在开始计算，不补发之前的文章
+      const enablingNotify = data.notifyOnMatch === true && !existing.notifyOnMatch;
+
+      return ctx.db.smartFolder.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(filters && { filters }),
+          ...(enablingNotify && { lastCheckedAt: new Date() }),
+        },
+      });
+    }),
+
+  /**
+   * 删除智能文件夹
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      await ctx.db.smartFolder.deleteMany({
+        where: { id: input.id, userId: ctx.userId },
+      });
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,119 @@
+/**
+ * 账户归档格式测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  ArchiveFormatError,
+  encodeArchiveRecord,
+  parseArchiveRecord,
+  readArchiveRecords,
+  remapRuleActions,
+  sortCategoriesByParent,
+  type ArchiveOutputRecord,
+  type ArchiveRecord,
+} from '@/lib/archive/format';
+
+const header: ArchiveOutputRecord = {
+  type: 'header',
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: new Date('2026-01-01T00:00:00Z'),
+  account: { username: 'alice', email: 'alice@example.com' },
+};
+
+const category: ArchiveOutputRecord = { type: 'category', data: { id: 'c1', name: '技术' } };
+
+function streamOf(text: string, chunkSize: number): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) return controller.close();
+      controller.enqueue(bytes.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+async function readAll(text: string, chunkSize = 7): Promise<ArchiveRecord[]> {
+  const records: ArchiveRecord[] = [];
+  for await (const record of readArchiveRecords(streamOf(text, chunkSize))) records.push(record);
+  return records;
+}
+
+describe('parseArchiveRecord', () => {
+  it('校验字段并还原日期和默认值', () => {
+    const record = parseArchiveRecord(
+      JSON.stringify({
+        type: 'entry',
+        data: { id: 'e1', feedId: 'f1', url: 'https://a.com/1', title: '标题', contentHash: 'h', publishedAt: '2026-01-02T00:00:00.000Z' },
+      })
+    );
+
+    expect(record.type).toBe('entry');
+    if (record.type !== 'entry') return;
+    expect(record.data.publishedAt).toEqual(new Date('2026-01-02T00:00:00Z'));
+    expect(record.data.tags).toEqual([]);
+  });
+
+  it('拒绝未知类型、无效字段和更高版本', () => {
+    expect(() => parseArchiveRecord('{"type":"unknown","data":{}}', 3)).toThrow('第 3 行');
+    expect(() => parseArchiveRecord('[1,2]')).toThrow('缺少记录类型');
+    expect(() => parseArchiveRecord('{"type":"category","data":{"id":"c1"}}')).toThrow(ArchiveFormatError);
+    expect(() => parseArchiveRecord(JSON.stringify({ ...header, version: ARCHIVE_VERSION + 1 }))).toThrow('版本');
+  });
+});
+
+describe('readArchiveRecords', () => {
+  it('跨分段读取多字节字符并校验记录数', async () => {
+    const text = [header, category, { type: 'footer', counts: { category: 1 } } as ArchiveOutputRecord]
+      .map(encodeArchiveRecord)
+      .join('');
+
+    const records = await readAll(text);
+    expect(records.map((r) => r.type)).toEqual(['header', 'category', 'footer']);
+    expect(records[1].type === 'category' && records[1].data.name).toBe('技术');
+  });
+
+  it('缺少 footer 或记录数不符时报告归档不完整', async () => {
+    await expect(readAll(encodeArchiveRecord(header) + encodeArchiveRecord(category))).rejects.toThrow('缺少 footer');
+    await expect(
+      readAll([header, { type: 'footer', counts: { category: 1 } } as ArchiveOutputRecord].map(encodeArchiveRecord).join(''))
+    ).rejects.toThrow('记录数');
+  });
+
+  it('首条记录必须是 header', async () => {
+    await expect(readAll(encodeArchiveRecord(category))).rejects.toThrow('缺少 header');
+  });
+});
+
+describe('sortCategoriesByParent', () => {
+  it('父分类排在子分类之前，循环引用不会死循环', () => {
+    const sorted = sortCategoriesByParent([
+      { id: 'child', parentId: 'parent' },
+      { id: 'parent', parentId: null },
+      { id: 'a', parentId: 'b' },
+      { id: 'b', parentId: 'a' },
+    ]);
+
+    expect(sorted.map((c) => c.id)).toEqual(['parent', 'child', 'b', 'a']);
+  });
+});
+
+describe('remapRuleActions', () => {
+  it('替换分类 id，移除指向缺失分类的动作', () => {
+    const actions = remapRuleActions(
+      [
+        { type: 'assignCategory', params: { categoryId: 'old-1' } },
+        { type: 'assignCategory', params: { categoryId: 'missing' } },
+        { type: 'star' },
+      ],
+      new Map([['old-1', 'new-1']])
+    );
+
+    expect(actions).toEqual([{ type: 'assignCategory', params: { categoryId: 'new-1' } }, { type: 'star' }]);
+  });
+});
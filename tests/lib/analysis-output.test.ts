@@ -0,0 +1,125 @@
+/**
+ * 深度分析模型输出解析与分阶段对话测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { ChatOptions, ChatProvider } from '@/lib/ai/client';
+import {
+  AnalysisOutputError,
+  analysisOutputSchema,
+  chatJson,
+  parseJsonOutput,
+  segmentOutputSchema,
+} from '@/lib/ai/analysis/json-output';
+import { SegmentedAnalyzer } from '@/lib/ai/analysis/segmented-analyzer';
+import { StageChat, resolveStageService } from '@/lib/ai/analysis/stage-chat';
+
+/**
+ * 按顺序返回预设输出，记录收到的请求
+ */
+function scriptedProvider(replies: string[]): ChatProvider & { requests: ChatOptions[] } {
+  const requests: ChatOptions[] = [];
+  return {
+    requests,
+    chat: async (options) => {
+      requests.push(options);
+      return { content: replies[Math.min(requests.length - 1, replies.length - 1)], tokensUsed: 10 };
+    },
+  };
+}
+
+describe('parseJsonOutput', () => {
+  it('去掉代码块和说明文字、修复尾随逗号，并按结构补全默认值', () => {
+    const content = '分析如下：\n```json\n{"keyPoints": ["要点一", "要点二",], "sentiment": "mixed", "importance": "0.7"}\n```';
+    expect(parseJsonOutput(content, segmentOutputSchema)).toEqual({
+      keyPoints: ['要点一', '要点二'],
+      sentiment: 'neutral',
+      importance: 0.7,
+    });
+  });
+
+  it('按 ArticleAnalysisResult 结构校验改进结果，字符串观点转为对象', () => {
+    const result = parseJsonOutput(
+      JSON.stringify({
+        oneLineSummary: '一句话',
+        summary: '摘要',
+        mainPoints: ['观点一', { point: '观点二', importance: 0.9 }],
+        tags: ['Rust'],
+        domain: '技术',
+        subcategory: '编程语言',
+        aiScore: '8.5',
+        scoreDimensions: { depth: 8, quality: 9, practicality: 7, novelty: 8 },
+      }),
+      analysisOutputSchema
+    );
+    expect(result.mainPoints).toEqual([
+      { point: '观点一', explanation: '', importance: 0.5 },
+      { point: '观点二', explanation: '', importance: 0.9 },
+    ]);
+    expect(result.aiScore).toBe(8.5);
+
+    expect(() => parseJsonOutput('{"summary": "缺少其他字段"}', analysisOutputSchema)).toThrow(AnalysisOutputError);
+    expect(() => parseJsonOutput('抱歉，我无法完成', analysisOutputSchema)).toThrow('输出不是有效的 JSON');
+  });
+});
+
+describe('chatJson', () => {
+  it('输出无效时附上原输出和错误重试', async () => {
+    const llm = scriptedProvider(['好的', '{"keyPoints": ["要点"]}']);
+    const result = await chatJson(
+      llm,
+      { model: 'm', messages: [{ role: 'user', content: '分析' }] },
+      segmentOutputSchema
+    );
+
+    expect(result.keyPoints).toEqual(['要点']);
+    expect(llm.requests).toHaveLength(2);
+    expect(llm.requests[1].messages.slice(1)).toEqual([
+      { role: 'assistant', content: '好的' },
+      { role: 'user', content: expect.stringContaining('输出不是有效的 JSON') },
+    ]);
+  });
+
+  it('重试后仍无效时抛出解析错误', async () => {
+    const llm = scriptedProvider(['{}']);
+    await expect(
+      chatJson(llm, { model: 'm', messages: [{ role: 'user', content: '分析' }] }, segmentOutputSchema)
+    ).rejects.toThrow(AnalysisOutputError);
+    expect(llm.requests).toHaveLength(2);
+  });
+});
+
+describe('SegmentedAnalyzer', () => {
+  it('把分段和摘要提示词发送给选定的分析模型', async () => {
+    const llm = scriptedProvider([
+      '{"keyPoints": ["借用检查保证内存安全"], "importance": 0.8, "entities": ["Rust"]}',
+      '{"oneLine": "Rust 的所有权模型", "full": "介绍所有权与借用。"}',
+    ]);
+    const analyzer = new SegmentedAnalyzer(llm, { analysisModel: 'deepseek-chat' });
+    const result = await analyzer.analyze('# 所有权\n\nRust 通过借用检查保证内存安全。', { title: 'Rust' });
+
+    expect(llm.requests.map((request) => request.model)).toEqual(['deepseek-chat', 'deepseek-chat']);
+    expect(llm.requests[0].messages[0].role).toBe('system');
+    expect(llm.requests[0].messages[1].content).toContain('Rust 通过借用检查保证内存安全');
+    expect(llm.requests[1].messages[0].content).toContain('借用检查保证内存安全');
+    expect(result).toMatchObject({
+      oneLineSummary: 'Rust 的所有权模型',
+      summary: '介绍所有权与借用。',
+      tags: ['Rust'],
+      analysisModel: 'deepseek-chat',
+    });
+  });
+});
+
+describe('StageChat', () => {
+  it('用户配置的提供商与选定模型不匹配时使用用户的模型，并统计该阶段用量', async () => {
+    const service = resolveStageService('deepseek-chat', { provider: 'mock', model: 'mock' });
+    const stageChat = new StageChat('reflection', service);
+
+    await stageChat.chat({ model: 'deepseek-chat', messages: [{ role: 'user', content: '你好' }] });
+    await stageChat.chat({ model: 'deepseek-chat', messages: [{ role: 'user', content: '再见' }] });
+
+    expect(stageChat.model).toBe('mock');
+    expect(stageChat.usage).toMatchObject({ stage: 'reflection', model: 'mock', calls: 2, failedCalls: 0 });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * AI 助手对话协议测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { linkCitations, parseToolCall, ToolCallStreamGuard, trimHistory } from '@/lib/ai/assistant/protocol';
+import type { AssistantSource } from '@/lib/ai/assistant/types';
+
+const sources: AssistantSource[] = [1, 2, 3].map((index) => ({
+  index,
+  entryId: `entry-${index}`,
+  title: `文章 ${index}`,
+  url: `https://example.com/${index}`,
+  feedTitle: '示例订阅源',
+  publishedAt: null,
+  excerpt: '',
+}));
+
+describe('parseToolCall', () => {
+  it('解析工具代码块及其之前的文本', () => {
+    const result = parseToolCall('我先检索一下。\n```tool\n{"name": "search_entries", "arguments": {"query": "Rust"}}\n```');
+
+    expect(result).toEqual({
+      call: { name: 'search_entries', arguments: { query: 'Rust' } },
+      text: '我先检索一下。',
+    });
+  });
+
+  it('缺少 arguments 时使用空对象', () => {
+    expect(parseToolCall('```tool {"name": "star_entries"} ```')?.call.arguments).toEqual({});
+  });
+
+  it('普通回答或无效 JSON 返回 null', () => {
+    expect(parseToolCall('这是普通回答 [1]')).toBeNull();
+    expect(parseToolCall('```tool\n{name: search}\n```')).toBeNull();
+    expect(parseToolCall('```tool\n{"arguments": {}}\n```')).toBeNull();
+  });
+});
+
+describe('ToolCallStreamGuard', () => {
+  const run = (chunks: string[]) => {
+    const guard = new ToolCallStreamGuard();
+    const emitted = chunks.map((c) => guard.push(c)).join('') + guard.end();
+    return { guard, emitted };
+  };
+
+  it('普通回答原样输出', () => {
+    const { emitted } = run(['Rust ', '的 `async` ', '很好用 ``', '`ts\ncode\n```']);
+    expect(emitted).toBe('Rust 的 `async` 很好用 ```ts\ncode\n```');
+  });
+
+  it('跨分段的工具代码块不输出，保留完整内容供解析', () => {
+    const { guard, emitted } = run(['我先检索。\n``', '`to', 'ol\n{"name": "search_entries"}', '\n```']);
+
+    expect(emitted).toBe('我先检索。\n');
+    expect(guard.visibleContent).toBe('我先检索。\n');
+    expect(parseToolCall(guard.content)?.call.name).toBe('search_entries');
+  });
+});
+
+describe('linkCitations', () => {
+  it('将编号转换为文章链接并按编号返回引用', () => {
+    const { content, citations } = linkCitations('结论 A [3]，结论 B [1, 3]。', sources);
+
+    expect(content).toBe('结论 A [[3]](/entries/entry-3)，结论 B [[1]](/entries/entry-1)[[3]](/entries/entry-3)。');
+    expect(citations.map((c) => c.index)).toEqual([1, 3]);
+  });
+
+  it('未知编号和已有链接保持原样', () => {
+    const { content, citations } = linkCitations('见 [9] 和 [2](https://example.com)', sources);
+
+    expect(content).toBe('见 [9] 和 [2](https://example.com)');
+    expect(citations).toEqual([]);
+  });
+});
+
+describe('trimHistory', () => {
+  it('保留最近且不超过长度上限的消息，最后一条始终保留', () => {
+    const messages = [
+      { role: 'user' as const, content: 'a'.repeat(10) },
+      { role: 'assistant' as const, content: 'b'.repeat(10) },
+      { role: 'user' as const, content: 'c'.repeat(10) },
+    ];
+
+    expect(trimHistory(messages, 25).map((m) => m.content[0])).toEqual(['b', 'c']);
+    expect(trimHistory(messages, 5).map((m) => m.content[0])).toEqual(['c']);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * AI 助手流式输出测试
+ * 使用本地模拟提供商
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { AIService } from '@/lib/ai/client';
+import { encodeStreamEvent, readStreamEvents, StreamEventParser } from '@/lib/ai/assistant/sse';
+import type { AssistantStreamEvent } from '@/lib/ai/assistant/types';
+
+describe('模拟提供商', () => {
+  const service = new AIService({ provider: 'mock', model: 'mock' });
+  const messages = [
+    { role: 'system' as const, content: '系统提示' },
+    { role: 'user' as const, content: '最近有什么 Rust 新闻？' },
+  ];
+
+  it('流式输出分段拼接后与完整回答一致', async () => {
+    const chunks: string[] = [];
+    for await (const chunk of service.chatStream({ model: service.model, messages })) {
+      chunks.push(chunk);
+    }
+
+    const { content } = await service.chat({ model: service.model, messages });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(content);
+    expect(content).toContain('最近有什么 Rust 新闻？');
+  });
+
+  it('取消后停止输出', async () => {
+    const controller = new AbortController();
+    const chunks: string[] = [];
+
+    await expect((async () => {
+      for await (const chunk of service.chatStream({ model: service.model, messages, signal: controller.signal })) {
+        chunks.push(chunk);
+        controller.abort();
+      }
+    })()).rejects.toThrow();
+    expect(chunks).toHaveLength(1);
+  });
+});
+
+describe('SSE 编解码', () => {
+  const events: AssistantStreamEvent[] = [
+    { type: 'conversation', id: 'c1', title: '新对话' },
+    { type: 'delta', text: '第一行\n\n第二行' },
+    { type: 'action', action: { tool: 'star_entries', success: true, summary: '已为 2 篇文章添加星标' } },
+  ];
+
+  it('按任意位置截断的数据块都能完整解析', () => {
+    const encoded = events.map(encodeStreamEvent).join('');
+
+    for (const size of [1, 7, 64]) {
+      const parser = new StreamEventParser();
+      const parsed: AssistantStreamEvent[] = [];
+      for (let i = 0; i < encoded.length; i += size) {
+        parsed.push(...parser.feed(encoded.slice(i, i + size)));
+      }
+      expect(parsed).toEqual(events);
+    }
+  });
+
+  it('从响应体读取事件', async () => {
+    const body = new Response(events.map(encodeStreamEvent).join('')).body!;
+    const parsed: AssistantStreamEvent[] = [];
+    for await (const event of readStreamEvents(body)) {
+      parsed.push(event);
+    }
+    expect(parsed).toEqual(events);
+  });
+});
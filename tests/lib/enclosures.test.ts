@@ -0,0 +1,61 @@
+/**
+ * 媒体附件解析测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { detectMediaKind, extractItunesMetadata, parseItunesDuration } from '@/lib/rss/enclosures';
+
+describe('parseItunesDuration', () => {
+  it('支持 HH:MM:SS、MM:SS 和秒数', () => {
+    expect(parseItunesDuration('1:02:03')).toBe(3723);
+    expect(parseItunesDuration('12:34')).toBe(754);
+    expect(parseItunesDuration('3600')).toBe(3600);
+    expect(parseItunesDuration(' 90.6 ')).toBe(91);
+    expect(parseItunesDuration(1800)).toBe(1800);
+  });
+
+  it('无效值返回 undefined', () => {
+    expect(parseItunesDuration('')).toBeUndefined();
+    expect(parseItunesDuration('1:2:3:4')).toBeUndefined();
+    expect(parseItunesDuration('约 30 分钟')).toBeUndefined();
+    expect(parseItunesDuration('-5')).toBeUndefined();
+    expect(parseItunesDuration(-5)).toBeUndefined();
+    expect(parseItunesDuration(Number.NaN)).toBeUndefined();
+    expect(parseItunesDuration(undefined)).toBeUndefined();
+  });
+});
+
+describe('detectMediaKind', () => {
+  it('优先按 MIME 类型判断', () => {
+    expect(detectMediaKind('audio/mpeg', 'https://example.com/a.mp4')).toBe('audio');
+    expect(detectMediaKind('VIDEO/MP4')).toBe('video');
+    expect(detectMediaKind('image/png')).toBe('image');
+  });
+
+  it('MIME 类型缺失或无法识别时按扩展名判断，忽略查询参数', () => {
+    expect(detectMediaKind(null, 'https://cdn.example.com/ep1.MP3?token=abc')).toBe('audio');
+    expect(detectMediaKind('application/octet-stream', 'https://example.com/clip.webm#t=10')).toBe('video');
+    expect(detectMediaKind(undefined, 'https://example.com/cover.jpeg')).toBe('image');
+    expect(detectMediaKind('application/pdf', 'https://example.com/notes.pdf')).toBe('other');
+    expect(detectMediaKind()).toBe('other');
+  });
+});
+
+describe('extractItunesMetadata', () => {
+  it('提取集数、季数、分级和章节地址', () => {
+    expect(
+      extractItunesMetadata({
+        itunes: { duration: '45:00', episode: '12', season: '0', episodeType: 'Trailer', explicit: 'Yes' },
+        'podcast:chapters': { $: { url: 'https://example.com/chapters.json' } },
+      })
+    ).toEqual({
+      duration: 2700,
+      episode: 12,
+      season: undefined,
+      episodeType: 'trailer',
+      explicit: true,
+      image: undefined,
+      chaptersUrl: 'https://example.com/chapters.json',
+    });
+  });
+});
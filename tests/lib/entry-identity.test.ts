@@ -0,0 +1,61 @@
+/**
+ * 条目标识、更新检测与版本对比测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { entryIdentityKey, hasEntryContentChanged, normalizeEntryUrl } from '@/lib/rss/entry-identity';
+import { diffText, htmlToDiffText } from '@/lib/entries/revision-diff';
+
+describe('entryIdentityKey', () => {
+  it('优先使用 GUID', () => {
+    expect(entryIdentityKey({ guid: ' tag:example.com,2026:42 ', link: 'https://example.com/a' })).toBe(
+      'tag:example.com,2026:42'
+    );
+  });
+
+  it('没有 GUID 时使用规范化链接', () => {
+    expect(entryIdentityKey({ link: 'HTTPS://Example.com/post/?utm_source=rss&id=2#comments' })).toBe(
+      'https://example.com/post?id=2'
+    );
+    expect(normalizeEntryUrl('https://example.com/')).toBe('https://example.com/');
+    expect(entryIdentityKey({ guid: { isPermaLink: false }, link: '' })).toBeNull();
+  });
+});
+
+describe('hasEntryContentChanged', () => {
+  it('只改排版或空白不算修改', () => {
+    expect(
+      hasEntryContentChanged(
+        { title: 'Advisory', content: '<p>Affects  1.2&nbsp;and earlier</p>' },
+        { title: 'Advisory ', content: '<div class="x">Affects 1.2 and earlier</div>' }
+      )
+    ).toBe(false);
+  });
+
+  it('标题或可见文本变化视为修改，新版本缺少正文时不算', () => {
+    expect(hasEntryContentChanged({ title: 'Advisory', content: 'CVSS 7.5' }, { title: 'Advisory', content: 'CVSS 9.8' })).toBe(true);
+    expect(hasEntryContentChanged({ title: 'Advisry', content: 'x' }, { title: 'Advisory' })).toBe(true);
+    expect(hasEntryContentChanged({ title: 'Advisory', content: 'x' }, { title: 'Advisory' })).toBe(false);
+  });
+});
+
+describe('diffText', () => {
+  it('按词对比英文，按字对比中文', () => {
+    expect(diffText('Fixed in 1.2.3 today', 'Fixed in 1.2.4 today')).toEqual([
+      { type: 'equal', text: 'Fixed in ' },
+      { type: 'delete', text: '1.2.3' },
+      { type: 'insert', text: '1.2.4' },
+      { type: 'equal', text: ' today' },
+    ]);
+    expect(diffText('影响所有版本', '影响部分版本')).toEqual([
+      { type: 'equal', text: '影响' },
+      { type: 'delete', text: '所有' },
+      { type: 'insert', text: '部分' },
+      { type: 'equal', text: '版本' },
+    ]);
+  });
+
+  it('HTML 按段落转换为多行文本', () => {
+    expect(htmlToDiffText('<p>One &amp; two</p><p>Three<br>four</p>')).toBe('One & two\nThree\nfour');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * 用户文章状态测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { entryStateFilter, entryTagFilter, mergeEntryTags, toUserEntry, withEntryState } from '@/lib/entries/state';
+
+describe('entryStateFilter', () => {
+  it('未指定的状态不参与过滤', () => {
+    expect(entryStateFilter('u1', {})).toEqual([]);
+  });
+
+  it('为 true 时要求存在状态记录', () => {
+    expect(entryStateFilter('u1', { isStarred: true })).toEqual([
+      { states: { some: { userId: 'u1', isStarred: true } } },
+    ]);
+  });
+
+  it('为 false 时无记录也匹配', () => {
+    expect(entryStateFilter('u1', { isRead: false, isArchived: false })).toEqual([
+      { states: { none: { userId: 'u1', isRead: true } } },
+      { states: { none: { userId: 'u1', isArchived: true } } },
+    ]);
+  });
+});
+
+describe('withEntryState', () => {
+  it('无状态记录时为未读', () => {
+    expect(withEntryState({ id: 'e1', states: [] })).toEqual({
+      id: 'e1',
+      isRead: false,
+      isStarred: false,
+      isArchived: false,
+      readAt: null,
+    });
+  });
+
+  it('展平用户状态', () => {
+    const readAt = new Date();
+    const entry = withEntryState({
+      id: 'e1',
+      states: [{ isRead: true, isStarred: true, isArchived: false, readAt }],
+    });
+    expect(entry).toMatchObject({ isRead: true, isStarred: true, readAt });
+    expect(entry).not.toHaveProperty('states');
+  });
+});
+
+describe('toUserEntry', () => {
+  it('订阅源标题和分组取用户订阅设置', () => {
+    const entry = toUserEntry({
+      id: 'e1',
+      feed: { id: 'f1', title: '原标题', subscriptions: [{ title: '我的标题', categoryId: 'c1' }] },
+      states: [],
+    });
+    expect(entry.feed).toEqual({ id: 'f1', title: '我的标题', categoryId: 'c1' });
+  });
+
+  it('无订阅设置时保留订阅源标题', () => {
+    const entry = toUserEntry({
+      id: 'e1',
+      feed: { id: 'f1', title: '原标题', subscriptions: [] },
+    });
+    expect(entry.feed).toEqual({ id: 'f1', title: '原标题', categoryId: null });
+    expect(entry.isRead).toBe(false);
+  });
+});
+
+describe('entryTagFilter', () => {
+  it('匹配订阅源分类或当前用户添加的标签', () => {
+    expect(entryTagFilter('u1', 'rust')).toEqual({
+      OR: [{ tags: { hasSome: ['rust'] } }, { states: { some: { userId: 'u1', tags: { hasSome: ['rust'] } } } }],
+    });
+  });
+});
+
+describe('mergeEntryTags', () => {
+  it('订阅源分类在前，用户标签在后并去重', () => {
+    expect(mergeEntryTags(['news', 'rust'], [{ tags: ['rust', 'later'] }])).toEqual(['news', 'rust', 'later']);
+    expect(mergeEntryTags(['news'], [])).toEqual(['news']);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * 订阅源内容提取规则测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { load } from 'cheerio';
+import {
+  DEFAULT_EXTRACTION_RULES,
+  credentialHosts,
+  extractionRequestHeaders,
+  extractionRulesSchema,
+  parseHeaderLines,
+  removeMatchedElements,
+  selectContent,
+  toExtractionRules,
+} from '@/lib/rss/extraction-rules';
+
+const page = `
+  <html><body>
+    <header class="site-header">Blog</header>
+    <div class="post">
+      <h1>Title</h1>
+      <div class="post-body"><p>First part</p><div class="ad-banner">Buy now</div></div>
+      <div class="post-body"><p>Second part</p><script>track()</script></div>
+    </div>
+  </body></html>`;
+
+describe('parseHeaderLines', () => {
+  it('按行解析请求头，拒绝 Cookie / Host 等保留请求头', () => {
+    expect(parseHeaderLines('Referer: https://example.com/a:b\n\n# 注释\nX-Token:abc\nCookie: a=1\nbad line')).toEqual({
+      headers: { Referer: 'https://example.com/a:b', 'X-Token': 'abc' },
+      invalid: ['Cookie: a=1', 'bad line'],
+    });
+  });
+});
+
+describe('extractionRulesSchema', () => {
+  it('拒绝换行的请求头值和以 < 开头的选择器', () => {
+    const rules = { ...DEFAULT_EXTRACTION_RULES, headers: { Referer: 'a\r\nX-Evil: 1' } };
+    expect(extractionRulesSchema.safeParse(rules).success).toBe(false);
+    expect(
+      extractionRulesSchema.safeParse({ ...DEFAULT_EXTRACTION_RULES, contentSelectors: ['<div>'] }).success
+    ).toBe(false);
+  });
+
+  it('读取存储的规则，无记录或无效时使用默认规则，Cookie 合并到请求头', () => {
+    expect(toExtractionRules(null)).toEqual(DEFAULT_EXTRACTION_RULES);
+    expect(
+      toExtractionRules({ fullTextMode: 'sometimes', contentSelectors: [], removeSelectors: [], headers: {}, cookie: null })
+    ).toEqual(DEFAULT_EXTRACTION_RULES);
+
+    const rules = toExtractionRules({
+      fullTextMode: 'always',
+      contentSelectors: ['.post-body'],
+      removeSelectors: [],
+      headers: { Referer: 'https://example.com/' },
+      cookie: 'session=1',
+    });
+    const hosts = credentialHosts('https://www.example.com/rss');
+    expect(extractionRequestHeaders(rules, 'https://blog.example.com/post/1', hosts)).toEqual({
+      Referer: 'https://example.com/',
+      Cookie: 'session=1',
+    });
+  });
+
+  it('请求头和 Cookie 只发送到订阅源地址所在的网站', () => {
+    const rules = { ...DEFAULT_EXTRACTION_RULES, headers: { 'X-Token': 'abc' }, cookie: 'session=1' };
+    const hosts = credentialHosts('https://example.com/feed.xml');
+    expect(hosts).toEqual(['example.com']);
+    expect(credentialHosts(null)).toEqual([]);
+    expect(extractionRequestHeaders(rules, 'https://attacker.test/collect', hosts)).toEqual({});
+    expect(extractionRequestHeaders(rules, 'https://notexample.com/', hosts)).toEqual({});
+    expect(extractionRequestHeaders(rules, 'https://example.com.attacker.test/', hosts)).toEqual({});
+    expect(extractionRequestHeaders(rules, 'https://www.example.com/a', hosts)).toHaveProperty('Cookie', 'session=1');
+  });
+});
+
+describe('selectContent', () => {
+  it('使用第一个匹配到文本的选择器，拼接多个匹配并去掉脚本', () => {
+    const $ = load(page);
+    removeMatchedElements($, ['.ad-banner', ':not(']);
+    const html = selectContent($, ['.missing', '.post-body']);
+    expect(html).toContain('First part');
+    expect(html).toContain('Second part');
+    expect(html).not.toContain('Buy now');
+    expect(html).not.toContain('track()');
+  });
+
+  it('嵌套匹配只保留外层，没有匹配时返回 null', () => {
+    const $ = load(page);
+    const html = selectContent($, ['div']);
+    expect(html?.match(/First part/g)).toHaveLength(1);
+    expect(selectContent(load(page), ['.missing'])).toBeNull();
+  });
+});
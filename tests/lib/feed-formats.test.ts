@@ -0,0 +1,129 @@
+/**
+ * 订阅源格式识别与解析测试
+ * 样例位于 tests/fixtures/feeds，条目正文足够长，不会触发全文抓取
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { detectFeedFormat, normalizeRdfRoot, parseJsonFeed } from '@/lib/rss/formats';
+import { rssParser } from '@/lib/rss/parser';
+
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, '../fixtures/feeds', name), 'utf-8');
+}
+
+describe('detectFeedFormat', () => {
+  it('按内容识别各格式，跳过 XML 声明、处理指令和注释', () => {
+    expect(detectFeedFormat(fixture('rss2.xml'))).toBe('rss');
+    expect(detectFeedFormat(fixture('atom.xml'))).toBe('atom');
+    expect(detectFeedFormat(fixture('rss1.rdf'))).toBe('rdf');
+    expect(detectFeedFormat(fixture('json-feed-1.0.json'))).toBe('json');
+    expect(detectFeedFormat('\uFEFF  ' + fixture('json-feed-1.1.json'))).toBe('json');
+  });
+
+  it('内容优先于 Content-Type，无法识别时参考 Content-Type', () => {
+    expect(detectFeedFormat(fixture('json-feed-1.1.json'), 'text/xml; charset=utf-8')).toBe('json');
+    expect(detectFeedFormat('<RDF:RDF></RDF:RDF>', 'application/json')).toBe('rdf');
+    expect(detectFeedFormat('<html></html>', 'application/feed+json')).toBe('json');
+    expect(detectFeedFormat('<html></html>', 'text/html')).toBeNull();
+  });
+});
+
+describe('normalizeRdfRoot', () => {
+  it('统一为 rdf:RDF 根元素', () => {
+    expect(normalizeRdfRoot('<?xml version="1.0"?><RDF xmlns="x"><channel /></RDF>')).toBe(
+      '<?xml version="1.0"?><rdf:RDF xmlns="x"><channel /></rdf:RDF>'
+    );
+    expect(normalizeRdfRoot('<r:RDF xmlns:r="x"></r:RDF>')).toBe('<rdf:RDF xmlns:r="x"></rdf:RDF>');
+    const standard = fixture('rss1.rdf');
+    expect(normalizeRdfRoot(standard)).toBe(standard);
+  });
+});
+
+describe('parseJsonFeed', () => {
+  it('JSON Feed 1.1：authors、tags、hubs 和音频附件', () => {
+    const feed = parseJsonFeed(fixture('json-feed-1.1.json'));
+    expect(feed).toMatchObject({
+      title: 'Night Shift Radio',
+      link: 'https://radio.example.org/',
+      feedUrl: 'https://radio.example.org/feed.json',
+      language: 'en-US',
+      icon: 'https://radio.example.org/artwork.png',
+      links: [{ $: { rel: 'hub', href: 'https://hub.example.org/' } }],
+    });
+    expect(feed.items[0]).toMatchObject({
+      guid: '42',
+      author: 'Dana Whitfield, Sam Okafor',
+      categories: ['on-call', 'sre'],
+      isoDate: '2026-02-04T02:00:00.000Z',
+      updated: '2026-02-04T14:30:00.000Z',
+      enclosure: { url: 'https://cdn.example.org/nsr-042.mp3', type: 'audio/mpeg', length: 48213504 },
+      itunes: { duration: 3012 },
+    });
+  });
+
+  it('content_text 转为转义后的段落，没有标题时使用正文开头，作者继承订阅源', () => {
+    const item = parseJsonFeed(fixture('json-feed-1.1.json')).items[1];
+    expect(item.title).toMatch(/^Quick note: the recording of episode 42 ran long.*…$/);
+    expect(item.author).toBe('Night Shift Radio');
+    expect(item.content).toContain('</p>\n<p>We will pick');
+    expect(item.content).toContain('make the cut.<br>Keep them coming &amp; stay rested.</p>');
+  });
+
+  it('JSON Feed 1.0：author 对象、external_url 和 PubSubHubbub hub', () => {
+    const feed = parseJsonFeed(fixture('json-feed-1.0.json'));
+    expect(feed.links).toEqual([{ $: { rel: 'hub', href: 'https://pubsubhubbub.example.net/' } }]);
+    expect(feed.items[0]).toMatchObject({
+      link: 'https://keyboards.example.com/review/split-ortho',
+      author: 'Robin Hale',
+      enclosure: { url: 'https://journal.example.net/img/keyboard.jpg', type: 'image/jpeg' },
+    });
+  });
+
+  it('拒绝未知版本和缺少 items 的内容', () => {
+    expect(() => parseJsonFeed('{"version":"https://jsonfeed.org/version/2","items":[]}')).toThrow('不支持的 JSON Feed 版本');
+    expect(() => parseJsonFeed('{"title":"x"}')).toThrow('缺少 items');
+    expect(() => parseJsonFeed('{')).toThrow('不是有效的 JSON');
+  });
+});
+
+describe('parseFeedString', () => {
+  it('RDF：rdf:about 作为 GUID，Dublin Core 提供语言、日期和作者', async () => {
+    const feed = await rssParser.parseFeedString(fixture('rss1.rdf'));
+    expect(feed.title).toBe('研究室だより');
+    expect(feed.language).toBe('ja');
+    expect(feed.lastBuildDate).toEqual(new Date('2026-03-02T01:00:00Z'));
+    expect(feed.items).toHaveLength(2);
+    expect(feed.items[0]).toMatchObject({
+      guid: 'https://lab.example.jp/posts/seminar-march',
+      link: 'https://lab.example.jp/posts/seminar-march',
+      author: '佐藤 花子',
+      categories: ['輪講'],
+      pubDate: new Date('2026-03-02T00:30:00Z'),
+    });
+  });
+
+  it('JSON Feed：映射到 ParsedEntry，附件带时长', async () => {
+    const feed = await rssParser.parseFeedString(fixture('json-feed-1.1.json'), 'application/feed+json');
+    expect(feed).toMatchObject({
+      title: 'Night Shift Radio',
+      hubUrl: 'https://hub.example.org/',
+      selfUrl: 'https://radio.example.org/feed.json',
+    });
+    expect(feed.items[0]).toMatchObject({
+      guid: '42',
+      image: 'https://radio.example.org/episodes/42/cover.jpg',
+      updatedDate: new Date('2026-02-04T14:30:00Z'),
+      enclosure: { url: 'https://cdn.example.org/nsr-042.mp3', length: 48213504, duration: 3012 },
+    });
+    expect(feed.items[0].content).toContain('follow-the-sun coverage');
+  });
+
+  it('RSS 2.0 与 Atom 仍由 rss-parser 解析', async () => {
+    const rss = await rssParser.parseFeedString(fixture('rss2.xml'));
+    expect(rss.items[0]).toMatchObject({ guid: 'release-4.2', link: 'https://releases.example.com/4.2' });
+    const atom = await rssParser.parseFeedString(fixture('atom.xml'));
+    expect(atom.items[0]).toMatchObject({ guid: 'tag:notes.example.org,2026:birds', author: 'Ines Moreau' });
+  });
+});
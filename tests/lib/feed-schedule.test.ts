@@ -0,0 +1,121 @@
+/**
+ * 自适应抓取调度测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  applySkipRules,
+  estimatePublishInterval,
+  MAX_FETCH_INTERVAL,
+  MIN_FETCH_INTERVAL,
+  parseRetryAfter,
+  parseUpdatePeriod,
+  predictNextFetch,
+} from '@/lib/rss/schedule';
+
+const HOUR = 3600;
+const now = new Date('2024-06-05T12:00:00Z'); // 周三
+
+/** 从 now 往前，每隔 hours 小时一篇 */
+function postsEvery(hours: number, count: number, offsetHours = 0): Date[] {
+  return Array.from({ length: count }, (_, i) =>
+    new Date(now.getTime() - (offsetHours + i * hours) * HOUR * 1000)
+  );
+}
+
+const base = { now, fetchInterval: HOUR, priority: 5, errorCount: 0 };
+
+describe('estimatePublishInterval', () => {
+  it('发布记录不足时返回 null', () => {
+    expect(estimatePublishInterval(postsEvery(2, 2))).toBeNull();
+  });
+
+  it('取相邻间隔的中位数', () => {
+    const dates = [...postsEvery(4, 5), new Date(now.getTime() - 100 * HOUR * 1000)];
+    expect(estimatePublishInterval(dates)).toBe(4 * HOUR);
+  });
+});
+
+describe('parseUpdatePeriod', () => {
+  it('按频率换算周期', () => {
+    expect(parseUpdatePeriod('daily', '2')).toBe(12 * HOUR);
+    expect(parseUpdatePeriod('hourly')).toBe(HOUR);
+    expect(parseUpdatePeriod('sometimes')).toBeUndefined();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('支持秒数和 HTTP 日期', () => {
+    expect(parseRetryAfter('120', now)).toEqual(new Date(now.getTime() + 120000));
+    expect(parseRetryAfter('Wed, 05 Jun 2024 15:00:00 GMT', now)).toEqual(new Date('2024-06-05T15:00:00Z'));
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+});
+
+describe('applySkipRules', () => {
+  it('顺延到未跳过的整点', () => {
+    const date = new Date('2024-06-05T01:30:00Z');
+    expect(applySkipRules(date, [1, 2, 3])).toEqual(new Date('2024-06-05T04:00:00Z'));
+  });
+
+  it('跳过整天', () => {
+    const date = new Date('2024-06-08T10:00:00Z'); // 周六
+    expect(applySkipRules(date, [], ['Saturday', 'Sunday'])).toEqual(new Date('2024-06-10T00:00:00Z'));
+  });
+
+  it('全部跳过时保留原时间', () => {
+    const date = new Date('2024-06-05T01:30:00Z');
+    expect(applySkipRules(date, Array.from({ length: 24 }, (_, h) => h))).toEqual(date);
+  });
+});
+
+describe('predictNextFetch', () => {
+  it('无发布记录时使用设置间隔', () => {
+    const result = predictNextFetch({ ...base, publishedAt: [] });
+    expect(result.interval).toBe(HOUR);
+    expect(result.reason).toContain('发布记录不足');
+  });
+
+  it('按发布节奏每周期抓取两次', () => {
+    const result = predictNextFetch({ ...base, publishedAt: postsEvery(6, 10) });
+    expect(result.interval).toBe(3 * HOUR);
+    expect(result.reason).toContain('6 小时');
+  });
+
+  it('长期未更新时降低频率', () => {
+    const result = predictNextFetch({ ...base, publishedAt: postsEvery(1, 10, 100) });
+    expect(result.interval).toBe(10 * HOUR);
+    expect(result.reason).toContain('未更新');
+  });
+
+  it('遵循 ttl 下限并限制在允许范围内', () => {
+    expect(predictNextFetch({ ...base, publishedAt: postsEvery(0.1, 10), ttl: 120 }).interval).toBe(2 * HOUR);
+    expect(predictNextFetch({ ...base, publishedAt: postsEvery(0.1, 10) }).interval).toBe(MIN_FETCH_INTERVAL);
+    expect(predictNextFetch({ ...base, publishedAt: [], fetchInterval: 10 * 86400 }).interval).toBe(MAX_FETCH_INTERVAL);
+  });
+
+  it('连续失败时指数退避', () => {
+    const result = predictNextFetch({ ...base, publishedAt: [], errorCount: 3 });
+    expect(result.interval).toBe(8 * HOUR);
+    expect(result.reason).toContain('连续失败 3 次');
+  });
+
+  it('Retry-After 晚于预测时间时以其为准', () => {
+    const retryAfter = new Date(now.getTime() + 5 * HOUR * 1000);
+    const result = predictNextFetch({ ...base, publishedAt: [], errorCount: 1, retryAfter });
+    expect(result.nextFetchAt).toEqual(retryAfter);
+    expect(result.reason).toContain('Retry-After');
+  });
+
+  it('WebSub 推送生效时低频兜底轮询', () => {
+    const result = predictNextFetch({ ...base, publishedAt: postsEvery(1, 10), pushActive: true });
+    expect(result.interval).toBe(MAX_FETCH_INTERVAL);
+    expect(result.reason).toContain('WebSub');
+  });
+
+  it('避开 skipHours', () => {
+    const result = predictNextFetch({ ...base, publishedAt: [], skipHours: [13, 14] });
+    expect(result.nextFetchAt).toEqual(new Date('2024-06-05T15:00:00Z'));
+    expect(result.reason).toContain('skipHours');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * 对外订阅源渲染测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { renderOutboundFeed, type OutboundChannel, type OutboundItem } from '@/lib/outbound/render';
+
+const channel: OutboundChannel = {
+  title: 'AI & 安全',
+  description: '星标文章',
+  siteUrl: 'https://reader.example.com',
+  feedUrl: 'https://reader.example.com/api/outbound/token?format=rss',
+  updatedAt: new Date('2026-03-02T08:00:00Z'),
+};
+
+const item: OutboundItem = {
+  id: '3f2c8a6e-1b4d-4c9a-9e7f-0a1b2c3d4e5f',
+  title: 'Prompt <injection> & you',
+  url: 'https://blog.example.com/post?a=1&b=2',
+  author: 'Alice',
+  description: '摘要\u0001内容',
+  publishedAt: new Date('2026-03-01T12:00:00Z'),
+  updatedAt: new Date('2026-03-02T08:00:00Z'),
+  tags: ['security'],
+};
+
+describe('renderOutboundFeed', () => {
+  it('RSS 转义特殊字符并去除控制字符', () => {
+    const xml = renderOutboundFeed('rss', channel, [item]);
+
+    expect(xml).toContain('<title>AI &amp; 安全</title>');
+    expect(xml).toContain('<title>Prompt &lt;injection&gt; &amp; you</title>');
+    expect(xml).toContain('<link>https://blog.example.com/post?a=1&amp;b=2</link>');
+    expect(xml).toContain('<description>摘要内容</description>');
+    expect(xml).toContain('<pubDate>Sun, 01 Mar 2026 12:00:00 GMT</pubDate>');
+    expect(xml).toContain('<category>security</category>');
+  });
+
+  it('Atom 使用 ISO 时间和 urn:uuid 标识', () => {
+    const xml = renderOutboundFeed('atom', channel, [item]);
+
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(xml).toContain(`<id>urn:uuid:${item.id}</id>`);
+    expect(xml).toContain('<published>2026-03-01T12:00:00.000Z</published>');
+    expect(xml).toContain('<category term="security"/>');
+  });
+
+  it('JSON Feed 1.1 总有正文字段', () => {
+    const feed = JSON.parse(renderOutboundFeed('json', channel, [{ ...item, description: null, author: null }]));
+
+    expect(feed.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(feed.items[0]).toEqual({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      content_text: item.title,
+      date_published: '2026-03-01T12:00:00.000Z',
+      date_modified: '2026-03-02T08:00:00.000Z',
+      tags: ['security'],
+    });
+  });
+});
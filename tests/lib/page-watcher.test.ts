@@ -0,0 +1,143 @@
+/**
+ * 网页监控测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  extractPageFeed,
+  parsePageDate,
+  suggestPageSelectors,
+  toPageSelectors,
+} from '@/lib/rss/page-watcher';
+
+const pageUrl = 'https://vendor.example.com/security/advisories?page=1';
+
+const advisories = `
+  <html>
+    <head>
+      <title>Security Advisories | Vendor</title>
+      <meta name="description" content="Security fixes for Vendor products">
+    </head>
+    <body>
+      <header><nav><ul class="menu">
+        <li><a href="/products">Products and services</a></li>
+        <li><a href="/pricing">Pricing and plans</a></li>
+        <li><a href="/security">Security center</a></li>
+      </ul></nav></header>
+      <main>
+        <div id="advisories">
+          <article class="advisory critical">
+            <h3><a href="/security/VSA-2026-004">VSA-2026-004: Remote code execution in gateway</a></h3>
+            <span class="published-date">March 4, 2026</span>
+            <p class="advisory-summary">Upgrade the gateway to 8.4.2.</p>
+          </article>
+          <article class="advisory">
+            <h3><a href="VSA-2026-003">VSA-2026-003: Session fixation in portal</a></h3>
+            <span class="published-date">2026年2月18日</span>
+            <p class="advisory-summary">Rotate session secrets after upgrading.</p>
+          </article>
+          <article class="advisory">
+            <h3><a href="https://vendor.example.com/security/VSA-2026-002">VSA-2026-002: Open redirect in login</a></h3>
+            <span class="published-date">2 Feb 2026</span>
+            <p class="advisory-summary">Low severity.</p>
+          </article>
+          <article class="advisory">
+            <h3><a href="/security/VSA-2026-002">VSA-2026-002: Open redirect in login</a></h3>
+            <span class="published-date">2 Feb 2026</span>
+          </article>
+        </div>
+      </main>
+      <footer><ul>
+        <li><a href="/privacy">Privacy statement</a></li>
+        <li><a href="/terms">Terms of service</a></li>
+        <li><a href="/contact">Contact the team</a></li>
+      </ul></footer>
+    </body>
+  </html>`;
+
+const changelog = `
+  <html><head><title>Changelog</title></head><body>
+    <section class="release" id="v2-1"><h2>2.1.0</h2><time datetime="2026-03-01T08:00:00+08:00">Mar 1</time><p>New exporter.</p></section>
+    <section class="release"><h2>2.0.0</h2><p>Released 2026-01-15. Breaking changes.</p></section>
+  </body></html>`;
+
+describe('extractPageFeed', () => {
+  it('按选择器提取条目，解析相对链接并按链接去重', () => {
+    const feed = extractPageFeed(advisories, pageUrl, {
+      item: 'article.advisory',
+      date: '.published-date',
+      summary: '.advisory-summary',
+    });
+
+    expect(feed).toMatchObject({
+      title: 'Security Advisories | Vendor',
+      description: 'Security fixes for Vendor products',
+      link: pageUrl,
+    });
+    expect(feed.items).toHaveLength(3);
+    expect(feed.items[0]).toEqual({
+      title: 'VSA-2026-004: Remote code execution in gateway',
+      link: 'https://vendor.example.com/security/VSA-2026-004',
+      guid: 'https://vendor.example.com/security/VSA-2026-004',
+      content: '<p class="advisory-summary">Upgrade the gateway to 8.4.2.</p>',
+      pubDate: '2026-03-04T00:00:00.000Z',
+      isoDate: '2026-03-04T00:00:00.000Z',
+    });
+    expect(feed.items[1]).toMatchObject({
+      link: 'https://vendor.example.com/security/VSA-2026-003',
+      pubDate: '2026-02-18T00:00:00.000Z',
+    });
+  });
+
+  it('没有链接的条目以页面锚点作为 GUID、条目本身作为正文，默认读取 <time>', () => {
+    const feed = extractPageFeed(changelog, 'https://tool.example.org/changelog', { item: 'section.release' });
+
+    expect(feed.items[0]).toMatchObject({
+      title: '2.1.0',
+      guid: 'https://tool.example.org/changelog#v2-1',
+      pubDate: '2026-03-01T00:00:00.000Z',
+    });
+    expect(feed.items[0].link).toBeUndefined();
+    expect(feed.items[0].content).toContain('New exporter.');
+    expect(feed.items[1].guid).toBe('https://tool.example.org/changelog#2.0.0');
+  });
+
+  it('条目选择器无效时报错', () => {
+    expect(() => extractPageFeed(changelog, pageUrl, { item: 'section[' })).toThrow('无效的条目选择器');
+  });
+});
+
+describe('suggestPageSelectors', () => {
+  it('识别重复的条目结构，跳过导航和页脚，推荐标题、链接、日期和摘要选择器', () => {
+    const [best, ...rest] = suggestPageSelectors(advisories, pageUrl);
+
+    expect(best.selectors).toEqual({
+      item: 'article.advisory',
+      title: 'h3',
+      link: 'h3 a',
+      date: '.published-date',
+      summary: '.advisory-summary',
+    });
+    expect(best.itemCount).toBe(3);
+    expect(best.sample[2].pubDate).toBe('2026-02-02T00:00:00.000Z');
+    expect(rest.map((suggestion) => suggestion.selectors.item)).not.toContain('li');
+  });
+});
+
+describe('parsePageDate', () => {
+  it('识别常见日期格式，拒绝无效日期', () => {
+    expect(parsePageDate('Posted 2026-03-01 14:30 by admin')).toBe('2026-03-01T14:30:00.000Z');
+    expect(parsePageDate('2026/3/9')).toBe('2026-03-09T00:00:00.000Z');
+    expect(parsePageDate('Updated on Sept. 21st, 2025')).toBe('2025-09-21T00:00:00.000Z');
+    expect(parsePageDate('2026年2月31日')).toBeUndefined();
+    expect(parsePageDate('yesterday')).toBeUndefined();
+  });
+});
+
+describe('toPageSelectors', () => {
+  it('读取存储的选择器，缺少条目选择器时返回 null', () => {
+    expect(toPageSelectors({ item: 'li.post', date: 'time' })).toEqual({ item: 'li.post', date: 'time' });
+    expect(toPageSelectors({ title: 'h2' })).toBeNull();
+    expect(toPageSelectors(null)).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * 其他阅读器导出文件解析测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  detectReaderImportSource,
+  parseCsv,
+  parseFeedlyJson,
+  parseGoogleReaderJson,
+  parseMinifluxJson,
+  parsePocketCsv,
+  parsePocketHtml,
+} from '@/lib/reader-import/parsers';
+
+const googleReader = JSON.stringify({
+  id: 'user/1005921515/state/com.google/starred',
+  items: [
+    {
+      title: 'Rust 1.80 发布',
+      published: 1721800000,
+      crawlTimeMsec: '1721900000000',
+      canonical: [{ href: 'https://blog.rust-lang.org/1.80' }],
+      summary: { content: '<p>摘要</p>' },
+      author: 'Rust Team',
+      categories: ['user/-/state/com.google/read', 'user/1005921515/label/编程', 'user/-/state/com.google/reading-list'],
+      origin: { streamId: 'feed/https://blog.rust-lang.org/feed.xml', title: 'Rust Blog', htmlUrl: 'https://blog.rust-lang.org/' },
+    },
+  ],
+});
+
+const feedly = JSON.stringify([
+  {
+    title: 'Saved article',
+    published: 1721800000000,
+    alternate: [{ href: 'https://example.com/a', type: 'text/html' }],
+    origin: { streamId: 'feed/https://example.com/rss', title: 'Example' },
+    unread: true,
+    tags: [
+      { id: 'user/abc/tag/global.saved', label: 'Saved For Later' },
+      { id: 'user/abc/tag/Design', label: 'Design' },
+    ],
+  },
+]);
+
+describe('detectReaderImportSource', () => {
+  it('根据内容识别格式', () => {
+    expect(detectReaderImportSource(googleReader)).toBe('google-reader');
+    expect(detectReaderImportSource(feedly)).toBe('feedly');
+    expect(detectReaderImportSource('{"total":0,"entries":[]}')).toBe('miniflux');
+    expect(detectReaderImportSource('<!DOCTYPE html><h1>Unread</h1><ul></ul>')).toBe('pocket-html');
+    expect(detectReaderImportSource('title,url,time_added,tags,status\n')).toBe('pocket-csv');
+    expect(detectReaderImportSource('hello')).toBeNull();
+  });
+});
+
+describe('parseGoogleReaderJson', () => {
+  it('星标导出中的文章均为星标，从 categories 读取已读和标签', () => {
+    const [item] = parseGoogleReaderJson(googleReader);
+
+    expect(item).toMatchObject({
+      url: 'https://blog.rust-lang.org/1.80',
+      content: '<p>摘要</p>',
+      feed: { url: 'https://blog.rust-lang.org/feed.xml', title: 'Rust Blog' },
+      isRead: true,
+      isStarred: true,
+      tags: ['编程'],
+    });
+    expect(item.publishedAt).toEqual(new Date(1721800000 * 1000));
+    expect(item.starredAt).toEqual(new Date(1721900000000));
+  });
+});
+
+describe('parseFeedlyJson', () => {
+  it('稍后阅读均为星标，忽略系统标签', () => {
+    const [item] = parseFeedlyJson(feedly);
+
+    expect(item).toMatchObject({ url: 'https://example.com/a', isRead: false, isStarred: true, tags: ['Design'] });
+    expect(item.publishedAt).toEqual(new Date(1721800000000));
+  });
+});
+
+describe('Pocket', () => {
+  it('HTML 导出按分组区分已读，解码标题和链接中的实体', () => {
+    const items = parsePocketHtml(`<!DOCTYPE html>
+<html><body>
+<h1>Unread</h1>
+<ul><li><a href="https://a.com/?x=1&amp;y=2" time_added="1700000000" tags="rust,web">A &amp; B</a></li></ul>
+<h1>Read Archive</h1>
+<ul><li><a href="https://b.com/" time_added="1600000000" tags="">B</a></li></ul>
+</body></html>`);
+
+    expect(items).toEqual([
+      { url: 'https://a.com/?x=1&y=2', title: 'A & B', isRead: false, isStarred: true, starredAt: new Date(1700000000000), tags: ['rust', 'web'] },
+      { url: 'https://b.com/', title: 'B', isRead: true, isStarred: true, starredAt: new Date(1600000000000), tags: [] },
+    ]);
+  });
+
+  it('CSV 导出支持引号字段和 | 分隔的标签', () => {
+    const items = parsePocketCsv('title,url,time_added,tags,status\n"Hello, ""World""",https://c.com/,1700000000,a|b,archive\n');
+
+    expect(items).toEqual([
+      { url: 'https://c.com/', title: 'Hello, "World"', isRead: true, isStarred: true, starredAt: new Date(1700000000000), tags: ['a', 'b'] },
+    ]);
+  });
+
+  it('parseCsv 处理引号内换行和 CRLF', () => {
+    expect(parseCsv('a,"b\nc"\r\n1,2')).toEqual([
+      ['a', 'b\nc'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('parseMinifluxJson', () => {
+  it('读取状态、星标、标签和订阅源，跳过已删除的文章', () => {
+    const items = parseMinifluxJson(
+      JSON.stringify({
+        total: 2,
+        entries: [
+          {
+            url: 'https://d.com/1',
+            title: 'D',
+            status: 'read',
+            starred: true,
+            tags: ['go'],
+            published_at: '2026-01-01T08:00:00Z',
+            feed: { feed_url: 'https://d.com/feed', title: 'D Blog', site_url: 'https://d.com' },
+          },
+          { url: 'https://d.com/2', title: 'Removed', status: 'removed', starred: false },
+        ],
+      })
+    );
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      isRead: true,
+      isStarred: true,
+      tags: ['go'],
+      feed: { url: 'https://d.com/feed', title: 'D Blog', siteUrl: 'https://d.com' },
+      publishedAt: new Date('2026-01-01T08:00:00Z'),
+    });
+  });
+  it('类型不符的字段视为缺失，不是对象的条目跳过', () => {
+    const items = parseMinifluxJson(
+      JSON.stringify({ entries: [{ url: 'https://e.com/1', title: 42, starred: 'yes', tags: 'go', feed: 'x' }, 'bad'] })
+    );
+
+    expect(items).toEqual([
+      {
+        url: 'https://e.com/1',
+        title: 'https://e.com/1',
+        content: undefined,
+        author: undefined,
+        publishedAt: undefined,
+        feed: undefined,
+        isRead: false,
+        isStarred: false,
+        starredAt: undefined,
+        tags: [],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * 报告定时任务时间计算测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatReportPeriod,
+  nextRunAfter,
+  occurrenceAt,
+  resolveReportPeriod,
+} from '@/lib/reports/schedule';
+
+describe('occurrenceAt', () => {
+  it('跨夏令时保持本地执行时间', () => {
+    // 纽约 2024-03-10 切换夏令时：08:00 EST = 13:00Z，08:00 EDT = 12:00Z
+    const first = new Date('2024-03-09T13:00:00Z');
+    expect(occurrenceAt(first, 'daily', 'America/New_York', 1)).toEqual(new Date('2024-03-10T12:00:00Z'));
+  });
+
+  it('按月重复时超出月末取月末', () => {
+    const first = new Date('2024-01-31T01:00:00Z'); // 上海 09:00
+    expect(occurrenceAt(first, 'monthly', 'Asia/Shanghai', 1)).toEqual(new Date('2024-02-29T01:00:00Z'));
+    expect(occurrenceAt(first, 'monthly', 'Asia/Shanghai', 2)).toEqual(new Date('2024-03-31T01:00:00Z'));
+  });
+});
+
+describe('nextRunAfter', () => {
+  const first = new Date('2024-06-03T01:00:00Z'); // 周一，上海 09:00
+
+  it('首次执行时间未到时返回首次执行时间', () => {
+    expect(nextRunAfter(first, 'once', 'Asia/Shanghai', new Date('2024-06-01T00:00:00Z'))).toEqual(first);
+    expect(nextRunAfter(first, 'weekly', 'Asia/Shanghai', new Date('2024-06-01T00:00:00Z'))).toEqual(first);
+  });
+
+  it('一次性任务执行后不再调度', () => {
+    expect(nextRunAfter(first, 'once', 'Asia/Shanghai', first)).toBeNull();
+  });
+
+  it('停机后跳过错过的执行，只返回下一个未来时间', () => {
+    const now = new Date('2024-07-10T05:00:00Z');
+    expect(nextRunAfter(first, 'daily', 'Asia/Shanghai', now)).toEqual(new Date('2024-07-11T01:00:00Z'));
+    expect(nextRunAfter(first, 'weekly', 'Asia/Shanghai', now)).toEqual(new Date('2024-07-15T01:00:00Z'));
+    expect(nextRunAfter(first, 'monthly', 'Asia/Shanghai', now)).toEqual(new Date('2024-08-03T01:00:00Z'));
+  });
+
+  it('恰好在执行时间时返回下一次', () => {
+    expect(nextRunAfter(first, 'daily', 'Asia/Shanghai', first)).toEqual(new Date('2024-06-04T01:00:00Z'));
+  });
+});
+
+describe('resolveReportPeriod', () => {
+  // 上海 2024-06-05（周三）09:00
+  const runAt = new Date('2024-06-05T01:00:00Z');
+  const tz = 'Asia/Shanghai';
+
+  it('昨天', () => {
+    const period = resolveReportPeriod('yesterday', null, runAt, tz);
+    expect(period.reportType).toBe('daily');
+    expect(period.reportDate).toEqual(new Date('2024-06-04T00:00:00Z'));
+    expect(period.startDate).toEqual(new Date('2024-06-03T16:00:00Z'));
+    expect(period.endDate).toEqual(new Date('2024-06-04T15:59:59.999Z'));
+  });
+
+  it('上周从周一开始', () => {
+    const period = resolveReportPeriod('lastWeek', null, runAt, tz);
+    expect(period.reportType).toBe('weekly');
+    expect(formatReportPeriod(period, tz)).toBe('2024-05-27 ~ 2024-06-02');
+  });
+
+  it('上月和自定义天数', () => {
+    expect(formatReportPeriod(resolveReportPeriod('lastMonth', null, runAt, tz), tz)).toBe('2024-05-01 ~ 2024-05-31');
+
+    const custom = resolveReportPeriod('custom', 3, runAt, tz);
+    expect(custom.reportType).toBe('custom');
+    expect(formatReportPeriod(custom, tz)).toBe('2024-06-02 ~ 2024-06-04');
+  });
+
+  it('按任务时区确定执行日', () => {
+    // UTC 6 月 4 日 20:00 在上海已是 6 月 5 日
+    const period = resolveReportPeriod('yesterday', null, new Date('2024-06-04T20:00:00Z'), tz);
+    expect(formatReportPeriod(period, tz)).toBe('2024-06-04');
+  });
+});
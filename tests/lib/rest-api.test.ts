@@ -0,0 +1,44 @@
+/**
+ * REST API 路径匹配与游标分页测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { matchPath, RestApiError } from '@/lib/rest-api/endpoint';
+import { cursorArgs, decodeCursor, encodeCursor, toPage } from '@/lib/rest-api/pagination';
+
+const ID = '3f2c8a6e-1b4d-4c9a-9e7f-0a1b2c3d4e5f';
+
+describe('matchPath', () => {
+  it('提取路径参数', () => {
+    expect(matchPath('/feeds/{id}', `/feeds/${ID}`)).toEqual({ id: ID });
+    expect(matchPath('/entries/mark', '/entries/mark/')).toEqual({});
+  });
+
+  it('段数或静态段不同时不匹配', () => {
+    expect(matchPath('/feeds/{id}', '/feeds')).toBeNull();
+    expect(matchPath('/feeds/{id}', `/feeds/${ID}/refresh`)).toBeNull();
+    expect(matchPath('/entries/mark', '/entries/read')).toBeNull();
+  });
+});
+
+describe('游标分页', () => {
+  it('游标可往返解析', () => {
+    expect(decodeCursor(encodeCursor(ID))).toBe(ID);
+    expect(cursorArgs({ limit: 20, cursor: encodeCursor(ID) })).toEqual({
+      take: 21,
+      cursor: { id: ID },
+      skip: 1,
+    });
+  });
+
+  it('无效游标抛出 400', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(RestApiError);
+  });
+
+  it('多取的一条决定是否有下一页', () => {
+    const rows = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+    expect(toPage(rows, 3)).toEqual({ data: rows, nextCursor: null });
+    expect(toPage(rows, 2)).toEqual({ data: rows.slice(0, 2), nextCursor: encodeCursor('b') });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * 订阅规则条件树测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  evaluateConditions,
+  getAnalysisFields,
+  hasAnalysisValues,
+  type RuleConditionNode,
+} from '@/lib/rules/engine';
+
+const entry = {
+  title: 'Rust 1.80 发布',
+  content: '新版本带来了 LazyCell 和 LazyLock',
+  author: 'Rust Team',
+  tags: ['rust', 'release'],
+  feed: { title: 'Rust Blog', category: { name: '编程' } },
+  aiCategory: '',
+  aiSentiment: null,
+  aiImportanceScore: 0,
+  aiAnalyzedAt: null,
+  aiPrelimValue: 4,
+  aiPrelimLanguage: 'zh',
+};
+
+describe('evaluateConditions', () => {
+  it('顶层条件按 AND 组合，条件组可多层嵌套', () => {
+    const nodes: RuleConditionNode[] = [
+      { field: 'title', operator: 'contains', value: 'rust' },
+      {
+        logic: 'or',
+        conditions: [
+          { field: 'author', operator: 'equals', value: 'Go Team' },
+          {
+            logic: 'and',
+            conditions: [
+              { field: 'tag', operator: 'in', value: ['release'] },
+              { field: 'category', operator: 'equals', value: '编程' },
+            ],
+          },
+        ],
+      },
+    ];
+
+    expect(evaluateConditions(entry, nodes)).toBe(true);
+    expect(evaluateConditions(entry, [...nodes, { field: 'feedTitle', operator: 'equals', value: 'Go Blog' }])).toBe(
+      false
+    );
+  });
+
+  it('NOT 组在子条件全部满足时取反', () => {
+    const both: RuleConditionNode = {
+      logic: 'not',
+      conditions: [
+        { field: 'title', operator: 'contains', value: 'Rust' },
+        { field: 'content', operator: 'contains', value: 'LazyLock' },
+      ],
+    };
+    const oneOfTwo: RuleConditionNode = {
+      logic: 'not',
+      conditions: [
+        { field: 'title', operator: 'contains', value: 'Rust' },
+        { field: 'content', operator: 'contains', value: 'async' },
+      ],
+    };
+
+    expect(evaluateConditions(entry, [both])).toBe(false);
+    expect(evaluateConditions(entry, [oneOfTwo])).toBe(true);
+    expect(evaluateConditions(entry, [{ logic: 'not', conditions: [oneOfTwo] }])).toBe(false);
+  });
+
+  it('分析字段缺失时 notEquals / notContains 不匹配', () => {
+    expect(evaluateConditions(entry, [{ field: 'aiCategory', operator: 'notEquals', value: '体育' }])).toBe(false);
+    expect(evaluateConditions(entry, [{ field: 'aiSentiment', operator: 'notContains', value: 'negative' }])).toBe(
+      false
+    );
+    expect(evaluateConditions(entry, [{ field: 'aiImportanceScore', operator: 'lt', value: 0.5 }])).toBe(false);
+    expect(evaluateConditions(entry, [{ field: 'author', operator: 'notEquals', value: 'Go Team' }])).toBe(true);
+  });
+});
+
+describe('getAnalysisFields / hasAnalysisValues', () => {
+  it('收集嵌套条件中的分析字段，并判断文章是否已有值', () => {
+    const nodes: RuleConditionNode[] = [
+      { field: 'title', operator: 'contains', value: 'Rust' },
+      {
+        logic: 'not',
+        conditions: [{ field: 'aiCategory', operator: 'equals', value: '体育' }],
+      },
+      { field: 'language', operator: 'equals', value: 'zh' },
+    ];
+
+    expect(getAnalysisFields(nodes).sort()).toEqual(['aiCategory', 'language']);
+    expect(getAnalysisFields([nodes[0]])).toEqual([]);
+    expect(hasAnalysisValues(entry, ['language', 'aiPrelimValue'])).toBe(true);
+    expect(hasAnalysisValues(entry, ['language', 'aiCategory'])).toBe(false);
+    expect(hasAnalysisValues({ ...entry, aiCategory: '技术' }, ['language', 'aiCategory'])).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * 规则 Webhook 投递测试
+ * 使用本地 HTTP 服务作为接收端
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  deliverWebhook,
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '@/lib/rules/webhook';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let received: ReceivedRequest[] = [];
+// 前 N 次请求返回 500
+let failuresBeforeSuccess = 0;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      if (received.length <= failuresBeforeSuccess) {
+        res.writeHead(500);
+        res.end('error');
+        return;
+      }
+      res.writeHead(200);
+      res.end('ok');
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}/hook`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  received = [];
+  failuresBeforeSuccess = 0;
+});
+
+describe('signWebhookPayload', () => {
+  it('should be deterministic for same input', () => {
+    const a = signWebhookPayload('{"a":1}', 'secret', 1700000000);
+    const b = signWebhookPayload('{"a":1}', 'secret', 1700000000);
+
+    expect(a).toBe(b);
+    expect(a).toMatch(/^sha256=[0-9a-f]{64}$/);
+  });
+
+  it('should change with secret or timestamp', () => {
+    const base = signWebhookPayload('{}', 'secret', 1700000000);
+
+    expect(signWebhookPayload('{}', 'other', 1700000000)).not.toBe(base);
+    expect(signWebhookPayload('{}', 'secret', 1700000001)).not.toBe(base);
+  });
+});
+
+describe('deliverWebhook', () => {
+  it('should post signed JSON payload', async () => {
+    const payload = { event: 'rule.matched', entry: { id: 'e1', title: '测试文章' } };
+
+    const result = await deliverWebhook({ url: baseUrl, payload, secret: 'secret', delay: 10 });
+
+    expect(result.success).toBe(true);
+    expect(result.attempts).toBe(1);
+    expect(result.responseCode).toBe(200);
+    expect(received).toHaveLength(1);
+
+    const request = received[0];
+    expect(JSON.parse(request.body)).toEqual(payload);
+
+    const timestamp = Number(request.headers[WEBHOOK_TIMESTAMP_HEADER.toLowerCase()]);
+    expect(request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()]).toBe(
+      signWebhookPayload(request.body, 'secret', timestamp)
+    );
+  });
+
+  it('should omit signature without secret', async () => {
+    const result = await deliverWebhook({ url: baseUrl, payload: {}, delay: 10 });
+
+    expect(result.success).toBe(true);
+    expect(received[0].headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()]).toBeUndefined();
+  });
+
+  it('should retry on server errors', async () => {
+    failuresBeforeSuccess = 2;
+
+    const result = await deliverWebhook({ url: baseUrl, payload: {}, maxAttempts: 3, delay: 10 });
+
+    expect(result.success).toBe(true);
+    expect(result.attempts).toBe(3);
+    expect(received).toHaveLength(3);
+  });
+
+  it('should report failure after exhausting attempts', async () => {
+    failuresBeforeSuccess = 5;
+
+    const result = await deliverWebhook({ url: baseUrl, payload: {}, maxAttempts: 2, delay: 10 });
+
+    expect(result.success).toBe(false);
+    expect(result.attempts).toBe(2);
+    expect(result.responseCode).toBe(500);
+    expect(result.error).toBeTruthy();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * 搜索查询语法解析测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseSearchQuery,
+  segmentCJK,
+  desegmentCJK,
+  toWebSearchQuery,
+} from '@/lib/search/query-parser';
+
+describe('parseSearchQuery', () => {
+  it('应该解析普通词、短语和排除词', () => {
+    const parsed = parseSearchQuery('rust "async runtime" -crypto -"breaking news"');
+
+    expect(parsed.terms).toEqual(['rust']);
+    expect(parsed.phrases).toEqual(['async runtime']);
+    expect(parsed.excludes).toEqual(['crypto', 'breaking news']);
+    expect(parsed.fields).toEqual([]);
+  });
+
+  it('应该解析字段过滤', () => {
+    const parsed = parseSearchQuery('llm feed:hackernews -tag:ads author:"Paul Graham"');
+
+    expect(parsed.terms).toEqual(['llm']);
+    expect(parsed.fields).toEqual([
+      { field: 'feed', value: 'hackernews', negated: false },
+      { field: 'tag', value: 'ads', negated: true },
+      { field: 'author', value: 'Paul Graham', negated: false },
+    ]);
+  });
+
+  it('未知字段前缀应该作为普通词', () => {
+    const parsed = parseSearchQuery('https://example.com');
+
+    expect(parsed.terms).toEqual(['https://example.com']);
+    expect(parsed.fields).toEqual([]);
+  });
+});
+
+describe('CJK 分词', () => {
+  it('应该逐字切分 CJK 字符并保留其他词', () => {
+    expect(segmentCJK('大模型GPT发布')).toBe('大 模 型 GPT 发 布');
+  });
+
+  it('应该还原高亮片段中的分词空格', () => {
+    expect(desegmentCJK('新 的 <mark>大</mark> <mark>模</mark> <mark>型</mark> 发 布 GPT 5')).toBe(
+      '新的<mark>大模型</mark>发布 GPT 5'
+    );
+  });
+});
+
+describe('toWebSearchQuery', () => {
+  it('应该生成 websearch_to_tsquery 查询串', () => {
+    const parsed = parseSearchQuery('rust "async runtime" -crypto feed:hn');
+
+    expect(toWebSearchQuery(parsed, false)).toBe('rust "async runtime" -crypto');
+  });
+
+  it('CJK 词应该转为短语匹配', () => {
+    const parsed = parseSearchQuery('大模型 -广告');
+
+    expect(toWebSearchQuery(parsed, true)).toBe('"大 模 型" -"广 告"');
+  });
+
+  it('应该保留 or 并去掉悬空的 or', () => {
+    expect(toWebSearchQuery(parseSearchQuery('rust or go'), false)).toBe('rust or go');
+    expect(toWebSearchQuery(parseSearchQuery('or rust or'), false)).toBe('rust');
+  });
+
+  it('只有字段过滤时返回 null', () => {
+    expect(toWebSearchQuery(parseSearchQuery('tag:ai'), true)).toBeNull();
+  });
+});
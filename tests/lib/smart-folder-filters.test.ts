@@ -0,0 +1,48 @@
+/**
+ * 智能文件夹筛选条件测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  isEmptySmartFolder,
+  parseSmartFolderFilters,
+  toSearchFilters,
+} from '@/lib/search/smart-folder-filters';
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+describe('parseSmartFolderFilters', () => {
+  it('读取存储的 JSON，日期字符串转换为 Date，去掉空数组', () => {
+    expect(
+      parseSmartFolderFilters({ tags: [], isStarred: true, startDate: '2026-03-01T00:00:00.000Z' })
+    ).toEqual({ isStarred: true, startDate: new Date('2026-03-01T00:00:00Z') });
+  });
+
+  it('无效内容视为无筛选', () => {
+    expect(parseSmartFolderFilters({ minImportance: 5 })).toEqual({});
+    expect(parseSmartFolderFilters(null)).toEqual({});
+  });
+});
+
+describe('isEmptySmartFolder', () => {
+  it('关键词和筛选条件都为空时视为空文件夹', () => {
+    expect(isEmptySmartFolder('  ', { feedIds: [] })).toBe(true);
+    expect(isEmptySmartFolder('rust', {})).toBe(false);
+    expect(isEmptySmartFolder('', { isRead: false })).toBe(false);
+  });
+});
+
+describe('toSearchFilters', () => {
+  it('最近 N 天按当前时间换算为开始日期', () => {
+    expect(toSearchFilters({ withinDays: 7, minImportance: 0.6 }, now)).toEqual({
+      minImportance: 0.6,
+      startDate: new Date('2026-03-03T12:00:00Z'),
+    });
+  });
+
+  it('同时设置开始日期时取较晚者', () => {
+    const startDate = new Date('2026-03-08T00:00:00Z');
+    expect(toSearchFilters({ withinDays: 7, startDate }, now).startDate).toEqual(startDate);
+    expect(toSearchFilters({ withinDays: 1, startDate }, now).startDate).toEqual(new Date('2026-03-09T12:00:00Z'));
+  });
+});
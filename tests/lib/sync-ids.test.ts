@@ -0,0 +1,46 @@
+/**
+ * 同步 API ID 转换测试
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseContinuation, parseItemId, parseStreamId, toLongItemId } from '@/lib/sync/ids';
+
+describe('文章 ID', () => {
+  it('长格式与短格式互相转换', () => {
+    const long = toLongItemId(255);
+
+    expect(long).toBe('tag:google.com,2005:reader/item/00000000000000ff');
+    expect(parseItemId(long)).toBe(255);
+    expect(parseItemId('255')).toBe(255);
+    expect(parseItemId('00000000000000ff')).toBe(255);
+  });
+
+  it('无效 ID 返回 null', () => {
+    expect(parseItemId('abc')).toBeNull();
+    expect(parseItemId('0')).toBeNull();
+    expect(parseItemId('')).toBeNull();
+  });
+});
+
+describe('parseStreamId', () => {
+  it('解析订阅源、分类和状态流', () => {
+    expect(parseStreamId('feed/12')).toEqual({ type: 'feed', feedId: 12 });
+    expect(parseStreamId('user/-/label/技术/前端')).toEqual({ type: 'label', name: '技术/前端' });
+    expect(parseStreamId('user/1005921515/state/com.google/reading-list')).toEqual({ type: 'all' });
+    expect(parseStreamId('user/-/state/com.google/read')).toEqual({ type: 'read' });
+    expect(parseStreamId('user/-/state/com.google/starred')).toEqual({ type: 'starred' });
+  });
+
+  it('不支持的流返回 null', () => {
+    expect(parseStreamId('feed/https://example.com/rss')).toBeNull();
+    expect(parseStreamId('user/-/state/com.google/broadcast')).toBeNull();
+  });
+});
+
+describe('parseContinuation', () => {
+  it('只接受数字', () => {
+    expect(parseContinuation('42')).toBe(42);
+    expect(parseContinuation('abc')).toBeUndefined();
+    expect(parseContinuation(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * WebSub 测试
+ * 使用本地 HTTP 服务作为 hub
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  sendHubRequest,
+  signWebSubPayload,
+  verifyWebSubSignature,
+} from '@/lib/rss/websub';
+import { rssParser } from '@/lib/rss/parser';
+
+let hub: http.Server;
+let hubUrl: string;
+let requests: URLSearchParams[] = [];
+let hubStatus = 202;
+
+beforeAll(async () => {
+  hub = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      requests.push(new URLSearchParams(body));
+      res.statusCode = hubStatus;
+      res.end(hubStatus === 202 ? '' : 'topic not allowed');
+    });
+  });
+  await new Promise<void>((resolve) => hub.listen(0, '127.0.0.1', resolve));
+  hubUrl = `http://127.0.0.1:${(hub.address() as AddressInfo).port}/hub`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => hub.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+  hubStatus = 202;
+});
+
+describe('sendHubRequest', () => {
+  it('以表单提交订阅参数', async () => {
+    const result = await sendHubRequest({
+      hubUrl,
+      topicUrl: 'https://example.com/feed.xml',
+      callbackUrl: 'https://rss.example.com/api/websub/f1',
+      mode: 'subscribe',
+      secret: 's3cret',
+      leaseSeconds: 3600,
+    });
+
+    expect(result.accepted).toBe(true);
+    expect(requests).toHaveLength(1);
+    expect(Object.fromEntries(requests[0])).toEqual({
+      'hub.mode': 'subscribe',
+      'hub.topic': 'https://example.com/feed.xml',
+      'hub.callback': 'https://rss.example.com/api/websub/f1',
+      'hub.secret': 's3cret',
+      'hub.lease_seconds': '3600',
+    });
+  });
+
+  it('hub 拒绝时返回错误', async () => {
+    hubStatus = 400;
+    const result = await sendHubRequest({
+      hubUrl,
+      topicUrl: 'https://example.com/feed.xml',
+      callbackUrl: 'https://rss.example.com/api/websub/f1',
+      mode: 'unsubscribe',
+    });
+
+    expect(result.accepted).toBe(false);
+    expect(result.error).toContain('400');
+  });
+});
+
+describe('verifyWebSubSignature', () => {
+  const body = Buffer.from('<rss><channel><title>t</title></channel></rss>');
+
+  it('接受 sha1 和 sha256 签名', () => {
+    expect(verifyWebSubSignature(body, 'key', signWebSubPayload(body, 'key'))).toBe(true);
+    expect(verifyWebSubSignature(body, 'key', signWebSubPayload(body, 'key', 'sha256'))).toBe(true);
+  });
+
+  it('拒绝错误密钥、缺失签名和不支持的算法', () => {
+    expect(verifyWebSubSignature(body, 'key', signWebSubPayload(body, 'other'))).toBe(false);
+    expect(verifyWebSubSignature(body, 'key', null)).toBe(false);
+    expect(verifyWebSubSignature(body, 'key', 'md5=abc')).toBe(false);
+  });
+});
+
+describe('hub 链接解析', () => {
+  it('RSS 中的 atom:link', async () => {
+    const feed = await rssParser.parseFeedString(`<?xml version="1.0"?>
+      <rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+        <channel>
+          <title>Example</title>
+          <link>https://example.com</link>
+          <atom:link rel="hub" href="https://pubsubhubbub.appspot.com/" />
+          <atom:link rel="self" href="https://example.com/feed.xml" type="application/rss+xml" />
+        </channel>
+      </rss>`);
+
+    expect(feed.hubUrl).toBe('https://pubsubhubbub.appspot.com/');
+    expect(feed.selfUrl).toBe('https://example.com/feed.xml');
+  });
+
+  it('Atom 中的 link', async () => {
+    const feed = await rssParser.parseFeedString(`<?xml version="1.0"?>
+      <feed xmlns="http://www.w3.org/2005/Atom">
+        <title>Example</title>
+        <link rel="alternate" href="https://example.com/" />
+        <link rel="self" href="https://example.com/atom.xml" />
+        <link rel="hub" href="https://hub.example.com/" />
+      </feed>`);
+
+    expect(feed.hubUrl).toBe('https://hub.example.com/');
+    expect(feed.selfUrl).toBe('https://example.com/atom.xml');
+  });
+});